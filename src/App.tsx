@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, getCurrentUser, getProfile, Profile } from './lib/supabase'
+import { supabase, Profile, hasValidSupabaseConfig, getCurrentUser } from './lib/supabase'
+import { db } from './lib/data'
 import { AuthForm } from './components/AuthForm'
 import { MainApp } from './components/MainApp'
 
@@ -9,6 +10,15 @@ function App() {
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
+    // Offline there is no auth server; sign straight in as the fixture user
+    if (!hasValidSupabaseConfig()) {
+      getCurrentUser().then(offlineUser => {
+        setUser(offlineUser)
+        loadProfile(offlineUser.id)
+      })
+      return
+    }
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null)
@@ -36,14 +46,12 @@ function App() {
   }, [])
 
   const loadProfile = async (userId: string) => {
-    try {
-      const profileData = await getProfile(userId)
-      setProfile(profileData)
-    } catch (error) {
+    const { data, error } = await db.profiles.get(userId)
+    if (error) {
       console.error('Error loading profile:', error)
-    } finally {
-      setLoading(false)
     }
+    setProfile(data)
+    setLoading(false)
   }
 
   if (loading) {
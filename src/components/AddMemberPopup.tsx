@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { X, UserPlus, Search, Users } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import { getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface AddMemberPopupProps {
   communityId: string
@@ -28,19 +29,12 @@ export function AddMemberPopup({ communityId, onMemberAdded, onClose }: AddMembe
 
     try {
       // Search for users by username or email
-      const { data: profiles, error: searchError } = await supabase
-        .from('profiles')
-        .select('id, username, display_name, full_name')
-        .or(`username.ilike.%${searchTerm}%,display_name.ilike.%${searchTerm}%,full_name.ilike.%${searchTerm}%`)
-        .limit(10)
+      const { data: profiles, error: searchError } = await db.profiles.search(searchTerm)
 
       if (searchError) throw searchError
 
       // Filter out users who are already members
-      const { data: existingMembers, error: memberError } = await supabase
-        .from('community_memberships')
-        .select('user_id')
-        .eq('community_id', communityId)
+      const { data: existingMembers, error: memberError } = await db.communities.listMembers(communityId)
 
       if (memberError) throw memberError
 
@@ -66,18 +60,16 @@ export function AddMemberPopup({ communityId, onMemberAdded, onClose }: AddMembe
     setSuccess(null)
 
     try {
-      // Add user to community
-      const { error: inviteError } = await supabase
-        .from('community_memberships')
-        .insert([{
-          community_id: communityId,
-          user_id: userId,
-          role: 'member'
-        }])
-
-      if (inviteError) throw inviteError
-
-      setSuccess(`Successfully added ${username} to the community!`)
+      // They join once they accept
+      const user = await getCurrentUser()
+      if (!user) throw new Error('You need to be signed in to invite members')
+      const { error: inviteError } = await db.invites.invite(communityId, userId, user.id)
+
+      if (inviteError) {
+        throw inviteError.code === 'conflict' ? new Error(`${username} already has a pending invite`) : inviteError
+      }
+
+      setSuccess(`Invite sent to ${username}!`)
       
       // Remove user from search results
       setSearchResults(prev => prev.filter(user => user.id !== userId))
@@ -88,7 +80,7 @@ export function AddMemberPopup({ communityId, onMemberAdded, onClose }: AddMembe
       }, 1500)
     } catch (error: any) {
       console.error('Error inviting user:', error)
-      setError(error.message || 'Failed to add member')
+      setError(error.message || 'Failed to send invite')
     } finally {
       setIsInviting(false)
     }
@@ -195,7 +187,7 @@ export function AddMemberPopup({ communityId, onMemberAdded, onClose }: AddMembe
                     className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-orange-500/20 to-red-500/20 hover:from-orange-500/30 hover:to-red-500/30 text-orange-700 rounded-lg transition-all duration-200 hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
                   >
                     <UserPlus className="w-4 h-4" />
-                    <span className="text-sm">Add</span>
+                    <span className="text-sm">Invite</span>
                   </button>
                 </div>
               ))}
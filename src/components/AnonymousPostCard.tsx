@@ -1,26 +1,89 @@
 import React, { useState } from 'react'
-import { Heart, MessageCircle, Share, MoreHorizontal } from 'lucide-react'
+import { Heart, MessageCircle, Share, Flag, Pencil, Trash2 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
-import { Post, Profile } from '../lib/supabase'
+import { Post, Profile, ReactionType } from '../lib/supabase'
+import { db } from '../lib/data'
+import { pseudonymFor } from '../lib/pseudonyms'
+import { CommentThread } from './CommentThread'
+import { PostMenu } from './PostMenu'
+import { PostRevisionsModal } from './PostRevisionsModal'
+import { ReportDialog } from './ReportDialog'
 
 interface AnonymousPostCardProps {
   post: Post
   currentUser: Profile
-  onLike: (postId: string) => void
-  onComment: (postId: string, content: string) => void
+  onReact: (postId: string, reaction: ReactionType | null) => void
+  onComment: (postId: string, content: string, parentId?: string | null) => void
+  // Told after the author edits the post, to refetch it
+  onChanged?: (postId: string) => void
+  onDeleted?: (postId: string) => void
 }
 
-export function AnonymousPostCard({ post, currentUser, onLike, onComment }: AnonymousPostCardProps) {
+// Anonymous posts show a pseudonym that stays the same for each person within
+// the post's thread. Only the author (and site admins) get the real `user_id`.
+export function AnonymousPostCard({ post, currentUser, onReact, onComment, onChanged, onDeleted }: AnonymousPostCardProps) {
   const [showComments, setShowComments] = useState(false)
+  const [reporting, setReporting] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [editText, setEditText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
+  const [showRevisions, setShowRevisions] = useState(false)
   const [commentText, setCommentText] = useState('')
   const [isSubmittingComment, setIsSubmittingComment] = useState(false)
 
   const isLiked = post.likes?.some(like => like.user_id === currentUser.id) || false
   const likesCount = post._count?.likes || 0
   const commentsCount = post._count?.comments || 0
+  const isOwn = post.user_id === currentUser.id
+  const pseudonym = pseudonymFor(post.id, post.author_alias)
+  // The viewer's own pseudonym here, once they have one
+  const myAlias = isOwn ? post.author_alias : post.comments?.find(comment => comment.user_id === currentUser.id)?.author_alias
+  const myPseudonym = pseudonymFor(post.id, myAlias)
 
+  // Anonymous posts keep a plain like; the full palette would invite
+  // "who reacted" lists that don't belong in this section
   const handleLike = () => {
-    onLike(post.id)
+    onReact(post.id, isLiked ? null : 'like')
+  }
+
+  const startEdit = () => {
+    setEditText(post.content)
+    setEditError(null)
+    setEditing(true)
+  }
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const content = editText.trim()
+    if (!content || saving) return
+    if (content === post.content) {
+      setEditing(false)
+      return
+    }
+
+    setSaving(true)
+    setEditError(null)
+    const { error } = await db.posts.update(post.id, { content }, currentUser.id)
+    setSaving(false)
+    if (error) {
+      console.error('Error editing post:', error)
+      setEditError(error.message || 'Failed to save the post')
+      return
+    }
+    setEditing(false)
+    onChanged?.(post.id)
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this anonymous post? Its comments will be deleted too.')) return
+
+    const { error } = await db.posts.remove(post.id, currentUser.id)
+    if (error) {
+      console.error('Error deleting post:', error)
+      return
+    }
+    onDeleted?.(post.id)
   }
 
   const handleComment = async (e: React.FormEvent) => {
@@ -44,27 +107,72 @@ export function AnonymousPostCard({ post, currentUser, onLike, onComment }: Anon
       <div className="p-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
-            <div className="w-10 h-10 bg-gradient-to-br from-gray-400 to-gray-500 rounded-full flex items-center justify-center">
-              <span className="text-white font-semibold text-sm">?</span>
+            <div className={`w-10 h-10 bg-gradient-to-br ${pseudonym.color} rounded-full flex items-center justify-center`}>
+              <span className="text-white font-semibold text-sm">{pseudonym.initials}</span>
             </div>
             <div>
-              <h3 className="font-semibold text-gray-900">Anonymous</h3>
+              <h3 className="font-semibold text-gray-900 flex items-center space-x-1">
+                <span>{pseudonym.name}</span>
+                {isOwn && <span className="text-sm font-normal text-gray-500">(you)</span>}
+              </h3>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <span>{formatDistanceToNow(new Date(post.created_at))} ago</span>
+                {post.edited_at && (isOwn || currentUser.is_site_admin ? (
+                  <button onClick={() => setShowRevisions(true)} className="hover:underline" title="See edit history">
+                    (edited)
+                  </button>
+                ) : (
+                  <span>(edited)</span>
+                ))}
                 <span>•</span>
                 <span className="text-gray-600 font-medium">Anonymous Post</span>
               </div>
             </div>
           </div>
-          <button className="p-2 hover:bg-gray-100 rounded-full transition-colors">
-            <MoreHorizontal className="w-5 h-5 text-gray-500" />
-          </button>
+          <PostMenu
+            items={isOwn
+              ? [
+                { label: 'Edit post', icon: Pencil, onClick: startEdit },
+                { label: 'Delete post', icon: Trash2, onClick: handleDelete, danger: true },
+              ]
+              : [{ label: 'Report post', icon: Flag, onClick: () => setReporting(true) }]}
+          />
         </div>
       </div>
 
       {/* Content - Text Only */}
       <div className="px-4 pb-4">
-        <p className="text-gray-900 whitespace-pre-wrap">{post.content}</p>
+        {editing ? (
+          <form onSubmit={handleSaveEdit}>
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent resize-none"
+              rows={4}
+              maxLength={500}
+              autoFocus
+            />
+            {editError && <p className="text-sm text-red-600 mt-1">{editError}</p>}
+            <div className="flex justify-end space-x-2 mt-2">
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="px-4 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!editText.trim() || saving}
+                className="px-4 py-1.5 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-gray-900 whitespace-pre-wrap">{post.content}</p>
+        )}
       </div>
 
       {/* Actions */}
@@ -105,14 +213,14 @@ export function AnonymousPostCard({ post, currentUser, onLike, onComment }: Anon
           {/* Comment Form - Also Anonymous */}
           <form onSubmit={handleComment} className="p-4 border-b border-gray-100">
             <div className="flex space-x-3">
-              <div className="w-8 h-8 bg-gradient-to-br from-gray-400 to-gray-500 rounded-full flex items-center justify-center flex-shrink-0">
-                <span className="text-white font-semibold text-xs">?</span>
+              <div className={`w-8 h-8 bg-gradient-to-br ${myPseudonym.color} rounded-full flex items-center justify-center flex-shrink-0`}>
+                <span className="text-white font-semibold text-xs">{myPseudonym.initials}</span>
               </div>
               <div className="flex-1">
                 <textarea
                   value={commentText}
                   onChange={(e) => setCommentText(e.target.value)}
-                  placeholder="Comment anonymously..."
+                  placeholder={typeof myAlias === 'number' ? `Comment as ${myPseudonym.name}...` : 'Comment anonymously...'}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent resize-none"
                   rows={2}
                 />
@@ -131,37 +239,38 @@ export function AnonymousPostCard({ post, currentUser, onLike, onComment }: Anon
 
           {/* Comments List - All Anonymous */}
           <div className="max-h-96 overflow-y-auto">
-            {post.comments && post.comments.length > 0 ? (
-              <div className="divide-y divide-gray-100">
-                {post.comments.map((comment) => (
-                  <div key={comment.id} className="p-4">
-                    <div className="flex space-x-3">
-                      <div className="w-8 h-8 bg-gradient-to-br from-gray-400 to-gray-500 rounded-full flex items-center justify-center flex-shrink-0">
-                        <span className="text-white font-semibold text-xs">?</span>
-                      </div>
-                      <div className="flex-1">
-                        <div className="bg-gray-50 rounded-lg px-3 py-2">
-                          <h4 className="font-semibold text-sm text-gray-900">Anonymous</h4>
-                          <p className="text-gray-800 text-sm mt-1">{comment.content}</p>
-                        </div>
-                        <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                          <span>{formatDistanceToNow(new Date(comment.created_at))} ago</span>
-                          <button className="hover:text-gray-700 transition-colors">Like</button>
-                          <button className="hover:text-gray-700 transition-colors">Reply</button>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="p-4 text-center text-gray-500">
-                <p className="text-sm">No comments yet. Be the first to comment anonymously!</p>
-              </div>
-            )}
+            <div className="p-4">
+              <CommentThread
+                kind="post"
+                comments={post.comments || []}
+                currentUser={currentUser}
+                onReply={(content, parentId) => onComment(post.id, content, parentId)}
+                anonymous
+                emptyMessage="No comments yet. Be the first to comment anonymously!"
+              />
+            </div>
           </div>
         </div>
       )}
+
+      {showRevisions && (
+        <PostRevisionsModal
+          kind="post"
+          postId={post.id}
+          current={post}
+          viewerId={currentUser.id}
+          anonymous
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {reporting && (
+        <ReportDialog
+          target={{ type: 'post', id: post.id }}
+          currentUser={currentUser}
+          onClose={() => setReporting(false)}
+        />
+      )}
     </div>
   )
 }
@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { Send } from 'lucide-react'
-import { supabase, hasValidSupabaseConfig } from '../lib/supabase'
+import { getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface AnonymousPostFormProps {
   onPostCreated: () => void
@@ -19,30 +20,19 @@ export function AnonymousPostForm({ onPostCreated }: AnonymousPostFormProps) {
     setError(null)
     
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo mode - just show success message
-        alert('Anonymous post created! (Demo mode)')
-        setContent('')
-        onPostCreated()
-        return
-      }
-
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('No user found')
 
       console.log('Creating anonymous post...')
 
       // Create anonymous post in posts table with visibility 'anonymous'
-      const { error: insertError } = await supabase
-        .from('posts')
-        .insert({
-          user_id: user.id,
-          content: content.trim(),
-          images: null, // No images for anonymous posts
-          files: null,  // No files for anonymous posts
-          visibility: 'anonymous',
-          community_id: null
-        })
+      const { error: insertError } = await db.posts.create({
+        user_id: user.id,
+        content: content.trim(),
+        images: null, // No images for anonymous posts
+        files: null,  // No files for anonymous posts
+        visibility: 'anonymous'
+      })
 
       if (insertError) {
         console.error('Anonymous post creation error:', insertError)
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react'
+import { Ban, VolumeX } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { ProfileSummary, UserBlock, UserMute } from '../lib/supabase'
+import { db } from '../lib/data'
+
+interface BlockedUsersPanelProps {
+  currentUserId: string
+}
+
+// Everyone the user blocked or muted, with a way to undo each
+export function BlockedUsersPanel({ currentUserId }: BlockedUsersPanelProps) {
+  const [blocked, setBlocked] = useState<UserBlock[]>([])
+  const [muted, setMuted] = useState<UserMute[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadLists()
+  }, [currentUserId])
+
+  const loadLists = async () => {
+    setLoading(true)
+    setError(null)
+    const [blockedResult, mutedResult] = await Promise.all([
+      db.blocks.listBlocked(currentUserId),
+      db.blocks.listMuted(currentUserId),
+    ])
+
+    if (blockedResult.error || mutedResult.error) {
+      console.error('Error loading blocked and muted users:', blockedResult.error || mutedResult.error)
+      setError('Failed to load your blocked and muted users')
+    }
+    setBlocked(blockedResult.data || [])
+    setMuted(mutedResult.data || [])
+    setLoading(false)
+  }
+
+  const handleUnblock = async (userId: string) => {
+    setBusyId(userId)
+    const { error } = await db.blocks.setBlocked(currentUserId, userId, false)
+    setBusyId(null)
+    if (error) {
+      console.error('Error unblocking user:', error)
+      setError('Failed to unblock')
+      return
+    }
+    setBlocked(prev => prev.filter(block => block.blocked_id !== userId))
+  }
+
+  const handleUnmute = async (userId: string) => {
+    setBusyId(userId)
+    const { error } = await db.blocks.setMuted(currentUserId, userId, false)
+    setBusyId(null)
+    if (error) {
+      console.error('Error unmuting user:', error)
+      setError('Failed to unmute')
+      return
+    }
+    setMuted(prev => prev.filter(mute => mute.muted_id !== userId))
+  }
+
+  const nameOf = (profile: ProfileSummary | null | undefined) =>
+    profile?.display_name || profile?.full_name || profile?.username || 'Unknown user'
+
+  const renderRow = (userId: string, profile: ProfileSummary | null | undefined, since: string, action: string, onClick: () => void) => (
+    <li key={userId} className="flex items-center justify-between py-2">
+      <div className="flex items-center space-x-3">
+        <div className="w-9 h-9 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center">
+          <span className="text-white text-sm font-semibold">{nameOf(profile).charAt(0).toUpperCase()}</span>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-900">{nameOf(profile)}</p>
+          <p className="text-xs text-gray-500">since {formatDistanceToNow(new Date(since), { addSuffix: true })}</p>
+        </div>
+      </div>
+      <button
+        onClick={onClick}
+        disabled={busyId === userId}
+        className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+      >
+        {action}
+      </button>
+    </li>
+  )
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <section>
+        <h3 className="font-medium text-gray-900 flex items-center space-x-2">
+          <Ban className="w-4 h-4 text-gray-500" />
+          <span>Blocked ({blocked.length})</span>
+        </h3>
+        <p className="text-xs text-gray-500 mb-2">
+          You and these people don't see each other's posts or comments and can't message each other.
+        </p>
+        {blocked.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">You haven't blocked anyone.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {blocked.map(block => renderRow(block.blocked_id, block.profiles, block.created_at, 'Unblock', () => handleUnblock(block.blocked_id)))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h3 className="font-medium text-gray-900 flex items-center space-x-2">
+          <VolumeX className="w-4 h-4 text-gray-500" />
+          <span>Muted ({muted.length})</span>
+        </h3>
+        <p className="text-xs text-gray-500 mb-2">
+          Their posts are hidden from your feeds. They aren't told, and can still comment and message you.
+        </p>
+        {muted.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">You haven't muted anyone.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {muted.map(mute => renderRow(mute.muted_id, mute.profiles, mute.created_at, 'Unmute', () => handleUnmute(mute.muted_id)))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { Search, Filter, Package, Star, MapPin, Clock, Eye, Heart } from 'lucide-react'
-import { supabase, MarketplaceItem, hasValidSupabaseConfig } from '../lib/supabase'
+import { MarketplaceItem } from '../lib/supabase'
+import { db } from '../lib/data'
 import { formatDistanceToNow } from 'date-fns'
 
 interface BrowseItemsProps {
@@ -28,115 +29,11 @@ export function BrowseItems({ onItemClick }: BrowseItemsProps) {
       setError(null)
       console.log('🔍 BrowseItems: Loading marketplace items...')
 
-      if (!hasValidSupabaseConfig()) {
-        console.log('📝 BrowseItems: Using demo data (Supabase not configured)')
-        // Demo data when Supabase is not configured
-        const demoItems: MarketplaceItem[] = [
-          {
-            id: 'demo-1',
-            title: 'MacBook Pro 14" M3',
-            description: 'Excellent condition MacBook Pro with M3 chip. Perfect for developers and creative professionals.',
-            price: 1899.99,
-            category: 'Electronics',
-            condition: 'Like New',
-            images: ['https://images.pexels.com/photos/205421/pexels-photo-205421.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            location: 'Jakarta',
-            seller_id: 'demo-seller-1',
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(),
-            is_available: true,
-            profiles: {
-              id: 'demo-seller-1',
-              full_name: 'Tech Seller',
-              display_name: 'techseller',
-              email: 'tech@example.com',
-              avatar_url: null,
-              bio: 'Selling quality tech items',
-              website: null,
-              location: 'Jakarta',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          },
-          {
-            id: 'demo-2',
-            title: 'Vintage Leather Jacket',
-            description: 'Authentic vintage leather jacket from the 80s. Great condition with unique character.',
-            price: 299.99,
-            category: 'Clothing',
-            condition: 'Good',
-            images: ['https://images.pexels.com/photos/1124465/pexels-photo-1124465.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            location: 'Bandung',
-            seller_id: 'demo-seller-2',
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 48).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 48).toISOString(),
-            is_available: true,
-            profiles: {
-              id: 'demo-seller-2',
-              full_name: 'Fashion Lover',
-              display_name: 'fashionista',
-              email: 'fashion@example.com',
-              avatar_url: null,
-              bio: 'Vintage fashion enthusiast',
-              website: null,
-              location: 'Bandung',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          },
-          {
-            id: 'demo-3',
-            title: 'Programming Books Collection',
-            description: 'Collection of essential programming books including Clean Code, Design Patterns, and more.',
-            price: 150.00,
-            category: 'Books',
-            condition: 'Good',
-            images: ['https://images.pexels.com/photos/159711/books-bookstore-book-reading-159711.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            location: 'Surabaya',
-            seller_id: 'demo-seller-3',
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 72).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 72).toISOString(),
-            is_available: true,
-            profiles: {
-              id: 'demo-seller-3',
-              full_name: 'Code Master',
-              display_name: 'codemaster',
-              email: 'code@example.com',
-              avatar_url: null,
-              bio: 'Software developer and book collector',
-              website: null,
-              location: 'Surabaya',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          }
-        ]
-        
-        setItems(demoItems)
-        console.log('✅ BrowseItems: Demo data loaded:', demoItems.length, 'items')
-        setLoading(false)
-        return
-      }
-
-      console.log('🔗 BrowseItems: Fetching from Supabase...')
-      const { data, error } = await supabase
-        .from('marketplace_items')
-        .select(`
-          *,
-          profiles!marketplace_items_seller_id_fkey (
-            id,
-            full_name,
-            display_name,
-            avatar_url,
-            location
-          )
-        `)
-        .eq('is_available', true)
-        .order('created_at', { ascending: false })
+      const { data, error } = await db.marketplace.listAvailable()
 
       if (error) {
         console.error('❌ BrowseItems: Error fetching marketplace items:', error)
-        console.error('Error details:', error.message, error.details, error.hint)
+        console.error('Error details:', error.code, error.cause)
         setError(`Failed to load items: ${error.message}`)
         setItems([])
       } else {
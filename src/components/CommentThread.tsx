@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Comment, Like, PostKind, Profile, ReactionType } from '../lib/supabase'
+import { db } from '../lib/data'
+import { countReactions } from '../lib/reactions'
+import { CommentNode, VISIBLE_REPLIES, buildCommentTree, countReplies, replyParentId } from '../lib/commentThreads'
+import { ReactionBar } from './ReactionBar'
+import { ReportDialog } from './ReportDialog'
+import { commentReportType } from '../lib/moderation'
+import { pseudonymFor } from '../lib/pseudonyms'
+
+interface CommentThreadProps {
+  kind: PostKind
+  comments: Comment[]
+  currentUser: Profile
+  // Show per-thread pseudonyms instead of names and avatars, as on anonymous posts
+  anonymous?: boolean
+  // Leave out to hide the Reply buttons, e.g. where the viewer may not comment
+  onReply?: (content: string, parentId: string) => Promise<void> | void
+  // Told about each comment after it is edited or deleted
+  onCommentChange?: (comment: Comment) => void
+  // Reactions by comment id; the reaction bar only shows when these are given
+  commentLikes?: Record<string, Like[]>
+  likingComments?: Set<string>
+  onReactToComment?: (commentId: string, reaction: ReactionType | null) => void
+  emptyMessage?: string
+}
+
+// Nested comments with reply, edit and delete. Edits and deletes are applied
+// here as soon as they succeed; new replies go through `onReply` so the
+// caller can refresh the post and its counts.
+export function CommentThread({
+  kind,
+  comments,
+  currentUser,
+  anonymous = false,
+  onReply,
+  onCommentChange,
+  commentLikes,
+  likingComments,
+  onReactToComment,
+  emptyMessage = 'No comments yet. Be the first to comment!'
+}: CommentThreadProps) {
+  const [changed, setChanged] = useState<Record<string, Comment>>({})
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [reportingId, setReportingId] = useState<string | null>(null)
+
+  const tree = useMemo(
+    () => buildCommentTree(comments.map(comment => (changed[comment.id] ? { ...comment, ...changed[comment.id] } : comment))),
+    [comments, changed]
+  )
+
+  const applyChange = (comment: Comment) => {
+    setChanged(prev => ({ ...prev, [comment.id]: comment }))
+    onCommentChange?.(comment)
+  }
+
+  const toggleExpanded = (commentId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  const startReply = (node: CommentNode) => {
+    setEditingId(null)
+    setReplyingTo(node.comment.id)
+    setReplyText('')
+  }
+
+  const submitReply = async (e: React.FormEvent, node: CommentNode) => {
+    e.preventDefault()
+    if (!replyText.trim() || busyId || !onReply) return
+
+    const parentId = replyParentId(node)
+    setBusyId(node.comment.id)
+    try {
+      await onReply(replyText.trim(), parentId)
+      setReplyingTo(null)
+      setReplyText('')
+      // Make sure the new reply isn't hidden behind "show more"
+      setExpanded(prev => new Set(prev).add(parentId))
+    } catch (error) {
+      console.error('Error posting reply:', error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const startEdit = (comment: Comment) => {
+    setReplyingTo(null)
+    setEditingId(comment.id)
+    setEditText(comment.content)
+  }
+
+  const submitEdit = async (e: React.FormEvent, comment: Comment) => {
+    e.preventDefault()
+    const content = editText.trim()
+    if (!content || busyId) return
+    if (content === comment.content) {
+      setEditingId(null)
+      return
+    }
+
+    setBusyId(comment.id)
+    const { data, error } = await db.comments.update(kind, comment.id, content, currentUser.id)
+    setBusyId(null)
+    if (error) {
+      console.error('Error editing comment:', error)
+      return
+    }
+    applyChange(data)
+    setEditingId(null)
+  }
+
+  const deleteComment = async (comment: Comment) => {
+    if (busyId || !window.confirm('Delete this comment?')) return
+
+    setBusyId(comment.id)
+    const { data, error } = await db.comments.remove(kind, comment.id, currentUser.id)
+    setBusyId(null)
+    if (error) {
+      console.error('Error deleting comment:', error)
+      return
+    }
+    applyChange(data)
+  }
+
+  const authorName = (comment: Comment) => {
+    if (anonymous) return pseudonymFor(comment.post_id, comment.author_alias).name
+    return comment.profiles?.display_name || comment.profiles?.full_name || comment.profiles?.username || 'Unknown User'
+  }
+
+  const renderNode = (node: CommentNode): React.ReactNode => {
+    const { comment } = node
+    const isDeleted = !!comment.deleted_at
+    const isOwn = comment.user_id === currentUser.id
+    const isBusy = busyId === comment.id
+    const likes = commentLikes?.[comment.id] || []
+    const isLiking = likingComments?.has(comment.id) || false
+    const pseudonym = anonymous ? pseudonymFor(comment.post_id, comment.author_alias) : null
+
+    const isExpanded = expanded.has(comment.id)
+    const shownReplies = isExpanded ? node.replies : node.replies.slice(0, VISIBLE_REPLIES)
+    const hiddenCount = node.replies.slice(VISIBLE_REPLIES).reduce((count, reply) => count + 1 + countReplies(reply), 0)
+
+    return (
+      <div key={comment.id} className="space-y-3">
+        <div className="flex space-x-3">
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 bg-gradient-to-br ${
+            isDeleted ? 'from-gray-400 to-gray-500' : pseudonym ? pseudonym.color : 'from-green-500 to-blue-500'
+          }`}>
+            {!anonymous && !isDeleted && comment.profiles?.avatar_url ? (
+              <img
+                src={comment.profiles.avatar_url}
+                alt={authorName(comment)}
+                className="w-full h-full rounded-full object-cover"
+              />
+            ) : (
+              <span className="text-white font-semibold text-xs">
+                {isDeleted ? '?' : pseudonym ? pseudonym.initials : authorName(comment).charAt(0).toUpperCase()}
+              </span>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            {editingId === comment.id ? (
+              <form onSubmit={(e) => submitEdit(e, comment)}>
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-sm"
+                  rows={2}
+                  autoFocus
+                />
+                <div className="flex justify-end space-x-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!editText.trim() || isBusy}
+                    className="px-3 py-1 text-xs bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isBusy ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="bg-gray-50 rounded-lg px-3 py-2">
+                {isDeleted ? (
+                  <p className="text-sm text-gray-500 italic">This comment was deleted</p>
+                ) : (
+                  <>
+                    <h4 className="font-semibold text-sm text-gray-900 flex items-center space-x-1">
+                      <span>{authorName(comment)}</span>
+                      {pseudonym?.isAuthor && (
+                        <span className="px-1.5 py-0.5 bg-purple-100 text-purple-700 rounded text-[10px] font-bold">OP</span>
+                      )}
+                      {pseudonym && isOwn && <span className="text-xs font-normal text-gray-500">(you)</span>}
+                    </h4>
+                    <p className="text-gray-800 text-sm mt-1 whitespace-pre-wrap">{comment.content}</p>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
+              <span>{formatDistanceToNow(new Date(comment.created_at))} ago</span>
+              {comment.edited_at && !isDeleted && <span>(edited)</span>}
+              {!isDeleted && onReactToComment && (
+                <ReactionBar
+                  size="sm"
+                  target={{ commentId: comment.id }}
+                  likes={likes}
+                  counts={countReactions(likes)}
+                  total={likes.length}
+                  currentUserId={currentUser.id}
+                  onReact={reaction => onReactToComment(comment.id, reaction)}
+                  disabled={isLiking}
+                />
+              )}
+              {!isDeleted && onReply && (
+                <button onClick={() => startReply(node)} className="hover:text-gray-700 transition-colors">
+                  Reply
+                </button>
+              )}
+              {!isDeleted && isOwn && editingId !== comment.id && (
+                <>
+                  <button onClick={() => startEdit(comment)} className="hover:text-gray-700 transition-colors">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deleteComment(comment)}
+                    disabled={isBusy}
+                    className="hover:text-red-600 transition-colors disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+              {!isDeleted && !isOwn && (
+                <button onClick={() => setReportingId(comment.id)} className="hover:text-red-600 transition-colors">
+                  Report
+                </button>
+              )}
+            </div>
+
+            {replyingTo === comment.id && (
+              <form onSubmit={(e) => submitReply(e, node)} className="mt-3">
+                <textarea
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  placeholder={`Reply to ${authorName(comment)}...`}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-sm"
+                  rows={2}
+                  autoFocus
+                />
+                <div className="flex justify-end space-x-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(null)}
+                    className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!replyText.trim() || isBusy}
+                    className="px-3 py-1 text-xs bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isBusy ? 'Posting...' : 'Reply'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+
+        {node.replies.length > 0 && (
+          <div className="ml-11 space-y-3 border-l-2 border-gray-100 pl-3">
+            {shownReplies.map(renderNode)}
+            {node.replies.length > VISIBLE_REPLIES && (
+              <button
+                onClick={() => toggleExpanded(comment.id)}
+                className="text-xs font-medium text-purple-600 hover:text-purple-700 transition-colors"
+              >
+                {isExpanded ? 'Hide replies' : `Show ${hiddenCount} more ${hiddenCount === 1 ? 'reply' : 'replies'}`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (tree.length === 0) {
+    return <p className="text-sm text-center text-gray-500">{emptyMessage}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {tree.map(renderNode)}
+      {reportingId && (
+        <ReportDialog
+          target={{ type: commentReportType(kind), id: reportingId }}
+          currentUser={currentUser}
+          onClose={() => setReportingId(null)}
+        />
+      )}
+    </div>
+  )
+}
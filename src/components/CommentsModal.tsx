@@ -1,16 +1,10 @@
 import React, { useState, useEffect } from 'react'
-import { X, Send, Heart, MoreHorizontal } from 'lucide-react'
-import { supabase, Post, Profile } from '../lib/supabase'
+import { X, Send } from 'lucide-react'
+import { getCurrentUser, Comment, Like, Post, Profile, ReactionType } from '../lib/supabase'
+import { db } from '../lib/data'
 import { formatDistanceToNow } from 'date-fns'
-
-interface Comment {
-  id: string
-  content: string
-  created_at: string
-  user_id: string
-  post_id: string
-  profiles: Profile
-}
+import { countLiveComments } from '../lib/commentThreads'
+import { CommentThread } from './CommentThread'
 
 interface CommentsModalProps {
   post: Post & {
@@ -28,7 +22,7 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
   const [newComment, setNewComment] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
-  const [commentLikes, setCommentLikes] = useState<Record<string, { user_id: string; isLiked: boolean; count: number }>>({})
+  const [commentLikes, setCommentLikes] = useState<Record<string, Like[]>>({})
   const [likingComments, setLikingComments] = useState<Set<string>>(new Set())
 
   useEffect(() => {
@@ -40,20 +34,7 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
       console.log('🔍 Fetching comments for post:', post.id)
       
       // Fetch comments
-      const { data: comments, error } = await supabase
-        .from('comments')
-        .select(`
-          *,
-          profiles (
-            id,
-            full_name,
-            display_name,
-            avatar_url,
-            email
-          )
-        `)
-        .eq('post_id', post.id)
-        .order('created_at', { ascending: true })
+      const { data: comments, error } = await db.comments.listForPost('post', post.id, currentUser.id)
 
       if (error) {
         console.error('❌ Error fetching comments:', error)
@@ -79,11 +60,7 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
     try {
       console.log('🔍 Fetching likes for comment IDs:', commentIds)
       
-      const { data: likes, error } = await supabase
-        .from('likes')
-        .select('comment_id, user_id')
-        .in('comment_id', commentIds)
-        .not('comment_id', 'is', null)
+      const { data: likes, error } = await db.reactions.listCommentLikes(commentIds)
 
       if (error) {
         console.error('❌ Error fetching comment likes:', error)
@@ -92,39 +69,17 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
 
       console.log('✅ Comment likes fetched:', likes)
 
-      // Process likes data
-      const likesMap: Record<string, { user_id: string; isLiked: boolean; count: number }> = {}
-      
-      // Initialize all comments with zero likes
+      // Group reactions by comment
+      const likesMap: Record<string, Like[]> = {}
       commentIds.forEach(commentId => {
-        likesMap[commentId] = {
-          user_id: currentUser.id,
-          isLiked: false,
-          count: 0
+        likesMap[commentId] = []
+      })
+      likes?.forEach(like => {
+        if (like.comment_id) {
+          likesMap[like.comment_id] = [...(likesMap[like.comment_id] || []), like]
         }
       })
 
-      // Process actual likes
-      if (likes) {
-        likes.forEach(like => {
-          if (like.comment_id) {
-            if (!likesMap[like.comment_id]) {
-              likesMap[like.comment_id] = {
-                user_id: currentUser.id,
-                isLiked: false,
-                count: 0
-              }
-            }
-            
-            likesMap[like.comment_id].count++
-            
-            if (like.user_id === currentUser.id) {
-              likesMap[like.comment_id].isLiked = true
-            }
-          }
-        })
-      }
-
       console.log('📊 Processed comment likes map:', likesMap)
       setCommentLikes(likesMap)
     } catch (error) {
@@ -139,20 +94,16 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
     try {
       setIsSubmitting(true)
       
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('User not authenticated')
 
       console.log('💬 Submitting comment:', newComment.trim())
 
-      const { data: insertedComment, error } = await supabase
-        .from('comments')
-        .insert({
-          content: newComment.trim(),
-          post_id: post.id,
-          user_id: user.id
-        })
-        .select()
-        .single()
+      const { data: insertedComment, error } = await db.comments.create('post', {
+        content: newComment.trim(),
+        post_id: post.id,
+        user_id: user.id
+      })
 
       if (error) {
         console.error('❌ Error inserting comment:', error)
@@ -175,74 +126,48 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
     }
   }
 
-  const handleLikeComment = async (commentId: string) => {
+  const handleReply = async (content: string, parentId: string) => {
+    const { error } = await db.comments.create('post', {
+      content,
+      post_id: post.id,
+      user_id: currentUser.id,
+      parent_id: parentId
+    })
+
+    if (error) {
+      console.error('❌ Error posting reply:', error)
+      throw error
+    }
+
+    await fetchComments()
+    onUpdate()
+  }
+
+  const handleReactToComment = async (commentId: string, reaction: ReactionType | null) => {
     if (likingComments.has(commentId)) return
     
     try {
       setLikingComments(prev => new Set([...prev, commentId]))
       
-      const currentLikeData = commentLikes[commentId]
-      const isCurrentlyLiked = currentLikeData?.isLiked || false
-      
-      console.log('❤️ Toggling like for comment:', commentId)
-      console.log('👤 Current user ID:', currentUser.id)
-      console.log('📊 Currently liked:', isCurrentlyLiked)
-      
-      if (isCurrentlyLiked) {
-        // Unlike - remove from likes table
-        console.log('👎 Removing like from likes table...')
-        const { error } = await supabase
-          .from('likes')
-          .delete()
-          .eq('comment_id', commentId)
-          .eq('user_id', currentUser.id)
-        
-        if (error) {
-          console.error('❌ Error removing comment like:', error)
-          throw error
-        }
-        console.log('✅ Comment like removed successfully')
-        
-        // Update local state
-        setCommentLikes(prev => ({
-          ...prev,
-          [commentId]: {
-            ...prev[commentId],
-            isLiked: false,
-            count: Math.max(0, (prev[commentId]?.count || 0) - 1)
-          }
-        }))
-      } else {
-        // Like - add to likes table
-        console.log('👍 Adding like to likes table...')
-        const { data, error } = await supabase
-          .from('likes')
-          .insert({
-            comment_id: commentId,
-            user_id: currentUser.id,
-            post_id: null // Explicitly set post_id to null for comment likes
-          })
-          .select()
+      console.log('😀 Setting reaction for comment:', commentId, reaction)
+      const { data, error } = await db.reactions.setCommentReaction(commentId, currentUser.id, reaction)
 
-        if (error) {
-          console.error('❌ Error adding comment like:', error)
-          console.error('Error details:', error.message, error.details, error.hint)
-          throw error
-        }
-        console.log('✅ Comment like added successfully:', data)
-        
-        // Update local state
-        setCommentLikes(prev => ({
-          ...prev,
-          [commentId]: {
-            ...prev[commentId],
-            isLiked: true,
-            count: (prev[commentId]?.count || 0) + 1
-          }
-        }))
+      if (error) {
+        console.error('❌ Error updating comment reaction:', error)
+        throw error
       }
+      console.log('✅ Comment reaction updated:', data)
+      
+      // Swap the current user's entry for the new one
+      setCommentLikes(prev => ({
+        ...prev,
+        [commentId]: [
+          ...(prev[commentId] || []).filter(like => like.user_id !== currentUser.id),
+          ...(data ? [data] : [])
+        ]
+      }))
     } catch (error) {
-      console.error('❌ Error toggling comment like:', error)
+      console.error('❌ Error updating comment reaction:', error)
     } finally {
       setLikingComments(prev => {
         const newSet = new Set(prev)
@@ -258,7 +183,7 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-900">
-            Comments ({comments.length})
+            Comments ({countLiveComments(comments)})
           </h2>
           <button
             onClick={onClose}
@@ -305,65 +230,17 @@ export function CommentsModal({ post, currentUser, onClose, onUpdate }: Comments
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
               <span className="ml-2 text-gray-500">Loading comments...</span>
             </div>
-          ) : comments.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-gray-500">No comments yet. Be the first to comment!</p>
-            </div>
           ) : (
-            <div className="space-y-4">
-              {comments.map((comment) => {
-                const likeData = commentLikes[comment.id] || { isLiked: false, count: 0 }
-                const isLiked = likeData.isLiked
-                const likesCount = likeData.count
-                const isLiking = likingComments.has(comment.id)
-
-                return (
-                  <div key={comment.id} className="flex items-start space-x-3">
-                    <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center flex-shrink-0">
-                      {comment.profiles?.avatar_url ? (
-                        <img 
-                          src={comment.profiles.avatar_url} 
-                          alt={comment.profiles.display_name || comment.profiles.full_name || 'User'}
-                          className="w-full h-full rounded-full object-cover"
-                        />
-                      ) : (
-                        <span className="text-white font-semibold text-xs">
-                          {(comment.profiles?.display_name || comment.profiles?.full_name || 'U').charAt(0).toUpperCase()}
-                        </span>
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="bg-gray-50 rounded-2xl px-3 py-2">
-                        <div className="flex items-center space-x-2 mb-1">
-                          <span className="font-medium text-sm text-gray-900">
-                            {comment.profiles?.display_name || comment.profiles?.full_name || 'Anonymous User'}
-                          </span>
-                          <span className="text-xs text-gray-500">
-                            {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                          </span>
-                        </div>
-                        <p className="text-sm text-gray-700">{comment.content}</p>
-                      </div>
-                      <div className="flex items-center space-x-4 mt-2 ml-3">
-                        <button
-                          onClick={() => handleLikeComment(comment.id)}
-                          disabled={isLiking}
-                          className={`flex items-center space-x-1 text-xs transition-colors ${
-                            isLiked ? 'text-red-500' : 'text-gray-500 hover:text-red-500'
-                          } ${isLiking ? 'opacity-50 cursor-not-allowed' : ''}`}
-                        >
-                          <Heart className={`w-3 h-3 ${isLiked ? 'fill-current' : ''} ${isLiking ? 'animate-pulse' : ''}`} />
-                          {likesCount > 0 && <span>{likesCount}</span>}
-                        </button>
-                        <button className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
-                          Reply
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                )
-              })}
-            </div>
+            <CommentThread
+              kind="post"
+              comments={comments}
+              currentUser={currentUser}
+              onReply={handleReply}
+              onCommentChange={updated => setComments(prev => prev.map(comment => (comment.id === updated.id ? updated : comment)))}
+              commentLikes={commentLikes}
+              likingComments={likingComments}
+              onReactToComment={handleReactToComment}
+            />
           )}
         </div>
 
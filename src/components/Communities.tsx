@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react'
-import { Users, Plus, Search, Crown, Shield, User } from 'lucide-react'
-import { Profile, Community, getCommunities, joinCommunity, leaveCommunity, getUserCommunities } from '../lib/supabase'
+import { Users, Plus, Search, Crown, Shield, User, Lock } from 'lucide-react'
+import { Profile, Community, CommunityJoinRequest } from '../lib/supabase'
+import { db } from '../lib/data'
+import { PendingInvites } from './PendingInvites'
 
 interface CommunitiesProps {
   currentUser: Profile
@@ -9,6 +11,7 @@ interface CommunitiesProps {
 export function Communities({ currentUser }: CommunitiesProps) {
   const [communities, setCommunities] = useState<Community[]>([])
   const [userCommunities, setUserCommunities] = useState<Community[]>([])
+  const [joinRequests, setJoinRequests] = useState<CommunityJoinRequest[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [activeTab, setActiveTab] = useState<'discover' | 'joined'>('discover')
@@ -19,33 +22,62 @@ export function Communities({ currentUser }: CommunitiesProps) {
 
   const loadData = async () => {
     setLoading(true)
-    const [allCommunities, joinedCommunities] = await Promise.all([
-      getCommunities(),
-      getUserCommunities()
+    const [allCommunities, joinedCommunities, myRequests] = await Promise.all([
+      db.communities.list({ orderBy: 'member_count', viewerId: currentUser.id }),
+      db.communities.listForMember(currentUser.id),
+      db.invites.listMyRequests(currentUser.id)
     ])
-    setCommunities(allCommunities)
-    setUserCommunities(joinedCommunities)
+    if (allCommunities.error) console.error('Error fetching communities:', allCommunities.error)
+    if (joinedCommunities.error) console.error('Error fetching user communities:', joinedCommunities.error)
+    if (myRequests.error) console.error('Error fetching join requests:', myRequests.error)
+    setCommunities(allCommunities.data || [])
+    setUserCommunities(joinedCommunities.data || [])
+    setJoinRequests(myRequests.data || [])
     setLoading(false)
   }
 
-  const handleJoinCommunity = async (communityId: string) => {
-    const success = await joinCommunity(communityId)
-    if (success) {
-      loadData()
+  const handleRequestToJoin = async (communityId: string) => {
+    const { error } = await db.invites.requestToJoin(communityId, currentUser.id)
+    if (error) {
+      console.error('Error requesting to join community:', error)
+      return
     }
+    loadData()
+  }
+
+  const handleCancelRequest = async (request: CommunityJoinRequest) => {
+    const { error } = await db.invites.cancelRequest(request.id)
+    if (error) {
+      console.error('Error cancelling join request:', error)
+      return
+    }
+    loadData()
   }
 
   const handleLeaveCommunity = async (communityId: string) => {
-    const success = await leaveCommunity(communityId)
-    if (success) {
-      loadData()
+    const { error } = await db.communities.leave(communityId, currentUser.id)
+    if (error) {
+      console.error('Error leaving community:', error)
+      return
     }
+    loadData()
   }
 
   const isUserMember = (communityId: string) => {
     return userCommunities.some(c => c.id === communityId)
   }
 
+  const pendingRequestFor = (communityId: string) => {
+    return joinRequests.find(request => request.community_id === communityId)
+  }
+
+  const handleMembershipButton = (community: Community) => {
+    const request = pendingRequestFor(community.id)
+    if (isUserMember(community.id)) handleLeaveCommunity(community.id)
+    else if (request) handleCancelRequest(request)
+    else handleRequestToJoin(community.id)
+  }
+
   const filteredCommunities = communities.filter(community =>
     community.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     community.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -84,6 +116,8 @@ export function Communities({ currentUser }: CommunitiesProps) {
           <p className="text-gray-600">Discover and join amazing communities</p>
         </div>
 
+        <PendingInvites currentUser={currentUser} onJoined={() => loadData()} />
+
         {/* Search and Tabs */}
         <div className="mb-6">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
@@ -147,7 +181,10 @@ export function Communities({ currentUser }: CommunitiesProps) {
                       </span>
                     </div>
                     <div className="flex-1">
-                      <h3 className="font-semibold text-gray-900">{community.name}</h3>
+                      <h3 className="font-semibold text-gray-900 flex items-center space-x-1">
+                        <span>{community.name}</span>
+                        {community.is_private && <Lock className="w-4 h-4 text-gray-400" />}
+                      </h3>
                       <div className="flex items-center space-x-2 text-sm text-gray-500">
                         <Users className="w-4 h-4" />
                         <span>{community.member_count.toLocaleString()} members</span>
@@ -158,14 +195,15 @@ export function Communities({ currentUser }: CommunitiesProps) {
                   <p className="text-gray-600 text-sm mb-4 line-clamp-3">{community.description}</p>
 
                   <button
-                    onClick={() => isUserMember(community.id) ? handleLeaveCommunity(community.id) : handleJoinCommunity(community.id)}
+                    onClick={() => handleMembershipButton(community)}
+                    title={pendingRequestFor(community.id) ? 'Waiting for an admin to approve; click to cancel' : undefined}
                     className={`w-full py-2 px-4 rounded-lg font-medium transition-colors ${
-                      isUserMember(community.id)
+                      isUserMember(community.id) || pendingRequestFor(community.id)
                         ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                         : 'bg-purple-600 text-white hover:bg-purple-700'
                     }`}
                   >
-                    {isUserMember(community.id) ? 'Leave' : 'Join'}
+                    {isUserMember(community.id) ? 'Leave' : pendingRequestFor(community.id) ? 'Requested' : 'Request to join'}
                   </button>
                 </div>
               ))
@@ -194,7 +232,10 @@ export function Communities({ currentUser }: CommunitiesProps) {
                       </span>
                     </div>
                     <div className="flex-1">
-                      <h3 className="font-semibold text-gray-900">{community.name}</h3>
+                      <h3 className="font-semibold text-gray-900 flex items-center space-x-1">
+                        <span>{community.name}</span>
+                        {community.is_private && <Lock className="w-4 h-4 text-gray-400" />}
+                      </h3>
                       <div className="flex items-center space-x-2 text-sm text-gray-500">
                         <Users className="w-4 h-4" />
                         <span>{community.member_count.toLocaleString()} members</span>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { Users, Plus, ArrowRight } from 'lucide-react'
-import { supabase, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import { Profile } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface Community {
   id: string
@@ -30,42 +31,8 @@ export function CommunitiesList({ currentUser, onCommunitySelect, onCreateCommun
       setLoading(true)
       setError(null)
 
-      if (!hasValidSupabaseConfig()) {
-        // Demo data for when Supabase is not configured
-        setCommunities([
-          {
-            id: 'gmik',
-            name: 'GMIK',
-            description: 'GMIK Community',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          },
-          {
-            id: 'programmer',
-            name: 'Programmer',
-            description: 'No Life Pipol',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          }
-        ])
-        setLoading(false)
-        return
-      }
-
       // Get user's community memberships
-      const { data: memberships, error: membershipError } = await supabase
-        .from('community_memberships')
-        .select(`
-          community_id,
-          communities!inner(
-            id,
-            name,
-            description,
-            created_at,
-            updated_at
-          )
-        `)
-        .eq('user_id', currentUser.id)
+      const { data: userCommunities, error: membershipError } = await db.communities.listForMember(currentUser.id)
 
       if (membershipError) {
         console.error('Error loading user communities:', membershipError)
@@ -74,8 +41,7 @@ export function CommunitiesList({ currentUser, onCommunitySelect, onCreateCommun
         return
       }
 
-      const userCommunities = memberships?.map(m => m.communities).filter(Boolean) || []
-      setCommunities(userCommunities)
+      setCommunities(userCommunities || [])
     } catch (error) {
       console.error('Error loading communities:', error)
       setError(`Failed to load communities: ${error instanceof Error ? error.message : 'Unknown error'}`)
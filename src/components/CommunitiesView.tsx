@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react'
-import { Users, Plus, ArrowRight, Search, AlertCircle } from 'lucide-react'
-import { supabase, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import { Users, Plus, ArrowRight, Search, AlertCircle, Clock } from 'lucide-react'
+import { Profile, CommunityJoinRequest, hasValidSupabaseConfig } from '../lib/supabase'
+import { db } from '../lib/data'
+import { PendingInvites } from './PendingInvites'
 
 interface Community {
   id: string
@@ -19,6 +21,7 @@ interface CommunitiesViewProps {
 export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesViewProps) {
   const [communities, setCommunities] = useState<Community[]>([])
   const [userCommunities, setUserCommunities] = useState<Community[]>([])
+  const [joinRequests, setJoinRequests] = useState<CommunityJoinRequest[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
@@ -33,47 +36,8 @@ export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesVie
       setLoading(true)
       setError(null)
 
-      if (!hasValidSupabaseConfig()) {
-        // Demo data for when Supabase is not configured
-        const demoCommunities = [
-          {
-            id: 'gmik',
-            name: 'GMIK',
-            description: 'GMIK Community - Connect with fellow members',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 42
-          },
-          {
-            id: 'programmer',
-            name: 'Programmer',
-            description: 'No Life Pipol - For developers and tech enthusiasts',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 128
-          },
-          {
-            id: 'design',
-            name: 'Design Hub',
-            description: 'Creative minds unite - Share your designs and get feedback',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 67
-          }
-        ]
-        
-        // User is member of first two communities
-        setUserCommunities(demoCommunities.slice(0, 2))
-        setCommunities(demoCommunities)
-        setLoading(false)
-        return
-      }
-
       // Load all communities
-      const { data: allCommunities, error: communitiesError } = await supabase
-        .from('communities')
-        .select('*')
-        .order('created_at', { ascending: false })
+      const { data: allCommunities, error: communitiesError } = await db.communities.list({ viewerId: currentUser.id })
 
       if (communitiesError) {
         console.error('Error loading communities:', communitiesError)
@@ -83,19 +47,7 @@ export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesVie
       }
 
       // Load user's community memberships
-      const { data: memberships, error: membershipError } = await supabase
-        .from('community_memberships')
-        .select(`
-          community_id,
-          communities!inner(
-            id,
-            name,
-            description,
-            created_at,
-            updated_at
-          )
-        `)
-        .eq('user_id', currentUser.id)
+      const { data: joinedCommunities, error: membershipError } = await db.communities.listForMember(currentUser.id)
 
       if (membershipError) {
         console.error('Error loading user communities:', membershipError)
@@ -104,10 +56,13 @@ export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesVie
         return
       }
 
-      const joinedCommunities = memberships?.map(m => m.communities).filter(Boolean) || []
-      
+      // Only used to label the buttons, so a failure here is not fatal
+      const { data: myRequests, error: requestsError } = await db.invites.listMyRequests(currentUser.id)
+      if (requestsError) console.error('Error loading join requests:', requestsError)
+
       setCommunities(allCommunities || [])
-      setUserCommunities(joinedCommunities)
+      setUserCommunities(joinedCommunities || [])
+      setJoinRequests(myRequests || [])
     } catch (error) {
       console.error('Error loading communities:', error)
       setError(`Failed to load communities: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -116,33 +71,20 @@ export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesVie
     }
   }
 
-  const handleJoinCommunity = async (communityId: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just show success message
-      alert('Joined community! (Demo mode)')
+  const handleRequestToJoin = async (communityId: string) => {
+    const pending = joinRequests.find(request => request.community_id === communityId)
+    const { error } = pending
+      ? await db.invites.cancelRequest(pending.id)
+      : await db.invites.requestToJoin(communityId, currentUser.id)
+
+    if (error) {
+      console.error('Error updating join request:', error)
+      alert(pending ? 'Failed to cancel your request. Please try again.' : 'Failed to send your request. Please try again.')
       return
     }
 
-    try {
-      const { error } = await supabase
-        .from('community_memberships')
-        .insert([{
-          user_id: currentUser.id,
-          community_id: communityId
-        }])
-
-      if (error) {
-        console.error('Error joining community:', error)
-        alert('Failed to join community. Please try again.')
-        return
-      }
-
-      // Reload communities to update the lists
-      loadCommunities()
-    } catch (error) {
-      console.error('Error joining community:', error)
-      alert('Failed to join community. Please try again.')
-    }
+    // Reload communities to update the lists
+    loadCommunities()
   }
 
   const getCommunityInitial = (name: string) => {
@@ -279,15 +221,17 @@ export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesVie
             <div className="flex items-start space-x-3">
               <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
               <div>
-                <h3 className="text-sm font-medium text-yellow-800">Demo Mode</h3>
+                <h3 className="text-sm font-medium text-yellow-800">Offline Mode</h3>
                 <p className="text-sm text-yellow-700 mt-1">
-                  Showing demo communities. Connect to Supabase to see real data.
+                  Showing sample communities saved in this browser. Connect to Supabase to see real data.
                 </p>
               </div>
             </div>
           </div>
         )}
 
+        <PendingInvites currentUser={currentUser} onJoined={() => loadCommunities()} />
+
         {activeTab === 'joined' ? (
           <div className="space-y-4">
             {userCommunities.length === 0 ? (
@@ -376,13 +320,24 @@ export function CommunitiesView({ currentUser, onShowCommunity }: CommunitiesVie
                     >
                       View
                     </button>
-                    <button
-                      onClick={() => handleJoinCommunity(community.id)}
-                      className="flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors flex items-center justify-center space-x-2"
-                    >
-                      <Plus className="w-4 h-4" />
-                      <span>Join</span>
-                    </button>
+                    {joinRequests.some(request => request.community_id === community.id) ? (
+                      <button
+                        onClick={() => handleRequestToJoin(community.id)}
+                        title="Waiting for an admin to approve; click to cancel"
+                        className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center justify-center space-x-2"
+                      >
+                        <Clock className="w-4 h-4" />
+                        <span>Requested</span>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleRequestToJoin(community.id)}
+                        className="flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors flex items-center justify-center space-x-2"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Request to join</span>
+                      </button>
+                    )}
                   </div>
                 </div>
               ))
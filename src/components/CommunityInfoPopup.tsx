@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react'
-import { X, Info, Users, UserPlus, Crown, Search, Shield, UserMinus } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import { X, Info, Users, UserPlus, Crown, Search, Shield, ShieldCheck, ShieldAlert, UserMinus, Lock } from 'lucide-react'
+import { getCurrentUser, Community, CommunityMembership, CommunityRole } from '../lib/supabase'
+import { db } from '../lib/data'
+import { InviteLinksPanel, JoinRequestsPanel, SentInvitesPanel } from './CommunityInvitesPanel'
+import { CommunityPermissionsPanel } from './CommunityPermissionsPanel'
+import { ModerationQueue } from './ModerationQueue'
+import { COMMUNITY_ROLES, ROLE_LABELS, canManageRoles, roleAllows } from '../lib/communityPermissions'
 
 interface CommunityInfoPopupProps {
   communityId: string
@@ -8,31 +13,12 @@ interface CommunityInfoPopupProps {
   onMemberAdded: () => void
 }
 
-interface CommunityInfo {
-  id: string
-  name: string
-  description: string
-  created_by: string
-  created_at: string
-}
-
-interface CommunityMember {
-  id: string
-  user_id: string
-  role: 'admin' | 'member'
-  joined_at: string
-  profiles: {
-    id: string
-    username: string
-    display_name: string
-    full_name: string
-  }
-}
-
 export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: CommunityInfoPopupProps) {
-  const [community, setCommunity] = useState<CommunityInfo | null>(null)
-  const [members, setMembers] = useState<CommunityMember[]>([])
-  const [currentUserRole, setCurrentUserRole] = useState<'admin' | 'member' | null>(null)
+  const [community, setCommunity] = useState<Community | null>(null)
+  const [members, setMembers] = useState<CommunityMembership[]>([])
+  const [currentUserRole, setCurrentUserRole] = useState<CommunityRole | null>(null)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [sentInvites, setSentInvites] = useState(0)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
@@ -52,11 +38,7 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
 
   const fetchCommunityInfo = async () => {
     try {
-      const { data, error } = await supabase
-        .from('communities')
-        .select('id, name, description, created_by, created_at')
-        .eq('id', communityId)
-        .single()
+      const { data, error } = await db.communities.get(communityId)
 
       if (error) throw error
       setCommunity(data)
@@ -68,23 +50,7 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
 
   const fetchMembers = async () => {
     try {
-      const { data, error } = await supabase
-        .from('community_memberships')
-        .select(`
-          id,
-          user_id,
-          role,
-          joined_at,
-          profiles (
-            id,
-            username,
-            display_name,
-            full_name
-          )
-        `)
-        .eq('community_id', communityId)
-        .order('role', { ascending: false }) // Admins first
-        .order('joined_at', { ascending: true })
+      const { data, error } = await db.communities.listMembers(communityId)
 
       if (error) throw error
       setMembers(data || [])
@@ -98,18 +64,14 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
 
   const fetchCurrentUserRole = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) return
+      setCurrentUserId(user.id)
 
-      const { data, error } = await supabase
-        .from('community_memberships')
-        .select('role')
-        .eq('community_id', communityId)
-        .eq('user_id', user.id)
-        .single()
+      const { data: role, error } = await db.communities.getRole(communityId, user.id)
 
       if (error) throw error
-      setCurrentUserRole(data?.role || null)
+      setCurrentUserRole(role)
     } catch (error: any) {
       console.error('Error fetching user role:', error)
     }
@@ -127,11 +89,7 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
 
     try {
       // Search for users by username or name
-      const { data: profiles, error: searchError } = await supabase
-        .from('profiles')
-        .select('id, username, display_name, full_name')
-        .or(`username.ilike.%${searchTerm}%,display_name.ilike.%${searchTerm}%,full_name.ilike.%${searchTerm}%`)
-        .limit(10)
+      const { data: profiles, error: searchError } = await db.profiles.search(searchTerm)
 
       if (searchError) throw searchError
 
@@ -158,22 +116,17 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
     setSuccess(null)
 
     try {
-      const { error: inviteError } = await supabase
-        .from('community_memberships')
-        .insert([{
-          community_id: communityId,
-          user_id: userId,
-          role: 'member'
-        }])
+      // They join once they accept
+      if (!currentUserId) throw new Error('You need to be signed in to invite members')
+      const { error: inviteError } = await db.invites.invite(communityId, userId, currentUserId)
 
-      if (inviteError) throw inviteError
+      if (inviteError) {
+        throw inviteError.code === 'conflict' ? new Error(`${username} already has a pending invite`) : inviteError
+      }
 
-      setSuccess(`Successfully added ${username} to the community!`)
+      setSuccess(`Invite sent to ${username}!`)
       setSearchResults(prev => prev.filter(user => user.id !== userId))
-      
-      // Refresh members list
-      await fetchMembers()
-      onMemberAdded()
+      setSentInvites(count => count + 1)
       
       // Clear search after successful invite
       setTimeout(() => {
@@ -184,21 +137,18 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
       }, 1500)
     } catch (error: any) {
       console.error('Error inviting user:', error)
-      setError(error.message || 'Failed to add member')
+      setError(error.message || 'Failed to send invite')
     } finally {
       setIsInviting(false)
     }
   }
 
-  const handleRoleChange = async (membershipId: string, newRole: 'admin' | 'member', username: string) => {
+  const handleRoleChange = async (membershipId: string, newRole: CommunityRole, username: string) => {
     try {
       setError(null)
       setSuccess(null)
 
-      const { error } = await supabase
-        .from('community_memberships')
-        .update({ role: newRole })
-        .eq('id', membershipId)
+      const { error } = await db.communities.updateMemberRole(membershipId, newRole)
 
       if (error) throw error
 
@@ -221,10 +171,7 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
       setError(null)
       setSuccess(null)
 
-      const { error } = await supabase
-        .from('community_memberships')
-        .delete()
-        .eq('id', membershipId)
+      const { error } = await db.communities.removeMember(membershipId)
 
       if (error) throw error
 
@@ -238,12 +185,12 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
     }
   }
 
-  const getDisplayName = (member: CommunityMember) => {
+  const getDisplayName = (member: CommunityMembership) => {
     const profile = member.profiles
     return profile.display_name || profile.full_name || profile.username || 'Unknown User'
   }
 
-  const getInitials = (member: CommunityMember) => {
+  const getInitials = (member: CommunityMembership) => {
     const name = getDisplayName(member)
     return name
       .split(' ')
@@ -261,7 +208,15 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
     })
   }
 
-  const isCurrentUserAdmin = currentUserRole === 'admin'
+  const isCurrentUserAdmin = canManageRoles(currentUserRole)
+  const canInvite = roleAllows(currentUserRole, 'invite', community)
+  const canModerate = roleAllows(currentUserRole, 'delete_posts', community)
+
+  const roleBadgeClass = (role: CommunityRole) => {
+    if (role === 'admin') return 'bg-yellow-500/20 text-yellow-700'
+    if (role === 'moderator') return 'bg-green-500/20 text-green-700'
+    return 'bg-gray-500/20 text-gray-700'
+  }
 
   if (loading) {
     return (
@@ -323,7 +278,15 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
           {/* Community Info */}
           {community && (
             <div className="backdrop-blur-xl bg-white/30 border border-white/20 rounded-xl p-4">
-              <h3 className="text-xl font-semibold text-gray-800 mb-2">{community.name}</h3>
+              <h3 className="text-xl font-semibold text-gray-800 mb-2 flex items-center space-x-2">
+                <span>{community.name}</span>
+                {community.is_private && (
+                  <span className="flex items-center space-x-1 px-2 py-0.5 bg-gray-500/20 text-gray-700 rounded-full text-xs font-medium">
+                    <Lock className="w-3 h-3" />
+                    <span>Invite only</span>
+                  </span>
+                )}
+              </h3>
               {community.description && (
                 <p className="text-gray-600 mb-3">{community.description}</p>
               )}
@@ -337,20 +300,43 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
             </div>
           )}
 
+          {community && (
+            <CommunityPermissionsPanel
+              community={community}
+              currentUserId={currentUserId}
+              currentUserRole={currentUserRole}
+              onSaved={(saved) => {
+                setCommunity(saved)
+                setSuccess('Permissions updated')
+                setTimeout(() => setSuccess(null), 3000)
+              }}
+            />
+          )}
+
+          {canModerate && currentUserId && (
+            <div className="backdrop-blur-xl bg-white/30 border border-white/20 rounded-xl p-4">
+              <h4 className="font-medium text-gray-800 mb-3 flex items-center space-x-2">
+                <ShieldAlert className="w-4 h-4 text-red-500" />
+                <span>Reports</span>
+              </h4>
+              <ModerationQueue communityId={communityId} currentUserId={currentUserId} canBan={isCurrentUserAdmin} />
+            </div>
+          )}
+
           {/* Admin Controls */}
-          {isCurrentUserAdmin && (
+          {canInvite && (
             <div className="backdrop-blur-xl bg-blue-500/10 border border-blue-500/20 rounded-xl p-4">
               <div className="flex items-center justify-between mb-3">
                 <h4 className="font-medium text-gray-800 flex items-center space-x-2">
                   <Shield className="w-4 h-4 text-blue-600" />
-                  <span>Admin Controls</span>
+                  <span>{isCurrentUserAdmin ? 'Admin Controls' : 'Member Invites'}</span>
                 </h4>
                 <button
                   onClick={() => setShowAddMember(!showAddMember)}
                   className="flex items-center space-x-2 px-3 py-1.5 bg-blue-500/20 hover:bg-blue-500/30 text-blue-700 rounded-lg transition-colors text-sm"
                 >
                   <UserPlus className="w-4 h-4" />
-                  <span>Add Member</span>
+                  <span>Invite Member</span>
                 </button>
               </div>
 
@@ -410,7 +396,7 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
                             className="flex items-center space-x-1 px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 text-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                           >
                             <UserPlus className="w-3 h-3" />
-                            <span>Add</span>
+                            <span>Invite</span>
                           </button>
                         </div>
                       ))}
@@ -418,6 +404,21 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
                   )}
                 </div>
               )}
+
+              {currentUserId && (
+                <div className="space-y-4 pt-3 mt-3 border-t border-blue-500/20">
+                  <SentInvitesPanel communityId={communityId} refreshKey={sentInvites} />
+                  <JoinRequestsPanel
+                    communityId={communityId}
+                    currentUserId={currentUserId}
+                    onApproved={() => {
+                      fetchMembers()
+                      onMemberAdded()
+                    }}
+                  />
+                  <InviteLinksPanel communityId={communityId} currentUserId={currentUserId} />
+                </div>
+              )}
             </div>
           )}
 
@@ -442,6 +443,9 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
                         {member.role === 'admin' && (
                           <Crown className="w-4 h-4 text-yellow-500" />
                         )}
+                        {member.role === 'moderator' && (
+                          <ShieldCheck className="w-4 h-4 text-green-600" />
+                        )}
                       </div>
                       <p className="text-sm text-gray-600">
                         @{member.profiles.username} • Joined {formatDate(member.joined_at)}
@@ -454,11 +458,12 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
                     <div className="flex items-center space-x-2">
                       <select
                         value={member.role}
-                        onChange={(e) => handleRoleChange(member.id, e.target.value as 'admin' | 'member', getDisplayName(member))}
+                        onChange={(e) => handleRoleChange(member.id, e.target.value as CommunityRole, getDisplayName(member))}
                         className="px-2 py-1 backdrop-blur-xl bg-white/50 border border-white/30 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
                       >
-                        <option value="member">Member</option>
-                        <option value="admin">Admin</option>
+                        {COMMUNITY_ROLES.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
                       </select>
                       <button
                         onClick={() => handleRemoveMember(member.id, getDisplayName(member))}
@@ -473,11 +478,7 @@ export function CommunityInfoPopup({ communityId, onClose, onMemberAdded }: Comm
                   {/* Show role for non-admins or community creator */}
                   {(!isCurrentUserAdmin || member.user_id === community?.created_by) && (
                     <div className="flex items-center space-x-2">
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        member.role === 'admin' 
-                          ? 'bg-yellow-500/20 text-yellow-700' 
-                          : 'bg-gray-500/20 text-gray-700'
-                      }`}>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${roleBadgeClass(member.role)}`}>
                         {member.role}
                         {member.user_id === community?.created_by && ' (Creator)'}
                       </span>
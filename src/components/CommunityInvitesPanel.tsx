@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react'
+import { Link2, Copy, Check, Ban, Plus, UserCheck, UserX, Clock, Mail, X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { CommunityInvite, CommunityInviteLink, CommunityJoinRequest } from '../lib/supabase'
+import { db } from '../lib/data'
+import {
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_LINK_STATE_LABELS,
+  INVITE_MAX_USE_OPTIONS,
+  inviteExpiry,
+  inviteLinkState,
+  inviteLinkUrl,
+} from '../lib/communityInvites'
+import { actorName } from '../lib/notifications'
+
+// Admin tools in the community info popup: shareable invite links, the queue
+// of join requests and invites still waiting for an answer.
+
+interface PanelProps {
+  communityId: string
+  currentUserId: string
+}
+
+export function InviteLinksPanel({ communityId, currentUserId }: PanelProps) {
+  const [links, setLinks] = useState<CommunityInviteLink[]>([])
+  const [expiryHours, setExpiryHours] = useState<number | null>(INVITE_EXPIRY_OPTIONS[1].hours)
+  const [maxUses, setMaxUses] = useState<number | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadLinks()
+  }, [communityId])
+
+  const loadLinks = async () => {
+    const { data, error } = await db.invites.listLinks(communityId)
+    if (error) {
+      console.error('Error loading invite links:', error)
+      setError('Failed to load invite links')
+      return
+    }
+    setLinks(data)
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    setError(null)
+    const { data, error } = await db.invites.createLink({
+      community_id: communityId,
+      created_by: currentUserId,
+      expires_at: inviteExpiry(expiryHours),
+      max_uses: maxUses,
+    })
+    setCreating(false)
+
+    if (error) {
+      console.error('Error creating invite link:', error)
+      setError(error.message || 'Failed to create invite link')
+      return
+    }
+    setLinks(prev => [data, ...prev])
+  }
+
+  const handleCopy = async (link: CommunityInviteLink) => {
+    try {
+      await navigator.clipboard.writeText(inviteLinkUrl(link.code))
+      setCopiedId(link.id)
+      setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000)
+    } catch (error) {
+      console.error('Error copying invite link:', error)
+      setError('Could not copy the link; select it and copy it manually')
+    }
+  }
+
+  const handleRevoke = async (link: CommunityInviteLink) => {
+    if (!confirm('Revoke this invite link? Nobody will be able to join with it any more.')) return
+    const { error } = await db.invites.revokeLink(link.id)
+    if (error) {
+      console.error('Error revoking invite link:', error)
+      setError(error.message || 'Failed to revoke invite link')
+      return
+    }
+    loadLinks()
+  }
+
+  return (
+    <div className="space-y-3">
+      <h5 className="text-sm font-medium text-gray-800 flex items-center space-x-2">
+        <Link2 className="w-4 h-4 text-blue-600" />
+        <span>Invite links</span>
+      </h5>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex items-center space-x-1 text-gray-600">
+          <span>Expires</span>
+          <select
+            value={expiryHours === null ? '' : String(expiryHours)}
+            onChange={(e) => setExpiryHours(e.target.value ? Number(e.target.value) : null)}
+            className="px-2 py-1 bg-white/50 border border-white/30 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            {INVITE_EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.hours === null ? '' : option.hours}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-1 text-gray-600">
+          <span>Uses</span>
+          <select
+            value={maxUses === null ? '' : String(maxUses)}
+            onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+            className="px-2 py-1 bg-white/50 border border-white/30 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            {INVITE_MAX_USE_OPTIONS.map(option => (
+              <option key={option ?? 'unlimited'} value={option ?? ''}>{option ?? 'Unlimited'}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          className="flex items-center space-x-1 px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 text-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{creating ? 'Creating...' : 'New link'}</span>
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {links.length > 0 && (
+        <div className="space-y-2 max-h-40 overflow-y-auto">
+          {links.map(link => {
+            const state = inviteLinkState(link)
+            return (
+              <div key={link.id} className="flex items-center justify-between p-2 bg-white/30 border border-white/20 rounded-lg">
+                <div className="min-w-0">
+                  <p className={`font-mono text-sm truncate ${state === 'active' ? 'text-gray-800' : 'text-gray-400 line-through'}`}>
+                    {inviteLinkUrl(link.code)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {INVITE_LINK_STATE_LABELS[state]} • {link.use_count}{link.max_uses !== null ? `/${link.max_uses}` : ''} uses
+                    {state === 'active' && link.expires_at && ` • expires in ${formatDistanceToNow(new Date(link.expires_at))}`}
+                  </p>
+                </div>
+                {state === 'active' && (
+                  <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                    <button
+                      onClick={() => handleCopy(link)}
+                      className="p-1.5 text-blue-700 hover:bg-blue-500/20 rounded transition-colors"
+                      title="Copy link"
+                    >
+                      {copiedId === link.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link)}
+                      className="p-1.5 text-red-600 hover:bg-red-500/20 rounded transition-colors"
+                      title="Revoke link"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface JoinRequestsPanelProps extends PanelProps {
+  // Called after a request is approved, to refresh the member list
+  onApproved: () => void
+}
+
+export function JoinRequestsPanel({ communityId, currentUserId, onApproved }: JoinRequestsPanelProps) {
+  const [requests, setRequests] = useState<CommunityJoinRequest[]>([])
+  const [decidingId, setDecidingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadRequests()
+  }, [communityId])
+
+  const loadRequests = async () => {
+    const { data, error } = await db.invites.listPendingRequests(communityId)
+    if (error) {
+      console.error('Error loading join requests:', error)
+      setError('Failed to load join requests')
+      return
+    }
+    setRequests(data)
+  }
+
+  const handleDecide = async (request: CommunityJoinRequest, approve: boolean) => {
+    setDecidingId(request.id)
+    setError(null)
+    const { error } = await db.invites.decideRequest(request.id, approve, currentUserId)
+    setDecidingId(null)
+
+    if (error) {
+      console.error('Error answering join request:', error)
+      setError(error.message || 'Failed to answer the request')
+      loadRequests()
+      return
+    }
+    setRequests(prev => prev.filter(candidate => candidate.id !== request.id))
+    if (approve) onApproved()
+  }
+
+  return (
+    <div className="space-y-3">
+      <h5 className="text-sm font-medium text-gray-800 flex items-center space-x-2">
+        <Clock className="w-4 h-4 text-blue-600" />
+        <span>Join requests ({requests.length})</span>
+      </h5>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {requests.length === 0 ? (
+        <p className="text-sm text-gray-500">No one is waiting to join.</p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {requests.map(request => (
+            <div key={request.id} className="flex items-start justify-between p-2 bg-white/30 border border-white/20 rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-800 text-sm">
+                  {actorName(request.profiles || null)}
+                  {request.profiles?.username && <span className="font-normal text-gray-500"> @{request.profiles.username}</span>}
+                </p>
+                {request.message && <p className="text-sm text-gray-600 mt-0.5">“{request.message}”</p>}
+                <p className="text-xs text-gray-500 mt-0.5">{formatDistanceToNow(new Date(request.created_at))} ago</p>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                <button
+                  onClick={() => handleDecide(request, true)}
+                  disabled={decidingId === request.id}
+                  className="p-1.5 text-green-700 hover:bg-green-500/20 rounded transition-colors disabled:opacity-50"
+                  title="Approve"
+                >
+                  <UserCheck className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDecide(request, false)}
+                  disabled={decidingId === request.id}
+                  className="p-1.5 text-red-600 hover:bg-red-500/20 rounded transition-colors disabled:opacity-50"
+                  title="Decline"
+                >
+                  <UserX className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface SentInvitesPanelProps {
+  communityId: string
+  // Bumped by the parent after it sends an invite
+  refreshKey: number
+}
+
+export function SentInvitesPanel({ communityId, refreshKey }: SentInvitesPanelProps) {
+  const [invites, setInvites] = useState<CommunityInvite[]>([])
+
+  useEffect(() => {
+    loadInvites()
+  }, [communityId, refreshKey])
+
+  const loadInvites = async () => {
+    const { data, error } = await db.invites.listSentInvites(communityId)
+    if (error) {
+      console.error('Error loading sent invites:', error)
+      return
+    }
+    setInvites(data)
+  }
+
+  const handleRevoke = async (invite: CommunityInvite) => {
+    const { error } = await db.invites.revokeInvite(invite.id)
+    if (error) {
+      console.error('Error revoking invite:', error)
+      return
+    }
+    setInvites(prev => prev.filter(candidate => candidate.id !== invite.id))
+  }
+
+  if (invites.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-sm font-medium text-gray-800 flex items-center space-x-2">
+        <Mail className="w-4 h-4 text-blue-600" />
+        <span>Waiting for an answer ({invites.length})</span>
+      </h5>
+      <div className="flex flex-wrap gap-2">
+        {invites.map(invite => (
+          <span key={invite.id} className="flex items-center space-x-1 pl-2 pr-1 py-0.5 bg-white/40 border border-white/30 rounded-full text-sm text-gray-700">
+            <span>{actorName(invite.invitee || null)}</span>
+            <button
+              onClick={() => handleRevoke(invite)}
+              className="p-0.5 text-gray-500 hover:text-red-600 rounded-full"
+              title="Withdraw invite"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
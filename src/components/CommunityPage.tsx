@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react'
 import { ArrowLeft, Users, Plus } from 'lucide-react'
-import { supabase, Profile, CommunityPost, hasValidSupabaseConfig } from '../lib/supabase'
+import { Profile, CommunityPost, ReactionType } from '../lib/supabase'
+import { db } from '../lib/data'
 import { CommunityPostCard } from './CommunityPostCard'
 import { CreateCommunityPostPopup } from './CreateCommunityPostPopup'
+import { useCommunityPermissions } from '../hooks/useCommunityPermissions'
 
 interface Community {
   id: string
@@ -24,6 +26,8 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showCreatePost, setShowCreatePost] = useState(false)
+  const { can } = useCommunityPermissions(communityId, currentUser.id)
+  const canPost = can('post')
 
   useEffect(() => {
     loadCommunityData()
@@ -34,51 +38,8 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
       setLoading(true)
       setError(null)
 
-      if (!hasValidSupabaseConfig()) {
-        // Demo data for when Supabase is not configured
-        const demoCommunities = {
-          'gmik': { id: 'gmik', name: 'GMIK', description: 'GMIK Community' },
-          'programmer': { id: 'programmer', name: 'Programmer', description: 'No Life Pipol' }
-        }
-        
-        const demoCommunity = demoCommunities[communityId as keyof typeof demoCommunities]
-        if (demoCommunity) {
-          setCommunity({
-            ...demoCommunity,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          })
-          
-          // Demo posts for this community
-          setPosts([
-            {
-              id: `${communityId}-post-1`,
-              community_id: communityId,
-              user_id: currentUser.id,
-              content: `Welcome to ${demoCommunity.name}! This is a demo post to show how community posts work. You can share images, files, and have full discussions here.`,
-              images: ['https://images.pexels.com/photos/1591056/pexels-photo-1591056.jpeg?auto=compress&cs=tinysrgb&w=800'],
-              files: [],
-              created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-              updated_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-              profiles: currentUser,
-              likes: [],
-              comments: [],
-              _count: { likes: 3, comments: 1 }
-            }
-          ])
-        } else {
-          setError('Community not found')
-        }
-        setLoading(false)
-        return
-      }
-
       // Load community info
-      const { data: communityData, error: communityError } = await supabase
-        .from('communities')
-        .select('*')
-        .eq('id', communityId)
-        .single()
+      const { data: communityData, error: communityError } = await db.communities.get(communityId)
 
       if (communityError) {
         console.error('Community error:', communityError)
@@ -89,20 +50,8 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
 
       setCommunity(communityData)
 
-      // Load community posts
-      const { data: postsData, error: postsError } = await supabase
-        .from('community_posts')
-        .select(`
-          *,
-          profiles!community_posts_user_id_fkey(
-            id,
-            username,
-            full_name,
-            avatar_url
-          )
-        `)
-        .eq('community_id', communityId)
-        .order('created_at', { ascending: false })
+      // Load community posts with like/comment counts and comment threads
+      const { data: postsData, error: postsError } = await db.posts.listCommunityFeed(communityId, currentUser.id)
 
       if (postsError) {
         console.error('Posts error:', postsError)
@@ -111,46 +60,11 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
         return
       }
 
-      // Get additional data for each post
-      const postsWithCounts = []
-      
-      for (const post of postsData || []) {
-        // Get likes
-        const { data: likes } = await supabase
-          .from('community_likes')
-          .select('id, user_id')
-          .eq('post_id', post.id)
-
-        // Get comments
-        const { data: comments } = await supabase
-          .from('community_comments')
-          .select(`
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles!community_comments_user_id_fkey(
-              id,
-              username,
-              full_name,
-              avatar_url
-            )
-          `)
-          .eq('post_id', post.id)
-          .order('created_at', { ascending: true })
-
-        postsWithCounts.push({
-          ...post,
-          likes: likes || [],
-          comments: comments || [],
-          _count: {
-            likes: likes?.length || 0,
-            comments: comments?.length || 0,
-          },
-        })
-      }
-
-      setPosts(postsWithCounts)
+      // Pinned posts lead the feed, most recently pinned first
+      const pinned = (postsData as CommunityPost[])
+        .filter(post => post.pinned_at)
+        .sort((a, b) => b.pinned_at!.localeCompare(a.pinned_at!))
+      setPosts([...pinned, ...(postsData as CommunityPost[]).filter(post => !post.pinned_at)])
     } catch (error) {
       console.error('Error loading community data:', error)
       setError(`Failed to load community: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -159,68 +73,26 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
     }
   }
 
-  const handleLike = async (postId: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just update local state
-      setPosts(prevPosts => 
-        prevPosts.map(post => {
-          if (post.id === postId) {
-            const isLiked = post.likes?.some(l => l.user_id === currentUser.id)
-            const newLikesCount = isLiked 
-              ? (post._count?.likes || 0) - 1 
-              : (post._count?.likes || 0) + 1
-            
-            return {
-              ...post,
-              _count: {
-                ...post._count,
-                likes: newLikesCount
-              }
-            }
-          }
-          return post
-        })
-      )
-      return
-    }
-
+  const handleReact = async (postId: string, reaction: ReactionType | null) => {
     try {
-      const existingLike = posts
-        .find(p => p.id === postId)
-        ?.likes?.find(l => l.user_id === currentUser.id)
-
-      if (existingLike) {
-        await supabase
-          .from('community_likes')
-          .delete()
-          .eq('id', existingLike.id)
-      } else {
-        await supabase
-          .from('community_likes')
-          .insert([{ user_id: currentUser.id, post_id: postId }])
-      }
+      const { error } = await db.reactions.setPostReaction('community_post', postId, currentUser.id, reaction)
+      if (error) throw error
 
       loadCommunityData()
     } catch (error) {
-      console.error('Error toggling like:', error)
+      console.error('Error updating reaction:', error)
     }
   }
 
-  const handleComment = async (postId: string, content: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just show success message
-      alert('Comment added! (Demo mode)')
-      return
-    }
-
+  const handleComment = async (postId: string, content: string, parentId?: string | null) => {
     try {
-      await supabase
-        .from('community_comments')
-        .insert([{
-          user_id: currentUser.id,
-          post_id: postId,
-          content,
-        }])
+      const { error } = await db.comments.create('community_post', {
+        user_id: currentUser.id,
+        post_id: postId,
+        content,
+        parent_id: parentId,
+      })
+      if (error) throw error
 
       loadCommunityData()
     } catch (error) {
@@ -228,6 +100,27 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
     }
   }
 
+  const handleTogglePin = async (post: CommunityPost) => {
+    const { error } = await db.posts.setPinned(post.id, !post.pinned_at, currentUser.id)
+    if (error) {
+      console.error('Error pinning post:', error)
+      alert(error.message || 'Failed to update the pin')
+      return
+    }
+    loadCommunityData()
+  }
+
+  const handleDeletePost = async (post: CommunityPost) => {
+    if (!confirm('Delete this post? This cannot be undone.')) return
+    const { error } = await db.posts.deleteCommunityPost(post.id, currentUser.id)
+    if (error) {
+      console.error('Error deleting post:', error)
+      alert(error.message || 'Failed to delete the post')
+      return
+    }
+    setPosts(prev => prev.filter(candidate => candidate.id !== post.id))
+  }
+
   const handlePostCreated = () => {
     setShowCreatePost(false)
     loadCommunityData()
@@ -351,12 +244,14 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
                 )}
               </div>
             </div>
-            <button
-              onClick={() => setShowCreatePost(true)}
-              className="p-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-full hover:from-blue-600 hover:to-purple-600 transition-all duration-200 hover:scale-105 shadow-lg"
-            >
-              <Plus className="w-5 h-5" />
-            </button>
+            {canPost && (
+              <button
+                onClick={() => setShowCreatePost(true)}
+                className="p-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-full hover:from-blue-600 hover:to-purple-600 transition-all duration-200 hover:scale-105 shadow-lg"
+              >
+                <Plus className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -369,15 +264,21 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
               <Users className="w-8 h-8 text-gray-400" />
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
-            <p className="text-gray-600 mb-4">
-              Be the first to share something in {community.name}!
-            </p>
-            <button
-              onClick={() => setShowCreatePost(true)}
-              className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Create Post
-            </button>
+            {canPost ? (
+              <>
+                <p className="text-gray-600 mb-4">
+                  Be the first to share something in {community.name}!
+                </p>
+                <button
+                  onClick={() => setShowCreatePost(true)}
+                  className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                >
+                  Create Post
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-600">Nothing has been posted in {community.name} yet.</p>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -386,8 +287,14 @@ export function CommunityPage({ communityId, currentUser, onBack }: CommunityPag
                 key={post.id}
                 post={post}
                 currentUser={currentUser}
-                onLike={handleLike}
+                onReact={handleReact}
                 onComment={handleComment}
+                canComment={can('comment')}
+                canPin={can('pin')}
+                canDeleteOthers={can('delete_posts')}
+                onTogglePin={handleTogglePin}
+                onDelete={handleDeletePost}
+                onChanged={() => loadCommunityData()}
               />
             ))}
           </div>
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react'
+import { SlidersHorizontal } from 'lucide-react'
+import { Community, CommunityPermissions, CommunityRole } from '../lib/supabase'
+import { db } from '../lib/data'
+import {
+  COMMUNITY_PERMISSION_OPTIONS,
+  ROLE_LABELS,
+  canManageRoles,
+  communityPermissions,
+} from '../lib/communityPermissions'
+
+interface CommunityPermissionsPanelProps {
+  community: Community
+  currentUserId: string | null
+  currentUserRole: CommunityRole | null
+  onSaved: (community: Community) => void
+}
+
+// The permission matrix in the community info popup: the lowest role allowed
+// each action. Admins edit it, everyone else sees it read-only.
+export function CommunityPermissionsPanel({ community, currentUserId, currentUserRole, onSaved }: CommunityPermissionsPanelProps) {
+  const [draft, setDraft] = useState<CommunityPermissions>(() => communityPermissions(community))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(communityPermissions(community))
+  }, [community])
+
+  const editable = canManageRoles(currentUserRole) && !!currentUserId
+  const saved = communityPermissions(community)
+  const dirty = COMMUNITY_PERMISSION_OPTIONS.some(({ permission }) => draft[permission] !== saved[permission])
+
+  const handleSave = async () => {
+    if (!currentUserId) return
+    setSaving(true)
+    setError(null)
+    const { data, error } = await db.communities.updatePermissions(community.id, draft, currentUserId)
+    setSaving(false)
+
+    if (error) {
+      console.error('Error saving permissions:', error)
+      setError(error.message || 'Failed to save permissions')
+      return
+    }
+    onSaved(data)
+  }
+
+  return (
+    <div className="backdrop-blur-xl bg-white/30 border border-white/20 rounded-xl p-4">
+      <h4 className="font-medium text-gray-800 mb-3 flex items-center space-x-2">
+        <SlidersHorizontal className="w-4 h-4 text-blue-600" />
+        <span>Permissions</span>
+      </h4>
+
+      <div className="space-y-2">
+        {COMMUNITY_PERMISSION_OPTIONS.map(({ permission, label, roles }) => (
+          <div key={permission} className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">{label}</span>
+            {editable ? (
+              <select
+                value={draft[permission]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [permission]: e.target.value as CommunityRole }))}
+                className="px-2 py-1 backdrop-blur-xl bg-white/50 border border-white/30 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              >
+                {roles.map(role => (
+                  <option key={role} value={role}>
+                    {role === 'admin' ? 'Admins only' : `${ROLE_LABELS[role]}s and up`}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-gray-500">
+                {saved[permission] === 'admin' ? 'Admins only' : `${ROLE_LABELS[saved[permission]]}s and up`}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {editable && dirty && (
+        <div className="flex justify-end space-x-2 mt-3">
+          <button
+            onClick={() => setDraft(saved)}
+            disabled={saving}
+            className="px-3 py-1 text-sm text-gray-600 hover:bg-white/40 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1 text-sm bg-blue-500/20 hover:bg-blue-500/30 text-blue-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save permissions'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
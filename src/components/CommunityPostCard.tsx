@@ -1,26 +1,79 @@
 import React, { useState } from 'react'
-import { Heart, MessageCircle, Share, MoreHorizontal, Download, Eye } from 'lucide-react'
+import { MessageCircle, Share, Download, Eye, Pin, PinOff, Trash2, Flag, Pencil } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
-import { CommunityPost, Profile } from '../lib/supabase'
+import { CommunityPost, Profile, ReactionType } from '../lib/supabase'
+import { PostEdit, db } from '../lib/data'
+import { CommentThread } from './CommentThread'
+import { ReactionBar } from './ReactionBar'
+import { PostEditForm } from './PostEditForm'
+import { PostMenu, PostMenuItem } from './PostMenu'
+import { PollView } from './PollView'
+import { PostRevisionsModal } from './PostRevisionsModal'
+import { ReportDialog } from './ReportDialog'
 
 interface CommunityPostCardProps {
   post: CommunityPost
   currentUser: Profile
-  onLike: (postId: string) => void
-  onComment: (postId: string, content: string) => void
+  onReact: (postId: string, reaction: ReactionType | null) => void
+  onComment: (postId: string, content: string, parentId?: string | null) => void
+  // What the viewer's community role allows; see lib/communityPermissions
+  canComment?: boolean
+  canPin?: boolean
+  canDeleteOthers?: boolean
+  onTogglePin?: (post: CommunityPost) => void
+  onDelete?: (post: CommunityPost) => void
+  // Told after the author edits the post, to refetch it
+  onChanged?: (postId: string) => void
 }
 
-export function CommunityPostCard({ post, currentUser, onLike, onComment }: CommunityPostCardProps) {
+export function CommunityPostCard({
+  post,
+  currentUser,
+  onReact,
+  onComment,
+  canComment = true,
+  canPin = false,
+  canDeleteOthers = false,
+  onTogglePin,
+  onDelete,
+  onChanged,
+}: CommunityPostCardProps) {
   const [showComments, setShowComments] = useState(false)
+  const [reporting, setReporting] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [showRevisions, setShowRevisions] = useState(false)
   const [commentText, setCommentText] = useState('')
   const [isSubmittingComment, setIsSubmittingComment] = useState(false)
 
-  const isLiked = post.likes?.some(like => like.user_id === currentUser.id) || false
+  const isOwnPost = post.user_id === currentUser.id
+  // Moderators see how a post changed, e.g. when it was reported
+  const canSeeRevisions = isOwnPost || canDeleteOthers || Boolean(currentUser.is_site_admin)
+  const menuItems: PostMenuItem[] = []
+  if (isOwnPost) {
+    menuItems.push({ label: 'Edit post', icon: Pencil, onClick: () => setEditing(true) })
+  }
+  if (canPin && onTogglePin) {
+    menuItems.push({
+      label: post.pinned_at ? 'Unpin post' : 'Pin to top',
+      icon: post.pinned_at ? PinOff : Pin,
+      onClick: () => onTogglePin(post),
+    })
+  }
+  if ((isOwnPost || canDeleteOthers) && onDelete) {
+    menuItems.push({ label: 'Delete post', icon: Trash2, onClick: () => onDelete(post), danger: true })
+  }
+  if (!isOwnPost) {
+    menuItems.push({ label: 'Report post', icon: Flag, onClick: () => setReporting(true) })
+  }
+
   const likesCount = post._count?.likes || 0
   const commentsCount = post._count?.comments || 0
 
-  const handleLike = () => {
-    onLike(post.id)
+  const handleSaveEdit = async (edit: PostEdit) => {
+    const { error } = await db.posts.updateCommunityPost(post.id, edit, currentUser.id)
+    if (error) throw error
+    setEditing(false)
+    onChanged?.(post.id)
   }
 
   const handleComment = async (e: React.FormEvent) => {
@@ -69,22 +122,50 @@ export function CommunityPostCard({ post, currentUser, onLike, onComment }: Comm
               </h3>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <span>{formatDistanceToNow(new Date(post.created_at))} ago</span>
+                {post.edited_at && (canSeeRevisions ? (
+                  <button onClick={() => setShowRevisions(true)} className="hover:underline" title="See edit history">
+                    (edited)
+                  </button>
+                ) : (
+                  <span>(edited)</span>
+                ))}
+                {post.pinned_at && (
+                  <span className="flex items-center space-x-1 text-purple-600 font-medium">
+                    <Pin className="w-3.5 h-3.5" />
+                    <span>Pinned</span>
+                  </span>
+                )}
               </div>
             </div>
           </div>
-          <button className="p-2 hover:bg-gray-100 rounded-full transition-colors">
-            <MoreHorizontal className="w-5 h-5 text-gray-500" />
-          </button>
+          <PostMenu items={menuItems} />
         </div>
       </div>
 
       {/* Content */}
       <div className="px-4 pb-4">
-        <p className="text-gray-900 whitespace-pre-wrap">{post.content}</p>
+        {editing ? (
+          <PostEditForm
+            content={post.content}
+            images={post.images}
+            files={post.files}
+            onSave={handleSaveEdit}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <p className="text-gray-900 whitespace-pre-wrap">{post.content}</p>
+        )}
       </div>
 
+      {/* Poll */}
+      {post.has_poll && (
+        <div className="px-4 pb-4">
+          <PollView kind="community_post" postId={post.id} viewerId={currentUser.id} isAuthor={isOwnPost} />
+        </div>
+      )}
+
       {/* Images */}
-      {post.images && post.images.length > 0 && (
+      {!editing && post.images && post.images.length > 0 && (
         <div className="px-4 pb-4">
           <div className="grid grid-cols-1 gap-2">
             {post.images.map((image, index) => (
@@ -104,7 +185,7 @@ export function CommunityPostCard({ post, currentUser, onLike, onComment }: Comm
       )}
 
       {/* Files */}
-      {post.files && post.files.length > 0 && (
+      {!editing && post.files && post.files.length > 0 && (
         <div className="px-4 pb-4">
           <div className="space-y-2">
             {post.files.map((file, index) => (
@@ -145,17 +226,14 @@ export function CommunityPostCard({ post, currentUser, onLike, onComment }: Comm
       <div className="px-4 py-3 border-t border-gray-100">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-6">
-            <button
-              onClick={handleLike}
-              className={`flex items-center space-x-2 transition-colors ${
-                isLiked 
-                  ? 'text-red-500 hover:text-red-600' 
-                  : 'text-gray-500 hover:text-red-500'
-              }`}
-            >
-              <Heart className={`w-5 h-5 ${isLiked ? 'fill-current' : ''}`} />
-              <span className="text-sm font-medium">{likesCount}</span>
-            </button>
+            <ReactionBar
+              target={{ kind: 'community_post', postId: post.id }}
+              likes={post.likes}
+              counts={post._reactions}
+              total={likesCount}
+              currentUserId={currentUser.id}
+              onReact={reaction => onReact(post.id, reaction)}
+            />
             
             <button
               onClick={() => setShowComments(!showComments)}
@@ -177,6 +255,7 @@ export function CommunityPostCard({ post, currentUser, onLike, onComment }: Comm
       {showComments && (
         <div className="border-t border-gray-100">
           {/* Comment Form */}
+          {canComment ? (
           <form onSubmit={handleComment} className="p-4 border-b border-gray-100">
             <div className="flex space-x-3">
               <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full flex items-center justify-center flex-shrink-0">
@@ -204,44 +283,43 @@ export function CommunityPostCard({ post, currentUser, onLike, onComment }: Comm
               </div>
             </div>
           </form>
+          ) : (
+            <p className="px-4 py-3 text-sm text-gray-500 border-b border-gray-100">
+              Commenting is limited to some roles in this community.
+            </p>
+          )}
 
           {/* Comments List */}
           <div className="max-h-96 overflow-y-auto">
-            {post.comments && post.comments.length > 0 ? (
-              <div className="divide-y divide-gray-100">
-                {post.comments.map((comment) => (
-                  <div key={comment.id} className="p-4">
-                    <div className="flex space-x-3">
-                      <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
-                        <span className="text-white font-semibold text-xs">
-                          {comment.profiles?.full_name?.charAt(0) || comment.profiles?.username?.charAt(0) || 'U'}
-                        </span>
-                      </div>
-                      <div className="flex-1">
-                        <div className="bg-gray-50 rounded-lg px-3 py-2">
-                          <h4 className="font-semibold text-sm text-gray-900">
-                            {comment.profiles?.full_name || comment.profiles?.username || 'Unknown User'}
-                          </h4>
-                          <p className="text-gray-800 text-sm mt-1">{comment.content}</p>
-                        </div>
-                        <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                          <span>{formatDistanceToNow(new Date(comment.created_at))} ago</span>
-                          <button className="hover:text-gray-700 transition-colors">Like</button>
-                          <button className="hover:text-gray-700 transition-colors">Reply</button>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="p-4 text-center text-gray-500">
-                <p className="text-sm">No comments yet. Be the first to comment!</p>
-              </div>
-            )}
+            <div className="p-4">
+              <CommentThread
+                kind="community_post"
+                comments={post.comments || []}
+                currentUser={currentUser}
+                onReply={canComment ? (content, parentId) => onComment(post.id, content, parentId) : undefined}
+              />
+            </div>
           </div>
         </div>
       )}
+
+      {showRevisions && (
+        <PostRevisionsModal
+          kind="community_post"
+          postId={post.id}
+          current={post}
+          viewerId={currentUser.id}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {reporting && (
+        <ReportDialog
+          target={{ type: 'community_post', id: post.id }}
+          currentUser={currentUser}
+          onClose={() => setReporting(false)}
+        />
+      )}
     </div>
   )
 }
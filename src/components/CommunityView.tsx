@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react'
-import { ArrowLeft, Users, Plus, Heart, MessageCircle, Share2, MoreHorizontal } from 'lucide-react'
-import { supabase, Profile, CommunityPost, hasValidSupabaseConfig } from '../lib/supabase'
+import { ArrowLeft, Users, Plus, MessageCircle, Share2, MoreHorizontal } from 'lucide-react'
+import { Profile, CommunityPost, ReactionType } from '../lib/supabase'
+import { db } from '../lib/data'
 import { formatDistanceToNow } from 'date-fns'
 import { CreateCommunityPostPopup } from './CreateCommunityPostPopup'
+import { ReactionBar } from './ReactionBar'
 
 interface Community {
   id: string
@@ -35,92 +37,8 @@ export function CommunityView({ communityId, currentUser, onBack }: CommunityVie
       setLoading(true)
       setError(null)
 
-      if (!hasValidSupabaseConfig()) {
-        // Demo data for when Supabase is not configured
-        const demoCommunities = {
-          'gmik': { 
-            id: 'gmik', 
-            name: 'GMIK', 
-            description: 'GMIK Community - Connect with fellow members',
-            member_count: 42
-          },
-          'programmer': { 
-            id: 'programmer', 
-            name: 'Programmer', 
-            description: 'No Life Pipol - For developers and tech enthusiasts',
-            member_count: 128
-          },
-          'design': { 
-            id: 'design', 
-            name: 'Design Hub', 
-            description: 'Creative minds unite - Share your designs and get feedback',
-            member_count: 67
-          }
-        }
-        
-        const demoCommunity = demoCommunities[communityId as keyof typeof demoCommunities]
-        if (demoCommunity) {
-          setCommunity({
-            ...demoCommunity,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          })
-          
-          // Demo posts for this community
-          setPosts([
-            {
-              id: `${communityId}-post-1`,
-              community_id: communityId,
-              user_id: currentUser.id,
-              content: `Welcome to ${demoCommunity.name}! This is a demo post to show how community posts work. You can share images, files, and have full discussions here.`,
-              images: ['https://images.pexels.com/photos/1591056/pexels-photo-1591056.jpeg?auto=compress&cs=tinysrgb&w=800'],
-              files: [],
-              created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-              updated_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-              profiles: currentUser,
-              likes: [],
-              comments: [],
-              _count: { likes: 3, comments: 1 }
-            },
-            {
-              id: `${communityId}-post-2`,
-              community_id: communityId,
-              user_id: 'demo-user-2',
-              content: `Great to be part of this community! Looking forward to connecting with everyone here. 🚀`,
-              images: [],
-              files: [],
-              created_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-              updated_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-              profiles: {
-                id: 'demo-user-2',
-                full_name: 'Demo Member',
-                display_name: 'demomember',
-                email: 'member@example.com',
-                avatar_url: null,
-                bio: null,
-                website: null,
-                location: null,
-                created_at: new Date().toISOString(),
-                updated_at: new Date().toISOString()
-              },
-              likes: [],
-              comments: [],
-              _count: { likes: 7, comments: 2 }
-            }
-          ])
-        } else {
-          setError('Community not found')
-        }
-        setLoading(false)
-        return
-      }
-
       // Load community info
-      const { data: communityData, error: communityError } = await supabase
-        .from('communities')
-        .select('*')
-        .eq('id', communityId)
-        .single()
+      const { data: communityData, error: communityError } = await db.communities.get(communityId)
 
       if (communityError) {
         console.error('Community error:', communityError)
@@ -131,20 +49,8 @@ export function CommunityView({ communityId, currentUser, onBack }: CommunityVie
 
       setCommunity(communityData)
 
-      // Load community posts
-      const { data: postsData, error: postsError } = await supabase
-        .from('community_posts')
-        .select(`
-          *,
-          profiles!community_posts_user_id_fkey(
-            id,
-            display_name,
-            full_name,
-            avatar_url
-          )
-        `)
-        .eq('community_id', communityId)
-        .order('created_at', { ascending: false })
+      // Load community posts with like/comment counts and comment threads
+      const { data: postsData, error: postsError } = await db.posts.listCommunityFeed(communityId, currentUser.id)
 
       if (postsError) {
         console.error('Posts error:', postsError)
@@ -153,46 +59,7 @@ export function CommunityView({ communityId, currentUser, onBack }: CommunityVie
         return
       }
 
-      // Get additional data for each post
-      const postsWithCounts = []
-      
-      for (const post of postsData || []) {
-        // Get likes
-        const { data: likes } = await supabase
-          .from('community_likes')
-          .select('id, user_id')
-          .eq('post_id', post.id)
-
-        // Get comments
-        const { data: comments } = await supabase
-          .from('community_comments')
-          .select(`
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles!community_comments_user_id_fkey(
-              id,
-              display_name,
-              full_name,
-              avatar_url
-            )
-          `)
-          .eq('post_id', post.id)
-          .order('created_at', { ascending: true })
-
-        postsWithCounts.push({
-          ...post,
-          likes: likes || [],
-          comments: comments || [],
-          _count: {
-            likes: likes?.length || 0,
-            comments: comments?.length || 0,
-          },
-        })
-      }
-
-      setPosts(postsWithCounts)
+      setPosts(postsData as CommunityPost[])
     } catch (error) {
       console.error('Error loading community data:', error)
       setError(`Failed to load community: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -201,50 +68,14 @@ export function CommunityView({ communityId, currentUser, onBack }: CommunityVie
     }
   }
 
-  const handleLike = async (postId: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just update local state
-      setPosts(prevPosts => 
-        prevPosts.map(post => {
-          if (post.id === postId) {
-            const isLiked = post.likes?.some(l => l.user_id === currentUser.id)
-            const newLikesCount = isLiked 
-              ? (post._count?.likes || 0) - 1 
-              : (post._count?.likes || 0) + 1
-            
-            return {
-              ...post,
-              _count: {
-                ...post._count,
-                likes: newLikesCount
-              }
-            }
-          }
-          return post
-        })
-      )
-      return
-    }
-
+  const handleReact = async (postId: string, reaction: ReactionType | null) => {
     try {
-      const existingLike = posts
-        .find(p => p.id === postId)
-        ?.likes?.find(l => l.user_id === currentUser.id)
-
-      if (existingLike) {
-        await supabase
-          .from('community_likes')
-          .delete()
-          .eq('id', existingLike.id)
-      } else {
-        await supabase
-          .from('community_likes')
-          .insert([{ user_id: currentUser.id, post_id: postId }])
-      }
+      const { error } = await db.reactions.setPostReaction('community_post', postId, currentUser.id, reaction)
+      if (error) throw error
 
       loadCommunityData()
     } catch (error) {
-      console.error('Error toggling like:', error)
+      console.error('Error updating reaction:', error)
     }
   }
 
@@ -477,13 +308,14 @@ export function CommunityView({ communityId, currentUser, onBack }: CommunityVie
                 <div className="px-4 py-3 border-t border-gray-100">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-6">
-                      <button
-                        onClick={() => handleLike(post.id)}
-                        className="flex items-center space-x-2 text-gray-600 hover:text-red-500 transition-colors"
-                      >
-                        <Heart className="w-5 h-5" />
-                        <span className="text-sm">{post._count?.likes || 0}</span>
-                      </button>
+                      <ReactionBar
+                        target={{ kind: 'community_post', postId: post.id }}
+                        likes={post.likes}
+                        counts={post._reactions}
+                        total={post._count?.likes || 0}
+                        currentUserId={currentUser.id}
+                        onReact={reaction => handleReact(post.id, reaction)}
+                      />
                       <button className="flex items-center space-x-2 text-gray-600 hover:text-blue-500 transition-colors">
                         <MessageCircle className="w-5 h-5" />
                         <span className="text-sm">{post._count?.comments || 0}</span>
@@ -1,7 +1,7 @@
 import React, { useState } from 'react'
 import { X, Send, MessageCircle, User, Package } from 'lucide-react'
-import { MarketplaceItem } from '../lib/supabase'
-import { sendMessageToSeller } from '../lib/supabase'
+import { MarketplaceItem, getCurrentUser } from '../lib/supabase'
+import { db, conversationIdFor } from '../lib/data'
 
 interface ContactSellerPopupProps {
   item: MarketplaceItem
@@ -39,19 +39,24 @@ export function ContactSellerPopup({ item, onClose, onMessageSent }: ContactSell
         content: message.trim()
       })
 
-      const success = await sendMessageToSeller({
-        recipientId: item.seller_id,
-        marketplaceItemId: item.id,
-        subject: subject.trim(),
-        content: message.trim()
+      const user = await getCurrentUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const { error: sendError } = await db.messages.send({
+        conversation_id: conversationIdFor(user.id, item.seller_id),
+        sender_id: user.id,
+        receiver_id: item.seller_id,
+        content: `${subject.trim()}\n\n${message.trim()}`,
+        item_id: item.id
       })
 
-      if (success) {
+      if (!sendError) {
         console.log('Message sent successfully')
         onMessageSent()
         onClose()
       } else {
-        setError('Failed to send message. Please try again.')
+        console.error('Error sending message to seller:', sendError)
+        setError(sendError.code === 'forbidden' ? sendError.message : 'Failed to send message. Please try again.')
       }
     } catch (error) {
       console.error('Error sending message:', error)
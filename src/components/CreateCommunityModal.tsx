@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { X, Users, Globe, Lock } from 'lucide-react'
-import { supabase, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import { Profile } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface CreateCommunityModalProps {
   onClose: () => void
@@ -22,30 +23,12 @@ export function CreateCommunityModal({ onClose, currentUser }: CreateCommunityMo
     setError(null)
 
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo mode - just close the modal
-        console.log('CreateCommunityModal: Demo mode - community would be created:', {
-          name: name.trim(),
-          description: description.trim(),
-          isPrivate,
-          createdBy: currentUser.id
-        })
-        onClose()
-        return
-      }
-
-      const { data, error: createError } = await supabase
-        .from('communities')
-        .insert([
-          {
-            name: name.trim(),
-            description: description.trim() || null,
-            is_private: isPrivate,
-            created_by: currentUser.id,
-          },
-        ])
-        .select()
-        .single()
+      const { data, error: createError } = await db.communities.create({
+        name: name.trim(),
+        description: description.trim() || null,
+        is_private: isPrivate,
+        created_by: currentUser.id,
+      })
 
       if (createError) {
         console.error('CreateCommunityModal: Error creating community:', createError)
@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
 import { X, Users } from 'lucide-react'
 
 interface CreateCommunityPopupProps {
@@ -18,18 +19,14 @@ export function CreateCommunityPopup({ onClose, onCommunityCreated }: CreateComm
 
     setLoading(true)
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('Not authenticated')
 
-      const { error } = await supabase
-        .from('communities')
-        .insert([
-          {
-            name: name.trim(),
-            description: description.trim(),
-            created_by: user.id,
-          },
-        ])
+      const { error } = await db.communities.create({
+        name: name.trim(),
+        description: description.trim(),
+        created_by: user.id,
+      })
 
       if (error) throw error
 
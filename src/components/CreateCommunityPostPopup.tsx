@@ -1,6 +1,10 @@
 import React, { useState } from 'react'
-import { X, Image, Paperclip, Send } from 'lucide-react'
-import { supabase, hasValidSupabaseConfig } from '../lib/supabase'
+import { X, Image, Paperclip, Send, BarChart2 } from 'lucide-react'
+import { getCurrentUser } from '../lib/supabase'
+import { NewPoll, db } from '../lib/data'
+import { useDraftAutosave } from '../hooks/useDraftAutosave'
+import { DraftStatusNote, SchedulePicker } from './DraftControls'
+import { EMPTY_POLL, PollComposer, attachPoll, pollProblem } from './PollComposer'
 
 interface CreateCommunityPostPopupProps {
   communityId: string
@@ -15,40 +19,33 @@ export function CreateCommunityPostPopup({
   onClose, 
   onPostCreated 
 }: CreateCommunityPostPopupProps) {
-  const [content, setContent] = useState('')
-  const [images, setImages] = useState<string[]>([])
-  const [files, setFiles] = useState<string[]>([])
+  const draft = useDraftAutosave({ communityId })
+  const { content, images, files } = draft.value
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Polls aren't part of the autosaved draft
+  const [poll, setPoll] = useState<NewPoll | null>(null)
+  const problem = poll && pollProblem(poll)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!content.trim() || isSubmitting) return
+    if (!content.trim() || isSubmitting || problem) return
 
     setIsSubmitting(true)
 
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo mode - just show success message
-        alert(`Post created in ${communityName}! (Demo mode)`)
-        onPostCreated()
-        return
-      }
-
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) {
         alert('You must be logged in to create a post')
         return
       }
 
-      const { error } = await supabase
-        .from('community_posts')
-        .insert([{
-          community_id: communityId,
-          user_id: user.id,
-          content: content.trim(),
-          images: images.length > 0 ? images : null,
-          files: files.length > 0 ? files : null,
-        }])
+      const { data: post, error } = await db.posts.createCommunityPost({
+        community_id: communityId,
+        user_id: user.id,
+        content: content.trim(),
+        images: images.length > 0 ? images : null,
+        files: files.length > 0 ? files : null,
+      })
 
       if (error) {
         console.error('Error creating community post:', error)
@@ -56,6 +53,17 @@ export function CreateCommunityPostPopup({
         return
       }
 
+      if (poll) {
+        try {
+          await attachPoll('community_post', post.id, poll, user.id)
+        } catch (pollError: any) {
+          console.error('Error creating poll:', pollError)
+          alert(`Failed to create the poll: ${pollError.message}`)
+          return
+        }
+      }
+
+      await draft.discard()
       onPostCreated()
     } catch (error) {
       console.error('Error creating community post:', error)
@@ -68,23 +76,23 @@ export function CreateCommunityPostPopup({
   const handleImageAdd = () => {
     const url = prompt('Enter image URL:')
     if (url && url.trim()) {
-      setImages(prev => [...prev, url.trim()])
+      draft.update({ images: [...images, url.trim()] })
     }
   }
 
   const handleFileAdd = () => {
     const url = prompt('Enter file URL:')
     if (url && url.trim()) {
-      setFiles(prev => [...prev, url.trim()])
+      draft.update({ files: [...files, url.trim()] })
     }
   }
 
   const removeImage = (index: number) => {
-    setImages(prev => prev.filter((_, i) => i !== index))
+    draft.update({ images: images.filter((_, i) => i !== index) })
   }
 
   const removeFile = (index: number) => {
-    setFiles(prev => prev.filter((_, i) => i !== index))
+    draft.update({ files: files.filter((_, i) => i !== index) })
   }
 
   return (
@@ -108,14 +116,15 @@ export function CreateCommunityPostPopup({
           <div className="flex-1 p-4 overflow-y-auto">
             <textarea
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={(e) => draft.update({ content: e.target.value })}
               placeholder={`What's happening in ${communityName}?`}
               className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
               maxLength={500}
             />
 
-            <div className="text-right text-sm text-gray-500 mt-1">
-              {content.length}/500
+            <div className="flex items-start justify-between mt-1">
+              <DraftStatusNote status={draft.status} restored={draft.restored} onDiscard={draft.discard} />
+              <span className="ml-auto text-sm text-gray-500">{content.length}/500</span>
             </div>
 
             {/* Images Preview */}
@@ -171,6 +180,9 @@ export function CreateCommunityPostPopup({
                 </div>
               </div>
             )}
+
+            {poll && <PollComposer poll={poll} onChange={setPoll} onRemove={() => setPoll(null)} />}
+            {problem && <p className="text-xs text-gray-500 mt-1">{problem}</p>}
           </div>
 
           {/* Actions */}
@@ -193,16 +205,33 @@ export function CreateCommunityPostPopup({
                 >
                   <Paperclip className="w-5 h-5" />
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setPoll(poll ? null : EMPTY_POLL)}
+                  className={`p-2 rounded-full transition-colors ${poll ? 'text-purple-600 bg-purple-50' : 'text-gray-500 hover:text-purple-500 hover:bg-purple-50'}`}
+                  title={poll ? 'Remove poll' : 'Add poll'}
+                >
+                  <BarChart2 className="w-5 h-5" />
+                </button>
               </div>
 
-              <button
-                type="submit"
-                disabled={!content.trim() || isSubmitting}
-                className="flex items-center space-x-2 px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                <Send className="w-4 h-4" />
-                <span>{isSubmitting ? 'Posting...' : 'Post'}</span>
-              </button>
+              <div className="flex items-center space-x-2">
+                <SchedulePicker
+                  disabled={!content.trim() || isSubmitting || Boolean(poll)}
+                  onSchedule={async at => {
+                    await draft.schedule(at)
+                    onClose()
+                  }}
+                />
+                <button
+                  type="submit"
+                  disabled={!content.trim() || isSubmitting || Boolean(problem)}
+                  className="flex items-center space-x-2 px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                  <span>{isSubmitting ? 'Posting...' : 'Post'}</span>
+                </button>
+              </div>
             </div>
           </div>
         </form>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { X, Upload, Package, DollarSign, Tag, FileText } from 'lucide-react'
-import { createMarketplaceItem } from '../lib/supabase'
+import { getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface CreateListingPopupProps {
   onClose: () => void
@@ -65,16 +66,19 @@ export function CreateListingPopup({ onClose, onListingCreated }: CreateListingP
 
     setCreating(true)
     try {
-      const item = await createMarketplaceItem({
-        seller_id: '', // This will be set by the function
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { data: item, error } = await db.marketplace.create({
+        seller_id: user.id,
         title: formData.title.trim(),
         description: formData.description.trim(),
         price,
         category: formData.category,
         condition: formData.condition,
-        images: formData.images,
-        is_sold: false
+        images: formData.images
       })
+      if (error) console.error('Error creating marketplace item:', error)
 
       if (item) {
         alert('Item listed successfully!')
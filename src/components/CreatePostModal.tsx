@@ -1,6 +1,9 @@
 import React, { useState } from 'react'
 import { X, Image, FileText, AlertCircle, Send } from 'lucide-react'
-import { supabase, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import { getCurrentUser, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import { db } from '../lib/data'
+import { useDraftAutosave } from '../hooks/useDraftAutosave'
+import { DraftStatusNote } from './DraftControls'
 
 interface CreatePostModalProps {
   onClose: () => void
@@ -9,8 +12,9 @@ interface CreatePostModalProps {
 }
 
 export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: CreatePostModalProps) {
-  const [content, setContent] = useState('')
-  const [imageUrl, setImageUrl] = useState('')
+  const draft = useDraftAutosave({ visibility: isAnonymous ? 'anonymous' : 'public' })
+  const { content } = draft.value
+  const imageUrl = draft.value.images[0] || ''
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -22,32 +26,15 @@ export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: C
     setError(null)
     
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo mode - just show success message
-        console.log('CreatePostModal: Demo mode - post would be created:', {
-          content: content.trim(),
-          imageUrl: imageUrl.trim(),
-          isAnonymous,
-          userId: currentUser.id
-        })
-        onClose()
-        return
-      }
-
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('Not authenticated')
 
-      // Create post data
-      const postData = {
+      const { error: postsError } = await db.posts.create({
         user_id: user.id,
         content: content.trim(),
         images: imageUrl.trim() ? [imageUrl.trim()] : [],
         visibility: isAnonymous ? 'anonymous' : 'public',
-      }
-
-      const { error: postsError } = await supabase
-        .from('posts')
-        .insert([postData])
+      })
 
       if (postsError) {
         console.error('CreatePostModal: Error creating post:', postsError)
@@ -56,6 +43,7 @@ export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: C
       }
 
       console.log('CreatePostModal: Post created successfully')
+      await draft.discard()
       onClose()
     } catch (err) {
       console.error('CreatePostModal: Unexpected error:', err)
@@ -84,9 +72,9 @@ export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: C
               <div className="flex items-start space-x-3">
                 <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
                 <div>
-                  <h3 className="text-sm font-medium text-yellow-800">Demo Mode</h3>
+                  <h3 className="text-sm font-medium text-yellow-800">Offline Mode</h3>
                   <p className="text-sm text-yellow-700 mt-1">
-                    Posts won't be saved. Connect to Supabase to enable full functionality.
+                    Posts are saved in this browser only. Connect to Supabase to share them.
                   </p>
                 </div>
               </div>
@@ -105,7 +93,7 @@ export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: C
             </label>
             <textarea
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={(e) => draft.update({ content: e.target.value })}
               placeholder="Share your thoughts..."
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
               rows={4}
@@ -113,6 +101,7 @@ export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: C
               maxLength={500}
             />
             <p className="text-xs text-gray-500 mt-1">{content.length}/500 characters</p>
+            <DraftStatusNote status={draft.status} restored={draft.restored} onDiscard={draft.discard} />
           </div>
 
           <div className="mb-6">
@@ -124,7 +113,7 @@ export function CreatePostModal({ onClose, currentUser, isAnonymous = false }: C
               <input
                 type="url"
                 value={imageUrl}
-                onChange={(e) => setImageUrl(e.target.value)}
+                onChange={(e) => draft.update({ images: e.target.value ? [e.target.value] : [] })}
                 placeholder="https://example.com/image.jpg"
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               />
@@ -1,5 +1,8 @@
 import React, { useState } from 'react'
-import { supabase, hasValidSupabaseConfig } from '../lib/supabase'
+import { getCurrentUser, hasValidSupabaseConfig } from '../lib/supabase'
+import { db, isCommunitySection } from '../lib/data'
+import { useDraftAutosave } from '../hooks/useDraftAutosave'
+import { DraftStatusNote, SchedulePicker } from './DraftControls'
 import { X, Image, FileText, AlertCircle } from 'lucide-react'
 
 interface CreatePostPopupProps {
@@ -9,8 +12,11 @@ interface CreatePostPopupProps {
 }
 
 export function CreatePostPopup({ onClose, onPostCreated, currentSection }: CreatePostPopupProps) {
-  const [content, setContent] = useState('')
-  const [imageUrl, setImageUrl] = useState('')
+  const communityId = isCommunitySection(currentSection) ? currentSection : null
+  const anonymous = currentSection === 'anonymous'
+  const draft = useDraftAutosave({ communityId, visibility: anonymous ? 'anonymous' : 'public' })
+  const { content } = draft.value
+  const imageUrl = draft.value.images[0] || ''
   const [loading, setLoading] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -20,48 +26,29 @@ export function CreatePostPopup({ onClose, onPostCreated, currentSection }: Crea
     setLoading(true)
     
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo mode - just show success message
-        alert('Post created successfully! (Demo mode - connect to Supabase to save posts)')
-        onPostCreated()
-        return
-      }
-
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('Not authenticated')
 
-      // Try to insert into posts table first (social media posts)
-      const postData = {
-        user_id: user.id,
-        content: content.trim(),
-        images: imageUrl.trim() ? [imageUrl.trim()] : [],
-        files: [],
-        visibility: currentSection,
-      }
-
-      const { error: postsError } = await supabase
-        .from('posts')
-        .insert([postData])
-
-      if (postsError) {
-        console.log('Posts table insert failed, trying community_posts:', postsError)
-        
-        // If posts table fails, try community_posts table
-        const communityPostData = {
-          user_id: user.id,
-          content: content.trim(),
-          images: imageUrl.trim() ? [imageUrl.trim()] : [],
-          files: [],
-          community_id: '13e74a09-bec0-4504-b7a0-bc23a3e1e8c8', // Default community ID from your data
-        }
-
-        const { error: communityError } = await supabase
-          .from('community_posts')
-          .insert([communityPostData])
-
-        if (communityError) throw communityError
-      }
-
+      const images = imageUrl.trim() ? [imageUrl.trim()] : []
+      const { error } = communityId
+        ? await db.posts.createCommunityPost({
+            community_id: communityId,
+            user_id: user.id,
+            content: content.trim(),
+            images,
+            files: [],
+          })
+        : await db.posts.create({
+            user_id: user.id,
+            content: content.trim(),
+            images,
+            files: [],
+            visibility: anonymous ? 'anonymous' : 'public',
+          })
+
+      if (error) throw error
+
+      await draft.discard()
       onPostCreated()
     } catch (error) {
       console.error('Error creating post:', error)
@@ -90,9 +77,9 @@ export function CreatePostPopup({ onClose, onPostCreated, currentSection }: Crea
               <div className="flex items-start space-x-3">
                 <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
                 <div>
-                  <h3 className="text-sm font-medium text-yellow-800">Demo Mode</h3>
+                  <h3 className="text-sm font-medium text-yellow-800">Offline Mode</h3>
                   <p className="text-sm text-yellow-700 mt-1">
-                    Posts won't be saved. Connect to Supabase to enable full functionality.
+                    Posts are saved in this browser only. Connect to Supabase to share them.
                   </p>
                 </div>
               </div>
@@ -105,12 +92,13 @@ export function CreatePostPopup({ onClose, onPostCreated, currentSection }: Crea
             </label>
             <textarea
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={(e) => draft.update({ content: e.target.value })}
               placeholder="Share your thoughts..."
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
               rows={4}
               required
             />
+            <DraftStatusNote status={draft.status} restored={draft.restored} onDiscard={draft.discard} />
           </div>
 
           <div className="mb-6">
@@ -122,7 +110,7 @@ export function CreatePostPopup({ onClose, onPostCreated, currentSection }: Crea
               <input
                 type="url"
                 value={imageUrl}
-                onChange={(e) => setImageUrl(e.target.value)}
+                onChange={(e) => draft.update({ images: e.target.value ? [e.target.value] : [] })}
                 placeholder="https://example.com/image.jpg"
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               />
@@ -136,6 +124,15 @@ export function CreatePostPopup({ onClose, onPostCreated, currentSection }: Crea
             </div>
             
             <div className="flex items-center space-x-3">
+              {!anonymous && (
+                <SchedulePicker
+                  disabled={loading || !content.trim()}
+                  onSchedule={async at => {
+                    await draft.schedule(at)
+                    onClose()
+                  }}
+                />
+              )}
               <button
                 type="button"
                 onClick={onClose}
@@ -0,0 +1,114 @@
+import React, { useState } from 'react'
+import { CalendarClock } from 'lucide-react'
+import { DraftStatus } from '../hooks/useDraftAutosave'
+
+interface DraftStatusNoteProps {
+  status: DraftStatus
+  restored: boolean
+  onDiscard: () => void
+}
+
+const STATUS_LABELS: Record<DraftStatus, string | null> = {
+  idle: null,
+  saving: 'Saving draft...',
+  saved: 'Draft saved',
+  error: "Couldn't save the draft online; it's kept in this browser",
+}
+
+// The autosave state under a composer, with a way to start over
+export function DraftStatusNote({ status, restored, onDiscard }: DraftStatusNoteProps) {
+  const label = STATUS_LABELS[status] || (restored ? 'Draft restored' : null)
+  if (!label) return null
+
+  return (
+    <p className={`text-xs ${status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+      {label}
+      {' · '}
+      <button type="button" onClick={onDiscard} className="underline hover:text-gray-700">
+        Discard
+      </button>
+    </p>
+  )
+}
+
+// A local time formatted for `<input type="datetime-local">`
+export function toDateTimeInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+interface SchedulePickerProps {
+  disabled?: boolean
+  label?: string
+  // Where the picker starts; an hour from now by default
+  initial?: string | null
+  // Rejects with the reason the post couldn't be scheduled
+  onSchedule: (at: Date) => Promise<void>
+}
+
+// "Schedule" next to a composer's Post button: pick a time, then confirm
+export function SchedulePicker({ disabled = false, label = 'Schedule', initial = null, onSchedule }: SchedulePickerProps) {
+  const [open, setOpen] = useState(false)
+  const [at, setAt] = useState(() => toDateTimeInput(initial ? new Date(initial) : new Date(Date.now() + 60 * 60000)))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSchedule = async () => {
+    if (!at || saving) return
+    setSaving(true)
+    setError(null)
+    try {
+      await onSchedule(new Date(at))
+      setOpen(false)
+    } catch (err: any) {
+      setError(err?.message || 'Failed to schedule the post')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        title="Post later"
+      >
+        <CalendarClock className="w-4 h-4" />
+        <span>{label}</span>
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-end">
+      <div className="flex items-center space-x-2">
+        <input
+          type="datetime-local"
+          value={at}
+          min={toDateTimeInput(new Date())}
+          onChange={(e) => setAt(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="button"
+          onClick={handleSchedule}
+          disabled={disabled || saving || !at}
+          className="px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Scheduling...' : 'Schedule'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react'
+import { CalendarClock, FileText, Send, Trash2 } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { PostDraft } from '../lib/supabase'
+import { db } from '../lib/data'
+import { PostEditForm } from './PostEditForm'
+import { SchedulePicker } from './DraftControls'
+
+interface DraftsPanelProps {
+  currentUserId: string
+}
+
+const targetOf = (draft: PostDraft) =>
+  draft.communities?.name || (draft.visibility === 'anonymous' ? 'Anonymous' : 'Public feed')
+
+// The user's unfinished and scheduled posts. Scheduled ones stay editable
+// until the publishing job picks them up.
+export function DraftsPanel({ currentUserId }: DraftsPanelProps) {
+  const [drafts, setDrafts] = useState<PostDraft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadDrafts()
+  }, [currentUserId])
+
+  const loadDrafts = async () => {
+    setLoading(true)
+    setError(null)
+    const { data, error } = await db.drafts.list(currentUserId)
+    if (error) {
+      console.error('Error loading drafts:', error)
+      setError('Failed to load your drafts')
+    }
+    setDrafts(data || [])
+    setLoading(false)
+  }
+
+  const replace = (draft: PostDraft) => {
+    setDrafts(prev => prev.map(candidate => candidate.id === draft.id ? draft : candidate))
+  }
+
+  // Rejects so the schedule picker can show why
+  const handleSchedule = async (draftId: string, at: Date | null) => {
+    const { data, error } = await db.drafts.update(draftId, { scheduled_at: at ? at.toISOString() : null }, currentUserId)
+    if (error) throw error
+    replace(data)
+  }
+
+  const handleCancelSchedule = async (draftId: string) => {
+    setBusyId(draftId)
+    try {
+      await handleSchedule(draftId, null)
+    } catch (err) {
+      console.error('Error cancelling schedule:', err)
+      setError('Failed to cancel the schedule')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePublish = async (draftId: string) => {
+    setBusyId(draftId)
+    const { error } = await db.drafts.publish(draftId, currentUserId)
+    setBusyId(null)
+    if (error) {
+      console.error('Error publishing draft:', error)
+      setError(`Failed to post: ${error.message}`)
+      return
+    }
+    setDrafts(prev => prev.filter(draft => draft.id !== draftId))
+  }
+
+  const handleDelete = async (draftId: string) => {
+    if (!confirm('Delete this draft?')) return
+    setBusyId(draftId)
+    const { error } = await db.drafts.remove(draftId, currentUserId)
+    setBusyId(null)
+    if (error) {
+      console.error('Error deleting draft:', error)
+      setError('Failed to delete the draft')
+      return
+    }
+    setDrafts(prev => prev.filter(draft => draft.id !== draftId))
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  const scheduled = drafts.filter(draft => draft.scheduled_at)
+  const unscheduled = drafts.filter(draft => !draft.scheduled_at)
+
+  const renderDraft = (draft: PostDraft) => (
+    <li key={draft.id} className="py-3">
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs text-gray-500">
+          <span className="font-medium text-gray-700">{targetOf(draft)}</span>
+          {' · '}
+          {draft.scheduled_at
+            ? <>posts {format(new Date(draft.scheduled_at), 'PPp')}</>
+            : <>edited {formatDistanceToNow(new Date(draft.updated_at), { addSuffix: true })}</>}
+        </p>
+        {editingId !== draft.id && (
+          <button
+            onClick={() => setEditingId(draft.id)}
+            className="text-xs text-purple-600 hover:text-purple-800"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {draft.publish_error && (
+        <p className="text-xs text-red-600 mb-1">Couldn't be posted: {draft.publish_error}</p>
+      )}
+
+      {editingId === draft.id ? (
+        <PostEditForm
+          content={draft.content}
+          images={draft.images}
+          files={draft.files}
+          allowAttachments={draft.visibility !== 'anonymous'}
+          maxLength={500}
+          onSave={async edit => {
+            const { data, error } = await db.drafts.update(draft.id, edit, currentUserId)
+            if (error) throw error
+            replace(data)
+            setEditingId(null)
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap line-clamp-3">
+            {draft.content || <span className="text-gray-400">No text</span>}
+          </p>
+          {(draft.images.length > 0 || draft.files.length > 0) && (
+            <p className="text-xs text-gray-500 mt-1">
+              {draft.images.length > 0 && <>{draft.images.length} image{draft.images.length === 1 ? '' : 's'} </>}
+              {draft.files.length > 0 && <>{draft.files.length} file{draft.files.length === 1 ? '' : 's'}</>}
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            {draft.visibility !== 'anonymous' && (
+              <SchedulePicker
+                label={draft.scheduled_at ? 'Reschedule' : 'Schedule'}
+                initial={draft.scheduled_at}
+                disabled={busyId === draft.id || !draft.content.trim()}
+                onSchedule={at => handleSchedule(draft.id, at)}
+              />
+            )}
+            {draft.scheduled_at && (
+              <button
+                onClick={() => handleCancelSchedule(draft.id)}
+                disabled={busyId === draft.id}
+                className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50 transition-colors"
+              >
+                Cancel schedule
+              </button>
+            )}
+            <button
+              onClick={() => handlePublish(draft.id)}
+              disabled={busyId === draft.id || !draft.content.trim()}
+              className="flex items-center space-x-1 px-3 py-2 text-sm text-purple-700 hover:bg-purple-50 rounded-lg disabled:opacity-50 transition-colors"
+            >
+              <Send className="w-4 h-4" />
+              <span>Post now</span>
+            </button>
+            <button
+              onClick={() => handleDelete(draft.id)}
+              disabled={busyId === draft.id}
+              className="flex items-center space-x-1 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Delete</span>
+            </button>
+          </div>
+        </>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <section>
+        <h3 className="font-medium text-gray-900 flex items-center space-x-2">
+          <CalendarClock className="w-4 h-4 text-gray-500" />
+          <span>Scheduled ({scheduled.length})</span>
+        </h3>
+        {scheduled.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">Nothing scheduled.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {scheduled.map(renderDraft)}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h3 className="font-medium text-gray-900 flex items-center space-x-2">
+          <FileText className="w-4 h-4 text-gray-500" />
+          <span>Drafts ({unscheduled.length})</span>
+        </h3>
+        <p className="text-xs text-gray-500 mb-2">
+          Posts you started writing are saved here automatically.
+        </p>
+        {unscheduled.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">No drafts.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {unscheduled.map(renderDraft)}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
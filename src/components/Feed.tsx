@@ -1,28 +1,36 @@
 import React, { useState, useEffect } from 'react'
 import { Plus, Heart, MessageCircle, Share, Image, X } from 'lucide-react'
-import { Profile, Post, createPost, getPosts, uploadFile } from '../lib/supabase'
+import { FeedSort, Profile, Post, uploadFile } from '../lib/supabase'
+import { db } from '../lib/data'
+import { DEFAULT_FEED_SORT } from '../lib/feedRanking'
+import { FeedSortControl } from './FeedSortControl'
 import { formatDistanceToNow } from 'date-fns'
 
 interface FeedProps {
   currentUser: Profile
+  // 'following' shows people the user follows and their communities
+  section?: 'public' | 'following'
+  onSectionChange?: (section: 'public' | 'following') => void
 }
 
-export function Feed({ currentUser }: FeedProps) {
+export function Feed({ currentUser, section = 'public', onSectionChange }: FeedProps) {
   const [posts, setPosts] = useState<Post[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreatePost, setShowCreatePost] = useState(false)
   const [newPostContent, setNewPostContent] = useState('')
   const [selectedImages, setSelectedImages] = useState<File[]>([])
   const [uploading, setUploading] = useState(false)
+  const [sort, setSort] = useState<FeedSort>(DEFAULT_FEED_SORT)
 
   useEffect(() => {
     loadPosts()
-  }, [])
+  }, [section, sort])
 
   const loadPosts = async () => {
     setLoading(true)
-    const data = await getPosts()
-    setPosts(data)
+    const { data, error } = await db.posts.getFeedPage(section, null, { viewerId: currentUser.id, sort })
+    if (error) console.error('Error fetching posts:', error)
+    setPosts((data?.items || []) as Post[])
     setLoading(false)
   }
 
@@ -48,7 +56,12 @@ export function Feed({ currentUser }: FeedProps) {
       }
 
       // Create post
-      const post = await createPost(newPostContent, imageUrls)
+      const { data: post, error } = await db.posts.create({
+        user_id: currentUser.id,
+        content: newPostContent,
+        images: imageUrls
+      })
+      if (error) throw error
       if (post) {
         setPosts(prev => [post, ...prev])
         setNewPostContent('')
@@ -93,6 +106,26 @@ export function Feed({ currentUser }: FeedProps) {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Feed</h1>
           <p className="text-gray-600">Stay connected with your community</p>
+          {onSectionChange && (
+            <div className="mt-4 inline-flex bg-gray-100 rounded-lg p-1">
+              {(['public', 'following'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => onSectionChange(option)}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    section === option ? 'bg-white text-purple-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option === 'public' ? 'Everyone' : 'Following'}
+                </button>
+              ))}
+            </div>
+          )}
+          {section === 'public' && (
+            <div className="mt-4">
+              <FeedSortControl sort={sort} onChange={setSort} />
+            </div>
+          )}
         </div>
 
         {/* Create Post Button */}
@@ -118,7 +151,11 @@ export function Feed({ currentUser }: FeedProps) {
                 <MessageCircle className="w-8 h-8 text-gray-400" />
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
-              <p className="text-gray-500 mb-4">Be the first to share something with the community!</p>
+              <p className="text-gray-500 mb-4">
+                {section === 'following'
+                  ? 'Follow people or join communities to see their posts here.'
+                  : 'Be the first to share something with the community!'}
+              </p>
               <button
                 onClick={() => setShowCreatePost(true)}
                 className="inline-flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
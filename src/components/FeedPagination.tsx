@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react'
+import { ArrowUp } from 'lucide-react'
+
+interface InfiniteScrollTriggerProps {
+  onLoadMore: () => void
+  hasMore: boolean
+  loading: boolean
+}
+
+export function InfiniteScrollTrigger({ onLoadMore, hasMore, loading }: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const onLoadMoreRef = useRef(onLoadMore)
+  onLoadMoreRef.current = onLoadMore
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin: '400px 0px' }
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore])
+
+  if (!hasMore && !loading) return null
+
+  return (
+    <div ref={sentinelRef} className="py-6 flex justify-center">
+      {loading ? (
+        <div className="w-6 h-6 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+      ) : (
+        <button
+          onClick={onLoadMore}
+          className="text-sm text-purple-600 hover:text-purple-700"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface NewPostsBannerProps {
+  count: number
+  onClick: () => void
+}
+
+export function NewPostsBanner({ count, onClick }: NewPostsBannerProps) {
+  if (count <= 0) return null
+
+  return (
+    <div className="sticky top-20 z-10 flex justify-center mb-4">
+      <button
+        onClick={() => {
+          onClick()
+          window.scrollTo({ top: 0, behavior: 'smooth' })
+        }}
+        className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white text-sm font-medium rounded-full shadow-lg hover:bg-purple-600 transition-colors"
+      >
+        <ArrowUp className="w-4 h-4" />
+        <span>{count === 1 ? '1 new post' : `${count} new posts`} available</span>
+      </button>
+    </div>
+  )
+}
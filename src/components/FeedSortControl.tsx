@@ -0,0 +1,53 @@
+import React from 'react'
+import { Clock, Flame, MessageSquare, TrendingUp } from 'lucide-react'
+import { FeedSort, FeedSortMode } from '../lib/supabase'
+import { FEED_SORT_LABELS, FEED_SORT_MODES, TOP_WINDOWS, TOP_WINDOW_LABELS } from '../lib/feedRanking'
+
+interface FeedSortControlProps {
+  sort: FeedSort
+  onChange: (sort: FeedSort) => void
+}
+
+const SORT_ICONS: Record<FeedSortMode, React.ComponentType<{ className?: string }>> = {
+  new: Clock,
+  hot: Flame,
+  top: TrendingUp,
+  discussed: MessageSquare,
+}
+
+// New / Hot / Top / Most discussed, plus the time window while on Top
+export function FeedSortControl({ sort, onChange }: FeedSortControlProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="inline-flex bg-gray-100 rounded-lg p-1">
+        {FEED_SORT_MODES.map(mode => {
+          const Icon = SORT_ICONS[mode]
+          return (
+            <button
+              key={mode}
+              onClick={() => onChange(mode === 'top' ? { mode, window: sort.window || 'day' } : { mode })}
+              className={`flex items-center space-x-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                sort.mode === mode ? 'bg-white text-purple-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              <span>{FEED_SORT_LABELS[mode]}</span>
+            </button>
+          )
+        })}
+      </div>
+
+      {sort.mode === 'top' && (
+        <select
+          value={sort.window || 'all'}
+          onChange={(e) => onChange({ mode: 'top', window: e.target.value as FeedSort['window'] })}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          {TOP_WINDOWS.map(window => (
+            <option key={window} value={window}>{TOP_WINDOW_LABELS[window]}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
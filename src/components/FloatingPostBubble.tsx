@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { Plus, X, Send, Image, Globe, UserX } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import { getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface FloatingPostBubbleProps {
   onPostCreated: () => void
@@ -21,30 +22,14 @@ export function FloatingPostBubble({ onPostCreated, section }: FloatingPostBubbl
     setError(null)
     
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('No user found')
 
       console.log('Creating post for user:', user.id, 'Section:', section)
 
-      if (section === 'anonymous') {
-        // Create anonymous post
-        const { data: insertData, error: insertError } = await supabase
-          .from('anonymous_posts')
-          .insert({
-            content: content.trim()
-          })
-          .select()
-
-        console.log('Anonymous post insert result:', insertData, 'Error:', insertError)
-
-        if (insertError) throw insertError
-      } else {
-        // Create public post - check if user profile exists
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, display_name, full_name')
-          .eq('id', user.id)
-          .single()
+      if (section !== 'anonymous') {
+        // Public posts need a profile to show as the author
+        const { data: profile, error: profileError } = await db.profiles.get(user.id)
 
         console.log('User profile:', profile, 'Error:', profileError)
 
@@ -52,19 +37,17 @@ export function FloatingPostBubble({ onPostCreated, section }: FloatingPostBubbl
           console.warn('Profile not found for user:', user.id, profileError)
           throw new Error('Profile not found. Please complete your profile first.')
         }
+      }
 
-        const { data: insertData, error: insertError } = await supabase
-          .from('posts')
-          .insert({
-            user_id: user.id,
-            content: content.trim()
-          })
-          .select()
+      const { data: insertData, error: insertError } = await db.posts.create({
+        user_id: user.id,
+        content: content.trim(),
+        visibility: section
+      })
 
-        console.log('Public post insert result:', insertData, 'Error:', insertError)
+      console.log('Post insert result:', insertData, 'Error:', insertError)
 
-        if (insertError) throw insertError
-      }
+      if (insertError) throw insertError
 
       setContent('')
       setIsOpen(false)
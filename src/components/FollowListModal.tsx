@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import { Follow } from '../lib/supabase'
+import { db } from '../lib/data'
+import { paths } from '../lib/router'
+import { RouteLink } from './RouteLink'
+
+export type FollowListKind = 'followers' | 'following'
+
+interface FollowListModalProps {
+  userId: string
+  initialKind: FollowListKind
+  onClose: () => void
+}
+
+// Who follows a user and whom they follow, as two tabs
+export function FollowListModal({ userId, initialKind, onClose }: FollowListModalProps) {
+  const [kind, setKind] = useState<FollowListKind>(initialKind)
+  const [follows, setFollows] = useState<Follow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadFollows = async () => {
+      setLoading(true)
+      setError(null)
+      const { data, error } = kind === 'followers'
+        ? await db.follows.listFollowers(userId)
+        : await db.follows.listFollowing(userId)
+
+      if (error) {
+        console.error('Error loading follows:', error)
+        setError(`Failed to load ${kind}`)
+      }
+      setFollows(data || [])
+      setLoading(false)
+    }
+
+    loadFollows()
+  }, [userId, kind])
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-md max-h-[70vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex space-x-1">
+            {(['followers', 'following'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`px-3 py-2 text-sm font-medium border-b-2 capitalize transition-colors ${
+                  kind === option ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-500"></div>
+            </div>
+          ) : error ? (
+            <p className="text-center text-sm text-red-600 py-8">{error}</p>
+          ) : follows.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              {kind === 'followers' ? 'No followers yet' : 'Not following anyone yet'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {follows.map(follow => {
+                const person = follow.profiles
+                const name = person?.display_name || person?.full_name || person?.username || 'Unknown User'
+                const otherId = kind === 'followers' ? follow.follower_id : follow.followee_id
+                return (
+                  <li key={otherId}>
+                    <RouteLink
+                      to={paths.profile(person?.username || otherId)}
+                      onClick={onClose}
+                      className="flex items-center space-x-3 hover:bg-gray-50 rounded-lg p-1 -m-1"
+                    >
+                      <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                        {person?.avatar_url ? (
+                          <img src={person.avatar_url} alt={name} className="w-full h-full rounded-full object-cover" />
+                        ) : (
+                          <span className="text-white font-semibold text-xs">{name.charAt(0).toUpperCase()}</span>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{name}</p>
+                        {person?.username && <p className="text-xs text-gray-500">@{person.username}</p>}
+                      </div>
+                    </RouteLink>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
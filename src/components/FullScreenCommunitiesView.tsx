@@ -1,9 +1,17 @@
 import React, { useState, useEffect } from 'react'
-import { ArrowLeft, Users, Plus, Search, Filter, MessageCircle } from 'lucide-react'
-import { supabase, Profile, CommunityPost, hasValidSupabaseConfig } from '../lib/supabase'
+import { ArrowLeft, Users, Plus, Search, Filter, MessageCircle, Info } from 'lucide-react'
+import { Profile, CommunityPost, FeedSort, ReactionType } from '../lib/supabase'
+import { db, unwrap } from '../lib/data'
 import { CommunityPostCard } from './CommunityPostCard'
 import { CreateCommunityPostPopup } from './CreateCommunityPostPopup'
+import { NewPostsBanner, InfiniteScrollTrigger } from './FeedPagination'
+import { FeedSortControl } from './FeedSortControl'
+import { DEFAULT_FEED_SORT, feedSortKey } from '../lib/feedRanking'
+import { FeedCursor, FeedPage } from '../lib/pagination'
+import { usePaginatedFeed } from '../hooks/usePaginatedFeed'
 import { MessagesPopup } from './MessagesPopup'
+import { PendingInvites } from './PendingInvites'
+import { useCommunityPermissions } from '../hooks/useCommunityPermissions'
 
 interface Community {
   id: string
@@ -17,28 +25,46 @@ interface Community {
 interface FullScreenCommunitiesViewProps {
   currentUser: Profile
   onBack: () => void
+  // The community picked by the URL; without one the first community is shown
+  communityId?: string | null
+  onSelectCommunity?: (communityId: string) => void
+  onShowInfo?: (communityId: string) => void
+  onShowMessages?: () => void
 }
 
-export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCommunitiesViewProps) {
+export function FullScreenCommunitiesView({
+  currentUser,
+  onBack,
+  communityId,
+  onSelectCommunity,
+  onShowInfo,
+  onShowMessages
+}: FullScreenCommunitiesViewProps) {
   const [communities, setCommunities] = useState<Community[]>([])
-  const [selectedCommunity, setSelectedCommunity] = useState<string | null>(null)
-  const [posts, setPosts] = useState<CommunityPost[]>([])
+  const [selectedCommunity, setSelectedCommunity] = useState<string | null>(communityId || null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showCreatePost, setShowCreatePost] = useState(false)
   const [showMessages, setShowMessages] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [pinnedPosts, setPinnedPosts] = useState<CommunityPost[]>([])
+  const [sort, setSort] = useState<FeedSort>(DEFAULT_FEED_SORT)
+  const { can } = useCommunityPermissions(selectedCommunity, currentUser.id)
+  const canPost = can('post')
 
   useEffect(() => {
     loadCommunities()
   }, [])
 
   useEffect(() => {
-    if (selectedCommunity) {
-      loadCommunityPosts(selectedCommunity)
-    }
+    setPinnedPosts([])
+    if (selectedCommunity) loadPinnedPosts()
   }, [selectedCommunity])
 
+  useEffect(() => {
+    if (communityId) setSelectedCommunity(communityId)
+  }, [communityId])
+
   // Debug effect to track showMessages changes
   useEffect(() => {
     console.log('🔍 showMessages state changed to:', showMessages)
@@ -53,52 +79,7 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
       setLoading(true)
       setError(null)
 
-      if (!hasValidSupabaseConfig()) {
-        // Demo communities
-        const demoCommunities = [
-          {
-            id: 'gmik',
-            name: 'GMIK',
-            description: 'GMIK Community - Connect with fellow members',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 42
-          },
-          {
-            id: 'programmer',
-            name: 'Programmer',
-            description: 'No Life Pipol - For developers and tech enthusiasts',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 128
-          },
-          {
-            id: 'design',
-            name: 'Design Hub',
-            description: 'Creative minds unite - Share your designs and get feedback',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 67
-          },
-          {
-            id: 'photography',
-            name: 'Photography',
-            description: 'Capture and share beautiful moments',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            member_count: 89
-          }
-        ]
-        setCommunities(demoCommunities)
-        setSelectedCommunity('gmik') // Auto-select first community
-        setLoading(false)
-        return
-      }
-
-      const { data, error } = await supabase
-        .from('communities')
-        .select('*')
-        .order('created_at', { ascending: false })
+      const { data, error } = await db.communities.list({ viewerId: currentUser.id })
 
       if (error) {
         console.error('Error loading communities:', error)
@@ -106,7 +87,7 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
       } else {
         setCommunities(data || [])
         if (data && data.length > 0) {
-          setSelectedCommunity(data[0].id)
+          setSelectedCommunity(current => current || data[0].id)
         }
       }
     } catch (error) {
@@ -117,211 +98,120 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
     }
   }
 
-  const loadCommunityPosts = async (communityId: string) => {
-    try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo posts for selected community
-        const demoPosts = [
-          {
-            id: `${communityId}-post-1`,
-            community_id: communityId,
-            user_id: currentUser.id,
-            content: `Welcome to ${communities.find(c => c.id === communityId)?.name || 'this community'}! This is a demo post to show how community posts work. You can share images, files, and have full discussions here.`,
-            images: ['https://images.pexels.com/photos/1591056/pexels-photo-1591056.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            files: [],
-            created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-            profiles: currentUser,
-            likes: [],
-            comments: [],
-            _count: { likes: 3, comments: 1 }
-          },
-          {
-            id: `${communityId}-post-2`,
-            community_id: communityId,
-            user_id: 'demo-user-2',
-            content: `Great to be part of this community! Looking forward to connecting with everyone here. 🚀`,
-            images: [],
-            files: [],
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-            profiles: {
-              id: 'demo-user-2',
-              full_name: 'Demo Member',
-              display_name: 'demomember',
-              email: 'member@example.com',
-              avatar_url: null,
-              bio: null,
-              website: null,
-              location: null,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            },
-            likes: [],
-            comments: [],
-            _count: { likes: 7, comments: 2 }
-          },
-          {
-            id: `${communityId}-post-3`,
-            community_id: communityId,
-            user_id: 'demo-user-3',
-            content: `Check out this amazing project I've been working on! Would love to get your feedback and suggestions. 💡`,
-            images: ['https://images.pexels.com/photos/574071/pexels-photo-574071.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            files: [],
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(),
-            profiles: {
-              id: 'demo-user-3',
-              full_name: 'Creative User',
-              display_name: 'creative',
-              email: 'creative@example.com',
-              avatar_url: null,
-              bio: null,
-              website: null,
-              location: null,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            },
-            likes: [],
-            comments: [],
-            _count: { likes: 12, comments: 5 }
-          }
-        ]
-        setPosts(demoPosts)
-        return
-      }
+  const selectCommunity = (id: string) => {
+    if (onSelectCommunity) {
+      onSelectCommunity(id)
+    } else {
+      setSelectedCommunity(id)
+    }
+  }
 
-      const { data: postsData, error: postsError } = await supabase
-        .from('community_posts')
-        .select(`
-          *,
-          profiles!community_posts_user_id_fkey(
-            id,
-            display_name,
-            full_name,
-            avatar_url
-          )
-        `)
-        .eq('community_id', communityId)
-        .order('created_at', { ascending: false })
-
-      if (postsError) {
-        console.error('Posts error:', postsError)
-        return
-      }
+  const fetchCommunityPostsPage = async (cursor: FeedCursor | null): Promise<FeedPage<CommunityPost>> => {
+    const communityId = selectedCommunity!
 
-      // Get additional data for each post
-      const postsWithCounts = []
-      
-      for (const post of postsData || []) {
-        // Get likes
-        const { data: likes } = await supabase
-          .from('community_likes')
-          .select('id, user_id')
-          .eq('post_id', post.id)
-
-        // Get comments
-        const { data: comments } = await supabase
-          .from('community_comments')
-          .select(`
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles!community_comments_user_id_fkey(
-              id,
-              display_name,
-              full_name,
-              avatar_url
-            )
-          `)
-          .eq('post_id', post.id)
-          .order('created_at', { ascending: true })
-
-        postsWithCounts.push({
-          ...post,
-          likes: likes || [],
-          comments: comments || [],
-          _count: {
-            likes: likes?.length || 0,
-            comments: comments?.length || 0,
-          },
-        })
-      }
+    return unwrap(await db.posts.getFeedPage(communityId, cursor, { viewerId: currentUser.id, sort })) as FeedPage<CommunityPost>
+  }
 
-      setPosts(postsWithCounts)
-    } catch (error) {
-      console.error('Error loading community posts:', error)
+  const loadPinnedPosts = async () => {
+    const { data, error } = await db.posts.listPinned(selectedCommunity!, currentUser.id)
+    if (error) {
+      console.error('Error loading pinned posts:', error)
+      return
     }
+    setPinnedPosts(data as CommunityPost[])
   }
 
-  const handleLike = async (postId: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just update local state
-      setPosts(prevPosts => 
-        prevPosts.map(post => {
-          if (post.id === postId) {
-            const isLiked = post.likes?.some(l => l.user_id === currentUser.id)
-            const newLikesCount = isLiked 
-              ? (post._count?.likes || 0) - 1 
-              : (post._count?.likes || 0) + 1
-            
-            return {
-              ...post,
-              _count: {
-                ...post._count,
-                likes: newLikesCount
-              }
-            }
-          }
-          return post
-        })
-      )
+  const {
+    items: posts,
+    updateItem,
+    removeItem,
+    loadingMore,
+    hasMore,
+    newCount,
+    loadMore,
+    refresh: refreshCommunityPosts,
+    showNewItems
+  } = usePaginatedFeed<CommunityPost>({
+    key: `community:${selectedCommunity}:${feedSortKey(sort)}`,
+    fetchPage: fetchCommunityPostsPage,
+    countNewer: sort.mode === 'new'
+      ? async head => unwrap(await db.posts.countNewer(selectedCommunity!, head, currentUser.id))
+      : undefined,
+    ranked: sort.mode !== 'new',
+    enabled: !!selectedCommunity
+  })
+
+  const reloadCommunityPost = async (postId: string) => {
+    const { data, error } = await db.posts.getFeedPost(selectedCommunity!, postId, currentUser.id)
+    if (error) {
+      console.error('Error reloading community post:', error)
       return
     }
+    updateItem(postId, () => data as CommunityPost)
+    setPinnedPosts(prev => prev.map(post => (post.id === postId ? data as CommunityPost : post)))
+  }
 
-    try {
-      const existingLike = posts
-        .find(p => p.id === postId)
-        ?.likes?.find(l => l.user_id === currentUser.id)
-
-      if (existingLike) {
-        await supabase
-          .from('community_likes')
-          .delete()
-          .eq('id', existingLike.id)
-      } else {
-        await supabase
-          .from('community_likes')
-          .insert([{ user_id: currentUser.id, post_id: postId }])
-      }
-
-      if (selectedCommunity) {
-        loadCommunityPosts(selectedCommunity)
-      }
-    } catch (error) {
-      console.error('Error toggling like:', error)
+  const handleTogglePin = async (post: CommunityPost) => {
+    const { error } = await db.posts.setPinned(post.id, !post.pinned_at, currentUser.id)
+    if (error) {
+      console.error('Error pinning post:', error)
+      alert(error.message || 'Failed to update the pin')
+      return
     }
+    reloadCommunityPost(post.id)
+    loadPinnedPosts()
   }
 
-  const handleComment = async (postId: string, content: string) => {
-    if (!hasValidSupabaseConfig()) {
-      alert('Comment added! (Demo mode)')
+  const handleDeletePost = async (post: CommunityPost) => {
+    if (!confirm('Delete this post? This cannot be undone.')) return
+    const { error } = await db.posts.deleteCommunityPost(post.id, currentUser.id)
+    if (error) {
+      console.error('Error deleting post:', error)
+      alert(error.message || 'Failed to delete the post')
       return
     }
+    removeItem(post.id)
+    setPinnedPosts(prev => prev.filter(candidate => candidate.id !== post.id))
+  }
+
+  const renderPost = (post: CommunityPost) => (
+    <CommunityPostCard
+      key={post.id}
+      post={post}
+      currentUser={currentUser}
+      onReact={handleReact}
+      onComment={handleComment}
+      canComment={can('comment')}
+      canPin={can('pin')}
+      canDeleteOthers={can('delete_posts')}
+      onTogglePin={handleTogglePin}
+      onDelete={handleDeletePost}
+      onChanged={reloadCommunityPost}
+    />
+  )
 
+  const handleReact = async (postId: string, reaction: ReactionType | null) => {
     try {
-      await supabase
-        .from('community_comments')
-        .insert([{
-          user_id: currentUser.id,
-          post_id: postId,
-          content,
-        }])
-
-      if (selectedCommunity) {
-        loadCommunityPosts(selectedCommunity)
-      }
+      const { error } = await db.reactions.setPostReaction('community_post', postId, currentUser.id, reaction)
+      if (error) throw error
+
+      reloadCommunityPost(postId)
+    } catch (error) {
+      console.error('Error updating reaction:', error)
+    }
+  }
+
+  const handleComment = async (postId: string, content: string, parentId?: string | null) => {
+    try {
+      const { error } = await db.comments.create('community_post', {
+        user_id: currentUser.id,
+        post_id: postId,
+        content,
+        parent_id: parentId,
+      })
+      if (error) throw error
+
+      reloadCommunityPost(postId)
     } catch (error) {
       console.error('Error adding comment:', error)
     }
@@ -330,7 +220,7 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
   const handlePostCreated = () => {
     setShowCreatePost(false)
     if (selectedCommunity) {
-      loadCommunityPosts(selectedCommunity)
+      refreshCommunityPosts()
     }
   }
 
@@ -433,12 +323,14 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
                 </button>
                 <h1 className="text-xl font-bold text-gray-900">Communities</h1>
               </div>
-              <button
-                onClick={() => setShowCreatePost(true)}
-                className="p-2 bg-purple-500 text-white rounded-full hover:bg-purple-600 transition-colors"
-              >
-                <Plus className="w-5 h-5" />
-              </button>
+              {canPost && (
+                <button
+                  onClick={() => setShowCreatePost(true)}
+                  className="p-2 bg-purple-500 text-white rounded-full hover:bg-purple-600 transition-colors"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              )}
             </div>
 
             {/* Search */}
@@ -454,6 +346,10 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
             </div>
           </div>
 
+          <div className="px-4 pt-4 empty:hidden">
+            <PendingInvites currentUser={currentUser} onJoined={id => { loadCommunities(); selectCommunity(id) }} compact />
+          </div>
+
           {/* Navigation Buttons */}
           <div className="p-4 border-b border-gray-200">
             <div className="space-y-2">
@@ -467,6 +363,10 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
                 onClick={() => {
                   console.log('🔴 Messages button clicked!')
                   console.log('Before setState - showMessages:', showMessages)
+                  if (onShowMessages) {
+                    onShowMessages()
+                    return
+                  }
                   setShowMessages(true)
                   console.log('After setState call')
                 }}
@@ -484,7 +384,7 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
               {filteredCommunities.map((community) => (
                 <button
                   key={community.id}
-                  onClick={() => setSelectedCommunity(community.id)}
+                  onClick={() => selectCommunity(community.id)}
                   className={`w-full flex items-center space-x-3 p-3 rounded-lg transition-colors text-left ${
                     selectedCommunity === community.id
                       ? 'bg-purple-100 text-purple-700'
@@ -525,44 +425,64 @@ export function FullScreenCommunitiesView({ currentUser, onBack }: FullScreenCom
                     )}
                   </div>
                   <div className="flex space-x-2">
-                    <button
-                      onClick={() => setShowCreatePost(true)}
-                      className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
-                    >
-                      Create Post
-                    </button>
+                    {onShowInfo && (
+                      <button
+                        onClick={() => onShowInfo(selectedCommunityData.id)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Community info"
+                      >
+                        <Info className="w-5 h-5" />
+                      </button>
+                    )}
+                    {canPost && (
+                      <button
+                        onClick={() => setShowCreatePost(true)}
+                        className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+                      >
+                        Create Post
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
 
+              <div className="mb-4">
+                <FeedSortControl sort={sort} onChange={setSort} />
+              </div>
+
               {/* Posts */}
-              {posts.length === 0 ? (
+              {posts.length === 0 && pinnedPosts.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                     <Users className="w-8 h-8 text-gray-400" />
                   </div>
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
-                  <p className="text-gray-600 mb-4">
-                    Be the first to share something in {selectedCommunityData.name}!
-                  </p>
-                  <button
-                    onClick={() => setShowCreatePost(true)}
-                    className="px-6 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
-                  >
-                    Create Post
-                  </button>
+                  {canPost ? (
+                    <>
+                      <p className="text-gray-600 mb-4">
+                        Be the first to share something in {selectedCommunityData.name}!
+                      </p>
+                      <button
+                        onClick={() => setShowCreatePost(true)}
+                        className="px-6 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+                      >
+                        Create Post
+                      </button>
+                    </>
+                  ) : (
+                    <p className="text-gray-600">Nothing has been posted in {selectedCommunityData.name} yet.</p>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {posts.map((post) => (
-                    <CommunityPostCard
-                      key={post.id}
-                      post={post}
-                      currentUser={currentUser}
-                      onLike={handleLike}
-                      onComment={handleComment}
-                    />
-                  ))}
+                  {pinnedPosts.map(renderPost)}
+                  <NewPostsBanner count={newCount} onClick={showNewItems} />
+                  {posts.filter(post => !pinnedPosts.some(pinned => pinned.id === post.id)).map(renderPost)}
+                  <InfiniteScrollTrigger
+                    onLoadMore={loadMore}
+                    hasMore={hasMore}
+                    loading={loadingMore}
+                  />
                 </div>
               )}
             </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react'
+import { Users, Lock, Link2, AlertCircle } from 'lucide-react'
+import { Profile } from '../lib/supabase'
+import { db, InviteLinkPreview } from '../lib/data'
+import { InviteLinkState } from '../lib/communityInvites'
+import { navigate, paths } from '../lib/router'
+
+interface JoinCommunityViewProps {
+  code: string
+  currentUser: Profile
+}
+
+const UNUSABLE_MESSAGES: Record<Exclude<InviteLinkState, 'active'>, string> = {
+  revoked: 'This invite link has been revoked.',
+  expired: 'This invite link has expired.',
+  used_up: 'This invite link has reached its limit.',
+}
+
+// Where /join/<code> invite links land: shows the community and joins on request
+export function JoinCommunityView({ code, currentUser }: JoinCommunityViewProps) {
+  const [preview, setPreview] = useState<InviteLinkPreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [joining, setJoining] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadPreview()
+  }, [code])
+
+  const loadPreview = async () => {
+    setLoading(true)
+    setError(null)
+    const { data, error } = await db.invites.previewLink(code, currentUser.id)
+    if (error) {
+      console.error('Error loading invite link:', error)
+      setError(error.code === 'not_found' ? 'This invite link does not exist.' : 'Failed to load the invite.')
+    }
+    setPreview(data)
+    setLoading(false)
+  }
+
+  const openCommunity = (communityId: string) => navigate(paths.community(communityId), { replace: true })
+
+  const handleJoin = async () => {
+    setJoining(true)
+    setError(null)
+    const { data: communityId, error } = await db.invites.redeemLink(code, currentUser.id)
+    setJoining(false)
+
+    if (error) {
+      console.error('Error joining with invite link:', error)
+      setError(error.message || 'Failed to join the community')
+      loadPreview()
+      return
+    }
+    openCommunity(communityId)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+      </div>
+    )
+  }
+
+  const community = preview?.community
+
+  return (
+    <div className="p-6">
+      <div className="max-w-md mx-auto bg-white rounded-2xl shadow-sm p-8 text-center">
+        {community ? (
+          <>
+            <div className="w-20 h-20 bg-gradient-to-br from-purple-500 to-pink-500 rounded-2xl flex items-center justify-center mx-auto mb-4">
+              <span className="text-white font-bold text-3xl">{community.name.charAt(0).toUpperCase()}</span>
+            </div>
+            <p className="text-sm text-gray-500 flex items-center justify-center space-x-1 mb-1">
+              <Link2 className="w-4 h-4" />
+              <span>You've been invited to join</span>
+            </p>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center justify-center space-x-2 mb-2">
+              <span>{community.name}</span>
+              {community.is_private && <Lock className="w-5 h-5 text-gray-400" />}
+            </h1>
+            {community.description && <p className="text-gray-600 mb-3">{community.description}</p>}
+            <p className="text-sm text-gray-500 flex items-center justify-center space-x-1 mb-6">
+              <Users className="w-4 h-4" />
+              <span>{community.member_count.toLocaleString()} members</span>
+            </p>
+
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+            {preview.is_member ? (
+              <button
+                onClick={() => openCommunity(community.id)}
+                className="w-full py-3 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700 transition-colors"
+              >
+                You're already a member — open community
+              </button>
+            ) : preview.state === 'active' ? (
+              <button
+                onClick={handleJoin}
+                disabled={joining}
+                className="w-full py-3 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                {joining ? 'Joining...' : 'Join community'}
+              </button>
+            ) : (
+              <p className="flex items-center justify-center space-x-2 text-sm text-gray-600 bg-gray-100 rounded-xl py-3">
+                <AlertCircle className="w-4 h-4" />
+                <span>{UNUSABLE_MESSAGES[preview.state]} Ask an admin for a new one.</span>
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <AlertCircle className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-700 mb-6">{error || 'This invite link does not exist.'}</p>
+            <button
+              onClick={() => navigate(paths.communities(), { replace: true })}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              Browse communities
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
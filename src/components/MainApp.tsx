@@ -1,33 +1,82 @@
-import React, { useState } from 'react'
+import React from 'react'
 import { Profile } from '../lib/supabase'
+import { ResolvedRoute, closeOverlay, navigate, paths } from '../lib/router'
+import { useRoute } from '../hooks/useRoute'
 import { Sidebar } from './Sidebar'
 import { Feed } from './Feed'
 import { Communities } from './Communities'
 import { Marketplace } from './Marketplace'
 import { Profile as ProfileComponent } from './Profile'
 import { MessagesPopup } from './MessagesPopup'
+import { PostView } from './PostView'
+import { UserProfileView } from './UserProfileView'
+import { JoinCommunityView } from './JoinCommunityView'
+import { ModerationView } from './ModerationView'
 
 interface MainAppProps {
   user: any
   profile: Profile
 }
 
+// SijangKu is a tab here rather than a popup, so its overlay route selects the tab
+function tabForRoute({ page, overlay }: ResolvedRoute): string {
+  if (overlay?.name === 'market') return 'marketplace'
+  if (page.name === 'communities' || page.name === 'community' || page.name === 'join') return 'communities'
+  if (page.name === 'profile') return 'profile'
+  if (page.name === 'moderation') return 'moderation'
+  return 'feed'
+}
+
 export function MainApp({ user, profile }: MainAppProps) {
-  const [activeTab, setActiveTab] = useState('feed')
-  const [showMessages, setShowMessages] = useState(false)
+  const route = useRoute()
+  const { page, overlay } = route
+  const activeTab = tabForRoute(route)
+  const ownUsername = profile.username || profile.id
+
+  const setActiveTab = (tab: string) => {
+    switch (tab) {
+      case 'communities':
+        return navigate(paths.communities())
+      case 'marketplace':
+        return navigate(paths.market())
+      case 'profile':
+        return navigate(paths.profile(ownUsername))
+      case 'moderation':
+        return navigate(paths.moderation())
+      default:
+        return navigate(paths.home())
+    }
+  }
+
+  const feedSection = page.name === 'home' && page.section === 'following' ? 'following' : 'public'
+  const feed = (
+    <Feed currentUser={profile} section={feedSection} onSectionChange={section => navigate(paths.home(section))} />
+  )
 
   const renderContent = () => {
+    if (page.name === 'post' && !overlay) {
+      return <PostView postId={page.postId} currentUser={profile} onBack={() => navigate(paths.home())} />
+    }
+    if (page.name === 'join') {
+      return <JoinCommunityView code={page.code} currentUser={profile} />
+    }
+    if (page.name === 'profile' && page.username !== ownUsername && page.username !== profile.id) {
+      return <UserProfileView username={page.username} currentUser={profile} />
+    }
+
     switch (activeTab) {
       case 'feed':
-        return <Feed currentUser={profile} />
+        return feed
       case 'communities':
         return <Communities currentUser={profile} />
       case 'marketplace':
         return <Marketplace currentUser={profile} />
       case 'profile':
         return <ProfileComponent user={user} profile={profile} />
+      case 'moderation':
+        return <ModerationView currentUser={profile} />
       default:
-        return <Feed currentUser={profile} />
+        return feed
     }
   }
 
@@ -37,7 +86,7 @@ export function MainApp({ user, profile }: MainAppProps) {
         <Sidebar 
           activeTab={activeTab} 
           setActiveTab={setActiveTab}
-          onMessagesClick={() => setShowMessages(true)}
+          onMessagesClick={() => navigate(paths.messages())}
           profile={profile}
         />
         <main className="flex-1 ml-64">
@@ -45,10 +94,12 @@ export function MainApp({ user, profile }: MainAppProps) {
         </main>
       </div>
 
-      {showMessages && (
+      {overlay?.name === 'messages' && (
         <MessagesPopup 
           currentUser={profile}
-          onClose={() => setShowMessages(false)}
+          conversationId={overlay.conversationId}
+          onSelectConversation={conversationId => navigate(paths.messages(conversationId))}
+          onClose={closeOverlay}
         />
       )}
     </div>
@@ -3,11 +3,23 @@ import { TopNavigation } from './TopNavigation'
 import { PostCard } from './PostCard'
 import { CreatePostPopup } from './CreatePostPopup'
 import { CreateCommunityPostPopup } from './CreateCommunityPostPopup'
-import { MarketplacePopup } from './MarketplacePopup'
+import { SijangKuPopup } from './SijangKuPopup'
 import { MessagesPopup } from './MessagesPopup'
-import { ProfileView } from './ProfileView'
+import { CommunityInfoPopup } from './CommunityInfoPopup'
+import { UserProfileView } from './UserProfileView'
+import { PostView } from './PostView'
+import { JoinCommunityView } from './JoinCommunityView'
+import { ModerationView } from './ModerationView'
 import { FullScreenCommunitiesView } from './FullScreenCommunitiesView'
-import { supabase, Post, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import { NewPostsBanner, InfiniteScrollTrigger } from './FeedPagination'
+import { FeedSortControl } from './FeedSortControl'
+import { FeedSort, Post, Profile, ReactionType } from '../lib/supabase'
+import { db, isCommunitySection, postKindForSection, sectionForPost, unwrap } from '../lib/data'
+import { DEFAULT_FEED_SORT, feedSortKey } from '../lib/feedRanking'
+import { FeedCursor, FeedPage } from '../lib/pagination'
+import { HomeSection, PageRoute, closeOverlay, navigate, paths } from '../lib/router'
+import { usePaginatedFeed } from '../hooks/usePaginatedFeed'
+import { useRoute } from '../hooks/useRoute'
 import { Home, PlusSquare, Users, MessageCircle, User, Package } from 'lucide-react'
 
 interface MainLayoutProps {
@@ -15,16 +27,46 @@ interface MainLayoutProps {
   onLogout: () => void
 }
 
+type View = 'home' | 'profile' | 'communities' | 'community' | 'fullscreen-communities'
+
+function viewForPage(page: PageRoute): View {
+  switch (page.name) {
+    case 'profile':
+      return 'profile'
+    case 'communities':
+    case 'community':
+      return 'fullscreen-communities'
+    default:
+      return 'home'
+  }
+}
+
+// The screen and the open popups come from the URL, so every change goes
+// through `navigate` and back/forward restores it.
 export function MainLayout({ profile, onLogout }: MainLayoutProps) {
-  const [posts, setPosts] = useState<Post[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
   const [showCreatePost, setShowCreatePost] = useState(false)
   const [showCreateCommunity, setShowCreateCommunity] = useState(false)
-  const [showMarketplace, setShowMarketplace] = useState(false)
-  const [showMessages, setShowMessages] = useState(false)
-  const [currentView, setCurrentView] = useState<'home' | 'profile' | 'communities' | 'community' | 'fullscreen-communities'>('home')
-  const [currentSection, setCurrentSection] = useState<'public' | 'anonymous' | string>('public')
+  const [sort, setSort] = useState<FeedSort>(DEFAULT_FEED_SORT)
+  const { page, overlay } = useRoute()
+  const currentView = viewForPage(page)
+  const currentSection: 'public' | 'anonymous' | string = page.name === 'home' ? page.section : 'public'
+  const showMessages = overlay?.name === 'messages'
+
+  const setCurrentView = (view: View) => {
+    if (view === 'profile') {
+      navigate(paths.profile(profile.username || profile.id))
+    } else if (view === 'home') {
+      navigate(paths.home())
+    } else {
+      navigate(paths.communities())
+    }
+  }
+
+  const setCurrentSection = (section: 'public' | 'anonymous' | string) => {
+    navigate(isCommunitySection(section) ? paths.community(section) : paths.home(section as HomeSection))
+  }
+
+  const openMarketplace = () => navigate(paths.market())
 
   // Enhanced debugging for Messages button
   useEffect(() => {
@@ -36,193 +78,72 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
     })
   }, [showMessages, currentView, currentSection])
 
-  useEffect(() => {
-    loadPosts()
-  }, [currentSection])
-
-  const loadPosts = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      if (!hasValidSupabaseConfig()) {
-        // Demo posts when Supabase is not configured
-        const demoPosts = [
-          {
-            id: '1',
-            user_id: profile.id,
-            content: 'Welcome to TepiTingkap! This is a demo post to show how the platform works. You can share your thoughts, images, and connect with others in the community.',
-            images: ['https://images.pexels.com/photos/1591056/pexels-photo-1591056.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_anonymous: currentSection === 'anonymous',
-            created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-            profiles: profile,
-            likes: [],
-            comments: [],
-            _count: { likes: 5, comments: 2 }
-          },
-          {
-            id: '2',
-            user_id: 'demo-user-2',
-            content: 'Beautiful sunset today! 🌅 Sometimes we need to pause and appreciate the simple moments in life.',
-            images: ['https://images.pexels.com/photos/1181677/pexels-photo-1181677.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_anonymous: currentSection === 'anonymous',
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-            profiles: {
-              id: 'demo-user-2',
-              full_name: currentSection === 'anonymous' ? null : 'Nature Lover',
-              display_name: currentSection === 'anonymous' ? null : 'naturelover',
-              email: 'nature@example.com',
-              avatar_url: null,
-              bio: null,
-              website: null,
-              location: null,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            },
-            likes: [],
-            comments: [],
-            _count: { likes: 12, comments: 4 }
-          },
-          {
-            id: '3',
-            user_id: 'demo-user-3',
-            content: currentSection === 'anonymous' 
-              ? 'Sharing this anonymously - sometimes it\'s easier to express thoughts without revealing identity. What do you think about anonymous social sharing?'
-              : 'Just finished reading an amazing book! 📚 "The Power of Now" really changed my perspective on mindfulness and living in the present moment.',
-            images: currentSection === 'anonymous' ? [] : ['https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_anonymous: currentSection === 'anonymous',
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(),
-            profiles: {
-              id: 'demo-user-3',
-              full_name: currentSection === 'anonymous' ? null : 'Book Reader',
-              display_name: currentSection === 'anonymous' ? null : 'booklover',
-              email: 'books@example.com',
-              avatar_url: null,
-              bio: null,
-              website: null,
-              location: null,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            },
-            likes: [],
-            comments: [],
-            _count: { likes: 8, comments: 6 }
-          }
-        ]
-        setPosts(demoPosts)
-        setLoading(false)
-        return
-      }
-
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles (
-            id,
-            display_name,
-            full_name,
-            avatar_url
-          ),
-          likes:post_likes(id, user_id),
-          comments:post_comments(
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles(id, display_name, full_name, avatar_url)
-          )
-        `)
-        .eq('is_anonymous', currentSection === 'anonymous')
-        .order('created_at', { ascending: false })
-
-      if (error) {
-        console.error('Error loading posts:', error)
-        setError(`Failed to load posts: ${error.message}`)
-      } else {
-        const postsWithCounts = (data || []).map(post => ({
-          ...post,
-          _count: {
-            likes: post.likes?.length || 0,
-            comments: post.comments?.length || 0,
-          },
-        }))
-        setPosts(postsWithCounts)
-      }
-    } catch (error) {
-      console.error('Error in loadPosts:', error)
-      setError(`Failed to load posts: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    } finally {
-      setLoading(false)
-    }
+  const fetchPostsPage = async (cursor: FeedCursor | null): Promise<FeedPage<any>> => {
+    return unwrap(await db.posts.getFeedPage(currentSection, cursor, { viewerId: profile.id, sort }))
   }
 
-  const handleLike = async (postId: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just update local state
-      setPosts(prevPosts => 
-        prevPosts.map(post => {
-          if (post.id === postId) {
-            const isLiked = post.likes?.some(l => l.user_id === profile.id)
-            const newLikesCount = isLiked 
-              ? (post._count?.likes || 0) - 1 
-              : (post._count?.likes || 0) + 1
-            
-            return {
-              ...post,
-              _count: {
-                ...post._count,
-                likes: newLikesCount
-              }
-            }
-          }
-          return post
-        })
-      )
+  // The following timeline is always newest first
+  const ranked = currentSection !== 'following' && sort.mode !== 'new'
+
+  const {
+    items: posts,
+    updateItem,
+    removeItem,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    newCount,
+    loadMore,
+    refresh: loadPosts,
+    showNewItems
+  } = usePaginatedFeed<any>({
+    key: `posts:${currentSection}:${currentSection === 'following' ? 'new' : feedSortKey(sort)}`,
+    fetchPage: fetchPostsPage,
+    // Only a newest-first feed has a head that new posts land above
+    countNewer: ranked ? undefined : async head => unwrap(await db.posts.countNewer(currentSection, head, profile.id)),
+    ranked
+  })
+
+  // Refetches a single post in place so likes and comments don't reset the scroll position
+  const reloadPost = async (postId: string) => {
+    const { data, error } = await db.posts.getFeedPost(currentSection, postId, profile.id)
+    if (error) {
+      console.error('Error reloading post:', error)
       return
     }
+    updateItem(postId, () => data)
+  }
 
+  // The following timeline mixes posts and community posts, so ask the post
+  const kindOf = (postId: string) => {
+    const post = posts.find(candidate => candidate.id === postId)
+    return postKindForSection(post ? sectionForPost(post) : currentSection)
+  }
+
+  const handleReact = async (postId: string, reaction: ReactionType | null) => {
     try {
-      const existingLike = posts
-        .find(p => p.id === postId)
-        ?.likes?.find(l => l.user_id === profile.id)
-
-      if (existingLike) {
-        await supabase
-          .from('post_likes')
-          .delete()
-          .eq('id', existingLike.id)
-      } else {
-        await supabase
-          .from('post_likes')
-          .insert([{ user_id: profile.id, post_id: postId }])
-      }
-
-      loadPosts()
+      const kind = kindOf(postId)
+      const { error } = await db.reactions.setPostReaction(kind, postId, profile.id, reaction)
+      if (error) throw error
+
+      reloadPost(postId)
     } catch (error) {
-      console.error('Error toggling like:', error)
+      console.error('Error updating reaction:', error)
     }
   }
 
-  const handleComment = async (postId: string, content: string) => {
-    if (!hasValidSupabaseConfig()) {
-      alert('Comment added! (Demo mode)')
-      return
-    }
-
+  const handleComment = async (postId: string, content: string, parentId?: string | null) => {
     try {
-      await supabase
-        .from('post_comments')
-        .insert([{
-          user_id: profile.id,
-          post_id: postId,
-          content,
-        }])
-
-      loadPosts()
+      const { error } = await db.comments.create(kindOf(postId), {
+        user_id: profile.id,
+        post_id: postId,
+        content,
+        parent_id: parentId,
+      })
+      if (error) throw error
+
+      reloadPost(postId)
     } catch (error) {
       console.error('Error adding comment:', error)
     }
@@ -239,7 +160,7 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
 
   const handleShowMessages = () => {
     console.log('🔍 MAIN LAYOUT: handleShowMessages called')
-    setShowMessages(true)
+    navigate(paths.messages())
   }
 
   // CRITICAL: Enhanced Messages button handler with comprehensive debugging
@@ -250,17 +171,9 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
       timestamp: new Date().toISOString(),
       stackTrace: new Error().stack
     })
-    
-    // Force state update with callback to verify
-    setShowMessages(prev => {
-      console.log('🔍 MESSAGES STATE UPDATE:', {
-        previousState: prev,
-        newState: true,
-        source
-      })
-      return true
-    })
-    
+
+    navigate(paths.messages())
+
     // Additional verification after state update
     setTimeout(() => {
       console.log('🔍 MESSAGES STATE VERIFICATION:', {
@@ -271,7 +184,37 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
     }, 100)
   }
 
-  if (currentView === 'profile') {
+  const routedOverlays = (
+    <>
+      {overlay?.name === 'messages' && (
+        <MessagesPopup
+          currentUser={profile}
+          conversationId={overlay.conversationId}
+          onSelectConversation={conversationId => navigate(paths.messages(conversationId))}
+          onClose={closeOverlay}
+        />
+      )}
+
+      {overlay?.name === 'market' && (
+        <SijangKuPopup
+          currentUser={profile}
+          itemId={overlay.itemId}
+          onSelectItem={itemId => navigate(paths.market(itemId))}
+          onClose={closeOverlay}
+        />
+      )}
+
+      {overlay?.name === 'community_info' && (
+        <CommunityInfoPopup
+          communityId={overlay.communityId}
+          onClose={closeOverlay}
+          onMemberAdded={() => {}}
+        />
+      )}
+    </>
+  )
+
+  if (page.name === 'profile') {
     return (
       <div className="min-h-screen bg-gray-50">
         <TopNavigation
@@ -279,28 +222,20 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
           onLogout={onLogout}
           onShowCreatePost={() => setShowCreatePost(true)}
           onShowCreateCommunity={() => setShowCreateCommunity(true)}
-          onShowSijangKu={() => setShowMarketplace(true)}
+          onShowSijangKu={openMarketplace}
           onShowMessages={handleShowMessages}
-          onShowMarketplace={() => setShowMarketplace(true)}
-          onShowCommunities={() => setCurrentView('fullscreen-communities')}
+          onShowMarketplace={openMarketplace}
+          onShowCommunities={() => navigate(paths.communities())}
           currentView={currentView}
           onViewChange={setCurrentView}
           currentSection={currentSection}
           onSectionChange={setCurrentSection}
         />
         <div className="pt-16">
-          <ProfileView 
-            profile={profile} 
-            onBack={() => setCurrentView('home')}
-          />
+          <UserProfileView username={page.username} currentUser={profile} />
         </div>
-        
-        {showMessages && (
-          <MessagesPopup
-            currentUser={profile}
-            onClose={() => setShowMessages(false)}
-          />
-        )}
+
+        {routedOverlays}
       </div>
     )
   }
@@ -313,10 +248,10 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
           onLogout={onLogout}
           onShowCreatePost={() => setShowCreatePost(true)}
           onShowCreateCommunity={() => setShowCreateCommunity(true)}
-          onShowSijangKu={() => setShowMarketplace(true)}
+          onShowSijangKu={openMarketplace}
           onShowMessages={handleShowMessages}
-          onShowMarketplace={() => setShowMarketplace(true)}
-          onShowCommunities={() => setCurrentView('fullscreen-communities')}
+          onShowMarketplace={openMarketplace}
+          onShowCommunities={() => navigate(paths.communities())}
           currentView={currentView}
           onViewChange={setCurrentView}
           currentSection={currentSection}
@@ -325,16 +260,93 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
         <div className="pt-16">
           <FullScreenCommunitiesView 
             currentUser={profile}
-            onBack={() => setCurrentView('home')}
+            onBack={() => navigate(paths.home())}
+            communityId={page.name === 'community' ? page.communityId : null}
+            onSelectCommunity={communityId => navigate(paths.community(communityId))}
+            onShowInfo={communityId => navigate(paths.communityInfo(communityId))}
+            onShowMessages={handleShowMessages}
           />
         </div>
-        
-        {showMessages && (
-          <MessagesPopup
-            currentUser={profile}
-            onClose={() => setShowMessages(false)}
-          />
-        )}
+
+        {routedOverlays}
+      </div>
+    )
+  }
+
+  if (page.name === 'join') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <TopNavigation
+          profile={profile}
+          onLogout={onLogout}
+          onShowCreatePost={() => setShowCreatePost(true)}
+          onShowCreateCommunity={() => setShowCreateCommunity(true)}
+          onShowSijangKu={openMarketplace}
+          onShowMessages={handleShowMessages}
+          onShowMarketplace={openMarketplace}
+          onShowCommunities={() => navigate(paths.communities())}
+          currentView={currentView}
+          onViewChange={setCurrentView}
+          currentSection={currentSection}
+          onSectionChange={setCurrentSection}
+        />
+        <div className="pt-16">
+          <JoinCommunityView code={page.code} currentUser={profile} />
+        </div>
+
+        {routedOverlays}
+      </div>
+    )
+  }
+
+  if (page.name === 'moderation') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <TopNavigation
+          profile={profile}
+          onLogout={onLogout}
+          onShowCreatePost={() => setShowCreatePost(true)}
+          onShowCreateCommunity={() => setShowCreateCommunity(true)}
+          onShowSijangKu={openMarketplace}
+          onShowMessages={handleShowMessages}
+          onShowMarketplace={openMarketplace}
+          onShowCommunities={() => navigate(paths.communities())}
+          currentView={currentView}
+          onViewChange={setCurrentView}
+          currentSection={currentSection}
+          onSectionChange={setCurrentSection}
+        />
+        <div className="pt-16">
+          <ModerationView currentUser={profile} />
+        </div>
+
+        {routedOverlays}
+      </div>
+    )
+  }
+
+  if (page.name === 'post') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <TopNavigation
+          profile={profile}
+          onLogout={onLogout}
+          onShowCreatePost={() => setShowCreatePost(true)}
+          onShowCreateCommunity={() => setShowCreateCommunity(true)}
+          onShowSijangKu={openMarketplace}
+          onShowMessages={handleShowMessages}
+          onShowMarketplace={openMarketplace}
+          onShowCommunities={() => navigate(paths.communities())}
+          currentView={currentView}
+          onViewChange={setCurrentView}
+          currentSection={currentSection}
+          onSectionChange={setCurrentSection}
+        />
+        <div className="pt-16">
+          <PostView postId={page.postId} currentUser={profile} onBack={() => navigate(paths.home())} />
+        </div>
+
+        {routedOverlays}
       </div>
     )
   }
@@ -348,10 +360,10 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
         onLogout={onLogout}
         onShowCreatePost={() => setShowCreatePost(true)}
         onShowCreateCommunity={() => setShowCreateCommunity(true)}
-        onShowSijangKu={() => setShowMarketplace(true)}
+        onShowSijangKu={openMarketplace}
         onShowMessages={handleShowMessages}
-        onShowMarketplace={() => setShowMarketplace(true)}
-        onShowCommunities={() => setCurrentView('fullscreen-communities')}
+        onShowMarketplace={openMarketplace}
+        onShowCommunities={() => navigate(paths.communities())}
         currentView={currentView}
         onViewChange={setCurrentView}
         currentSection={currentSection}
@@ -423,7 +435,7 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
             </button>
 
             <button
-              onClick={() => setShowMarketplace(true)}
+              onClick={openMarketplace}
               className="w-full flex items-center space-x-3 px-4 py-3 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
             >
               <Package className="w-5 h-5" />
@@ -460,7 +472,7 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
                 <button
                   onClick={() => {
                     console.log('🔍 TEST BUTTON 2 DIRECT STATE UPDATE')
-                    setShowMessages(true)
+                    navigate(paths.messages())
                   }}
                   className="w-full bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
                 >
@@ -504,6 +516,12 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
               </div>
             </div>
 
+            {currentSection !== 'following' && (
+              <div className="mb-4">
+                <FeedSortControl sort={sort} onChange={setSort} />
+              </div>
+            )}
+
             {loading ? (
               <div className="space-y-6">
                 {[1, 2, 3].map((i) => (
@@ -526,12 +544,25 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center">
                 <div className="text-red-500 mb-4">{error}</div>
                 <button
-                  onClick={loadPosts}
+                  onClick={() => loadPosts()}
                   className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
                 >
                   Try Again
                 </button>
               </div>
+            ) : posts.length === 0 && currentSection === 'following' ? (
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Your timeline is empty</h3>
+                <p className="text-gray-600 mb-4">
+                  Follow people or join communities to see their posts here.
+                </p>
+                <button
+                  onClick={() => setCurrentSection('public')}
+                  className="px-6 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+                >
+                  Browse public posts
+                </button>
+              </div>
             ) : posts.length === 0 ? (
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center">
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
@@ -547,15 +578,23 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
               </div>
             ) : (
               <div className="space-y-6">
+                <NewPostsBanner count={newCount} onClick={showNewItems} />
                 {posts.map((post) => (
                   <PostCard
                     key={post.id}
                     post={post}
                     currentUser={profile}
-                    onLike={handleLike}
+                    onReact={handleReact}
                     onComment={handleComment}
+                    onChanged={reloadPost}
+                    onDeleted={removeItem}
                   />
                 ))}
+                <InfiniteScrollTrigger
+                  onLoadMore={loadMore}
+                  hasMore={hasMore}
+                  loading={loadingMore}
+                />
               </div>
             )}
           </div>
@@ -603,27 +642,7 @@ export function MainLayout({ profile, onLogout }: MainLayoutProps) {
         />
       )}
 
-      {showMarketplace && (
-        <MarketplacePopup
-          currentUser={profile}
-          onClose={() => setShowMarketplace(false)}
-        />
-      )}
-
-      {/* CRITICAL: Enhanced MessagesPopup Rendering with Debug Info */}
-      {console.log('🔍 ABOUT TO RENDER MESSAGES POPUP - showMessages:', showMessages)}
-      {showMessages && (
-        <>
-          {console.log('🔍 RENDERING MESSAGES POPUP COMPONENT')}
-          <MessagesPopup
-            currentUser={profile}
-            onClose={() => {
-              console.log('🔍 MESSAGES POPUP CLOSE CALLED')
-              setShowMessages(false)
-            }}
-          />
-        </>
-      )}
+      {routedOverlays}
     </div>
   )
 }
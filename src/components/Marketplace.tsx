@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { Plus, Search, Filter, Grid, List, Package, Heart, MessageCircle } from 'lucide-react'
-import { Profile, MarketplaceItem, getMarketplaceItems } from '../lib/supabase'
+import { Profile, MarketplaceItem } from '../lib/supabase'
+import { db } from '../lib/data'
 import { CreateListingModal } from './marketplace/CreateListingModal'
 import { ItemDetailModal } from './marketplace/ItemDetailModal'
 import { formatDistanceToNow } from 'date-fns'
@@ -35,8 +36,9 @@ export function Marketplace({ currentUser }: MarketplaceProps) {
 
   const loadItems = async () => {
     setLoading(true)
-    const data = await getMarketplaceItems()
-    setItems(data)
+    const { data, error } = await db.marketplace.listAvailable()
+    if (error) console.error('Error fetching marketplace items:', error)
+    setItems(data || [])
     setLoading(false)
   }
 
@@ -204,6 +206,13 @@ export function Marketplace({ currentUser }: MarketplaceProps) {
                           {item.condition}
                         </span>
                       </div>
+                      {item.status === 'reserved' && (
+                        <div className="absolute top-3 left-3">
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                            Reserved
+                          </span>
+                        </div>
+                      )}
                     </div>
                     <div className="p-4">
                       <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">{item.title}</h3>
@@ -1,29 +1,16 @@
 import React, { useState, useEffect } from 'react'
-import { X, Search, Send, Package, User, MessageCircle, Clock } from 'lucide-react'
-import { supabase, Profile, hasValidSupabaseConfig } from '../lib/supabase'
-
-interface Message {
-  id: string
-  conversation_id: string
-  sender_id: string
-  receiver_id: string
-  content: string
-  item_id?: string
-  created_at: string
-  read_at?: string
-  sender_profile?: Profile
-  receiver_profile?: Profile
-  marketplace_item?: {
-    id: string
-    title: string
-    price: number
-    images: string[]
-  }
-}
+import { X, Search, Send, Package, User, MessageCircle, Clock, Flag } from 'lucide-react'
+import { Message, Profile, ProfileSummary } from '../lib/supabase'
+import { db, unwrap } from '../lib/data'
+import { latestCreatedAt } from '../lib/realtime'
+import { useMessageSubscription } from '../hooks/useMessageSubscription'
+import { ReportDialog } from './ReportDialog'
+import { OfferCard } from './marketplace/OfferCard'
+import { useConversationOffers } from '../hooks/useConversationOffers'
 
 interface Conversation {
   id: string
-  other_user: Profile
+  other_user: Profile | ProfileSummary
   last_message: Message
   unread_count: number
   marketplace_item?: {
@@ -37,9 +24,12 @@ interface Conversation {
 interface MessagesPopupProps {
   currentUser: Profile
   onClose: () => void
+  // When given, the open conversation is controlled by the caller (e.g. from the URL)
+  conversationId?: string | null
+  onSelectConversation?: (conversationId: string | null) => void
 }
 
-export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
+export function MessagesPopup({ currentUser, onClose, conversationId, onSelectConversation }: MessagesPopupProps) {
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
@@ -47,6 +37,8 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null)
+  const [sendError, setSendError] = useState<string | null>(null)
 
   useEffect(() => {
     console.log('🔍 MessagesPopup useEffect triggered with currentUser:', currentUser?.id)
@@ -55,6 +47,21 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
     }
   }, [currentUser?.id])
 
+  useEffect(() => {
+    if (conversationId === undefined || loading) return
+    if (!conversationId) {
+      setSelectedConversation(null)
+      setMessages([])
+      return
+    }
+    if (selectedConversation?.id === conversationId) return
+
+    const conversation = conversations.find(conv => conv.id === conversationId)
+    if (!conversation) return
+    setSelectedConversation(conversation)
+    loadMessages(conversation)
+  }, [conversationId, conversations, loading])
+
   const formatDistanceToNow = (date: Date) => {
     const now = new Date()
     const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000)
@@ -65,84 +72,14 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
     return `${Math.floor(diffInSeconds / 86400)}d ago`
   }
 
-  const loadConversations = async () => {
+  const loadConversations = async ({ silent = false }: { silent?: boolean } = {}) => {
     try {
       console.log('🔍 Loading conversations for user:', currentUser.id)
-      setLoading(true)
+      if (!silent) setLoading(true)
       setError(null)
 
-      if (!hasValidSupabaseConfig()) {
-        console.log('🔍 Using demo conversations')
-        // Demo conversations when Supabase is not configured
-        const demoConversations: Conversation[] = [
-          {
-            id: 'conv-1',
-            other_user: {
-              id: 'demo-user-1',
-              full_name: 'Tech Seller',
-              display_name: 'techseller',
-              email: 'tech@example.com',
-              avatar_url: null,
-              bio: 'Selling quality tech items',
-              website: null,
-              location: 'Jakarta',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            },
-            last_message: {
-              id: 'msg-1',
-              conversation_id: 'conv-1',
-              sender_id: 'demo-user-1',
-              receiver_id: currentUser.id,
-              content: 'Hi! Is the MacBook Pro still available? I\'m very interested.',
-              item_id: 'demo-item-1',
-              created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-              read_at: undefined
-            },
-            unread_count: 2,
-            marketplace_item: {
-              id: 'demo-item-1',
-              title: 'MacBook Pro 14" M3',
-              price: 1899.99,
-              images: ['https://images.pexels.com/photos/205421/pexels-photo-205421.jpeg?auto=compress&cs=tinysrgb&w=800']
-            }
-          }
-        ]
-        
-        setConversations(demoConversations)
-        console.log('🔍 Demo conversations loaded:', demoConversations.length)
-        setLoading(false)
-        return
-      }
-
       // Fetch all messages for the current user
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          sender_profile:profiles!messages_sender_id_fkey (
-            id,
-            full_name,
-            display_name,
-            avatar_url,
-            email
-          ),
-          receiver_profile:profiles!messages_receiver_id_fkey (
-            id,
-            full_name,
-            display_name,
-            avatar_url,
-            email
-          ),
-          marketplace_item:marketplace_items!messages_item_id_fkey (
-            id,
-            title,
-            price,
-            images
-          )
-        `)
-        .or(`sender_id.eq.${currentUser.id},receiver_id.eq.${currentUser.id}`)
-        .order('created_at', { ascending: false })
+      const { data: messagesData, error: messagesError } = await db.messages.listForUser(currentUser.id)
 
       if (messagesError) {
         console.error('🔍 Error fetching messages:', messagesError)
@@ -203,50 +140,7 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
     try {
       console.log('🔍 Loading messages for conversation:', conversation.id)
       
-      if (!hasValidSupabaseConfig()) {
-        // Demo messages
-        const demoMessages: Message[] = [
-          {
-            id: 'msg-1',
-            conversation_id: conversation.id,
-            sender_id: conversation.other_user.id,
-            receiver_id: currentUser.id,
-            content: 'Hi! Is this item still available? I\'m very interested.',
-            item_id: conversation.marketplace_item?.id,
-            created_at: new Date(Date.now() - 1000 * 60 * 60).toISOString(),
-            read_at: new Date().toISOString(),
-            sender_profile: conversation.other_user
-          },
-          {
-            id: 'msg-2',
-            conversation_id: conversation.id,
-            sender_id: currentUser.id,
-            receiver_id: conversation.other_user.id,
-            content: 'Yes, it\'s still available! Would you like to know more details?',
-            item_id: conversation.marketplace_item?.id,
-            created_at: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
-            read_at: new Date().toISOString(),
-            sender_profile: currentUser
-          },
-          conversation.last_message
-        ]
-        setMessages(demoMessages)
-        return
-      }
-
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          sender_profile:profiles!messages_sender_id_fkey (
-            id,
-            full_name,
-            display_name,
-            avatar_url
-          )
-        `)
-        .eq('conversation_id', conversation.id)
-        .order('created_at', { ascending: true })
+      const { data, error } = await db.messages.listConversation(conversation.id)
 
       if (error) {
         console.error('Error loading messages:', error)
@@ -259,44 +153,117 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
     }
   }
 
+  const { offers, reload: reloadOffers } = useConversationOffers(messages)
+
+  const handleOfferChanged = () => {
+    if (selectedConversation) loadMessages(selectedConversation)
+    reloadOffers()
+    loadConversations({ silent: true })
+  }
+
+  const openConversation = (conversation: Conversation) => {
+    if (onSelectConversation) {
+      onSelectConversation(conversation.id)
+      return
+    }
+    setSelectedConversation(conversation)
+    setSendError(null)
+    loadMessages(conversation)
+  }
+
+  const applyToThread = (message: Message) => {
+    if (!selectedConversation || message.conversation_id !== selectedConversation.id) return
+
+    const withProfile: Message = {
+      ...message,
+      sender_profile: message.sender_id === currentUser.id ? currentUser : selectedConversation.other_user
+    }
+
+    setMessages(prev => {
+      const index = prev.findIndex(existing => existing.id === message.id)
+      if (index === -1) {
+        return [...prev, withProfile].sort((a, b) => a.created_at.localeCompare(b.created_at))
+      }
+      const next = [...prev]
+      next[index] = { ...next[index], ...message }
+      return next
+    })
+  }
+
+  const handleRealtimeInsert = (message: Message) => {
+    applyToThread(message)
+
+    const otherUserId = message.sender_id === currentUser.id ? message.receiver_id : message.sender_id
+    const existing = conversations.find(conv => conv.other_user?.id === otherUserId)
+
+    // A brand new conversation needs the joined profile and item, so refetch it
+    if (!existing) {
+      loadConversations({ silent: true })
+      return
+    }
+
+    const isOpen = selectedConversation?.id === message.conversation_id
+    const isIncoming = message.receiver_id === currentUser.id && !message.read_at
+
+    setConversations(prev => {
+      const updated = prev.map(conv => {
+        if (conv.other_user?.id !== otherUserId) return conv
+        if (conv.last_message.id === message.id) return conv
+        return {
+          ...conv,
+          last_message: new Date(message.created_at) >= new Date(conv.last_message.created_at)
+            ? { ...message, marketplace_item: conv.marketplace_item }
+            : conv.last_message,
+          unread_count: isIncoming && !isOpen ? conv.unread_count + 1 : conv.unread_count
+        }
+      })
+      return updated.sort((a, b) => b.last_message.created_at.localeCompare(a.last_message.created_at))
+    })
+  }
+
+  const handleRealtimeUpdate = (message: Message) => {
+    applyToThread(message)
+    setConversations(prev => prev.map(conv =>
+      conv.last_message.id === message.id
+        ? { ...conv, last_message: { ...conv.last_message, ...message } }
+        : conv
+    ))
+  }
+
+  const { connected } = useMessageSubscription({
+    topic: `messages:${currentUser.id}`,
+    filters: [
+      { column: 'sender_id', value: currentUser.id },
+      { column: 'receiver_id', value: currentUser.id }
+    ],
+    enabled: !loading,
+    since: latestCreatedAt(conversations.map(conv => conv.last_message)),
+    seenIds: conversations.map(conv => conv.last_message.id),
+    backfill: async since => unwrap(await db.messages.listForUserSince(currentUser.id, since)),
+    onInsert: handleRealtimeInsert,
+    onUpdate: handleRealtimeUpdate
+  })
+
   const sendMessage = async () => {
     if (!newMessage.trim() || !selectedConversation) return
 
+    setSendError(null)
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo mode - just add to local state
-        const demoMessage: Message = {
-          id: `msg-${Date.now()}`,
-          conversation_id: selectedConversation.id,
-          sender_id: currentUser.id,
-          receiver_id: selectedConversation.other_user.id,
-          content: newMessage.trim(),
-          item_id: selectedConversation.marketplace_item?.id,
-          created_at: new Date().toISOString(),
-          read_at: undefined,
-          sender_profile: currentUser
-        }
-        setMessages(prev => [...prev, demoMessage])
-        setNewMessage('')
-        return
-      }
-
-      const { error } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: selectedConversation.id,
-          sender_id: currentUser.id,
-          receiver_id: selectedConversation.other_user.id,
-          content: newMessage.trim(),
-          item_id: selectedConversation.marketplace_item?.id
-        })
+      const { error } = await db.messages.send({
+        conversation_id: selectedConversation.id,
+        sender_id: currentUser.id,
+        receiver_id: selectedConversation.other_user.id,
+        content: newMessage.trim(),
+        item_id: selectedConversation.marketplace_item?.id
+      })
 
       if (error) {
         console.error('Error sending message:', error)
+        setSendError(error.code === 'forbidden' ? error.message : 'Failed to send message')
       } else {
         setNewMessage('')
         loadMessages(selectedConversation)
-        loadConversations()
+        loadConversations({ silent: true })
       }
     } catch (error) {
       console.error('Error sending message:', error)
@@ -328,6 +295,9 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
               <h2 className="text-lg font-semibold text-gray-900 flex items-center">
                 <MessageCircle className="w-5 h-5 mr-2 text-purple-500" />
                 Messages
+                {!loading && !connected && (
+                  <span className="ml-2 text-xs font-normal text-amber-600">Reconnecting...</span>
+                )}
               </h2>
               <button
                 onClick={onClose}
@@ -367,7 +337,7 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
               <div className="p-4 text-center">
                 <div className="text-red-500 mb-2 text-sm">{error}</div>
                 <button
-                  onClick={loadConversations}
+                  onClick={() => loadConversations()}
                   className="text-sm text-blue-500 hover:text-blue-700"
                 >
                   Try again
@@ -390,10 +360,7 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
                 {filteredConversations.map((conversation) => (
                   <div
                     key={conversation.id}
-                    onClick={() => {
-                      setSelectedConversation(conversation)
-                      loadMessages(conversation)
-                    }}
+                    onClick={() => openConversation(conversation)}
                     className={`p-4 hover:bg-gray-50 cursor-pointer transition-colors ${
                       selectedConversation?.id === conversation.id ? 'bg-purple-50 border-r-2 border-purple-500' : ''
                     }`}
@@ -488,28 +455,42 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
                 {messages.map((message) => (
                   <div
                     key={message.id}
-                    className={`flex ${message.sender_id === currentUser.id ? 'justify-end' : 'justify-start'}`}
+                    className={`group flex items-center space-x-1 ${message.sender_id === currentUser.id ? 'justify-end' : 'justify-start'}`}
                   >
-                    <div
-                      className={`max-w-xs lg:max-w-md px-4 py-2 rounded-2xl ${
-                        message.sender_id === currentUser.id
-                          ? 'bg-purple-500 text-white'
-                          : 'bg-gray-100 text-gray-900'
-                      }`}
-                    >
-                      <p className="text-sm">{message.content}</p>
-                      <p className={`text-xs mt-1 ${
-                        message.sender_id === currentUser.id ? 'text-purple-100' : 'text-gray-500'
-                      }`}>
-                        {formatDistanceToNow(new Date(message.created_at))}
-                      </p>
-                    </div>
+                    {message.offer_id && offers[message.offer_id] ? (
+                      <OfferCard offer={offers[message.offer_id]} currentUserId={currentUser.id} onChanged={handleOfferChanged} />
+                    ) : (
+                      <div
+                        className={`max-w-xs lg:max-w-md px-4 py-2 rounded-2xl ${
+                          message.sender_id === currentUser.id
+                            ? 'bg-purple-500 text-white'
+                            : 'bg-gray-100 text-gray-900'
+                        }`}
+                      >
+                        <p className="text-sm">{message.content}</p>
+                        <p className={`text-xs mt-1 ${
+                          message.sender_id === currentUser.id ? 'text-purple-100' : 'text-gray-500'
+                        }`}>
+                          {formatDistanceToNow(new Date(message.created_at))}
+                        </p>
+                      </div>
+                    )}
+                    {message.sender_id !== currentUser.id && (
+                      <button
+                        onClick={() => setReportingMessageId(message.id)}
+                        className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Report message"
+                      >
+                        <Flag className="w-3.5 h-3.5" />
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
 
               {/* Message Input */}
               <div className="p-4 border-t border-gray-200">
+                {sendError && <p className="text-xs text-red-600 mb-2">{sendError}</p>}
                 <div className="flex space-x-2">
                   <input
                     type="text"
@@ -540,6 +521,14 @@ export function MessagesPopup({ currentUser, onClose }: MessagesPopupProps) {
           )}
         </div>
       </div>
+
+      {reportingMessageId && (
+        <ReportDialog
+          target={{ type: 'message', id: reportingMessageId }}
+          currentUser={currentUser}
+          onClose={() => setReportingMessageId(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react'
+import { Flag, ScrollText } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { ModerationAction, ModerationActionRecord, ReportReason } from '../lib/supabase'
+import { db } from '../lib/data'
+import {
+  MODERATION_ACTION_LABELS,
+  MODERATION_ACTION_VERBS,
+  REPORT_REASON_LABELS,
+  REPORT_TARGET_LABELS,
+  ModerationQueueItem,
+  groupReports,
+  moderationActionsFor,
+} from '../lib/moderation'
+
+interface ModerationQueueProps {
+  currentUserId: string
+  // Without a community this is the site-wide queue
+  communityId?: string | null
+  canBan: boolean
+}
+
+// Confirmed before they run, since they cannot be undone from here
+const DESTRUCTIVE_ACTIONS: ModerationAction[] = ['delete', 'ban']
+
+// Open reports grouped by what they point at, with the actions a moderator
+// can take, followed by the audit trail of past decisions
+export function ModerationQueue({ currentUserId, communityId = null, canBan }: ModerationQueueProps) {
+  const [items, setItems] = useState<ModerationQueueItem[]>([])
+  const [actions, setActions] = useState<ModerationActionRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadQueue()
+  }, [communityId, currentUserId])
+
+  const loadQueue = async () => {
+    setLoading(true)
+    setError(null)
+    const scope = { communityId }
+    const [reportsResult, actionsResult] = await Promise.all([
+      db.moderation.listOpenReports(scope, currentUserId),
+      db.moderation.listActions(scope, currentUserId, 20),
+    ])
+
+    if (reportsResult.error || actionsResult.error) {
+      console.error('Error loading moderation queue:', reportsResult.error || actionsResult.error)
+      setError('Failed to load reports')
+    }
+    setItems(groupReports(reportsResult.data || []))
+    setActions(actionsResult.data || [])
+    setLoading(false)
+  }
+
+  const handleAction = async (item: ModerationQueueItem, action: ModerationAction) => {
+    const label = REPORT_TARGET_LABELS[item.target_type]
+    if (DESTRUCTIVE_ACTIONS.includes(action)) {
+      const question = action === 'delete'
+        ? `Delete this ${label}? This cannot be undone.`
+        : communityId
+          ? `Ban the author of this ${label} from the community?`
+          : `Ban the author of this ${label} from the site?`
+      if (!window.confirm(question)) return
+    }
+
+    setBusyKey(item.key)
+    setError(null)
+    const { error } = await db.moderation.moderate(
+      { type: item.target_type, id: item.target_id },
+      action,
+      currentUserId,
+      notes[item.key]?.trim() || null
+    )
+    setBusyKey(null)
+
+    if (error) {
+      console.error('Error moderating content:', error)
+      setError(error.message || 'Failed to apply the action')
+      return
+    }
+    setNotes(prev => {
+      const { [item.key]: _removed, ...rest } = prev
+      return rest
+    })
+    loadQueue()
+  }
+
+  const authorName = (item: ModerationQueueItem) => {
+    const user = item.latest.target_user
+    const name = user?.display_name || user?.full_name || user?.username || 'Unknown user'
+    return item.latest.anonymous ? `Anonymous author (${name})` : name
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-xl p-6 text-center text-sm text-gray-500">
+          No open reports. Nice and quiet.
+        </div>
+      ) : (
+        items.map(item => (
+          <div key={item.key} className="bg-white border border-gray-200 rounded-xl p-4">
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <p className="text-sm font-medium text-gray-900 capitalize">{REPORT_TARGET_LABELS[item.target_type]}</p>
+                <p className="text-xs text-gray-500">by {authorName(item)}</p>
+              </div>
+              <span className="flex items-center space-x-1 px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-medium">
+                <Flag className="w-3 h-3" />
+                <span>{item.reports.length} report{item.reports.length !== 1 ? 's' : ''}</span>
+              </span>
+            </div>
+
+            {item.latest.target_preview && (
+              <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 mb-2 whitespace-pre-wrap line-clamp-4">
+                {item.latest.target_preview}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-1 mb-2">
+              {(Object.entries(item.reasons) as [ReportReason, number][]).map(([reason, count]) => (
+                <span key={reason} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs">
+                  {REPORT_REASON_LABELS[reason]}{count > 1 ? ` ×${count}` : ''}
+                </span>
+              ))}
+            </div>
+
+            <ul className="space-y-1 mb-3">
+              {item.reports.map(report => (
+                <li key={report.id} className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-700">
+                    {report.reporter?.display_name || report.reporter?.full_name || 'Someone'}
+                  </span>
+                  {' · '}
+                  {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                  {report.details && <span className="text-gray-600"> — {report.details}</span>}
+                </li>
+              ))}
+            </ul>
+
+            <input
+              type="text"
+              value={notes[item.key] || ''}
+              onChange={(e) => setNotes(prev => ({ ...prev, [item.key]: e.target.value }))}
+              placeholder="Note for the audit trail (optional)"
+              maxLength={500}
+              className="w-full px-3 py-1.5 mb-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+
+            <div className="flex flex-wrap gap-2">
+              {moderationActionsFor(item.target_type, { canBan }).map(action => (
+                <button
+                  key={action}
+                  onClick={() => handleAction(item, action)}
+                  disabled={busyKey === item.key}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                    DESTRUCTIVE_ACTIONS.includes(action)
+                      ? 'bg-red-500 text-white hover:bg-red-600'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {MODERATION_ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      {actions.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <h4 className="font-medium text-gray-800 mb-3 flex items-center space-x-2">
+            <ScrollText className="w-4 h-4 text-gray-500" />
+            <span>Recent actions</span>
+          </h4>
+          <ul className="space-y-2">
+            {actions.map(record => (
+              <li key={record.id} className="text-sm text-gray-600">
+                <span className="font-medium text-gray-800">
+                  {record.moderator?.display_name || record.moderator?.full_name || 'A moderator'}
+                </span>{' '}
+                {MODERATION_ACTION_VERBS[record.action]} a {REPORT_TARGET_LABELS[record.target_type]}
+                {record.report_count > 0 && ` (${record.report_count} report${record.report_count !== 1 ? 's' : ''})`}
+                <span className="text-xs text-gray-400"> · {formatDistanceToNow(new Date(record.created_at), { addSuffix: true })}</span>
+                {record.note && <p className="text-xs text-gray-500">{record.note}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
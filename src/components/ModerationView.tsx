@@ -0,0 +1,32 @@
+import React from 'react'
+import { ShieldAlert } from 'lucide-react'
+import { Profile } from '../lib/supabase'
+import { ModerationQueue } from './ModerationQueue'
+
+interface ModerationViewProps {
+  currentUser: Profile
+}
+
+// The site-wide moderation queue at /moderation. Community moderators work
+// their own community's reports from its info popup.
+export function ModerationView({ currentUser }: ModerationViewProps) {
+  if (!currentUser.is_site_admin) {
+    return (
+      <div className="max-w-4xl mx-auto p-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center text-gray-600">
+          Only site admins can see the moderation queue.
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-4">
+      <h1 className="text-2xl font-bold text-gray-900 mb-4 flex items-center space-x-2">
+        <ShieldAlert className="w-6 h-6 text-red-500" />
+        <span>Moderation</span>
+      </h1>
+      <ModerationQueue currentUserId={currentUser.id} canBan />
+    </div>
+  )
+}
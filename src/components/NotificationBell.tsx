@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { Bell, Heart, MessageCircle, AtSign, Users, UserPlus, DoorOpen, UserCheck, Mail, ShieldAlert, Star, Search, TrendingDown, Bookmark, Tag, CheckCheck } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { NotificationType, Profile } from '../lib/supabase'
+import { useNotifications } from '../hooks/useNotifications'
+import { NotificationGroup, describeNotificationGroup, groupNotifications, notificationPath } from '../lib/notifications'
+import { reactionOption } from '../lib/reactions'
+import { RouteLink } from './RouteLink'
+
+interface NotificationBellProps {
+  currentUser: Profile
+  // Called after a notification is opened, e.g. to close the mobile menu
+  onNavigate?: () => void
+}
+
+const TYPE_ICONS: Record<NotificationType, React.ElementType> = {
+  reaction: Heart,
+  comment: MessageCircle,
+  reply: MessageCircle,
+  mention: AtSign,
+  community_added: Users,
+  community_invite: UserPlus,
+  join_request: DoorOpen,
+  join_approved: UserCheck,
+  message: Mail,
+  moderation_warning: ShieldAlert,
+  review: Star,
+  listing_match: Search,
+  price_drop: TrendingDown,
+  item_reserved: Bookmark,
+  item_sold: Tag,
+}
+
+function GroupAvatar({ group }: { group: NotificationGroup }) {
+  const actor = group.actors[0]
+  const Icon = TYPE_ICONS[group.type]
+  const name = actor?.display_name || actor?.full_name || actor?.username || '?'
+
+  return (
+    <div className="relative flex-shrink-0">
+      <div className={`w-10 h-10 rounded-full flex items-center justify-center bg-gradient-to-br ${
+        actor ? 'from-purple-500 to-pink-500' : 'from-gray-400 to-gray-500'
+      }`}>
+        {actor?.avatar_url ? (
+          <img src={actor.avatar_url} alt={name} className="w-full h-full rounded-full object-cover" />
+        ) : (
+          <span className="text-white font-semibold text-sm">{actor ? name.charAt(0).toUpperCase() : '?'}</span>
+        )}
+      </div>
+      <span className="absolute -bottom-1 -right-1 w-5 h-5 rounded-full bg-white border border-gray-200 flex items-center justify-center text-[10px]">
+        {group.type === 'reaction' && group.latest.reaction
+          ? reactionOption(group.latest.reaction).emoji
+          : <Icon className="w-3 h-3 text-purple-600" />}
+      </span>
+    </div>
+  )
+}
+
+// Bell with an unread badge; opens the notification panel
+export function NotificationBell({ currentUser, onNavigate }: NotificationBellProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const { notifications, unreadCount, loading, error, loadNotifications, markRead, markAllRead } = useNotifications(currentUser.id)
+
+  useEffect(() => {
+    if (isOpen) loadNotifications()
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [isOpen])
+
+  const handleOpenGroup = (group: NotificationGroup) => {
+    markRead(group.notifications.map(notification => notification.id))
+    setIsOpen(false)
+    onNavigate?.()
+  }
+
+  const groups = groupNotifications(notifications)
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-[22rem] max-w-[calc(100vw-2rem)] bg-white border border-gray-200 rounded-xl shadow-xl z-50 flex flex-col max-h-[70vh]">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Notifications</h2>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="flex items-center space-x-1 text-xs font-medium text-purple-600 hover:text-purple-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+              <CheckCheck className="w-4 h-4" />
+              <span>Mark all as read</span>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-500"></div>
+              </div>
+            ) : error ? (
+              <p className="p-4 text-sm text-red-600">{error}</p>
+            ) : groups.length === 0 ? (
+              <div className="text-center py-10 px-4">
+                <Bell className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                <p className="text-sm text-gray-500">You're all caught up</p>
+              </div>
+            ) : (
+              groups.map(group => (
+                <RouteLink
+                  key={group.key}
+                  to={notificationPath(group.latest)}
+                  onClick={() => handleOpenGroup(group)}
+                  className={`flex items-start space-x-3 px-4 py-3 hover:bg-gray-50 transition-colors ${
+                    group.unread ? 'bg-purple-50/60' : ''
+                  }`}
+                >
+                  <GroupAvatar group={group} />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${group.unread ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                      {describeNotificationGroup(group)}
+                    </p>
+                    {group.latest.preview && (
+                      <p className="text-xs text-gray-500 truncate mt-0.5">“{group.latest.preview}”</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {formatDistanceToNow(new Date(group.latest.created_at))} ago
+                    </p>
+                  </div>
+                  {group.unread && <span className="w-2 h-2 rounded-full bg-purple-500 mt-2 flex-shrink-0" />}
+                </RouteLink>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
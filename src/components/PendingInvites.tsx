@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react'
+import { Check, Lock, Mail, Users, X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { CommunityInvite, Profile } from '../lib/supabase'
+import { db } from '../lib/data'
+import { actorName } from '../lib/notifications'
+
+interface PendingInvitesProps {
+  currentUser: Profile
+  // Called after an invite is accepted, so the caller can refresh its lists
+  onJoined?: (communityId: string) => void
+  compact?: boolean
+}
+
+// Invitations waiting for the user's answer; renders nothing when there are none
+export function PendingInvites({ currentUser, onJoined, compact = false }: PendingInvitesProps) {
+  const [invites, setInvites] = useState<CommunityInvite[]>([])
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadInvites()
+  }, [currentUser.id])
+
+  const loadInvites = async () => {
+    const { data, error } = await db.invites.listReceivedInvites(currentUser.id)
+    if (error) {
+      console.error('Error loading invites:', error)
+      return
+    }
+    setInvites(data)
+  }
+
+  const handleRespond = async (invite: CommunityInvite, accept: boolean) => {
+    setRespondingId(invite.id)
+    setError(null)
+    const { error } = await db.invites.respondToInvite(invite.id, accept)
+    setRespondingId(null)
+
+    if (error) {
+      console.error('Error answering invite:', error)
+      setError(error.message || 'Failed to answer the invite')
+      loadInvites()
+      return
+    }
+
+    setInvites(prev => prev.filter(candidate => candidate.id !== invite.id))
+    if (accept) onJoined?.(invite.community_id)
+  }
+
+  if (invites.length === 0) return null
+
+  return (
+    <div className={`bg-purple-50 border border-purple-100 rounded-2xl ${compact ? 'p-3' : 'p-4 mb-6'}`}>
+      <h2 className="flex items-center space-x-2 font-semibold text-gray-900 mb-3 text-sm">
+        <Mail className="w-4 h-4 text-purple-600" />
+        <span>Invitations ({invites.length})</span>
+      </h2>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <div className="space-y-2">
+        {invites.map(invite => (
+          <div
+            key={invite.id}
+            className={`bg-white rounded-xl p-3 flex ${compact ? 'flex-col space-y-2' : 'items-center justify-between space-x-3'}`}
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 flex items-center space-x-1">
+                <span className="truncate">{invite.community?.name || 'A community'}</span>
+                {invite.community?.is_private && <Lock className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />}
+              </p>
+              <p className="text-xs text-gray-500 flex items-center space-x-1">
+                {invite.community && (
+                  <>
+                    <Users className="w-3 h-3" />
+                    <span>{invite.community.member_count.toLocaleString()} members •</span>
+                  </>
+                )}
+                <span className="truncate">
+                  Invited by {actorName(invite.inviter || null)} {formatDistanceToNow(new Date(invite.created_at))} ago
+                </span>
+              </p>
+            </div>
+            <div className="flex space-x-2 flex-shrink-0">
+              <button
+                onClick={() => handleRespond(invite, true)}
+                disabled={respondingId === invite.id}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" />
+                <span>Accept</span>
+              </button>
+              <button
+                onClick={() => handleRespond(invite, false)}
+                disabled={respondingId === invite.id}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                <span>Decline</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import React from 'react'
+import { Plus, X } from 'lucide-react'
+import { PostKind } from '../lib/supabase'
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, NewPoll, db } from '../lib/data'
+import { toDateTimeInput } from './DraftControls'
+
+interface PollComposerProps {
+  poll: NewPoll
+  onChange: (poll: NewPoll) => void
+  onRemove: () => void
+}
+
+export const EMPTY_POLL: NewPoll = { options: ['', ''], allows_multiple: false, anonymous_votes: false, closes_at: null }
+
+// Why a poll can't be posted yet, or null when it can
+export function pollProblem(poll: NewPoll): string | null {
+  const filled = poll.options.filter(option => option.trim())
+  if (filled.length < MIN_POLL_OPTIONS) return `Add at least ${MIN_POLL_OPTIONS} options`
+  if (poll.closes_at && new Date(poll.closes_at) <= new Date()) return 'Pick a closing time in the future'
+  return null
+}
+
+// The options and settings of a poll being written; the post's text is the
+// question
+export function PollComposer({ poll, onChange, onRemove }: PollComposerProps) {
+  const setOption = (index: number, label: string) => {
+    onChange({ ...poll, options: poll.options.map((option, i) => i === index ? label : option) })
+  }
+
+  return (
+    <div className="mt-3 p-3 border border-gray-200 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Poll</h4>
+        <button type="button" onClick={onRemove} className="text-xs text-gray-500 hover:text-red-600">
+          Remove poll
+        </button>
+      </div>
+
+      {poll.options.map((option, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={option}
+            onChange={(e) => setOption(index, e.target.value)}
+            placeholder={`Option ${index + 1}`}
+            maxLength={100}
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          {poll.options.length > MIN_POLL_OPTIONS && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...poll, options: poll.options.filter((_, i) => i !== index) })}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove option"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {poll.options.length < MAX_POLL_OPTIONS && (
+        <button
+          type="button"
+          onClick={() => onChange({ ...poll, options: [...poll.options, ''] })}
+          className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-800"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add option</span>
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pt-1 text-sm text-gray-700">
+        <label className="flex items-center space-x-1.5">
+          <input
+            type="checkbox"
+            checked={Boolean(poll.allows_multiple)}
+            onChange={(e) => onChange({ ...poll, allows_multiple: e.target.checked })}
+          />
+          <span>Allow several choices</span>
+        </label>
+        <label className="flex items-center space-x-1.5">
+          <input
+            type="checkbox"
+            checked={Boolean(poll.anonymous_votes)}
+            onChange={(e) => onChange({ ...poll, anonymous_votes: e.target.checked })}
+          />
+          <span>Hide who voted</span>
+        </label>
+        <label className="flex items-center space-x-1.5">
+          <span>Closes</span>
+          <input
+            type="datetime-local"
+            value={poll.closes_at ? toDateTimeInput(new Date(poll.closes_at)) : ''}
+            onChange={(e) => onChange({ ...poll, closes_at: e.target.value ? new Date(e.target.value).toISOString() : null })}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
+
+// Attaches the poll to a post that was just created. A post that was meant
+// to be a poll is deleted again if the poll can't be added.
+export async function attachPoll(kind: PostKind, postId: string, poll: NewPoll, userId: string) {
+  const { error } = await db.polls.create(kind, postId, { ...poll, options: poll.options.filter(option => option.trim()) }, userId)
+  if (!error) return
+  if (kind === 'post') await db.posts.remove(postId, userId)
+  else await db.posts.deleteCommunityPost(postId, userId)
+  throw error
+}
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react'
+import { BarChart2, Check, Users } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Poll, PollVote, PostKind } from '../lib/supabase'
+import { db, isPollClosed } from '../lib/data'
+
+interface PollViewProps {
+  kind: PostKind
+  postId: string
+  viewerId: string
+  // Authors see the results before voting
+  isAuthor?: boolean
+}
+
+// How often an open poll is refetched, so the bars move as others vote
+const REFRESH_INTERVAL_MS = 15000
+
+const nameOf = (vote: PollVote) =>
+  vote.profiles?.display_name || vote.profiles?.full_name || vote.profiles?.username || 'Unknown user'
+
+// A post's poll: pick and vote, then result bars. Results show once the
+// viewer has voted, to the author, and after the poll closes.
+export function PollView({ kind, postId, viewerId, isAuthor = false }: PollViewProps) {
+  const [poll, setPoll] = useState<Poll | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [changing, setChanging] = useState(false)
+  const [voting, setVoting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [voters, setVoters] = useState<{ optionId: string; votes: PollVote[] } | null>(null)
+
+  useEffect(() => {
+    loadPoll()
+  }, [kind, postId, viewerId])
+
+  const pollId = poll?.id
+  const open = poll ? !isPollClosed(poll) : false
+  useEffect(() => {
+    if (!pollId || !open) return
+    const interval = setInterval(async () => {
+      const { data } = await db.polls.getForPost(kind, postId, viewerId)
+      if (data) setPoll(data)
+    }, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [pollId, open, kind, postId, viewerId])
+
+  const loadPoll = async () => {
+    const { data, error } = await db.polls.getForPost(kind, postId, viewerId)
+    if (error) {
+      console.error('Error loading poll:', error)
+      setError('Failed to load the poll')
+      return
+    }
+    setPoll(data)
+    setSelected(data?.my_votes || [])
+  }
+
+  if (!poll) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null
+  }
+
+  const closed = isPollClosed(poll)
+  const voted = (poll.my_votes || []).length > 0
+  const showResults = closed || ((voted || isAuthor) && !changing)
+  // With several choices per voter, options are measured against voters
+  const total = poll.allows_multiple ? poll.voter_count : poll.options.reduce((sum, option) => sum + option.vote_count, 0)
+
+  const toggle = (optionId: string) => {
+    setSelected(prev => poll.allows_multiple
+      ? (prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId])
+      : [optionId])
+  }
+
+  const submitVote = async (optionIds: string[]) => {
+    setVoting(true)
+    setError(null)
+    const { error } = await db.polls.vote(poll.id, optionIds, viewerId)
+    setVoting(false)
+    if (error) {
+      console.error('Error voting:', error)
+      setError(error.message || 'Failed to vote')
+      return
+    }
+    setChanging(false)
+    setVoters(null)
+    await loadPoll()
+  }
+
+  const showVoters = async (optionId: string) => {
+    if (voters?.optionId === optionId) {
+      setVoters(null)
+      return
+    }
+    const { data, error } = await db.polls.listVoters(poll.id, optionId)
+    if (error) {
+      console.error('Error loading voters:', error)
+      return
+    }
+    setVoters({ optionId, votes: data })
+  }
+
+  return (
+    <div className="space-y-2">
+      {poll.options.map(option => {
+        const share = total > 0 ? Math.round((option.vote_count / total) * 100) : 0
+        const mine = (poll.my_votes || []).includes(option.id)
+
+        if (!showResults) {
+          return (
+            <label
+              key={option.id}
+              className={`flex items-center space-x-2 px-3 py-2 border rounded-lg cursor-pointer transition-colors ${
+                selected.includes(option.id) ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type={poll.allows_multiple ? 'checkbox' : 'radio'}
+                name={`poll-${poll.id}`}
+                checked={selected.includes(option.id)}
+                onChange={() => toggle(option.id)}
+              />
+              <span className="text-sm text-gray-900">{option.label}</span>
+            </label>
+          )
+        }
+
+        return (
+          <div key={option.id}>
+            <div className="relative px-3 py-2 border border-gray-200 rounded-lg overflow-hidden">
+              <div
+                className={`absolute inset-y-0 left-0 transition-all duration-500 ${mine ? 'bg-purple-200' : 'bg-gray-100'}`}
+                style={{ width: `${share}%` }}
+              />
+              <div className="relative flex items-center justify-between text-sm">
+                <span className="flex items-center space-x-1 text-gray-900">
+                  {mine && <Check className="w-4 h-4 text-purple-600" />}
+                  <span>{option.label}</span>
+                </span>
+                <span className="flex items-center space-x-2 text-gray-600">
+                  {!poll.anonymous_votes && option.vote_count > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => showVoters(option.id)}
+                      className="text-gray-400 hover:text-purple-600"
+                      title="See who voted"
+                    >
+                      <Users className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <span className="font-medium">{share}%</span>
+                </span>
+              </div>
+            </div>
+            {voters?.optionId === option.id && (
+              <p className="px-3 pt-1 text-xs text-gray-500">
+                {voters.votes.map(nameOf).join(', ') || 'No one yet'}
+              </p>
+            )}
+          </div>
+        )
+      })}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+        <span className="flex items-center space-x-1">
+          <BarChart2 className="w-3.5 h-3.5" />
+          <span>
+            {poll.voter_count} {poll.voter_count === 1 ? 'vote' : 'votes'}
+            {poll.allows_multiple && ' · several choices allowed'}
+            {poll.anonymous_votes && ' · anonymous'}
+            {' · '}
+            {closed
+              ? 'closed'
+              : poll.closes_at
+                ? `closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`
+                : 'open'}
+          </span>
+        </span>
+
+        {!closed && (
+          showResults ? (
+            voted ? (
+              <span className="space-x-3">
+                <button type="button" onClick={() => setChanging(true)} className="text-purple-600 hover:text-purple-800">
+                  Change vote
+                </button>
+                <button type="button" onClick={() => submitVote([])} disabled={voting} className="hover:text-gray-700">
+                  Remove vote
+                </button>
+              </span>
+            ) : (
+              <button type="button" onClick={() => setChanging(true)} className="text-purple-600 hover:text-purple-800">
+                Vote
+              </button>
+            )
+          ) : (
+            <span className="space-x-3">
+              {changing && (
+                <button type="button" onClick={() => { setChanging(false); setSelected(poll.my_votes || []) }} className="hover:text-gray-700">
+                  Cancel
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => submitVote(selected)}
+                disabled={voting || selected.length === 0}
+                className="px-3 py-1 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {voting ? 'Voting...' : 'Vote'}
+              </button>
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,56 @@
 import React, { useState } from 'react'
-import { Heart, MessageCircle, Share, MoreHorizontal, Download, Eye } from 'lucide-react'
+import { MessageCircle, Share, Download, Eye, Flag, Pencil } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
-import { Post, Profile } from '../lib/supabase'
+import { Post, Profile, ReactionType } from '../lib/supabase'
+import { PostEdit, db, postKindForSection, sectionForPost } from '../lib/data'
+import { AnonymousPostCard } from './AnonymousPostCard'
+import { CommentThread } from './CommentThread'
+import { PostEditForm } from './PostEditForm'
+import { PostMenu } from './PostMenu'
+import { PollView } from './PollView'
+import { PostRevisionsModal } from './PostRevisionsModal'
+import { ReportDialog } from './ReportDialog'
+import { ReactionBar } from './ReactionBar'
+import { paths } from '../lib/router'
+import { RouteLink } from './RouteLink'
 
 interface PostCardProps {
   post: Post
   currentUser: Profile
-  onLike: (postId: string) => void
-  onComment: (postId: string, content: string) => void
+  onReact: (postId: string, reaction: ReactionType | null) => void
+  onComment: (postId: string, content: string, parentId?: string | null) => void
+  // Told after the author edits the post, to refetch it
+  onChanged?: (postId: string) => void
+  // Passed on to the anonymous card, where authors can also delete
+  onDeleted?: (postId: string) => void
 }
 
-export function PostCard({ post, currentUser, onLike, onComment }: PostCardProps) {
+export function PostCard(props: PostCardProps) {
+  if (props.post.visibility === 'anonymous') return <AnonymousPostCard {...props} />
+  return <PublicPostCard {...props} />
+}
+
+function PublicPostCard({ post, currentUser, onReact, onComment, onChanged }: PostCardProps) {
   const [showComments, setShowComments] = useState(false)
+  const [reporting, setReporting] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [showRevisions, setShowRevisions] = useState(false)
   const [commentText, setCommentText] = useState('')
   const [isSubmittingComment, setIsSubmittingComment] = useState(false)
 
-  const isLiked = post.likes?.some(like => like.user_id === currentUser.id) || false
   const likesCount = post._count?.likes || 0
   const commentsCount = post._count?.comments || 0
+  const isOwn = post.user_id === currentUser.id
+  // Community posts turn up here on the following timeline
+  const kind = postKindForSection(sectionForPost(post))
 
-  const handleLike = () => {
-    onLike(post.id)
+  const handleSaveEdit = async (edit: PostEdit) => {
+    const { error } = kind === 'community_post'
+      ? await db.posts.updateCommunityPost(post.id, edit, currentUser.id)
+      : await db.posts.update(post.id, edit, currentUser.id)
+    if (error) throw error
+    setEditing(false)
+    onChanged?.(post.id)
   }
 
   const handleComment = async (e: React.FormEvent) => {
@@ -65,10 +95,25 @@ export function PostCard({ post, currentUser, onLike, onComment }: PostCardProps
             </div>
             <div>
               <h3 className="font-semibold text-gray-900">
-                {post.profiles?.full_name || post.profiles?.username || 'Unknown User'}
+                {post.profiles?.username ? (
+                  <RouteLink to={paths.profile(post.profiles.username)} className="hover:underline">
+                    {post.profiles.full_name || post.profiles.username}
+                  </RouteLink>
+                ) : (
+                  post.profiles?.full_name || 'Unknown User'
+                )}
               </h3>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
-                <span>{formatDistanceToNow(new Date(post.created_at))} ago</span>
+                <RouteLink to={paths.post(post.id)} className="hover:underline">
+                  {formatDistanceToNow(new Date(post.created_at))} ago
+                </RouteLink>
+                {post.edited_at && (isOwn || currentUser.is_site_admin ? (
+                  <button onClick={() => setShowRevisions(true)} className="hover:underline" title="See edit history">
+                    (edited)
+                  </button>
+                ) : (
+                  <span>(edited)</span>
+                ))}
                 {(post as any).community_name && (
                   <>
                     <span>•</span>
@@ -80,19 +125,38 @@ export function PostCard({ post, currentUser, onLike, onComment }: PostCardProps
               </div>
             </div>
           </div>
-          <button className="p-2 hover:bg-gray-100 rounded-full transition-colors">
-            <MoreHorizontal className="w-5 h-5 text-gray-500" />
-          </button>
+          <PostMenu
+            items={isOwn
+              ? [{ label: 'Edit post', icon: Pencil, onClick: () => setEditing(true) }]
+              : [{ label: 'Report post', icon: Flag, onClick: () => setReporting(true) }]}
+          />
         </div>
       </div>
 
       {/* Content */}
       <div className="px-4 pb-4">
-        <p className="text-gray-900 whitespace-pre-wrap">{post.content}</p>
+        {editing ? (
+          <PostEditForm
+            content={post.content}
+            images={post.images}
+            files={post.files}
+            onSave={handleSaveEdit}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <p className="text-gray-900 whitespace-pre-wrap">{post.content}</p>
+        )}
       </div>
 
+      {/* Poll */}
+      {post.has_poll && (
+        <div className="px-4 pb-4">
+          <PollView kind={kind} postId={post.id} viewerId={currentUser.id} isAuthor={isOwn} />
+        </div>
+      )}
+
       {/* Images */}
-      {post.images && post.images.length > 0 && (
+      {!editing && post.images && post.images.length > 0 && (
         <div className="px-4 pb-4">
           <div className="grid grid-cols-1 gap-2">
             {post.images.map((image, index) => (
@@ -112,7 +176,7 @@ export function PostCard({ post, currentUser, onLike, onComment }: PostCardProps
       )}
 
       {/* Files */}
-      {post.files && post.files.length > 0 && (
+      {!editing && post.files && post.files.length > 0 && (
         <div className="px-4 pb-4">
           <div className="space-y-2">
             {post.files.map((file, index) => (
@@ -153,17 +217,14 @@ export function PostCard({ post, currentUser, onLike, onComment }: PostCardProps
       <div className="px-4 py-3 border-t border-gray-100">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-6">
-            <button
-              onClick={handleLike}
-              className={`flex items-center space-x-2 transition-colors ${
-                isLiked 
-                  ? 'text-red-500 hover:text-red-600' 
-                  : 'text-gray-500 hover:text-red-500'
-              }`}
-            >
-              <Heart className={`w-5 h-5 ${isLiked ? 'fill-current' : ''}`} />
-              <span className="text-sm font-medium">{likesCount}</span>
-            </button>
+            <ReactionBar
+              target={{ kind, postId: post.id }}
+              likes={post.likes}
+              counts={post._reactions}
+              total={likesCount}
+              currentUserId={currentUser.id}
+              onReact={reaction => onReact(post.id, reaction)}
+            />
             
             <button
               onClick={() => setShowComments(!showComments)}
@@ -215,41 +276,35 @@ export function PostCard({ post, currentUser, onLike, onComment }: PostCardProps
 
           {/* Comments List */}
           <div className="max-h-96 overflow-y-auto">
-            {post.comments && post.comments.length > 0 ? (
-              <div className="divide-y divide-gray-100">
-                {post.comments.map((comment) => (
-                  <div key={comment.id} className="p-4">
-                    <div className="flex space-x-3">
-                      <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full flex items-center justify-center flex-shrink-0">
-                        <span className="text-white font-semibold text-xs">
-                          {comment.profiles?.full_name?.charAt(0) || comment.profiles?.username?.charAt(0) || 'U'}
-                        </span>
-                      </div>
-                      <div className="flex-1">
-                        <div className="bg-gray-50 rounded-lg px-3 py-2">
-                          <h4 className="font-semibold text-sm text-gray-900">
-                            {comment.profiles?.full_name || comment.profiles?.username || 'Unknown User'}
-                          </h4>
-                          <p className="text-gray-800 text-sm mt-1">{comment.content}</p>
-                        </div>
-                        <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                          <span>{formatDistanceToNow(new Date(comment.created_at))} ago</span>
-                          <button className="hover:text-gray-700 transition-colors">Like</button>
-                          <button className="hover:text-gray-700 transition-colors">Reply</button>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="p-4 text-center text-gray-500">
-                <p className="text-sm">No comments yet. Be the first to comment!</p>
-              </div>
-            )}
+            <div className="p-4">
+              <CommentThread
+                kind={kind}
+                comments={post.comments || []}
+                currentUser={currentUser}
+                onReply={(content, parentId) => onComment(post.id, content, parentId)}
+              />
+            </div>
           </div>
         </div>
       )}
+
+      {showRevisions && (
+        <PostRevisionsModal
+          kind={kind}
+          postId={post.id}
+          current={post}
+          viewerId={currentUser.id}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {reporting && (
+        <ReportDialog
+          target={{ type: kind, id: post.id }}
+          currentUser={currentUser}
+          onClose={() => setReporting(false)}
+        />
+      )}
     </div>
   )
 }
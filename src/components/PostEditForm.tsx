@@ -0,0 +1,166 @@
+import React, { useState } from 'react'
+import { Image, Paperclip, X } from 'lucide-react'
+import { uploadFile } from '../lib/supabase'
+import { PostEdit } from '../lib/data'
+
+interface PostEditFormProps {
+  content: string
+  images?: string[] | null
+  files?: string[] | null
+  // Anonymous posts are text only
+  allowAttachments?: boolean
+  maxLength?: number
+  // Rejects with the reason the save failed
+  onSave: (edit: PostEdit) => Promise<void>
+  onCancel: () => void
+}
+
+const MAX_IMAGES = 4
+
+// Inline editor for a post's text and attachments. New images and files are
+// uploaded as soon as they are picked, like the listing editor does.
+export function PostEditForm({
+  content,
+  images,
+  files,
+  allowAttachments = true,
+  maxLength,
+  onSave,
+  onCancel,
+}: PostEditFormProps) {
+  const [text, setText] = useState(content)
+  const [imageUrls, setImageUrls] = useState<string[]>(images || [])
+  const [fileUrls, setFileUrls] = useState<string[]>(files || [])
+  const [uploading, setUploading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>, add: (urls: string[]) => void) => {
+    const picked = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (picked.length === 0) return
+
+    setUploading(true)
+    const urls: string[] = []
+    for (const file of picked) {
+      const url = await uploadFile(file, 'post-images')
+      if (url) urls.push(url)
+    }
+    setUploading(false)
+    if (urls.length < picked.length) setError('Some attachments could not be uploaded')
+    add(urls)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!text.trim() || saving || uploading) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave(allowAttachments
+        ? { content: text.trim(), images: imageUrls, files: fileUrls }
+        : { content: text.trim() })
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save the post')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+        rows={4}
+        maxLength={maxLength}
+        autoFocus
+      />
+
+      {allowAttachments && imageUrls.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mt-2">
+          {imageUrls.map((url, index) => (
+            <div key={url} className="relative">
+              <img src={url} alt={`Attachment ${index + 1}`} className="w-full h-20 object-cover rounded-lg" />
+              <button
+                type="button"
+                onClick={() => setImageUrls(prev => prev.filter(candidate => candidate !== url))}
+                className="absolute top-1 right-1 p-0.5 bg-black bg-opacity-60 text-white rounded-full"
+                title="Remove image"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {allowAttachments && fileUrls.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {fileUrls.map(url => (
+            <li key={url} className="flex items-center justify-between px-3 py-1.5 bg-gray-50 rounded-lg text-sm">
+              <span className="truncate text-gray-700">{url.split('/').pop()}</span>
+              <button
+                type="button"
+                onClick={() => setFileUrls(prev => prev.filter(candidate => candidate !== url))}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title="Remove file"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+
+      <div className="flex items-center justify-between mt-2">
+        <div className="flex items-center space-x-1">
+          {allowAttachments && (
+            <>
+              <label className={`p-2 rounded-lg text-gray-500 hover:bg-gray-100 cursor-pointer ${imageUrls.length >= MAX_IMAGES ? 'opacity-50 pointer-events-none' : ''}`} title="Add images">
+                <Image className="w-4 h-4" />
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => upload(e, urls => setImageUrls(prev => [...prev, ...urls].slice(0, MAX_IMAGES)))}
+                />
+              </label>
+              <label className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 cursor-pointer" title="Add files">
+                <Paperclip className="w-4 h-4" />
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => upload(e, urls => setFileUrls(prev => [...prev, ...urls]))}
+                />
+              </label>
+              {uploading && <span className="text-xs text-gray-500">Uploading...</span>}
+            </>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!text.trim() || saving || uploading}
+            className="px-4 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -1,5 +1,11 @@
-import React, { useState, useEffect } from 'react'
-import { supabase, Post, CommunityPost, Profile, hasValidSupabaseConfig } from '../lib/supabase'
+import React, { useState } from 'react'
+import { Post, CommunityPost, FeedSort, Profile, ReactionType } from '../lib/supabase'
+import { db, postKindForSection, unwrap } from '../lib/data'
+import { DEFAULT_FEED_SORT, feedSortKey } from '../lib/feedRanking'
+import { FeedCursor, FeedPage } from '../lib/pagination'
+import { usePaginatedFeed } from '../hooks/usePaginatedFeed'
+import { NewPostsBanner, InfiniteScrollTrigger } from './FeedPagination'
+import { FeedSortControl } from './FeedSortControl'
 import { PostCard } from './PostCard'
 import { AnonymousPostCard } from './AnonymousPostCard'
 import { PostForm } from './PostForm'
@@ -10,276 +16,71 @@ interface PostFeedProps {
   section: string
 }
 
-// Demo posts for when Supabase is not configured
-const demoPostsData = [
-  {
-    id: '1',
-    user_id: 'demo-user-123',
-    content: 'Welcome to our social platform! 🎉 This is a demo post to show how the feed works. Feel free to interact with it!',
-    images: ['https://images.pexels.com/photos/1591056/pexels-photo-1591056.jpeg?auto=compress&cs=tinysrgb&w=800'],
-    files: [],
-    visibility: 'public',
-    created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-    updated_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-    profiles: {
-      id: 'demo-user-123',
-      username: 'demouser',
-      full_name: 'Demo User',
-      email: 'demo@example.com',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    },
-    likes: [],
-    comments: [],
-    _count: { likes: 5, comments: 2 }
-  }
-]
-
-const demoAnonymousPostsData = [
-  {
-    id: '2',
-    user_id: 'demo-user-456',
-    content: 'This is an anonymous post. You can share your thoughts freely without revealing your identity. Perfect for sensitive topics or when you want complete privacy.',
-    images: null,
-    files: null,
-    visibility: 'anonymous',
-    created_at: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
-    updated_at: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
-    profiles: null, // No profile data for anonymous posts
-    likes: [],
-    comments: [],
-    _count: { likes: 3, comments: 1 }
-  }
-]
-
 export function PostFeed({ currentUser, section }: PostFeedProps) {
-  const [posts, setPosts] = useState<(Post | CommunityPost)[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    loadPosts()
-  }, [section])
-
-  const loadPosts = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      
-      // Use demo data if Supabase is not configured
-      if (!hasValidSupabaseConfig()) {
-        console.log('🔧 Using demo data - Supabase not configured')
-        if (section === 'public' || !section) {
-          setPosts(demoPostsData)
-        } else if (section === 'anonymous') {
-          setPosts(demoAnonymousPostsData)
-        } else {
-          setPosts([])
-        }
-        setLoading(false)
-        return
-      }
-
-      console.log('🔍 Loading posts for section:', section || 'public (default)')
-
-      // Load posts based on section
-      let query = supabase.from('posts').select('*')
-
-      if (section === 'public' || !section) {
-        console.log('🔍 Loading public posts...')
-        query = query.eq('visibility', 'public').is('community_id', null)
-      } else if (section === 'anonymous') {
-        console.log('🔍 Loading anonymous posts...')
-        query = query.eq('visibility', 'anonymous').is('community_id', null)
-      } else {
-        // For community posts or other sections
-        console.log('🔍 Loading posts for section:', section)
-        query = query.eq('community_id', section)
-      }
-
-      const { data: simplePosts, error: postsError } = await query.order('created_at', { ascending: false })
-
-      console.log('📊 Posts query result:', simplePosts)
-      console.log('📊 Posts error:', postsError)
-
-      if (postsError) {
-        console.error('❌ Posts query error:', postsError)
-        setError(`Database error: ${postsError.message}`)
-        setLoading(false)
-        return
-      }
-
-      if (!simplePosts || simplePosts.length === 0) {
-        console.log('📭 No posts found for section:', section || 'public')
-        setPosts([])
-        setLoading(false)
-        return
-      }
-
-      console.log('🔄 Processing posts with additional data...')
-      
-      // Get additional data for each post
-      const postsWithProfiles = []
-      
-      for (const post of simplePosts) {
-        console.log('🔄 Processing post:', post.id)
-        let profile = null
-        
-        // For anonymous posts, don't load profile data
-        if (section !== 'anonymous') {
-          const { data: profileData, error: profileError } = await supabase
-            .from('profiles')
-            .select('id, username, full_name, avatar_url')
-            .eq('id', post.user_id)
-            .single()
-          
-          console.log('👤 Profile data for post', post.id, ':', profileData)
-          if (profileError) {
-            console.log('⚠️ Profile error for post', post.id, ':', profileError)
-          }
-          
-          profile = profileData
-        }
+  const [sort, setSort] = useState<FeedSort>(DEFAULT_FEED_SORT)
 
-        // Get likes count
-        const { data: likes, error: likesError } = await supabase
-          .from('likes')
-          .select('id, user_id')
-          .eq('post_id', post.id)
+  const fetchPostsPage = async (cursor: FeedCursor | null): Promise<FeedPage<any>> => {
+    console.log('🔍 Loading posts for section:', section || 'public (default)')
 
-        console.log('❤️ Likes for post', post.id, ':', likes)
-        if (likesError) {
-          console.log('⚠️ Likes error for post', post.id, ':', likesError)
-        }
-
-        // Get comments
-        const { data: comments, error: commentsError } = await supabase
-          .from('comments')
-          .select(`
-            id,
-            content,
-            created_at,
-            user_id
-          `)
-          .eq('post_id', post.id)
-          .order('created_at', { ascending: true })
-
-        console.log('💬 Comments for post', post.id, ':', comments)
-        if (commentsError) {
-          console.log('⚠️ Comments error for post', post.id, ':', commentsError)
-        }
-
-        // Get comment profiles (also anonymous for anonymous posts)
-        const commentsWithProfiles = []
-        if (comments) {
-          for (const comment of comments) {
-            let commentProfile = null
-            
-            // For anonymous posts, don't load comment profiles either
-            if (section !== 'anonymous') {
-              const { data: commentProfileData } = await supabase
-                .from('profiles')
-                .select('id, username, full_name, avatar_url')
-                .eq('id', comment.user_id)
-                .single()
-              
-              commentProfile = commentProfileData
-            }
-
-            commentsWithProfiles.push({
-              ...comment,
-              profiles: commentProfile
-            })
-          }
-        }
-
-        postsWithProfiles.push({
-          ...post,
-          visibility: post.visibility || section || 'public',
-          profiles: profile,
-          likes: likes || [],
-          comments: commentsWithProfiles,
-          _count: {
-            likes: likes?.length || 0,
-            comments: commentsWithProfiles.length || 0,
-          },
-        })
-      }
-
-      console.log('✅ Final posts with profiles:', postsWithProfiles)
-      setPosts(postsWithProfiles)
-    } catch (error) {
-      console.error('💥 Error loading posts:', error)
-      setError(`Failed to load posts: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    } finally {
-      setLoading(false)
-    }
+    const page = unwrap(await db.posts.getFeedPage(section || 'public', cursor, { viewerId: currentUser.id, sort }))
+    console.log('📊 Posts page result:', page.items.length, 'more:', !!page.nextCursor)
+    return page
   }
 
-  const handleLike = async (postId: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just update local state
-      setPosts(prevPosts => 
-        prevPosts.map(post => {
-          if (post.id === postId) {
-            const isLiked = post.likes?.some(l => l.user_id === currentUser.id)
-            const newLikesCount = isLiked 
-              ? (post._count?.likes || 0) - 1 
-              : (post._count?.likes || 0) + 1
-            
-            return {
-              ...post,
-              _count: {
-                ...post._count,
-                likes: newLikesCount
-              }
-            }
-          }
-          return post
-        })
-      )
+  const {
+    items: posts,
+    updateItem,
+    removeItem,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    newCount,
+    loadMore,
+    refresh: loadPosts,
+    showNewItems
+  } = usePaginatedFeed<any>({
+    key: `feed:${section || 'public'}:${feedSortKey(sort)}`,
+    fetchPage: fetchPostsPage,
+    countNewer: sort.mode === 'new'
+      ? async head => unwrap(await db.posts.countNewer(section || 'public', head, currentUser.id))
+      : undefined,
+    ranked: sort.mode !== 'new'
+  })
+
+  // Refetches one post so a like or comment doesn't reload the whole feed
+  const reloadPost = async (postId: string) => {
+    const { data, error } = await db.posts.getFeedPost(section || 'public', postId, currentUser.id)
+    if (error) {
+      console.error('Error reloading post:', error)
       return
     }
+    updateItem(postId, () => data)
+  }
 
+  const handleReact = async (postId: string, reaction: ReactionType | null) => {
     try {
-      const existingLike = posts
-        .find(p => p.id === postId)
-        ?.likes?.find(l => l.user_id === currentUser.id)
+      const kind = postKindForSection(section)
+      const { error } = await db.reactions.setPostReaction(kind, postId, currentUser.id, reaction)
+      if (error) throw error
 
-      if (existingLike) {
-        await supabase
-          .from('likes')
-          .delete()
-          .eq('id', existingLike.id)
-      } else {
-        await supabase
-          .from('likes')
-          .insert([{ user_id: currentUser.id, post_id: postId }])
-      }
-
-      loadPosts()
+      reloadPost(postId)
     } catch (error) {
-      console.error('Error toggling like:', error)
+      console.error('Error updating reaction:', error)
     }
   }
 
-  const handleComment = async (postId: string, content: string) => {
-    if (!hasValidSupabaseConfig()) {
-      // Demo mode - just show success message
-      alert('Comment added! (Demo mode)')
-      return
-    }
-
+  const handleComment = async (postId: string, content: string, parentId?: string | null) => {
     try {
-      await supabase
-        .from('comments')
-        .insert([{
-          user_id: currentUser.id,
-          post_id: postId,
-          content,
-        }])
-
-      loadPosts()
+      const { error } = await db.comments.create(postKindForSection(section), {
+        user_id: currentUser.id,
+        post_id: postId,
+        content,
+        parent_id: parentId,
+      })
+      if (error) throw error
+
+      reloadPost(postId)
     } catch (error) {
       console.error('Error adding comment:', error)
     }
@@ -325,7 +126,7 @@ export function PostFeed({ currentUser, section }: PostFeedProps) {
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Posts</h3>
           <p className="text-red-600 mb-4">{error}</p>
           <button
-            onClick={loadPosts}
+            onClick={() => loadPosts()}
             className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
           >
             Try Again
@@ -347,6 +148,8 @@ export function PostFeed({ currentUser, section }: PostFeedProps) {
           <AnonymousPostForm onPostCreated={handlePostCreated} />
         )}
 
+        <FeedSortControl sort={sort} onChange={setSort} />
+
         {/* Posts Feed */}
         {posts.length === 0 ? (
           <div className="text-center py-12">
@@ -366,25 +169,36 @@ export function PostFeed({ currentUser, section }: PostFeedProps) {
             </p>
           </div>
         ) : (
-          posts.map((post) => (
-            section === 'anonymous' ? (
-              <AnonymousPostCard
-                key={post.id}
-                post={post as Post}
-                currentUser={currentUser}
-                onLike={handleLike}
-                onComment={handleComment}
-              />
-            ) : (
-              <PostCard
-                key={post.id}
-                post={post as Post}
-                currentUser={currentUser}
-                onLike={handleLike}
-                onComment={handleComment}
-              />
-            )
-          ))
+          <>
+            <NewPostsBanner count={newCount} onClick={showNewItems} />
+            {posts.map((post) => (
+              section === 'anonymous' ? (
+                <AnonymousPostCard
+                  key={post.id}
+                  post={post as Post}
+                  currentUser={currentUser}
+                  onReact={handleReact}
+                  onComment={handleComment}
+                  onChanged={reloadPost}
+                  onDeleted={removeItem}
+                />
+              ) : (
+                <PostCard
+                  key={post.id}
+                  post={post as Post}
+                  currentUser={currentUser}
+                  onReact={handleReact}
+                  onComment={handleComment}
+                  onChanged={reloadPost}
+                />
+              )
+            ))}
+            <InfiniteScrollTrigger
+              onLoadMore={loadMore}
+              hasMore={hasMore}
+              loading={loadingMore}
+            />
+          </>
         )}
       </div>
     </div>
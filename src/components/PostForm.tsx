@@ -1,6 +1,10 @@
 import React, { useState } from 'react'
-import { Send, Image, X } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import { Send, Image, X, BarChart2 } from 'lucide-react'
+import { supabase, getCurrentUser } from '../lib/supabase'
+import { NewPoll, db } from '../lib/data'
+import { useDraftAutosave } from '../hooks/useDraftAutosave'
+import { DraftStatusNote } from './DraftControls'
+import { EMPTY_POLL, PollComposer, attachPoll, pollProblem } from './PollComposer'
 
 interface PostFormProps {
   onPostCreated: () => void
@@ -8,28 +12,49 @@ interface PostFormProps {
 }
 
 export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
-  const [content, setContent] = useState('')
+  const draft = useDraftAutosave({ communityId })
+  const { content, images } = draft.value
   const [loading, setLoading] = useState(false)
+  const [uploading, setUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [selectedImages, setSelectedImages] = useState<File[]>([])
+  // Polls aren't part of the autosaved draft; the post's text is the question
+  const [poll, setPoll] = useState<NewPoll | null>(null)
+  const problem = poll && (content.trim() ? pollProblem(poll) : 'Write the question first')
 
   console.log('PostForm initialized with communityId:', communityId)
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Images are uploaded as soon as they are picked so the draft can keep them
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || [])
+    e.target.value = ''
     const imageFiles = files.filter(file => file.type.startsWith('image/'))
     
-    if (imageFiles.length + selectedImages.length > 4) {
+    if (imageFiles.length + images.length > 4) {
       setError('You can only upload up to 4 images per post')
       return
     }
     
-    setSelectedImages(prev => [...prev, ...imageFiles])
     setError(null)
+    setUploading(true)
+    try {
+      const uploaded: string[] = []
+      for (const image of imageFiles) {
+        try {
+          uploaded.push(await uploadImage(image))
+        } catch (uploadError: any) {
+          throw new Error(`Failed to upload "${image.name}": ${uploadError.message}`)
+        }
+      }
+      draft.update({ images: [...images, ...uploaded] })
+    } catch (uploadError: any) {
+      setError(uploadError.message)
+    } finally {
+      setUploading(false)
+    }
   }
 
   const removeImage = (index: number) => {
-    setSelectedImages(prev => prev.filter((_, i) => i !== index))
+    draft.update({ images: images.filter((_, i) => i !== index) })
   }
 
   const uploadImage = async (file: File): Promise<string> => {
@@ -104,7 +129,7 @@ export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!content.trim() && selectedImages.length === 0) return
+    if ((!content.trim() && images.length === 0) || problem) return
 
     setLoading(true)
     setError(null)
@@ -112,49 +137,21 @@ export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
     try {
       console.log('=== POST CREATION START ===')
       
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) throw new Error('No user found')
 
       console.log('Creating post for user:', user.id)
       console.log('Community ID received:', communityId)
-      console.log('Community ID type:', typeof communityId)
-      console.log('Community ID is null?', communityId === null)
-      console.log('Community ID is undefined?', communityId === undefined)
-
-      // Upload images if any
-      let imageUrls: string[] = []
-      if (selectedImages.length > 0) {
-        console.log(`Uploading ${selectedImages.length} images...`)
-        
-        for (let i = 0; i < selectedImages.length; i++) {
-          const image = selectedImages[i]
-          console.log(`\n--- Uploading image ${i + 1}/${selectedImages.length} ---`)
-          
-          try {
-            const imageUrl = await uploadImage(image)
-            imageUrls.push(imageUrl)
-            console.log(`✓ Image ${i + 1} uploaded successfully`)
-          } catch (uploadError: any) {
-            console.error(`✗ Failed to upload image ${i + 1}:`, uploadError)
-            throw new Error(`Failed to upload "${image.name}": ${uploadError.message}`)
-          }
-        }
-      }
-
-      console.log('All images uploaded. Creating post...')
 
       // CRITICAL: Always use posts table for PostForm component
       // PostForm is only used for regular public posts, never community posts
       console.log('🎯 USING POSTS TABLE (regular post)')
-      const { error: insertError } = await supabase
-        .from('posts')
-        .insert({
-          user_id: user.id,
-          content: content.trim() || '',
-          images: imageUrls,
-          visibility: 'public',
-          community_id: null  // Always null for regular posts
-        })
+      const { data: post, error: insertError } = await db.posts.create({
+        user_id: user.id,
+        content: content.trim() || '',
+        images,
+        visibility: 'public'
+      })
 
       if (insertError) {
         console.error('Regular post creation error:', insertError)
@@ -162,8 +159,11 @@ export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
       }
 
       console.log('✓ Post created successfully in posts table')
-      setContent('')
-      setSelectedImages([])
+      if (poll) {
+        await attachPoll('post', post.id, poll, user.id)
+        setPoll(null)
+      }
+      await draft.discard()
       onPostCreated()
     } catch (error: any) {
       console.error('=== POST CREATION ERROR ===')
@@ -180,27 +180,28 @@ export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
         <div className="mb-4">
           <textarea
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={(e) => draft.update({ content: e.target.value })}
             placeholder="What's on your mind?"
             className="w-full p-4 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent placeholder-gray-500 text-gray-800 resize-none"
             rows={3}
             maxLength={500}
           />
           <div className="flex justify-between items-center mt-2">
-            <span className="text-sm text-gray-500">
+            <DraftStatusNote status={draft.status} restored={draft.restored} onDiscard={draft.discard} />
+            <span className="ml-auto text-sm text-gray-500">
               {content.length}/500
             </span>
           </div>
         </div>
 
         {/* Image Preview */}
-        {selectedImages.length > 0 && (
+        {images.length > 0 && (
           <div className="mb-4">
             <div className="grid grid-cols-2 gap-2">
-              {selectedImages.map((file, index) => (
-                <div key={index} className="relative">
+              {images.map((url, index) => (
+                <div key={url} className="relative">
                   <img
-                    src={URL.createObjectURL(file)}
+                    src={url}
                     alt={`Preview ${index + 1}`}
                     className="w-full h-24 object-cover rounded-lg"
                   />
@@ -217,6 +218,13 @@ export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
           </div>
         )}
 
+        {poll && (
+          <div className="mb-4">
+            <PollComposer poll={poll} onChange={setPoll} onRemove={() => setPoll(null)} />
+            {problem && <p className="text-xs text-gray-500 mt-1">{problem}</p>}
+          </div>
+        )}
+
         {error && (
           <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-700 text-sm">
             <strong>Error:</strong> {error}
@@ -243,19 +251,29 @@ export function PostForm({ onPostCreated, communityId = null }: PostFormProps) {
                 accept="image/*"
                 onChange={handleImageSelect}
                 className="hidden"
-                disabled={loading || selectedImages.length >= 4}
+                disabled={loading || uploading || images.length >= 4}
               />
             </label>
-            {selectedImages.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setPoll(poll ? null : EMPTY_POLL)}
+              className={`p-2 rounded-lg transition-colors ${poll ? 'text-purple-600 bg-purple-500/10' : 'text-gray-500 hover:text-purple-500 hover:bg-purple-500/10'}`}
+              title={poll ? 'Remove poll' : 'Add poll'}
+            >
+              <BarChart2 className="w-5 h-5" />
+            </button>
+            {uploading ? (
+              <span className="text-xs text-gray-500">Uploading...</span>
+            ) : images.length > 0 && (
               <span className="text-xs text-gray-500">
-                {selectedImages.length}/4 images
+                {images.length}/4 images
               </span>
             )}
           </div>
 
           <button
             type="submit"
-            disabled={loading || (!content.trim() && selectedImages.length === 0)}
+            disabled={loading || uploading || (!content.trim() && images.length === 0) || Boolean(problem)}
             className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
           >
             {loading ? (
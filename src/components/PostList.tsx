@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react'
 import { Heart, MessageCircle, Send, Bookmark, MoreHorizontal, ChevronLeft, ChevronRight, X } from 'lucide-react'
-import { supabase, Post, AnonymousPost, CommunityPost, likePost, unlikePost, getPostLikes, checkUserLikedPost, getPostComments } from '../lib/supabase'
+import { Post, AnonymousPost, CommunityPost, getCurrentUser } from '../lib/supabase'
+import { db, isCommunitySection, unwrap } from '../lib/data'
 import { CommentSection } from './CommentSection'
+import { NewPostsBanner, InfiniteScrollTrigger } from './FeedPagination'
+import { FeedCursor, FeedPage } from '../lib/pagination'
+import { usePaginatedFeed } from '../hooks/usePaginatedFeed'
 
 interface PostListProps {
   refreshTrigger: number
@@ -21,175 +25,56 @@ type CombinedPost = (Post | AnonymousPost | CommunityPost) & {
 }
 
 export function PostList({ refreshTrigger, section }: PostListProps) {
-  const [posts, setPosts] = useState<CombinedPost[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
   const [likingPosts, setLikingPosts] = useState<Set<string>>(new Set())
   const [expandedComments, setExpandedComments] = useState<Set<string>>(new Set())
   const [imageGalleries, setImageGalleries] = useState<{[postId: string]: number}>({})
   const [fullscreenImage, setFullscreenImage] = useState<{url: string, alt: string} | null>(null)
 
-  const fetchPosts = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      
-      if (section === 'anonymous') {
-        const { data: anonymousData, error: anonymousError } = await supabase
-          .from('anonymous_posts')
-          .select('id, content, created_at, updated_at')
-          .order('created_at', { ascending: false })
-
-        if (anonymousError) throw anonymousError
-
-        const anonymousPosts = (anonymousData || []).map(post => ({
-          ...post,
-          is_anonymous: true,
-          is_community: false,
-          profiles: null,
-          like_count: 0,
-          user_liked: false,
-          comment_count: 0,
-          images: [],
-          files: []
-        }))
-
-        setPosts(anonymousPosts)
-      } else if (section === 'public') {
-        const { data: publicData, error: publicError } = await supabase
-          .from('posts')
-          .select('id, content, created_at, updated_at, user_id, images, files')
-          .order('created_at', { ascending: false })
-
-        if (publicError) throw publicError
-
-        const postsWithData = await Promise.all(
-          (publicData || []).map(async (post) => {
-            try {
-              const { data: profile, error: profileError } = await supabase
-                .from('profiles')
-                .select('id, display_name, full_name, username')
-                .eq('id', post.user_id)
-                .single()
-
-              if (profileError) {
-                console.warn('Profile fetch error for user:', post.user_id, profileError)
-              }
-
-              const likes = await getPostLikes(post.id, false)
-              const userLiked = await checkUserLikedPost(post.id, false)
-              const comments = await getPostComments(post.id, false)
-
-              return { 
-                ...post, 
-                profiles: profile || null, 
-                is_anonymous: false, 
-                is_community: false,
-                like_count: likes.length,
-                user_liked: userLiked,
-                comment_count: comments.length,
-                images: post.images || [],
-                files: post.files || []
-              }
-            } catch (err) {
-              console.warn('Error fetching data for post:', post.id, err)
-              return { 
-                ...post, 
-                profiles: null, 
-                is_anonymous: false, 
-                is_community: false,
-                like_count: 0,
-                user_liked: false,
-                comment_count: 0,
-                images: post.images || [],
-                files: post.files || []
-              }
-            }
-          })
-        )
+  const fetchPostsPage = async (cursor: FeedCursor | null): Promise<FeedPage<CombinedPost>> => {
+    const user = await getCurrentUser()
+    const viewerId = user?.id || ''
+    const isCommunity = isCommunitySection(section)
+    const page = unwrap(await db.posts.getFeedPage(section, cursor, { viewerId }))
+
+    let community = null
+    if (isCommunity) {
+      const { data, error } = await db.communities.get(section)
+      if (error) console.warn('Community fetch error:', section, error)
+      community = data
+    }
 
-        setPosts(postsWithData)
-      } else {
-        const { data: communityData, error: communityError } = await supabase
-          .from('community_posts')
-          .select(`
-            id, 
-            content, 
-            created_at, 
-            updated_at, 
-            user_id,
-            community_id,
-            images,
-            files,
-            communities (
-              id,
-              name,
-              description
-            )
-          `)
-          .eq('community_id', section)
-          .order('created_at', { ascending: false })
-
-        if (communityError) throw communityError
-
-        const communityPostsWithData = await Promise.all(
-          (communityData || []).map(async (post) => {
-            try {
-              const { data: profile, error: profileError } = await supabase
-                .from('profiles')
-                .select('id, display_name, full_name, username')
-                .eq('id', post.user_id)
-                .single()
-
-              if (profileError) {
-                console.warn('Profile fetch error for user:', post.user_id, profileError)
-              }
-
-              const likes = await getPostLikes(post.id, true)
-              const userLiked = await checkUserLikedPost(post.id, true)
-              const comments = await getPostComments(post.id, true)
-
-              return { 
-                ...post, 
-                profiles: profile || null, 
-                is_anonymous: false, 
-                is_community: true,
-                like_count: likes.length,
-                user_liked: userLiked,
-                comment_count: comments.length,
-                images: post.images || [],
-                files: post.files || []
-              }
-            } catch (err) {
-              console.warn('Error fetching data for community post:', post.id, err)
-              return { 
-                ...post, 
-                profiles: null, 
-                is_anonymous: false, 
-                is_community: true,
-                like_count: 0,
-                user_liked: false,
-                comment_count: 0,
-                images: post.images || [],
-                files: post.files || []
-              }
-            }
-          })
-        )
+    const items = page.items.map(post => ({
+      ...post,
+      is_anonymous: section === 'anonymous',
+      is_community: isCommunity,
+      communities: community,
+      like_count: post._count.likes,
+      user_liked: post.likes.some(like => like.user_id === viewerId),
+      comment_count: post._count.comments,
+      images: post.images || [],
+      files: post.files || []
+    }))
 
-        setPosts(communityPostsWithData)
-      }
-    } catch (error: any) {
-      console.error('Error fetching posts:', error)
-      setError(error.message || 'Failed to load posts')
-    } finally {
-      setLoading(false)
-    }
+    return { ...page, items }
   }
 
-  useEffect(() => {
-    fetchPosts()
-  }, [refreshTrigger, section])
+  const {
+    items: posts,
+    setItems: setPosts,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    newCount,
+    loadMore,
+    refresh: fetchPosts,
+    showNewItems
+  } = usePaginatedFeed<CombinedPost>({
+    key: `${section}:${refreshTrigger}`,
+    fetchPage: fetchPostsPage,
+    countNewer: async head => unwrap(await db.posts.countNewer(section, head, (await getCurrentUser())?.id || ''))
+  })
 
   const handleLikeToggle = async (postId: string, isCurrentlyLiked: boolean, isCommunityPost: boolean) => {
     if (likingPosts.has(postId)) return
@@ -212,13 +97,16 @@ export function PostList({ refreshTrigger, section }: PostListProps) {
         })
       )
 
-      if (isCurrentlyLiked) {
-        await unlikePost(postId, isCommunityPost)
-      } else {
-        await likePost(postId, isCommunityPost)
-      }
+      const user = await getCurrentUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const kind = isCommunityPost ? 'community_post' : 'post'
+      const { error } = isCurrentlyLiked
+        ? await db.reactions.unlikePost(kind, postId, user.id)
+        : await db.reactions.likePost(kind, postId, user.id)
+      if (error) throw error
 
-      setError(null)
+      setActionError(null)
     } catch (error: any) {
       console.error('Error toggling like:', error)
       
@@ -241,8 +129,8 @@ export function PostList({ refreshTrigger, section }: PostListProps) {
         ? 'Please log in to like posts'
         : 'Failed to update like. Please try again.'
       
-      setError(errorMessage)
-      setTimeout(() => setError(null), 3000)
+      setActionError(errorMessage)
+      setTimeout(() => setActionError(null), 3000)
     } finally {
       setLikingPosts(prev => {
         const newSet = new Set(prev)
@@ -359,7 +247,7 @@ export function PostList({ refreshTrigger, section }: PostListProps) {
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
         <p className="text-red-600 mb-4">{error}</p>
         <button
-          onClick={fetchPosts}
+          onClick={() => fetchPosts()}
           className="px-4 py-2 bg-gray-900 hover:bg-gray-800 text-white rounded-lg transition-colors"
         >
           Try Again
@@ -384,6 +272,12 @@ export function PostList({ refreshTrigger, section }: PostListProps) {
   return (
     <>
       <div className="space-y-6">
+        <NewPostsBanner count={newCount} onClick={showNewItems} />
+        {actionError && (
+          <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg px-4 py-2">
+            {actionError}
+          </div>
+        )}
         {posts.map((post) => (
           <article key={post.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow duration-200">
             {/* Post Header */}
@@ -581,6 +475,11 @@ export function PostList({ refreshTrigger, section }: PostListProps) {
             )}
           </article>
         ))}
+        <InfiniteScrollTrigger
+          onLoadMore={loadMore}
+          hasMore={hasMore}
+          loading={loadingMore}
+        />
       </div>
 
       {/* Fullscreen Image Modal */}
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { MoreHorizontal } from 'lucide-react'
+
+export interface PostMenuItem {
+  label: string
+  icon: React.ElementType
+  onClick: () => void
+  danger?: boolean
+}
+
+// The "…" menu in a post card's header. Renders nothing when the viewer has
+// no actions on the post.
+export function PostMenu({ items }: { items: PostMenuItem[] }) {
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [open])
+
+  if (items.length === 0) return null
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+      >
+        <MoreHorizontal className="w-5 h-5 text-gray-500" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-44 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+          {items.map(({ label, icon: Icon, onClick, danger }) => (
+            <button
+              key={label}
+              onClick={() => {
+                setOpen(false)
+                onClick()
+              }}
+              className={`w-full flex items-center space-x-2 px-3 py-2 text-sm ${
+                danger ? 'text-red-600 hover:bg-red-50' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react'
+import { History, X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { PostKind, PostRevision } from '../lib/supabase'
+import { db } from '../lib/data'
+
+interface PostVersion {
+  content: string
+  images?: string[] | null
+  files?: string[] | null
+}
+
+interface PostRevisionsModalProps {
+  kind: PostKind
+  postId: string
+  current: PostVersion
+  viewerId: string
+  // Editors are not named on anonymous posts
+  anonymous?: boolean
+  onClose: () => void
+}
+
+const sameList = (a?: string[] | null, b?: string[] | null) =>
+  JSON.stringify(a || []) === JSON.stringify(b || [])
+
+// What changed between a version and the one that replaced it
+function changesBetween(older: PostVersion, newer: PostVersion): string[] {
+  const changes: string[] = []
+  if (older.content !== newer.content) changes.push('Text')
+  if (!sameList(older.images, newer.images)) changes.push('Images')
+  if (!sameList(older.files, newer.files)) changes.push('Files')
+  return changes
+}
+
+// Every earlier version of a post, newest first, for its author and moderators
+export function PostRevisionsModal({ kind, postId, current, viewerId, anonymous = false, onClose }: PostRevisionsModalProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      setLoading(true)
+      const { data, error } = await db.posts.listRevisions(kind, postId, viewerId)
+      if (error) {
+        console.error('Error loading revisions:', error)
+        setError('Failed to load the edit history')
+      }
+      setRevisions(data || [])
+      setLoading(false)
+    }
+
+    loadRevisions()
+  }, [kind, postId, viewerId])
+
+  const renderVersion = (version: PostVersion) => (
+    <>
+      <p className="text-sm text-gray-900 whitespace-pre-wrap">{version.content}</p>
+      {version.images && version.images.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mt-2">
+          {version.images.map((url, index) => (
+            <img key={url} src={url} alt={`Image ${index + 1}`} className="w-full h-16 object-cover rounded" />
+          ))}
+        </div>
+      )}
+      {version.files && version.files.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {version.files.map(url => (
+            <li key={url} className="text-xs text-gray-600 truncate">📎 {url.split('/').pop()}</li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900 flex items-center space-x-2">
+            <History className="w-5 h-5 text-gray-500" />
+            <span>Edit history</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <section className="p-3 border border-purple-200 bg-purple-50 rounded-lg">
+            <p className="text-xs font-medium text-purple-700 mb-1">Current version</p>
+            {renderVersion(current)}
+          </section>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-500"></div>
+            </div>
+          ) : error ? (
+            <p className="text-center text-sm text-red-600 py-6">{error}</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">No earlier versions</p>
+          ) : (
+            revisions.map((revision, index) => {
+              const newer = index === 0 ? current : revisions[index - 1]
+              const editor = revision.profiles?.display_name || revision.profiles?.full_name || revision.profiles?.username
+              return (
+                <section key={revision.id} className="p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-xs text-gray-500">
+                      Replaced {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                      {!anonymous && editor && <> by {editor}</>}
+                    </p>
+                    <div className="flex space-x-1">
+                      {changesBetween(revision, newer).map(change => (
+                        <span key={change} className="px-1.5 py-0.5 bg-gray-100 text-gray-600 text-xs rounded">
+                          {change}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  {renderVersion(revision)}
+                </section>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react'
+import { ArrowLeft } from 'lucide-react'
+import { Profile, ReactionType } from '../lib/supabase'
+import { db, FeedPost, postKindForSection, sectionForPost } from '../lib/data'
+import { PostCard } from './PostCard'
+
+interface PostViewProps {
+  postId: string
+  currentUser: Profile
+  onBack: () => void
+}
+
+// A single post opened from its link, with the same like and comment actions
+// as in the feed.
+export function PostView({ postId, currentUser, onBack }: PostViewProps) {
+  const [post, setPost] = useState<FeedPost | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPost = async () => {
+    const { data, error } = await db.posts.getPost(postId, currentUser.id)
+    if (error) {
+      console.error('Error loading post:', error)
+      setError(error.code === 'not_found' ? 'This post does not exist or was removed.' : 'Failed to load post')
+      setPost(null)
+    } else {
+      setError(null)
+      setPost(data)
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    loadPost()
+  }, [postId])
+
+  const handleReact = async (_postId: string, reaction: ReactionType | null) => {
+    if (!post) return
+    try {
+      const kind = postKindForSection(sectionForPost(post))
+      const { error } = await db.reactions.setPostReaction(kind, post.id, currentUser.id, reaction)
+      if (error) throw error
+
+      loadPost()
+    } catch (error) {
+      console.error('Error updating reaction:', error)
+    }
+  }
+
+  const handleComment = async (_postId: string, content: string, parentId?: string | null) => {
+    if (!post) return
+    try {
+      const { error } = await db.comments.create(postKindForSection(sectionForPost(post)), {
+        user_id: currentUser.id,
+        post_id: post.id,
+        content,
+        parent_id: parentId,
+      })
+      if (error) throw error
+
+      loadPost()
+    } catch (error) {
+      console.error('Error adding comment:', error)
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-4">
+      <button
+        onClick={onBack}
+        className="mb-4 flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span className="font-medium">Back</span>
+      </button>
+
+      {loading ? (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 animate-pulse">
+          <div className="h-4 bg-gray-300 rounded mb-2"></div>
+          <div className="h-4 bg-gray-300 rounded w-3/4"></div>
+        </div>
+      ) : error || !post ? (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center text-gray-600">
+          {error || 'Post not found'}
+        </div>
+      ) : (
+        <PostCard
+          post={post as any}
+          currentUser={currentUser}
+          onReact={handleReact}
+          onComment={handleComment}
+          onChanged={() => loadPost()}
+          onDeleted={onBack}
+        />
+      )}
+    </div>
+  )
+}
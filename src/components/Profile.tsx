@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react'
-import { Camera, Edit3, MapPin, Globe, Calendar, Package, Grid, List } from 'lucide-react'
-import { Profile as ProfileType, updateProfile, getUserMarketplaceItems, MarketplaceItem } from '../lib/supabase'
+import { Camera, Edit3, MapPin, Globe, Calendar, Package, Grid, List, Ban, FileText } from 'lucide-react'
+import { Profile as ProfileType, MarketplaceItem } from '../lib/supabase'
+import { FollowCounts, db } from '../lib/data'
 import { formatDistanceToNow } from 'date-fns'
+import { BlockedUsersPanel } from './BlockedUsersPanel'
+import { DraftsPanel } from './DraftsPanel'
+import { LISTING_STATUS_LABELS, LISTING_STATUS_STYLES } from './marketplace/ListingStatusTimeline'
+import { FollowListKind, FollowListModal } from './FollowListModal'
 
 interface ProfileProps {
   user: any
@@ -14,23 +19,36 @@ export function Profile({ user, profile }: ProfileProps) {
   const [userItems, setUserItems] = useState<MarketplaceItem[]>([])
   const [loading, setLoading] = useState(false)
   const [itemsLoading, setItemsLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'listings' | 'activity'>('listings')
+  const [activeTab, setActiveTab] = useState<'listings' | 'activity' | 'drafts' | 'blocked'>('listings')
+
+  const [followCounts, setFollowCounts] = useState<FollowCounts>({ followers: 0, following: 0 })
+  const [followList, setFollowList] = useState<FollowListKind | null>(null)
 
   useEffect(() => {
     loadUserItems()
+    loadFollowCounts()
   }, [profile.id])
 
+  const loadFollowCounts = async () => {
+    const { data, error } = await db.follows.getCounts(profile.id)
+    if (error) console.error('Error fetching follow counts:', error)
+    if (data) setFollowCounts(data)
+  }
+
   const loadUserItems = async () => {
     setItemsLoading(true)
-    const items = await getUserMarketplaceItems(profile.id)
-    setUserItems(items)
+    const { data, error } = await db.marketplace.listBySeller(profile.id)
+    if (error) console.error('Error fetching user marketplace items:', error)
+    setUserItems(data || [])
     setItemsLoading(false)
   }
 
   const handleSave = async () => {
     setLoading(true)
-    const updated = await updateProfile(profile.id, editedProfile)
-    if (updated) {
+    const { error } = await db.profiles.update(profile.id, editedProfile)
+    if (error) {
+      console.error('Error updating profile:', error)
+    } else {
       setIsEditing(false)
       // Note: In a real app, you'd update the parent component's profile state
     }
@@ -155,6 +173,17 @@ export function Profile({ user, profile }: ProfileProps) {
                     <p className="text-gray-700 mb-4">{profile.bio}</p>
                   )}
 
+                  <div className="flex space-x-4 text-sm mb-4">
+                    <button onClick={() => setFollowList('followers')} className="hover:underline">
+                      <span className="font-semibold text-gray-900">{followCounts.followers}</span>
+                      <span className="text-gray-600"> follower{followCounts.followers !== 1 ? 's' : ''}</span>
+                    </button>
+                    <button onClick={() => setFollowList('following')} className="hover:underline">
+                      <span className="font-semibold text-gray-900">{followCounts.following}</span>
+                      <span className="text-gray-600"> following</span>
+                    </button>
+                  </div>
+
                   <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
                     {profile.location && (
                       <div className="flex items-center space-x-1">
@@ -213,6 +242,32 @@ export function Profile({ user, profile }: ProfileProps) {
               >
                 Activity
               </button>
+              <button
+                onClick={() => setActiveTab('drafts')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'drafts'
+                    ? 'border-purple-500 text-purple-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <FileText className="w-4 h-4" />
+                  <span>Drafts</span>
+                </div>
+              </button>
+              <button
+                onClick={() => setActiveTab('blocked')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'blocked'
+                    ? 'border-purple-500 text-purple-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <Ban className="w-4 h-4" />
+                  <span>Blocked & muted</span>
+                </div>
+              </button>
             </nav>
           </div>
 
@@ -255,11 +310,11 @@ export function Profile({ user, profile }: ProfileProps) {
                           </div>
                           <div className="absolute top-3 right-3">
                             <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                              item.is_sold 
-                                ? 'bg-red-100 text-red-800' 
-                                : 'bg-green-100 text-green-800'
+                              item.status === 'active'
+                                ? 'bg-green-100 text-green-800'
+                                : LISTING_STATUS_STYLES[item.status]
                             }`}>
-                              {item.is_sold ? 'Sold' : 'Available'}
+                              {item.status === 'active' ? 'Available' : LISTING_STATUS_LABELS[item.status]}
                             </span>
                           </div>
                         </div>
@@ -277,6 +332,10 @@ export function Profile({ user, profile }: ProfileProps) {
                   </div>
                 )}
               </div>
+            ) : activeTab === 'drafts' ? (
+              <DraftsPanel currentUserId={profile.id} />
+            ) : activeTab === 'blocked' ? (
+              <BlockedUsersPanel currentUserId={profile.id} />
             ) : (
               <div className="text-center py-12">
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -289,6 +348,10 @@ export function Profile({ user, profile }: ProfileProps) {
           </div>
         </div>
       </div>
+
+      {followList && (
+        <FollowListModal userId={profile.id} initialKind={followList} onClose={() => setFollowList(null)} />
+      )}
     </div>
   )
 }
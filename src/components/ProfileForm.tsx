@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface ProfileFormProps {
   userEmail: string
@@ -21,17 +22,10 @@ export function ProfileForm({ userEmail, onComplete }: ProfileFormProps) {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('username')
-        .eq('username', username)
-        .single()
-
-      if (error && error.code !== 'PGRST116') {
-        throw error
-      }
+      const { data: taken, error } = await db.profiles.isUsernameTaken(username)
+      if (error) throw error
 
-      if (data) {
+      if (taken) {
         setUsernameError('Username is already taken')
       } else {
         setUsernameError(null)
@@ -64,21 +58,19 @@ export function ProfileForm({ userEmail, onComplete }: ProfileFormProps) {
     setError(null)
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       
       if (!user) {
         throw new Error('No user found')
       }
 
-      const { error } = await supabase
-        .from('profiles')
-        .insert({
-          id: user.id,
-          email: userEmail,
-          display_name: displayName,
-          username: username,
-          full_name: fullName,
-        })
+      const { error } = await db.profiles.create({
+        id: user.id,
+        email: userEmail,
+        display_name: displayName,
+        username: username,
+        full_name: fullName,
+      })
 
       if (error) throw error
 
@@ -1,13 +1,21 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Profile } from '../lib/supabase'
-import { supabase, hasValidSupabaseConfig } from '../lib/supabase'
-import { Edit3, Mail, Calendar, User, MapPin, Globe } from 'lucide-react'
+import { FollowCounts, db } from '../lib/data'
+import { Edit3, Mail, Calendar, User, MapPin, Globe, UserPlus, UserCheck } from 'lucide-react'
+import { FollowListKind, FollowListModal } from './FollowListModal'
+import { BlockedUsersPanel } from './BlockedUsersPanel'
+import { ReputationSummary } from './marketplace/ReputationSummary'
+import { ReviewList } from './marketplace/ReviewList'
 
 interface ProfileViewProps {
   profile: Profile
+  // False when viewing someone else's profile
+  editable?: boolean
+  // Who is looking; shows the follow button on other people's profiles
+  viewerId?: string
 }
 
-export function ProfileView({ profile }: ProfileViewProps) {
+export function ProfileView({ profile, editable = true, viewerId }: ProfileViewProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editForm, setEditForm] = useState({
     display_name: profile.display_name || '',
@@ -17,27 +25,50 @@ export function ProfileView({ profile }: ProfileViewProps) {
     location: profile.location || '',
   })
   const [loading, setLoading] = useState(false)
+  const [counts, setCounts] = useState<FollowCounts>({ followers: 0, following: 0 })
+  const [following, setFollowing] = useState(false)
+  const [updatingFollow, setUpdatingFollow] = useState(false)
+  const [followList, setFollowList] = useState<FollowListKind | null>(null)
+  const canFollow = !editable && Boolean(viewerId) && viewerId !== profile.id
 
-  const handleSave = async () => {
-    if (!hasValidSupabaseConfig()) {
-      // For demo mode, just update local state
-      setIsEditing(false)
+  useEffect(() => {
+    const loadFollows = async () => {
+      const [countsResult, followingResult] = await Promise.all([
+        db.follows.getCounts(profile.id),
+        canFollow ? db.follows.isFollowing(viewerId!, profile.id) : Promise.resolve(null),
+      ])
+      if (countsResult.error) console.error('Error loading follow counts:', countsResult.error)
+      if (countsResult.data) setCounts(countsResult.data)
+      if (followingResult?.error) console.error('Error loading follow status:', followingResult.error)
+      setFollowing(Boolean(followingResult?.data))
+    }
+
+    loadFollows()
+  }, [profile.id, viewerId])
+
+  const toggleFollow = async () => {
+    if (!viewerId) return
+    setUpdatingFollow(true)
+    const { error } = await db.follows.setFollowing(viewerId, profile.id, !following)
+    setUpdatingFollow(false)
+    if (error) {
+      console.error('Error updating follow:', error)
       return
     }
+    setCounts(prev => ({ ...prev, followers: prev.followers + (following ? -1 : 1) }))
+    setFollowing(!following)
+  }
 
+  const handleSave = async () => {
     setLoading(true)
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          display_name: editForm.display_name,
-          full_name: editForm.full_name,
-          bio: editForm.bio,
-          website: editForm.website,
-          location: editForm.location,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', profile.id)
+      const { error } = await db.profiles.update(profile.id, {
+        display_name: editForm.display_name,
+        full_name: editForm.full_name,
+        bio: editForm.bio,
+        website: editForm.website,
+        location: editForm.location,
+      })
 
       if (error) throw error
 
@@ -85,16 +116,33 @@ export function ProfileView({ profile }: ProfileViewProps) {
               </div>
             </div>
 
-            <button
-              onClick={() => setIsEditing(!isEditing)}
-              className="mt-4 flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-            >
-              <Edit3 className="w-4 h-4" />
-              <span>{isEditing ? 'Cancel' : 'Edit Profile'}</span>
-            </button>
+            {editable && (
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                className="mt-4 flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Edit3 className="w-4 h-4" />
+                <span>{isEditing ? 'Cancel' : 'Edit Profile'}</span>
+              </button>
+            )}
+
+            {canFollow && (
+              <button
+                onClick={toggleFollow}
+                disabled={updatingFollow}
+                className={`mt-4 flex items-center space-x-2 px-4 py-2 rounded-lg disabled:opacity-50 transition-colors ${
+                  following
+                    ? 'border border-gray-300 hover:bg-gray-50'
+                    : 'bg-purple-600 text-white hover:bg-purple-700'
+                }`}
+              >
+                {following ? <UserCheck className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+                <span>{following ? 'Following' : 'Follow'}</span>
+              </button>
+            )}
           </div>
 
-          {isEditing ? (
+          {editable && isEditing ? (
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -183,6 +231,19 @@ export function ProfileView({ profile }: ProfileViewProps) {
                 <p className="text-gray-700">{profile.bio}</p>
               )}
 
+              <ReputationSummary userId={profile.id} />
+
+              <div className="flex space-x-4 text-sm">
+                <button onClick={() => setFollowList('followers')} className="hover:underline">
+                  <span className="font-semibold text-gray-900">{counts.followers}</span>
+                  <span className="text-gray-600"> follower{counts.followers !== 1 ? 's' : ''}</span>
+                </button>
+                <button onClick={() => setFollowList('following')} className="hover:underline">
+                  <span className="font-semibold text-gray-900">{counts.following}</span>
+                  <span className="text-gray-600"> following</span>
+                </button>
+              </div>
+
               <div className="flex flex-wrap gap-4 text-sm text-gray-600">
                 <div className="flex items-center space-x-2">
                   <Mail className="w-4 h-4" />
@@ -222,6 +283,14 @@ export function ProfileView({ profile }: ProfileViewProps) {
         </div>
       </div>
 
+      {/* Marketplace Reviews */}
+      <div className="mt-8">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Marketplace Reviews</h2>
+          <ReviewList userId={profile.id} />
+        </div>
+      </div>
+
       {/* Activity Section */}
       <div className="mt-8">
         <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
@@ -233,6 +302,19 @@ export function ProfileView({ profile }: ProfileViewProps) {
           </div>
         </div>
       </div>
+
+      {followList && (
+        <FollowListModal userId={profile.id} initialKind={followList} onClose={() => setFollowList(null)} />
+      )}
+
+      {editable && (
+        <div className="mt-8">
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Blocked & muted</h2>
+            <BlockedUsersPanel currentUserId={profile.id} />
+          </div>
+        </div>
+      )}
     </div>
   )
 }
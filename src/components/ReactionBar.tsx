@@ -0,0 +1,117 @@
+import React, { useRef, useState } from 'react'
+import { Heart, SmilePlus } from 'lucide-react'
+import { Like, ReactionCounts, ReactionType } from '../lib/supabase'
+import { REACTIONS, myReaction, reactionOption, topReactions } from '../lib/reactions'
+import { ReactionTarget, ReactorsModal } from './ReactorsModal'
+
+interface ReactionBarProps {
+  target: ReactionTarget
+  // Only the current user's entry is needed, to show their reaction
+  likes?: Like[]
+  counts?: ReactionCounts
+  total: number
+  currentUserId: string
+  onReact: (reaction: ReactionType | null) => void
+  disabled?: boolean
+  size?: 'sm' | 'md'
+}
+
+// The react button with its palette, and a summary of the reactions so far
+// that opens the "who reacted" list. Clicking the button toggles a plain like;
+// picking the reaction you already have removes it.
+export function ReactionBar({
+  target,
+  likes,
+  counts = {},
+  total,
+  currentUserId,
+  onReact,
+  disabled = false,
+  size = 'md'
+}: ReactionBarProps) {
+  const [showPalette, setShowPalette] = useState(false)
+  const [showReactors, setShowReactors] = useState(false)
+  const closeTimer = useRef<ReturnType<typeof setTimeout>>()
+
+  const mine = myReaction(likes, currentUserId)
+  const small = size === 'sm'
+
+  const openPalette = () => {
+    clearTimeout(closeTimer.current)
+    setShowPalette(true)
+  }
+
+  // A short delay lets the pointer travel from the button to the palette
+  const closePalette = () => {
+    clearTimeout(closeTimer.current)
+    closeTimer.current = setTimeout(() => setShowPalette(false), 300)
+  }
+
+  const choose = (reaction: ReactionType) => {
+    setShowPalette(false)
+    onReact(reaction === mine ? null : reaction)
+  }
+
+  return (
+    <div className={`relative flex items-center ${small ? 'space-x-1' : 'space-x-2'}`}>
+      <div className="relative flex items-center" onMouseEnter={openPalette} onMouseLeave={closePalette}>
+        {showPalette && !disabled && (
+          <div className="absolute bottom-full left-0 mb-2 flex items-center space-x-1 bg-white border border-gray-200 shadow-lg rounded-full px-2 py-1 z-20">
+            {REACTIONS.map(option => (
+              <button
+                key={option.type}
+                onClick={() => choose(option.type)}
+                title={option.label}
+                className={`${small ? 'text-lg' : 'text-2xl'} rounded-full px-0.5 transition-transform hover:scale-125 ${
+                  mine === option.type ? 'bg-purple-100' : ''
+                }`}
+              >
+                {option.emoji}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={() => onReact(mine ? null : 'like')}
+          disabled={disabled}
+          title={mine ? `Remove ${reactionOption(mine).label}` : 'Like'}
+          className={`flex items-center space-x-1 transition-colors ${
+            mine ? 'text-red-500 hover:text-red-600' : 'text-gray-500 hover:text-red-500'
+          } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          {mine ? (
+            <span className={small ? 'text-sm leading-none' : 'text-lg leading-none'}>{reactionOption(mine).emoji}</span>
+          ) : (
+            <Heart className={small ? 'w-3 h-3' : 'w-5 h-5'} />
+          )}
+          {!small && mine && <span className="text-sm font-medium">{reactionOption(mine).label}</span>}
+        </button>
+
+        <button
+          onClick={() => (showPalette ? setShowPalette(false) : openPalette())}
+          disabled={disabled}
+          title="Choose a reaction"
+          className="ml-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <SmilePlus className={small ? 'w-3 h-3' : 'w-4 h-4'} />
+        </button>
+      </div>
+
+      {total > 0 && (
+        <button
+          onClick={() => setShowReactors(true)}
+          className={`flex items-center space-x-1 text-gray-500 hover:underline ${small ? 'text-xs' : 'text-sm font-medium'}`}
+          title="See who reacted"
+        >
+          <span className="leading-none">
+            {topReactions(counts).map(type => reactionOption(type).emoji).join('')}
+          </span>
+          <span>{total}</span>
+        </button>
+      )}
+
+      {showReactors && <ReactorsModal target={target} onClose={() => setShowReactors(false)} />}
+    </div>
+  )
+}
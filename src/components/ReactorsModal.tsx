@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import { PostKind, ReactionType } from '../lib/supabase'
+import { db } from '../lib/data'
+import type { Reactor } from '../lib/data/reactions'
+import { REACTIONS, countReactions, reactionOf, reactionOption } from '../lib/reactions'
+
+export type ReactionTarget =
+  | { kind: PostKind; postId: string }
+  | { commentId: string }
+
+interface ReactorsModalProps {
+  target: ReactionTarget
+  onClose: () => void
+}
+
+// "Who reacted": everyone's reaction to a post or comment, filterable by type
+export function ReactorsModal({ target, onClose }: ReactorsModalProps) {
+  const [reactors, setReactors] = useState<Reactor[]>([])
+  const [filter, setFilter] = useState<ReactionType | 'all'>('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReactors = async () => {
+      setLoading(true)
+      const { data, error } = 'commentId' in target
+        ? await db.reactions.listCommentReactors(target.commentId)
+        : await db.reactions.listPostReactors(target.kind, target.postId)
+
+      if (error) {
+        console.error('Error loading reactions:', error)
+        setError('Failed to load reactions')
+      } else {
+        setReactors(data || [])
+      }
+      setLoading(false)
+    }
+
+    loadReactors()
+  }, ['commentId' in target ? target.commentId : target.postId])
+
+  const counts = countReactions(reactors)
+  const shown = filter === 'all' ? reactors : reactors.filter(reactor => reactionOf(reactor) === filter)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-md max-h-[70vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Reactions</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex space-x-1 px-4 pt-3 border-b border-gray-100 overflow-x-auto">
+          <button
+            onClick={() => setFilter('all')}
+            className={`px-3 py-2 text-sm font-medium border-b-2 transition-colors ${
+              filter === 'all' ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            All {reactors.length}
+          </button>
+          {REACTIONS.filter(option => counts[option.type]).map(option => (
+            <button
+              key={option.type}
+              onClick={() => setFilter(option.type)}
+              title={option.label}
+              className={`px-3 py-2 text-sm font-medium border-b-2 transition-colors ${
+                filter === option.type ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {option.emoji} {counts[option.type]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-500"></div>
+            </div>
+          ) : error ? (
+            <p className="text-center text-sm text-red-600 py-8">{error}</p>
+          ) : shown.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">No reactions yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {shown.map(reactor => {
+                const name = reactor.profiles?.display_name || reactor.profiles?.full_name || reactor.profiles?.username || 'Unknown User'
+                return (
+                  <li key={reactor.id} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                        {reactor.profiles?.avatar_url ? (
+                          <img src={reactor.profiles.avatar_url} alt={name} className="w-full h-full rounded-full object-cover" />
+                        ) : (
+                          <span className="text-white font-semibold text-xs">{name.charAt(0).toUpperCase()}</span>
+                        )}
+                      </div>
+                      <span className="text-sm font-medium text-gray-900">{name}</span>
+                    </div>
+                    <span className="text-xl" title={reactionOption(reactionOf(reactor)).label}>
+                      {reactionOption(reactionOf(reactor)).emoji}
+                    </span>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react'
+import { X, Flag, CheckCircle } from 'lucide-react'
+import { Profile, ReportReason } from '../lib/supabase'
+import { db, ReportTarget } from '../lib/data'
+import { REPORT_REASONS, REPORT_TARGET_LABELS } from '../lib/moderation'
+
+interface ReportDialogProps {
+  target: ReportTarget
+  currentUser: Profile
+  onClose: () => void
+}
+
+// Flags a post, comment, listing, message or profile for the moderators
+export function ReportDialog({ target, currentUser, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null)
+  const [details, setDetails] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const label = REPORT_TARGET_LABELS[target.type]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason || submitting) return
+
+    setSubmitting(true)
+    setError(null)
+    const { error } = await db.moderation.report({
+      reporter_id: currentUser.id,
+      target,
+      reason,
+      details: details.trim() || null,
+    })
+    setSubmitting(false)
+
+    if (error) {
+      console.error('Error submitting report:', error)
+      setError(error.code === 'conflict' ? `You have already reported this ${label}.` : error.message || 'Failed to send the report')
+      return
+    }
+    setSubmitted(true)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-md max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <Flag className="w-5 h-5 text-red-500" />
+            <span>Report {label}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {submitted ? (
+          <div className="p-6 text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
+            <p className="font-medium text-gray-900 mb-1">Thanks for letting us know</p>
+            <p className="text-sm text-gray-600 mb-6">The moderators will review this {label}. Reports are never shown to the person you reported.</p>
+            <button
+              onClick={onClose}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-4 space-y-4">
+            <div className="space-y-2">
+              {REPORT_REASONS.map(option => (
+                <label
+                  key={option.reason}
+                  className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                    reason === option.reason ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={option.reason}
+                    checked={reason === option.reason}
+                    onChange={() => setReason(option.reason)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything the moderators should know (optional)"
+              maxLength={1000}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
+            />
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!reason || submitting || (reason === 'other' && !details.trim())}
+                className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Sending...' : 'Send report'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
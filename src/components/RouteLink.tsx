@@ -0,0 +1,23 @@
+import React from 'react'
+import { navigate } from '../lib/router'
+
+interface RouteLinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string
+}
+
+// A real link, so it can be copied or opened in a new tab, that navigates
+// in-app on a plain click.
+export function RouteLink({ to, onClick, children, ...props }: RouteLinkProps) {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e)
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return
+    e.preventDefault()
+    navigate(to)
+  }
+
+  return (
+    <a href={to} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  )
+}
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { Search, X, User, Users, FileText, Package } from 'lucide-react'
+import { Profile } from '../lib/supabase'
+import { db, SearchGroup, SearchResult, SearchResults } from '../lib/data'
+import { RESULTS_PER_GROUP, isSearchable, splitHighlights } from '../lib/search'
+import { paths } from '../lib/router'
+import { RouteLink } from './RouteLink'
+
+interface SearchBoxProps {
+  currentUser: Profile
+  // Called after a result is opened, e.g. to close the mobile menu
+  onNavigate?: () => void
+  className?: string
+}
+
+const SEARCH_DELAY_MS = 250
+
+const GROUPS: { group: SearchGroup; label: string; icon: React.ElementType }[] = [
+  { group: 'people', label: 'People', icon: User },
+  { group: 'communities', label: 'Communities', icon: Users },
+  { group: 'posts', label: 'Posts', icon: FileText },
+  { group: 'listings', label: 'SijangKu', icon: Package },
+]
+
+function pathFor(result: SearchResult): string {
+  switch (result.kind) {
+    case 'profile': return paths.profile(result.id)
+    case 'community': return paths.community(result.id)
+    case 'listing': return paths.market(result.id)
+    default: return paths.post(result.id)
+  }
+}
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+// The global search field with its dropdown of grouped results
+export function SearchBox({ currentUser, onNavigate, className = '' }: SearchBoxProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResults | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Only the latest request may update the results
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    if (!isSearchable(query)) {
+      requestRef.current++
+      setResults(null)
+      setIsSearching(false)
+      setError(null)
+      return
+    }
+
+    const request = ++requestRef.current
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      const { data, error } = await db.search.search(query.trim(), currentUser.id, { limit: RESULTS_PER_GROUP })
+      if (request !== requestRef.current) return
+
+      if (error) {
+        console.error('Error searching:', error)
+        setError('Search failed. Please try again.')
+        setResults(null)
+      } else {
+        setError(null)
+        setResults(data)
+      }
+      setIsSearching(false)
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [query, currentUser.id])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [isOpen])
+
+  const handleOpenResult = () => {
+    setIsOpen(false)
+    setQuery('')
+    onNavigate?.()
+  }
+
+  const hasResults = results && GROUPS.some(({ group }) => results[group].length > 0)
+  const showDropdown = isOpen && isSearchable(query)
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setIsOpen(true)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsOpen(false)
+          }}
+          placeholder="Search TepiTingkap"
+          className="w-full pl-9 pr-8 py-2 bg-gray-100 border border-transparent rounded-lg text-sm focus:bg-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 mt-2 bg-white border border-gray-200 rounded-xl shadow-xl max-h-[70vh] overflow-y-auto z-50">
+          {error ? (
+            <p className="p-4 text-sm text-red-600">{error}</p>
+          ) : !results || (isSearching && !hasResults) ? (
+            <div className="flex items-center justify-center p-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-500"></div>
+            </div>
+          ) : !hasResults ? (
+            <p className="p-4 text-sm text-gray-500">No results for “{query.trim()}”</p>
+          ) : (
+            GROUPS.filter(({ group }) => results[group].length > 0).map(({ group, label, icon: Icon }) => (
+              <div key={group} className="py-2 border-b border-gray-100 last:border-b-0">
+                <h3 className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">{label}</h3>
+                {results[group].map(result => (
+                  <RouteLink
+                    key={`${result.kind}-${result.id}`}
+                    to={pathFor(result)}
+                    onClick={handleOpenResult}
+                    className="flex items-start space-x-3 px-4 py-2 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="w-8 h-8 rounded-lg bg-gray-100 flex items-center justify-center flex-shrink-0 overflow-hidden">
+                      {result.image_url ? (
+                        <img src={result.image_url} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <Icon className="w-4 h-4 text-gray-500" />
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        <Highlighted text={result.title} />
+                      </p>
+                      {result.snippet && (
+                        <p className="text-xs text-gray-600 line-clamp-2">
+                          <Highlighted text={result.snippet} />
+                        </p>
+                      )}
+                    </div>
+                  </RouteLink>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { ChevronDown, Globe, UserX, Users } from 'lucide-react'
-import { supabase, Community } from '../lib/supabase'
+import { ChevronDown, Globe, UserCheck, UserX, Users } from 'lucide-react'
+import { getCurrentUser, Community } from '../lib/supabase'
+import { db } from '../lib/data'
 
 interface SectionDropdownProps {
   currentSection: 'public' | 'anonymous' | string
@@ -39,48 +40,27 @@ export function SectionDropdown({ currentSection, onSectionChange, refreshTrigge
     try {
       setLoading(true)
       
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       
-      if (userError || !user) {
-        console.error('User not authenticated:', userError)
+      if (!user) {
+        console.error('User not authenticated')
         setJoinedCommunities([])
         return
       }
 
-      const { data: createdCommunities, error: createdError } = await supabase
-        .from('communities')
-        .select('*')
-        .eq('created_by', user.id)
-        .order('name', { ascending: true })
+      const { data: createdCommunities, error: createdError } = await db.communities.listCreatedBy(user.id)
 
       if (createdError) {
         console.error('Error fetching created communities:', createdError)
       }
 
-      const { data: memberships, error: membershipError } = await supabase
-        .from('community_memberships')
-        .select(`
-          communities (
-            id,
-            name,
-            description,
-            created_by,
-            created_at,
-            updated_at
-          )
-        `)
-        .eq('user_id', user.id)
-        .order('communities(name)', { ascending: true })
+      const { data: memberCommunities, error: membershipError } = await db.communities.listForMember(user.id)
 
       if (membershipError) {
         console.error('Error fetching community memberships:', membershipError)
       }
 
-      const memberCommunities = memberships
-        ?.map((membership: any) => membership.communities)
-        .filter(Boolean) || []
-
-      const allCommunities = [...(createdCommunities || []), ...memberCommunities]
+      const allCommunities = [...(createdCommunities || []), ...(memberCommunities || [])]
       
       const uniqueCommunities = allCommunities.filter((community, index, self) => 
         index === self.findIndex(c => c.id === community.id)
@@ -104,6 +84,12 @@ export function SectionDropdown({ currentSection, onSectionChange, refreshTrigge
       description: 'Posts with your name visible',
       icon: Globe,
     },
+    {
+      id: 'following' as const,
+      name: 'Following',
+      description: 'People you follow and your communities',
+      icon: UserCheck,
+    },
     {
       id: 'anonymous' as const,
       name: 'Anonymous',
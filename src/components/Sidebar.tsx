@@ -1,5 +1,5 @@
 import React from 'react'
-import { Home, Users, ShoppingBag, User, MessageCircle, Sparkles, LogOut } from 'lucide-react'
+import { Home, Users, ShoppingBag, User, MessageCircle, Sparkles, LogOut, ShieldAlert } from 'lucide-react'
 import { signOut, Profile } from '../lib/supabase'
 
 interface SidebarProps {
@@ -15,6 +15,7 @@ export function Sidebar({ activeTab, setActiveTab, onMessagesClick, profile }: S
     { id: 'communities', label: 'Communities', icon: Users },
     { id: 'marketplace', label: 'SijangKu', icon: ShoppingBag },
     { id: 'profile', label: 'Profile', icon: User },
+    ...(profile.is_site_admin ? [{ id: 'moderation', label: 'Moderation', icon: ShieldAlert }] : []),
   ]
 
   const handleSignOut = async () => {
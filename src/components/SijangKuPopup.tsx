@@ -1,24 +1,38 @@
 import React, { useState } from 'react'
-import { X, ShoppingBag, Plus, Package } from 'lucide-react'
-import { Profile } from '../lib/supabase'
+import { X, ShoppingBag, Plus, Package, Heart, BellRing } from 'lucide-react'
+import { Profile, SavedSearch, SavedSearchFilters } from '../lib/supabase'
 import { BrowseItems } from './marketplace/BrowseItems'
 import { SellItems } from './marketplace/SellItems'
 import { MyItems } from './marketplace/MyItems'
+import { SavedItems } from './marketplace/SavedItems'
+import { SavedSearches } from './marketplace/SavedSearches'
 
 interface SijangKuPopupProps {
   onClose: () => void
   currentUser: Profile
+  // The listing opened from the URL, if any
+  itemId?: string | null
+  onSelectItem?: (itemId: string | null) => void
 }
 
-export function SijangKuPopup({ onClose, currentUser }: SijangKuPopupProps) {
-  const [activeTab, setActiveTab] = useState<'browse' | 'sell' | 'my-items'>('browse')
+export function SijangKuPopup({ onClose, currentUser, itemId, onSelectItem }: SijangKuPopupProps) {
+  const [activeTab, setActiveTab] = useState<'browse' | 'sell' | 'my-items' | 'saved' | 'searches'>('browse')
+  // Set when a saved search is run; the browse view starts over from it
+  const [browseFilters, setBrowseFilters] = useState<{ filters?: SavedSearchFilters; key: number }>({ key: 0 })
 
   const tabs = [
     { id: 'browse', label: 'Browse', icon: ShoppingBag },
     { id: 'sell', label: 'Sell', icon: Plus },
-    { id: 'my-items', label: 'My Items', icon: Package }
+    { id: 'my-items', label: 'My Items', icon: Package },
+    { id: 'saved', label: 'Saved', icon: Heart },
+    { id: 'searches', label: 'Saved Searches', icon: BellRing }
   ] as const
 
+  const handleRunSearch = (search: SavedSearch) => {
+    setBrowseFilters(prev => ({ filters: search, key: prev.key + 1 }))
+    setActiveTab('browse')
+  }
+
   return (
     <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg w-full max-w-6xl h-[90vh] flex flex-col">
@@ -61,7 +75,13 @@ export function SijangKuPopup({ onClose, currentUser }: SijangKuPopupProps) {
         <div className="flex-1 overflow-hidden">
           {activeTab === 'browse' && (
             <div className="h-full overflow-y-auto">
-              <BrowseItems currentUser={currentUser} />
+              <BrowseItems
+                key={browseFilters.key}
+                currentUser={currentUser}
+                itemId={itemId}
+                onSelectItem={onSelectItem}
+                initialFilters={browseFilters.filters}
+              />
             </div>
           )}
           
@@ -76,6 +96,18 @@ export function SijangKuPopup({ onClose, currentUser }: SijangKuPopupProps) {
               <MyItems currentUser={currentUser} />
             </div>
           )}
+
+          {activeTab === 'saved' && (
+            <div className="h-full overflow-y-auto">
+              <SavedItems currentUser={currentUser} />
+            </div>
+          )}
+
+          {activeTab === 'searches' && (
+            <div className="h-full overflow-y-auto">
+              <SavedSearches currentUser={currentUser} onRun={handleRunSearch} />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,8 @@
 import React, { useState } from 'react'
-import { Menu, X, Home, PlusSquare, Users, MessageCircle, User, Package, LogOut, Globe, UserX } from 'lucide-react'
+import { Menu, X, Home, PlusSquare, Users, MessageCircle, User, Package, LogOut, Globe, UserX, UserCheck } from 'lucide-react'
 import { Profile } from '../lib/supabase'
+import { SearchBox } from './SearchBox'
+import { NotificationBell } from './NotificationBell'
 
 interface TopNavigationProps {
   profile: Profile
@@ -52,12 +54,15 @@ export function TopNavigation({
             TepiTingkap
           </h1>
           
-          <button
-            onClick={() => setShowMobileMenu(!showMobileMenu)}
-            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-          >
-            {showMobileMenu ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
-          </button>
+          <div className="flex items-center space-x-1">
+            <NotificationBell currentUser={profile} onNavigate={() => setShowMobileMenu(false)} />
+            <button
+              onClick={() => setShowMobileMenu(!showMobileMenu)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              {showMobileMenu ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+            </button>
+          </div>
         </div>
 
         {/* Section Tabs - Mobile */}
@@ -73,6 +78,17 @@ export function TopNavigation({
             <Globe className="w-4 h-4" />
             <span className="text-sm font-medium">Public</span>
           </button>
+          <button
+            onClick={() => onSectionChange('following')}
+            className={`flex-1 flex items-center justify-center space-x-2 py-3 px-4 transition-colors ${
+              currentSection === 'following'
+                ? 'bg-purple-100 text-purple-700 border-b-2 border-purple-500'
+                : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <UserCheck className="w-4 h-4" />
+            <span className="text-sm font-medium">Following</span>
+          </button>
           <button
             onClick={() => onSectionChange('anonymous')}
             className={`flex-1 flex items-center justify-center space-x-2 py-3 px-4 transition-colors ${
@@ -90,6 +106,12 @@ export function TopNavigation({
         {showMobileMenu && (
           <div className="bg-white border-t border-gray-200">
             <div className="px-4 py-2 space-y-1">
+              <SearchBox
+                currentUser={profile}
+                onNavigate={() => setShowMobileMenu(false)}
+                className="py-2"
+              />
+
               <button
                 onClick={() => {
                   onViewChange('home')
@@ -212,6 +234,8 @@ export function TopNavigation({
             <h1 className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
               TepiTingkap
             </h1>
+
+            <SearchBox currentUser={profile} className="flex-1 max-w-md mx-8" />
             
             <div className="flex items-center space-x-6">
               <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1">
@@ -226,6 +250,17 @@ export function TopNavigation({
                   <Globe className="w-4 h-4" />
                   <span className="font-medium">Public</span>
                 </button>
+                <button
+                  onClick={() => onSectionChange('following')}
+                  className={`flex items-center space-x-2 px-4 py-2 rounded-md transition-colors ${
+                    currentSection === 'following'
+                      ? 'bg-white text-purple-700 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <UserCheck className="w-4 h-4" />
+                  <span className="font-medium">Following</span>
+                </button>
                 <button
                   onClick={() => onSectionChange('anonymous')}
                   className={`flex items-center space-x-2 px-4 py-2 rounded-md transition-colors ${
@@ -239,6 +274,8 @@ export function TopNavigation({
                 </button>
               </div>
 
+              <NotificationBell currentUser={profile} />
+
               <div className="flex items-center space-x-3">
                 <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center text-white font-semibold text-sm">
                   {getInitials()}
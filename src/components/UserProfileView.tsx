@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react'
+import { Ban, Flag, Volume2, VolumeX } from 'lucide-react'
+import { Profile } from '../lib/supabase'
+import { BlockStatus, db } from '../lib/data'
+import { ProfileView } from './ProfileView'
+import { ReportDialog } from './ReportDialog'
+
+interface UserProfileViewProps {
+  // Username from the URL; the profile id also works for users without one
+  username: string
+  currentUser: Profile
+}
+
+export function UserProfileView({ username, currentUser }: UserProfileViewProps) {
+  const isOwn = username === currentUser.username || username === currentUser.id
+  const [profile, setProfile] = useState<Profile | null>(isOwn ? currentUser : null)
+  const [loading, setLoading] = useState(!isOwn)
+  const [error, setError] = useState<string | null>(null)
+  const [reporting, setReporting] = useState(false)
+  const [status, setStatus] = useState<BlockStatus>({ blocked: false, muted: false })
+  const [updatingStatus, setUpdatingStatus] = useState(false)
+
+  useEffect(() => {
+    if (isOwn) {
+      setProfile(currentUser)
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+    const loadProfile = async () => {
+      setLoading(true)
+      setError(null)
+
+      let result = await db.profiles.getByUsername(username)
+      if (result.error?.code === 'not_found') {
+        // Links may carry the id instead; one that isn't a uuid comes back
+        // 'invalid', which still means there is no such user
+        const byId = await db.profiles.get(username)
+        if (byId.error?.code !== 'invalid') result = byId
+      }
+      if (cancelled) return
+
+      if (result.error) {
+        console.error('Error loading profile:', result.error)
+        setError(result.error.code === 'not_found' ? 'This user does not exist.' : 'Failed to load profile')
+        setProfile(null)
+      } else {
+        setProfile(result.data)
+        const statusResult = await db.blocks.getStatus(currentUser.id, result.data.id)
+        if (cancelled) return
+        if (statusResult.error) console.error('Error loading block status:', statusResult.error)
+        setStatus(statusResult.data || { blocked: false, muted: false })
+      }
+      setLoading(false)
+    }
+
+    loadProfile()
+    return () => {
+      cancelled = true
+    }
+  }, [username, isOwn, currentUser])
+
+  const toggleMuted = async () => {
+    if (!profile) return
+    setUpdatingStatus(true)
+    const { error } = await db.blocks.setMuted(currentUser.id, profile.id, !status.muted)
+    setUpdatingStatus(false)
+    if (error) {
+      console.error('Error updating mute:', error)
+      return
+    }
+    setStatus(prev => ({ ...prev, muted: !prev.muted }))
+  }
+
+  const toggleBlocked = async () => {
+    if (!profile) return
+    if (!status.blocked && !window.confirm(
+      `Block ${profile.display_name || profile.full_name || 'this user'}? You won't see each other's posts or comments, and neither of you can message the other.`
+    )) return
+    setUpdatingStatus(true)
+    const { error } = await db.blocks.setBlocked(currentUser.id, profile.id, !status.blocked)
+    setUpdatingStatus(false)
+    if (error) {
+      console.error('Error updating block:', error)
+      return
+    }
+    setStatus(prev => ({ ...prev, blocked: !prev.blocked }))
+  }
+
+  if (loading) {
+    return (
+      <div className="p-8 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="max-w-4xl mx-auto p-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center text-gray-600">
+          {error || 'Profile not found'}
+        </div>
+      </div>
+    )
+  }
+
+  if (isOwn) return <ProfileView key={profile.id} profile={profile} editable />
+
+  return (
+    <div>
+      <ProfileView key={profile.id} profile={profile} editable={false} viewerId={currentUser.id} />
+      <div className="max-w-4xl mx-auto px-4 pb-4 flex justify-end space-x-4">
+        <button
+          onClick={toggleMuted}
+          disabled={updatingStatus}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-800 disabled:opacity-50 transition-colors"
+        >
+          {status.muted ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+          <span>{status.muted ? 'Unmute' : 'Mute'}</span>
+        </button>
+        <button
+          onClick={toggleBlocked}
+          disabled={updatingStatus}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600 disabled:opacity-50 transition-colors"
+        >
+          <Ban className="w-4 h-4" />
+          <span>{status.blocked ? 'Unblock' : 'Block'}</span>
+        </button>
+        <button
+          onClick={() => setReporting(true)}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600 transition-colors"
+        >
+          <Flag className="w-4 h-4" />
+          <span>Report profile</span>
+        </button>
+      </div>
+      {reporting && (
+        <ReportDialog
+          target={{ type: 'profile', id: profile.id }}
+          currentUser={currentUser}
+          onClose={() => setReporting(false)}
+        />
+      )}
+    </div>
+  )
+}
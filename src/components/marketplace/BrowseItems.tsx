@@ -1,191 +1,85 @@
 import React, { useState, useEffect } from 'react'
-import { Search, Filter, Grid, List, Eye, MessageCircle, Package, MapPin, Clock } from 'lucide-react'
-import { supabase, MarketplaceItem, Profile, hasValidSupabaseConfig } from '../../lib/supabase'
+import { Search, Filter, Grid, List, Eye, MessageCircle, Package, MapPin, Clock, BookmarkPlus, Heart } from 'lucide-react'
+import { MarketplaceItem, Profile, SavedSearchFilters } from '../../lib/supabase'
+import { EMPTY_SEARCH_FILTERS, db, describeSavedSearch, matchesSavedSearch } from '../../lib/data'
 import { ItemDetailModal } from './ItemDetailModal'
 import { ChatModal } from './ChatModal'
 import { formatDistanceToNow } from 'date-fns'
 
 interface BrowseItemsProps {
   currentUser: Profile
+  // When given, the open item is controlled by the caller (e.g. from the URL)
+  itemId?: string | null
+  onSelectItem?: (itemId: string | null) => void
+  // Filters to start from, e.g. when running a saved search
+  initialFilters?: SavedSearchFilters
 }
 
-export function BrowseItems({ currentUser }: BrowseItemsProps) {
+export function BrowseItems({ currentUser, itemId, onSelectItem, initialFilters = EMPTY_SEARCH_FILTERS }: BrowseItemsProps) {
   const [items, setItems] = useState<MarketplaceItem[]>([])
   const [filteredItems, setFilteredItems] = useState<MarketplaceItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [searchTerm, setSearchTerm] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState('')
-  const [selectedCondition, setSelectedCondition] = useState('')
+  const [searchTerm, setSearchTerm] = useState(initialFilters.keywords)
+  const [selectedCategory, setSelectedCategory] = useState(initialFilters.category || '')
+  const [selectedCondition, setSelectedCondition] = useState(initialFilters.condition || '')
+  const [minPrice, setMinPrice] = useState(initialFilters.min_price?.toString() || '')
+  const [maxPrice, setMaxPrice] = useState(initialFilters.max_price?.toString() || '')
+  const [location, setLocation] = useState(initialFilters.location || '')
+  const [savingSearch, setSavingSearch] = useState(false)
+  const [searchName, setSearchName] = useState('')
+  const [saveSearchError, setSaveSearchError] = useState<string | null>(null)
+  const [searchSaved, setSearchSaved] = useState(false)
   const [selectedItem, setSelectedItem] = useState<MarketplaceItem | null>(null)
   const [showChat, setShowChat] = useState(false)
   const [chatItem, setChatItem] = useState<MarketplaceItem | null>(null)
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set())
 
   const categories = ['Electronics', 'Clothing', 'Books', 'Furniture', 'Sports', 'Other']
   const conditions = ['New', 'Like New', 'Good', 'Fair', 'Poor']
 
   useEffect(() => {
     loadItems()
+    loadSavedIds()
   }, [])
 
   useEffect(() => {
     filterItems()
-  }, [items, searchTerm, selectedCategory, selectedCondition])
+  }, [items, searchTerm, selectedCategory, selectedCondition, minPrice, maxPrice, location])
+
+  // A linked item may be sold or not loaded yet, so fall back to fetching it
+  useEffect(() => {
+    if (itemId === undefined) return
+    if (!itemId) {
+      setSelectedItem(null)
+      return
+    }
+
+    const listed = items.find(item => item.id === itemId)
+    if (listed) {
+      setSelectedItem(listed)
+      return
+    }
+    if (loading) return
+
+    let cancelled = false
+    db.marketplace.get(itemId).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) console.error('Error loading item:', error)
+      setSelectedItem(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [itemId, items, loading])
 
   const loadItems = async () => {
     setLoading(true)
     setError(null)
     
     try {
-      if (!hasValidSupabaseConfig()) {
-        // Demo data when Supabase is not configured
-        const demoItems: MarketplaceItem[] = [
-          {
-            id: 'demo-1',
-            seller_id: 'demo-seller-1',
-            title: 'MacBook Pro 14" M3',
-            description: 'Excellent condition MacBook Pro with M3 chip. Perfect for developers and creative professionals. Includes original charger and box.',
-            price: 2500000,
-            category: 'Electronics',
-            condition: 'Like New',
-            images: ['https://images.pexels.com/photos/205421/pexels-photo-205421.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_sold: false,
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(),
-            profiles: {
-              id: 'demo-seller-1',
-              full_name: 'Tech Seller',
-              display_name: 'techseller',
-              email: 'tech@example.com',
-              avatar_url: null,
-              bio: 'Selling quality tech items',
-              website: null,
-              location: 'Seoul',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          },
-          {
-            id: 'demo-2',
-            seller_id: 'demo-seller-2',
-            title: 'Vintage Leather Jacket',
-            description: 'Authentic vintage leather jacket from the 80s. Great condition with unique character. Size M.',
-            price: 150000,
-            category: 'Clothing',
-            condition: 'Good',
-            images: ['https://images.pexels.com/photos/1124465/pexels-photo-1124465.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_sold: false,
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 48).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 48).toISOString(),
-            profiles: {
-              id: 'demo-seller-2',
-              full_name: 'Fashion Lover',
-              display_name: 'fashionista',
-              email: 'fashion@example.com',
-              avatar_url: null,
-              bio: 'Vintage fashion enthusiast',
-              website: null,
-              location: 'Busan',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          },
-          {
-            id: 'demo-3',
-            seller_id: 'demo-seller-3',
-            title: 'Programming Books Collection',
-            description: 'Collection of essential programming books including Clean Code, Design Patterns, and more. Perfect for developers.',
-            price: 75000,
-            category: 'Books',
-            condition: 'Good',
-            images: ['https://images.pexels.com/photos/159711/books-bookstore-book-reading-159711.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_sold: false,
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 72).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 72).toISOString(),
-            profiles: {
-              id: 'demo-seller-3',
-              full_name: 'Code Master',
-              display_name: 'codemaster',
-              email: 'code@example.com',
-              avatar_url: null,
-              bio: 'Software developer and book collector',
-              website: null,
-              location: 'Incheon',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          },
-          {
-            id: 'demo-4',
-            seller_id: 'demo-seller-4',
-            title: 'Gaming Chair - Ergonomic',
-            description: 'High-quality gaming chair with lumbar support. Very comfortable for long gaming or work sessions.',
-            price: 250000,
-            category: 'Furniture',
-            condition: 'New',
-            images: ['https://images.pexels.com/photos/4050315/pexels-photo-4050315.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_sold: false,
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 96).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 96).toISOString(),
-            profiles: {
-              id: 'demo-seller-4',
-              full_name: 'Gamer Pro',
-              display_name: 'gamerpro',
-              email: 'gamer@example.com',
-              avatar_url: null,
-              bio: 'Gaming enthusiast',
-              website: null,
-              location: 'Daegu',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          },
-          {
-            id: 'demo-5',
-            seller_id: 'demo-seller-5',
-            title: 'Tennis Racket - Wilson Pro',
-            description: 'Professional tennis racket in excellent condition. Perfect weight and balance for competitive play.',
-            price: 120000,
-            category: 'Sports',
-            condition: 'Like New',
-            images: ['https://images.pexels.com/photos/209977/pexels-photo-209977.jpeg?auto=compress&cs=tinysrgb&w=800'],
-            is_sold: false,
-            created_at: new Date(Date.now() - 1000 * 60 * 60 * 120).toISOString(),
-            updated_at: new Date(Date.now() - 1000 * 60 * 60 * 120).toISOString(),
-            profiles: {
-              id: 'demo-seller-5',
-              full_name: 'Sports Fan',
-              display_name: 'sportsfan',
-              email: 'sports@example.com',
-              avatar_url: null,
-              bio: 'Sports equipment collector',
-              website: null,
-              location: 'Gwangju',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }
-          }
-        ]
-        
-        setItems(demoItems)
-        setLoading(false)
-        return
-      }
-
-      const { data, error } = await supabase
-        .from('marketplace_items')
-        .select(`
-          *,
-          profiles!marketplace_items_seller_id_fkey (
-            id,
-            full_name,
-            display_name,
-            avatar_url
-          )
-        `)
-        .eq('is_sold', false)
-        .order('created_at', { ascending: false })
+      const { data, error } = await db.marketplace.listAvailable()
 
       if (error) {
         setError(`Failed to load items: ${error.message}`)
@@ -201,25 +95,66 @@ export function BrowseItems({ currentUser }: BrowseItemsProps) {
     }
   }
 
-  const filterItems = () => {
-    let filtered = items
+  const loadSavedIds = async () => {
+    const { data, error } = await db.wishlist.listItemIds(currentUser.id)
+    if (error) console.error('Error fetching saved items:', error)
+    setSavedIds(new Set(data || []))
+  }
 
-    if (searchTerm) {
-      filtered = filtered.filter(item =>
-        item.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.description.toLowerCase().includes(searchTerm.toLowerCase())
-      )
+  const toggleSaved = async (item: MarketplaceItem) => {
+    const saved = !savedIds.has(item.id)
+    const { error } = await db.wishlist.setSaved(currentUser.id, item.id, saved)
+    if (error) {
+      console.error('Error updating saved items:', error)
+      return
     }
+    setSavedIds(prev => {
+      const next = new Set(prev)
+      if (saved) next.add(item.id)
+      else next.delete(item.id)
+      return next
+    })
+  }
 
-    if (selectedCategory) {
-      filtered = filtered.filter(item => item.category === selectedCategory)
-    }
+  const currentFilters = (): SavedSearchFilters => ({
+    keywords: searchTerm.trim(),
+    category: selectedCategory || null,
+    condition: selectedCondition || null,
+    min_price: minPrice.trim() ? Number(minPrice) : null,
+    max_price: maxPrice.trim() ? Number(maxPrice) : null,
+    location: location.trim() || null
+  })
+
+  const filterItems = () => {
+    const filters = currentFilters()
+    setFilteredItems(items.filter(item => matchesSavedSearch(filters, item)))
+    setSearchSaved(false)
+  }
 
-    if (selectedCondition) {
-      filtered = filtered.filter(item => item.condition === selectedCondition)
+  const startSavingSearch = () => {
+    setSearchName(describeSavedSearch(currentFilters()).slice(0, 80))
+    setSaveSearchError(null)
+    setSavingSearch(true)
+  }
+
+  const handleSaveSearch = async () => {
+    if (!searchName.trim()) return
+    const { error } = await db.savedSearches.create(currentUser.id, { ...currentFilters(), name: searchName.trim() })
+    if (error) {
+      console.error('Error saving search:', error)
+      setSaveSearchError(error.message || 'Failed to save the search')
+      return
     }
+    setSavingSearch(false)
+    setSearchSaved(true)
+  }
 
-    setFilteredItems(filtered)
+  const selectItem = (item: MarketplaceItem | null) => {
+    if (onSelectItem) {
+      onSelectItem(item ? item.id : null)
+    } else {
+      setSelectedItem(item)
+    }
   }
 
   const handleContactSeller = (item: MarketplaceItem) => {
@@ -305,7 +240,7 @@ export function BrowseItems({ currentUser }: BrowseItemsProps) {
           </div>
         </div>
 
-        <div className="flex items-center space-x-4">
+        <div className="flex flex-wrap items-center gap-4">
           <div className="flex items-center space-x-2">
             <Filter className="w-5 h-5 text-gray-400" />
             <select
@@ -329,7 +264,82 @@ export function BrowseItems({ currentUser }: BrowseItemsProps) {
               <option key={condition} value={condition}>{condition}</option>
             ))}
           </select>
+          <div className="flex items-center space-x-1">
+            <input
+              type="number"
+              min={0}
+              placeholder="Min ₩"
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+              className="w-24 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              min={0}
+              placeholder="Max ₩"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              className="w-24 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="relative">
+            <MapPin className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              className="w-32 border border-gray-300 rounded-lg pl-8 pr-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={startSavingSearch}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Get an alert when a new listing matches"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+            <span>Save search</span>
+          </button>
         </div>
+
+        {savingSearch && (
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={searchName}
+                onChange={(e) => setSearchName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveSearch()
+                }}
+                maxLength={80}
+                placeholder="Name this search"
+                className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                autoFocus
+              />
+              <button
+                onClick={handleSaveSearch}
+                disabled={!searchName.trim()}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setSavingSearch(false)}
+                className="px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
+            {saveSearchError && <p className="text-xs text-red-600">{saveSearchError}</p>}
+          </div>
+        )}
+        {searchSaved && (
+          <p className="text-sm text-green-700">
+            Search saved. You'll get an alert when a new listing matches it.
+          </p>
+        )}
       </div>
 
       {/* Items Display */}
@@ -356,7 +366,7 @@ export function BrowseItems({ currentUser }: BrowseItemsProps) {
               className={`bg-white border border-gray-200 rounded-lg overflow-hidden hover:shadow-lg transition-shadow cursor-pointer ${
                 viewMode === 'list' ? 'flex' : ''
               }`}
-              onClick={() => setSelectedItem(item)}
+              onClick={() => selectItem(item)}
             >
               <div className={`${viewMode === 'list' ? 'w-48 h-32' : 'aspect-square'} bg-gray-100 relative`}>
                 {item.images && item.images.length > 0 ? (
@@ -377,6 +387,25 @@ export function BrowseItems({ currentUser }: BrowseItemsProps) {
                 <div className="absolute top-2 right-2 bg-white px-2 py-1 rounded-full text-xs font-medium text-gray-600">
                   {item.condition}
                 </div>
+                {item.status === 'reserved' && (
+                  <div className="absolute top-2 left-2 bg-amber-100 px-2 py-1 rounded-full text-xs font-medium text-amber-800">
+                    Reserved
+                  </div>
+                )}
+                {item.seller_id !== currentUser.id && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleSaved(item)
+                    }}
+                    className={`absolute bottom-2 right-2 p-2 bg-white rounded-full shadow transition-colors ${
+                      savedIds.has(item.id) ? 'text-red-500' : 'text-gray-400 hover:text-red-500'
+                    }`}
+                    title={savedIds.has(item.id) ? 'Remove from saved' : 'Save'}
+                  >
+                    <Heart className={`w-4 h-4 ${savedIds.has(item.id) ? 'fill-current' : ''}`} />
+                  </button>
+                )}
               </div>
               
               <div className={`p-4 ${viewMode === 'list' ? 'flex-1' : ''}`}>
@@ -438,8 +467,10 @@ export function BrowseItems({ currentUser }: BrowseItemsProps) {
         <ItemDetailModal
           item={selectedItem}
           currentUser={currentUser}
-          onClose={() => setSelectedItem(null)}
+          onClose={() => selectItem(null)}
           onContactSeller={handleContactSeller}
+          saved={savedIds.has(selectedItem.id)}
+          onToggleSaved={toggleSaved}
         />
       )}
 
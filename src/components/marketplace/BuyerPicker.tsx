@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react'
+import { X, User } from 'lucide-react'
+import { MarketplaceItem, ProfileSummary } from '../../lib/supabase'
+import { db } from '../../lib/data'
+
+interface BuyerPickerProps {
+  item: MarketplaceItem
+  sellerId: string
+  // Reserving needs a buyer; a sale can also have happened outside the app
+  status: 'reserved' | 'sold'
+  onPick: (buyerId: string | null) => Promise<void>
+  onClose: () => void
+}
+
+// Picks who a listing is reserved for or sold to, from the people who
+// messaged the seller about it
+export function BuyerPicker({ item, sellerId, status, onPick, onClose }: BuyerPickerProps) {
+  const [buyers, setBuyers] = useState<ProfileSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadBuyers = async () => {
+      const { data, error } = await db.marketplace.listInterestedBuyers(item.id, sellerId)
+      if (error) console.error('Error fetching interested buyers:', error)
+      setBuyers(data || [])
+      setLoading(false)
+    }
+    loadBuyers()
+  }, [item.id, sellerId])
+
+  const pick = async (buyerId: string | null) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await onPick(buyerId)
+    } catch (err: any) {
+      console.error('Error updating listing status:', err)
+      setError(err?.message || 'Failed to update the listing')
+      setBusy(false)
+    }
+  }
+
+  const nameOf = (buyer: ProfileSummary) => buyer.display_name || buyer.full_name || buyer.username
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">
+            {status === 'reserved' ? 'Reserve for' : 'Sold to'}
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2">
+          <p className="text-sm text-gray-600 truncate">{item.title}</p>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading buyers...</p>
+          ) : buyers.length === 0 ? (
+            <p className="text-sm text-gray-500">Nobody has messaged you about this item yet.</p>
+          ) : (
+            buyers.map(buyer => (
+              <button
+                key={buyer.id}
+                onClick={() => pick(buyer.id)}
+                disabled={busy}
+                className="w-full flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-left transition-colors"
+              >
+                {buyer.avatar_url ? (
+                  <img src={buyer.avatar_url} alt={nameOf(buyer)} className="w-8 h-8 rounded-full object-cover" />
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">
+                    <User className="w-4 h-4 text-gray-500" />
+                  </div>
+                )}
+                <span className="text-sm font-medium text-gray-900">{nameOf(buyer)}</span>
+              </button>
+            ))
+          )}
+
+          {status === 'sold' && (
+            <button
+              onClick={() => pick(null)}
+              disabled={busy}
+              className="w-full mt-2 px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Sold outside the app
+            </button>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
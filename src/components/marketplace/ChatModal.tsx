@@ -1,6 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { X, Send, Package } from 'lucide-react'
-import { MarketplaceItem, Profile, Message, getMessages, sendMessage } from '../../lib/supabase'
+import { X, Send, Package, Coins, Star } from 'lucide-react'
+import { MarketplaceItem, Profile, Message } from '../../lib/supabase'
+import { db, conversationIdFor, unwrap } from '../../lib/data'
+import { latestCreatedAt } from '../../lib/realtime'
+import { useMessageSubscription } from '../../hooks/useMessageSubscription'
+import { useConversationOffers } from '../../hooks/useConversationOffers'
+import { OfferAmountForm, OfferCard } from './OfferCard'
+import { ReputationSummary } from './ReputationSummary'
+import { ReviewDialog } from './ReviewDialog'
 import { formatDistanceToNow } from 'date-fns'
 
 interface ChatModalProps {
@@ -14,10 +21,13 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
   const [newMessage, setNewMessage] = useState('')
   const [loading, setLoading] = useState(true)
   const [sending, setSending] = useState(false)
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [offering, setOffering] = useState(false)
+  const [reviewing, setReviewing] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   const otherUser = item.profiles
-  const conversationId = [currentUser.id, item.seller_id].sort().join('-')
+  const conversationId = conversationIdFor(currentUser.id, item.seller_id)
 
   useEffect(() => {
     loadMessages()
@@ -27,10 +37,52 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
     scrollToBottom()
   }, [messages])
 
+  const mergeMessage = (message: Message) => {
+    setMessages(prev => {
+      const index = prev.findIndex(existing => existing.id === message.id)
+      if (index === -1) {
+        return [...prev, message].sort((a, b) => a.created_at.localeCompare(b.created_at))
+      }
+      const next = [...prev]
+      next[index] = { ...next[index], ...message }
+      return next
+    })
+  }
+
+  const { connected } = useMessageSubscription({
+    topic: `chat:${conversationId}`,
+    filters: [{ column: 'conversation_id', value: conversationId }],
+    enabled: !loading,
+    since: latestCreatedAt(messages),
+    seenIds: messages.map(message => message.id),
+    backfill: async since => unwrap(await db.messages.listConversation(conversationId, since)),
+    onInsert: mergeMessage,
+    onUpdate: mergeMessage
+  })
+
+  const { offers, reload: reloadOffers } = useConversationOffers(messages)
+
+  // Offers and their answers are posted by the database; fetch them now
+  // rather than waiting on the realtime feed
+  const catchUp = async () => {
+    const { data, error } = await db.messages.listConversation(conversationId, latestCreatedAt(messages))
+    if (error) console.error('Error fetching messages:', error)
+    data?.forEach(mergeMessage)
+    reloadOffers()
+  }
+
+  const handleMakeOffer = async (amount: number) => {
+    const { error } = await db.offers.make(item.id, amount, currentUser.id)
+    if (error) throw error
+    setOffering(false)
+    await catchUp()
+  }
+
   const loadMessages = async () => {
     setLoading(true)
-    const data = await getMessages(conversationId)
-    setMessages(data)
+    const { data, error } = await db.messages.listConversation(conversationId)
+    if (error) console.error('Error fetching messages:', error)
+    setMessages(data || [])
     setLoading(false)
   }
 
@@ -43,7 +95,8 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
     if (!newMessage.trim() || sending) return
 
     setSending(true)
-    const message = await sendMessage({
+    setSendError(null)
+    const { data: message, error } = await db.messages.send({
       conversation_id: conversationId,
       sender_id: currentUser.id,
       receiver_id: item.seller_id,
@@ -51,8 +104,11 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
       item_id: item.id
     })
 
-    if (message) {
-      setMessages(prev => [...prev, message])
+    if (error) {
+      console.error('Error sending message:', error)
+      setSendError(error.code === 'forbidden' ? error.message : 'Failed to send message')
+    } else {
+      mergeMessage(message)
       setNewMessage('')
     }
     setSending(false)
@@ -88,6 +144,12 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
                 {otherUser.full_name || otherUser.display_name || 'Anonymous User'}
               </h2>
               <p className="text-sm text-gray-500">About: {item.title}</p>
+              {item.seller_id !== currentUser.id && (
+                <ReputationSummary userId={item.seller_id} className="text-xs" />
+              )}
+              {!loading && !connected && (
+                <p className="text-xs text-amber-600">Reconnecting...</p>
+              )}
             </div>
           </div>
           <button
@@ -118,6 +180,15 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
               <h3 className="font-medium text-gray-900">{item.title}</h3>
               <p className="text-lg font-bold text-blue-600">{formatPrice(item.price)}</p>
             </div>
+            {item.status === 'sold' && item.buyer_id === currentUser.id && (
+              <button
+                onClick={() => setReviewing(true)}
+                className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-white transition-colors"
+              >
+                <Star className="w-4 h-4" />
+                <span>Review seller</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -141,22 +212,26 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
                 key={message.id}
                 className={`flex ${message.sender_id === currentUser.id ? 'justify-end' : 'justify-start'}`}
               >
-                <div
-                  className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                    message.sender_id === currentUser.id
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-900'
-                  }`}
-                >
-                  <p className="text-sm">{message.content}</p>
-                  <p
-                    className={`text-xs mt-1 ${
-                      message.sender_id === currentUser.id ? 'text-blue-100' : 'text-gray-500'
+                {message.offer_id && offers[message.offer_id] ? (
+                  <OfferCard offer={offers[message.offer_id]} currentUserId={currentUser.id} onChanged={catchUp} />
+                ) : (
+                  <div
+                    className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+                      message.sender_id === currentUser.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-900'
                     }`}
                   >
-                    {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                  </p>
-                </div>
+                    <p className="text-sm">{message.content}</p>
+                    <p
+                      className={`text-xs mt-1 ${
+                        message.sender_id === currentUser.id ? 'text-blue-100' : 'text-gray-500'
+                      }`}
+                    >
+                      {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -165,6 +240,23 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
 
         {/* Message Input */}
         <form onSubmit={handleSendMessage} className="p-4 border-t border-gray-200">
+          {sendError && <p className="text-xs text-red-600 mb-2">{sendError}</p>}
+          {item.seller_id !== currentUser.id && item.status === 'active' && (
+            offering ? (
+              <div className="mb-2">
+                <OfferAmountForm submitLabel="Offer" onSubmit={handleMakeOffer} onCancel={() => setOffering(false)} />
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setOffering(true)}
+                className="flex items-center space-x-1 mb-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Coins className="w-4 h-4" />
+                <span>Make an offer</span>
+              </button>
+            )
+          )}
           <div className="flex space-x-2">
             <input
               type="text"
@@ -188,6 +280,15 @@ export function ChatModal({ item, currentUser, onClose }: ChatModalProps) {
           </div>
         </form>
       </div>
+
+      {reviewing && (
+        <ReviewDialog
+          item={item}
+          currentUserId={currentUser.id}
+          revieweeName={otherUser.full_name || otherUser.display_name || 'the seller'}
+          onClose={() => setReviewing(false)}
+        />
+      )}
     </div>
   )
 }
@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { X, Upload, Plus } from 'lucide-react'
-import { createMarketplaceItem, uploadFile, Profile } from '../../lib/supabase'
+import { uploadFile, Profile } from '../../lib/supabase'
+import { db } from '../../lib/data'
 
 interface CreateListingModalProps {
   currentUser: Profile
@@ -96,30 +97,17 @@ export function CreateListingModal({ currentUser, onClose, onItemCreated }: Crea
         price: parseFloat(formData.price),
         category: formData.category,
         condition: formData.condition,
-        images: imageUrls,
-        is_sold: false
+        images: imageUrls
       }
 
-      const item = await createMarketplaceItem(itemData)
+      const { data: item, error } = await db.marketplace.create(itemData)
+      if (error) throw error
 
-      if (item) {
-        onItemCreated({
-          ...item,
-          profiles: currentUser
-        })
-        alert('Item listed successfully!')
-      } else {
-        // Create demo item for when Supabase is not configured
-        const demoItem = {
-          id: `demo-${Date.now()}`,
-          ...itemData,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          profiles: currentUser
-        }
-        onItemCreated(demoItem)
-        alert('Item listed successfully!')
-      }
+      onItemCreated({
+        ...item,
+        profiles: currentUser
+      })
+      alert('Item listed successfully!')
     } catch (error) {
       console.error('Error creating item:', error)
       alert('Failed to list item. Please try again.')
@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { X, Upload, Plus } from 'lucide-react'
-import { MarketplaceItem, updateMarketplaceItem, uploadFile } from '../../lib/supabase'
+import { MarketplaceItem, uploadFile } from '../../lib/supabase'
+import { db } from '../../lib/data'
 
 interface EditItemModalProps {
   item: MarketplaceItem
@@ -65,7 +66,7 @@ export function EditItemModal({ item, onClose, onItemUpdated }: EditItemModalPro
 
     setSubmitting(true)
     try {
-      const updatedItem = await updateMarketplaceItem(item.id, {
+      const { data: updatedItem, error } = await db.marketplace.update(item.id, {
         title: formData.title,
         description: formData.description,
         price: parseFloat(formData.price),
@@ -77,6 +78,7 @@ export function EditItemModal({ item, onClose, onItemUpdated }: EditItemModalPro
       if (updatedItem) {
         onItemUpdated(updatedItem)
       } else {
+        console.error('Error updating marketplace item:', error)
         alert('Failed to update item. Please try again.')
       }
     } catch (error) {
@@ -1,15 +1,34 @@
-import React from 'react'
-import { X, MessageCircle, MapPin, Calendar, Tag, Package } from 'lucide-react'
-import { MarketplaceItem, Profile } from '../../lib/supabase'
+import React, { useEffect, useState } from 'react'
+import { X, MessageCircle, MapPin, Calendar, Tag, Package, Flag, Heart } from 'lucide-react'
+import { MarketplaceItem, PriceChange, Profile } from '../../lib/supabase'
+import { db } from '../../lib/data'
 import { formatDistanceToNow } from 'date-fns'
+import { ReportDialog } from '../ReportDialog'
+import { ReputationSummary } from './ReputationSummary'
 
 interface ItemDetailModalProps {
   item: MarketplaceItem
   currentUser: Profile
   onClose: () => void
+  onContactSeller?: (item: MarketplaceItem) => void
+  // The wishlist save button shows when the caller handles it
+  saved?: boolean
+  onToggleSaved?: (item: MarketplaceItem) => void
 }
 
-export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalProps) {
+export function ItemDetailModal({ item, currentUser, onClose, onContactSeller, saved = false, onToggleSaved }: ItemDetailModalProps) {
+  const [reporting, setReporting] = useState(false)
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([])
+
+  useEffect(() => {
+    const loadPriceHistory = async () => {
+      const { data, error } = await db.marketplace.listPriceHistory(item.id)
+      if (error) console.error('Error fetching price history:', error)
+      setPriceChanges(data || [])
+    }
+    loadPriceHistory()
+  }, [item.id, item.price])
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('ko-KR', {
       style: 'currency',
@@ -27,6 +46,10 @@ export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalP
   }
 
   const handleContactSeller = () => {
+    if (onContactSeller) {
+      onContactSeller(item)
+      return
+    }
     // This would typically open a chat modal or redirect to messages
     alert('Contact seller functionality would be implemented here')
   }
@@ -65,8 +88,28 @@ export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalP
 
           {/* Title and Price */}
           <div className="mb-6">
-            <h1 className="text-2xl font-bold text-gray-900 mb-2">{item.title}</h1>
-            <p className="text-3xl font-bold text-blue-600">{formatPrice(item.price)}</p>
+            <div className="flex items-start justify-between mb-2">
+              <h1 className="text-2xl font-bold text-gray-900">{item.title}</h1>
+              {onToggleSaved && item.seller_id !== currentUser.id && (
+                <button
+                  onClick={() => onToggleSaved(item)}
+                  className={`ml-4 p-2 rounded-full transition-colors ${
+                    saved ? 'text-red-500 hover:bg-red-50' : 'text-gray-400 hover:text-red-500 hover:bg-gray-100'
+                  }`}
+                  title={saved ? 'Remove from saved' : 'Save'}
+                >
+                  <Heart className={`w-6 h-6 ${saved ? 'fill-current' : ''}`} />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              <p className="text-3xl font-bold text-blue-600">{formatPrice(item.price)}</p>
+              {item.status === 'reserved' && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                  Reserved
+                </span>
+              )}
+            </div>
           </div>
 
           {/* Item Details */}
@@ -91,6 +134,25 @@ export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalP
             )}
           </div>
 
+          {/* Price History */}
+          {priceChanges.length > 0 && (
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-900 mb-2">Price History</h3>
+              <ul className="space-y-1">
+                {priceChanges.map(change => (
+                  <li key={change.id} className="text-sm text-gray-600">
+                    <span className={change.new_price < change.old_price ? 'text-green-700' : 'text-gray-700'}>
+                      {formatPrice(change.old_price)} → {formatPrice(change.new_price)}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(change.created_at), { addSuffix: true })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Description */}
           {item.description && (
             <div className="mb-6">
@@ -121,6 +183,7 @@ export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalP
                 {item.profiles?.bio && (
                   <p className="text-sm text-gray-600">{item.profiles.bio}</p>
                 )}
+                <ReputationSummary userId={item.seller_id} className="mt-1" />
               </div>
             </div>
 
@@ -135,6 +198,16 @@ export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalP
               </button>
             )}
 
+            {item.seller_id !== currentUser.id && (
+              <button
+                onClick={() => setReporting(true)}
+                className="w-full flex items-center justify-center space-x-1 mt-3 text-sm text-gray-500 hover:text-red-600 transition-colors"
+              >
+                <Flag className="w-4 h-4" />
+                <span>Report listing</span>
+              </button>
+            )}
+
             {item.seller_id === currentUser.id && (
               <div className="bg-gray-50 rounded-lg p-4">
                 <p className="text-sm text-gray-600 text-center">This is your listing</p>
@@ -143,6 +216,14 @@ export function ItemDetailModal({ item, currentUser, onClose }: ItemDetailModalP
           </div>
         </div>
       </div>
+
+      {reporting && (
+        <ReportDialog
+          target={{ type: 'listing', id: item.id }}
+          currentUser={currentUser}
+          onClose={() => setReporting(false)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { ListingStatus, ListingStatusChange } from '../../lib/supabase'
+import { db } from '../../lib/data'
+
+interface ListingStatusTimelineProps {
+  itemId: string
+  // Bumped by the caller after a status change, to refetch
+  version?: number
+}
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  reserved: 'Reserved',
+  sold: 'Sold',
+  expired: 'Expired',
+  removed: 'Removed',
+}
+
+export const LISTING_STATUS_STYLES: Record<ListingStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  active: 'bg-blue-100 text-blue-800',
+  reserved: 'bg-amber-100 text-amber-800',
+  sold: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-600',
+  removed: 'bg-red-100 text-red-700',
+}
+
+// Every status a listing has been through, oldest first
+export function ListingStatusTimeline({ itemId, version = 0 }: ListingStatusTimelineProps) {
+  const [changes, setChanges] = useState<ListingStatusChange[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      const { data, error } = await db.marketplace.listStatusHistory(itemId)
+      if (error) console.error('Error fetching listing history:', error)
+      setChanges(data || [])
+      setLoading(false)
+    }
+    loadHistory()
+  }, [itemId, version])
+
+  if (loading) return <p className="text-sm text-gray-500">Loading history...</p>
+  if (changes.length === 0) return <p className="text-sm text-gray-500">No history yet.</p>
+
+  return (
+    <ol className="space-y-2 border-l-2 border-gray-200 pl-4">
+      {changes.map(change => {
+        const buyer = change.buyer && (change.buyer.display_name || change.buyer.full_name || change.buyer.username)
+        return (
+          <li key={change.id} className="text-sm">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LISTING_STATUS_STYLES[change.to_status]}`}>
+              {LISTING_STATUS_LABELS[change.to_status]}
+            </span>
+            <span className="ml-2 text-gray-600">
+              {change.from_status === null ? 'Listed' : `from ${LISTING_STATUS_LABELS[change.from_status].toLowerCase()}`}
+              {buyer && (change.to_status === 'sold' ? ` · sold to ${buyer}` : ` · for ${buyer}`)}
+              {!change.changed_by && ' · automatically'}
+            </span>
+            <span className="ml-2 text-xs text-gray-400">
+              {formatDistanceToNow(new Date(change.created_at), { addSuffix: true })}
+            </span>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react'
-import { Edit, Trash2, Check, Eye } from 'lucide-react'
-import { MarketplaceItem, Profile, getUserMarketplaceItems, updateMarketplaceItem, deleteMarketplaceItem } from '../../lib/supabase'
+import { Edit, Trash2, Check, Eye, Coins, Bookmark, RotateCcw, Send, Archive, History, Star } from 'lucide-react'
+import { ListingStatus, MarketplaceItem, Offer, Profile } from '../../lib/supabase'
+import { db, canChangeListingStatus, isOfferOpen } from '../../lib/data'
 import { EditItemModal } from './EditItemModal'
+import { OffersInbox } from './OffersInbox'
+import { BuyerPicker } from './BuyerPicker'
+import { LISTING_STATUS_LABELS, LISTING_STATUS_STYLES, ListingStatusTimeline } from './ListingStatusTimeline'
+import { ReviewDialog } from './ReviewDialog'
 
 interface MyItemsProps {
   currentUser: Profile
@@ -11,37 +16,78 @@ export function MyItems({ currentUser }: MyItemsProps) {
   const [items, setItems] = useState<MarketplaceItem[]>([])
   const [loading, setLoading] = useState(true)
   const [editingItem, setEditingItem] = useState<MarketplaceItem | null>(null)
+  const [offers, setOffers] = useState<Offer[]>([])
+  const [offersItemId, setOffersItemId] = useState<string | null>(null)
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [picking, setPicking] = useState<{ item: MarketplaceItem; status: 'reserved' | 'sold' } | null>(null)
+  const [purchases, setPurchases] = useState<MarketplaceItem[]>([])
+  const [reviewing, setReviewing] = useState<{ item: MarketplaceItem; revieweeName: string } | null>(null)
 
   useEffect(() => {
     loadItems()
+    loadOffers()
+    loadPurchases()
   }, [])
 
+  const loadPurchases = async () => {
+    const { data, error } = await db.marketplace.listPurchases(currentUser.id)
+    if (error) console.error('Error fetching purchases:', error)
+    setPurchases(data || [])
+  }
+
+  const loadOffers = async () => {
+    const { data, error } = await db.offers.listForSeller(currentUser.id)
+    if (error) console.error('Error fetching offers:', error)
+    setOffers(data || [])
+  }
+
+  // Accepting an offer reserves the listing, so both lists can change
+  const handleOffersChanged = async () => {
+    await loadOffers()
+    const { data, error } = await db.marketplace.listBySeller(currentUser.id)
+    if (error) console.error('Error fetching user marketplace items:', error)
+    else setItems(data)
+    setHistoryVersion(version => version + 1)
+  }
+
   const loadItems = async () => {
     setLoading(true)
-    const data = await getUserMarketplaceItems(currentUser.id)
-    setItems(data)
+    const { data, error } = await db.marketplace.listBySeller(currentUser.id)
+    if (error) console.error('Error fetching user marketplace items:', error)
+    setItems(data || [])
     setLoading(false)
   }
 
-  const handleMarkAsSold = async (item: MarketplaceItem) => {
-    const updated = await updateMarketplaceItem(item.id, { is_sold: true })
-    if (updated) {
-      setItems(prev => prev.map(i => i.id === item.id ? { ...i, is_sold: true } : i))
-    }
+  const handleSetStatus = async (item: MarketplaceItem, status: ListingStatus, buyerId: string | null = null) => {
+    const { data, error } = await db.marketplace.setStatus(item.id, status, buyerId, currentUser.id)
+    if (error) throw error
+    setItems(prev => prev.map(i => i.id === item.id ? data : i))
+    setHistoryVersion(version => version + 1)
+    loadOffers()
   }
 
-  const handleMarkAsAvailable = async (item: MarketplaceItem) => {
-    const updated = await updateMarketplaceItem(item.id, { is_sold: false })
-    if (updated) {
-      setItems(prev => prev.map(i => i.id === item.id ? { ...i, is_sold: false } : i))
+  const handleQuickStatus = async (item: MarketplaceItem, status: ListingStatus) => {
+    if (status === 'removed' && !confirm('Take this listing down? It cannot be relisted afterwards.')) return
+    try {
+      await handleSetStatus(item, status)
+    } catch (error) {
+      console.error('Error updating listing status:', error)
     }
   }
 
+  const handleBuyerPicked = async (buyerId: string | null) => {
+    await handleSetStatus(picking.item, picking.status, buyerId)
+    setPicking(null)
+  }
+
   const handleDelete = async (item: MarketplaceItem) => {
-    if (!confirm('Are you sure you want to delete this item?')) return
+    if (!confirm('Are you sure you want to delete this item permanently?')) return
     
-    const success = await deleteMarketplaceItem(item.id)
-    if (success) {
+    const { error } = await db.marketplace.remove(item.id)
+    if (error) {
+      console.error('Error deleting marketplace item:', error)
+    } else {
       setItems(prev => prev.filter(i => i.id !== item.id))
     }
   }
@@ -83,105 +129,233 @@ export function MyItems({ currentUser }: MyItemsProps) {
         </div>
       ) : (
         <div className="space-y-4">
-          {items.map(item => (
-            <div
-              key={item.id}
-              className={`bg-white border rounded-lg p-4 ${
-                item.is_sold ? 'border-gray-200 bg-gray-50' : 'border-gray-200'
-              }`}
-            >
-              <div className="flex items-start space-x-4">
-                {/* Image */}
-                <div className="w-20 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
-                  {item.images && item.images.length > 0 ? (
-                    <img
-                      src={item.images[0]}
-                      alt={item.title}
-                      className="w-full h-full object-cover"
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement
-                        target.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgdmlld0JveD0iMCAwIDIwMCAyMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSIyMDAiIGhlaWdodD0iMjAwIiBmaWxsPSIjRjNGNEY2Ii8+CjxwYXRoIGQ9Ik0xMDAgMTQwQzEyMi4wOTEgMTQwIDE0MCAxMjIuMDkxIDE0MCAxMDBDMTQwIDc3LjkwODYgMTIyLjA5MSA2MCAxMDAgNjBDNzcuOTA4NiA2MCA2MCA3Ny45MDg2IDYwIDEwMEM2MCAxMjIuMDkxIDc3LjkwODYgMTQwIDEwMCAxNDBaIiBzdHJva2U9IiM5Q0EzQUYiIHN0cm9rZS13aWR0aD0iNCIvPgo8L3N2Zz4K'
-                      }}
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center text-gray-400">
-                      <Eye className="w-6 h-6" />
-                      <span className="sr-only">No image</span>
-                    </div>
-                  )}
-                </div>
+          {items.map(item => {
+            const itemOffers = offers.filter(offer => offer.item_id === item.id)
+            const waiting = itemOffers.filter(offer => isOfferOpen(offer) && offer.proposed_by !== currentUser.id).length
+            const closed = item.status !== 'active' && item.status !== 'reserved'
+            const can = (status: ListingStatus) => canChangeListingStatus(item.status, status)
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <h4 className={`font-semibold ${item.is_sold ? 'text-gray-500' : 'text-gray-900'}`}>
-                        {item.title}
-                        {item.is_sold && (
-                          <span className="ml-2 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            Sold
-                          </span>
-                        )}
-                      </h4>
-                      <p className={`text-lg font-bold mt-1 ${item.is_sold ? 'text-gray-500' : 'text-blue-600'}`}>
-                        {formatPrice(item.price)}
-                      </p>
-                      <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
-                        <span className="bg-gray-100 px-2 py-1 rounded-full">{item.category}</span>
-                        <span className="bg-gray-100 px-2 py-1 rounded-full">{item.condition}</span>
-                        <span>{new Date(item.created_at).toLocaleDateString()}</span>
+            return (
+              <div
+                key={item.id}
+                className={`bg-white border rounded-lg p-4 ${
+                  closed ? 'border-gray-200 bg-gray-50' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-start space-x-4">
+                  {/* Image */}
+                  <div className="w-20 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+                    {item.images && item.images.length > 0 ? (
+                      <img
+                        src={item.images[0]}
+                        alt={item.title}
+                        className="w-full h-full object-cover"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement
+                          target.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgdmlld0JveD0iMCAwIDIwMCAyMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSIyMDAiIGhlaWdodD0iMjAwIiBmaWxsPSIjRjNGNEY2Ii8+CjxwYXRoIGQ9Ik0xMDAgMTQwQzEyMi4wOTEgMTQwIDE0MCAxMjIuMDkxIDE0MCAxMDBDMTQwIDc3LjkwODYgMTIyLjA5MSA2MCAxMDAgNjBDNzcuOTA4NiA2MCA2MCA3Ny45MDg2IDYwIDEwMEM2MCAxMjIuMDkxIDc3LjkwODYgMTQwIDEwMCAxNDBaIiBzdHJva2U9IiM5Q0EzQUYiIHN0cm9rZS13aWR0aD0iNCIvPgo8L3N2Zz4K'
+                        }}
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-gray-400">
+                        <Eye className="w-6 h-6" />
+                        <span className="sr-only">No image</span>
                       </div>
-                      {item.description && (
-                        <p className={`mt-2 text-sm ${item.is_sold ? 'text-gray-400' : 'text-gray-600'} line-clamp-2`}>
-                          {item.description}
+                    )}
+                  </div>
+
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h4 className={`font-semibold ${closed ? 'text-gray-500' : 'text-gray-900'}`}>
+                          {item.title}
+                          {item.status !== 'active' && (
+                            <span className={`ml-2 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${LISTING_STATUS_STYLES[item.status]}`}>
+                              {LISTING_STATUS_LABELS[item.status]}
+                            </span>
+                          )}
+                        </h4>
+                        <p className={`text-lg font-bold mt-1 ${closed ? 'text-gray-500' : 'text-blue-600'}`}>
+                          {formatPrice(item.price)}
                         </p>
-                      )}
-                    </div>
+                        <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
+                          <span className="bg-gray-100 px-2 py-1 rounded-full">{item.category}</span>
+                          <span className="bg-gray-100 px-2 py-1 rounded-full">{item.condition}</span>
+                          <span>{new Date(item.created_at).toLocaleDateString()}</span>
+                          {item.status === 'active' && item.expires_at && (
+                            <span>Expires {new Date(item.expires_at).toLocaleDateString()}</span>
+                          )}
+                        </div>
+                        {item.description && (
+                          <p className={`mt-2 text-sm ${closed ? 'text-gray-400' : 'text-gray-600'} line-clamp-2`}>
+                            {item.description}
+                          </p>
+                        )}
+                      </div>
 
-                    {/* Actions */}
-                    <div className="flex items-center space-x-2 ml-4">
-                      <button
-                        onClick={() => setEditingItem(item)}
-                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
-                        title="Edit item"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      
-                      {item.is_sold ? (
+                      {/* Actions */}
+                      <div className="flex items-center space-x-2 ml-4">
                         <button
-                          onClick={() => handleMarkAsAvailable(item)}
-                          className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
-                          title="Mark as available"
+                          onClick={() => setEditingItem(item)}
+                          className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                          title="Edit item"
                         >
-                          <Eye className="w-4 h-4" />
+                          <Edit className="w-4 h-4" />
                         </button>
-                      ) : (
+                        
+                        {can('active') && (
+                          <button
+                            onClick={() => handleQuickStatus(item, 'active')}
+                            className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                            title={item.status === 'draft' ? 'Publish' : item.status === 'reserved' ? 'Release reservation' : 'Relist'}
+                          >
+                            {item.status === 'draft' ? <Send className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                          </button>
+                        )}
+
+                        {can('reserved') && (
+                          <button
+                            onClick={() => setPicking({ item, status: 'reserved' })}
+                            className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-full transition-colors"
+                            title="Reserve for a buyer"
+                          >
+                            <Bookmark className="w-4 h-4" />
+                          </button>
+                        )}
+
+                        {can('sold') && (
+                          <button
+                            onClick={() => setPicking({ item, status: 'sold' })}
+                            className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                            title="Mark as sold"
+                          >
+                            <Check className="w-4 h-4" />
+                          </button>
+                        )}
+
+                        {item.status === 'sold' && item.buyer_id && (
+                          <button
+                            onClick={() => setReviewing({ item, revieweeName: 'the buyer' })}
+                            className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-full transition-colors"
+                            title="Review the buyer"
+                          >
+                            <Star className="w-4 h-4" />
+                          </button>
+                        )}
+
+                        {can('removed') && (
+                          <button
+                            onClick={() => handleQuickStatus(item, 'removed')}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                            title="Take down"
+                          >
+                            <Archive className="w-4 h-4" />
+                          </button>
+                        )}
+
                         <button
-                          onClick={() => handleMarkAsSold(item)}
-                          className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
-                          title="Mark as sold"
+                          onClick={() => handleDelete(item)}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                          title="Delete item"
                         >
-                          <Check className="w-4 h-4" />
+                          <Trash2 className="w-4 h-4" />
                         </button>
-                      )}
-                      
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Offers and history */}
+                <div className="mt-3 pt-3 border-t border-gray-100">
+                  <div className="flex items-center space-x-4">
+                    {itemOffers.length > 0 && (
                       <button
-                        onClick={() => handleDelete(item)}
-                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
-                        title="Delete item"
+                        onClick={() => setOffersItemId(offersItemId === item.id ? null : item.id)}
+                        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <Coins className="w-4 h-4" />
+                        <span>
+                          {offersItemId === item.id ? 'Hide offers' : `Offers (${itemOffers.length})`}
+                          {waiting > 0 && ` · ${waiting} waiting for you`}
+                        </span>
                       </button>
-                    </div>
+                    )}
+                    <button
+                      onClick={() => setHistoryItemId(historyItemId === item.id ? null : item.id)}
+                      className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      <History className="w-4 h-4" />
+                      <span>{historyItemId === item.id ? 'Hide history' : 'History'}</span>
+                    </button>
                   </div>
+                  {offersItemId === item.id && (
+                    <div className="mt-3">
+                      <OffersInbox offers={itemOffers} currentUserId={currentUser.id} onChanged={handleOffersChanged} />
+                    </div>
+                  )}
+                  {historyItemId === item.id && (
+                    <div className="mt-3">
+                      <ListingStatusTimeline itemId={item.id} version={historyVersion} />
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
+        </div>
+      )}
+
+      {/* Purchases */}
+      {purchases.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Purchases</h3>
+          <div className="space-y-2">
+            {purchases.map(item => {
+              const sellerName = item.profiles?.full_name || item.profiles?.display_name || 'the seller'
+              return (
+                <div key={item.id} className="flex items-center justify-between bg-white border border-gray-200 rounded-lg p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{item.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatPrice(item.price)} · from {sellerName}
+                      {item.sold_at && ` · ${new Date(item.sold_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setReviewing({ item, revieweeName: sellerName })}
+                    className="flex items-center space-x-1 ml-4 px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Star className="w-4 h-4" />
+                    <span>Review seller</span>
+                  </button>
+                </div>
+              )
+            })}
+          </div>
         </div>
       )}
 
+      {/* Review Dialog */}
+      {reviewing && (
+        <ReviewDialog
+          item={reviewing.item}
+          currentUserId={currentUser.id}
+          revieweeName={reviewing.revieweeName}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+
+      {/* Buyer Picker */}
+      {picking && (
+        <BuyerPicker
+          item={picking.item}
+          sellerId={currentUser.id}
+          status={picking.status}
+          onPick={handleBuyerPicked}
+          onClose={() => setPicking(null)}
+        />
+      )}
+
       {/* Edit Item Modal */}
       {editingItem && (
         <EditItemModal
@@ -0,0 +1,214 @@
+import React, { useState } from 'react'
+import { Check, Coins, Repeat, X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Offer, OfferStatus } from '../../lib/supabase'
+import { OfferResponse, db, isOfferOpen } from '../../lib/data'
+
+interface OfferCardProps {
+  offer: Offer
+  currentUserId: string
+  // Called after the viewer answers, so the caller can refetch
+  onChanged?: () => void
+  // The seller's inbox names who the offer is from
+  showBuyer?: boolean
+}
+
+interface OfferAmountFormProps {
+  submitLabel: string
+  initial?: number
+  onSubmit: (amount: number) => Promise<void>
+  onCancel: () => void
+}
+
+const STATUS_LABELS: Record<OfferStatus, string> = {
+  pending: 'Waiting for an answer',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  countered: 'Countered',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+}
+
+const STATUS_STYLES: Record<OfferStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-700',
+  countered: 'bg-gray-100 text-gray-600',
+  withdrawn: 'bg-gray-100 text-gray-600',
+  expired: 'bg-gray-100 text-gray-600',
+}
+
+export const formatOfferAmount = (amount: number) =>
+  new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(amount)
+
+// A price input for making or countering an offer. Rejections from onSubmit
+// are shown under the input. Not a <form>, since chats render it inside
+// their message form.
+export function OfferAmountForm({ submitLabel, initial, onSubmit, onCancel }: OfferAmountFormProps) {
+  const [value, setValue] = useState(initial ? String(initial) : '')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const amount = Number(value)
+  const valid = value.trim() !== '' && Number.isFinite(amount) && amount > 0
+
+  const handleSubmit = async () => {
+    if (!valid || submitting) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit(amount)
+    } catch (err: any) {
+      console.error('Error sending offer:', err)
+      setError(err?.message || 'Failed to send the offer')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-2">
+        <input
+          type="number"
+          min={1}
+          step={1000}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return
+            e.preventDefault()
+            handleSubmit()
+          }}
+          placeholder="Your price (₩)"
+          className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          autoFocus
+        />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!valid || submitting}
+          className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitting ? 'Sending...' : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1.5 text-sm text-gray-500 hover:text-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+// An offer or counter-offer as it stands now, with the answers open to the
+// viewer: the side that received it accepts, declines or counters, the side
+// that made it can withdraw it.
+export function OfferCard({ offer, currentUserId, onChanged, showBuyer = false }: OfferCardProps) {
+  const [countering, setCountering] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const open = isOfferOpen(offer)
+  const status: OfferStatus = offer.status === 'pending' && !open ? 'expired' : offer.status
+  const mine = offer.proposed_by === currentUserId
+  const fromSeller = offer.proposed_by === offer.seller_id
+
+  const respond = async (response: OfferResponse) => {
+    if (response === 'accept' && !confirm(`Accept ${formatOfferAmount(offer.amount)}? The item will be reserved for this buyer.`)) return
+    setBusy(true)
+    setError(null)
+    const { error } = await db.offers.respond(offer.id, response, currentUserId)
+    setBusy(false)
+    if (error) {
+      console.error('Error answering offer:', error)
+      setError(error.message || 'Failed to answer the offer')
+      return
+    }
+    onChanged?.()
+  }
+
+  const counter = async (amount: number) => {
+    const { error } = await db.offers.counter(offer.id, amount, currentUserId)
+    if (error) throw error
+    setCountering(false)
+    onChanged?.()
+  }
+
+  return (
+    <div className="w-64 max-w-full p-3 bg-white border border-gray-200 rounded-lg text-gray-900 shadow-sm">
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center space-x-1 text-xs font-medium text-gray-500">
+          {offer.parent_id ? <Repeat className="w-3.5 h-3.5" /> : <Coins className="w-3.5 h-3.5" />}
+          <span>
+            {offer.parent_id ? 'Counter-offer' : 'Offer'}
+            {showBuyer && offer.buyer && ` · ${offer.buyer.display_name || offer.buyer.full_name || offer.buyer.username}`}
+          </span>
+        </span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+          {STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      <p className={`text-lg font-bold ${open ? 'text-blue-600' : 'text-gray-500'}`}>
+        {formatOfferAmount(offer.amount)}
+      </p>
+      {open && (
+        <p className="text-xs text-gray-500">
+          {mine ? 'You proposed this' : fromSeller ? 'Proposed by the seller' : 'Proposed by the buyer'}
+          {' · expires '}
+          {formatDistanceToNow(new Date(offer.expires_at), { addSuffix: true })}
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+
+      {open && (
+        countering ? (
+          <div className="mt-2">
+            <OfferAmountForm submitLabel="Counter" initial={offer.amount} onSubmit={counter} onCancel={() => setCountering(false)} />
+          </div>
+        ) : mine ? (
+          <button
+            onClick={() => respond('withdraw')}
+            disabled={busy}
+            className="mt-2 text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+          >
+            Withdraw offer
+          </button>
+        ) : (
+          <div className="flex items-center space-x-2 mt-2">
+            <button
+              onClick={() => respond('accept')}
+              disabled={busy}
+              className="flex items-center space-x-1 px-2.5 py-1 bg-green-600 text-white text-xs rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+            >
+              <Check className="w-3.5 h-3.5" />
+              <span>Accept</span>
+            </button>
+            <button
+              onClick={() => setCountering(true)}
+              disabled={busy}
+              className="flex items-center space-x-1 px-2.5 py-1 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <Repeat className="w-3.5 h-3.5" />
+              <span>Counter</span>
+            </button>
+            <button
+              onClick={() => respond('decline')}
+              disabled={busy}
+              className="flex items-center space-x-1 px-2.5 py-1 text-red-600 text-xs rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+              <span>Decline</span>
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import React from 'react'
+import { Offer } from '../../lib/supabase'
+import { isOfferOpen } from '../../lib/data'
+import { OfferCard, formatOfferAmount } from './OfferCard'
+
+interface OffersInboxProps {
+  // One listing's offers, newest first
+  offers: Offer[]
+  currentUserId: string
+  onChanged: () => void
+}
+
+// A listing's offers for its seller: one negotiation per buyer, open ones
+// first, each showing the latest offer with the earlier amounts under it
+export function OffersInbox({ offers, currentUserId, onChanged }: OffersInboxProps) {
+  const byBuyer = new Map<string, Offer[]>()
+  offers.forEach(offer => {
+    byBuyer.set(offer.buyer_id, [...(byBuyer.get(offer.buyer_id) || []), offer])
+  })
+  const negotiations = Array.from(byBuyer.values())
+    .sort((a, b) => Number(isOfferOpen(b[0])) - Number(isOfferOpen(a[0])))
+
+  if (negotiations.length === 0) {
+    return <p className="text-sm text-gray-500">No offers yet.</p>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {negotiations.map(([latest, ...earlier]) => (
+        <div key={latest.buyer_id} className="space-y-1">
+          <OfferCard offer={latest} currentUserId={currentUserId} onChanged={onChanged} showBuyer />
+          {earlier.length > 0 && (
+            <p className="w-64 text-xs text-gray-500">
+              Earlier: {earlier.map(offer => `${formatOfferAmount(offer.amount)} (${offer.status})`).join(', ')}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react'
+import { Star, MessageCircle } from 'lucide-react'
+import { Reputation } from '../../lib/supabase'
+import { db } from '../../lib/data'
+
+interface StarsProps {
+  rating: number
+  className?: string
+}
+
+interface ReputationSummaryProps {
+  userId: string
+  className?: string
+}
+
+// Five stars, filled up to the rounded rating
+export function Stars({ rating, className = 'w-4 h-4' }: StarsProps) {
+  const filled = Math.round(rating)
+  return (
+    <span className="inline-flex items-center" aria-label={`${rating} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star
+          key={star}
+          className={`${className} ${star <= filled ? 'text-amber-400 fill-amber-400' : 'text-gray-300'}`}
+        />
+      ))}
+    </span>
+  )
+}
+
+// A trader's average rating, number of reviews and how often they answer
+// messages about their listings
+export function ReputationSummary({ userId, className = '' }: ReputationSummaryProps) {
+  const [reputation, setReputation] = useState<Reputation | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    db.reviews.getReputation(userId).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) console.error('Error loading reputation:', error)
+      setReputation(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  if (!reputation) return null
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600 ${className}`}>
+      {reputation.review_count > 0 ? (
+        <span className="flex items-center space-x-1">
+          <Stars rating={Number(reputation.rating_average)} className="w-3.5 h-3.5" />
+          <span className="font-medium text-gray-900">{Number(reputation.rating_average).toFixed(1)}</span>
+          <span>({reputation.review_count} {reputation.review_count === 1 ? 'review' : 'reviews'})</span>
+        </span>
+      ) : (
+        <span className="text-gray-500">No reviews yet</span>
+      )}
+      {reputation.response_rate !== null && (
+        <span className="flex items-center space-x-1">
+          <MessageCircle className="w-3.5 h-3.5" />
+          <span>Replies to {Math.round(reputation.response_rate * 100)}% of messages</span>
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react'
+import { X, Star } from 'lucide-react'
+import { MarketplaceItem, Review } from '../../lib/supabase'
+import { MAX_REVIEW_LENGTH, db } from '../../lib/data'
+
+interface ReviewDialogProps {
+  // A sold listing the current user bought or sold
+  item: MarketplaceItem
+  currentUserId: string
+  // Who is being reviewed, for the heading
+  revieweeName: string
+  onClose: () => void
+  onSaved?: (review: Review) => void
+}
+
+// Leaves a rating and short review of the other side of a sale, or edits the
+// one already left
+export function ReviewDialog({ item, currentUserId, revieweeName, onClose, onSaved }: ReviewDialogProps) {
+  const [existing, setExisting] = useState<Review | null>(null)
+  const [rating, setRating] = useState(0)
+  const [hovered, setHovered] = useState(0)
+  const [body, setBody] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReview = async () => {
+      const { data, error } = await db.reviews.listForItem(item.id)
+      if (error) console.error('Error loading review:', error)
+      const mine = (data || []).find(review => review.reviewer_id === currentUserId) || null
+      setExisting(mine)
+      if (mine) {
+        setRating(mine.rating)
+        setBody(mine.body)
+      }
+      setLoading(false)
+    }
+    loadReview()
+  }, [item.id, currentUserId])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (rating === 0) return
+
+    setSaving(true)
+    setError(null)
+    const { data, error } = await db.reviews.save(item.id, rating, body, currentUserId)
+    setSaving(false)
+    if (error) {
+      console.error('Error saving review:', error)
+      setError(error.message || 'Failed to save the review')
+      return
+    }
+    onSaved?.(data)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-900">
+              {existing ? 'Edit your review of' : 'Review'} {revieweeName}
+            </h3>
+            <p className="text-sm text-gray-500 truncate">{item.title}</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="p-4 text-sm text-gray-500">Loading...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-4 space-y-4">
+            <div className="flex items-center space-x-1" onMouseLeave={() => setHovered(0)}>
+              {[1, 2, 3, 4, 5].map(star => (
+                <button
+                  key={star}
+                  type="button"
+                  onClick={() => setRating(star)}
+                  onMouseEnter={() => setHovered(star)}
+                  className="p-0.5"
+                  title={`${star} ${star === 1 ? 'star' : 'stars'}`}
+                >
+                  <Star
+                    className={`w-7 h-7 ${
+                      star <= (hovered || rating) ? 'text-amber-400 fill-amber-400' : 'text-gray-300'
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                maxLength={MAX_REVIEW_LENGTH}
+                rows={4}
+                placeholder="How did the sale go? (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+              <p className="text-xs text-gray-400 text-right">{body.length}/{MAX_REVIEW_LENGTH}</p>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={rating === 0 || saving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : existing ? 'Update review' : 'Post review'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
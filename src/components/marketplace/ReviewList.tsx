@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Review } from '../../lib/supabase'
+import { db } from '../../lib/data'
+import { Stars } from './ReputationSummary'
+
+interface ReviewListProps {
+  userId: string
+}
+
+// Reviews a user received from the people they traded with, newest first
+export function ReviewList({ userId }: ReviewListProps) {
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      setLoading(true)
+      const { data, error } = await db.reviews.listForUser(userId)
+      if (error) console.error('Error loading reviews:', error)
+      setReviews(data || [])
+      setLoading(false)
+    }
+    loadReviews()
+  }, [userId])
+
+  if (loading) return <p className="text-sm text-gray-500">Loading reviews...</p>
+  if (reviews.length === 0) return <p className="text-sm text-gray-500">No reviews yet.</p>
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {reviews.map(review => {
+        const reviewer = review.reviewer?.display_name || review.reviewer?.full_name || review.reviewer?.username || 'Someone'
+        return (
+          <li key={review.id} className="py-3">
+            <div className="flex items-center justify-between">
+              <Stars rating={review.rating} className="w-3.5 h-3.5" />
+              <span className="text-xs text-gray-400">
+                {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                {review.updated_at !== review.created_at && ' · edited'}
+              </span>
+            </div>
+            {review.body && <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{review.body}</p>}
+            <p className="mt-1 text-xs text-gray-500">
+              {reviewer}, as the {review.reviewer_role}
+            </p>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react'
+import { Heart, Eye, TrendingDown } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { MarketplaceItem, Profile, WishlistEntry } from '../../lib/supabase'
+import { db } from '../../lib/data'
+import { ItemDetailModal } from './ItemDetailModal'
+import { ChatModal } from './ChatModal'
+import { LISTING_STATUS_LABELS, LISTING_STATUS_STYLES } from './ListingStatusTimeline'
+
+interface SavedItemsProps {
+  currentUser: Profile
+}
+
+export function SavedItems({ currentUser }: SavedItemsProps) {
+  const [entries, setEntries] = useState<WishlistEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedItem, setSelectedItem] = useState<MarketplaceItem | null>(null)
+  const [chatItem, setChatItem] = useState<MarketplaceItem | null>(null)
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  const loadEntries = async () => {
+    setLoading(true)
+    const { data, error } = await db.wishlist.list(currentUser.id)
+    if (error) console.error('Error fetching saved items:', error)
+    setEntries(data || [])
+    setLoading(false)
+  }
+
+  const handleRemove = async (itemId: string) => {
+    const { error } = await db.wishlist.setSaved(currentUser.id, itemId, false)
+    if (error) {
+      console.error('Error removing saved item:', error)
+      return
+    }
+    setEntries(prev => prev.filter(entry => entry.item_id !== itemId))
+    setSelectedItem(null)
+  }
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('ko-KR', {
+      style: 'currency',
+      currency: 'KRW'
+    }).format(price)
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading saved items...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Saved Items</h3>
+        <p className="text-gray-600">Get an alert when a listing you saved drops in price, is reserved or is sold</p>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">No saved items yet</p>
+          <p className="text-gray-400 text-sm mt-2">Tap the heart on a listing to save it</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(({ item, item_id, saved_price, created_at }) => (
+            <div
+              key={item_id}
+              className={`flex items-center bg-white border border-gray-200 rounded-lg p-4 ${
+                item ? 'hover:shadow-md transition-shadow cursor-pointer' : ''
+              }`}
+              onClick={() => item && setSelectedItem(item)}
+            >
+              <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+                {item?.images && item.images.length > 0 ? (
+                  <img src={item.images[0]} alt={item.title} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-400">
+                    <Eye className="w-6 h-6" />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0 ml-4">
+                {item ? (
+                  <>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-semibold text-gray-900 truncate">{item.title}</p>
+                      {item.status !== 'active' && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LISTING_STATUS_STYLES[item.status]}`}>
+                          {LISTING_STATUS_LABELS[item.status]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <p className="text-lg font-bold text-blue-600">{formatPrice(item.price)}</p>
+                      {saved_price !== null && item.price < saved_price && (
+                        <span className="flex items-center space-x-1 text-xs font-medium text-green-700">
+                          <TrendingDown className="w-3 h-3" />
+                          <span>down from {formatPrice(saved_price)}</span>
+                        </span>
+                      )}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-gray-500">This listing is no longer available</p>
+                )}
+                <p className="text-xs text-gray-400">
+                  Saved {formatDistanceToNow(new Date(created_at), { addSuffix: true })}
+                </p>
+              </div>
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleRemove(item_id)
+                }}
+                className="ml-4 p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                title="Remove from saved"
+              >
+                <Heart className="w-5 h-5 fill-current" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedItem && (
+        <ItemDetailModal
+          item={selectedItem}
+          currentUser={currentUser}
+          onClose={() => setSelectedItem(null)}
+          onContactSeller={item => setChatItem(item)}
+          saved
+          onToggleSaved={item => handleRemove(item.id)}
+        />
+      )}
+
+      {chatItem && (
+        <ChatModal
+          item={chatItem}
+          currentUser={currentUser}
+          onClose={() => setChatItem(null)}
+        />
+      )}
+    </div>
+  )
+}
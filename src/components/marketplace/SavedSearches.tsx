@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react'
+import { Search, BellRing, BellOff, Trash2, Edit } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Profile, SavedSearch } from '../../lib/supabase'
+import { db, describeSavedSearch } from '../../lib/data'
+
+interface SavedSearchesProps {
+  currentUser: Profile
+  // Opens the browse view with the search's filters
+  onRun: (search: SavedSearch) => void
+}
+
+export function SavedSearches({ currentUser, onRun }: SavedSearchesProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+
+  useEffect(() => {
+    loadSearches()
+  }, [])
+
+  const loadSearches = async () => {
+    setLoading(true)
+    const { data, error } = await db.savedSearches.list(currentUser.id)
+    if (error) console.error('Error fetching saved searches:', error)
+    setSearches(data || [])
+    setLoading(false)
+  }
+
+  const handleUpdate = async (search: SavedSearch, updates: Partial<SavedSearch>) => {
+    const { data, error } = await db.savedSearches.update(search.id, updates, currentUser.id)
+    if (error) {
+      console.error('Error updating saved search:', error)
+      return
+    }
+    setSearches(prev => prev.map(s => s.id === search.id ? data : s))
+  }
+
+  const handleRename = async (search: SavedSearch) => {
+    if (name.trim() && name.trim() !== search.name) await handleUpdate(search, { name: name.trim() })
+    setRenamingId(null)
+  }
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${search.name}"?`)) return
+
+    const { error } = await db.savedSearches.remove(search.id, currentUser.id)
+    if (error) {
+      console.error('Error deleting saved search:', error)
+    } else {
+      setSearches(prev => prev.filter(s => s.id !== search.id))
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading saved searches...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Saved Searches</h3>
+        <p className="text-gray-600">Get an alert when a new listing matches one of your searches</p>
+      </div>
+
+      {searches.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">No saved searches yet</p>
+          <p className="text-gray-400 text-sm mt-2">Use "Save search" while browsing to keep one</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {searches.map(search => (
+            <div key={search.id} className="flex items-center justify-between bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex-1 min-w-0">
+                {renamingId === search.id ? (
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onBlur={() => handleRename(search)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(search)
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    maxLength={80}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    autoFocus
+                  />
+                ) : (
+                  <p className="font-semibold text-gray-900 truncate">{search.name}</p>
+                )}
+                <p className="text-sm text-gray-600 truncate">{describeSavedSearch(search)}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Saved {formatDistanceToNow(new Date(search.created_at), { addSuffix: true })}
+                  {!search.alerts_enabled && ' · alerts off'}
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-2 ml-4">
+                <button
+                  onClick={() => onRun(search)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <Search className="w-4 h-4" />
+                  <span>Show results</span>
+                </button>
+                <button
+                  onClick={() => handleUpdate(search, { alerts_enabled: !search.alerts_enabled })}
+                  className={`p-2 rounded-full transition-colors ${
+                    search.alerts_enabled ? 'text-blue-600 hover:bg-blue-50' : 'text-gray-400 hover:bg-gray-100'
+                  }`}
+                  title={search.alerts_enabled ? 'Turn alerts off' : 'Turn alerts on'}
+                >
+                  {search.alerts_enabled ? <BellRing className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => {
+                    setName(search.name)
+                    setRenamingId(search.id)
+                  }}
+                  className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                  title="Rename"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(search)}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
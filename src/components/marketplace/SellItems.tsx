@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import { Upload, X, Plus } from 'lucide-react'
-import { createMarketplaceItem, uploadFile, Profile } from '../../lib/supabase'
+import { uploadFile, Profile } from '../../lib/supabase'
+import { db } from '../../lib/data'
 
 interface SellItemsProps {
   currentUser: Profile
@@ -59,8 +60,13 @@ export function SellItems({ currentUser }: SellItemsProps) {
     setImageUrls(prev => prev.filter((_, i) => i !== index))
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
+    submitListing('active')
+  }
+
+  // Drafts show up in My Items, where they can be published later
+  const submitListing = async (status: 'draft' | 'active') => {
     if (!formData.title || !formData.price || !formData.category || !formData.condition) {
       alert('Please fill in all required fields')
       return
@@ -68,7 +74,7 @@ export function SellItems({ currentUser }: SellItemsProps) {
 
     setSubmitting(true)
     try {
-      const item = await createMarketplaceItem({
+      const { data: item, error } = await db.marketplace.create({
         seller_id: currentUser.id,
         title: formData.title,
         description: formData.description,
@@ -76,11 +82,12 @@ export function SellItems({ currentUser }: SellItemsProps) {
         category: formData.category,
         condition: formData.condition,
         images: imageUrls,
-        is_sold: false
+        status
       })
+      if (error) console.error('Error creating marketplace item:', error)
 
       if (item) {
-        alert('Item listed successfully!')
+        alert(status === 'draft' ? 'Draft saved to My Items' : 'Item listed successfully!')
         // Reset form
         setFormData({
           title: '',
@@ -270,7 +277,15 @@ export function SellItems({ currentUser }: SellItemsProps) {
           </div>
 
           {/* Submit Button */}
-          <div className="flex justify-end">
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => submitListing('draft')}
+              disabled={submitting || uploading}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save as Draft
+            </button>
             <button
               type="submit"
               disabled={submitting || uploading}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Community, CommunityPermission, CommunityRole } from '../lib/supabase'
+import { db } from '../lib/data'
+import { roleAllows } from '../lib/communityPermissions'
+
+// The viewer's role in a community and what it lets them do. Everything is
+// denied until both have loaded, so controls appear rather than flicker away.
+export function useCommunityPermissions(communityId: string | null, userId: string) {
+  const [community, setCommunity] = useState<Community | null>(null)
+  const [role, setRole] = useState<CommunityRole | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!communityId) {
+      setCommunity(null)
+      setRole(null)
+      return
+    }
+
+    const [communityResult, roleResult] = await Promise.all([
+      db.communities.get(communityId),
+      db.communities.getRole(communityId, userId),
+    ])
+    if (communityResult.error) console.error('Error loading community:', communityResult.error)
+    if (roleResult.error) console.error('Error loading community role:', roleResult.error)
+    setCommunity(communityResult.data)
+    setRole(roleResult.data)
+  }, [communityId, userId])
+
+  useEffect(() => {
+    setCommunity(null)
+    setRole(null)
+    reload()
+  }, [reload])
+
+  const can = (permission: CommunityPermission) => roleAllows(role, permission, community)
+
+  return { community, role, can, reload }
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Message, Offer } from '../lib/supabase'
+import { db } from '../lib/data'
+
+// The offers carried by a conversation's messages, by id. Answers to an offer
+// arrive as new messages, so every new message refetches them and the cards
+// pick up accepted, declined and countered states without a subscription of
+// their own.
+export function useConversationOffers(messages: Message[]) {
+  const [offers, setOffers] = useState<Record<string, Offer>>({})
+
+  const offerIds = Array.from(new Set(messages.map(message => message.offer_id).filter(Boolean))) as string[]
+  const key = `${messages.length}:${offerIds.join(',')}`
+
+  const reload = useCallback(async () => {
+    if (offerIds.length === 0) {
+      setOffers({})
+      return
+    }
+    const { data, error } = await db.offers.listByIds(offerIds)
+    if (error) {
+      console.error('Error loading offers:', error)
+      return
+    }
+    setOffers(Object.fromEntries(data.map(offer => [offer.id, offer])))
+  }, [key])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { offers, reload }
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { PostVisibility, getCurrentUser } from '../lib/supabase'
+import { db } from '../lib/data'
+
+// How long typing has to pause before the draft is sent to the server
+const AUTOSAVE_DELAY_MS = 1500
+
+const STORAGE_PREFIX = 'tepitingkap:draft:'
+
+export interface DraftTarget {
+  communityId?: string | null
+  visibility?: PostVisibility
+}
+
+export interface DraftValue {
+  content: string
+  images: string[]
+  files: string[]
+}
+
+export type DraftStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+interface LocalDraft {
+  draftId: string | null
+  value: DraftValue
+  savedAt: string
+}
+
+const EMPTY_DRAFT: DraftValue = { content: '', images: [], files: [] }
+
+const isEmpty = (value: DraftValue) =>
+  !value.content.trim() && value.images.length === 0 && value.files.length === 0
+
+function readLocal(key: string): LocalDraft | null {
+  try {
+    const saved = window.localStorage.getItem(key)
+    return saved ? JSON.parse(saved) : null
+  } catch {
+    return null
+  }
+}
+
+function writeLocal(key: string, draft: LocalDraft | null) {
+  try {
+    if (draft) window.localStorage.setItem(key, JSON.stringify(draft))
+    else window.localStorage.removeItem(key)
+  } catch {
+    // Private mode or a full quota; the server copy still works
+  }
+}
+
+// A composer's text and attachments, kept in localStorage on every change
+// and on the server after a pause, so closing the composer or switching
+// devices doesn't lose them. There is one autosaved draft per target (the
+// public feed, anonymous, or a community); on open it restores whichever of
+// the local and server copies is newer.
+export function useDraftAutosave({ communityId = null, visibility = 'public' }: DraftTarget) {
+  const key = STORAGE_PREFIX + (communityId || visibility)
+  const [value, setValue] = useState<DraftValue>(() => readLocal(key)?.value || EMPTY_DRAFT)
+  const [status, setStatus] = useState<DraftStatus>('idle')
+  const [restored, setRestored] = useState(() => !isEmpty(readLocal(key)?.value || EMPTY_DRAFT))
+
+  const userId = useRef<string | null>(null)
+  const draftId = useRef<string | null>(readLocal(key)?.draftId || null)
+  const latest = useRef(value)
+  // Changed since the last server save
+  const dirty = useRef(false)
+  // Server saves run one at a time so a draft is never created twice
+  const queue = useRef<Promise<void>>(Promise.resolve())
+
+  const saveRemote = useCallback(async () => {
+    if (!userId.current || !dirty.current) return
+    dirty.current = false
+    const next = latest.current
+
+    if (isEmpty(next)) {
+      if (draftId.current) await db.drafts.remove(draftId.current, userId.current)
+      draftId.current = null
+      writeLocal(key, null)
+      setStatus('idle')
+      return
+    }
+
+    setStatus('saving')
+    let result = draftId.current
+      ? await db.drafts.update(draftId.current, next, userId.current)
+      : null
+    // Published or deleted from another device since; start a new draft
+    if (!result || result.error?.code === 'not_found') {
+      result = await db.drafts.create(userId.current, { ...next, community_id: communityId, visibility })
+    }
+    if (result.error) {
+      console.error('Error saving draft:', result.error)
+      dirty.current = true
+      setStatus('error')
+      return
+    }
+    draftId.current = result.data.id
+    writeLocal(key, { draftId: result.data.id, value: next, savedAt: result.data.updated_at })
+    setStatus('saved')
+  }, [key, communityId, visibility])
+
+  const flush = useCallback(() => {
+    queue.current = queue.current.then(saveRemote)
+    return queue.current
+  }, [saveRemote])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      const user = await getCurrentUser()
+      if (!user || cancelled) return
+      userId.current = user.id
+
+      const { data, error } = await db.drafts.list(user.id)
+      if (error) {
+        console.error('Error loading drafts:', error)
+        return
+      }
+      if (cancelled || dirty.current) return
+
+      const local = readLocal(key)
+      const server = local?.draftId
+        ? data.find(draft => draft.id === local.draftId)
+        : data.find(draft => !draft.scheduled_at && draft.community_id === communityId && draft.visibility === visibility)
+
+      if (local?.draftId && (!server || server.scheduled_at)) {
+        // Posted or scheduled elsewhere; what's left here is stale
+        draftId.current = null
+        writeLocal(key, null)
+        latest.current = EMPTY_DRAFT
+        setValue(EMPTY_DRAFT)
+        setRestored(false)
+        return
+      }
+      if (server && (!local || server.updated_at > local.savedAt)) {
+        const next = { content: server.content, images: server.images, files: server.files }
+        draftId.current = server.id
+        latest.current = next
+        writeLocal(key, { draftId: server.id, value: next, savedAt: server.updated_at })
+        setValue(next)
+        setRestored(!isEmpty(next))
+      } else if (local && !local.draftId && !isEmpty(local.value)) {
+        // Written offline or before the first server save
+        dirty.current = true
+        flush()
+      }
+    }
+
+    restore()
+    return () => { cancelled = true }
+  }, [key, communityId, visibility, flush])
+
+  useEffect(() => {
+    if (!dirty.current) return
+    writeLocal(key, { draftId: draftId.current, value, savedAt: new Date().toISOString() })
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [key, value, flush])
+
+  // Closing the composer mid-pause still saves
+  useEffect(() => () => { flush() }, [flush])
+
+  const update = (changes: Partial<DraftValue>) => {
+    dirty.current = true
+    setValue(prev => {
+      const next = { ...prev, ...changes }
+      latest.current = next
+      return next
+    })
+  }
+
+  const reset = () => {
+    dirty.current = false
+    draftId.current = null
+    latest.current = EMPTY_DRAFT
+    writeLocal(key, null)
+    setValue(EMPTY_DRAFT)
+    setRestored(false)
+    setStatus('idle')
+  }
+
+  // After posting, or when the author throws the draft away
+  const discard = async () => {
+    dirty.current = false
+    await queue.current
+    const saved = draftId.current
+    reset()
+    if (saved && userId.current) await db.drafts.remove(saved, userId.current)
+  }
+
+  // Hands the draft to the publishing job. Rejects with the reason it
+  // couldn't be scheduled, leaving the draft as it was.
+  const schedule = async (at: Date) => {
+    dirty.current = true
+    await flush()
+    if (!draftId.current || !userId.current) throw new Error('The draft could not be saved')
+    const { error } = await db.drafts.update(draftId.current, { scheduled_at: at.toISOString() }, userId.current)
+    if (error) throw error
+    reset()
+  }
+
+  return { value, update, status, restored, discard, schedule }
+}
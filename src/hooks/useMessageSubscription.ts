@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react'
+import { Message } from '../lib/supabase'
+import { ChannelStatus, MessageChangeFilter, subscribeToMessages } from '../lib/realtime'
+
+interface UseMessageSubscriptionOptions {
+  topic: string
+  filters: MessageChangeFilter[]
+  enabled?: boolean
+  since?: string | null
+  seenIds?: string[]
+  backfill?: (since: string | null) => Promise<Message[]>
+  onInsert?: (message: Message) => void
+  onUpdate?: (message: Message) => void
+}
+
+export function useMessageSubscription({
+  topic,
+  filters,
+  enabled = true,
+  since,
+  seenIds,
+  backfill,
+  onInsert,
+  onUpdate
+}: UseMessageSubscriptionOptions) {
+  const [status, setStatus] = useState<ChannelStatus | null>(null)
+
+  // Keep the latest callbacks without resubscribing on every render
+  const handlers = useRef({ backfill, onInsert, onUpdate, since, seenIds })
+  handlers.current = { backfill, onInsert, onUpdate, since, seenIds }
+
+  const filterKey = filters.map(filter => `${filter.column}=${filter.value}`).join('&')
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const unsubscribe = subscribeToMessages({
+      topic,
+      filters,
+      since: handlers.current.since,
+      seenIds: handlers.current.seenIds,
+      backfill: sinceCursor => handlers.current.backfill?.(sinceCursor) ?? Promise.resolve([]),
+      onInsert: message => handlers.current.onInsert?.(message),
+      onUpdate: message => handlers.current.onUpdate?.(message),
+      onStatusChange: setStatus
+    })
+
+    return () => {
+      unsubscribe()
+      setStatus(null)
+    }
+  }, [topic, filterKey, enabled])
+
+  return { status, connected: status === 'SUBSCRIBED' }
+}
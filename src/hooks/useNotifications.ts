@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Notification } from '../lib/supabase'
+import { db } from '../lib/data'
+
+// How often the unread badge is refreshed while the app is open
+const POLL_INTERVAL_MS = 30000
+
+// The unread count, polled and refreshed when the window regains focus, plus
+// the notification list, which is only fetched when asked for (when the panel
+// opens). Marking read updates both locally before the server confirms.
+export function useNotifications(userId: string) {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refreshCount = useCallback(async () => {
+    const { data, error } = await db.notifications.countUnread(userId)
+    if (error) {
+      console.error('Error counting notifications:', error)
+      return
+    }
+    setUnreadCount(data)
+  }, [userId])
+
+  const loadNotifications = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await db.notifications.list(userId)
+    if (error) {
+      console.error('Error loading notifications:', error)
+      setError('Failed to load notifications')
+    } else {
+      setError(null)
+      setNotifications(data)
+      setUnreadCount(data.filter(notification => !notification.read_at).length)
+    }
+    setLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    refreshCount()
+    const interval = setInterval(refreshCount, POLL_INTERVAL_MS)
+    window.addEventListener('focus', refreshCount)
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('focus', refreshCount)
+    }
+  }, [refreshCount])
+
+  const applyRead = (isTarget: (notification: Notification) => boolean) => {
+    const readAt = new Date().toISOString()
+    const marked = notifications.filter(notification => !notification.read_at && isTarget(notification)).length
+    setNotifications(prev => prev.map(notification =>
+      notification.read_at || !isTarget(notification) ? notification : { ...notification, read_at: readAt }
+    ))
+    setUnreadCount(prev => Math.max(0, prev - marked))
+  }
+
+  const markRead = async (notificationIds: string[]) => {
+    const unread = notifications.filter(notification => notificationIds.includes(notification.id) && !notification.read_at)
+    if (unread.length === 0) return
+    applyRead(notification => notificationIds.includes(notification.id))
+    const { error } = await db.notifications.markRead(unread.map(notification => notification.id))
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      refreshCount()
+    }
+  }
+
+  const markAllRead = async () => {
+    applyRead(() => true)
+    setUnreadCount(0)
+    const { error } = await db.notifications.markAllRead(userId)
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      loadNotifications()
+    }
+  }
+
+  return { notifications, unreadCount, loading, error, loadNotifications, markRead, markAllRead }
+}
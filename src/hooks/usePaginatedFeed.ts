@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { FeedCursor, FeedItem, FeedPage, appendFeedItems, mergeFeedItems } from '../lib/pagination'
+
+interface UsePaginatedFeedOptions<T extends FeedItem> {
+  // Changing the key resets the feed (e.g. switching section or community)
+  key: string
+  fetchPage: (cursor: FeedCursor | null) => Promise<FeedPage<T>>
+  // Counts rows newer than the head of the feed, for the "new posts" banner
+  countNewer?: (head: FeedItem) => Promise<number>
+  // Ranked feeds keep the order pages arrive in instead of re-sorting by date
+  ranked?: boolean
+  pollInterval?: number
+  enabled?: boolean
+}
+
+export function usePaginatedFeed<T extends FeedItem>({
+  key,
+  fetchPage,
+  countNewer,
+  ranked = false,
+  pollInterval = 30000,
+  enabled = true
+}: UsePaginatedFeedOptions<T>) {
+  const [items, setItems] = useState<T[]>([])
+  const [cursor, setCursor] = useState<FeedCursor | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newCount, setNewCount] = useState(0)
+
+  const fetchers = useRef({ fetchPage, countNewer })
+  fetchers.current = { fetchPage, countNewer }
+  const merge = ranked ? appendFeedItems : mergeFeedItems
+
+  // Guards against responses from a previous key landing after a reset
+  const requestKey = useRef(key)
+
+  const refresh = useCallback(async () => {
+    requestKey.current = key
+    setLoading(true)
+    setError(null)
+    setNewCount(0)
+
+    try {
+      const page = await fetchers.current.fetchPage(null)
+      if (requestKey.current !== key) return
+      setItems(page.items)
+      setCursor(page.nextCursor)
+      setHasMore(!!page.nextCursor)
+    } catch (err: any) {
+      if (requestKey.current !== key) return
+      console.error('Error loading feed:', err)
+      setError(err?.message || 'Failed to load posts')
+    } finally {
+      if (requestKey.current === key) setLoading(false)
+    }
+  }, [key])
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore || !cursor) return
+    const currentKey = key
+    setLoadingMore(true)
+
+    try {
+      const page = await fetchers.current.fetchPage(cursor)
+      if (requestKey.current !== currentKey) return
+      setItems(prev => merge(prev, page.items))
+      setCursor(page.nextCursor)
+      setHasMore(!!page.nextCursor)
+    } catch (err: any) {
+      console.error('Error loading more posts:', err)
+      setError(err?.message || 'Failed to load more posts')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [key, cursor, hasMore, loading, loadingMore, ranked])
+
+  // Pulls the newest page in above what's already loaded. If more rows arrived
+  // than fit in one page there would be a gap, so start over instead.
+  const showNewItems = useCallback(async () => {
+    if (newCount === 0) return
+
+    try {
+      const page = await fetchers.current.fetchPage(null)
+      if (requestKey.current !== key) return
+      if (page.nextCursor && newCount >= page.items.length) {
+        await refresh()
+        return
+      }
+      setItems(prev => mergeFeedItems(prev, page.items))
+      setNewCount(0)
+    } catch (err) {
+      console.error('Error loading new posts:', err)
+    }
+  }, [key, newCount, refresh])
+
+  const updateItem = useCallback((id: string, update: (item: T) => T) => {
+    setItems(prev => prev.map(item => (item.id === id ? update(item) : item)))
+  }, [])
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id))
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    setItems([])
+    setCursor(null)
+    setHasMore(false)
+    refresh()
+  }, [refresh, enabled])
+
+  const head = items[0]
+
+  useEffect(() => {
+    if (!enabled || !head || !fetchers.current.countNewer) return
+
+    const interval = setInterval(async () => {
+      try {
+        const count = await fetchers.current.countNewer?.(head)
+        if (requestKey.current === key) setNewCount(count || 0)
+      } catch (err) {
+        console.error('Error checking for new posts:', err)
+      }
+    }, pollInterval)
+
+    return () => clearInterval(interval)
+  }, [key, head?.id, head?.created_at, pollInterval, enabled])
+
+  return {
+    items,
+    setItems,
+    updateItem,
+    removeItem,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    newCount,
+    loadMore,
+    refresh,
+    showNewItems
+  }
+}
@@ -0,0 +1,12 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ResolvedRoute, currentLocation, resolveRoute, subscribeToLocation } from '../lib/router'
+
+// The page and overlay for the current URL, updated on navigation and on
+// back/forward.
+export function useRoute(): ResolvedRoute {
+  const [location, setLocation] = useState(currentLocation)
+
+  useEffect(() => subscribeToLocation(setLocation), [])
+
+  return useMemo(() => resolveRoute(location), [location])
+}
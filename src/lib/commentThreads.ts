@@ -0,0 +1,72 @@
+import type { Comment } from './data/types'
+
+// Comments are stored flat with a `parent_id`; these helpers turn a post's
+// comments into reply trees for display.
+
+// How many levels of replies sit under a top-level comment. Replying at the
+// deepest level adds a sibling instead of nesting further.
+export const MAX_REPLY_DEPTH = 3
+
+// Replies shown under a comment before "show more replies"
+export const VISIBLE_REPLIES = 2
+
+export interface CommentNode {
+  comment: Comment
+  depth: number
+  replies: CommentNode[]
+}
+
+function hasLiveReplies(node: CommentNode): boolean {
+  return node.replies.some(reply => !reply.comment.deleted_at || hasLiveReplies(reply))
+}
+
+// Deleted comments stay in the tree only while they still hold up replies
+function prune(nodes: CommentNode[]): CommentNode[] {
+  return nodes
+    .map(node => ({ ...node, replies: prune(node.replies) }))
+    .filter(node => !node.comment.deleted_at || hasLiveReplies(node))
+}
+
+function setDepth(nodes: CommentNode[], depth: number) {
+  nodes.forEach(node => {
+    node.depth = depth
+    setDepth(node.replies, depth + 1)
+  })
+}
+
+// Builds the reply trees, oldest first at every level. A reply whose parent
+// isn't in the list is shown as a top-level comment.
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const nodes = new Map<string, CommentNode>()
+  sorted.forEach(comment => nodes.set(comment.id, { comment, depth: 0, replies: [] }))
+
+  const roots: CommentNode[] = []
+  sorted.forEach(comment => {
+    const node = nodes.get(comment.id)!
+    const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  setDepth(roots, 0)
+  return prune(roots)
+}
+
+// The comment a reply to `node` should be attached to
+export function replyParentId(node: CommentNode): string {
+  if (node.depth >= MAX_REPLY_DEPTH && node.comment.parent_id) return node.comment.parent_id
+  return node.comment.id
+}
+
+export function countReplies(node: CommentNode): number {
+  return node.replies.reduce((count, reply) => count + 1 + countReplies(reply), 0)
+}
+
+// Comments that haven't been deleted, for headers like "Comments (3)"
+export function countLiveComments(comments: Comment[]): number {
+  return comments.filter(comment => !comment.deleted_at).length
+}
@@ -0,0 +1,49 @@
+import type { CommunityInviteLink } from './data/types'
+import { paths } from './router'
+
+// Invite link rules shared by the memory backend and the admin panel. The
+// database has the same checks in invite_link_state().
+
+export type InviteLinkState = 'active' | 'revoked' | 'expired' | 'used_up'
+
+export function inviteLinkState(link: CommunityInviteLink, now: Date = new Date()): InviteLinkState {
+  if (link.revoked_at) return 'revoked'
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now.getTime()) return 'expired'
+  if (link.max_uses !== null && link.use_count >= link.max_uses) return 'used_up'
+  return 'active'
+}
+
+export const INVITE_LINK_STATE_LABELS: Record<InviteLinkState, string> = {
+  active: 'Active',
+  revoked: 'Revoked',
+  expired: 'Expired',
+  used_up: 'Used up',
+}
+
+// Choices offered when creating a link; null means no limit
+export const INVITE_EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+  { label: 'Never', hours: null },
+]
+
+export const INVITE_MAX_USE_OPTIONS: (number | null)[] = [1, 5, 10, 25, null]
+
+export function inviteExpiry(hours: number | null, now: Date = new Date()): string | null {
+  return hours === null ? null : new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString()
+}
+
+const CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'
+const CODE_LENGTH = 10
+
+// Only used offline; Supabase generates codes itself
+export function generateInviteCode(): string {
+  const bytes = new Uint8Array(CODE_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+}
+
+export function inviteLinkUrl(code: string): string {
+  return `${window.location.origin}${paths.join(code)}`
+}
@@ -0,0 +1,67 @@
+import type { Community, CommunityPermission, CommunityPermissions, CommunityRole } from './data/types'
+
+// Who may do what inside a community. Each community stores the overrides it
+// has made to the defaults below; the database applies the same rules in
+// community_can() (see add_community_moderators.sql).
+
+const ROLE_RANK: Record<CommunityRole, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+}
+
+export const COMMUNITY_ROLES: CommunityRole[] = ['member', 'moderator', 'admin']
+
+export const ROLE_LABELS: Record<CommunityRole, string> = {
+  member: 'Member',
+  moderator: 'Moderator',
+  admin: 'Admin',
+}
+
+export const DEFAULT_COMMUNITY_PERMISSIONS: CommunityPermissions = {
+  post: 'member',
+  comment: 'member',
+  pin: 'moderator',
+  delete_posts: 'moderator',
+  invite: 'admin',
+  manage_settings: 'admin',
+}
+
+interface PermissionOption {
+  permission: CommunityPermission
+  label: string
+  // The roles an admin can pick as the minimum
+  roles: CommunityRole[]
+}
+
+// Rows of the permission matrix, in display order. Settings can never be
+// opened to plain members, or anyone could rename the community; pinning and
+// deleting are moderation tools.
+export const COMMUNITY_PERMISSION_OPTIONS: PermissionOption[] = [
+  { permission: 'post', label: 'Create posts', roles: COMMUNITY_ROLES },
+  { permission: 'comment', label: 'Comment', roles: COMMUNITY_ROLES },
+  { permission: 'pin', label: 'Pin posts', roles: ['moderator', 'admin'] },
+  { permission: 'delete_posts', label: "Delete others' posts", roles: ['moderator', 'admin'] },
+  { permission: 'invite', label: 'Invite and approve members', roles: COMMUNITY_ROLES },
+  { permission: 'manage_settings', label: 'Change community settings', roles: ['moderator', 'admin'] },
+]
+
+export function communityPermissions(community: Pick<Community, 'permissions'> | null | undefined): CommunityPermissions {
+  return { ...DEFAULT_COMMUNITY_PERMISSIONS, ...(community?.permissions || {}) }
+}
+
+// Non-members (role null) can do nothing
+export function roleAllows(
+  role: CommunityRole | null | undefined,
+  permission: CommunityPermission,
+  community: Pick<Community, 'permissions'> | null | undefined
+): boolean {
+  if (!role) return false
+  return ROLE_RANK[role] >= ROLE_RANK[communityPermissions(community)[permission]]
+}
+
+// Changing roles, removing members and editing the matrix itself stay with
+// admins; none of it is configurable
+export function canManageRoles(role: CommunityRole | null | undefined): boolean {
+  return role === 'admin'
+}
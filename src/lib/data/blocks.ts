@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { UserBlock, UserMute } from './types'
+
+// A user's own block and mute lists. Hiding the content itself happens where
+// it is read (RLS on Supabase, see add_blocks_and_mutes.sql), so nothing else
+// has to check these lists.
+export interface BlockStatus {
+  blocked: boolean
+  muted: boolean
+}
+
+export interface BlocksRepository {
+  // Newest first, with the other person's profile
+  listBlocked(userId: string): Promise<Result<UserBlock[]>>
+  listMuted(userId: string): Promise<Result<UserMute[]>>
+  // Whether `userId` blocked or muted `targetId`; a block the other way is not shown
+  getStatus(userId: string, targetId: string): Promise<Result<BlockStatus>>
+  setBlocked(userId: string, targetId: string, blocked: boolean): Promise<Result<null>>
+  setMuted(userId: string, targetId: string, muted: boolean): Promise<Result<null>>
+}
+
+export function createSupabaseBlocksRepository(client: SupabaseClient): BlocksRepository {
+  return {
+    listBlocked: userId => run(
+      client
+        .from('user_blocks')
+        .select(`*, profiles:profiles!user_blocks_blocked_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('blocker_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    listMuted: userId => run(
+      client
+        .from('user_mutes')
+        .select(`*, profiles:profiles!user_mutes_muted_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('muter_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    getStatus: (userId, targetId) => attempt(async () => {
+      const [blocks, mutes] = await Promise.all([
+        client.from('user_blocks').select('blocked_id').eq('blocker_id', userId).eq('blocked_id', targetId),
+        client.from('user_mutes').select('muted_id').eq('muter_id', userId).eq('muted_id', targetId),
+      ])
+      if (blocks.error) throw blocks.error
+      if (mutes.error) throw mutes.error
+      return { blocked: (blocks.data || []).length > 0, muted: (mutes.data || []).length > 0 }
+    }),
+
+    setBlocked: (userId, targetId, blocked) => run(
+      blocked
+        ? client.from('user_blocks').upsert({ blocker_id: userId, blocked_id: targetId }, { ignoreDuplicates: true })
+        : client.from('user_blocks').delete().eq('blocker_id', userId).eq('blocked_id', targetId)
+    ),
+
+    setMuted: (userId, targetId, muted) => run(
+      muted
+        ? client.from('user_mutes').upsert({ muter_id: userId, muted_id: targetId }, { ignoreDuplicates: true })
+        : client.from('user_mutes').delete().eq('muter_id', userId).eq('muted_id', targetId)
+    ),
+  }
+}
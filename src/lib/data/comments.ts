@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run, unwrap } from './result'
+import { POST_TABLES, PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Comment, PostKind } from './types'
+
+export interface NewComment {
+  post_id: string
+  user_id: string
+  content: string
+  parent_id?: string | null
+}
+
+export interface CommentsRepository {
+  // `viewerId` leaves out blocked commenters on the memory backend; Supabase does that in RLS
+  listForPost(kind: PostKind, postId: string, viewerId: string): Promise<Result<Comment[]>>
+  create(kind: PostKind, comment: NewComment): Promise<Result<Comment>>
+  // Only the author edits a comment; moderators of the post's community and site
+  // admins may also remove it. `userId` is checked by the memory backend;
+  // Supabase uses the session.
+  update(kind: PostKind, commentId: string, content: string, userId: string): Promise<Result<Comment>>
+  // Soft delete: clears the content and sets `deleted_at`, keeping the row for its replies
+  remove(kind: PostKind, commentId: string, userId: string): Promise<Result<Comment>>
+}
+
+const COMMENT_PROFILE_EMBED: Record<PostKind, string> = {
+  post: 'profiles',
+  community_post: 'profiles!community_comments_user_id_fkey',
+}
+
+export function createSupabaseCommentsRepository(client: SupabaseClient): CommentsRepository {
+  const columns = (kind: PostKind): string => `*, ${COMMENT_PROFILE_EMBED[kind]} (${PROFILE_SUMMARY_COLUMNS})`
+
+  return {
+    listForPost: (kind, postId) => run(
+      client
+        .from(POST_TABLES[kind].comments)
+        .select<string, Comment>(columns(kind))
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true })
+    ),
+
+    create: (kind, comment) => run(
+      client
+        .from(POST_TABLES[kind].comments)
+        .insert(comment)
+        .select<string, Comment>(columns(kind))
+        .single()
+    ),
+
+    update: (kind, commentId, content) => run(
+      client
+        .from(POST_TABLES[kind].comments)
+        .update({ content, edited_at: new Date().toISOString() })
+        .eq('id', commentId)
+        .is('deleted_at', null)
+        .select<string, Comment>(columns(kind))
+        .single()
+    ),
+
+    // An RPC, since moderators' deletes aren't covered by the update policy
+    remove: (kind, commentId) => attempt(async () => {
+      const { error } = await client.rpc('remove_comment', { kind, comment_id: commentId })
+      if (error) throw error
+      return unwrap(await run(
+        client
+          .from(POST_TABLES[kind].comments)
+          .select<string, Comment>(columns(kind))
+          .eq('id', commentId)
+          .single()
+      ))
+    }),
+  }
+}
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, fail, ok, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Community, CommunityMembership, CommunityPermissions, CommunityRole } from './types'
+
+export interface NewCommunity {
+  name: string
+  description?: string | null
+  is_private?: boolean
+  created_by: string
+}
+
+export interface CommunityListOptions {
+  orderBy?: 'created_at' | 'member_count' | 'name'
+  // Private communities are only listed for their members. Supabase gets
+  // this from RLS; the memory backend needs to know who is asking.
+  viewerId?: string
+}
+
+export interface CommunitiesRepository {
+  list(options?: CommunityListOptions): Promise<Result<Community[]>>
+  get(communityId: string): Promise<Result<Community>>
+  create(community: NewCommunity): Promise<Result<Community>>
+  listCreatedBy(userId: string): Promise<Result<Community[]>>
+  // Communities the user has a membership row in, sorted by name
+  listForMember(userId: string): Promise<Result<Community[]>>
+  listMembers(communityId: string): Promise<Result<CommunityMembership[]>>
+  getRole(communityId: string, userId: string): Promise<Result<CommunityRole | null>>
+  // Skips the invite flow, which the app goes through `db.invites` for
+  addMember(communityId: string, userId: string, role?: CommunityRole): Promise<Result<CommunityMembership>>
+  leave(communityId: string, userId: string): Promise<Result<null>>
+  updateMemberRole(membershipId: string, role: CommunityRole): Promise<Result<null>>
+  removeMember(membershipId: string): Promise<Result<null>>
+  // Admins only. `updatedBy` is checked by the memory backend; Supabase uses
+  // the session.
+  updatePermissions(communityId: string, permissions: CommunityPermissions, updatedBy: string): Promise<Result<Community>>
+}
+
+export function createSupabaseCommunitiesRepository(client: SupabaseClient): CommunitiesRepository {
+  return {
+    list: ({ orderBy = 'created_at' } = {}) => run(
+      client
+        .from('communities')
+        .select('*')
+        .order(orderBy, { ascending: orderBy === 'name' })
+    ),
+
+    get: communityId => run(
+      client
+        .from('communities')
+        .select('*')
+        .eq('id', communityId)
+        .single()
+    ),
+
+    create: community => run(
+      client
+        .from('communities')
+        .insert(community)
+        .select()
+        .single()
+    ),
+
+    listCreatedBy: userId => run(
+      client
+        .from('communities')
+        .select('*')
+        .eq('created_by', userId)
+        .order('name', { ascending: true })
+    ),
+
+    listForMember: async userId => {
+      const { data, error } = await client
+        .from('community_memberships')
+        .select('communities!inner (*)')
+        .eq('user_id', userId)
+
+      if (error) return fail(error)
+
+      const communities = (data || [])
+        .map((membership: any) => membership.communities as Community)
+        .filter(Boolean)
+        .sort((a, b) => a.name.localeCompare(b.name))
+      return ok(communities)
+    },
+
+    listMembers: communityId => run(
+      client
+        .from('community_memberships')
+        .select(`
+          id,
+          community_id,
+          user_id,
+          role,
+          joined_at,
+          profiles (${PROFILE_SUMMARY_COLUMNS})
+        `)
+        .eq('community_id', communityId)
+        .order('role', { ascending: false })
+        .order('joined_at', { ascending: true })
+    ),
+
+    getRole: async (communityId, userId) => {
+      const { data, error } = await client
+        .from('community_memberships')
+        .select('role')
+        .eq('community_id', communityId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) return fail(error)
+      return ok((data?.role as CommunityRole) || null)
+    },
+
+    addMember: (communityId, userId, role = 'member') => run(
+      client
+        .from('community_memberships')
+        .insert({ community_id: communityId, user_id: userId, role })
+        .select()
+        .single()
+    ),
+
+    leave: (communityId, userId) => run(
+      client
+        .from('community_memberships')
+        .delete()
+        .eq('community_id', communityId)
+        .eq('user_id', userId)
+    ),
+
+    updateMemberRole: (membershipId, role) => run(
+      client
+        .from('community_memberships')
+        .update({ role })
+        .eq('id', membershipId)
+    ),
+
+    removeMember: membershipId => run(
+      client
+        .from('community_memberships')
+        .delete()
+        .eq('id', membershipId)
+    ),
+
+    updatePermissions: (communityId, permissions) => run(
+      client
+        .from('communities')
+        .update({ permissions, updated_at: new Date().toISOString() })
+        .eq('id', communityId)
+        .select()
+        .single()
+    ),
+  }
+}
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, run } from './result'
+import { POST_DRAFTS_TABLE } from './tables'
+import { PostDraft } from './types'
+
+// What the composers save. Leaving `community_id` out drafts a post for the
+// public or anonymous feed.
+export interface DraftFields {
+  community_id?: string | null
+  visibility?: PostDraft['visibility']
+  content: string
+  images?: string[]
+  files?: string[]
+  // Null cancels the schedule
+  scheduled_at?: string | null
+}
+
+// A user's unpublished posts. Scheduled drafts are published by
+// publish_scheduled_posts() (see create_post_drafts.sql), which deletes them;
+// one that fails keeps the reason in `publish_error`.
+export interface DraftsRepository {
+  // Most recently edited first, with the community's name
+  list(userId: string): Promise<Result<PostDraft[]>>
+  create(userId: string, draft: DraftFields): Promise<Result<PostDraft>>
+  update(draftId: string, draft: Partial<DraftFields>, userId: string): Promise<Result<PostDraft>>
+  // Posts the draft now and resolves with the new post's id
+  publish(draftId: string, userId: string): Promise<Result<string>>
+  remove(draftId: string, userId: string): Promise<Result<null>>
+}
+
+export function createSupabaseDraftsRepository(client: SupabaseClient): DraftsRepository {
+  return {
+    list: userId => run(
+      client
+        .from(POST_DRAFTS_TABLE)
+        .select('*, communities (id, name)')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+    ),
+
+    create: (userId, draft) => run(
+      client
+        .from(POST_DRAFTS_TABLE)
+        .insert({ ...draft, user_id: userId })
+        .select('*, communities (id, name)')
+        .single()
+    ),
+
+    update: (draftId, draft, userId) => run(
+      client
+        .from(POST_DRAFTS_TABLE)
+        .update(draft)
+        .eq('id', draftId)
+        .eq('user_id', userId)
+        .select('*, communities (id, name)')
+        .single()
+    ),
+
+    publish: draftId => run(client.rpc('publish_post_draft', { target_draft: draftId })),
+
+    remove: (draftId, userId) => run(
+      client
+        .from(POST_DRAFTS_TABLE)
+        .delete()
+        .eq('id', draftId)
+        .eq('user_id', userId)
+    ),
+  }
+}
@@ -0,0 +1,550 @@
+import type { AnonymousAliasRow, ListingStatusChangeRow, MarketplaceItemRow, MemoryTables, ReportRow } from './memory'
+import { conversationIdFor } from './messages'
+import { Profile } from './types'
+
+// Seed data for the in-memory backend. This is the only place demo content is
+// defined: the offline app and tests both start from `createFixtures()`.
+
+// Everyone using the app without a Supabase project is signed in as this user
+export const OFFLINE_USER_ID = 'demo-user'
+
+const MINUTE = 1000 * 60
+const HOUR = MINUTE * 60
+
+const PHOTOS = {
+  welcome: 'https://images.pexels.com/photos/1591056/pexels-photo-1591056.jpeg?auto=compress&cs=tinysrgb&w=800',
+  sunset: 'https://images.pexels.com/photos/1181677/pexels-photo-1181677.jpeg?auto=compress&cs=tinysrgb&w=800',
+  book: 'https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800',
+  project: 'https://images.pexels.com/photos/574071/pexels-photo-574071.jpeg?auto=compress&cs=tinysrgb&w=800',
+  macbook: 'https://images.pexels.com/photos/205421/pexels-photo-205421.jpeg?auto=compress&cs=tinysrgb&w=800',
+  jacket: 'https://images.pexels.com/photos/1124465/pexels-photo-1124465.jpeg?auto=compress&cs=tinysrgb&w=800',
+  books: 'https://images.pexels.com/photos/159711/books-bookstore-book-reading-159711.jpeg?auto=compress&cs=tinysrgb&w=800',
+  chair: 'https://images.pexels.com/photos/4050315/pexels-photo-4050315.jpeg?auto=compress&cs=tinysrgb&w=800',
+  racket: 'https://images.pexels.com/photos/209977/pexels-photo-209977.jpeg?auto=compress&cs=tinysrgb&w=800',
+}
+
+export function createFixtures(now: number = Date.now()): MemoryTables {
+  const ago = (ms: number) => new Date(now - ms).toISOString()
+  const joined = ago(HOUR * 24 * 30)
+
+  const profile = (id: string, fields: Partial<Profile> & Pick<Profile, 'full_name' | 'email'>): Profile => ({
+    id,
+    username: null,
+    display_name: null,
+    avatar_url: null,
+    bio: null,
+    website: null,
+    location: null,
+    created_at: joined,
+    updated_at: joined,
+    ...fields,
+  })
+
+  const profiles: Profile[] = [
+    // A site admin, so the moderation queue can be tried offline
+    profile(OFFLINE_USER_ID, { full_name: 'Demo User', username: 'demouser', display_name: 'demouser', email: 'demo@example.com', is_site_admin: true }),
+    profile('demo-user-2', { full_name: 'Nature Lover', username: 'naturelover', display_name: 'naturelover', email: 'nature@example.com' }),
+    profile('demo-user-3', { full_name: 'Book Reader', username: 'booklover', display_name: 'booklover', email: 'books@example.com' }),
+    profile('demo-user-4', { full_name: 'Creative User', username: 'creative', display_name: 'creative', email: 'creative@example.com' }),
+    profile('demo-seller-1', { full_name: 'Tech Seller', username: 'techseller', display_name: 'techseller', email: 'tech@example.com', bio: 'Selling quality tech items', location: 'Seoul' }),
+    profile('demo-seller-2', { full_name: 'Fashion Lover', username: 'fashionista', display_name: 'fashionista', email: 'fashion@example.com', bio: 'Vintage fashion enthusiast', location: 'Busan' }),
+    profile('demo-seller-3', { full_name: 'Code Master', username: 'codemaster', display_name: 'codemaster', email: 'code@example.com', bio: 'Software developer and book collector', location: 'Incheon' }),
+    profile('demo-seller-4', { full_name: 'Gamer Pro', username: 'gamerpro', display_name: 'gamerpro', email: 'gamer@example.com', bio: 'Gaming enthusiast', location: 'Daegu' }),
+    profile('demo-seller-5', { full_name: 'Sports Fan', username: 'sportsfan', display_name: 'sportsfan', email: 'sports@example.com', bio: 'Sports equipment collector', location: 'Gwangju' }),
+  ]
+
+  const communities = [
+    { id: 'gmik', name: 'GMIK', description: 'GMIK Community - Connect with fellow members', member_count: 42 },
+    { id: 'programmer', name: 'Programmer', description: 'No Life Pipol - For developers and tech enthusiasts', member_count: 128 },
+    { id: 'design', name: 'Design Hub', description: 'Creative minds unite - Share your designs and get feedback', member_count: 67 },
+    { id: 'photography', name: 'Photography', description: 'Capture and share beautiful moments', member_count: 89 },
+    { id: 'bookclub', name: 'Book Club', description: 'Invite-only reading circle - one book a month', member_count: 12, is_private: true },
+  ].map(community => ({
+    image_url: null,
+    is_private: false,
+    ...community,
+    created_by: 'demo-user-2',
+    created_at: joined,
+    updated_at: joined,
+  }))
+
+  const community_memberships = [
+    { community_id: 'gmik', user_id: OFFLINE_USER_ID, role: 'admin' as const },
+    { community_id: 'gmik', user_id: 'demo-user-4', role: 'moderator' as const },
+    { community_id: 'programmer', user_id: OFFLINE_USER_ID, role: 'member' as const },
+    ...communities.map(community => ({ community_id: community.id, user_id: 'demo-user-2', role: 'admin' as const })),
+    ...communities.map(community => ({ community_id: community.id, user_id: 'demo-user-4', role: 'member' as const })),
+  ]
+    .filter((membership, index, all) => all.findIndex(other =>
+      other.community_id === membership.community_id && other.user_id === membership.user_id
+    ) === index)
+    .map(membership => ({ ...membership, id: `membership-${membership.community_id}-${membership.user_id}`, joined_at: joined }))
+
+  const posts = [
+    {
+      id: 'post-welcome',
+      user_id: OFFLINE_USER_ID,
+      content: 'Welcome to TepiTingkap! This is a demo post to show how the platform works. You can share your thoughts, images, and connect with others in the community.',
+      images: [PHOTOS.welcome],
+      visibility: 'public' as const,
+      created_at: ago(MINUTE * 30),
+    },
+    {
+      id: 'post-sunset',
+      user_id: 'demo-user-2',
+      content: 'Beautiful sunset today! 🌅 Sometimes we need to pause and appreciate the simple moments in life.',
+      images: [PHOTOS.sunset],
+      visibility: 'public' as const,
+      created_at: ago(HOUR * 2),
+    },
+    {
+      id: 'post-book',
+      user_id: 'demo-user-3',
+      content: 'Just finished reading an amazing book! 📚 "The Power of Now" really changed my perspective on mindfulness and living in the present moment.',
+      images: [PHOTOS.book],
+      visibility: 'public' as const,
+      created_at: ago(HOUR * 4),
+    },
+    {
+      id: 'post-anonymous-privacy',
+      user_id: 'demo-user-4',
+      content: 'This is an anonymous post. You can share your thoughts freely without revealing your identity. Perfect for sensitive topics or when you want complete privacy.',
+      images: [],
+      visibility: 'anonymous' as const,
+      created_at: ago(MINUTE * 45),
+    },
+    {
+      id: 'post-anonymous-sharing',
+      user_id: 'demo-user-3',
+      content: 'Sharing this anonymously - sometimes it\'s easier to express thoughts without revealing identity. What do you think about anonymous social sharing?',
+      images: [],
+      visibility: 'anonymous' as const,
+      created_at: ago(HOUR * 3),
+    },
+  ].map(post => ({ ...post, files: [], community_id: null, updated_at: post.created_at }))
+
+  const community_posts = communities.flatMap(community => [
+    {
+      id: `${community.id}-post-1`,
+      user_id: OFFLINE_USER_ID,
+      content: `Welcome to ${community.name}! This is a demo post to show how community posts work. You can share images, files, and have full discussions here.`,
+      images: [PHOTOS.welcome],
+      created_at: ago(MINUTE * 30),
+    },
+    {
+      id: `${community.id}-post-2`,
+      user_id: 'demo-user-2',
+      content: 'Great to be part of this community! Looking forward to connecting with everyone here. 🚀',
+      images: [],
+      created_at: ago(HOUR * 2),
+    },
+    {
+      id: `${community.id}-post-3`,
+      user_id: 'demo-user-4',
+      content: 'Check out this amazing project I\'ve been working on! Would love to get your feedback and suggestions. 💡',
+      images: [PHOTOS.project],
+      created_at: ago(HOUR * 4),
+    },
+  ].map(post => ({
+    ...post,
+    community_id: community.id,
+    files: [],
+    updated_at: post.created_at,
+    // Every community keeps its welcome post on top
+    pinned_at: post.id.endsWith('-post-1') ? joined : null,
+    pinned_by: post.id.endsWith('-post-1') ? 'demo-user-2' : null,
+  })))
+
+  const comments = [
+    { id: 'comment-welcome-1', post_id: 'post-welcome', user_id: 'demo-user-2', content: 'Glad to be here! 👋', created_at: ago(MINUTE * 20) },
+    { id: 'comment-welcome-2', post_id: 'post-welcome', user_id: 'demo-user-3', content: 'Looks great so far.', created_at: ago(MINUTE * 10) },
+    { id: 'comment-welcome-3', post_id: 'post-welcome', user_id: OFFLINE_USER_ID, parent_id: 'comment-welcome-1', content: 'Welcome aboard!', created_at: ago(MINUTE * 5) },
+    { id: 'comment-sunset-1', post_id: 'post-sunset', user_id: OFFLINE_USER_ID, content: 'Stunning colours!', created_at: ago(HOUR) },
+    { id: 'comment-anonymous-1', post_id: 'post-anonymous-sharing', user_id: 'demo-user-2', content: 'It helps people speak up about things they would otherwise keep to themselves.', created_at: ago(HOUR * 2) },
+    { id: 'comment-anonymous-2', post_id: 'post-anonymous-sharing', user_id: 'demo-user-3', parent_id: 'comment-anonymous-1', content: 'That was my thinking too, thanks for saying it.', created_at: ago(HOUR + MINUTE * 30) },
+    { id: 'comment-anonymous-3', post_id: 'post-anonymous-sharing', user_id: OFFLINE_USER_ID, content: 'As long as people stay kind, I am all for it.', created_at: ago(HOUR) },
+    { id: 'comment-anonymous-4', post_id: 'post-anonymous-sharing', user_id: 'demo-user-2', parent_id: 'comment-anonymous-3', content: 'Agreed, the moderators help with that.', created_at: ago(MINUTE * 40) },
+  ]
+
+  // Authors first, then commenters in the order they joined each thread
+  const anonymous_aliases: AnonymousAliasRow[] = []
+  posts.filter(post => post.visibility === 'anonymous').forEach(post => {
+    const commenters = comments
+      .filter(comment => comment.post_id === post.id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(comment => comment.user_id)
+    const members = new Set([post.user_id, ...commenters])
+    Array.from(members).forEach((user_id, alias) => anonymous_aliases.push({ post_id: post.id, user_id, alias }))
+  })
+
+  const likes = [
+    { id: 'like-welcome-2', post_id: 'post-welcome', user_id: 'demo-user-2', created_at: ago(MINUTE * 25) },
+    { id: 'like-welcome-3', post_id: 'post-welcome', user_id: 'demo-user-3', reaction: 'love' as const, created_at: ago(MINUTE * 15) },
+    { id: 'like-sunset-1', post_id: 'post-sunset', user_id: OFFLINE_USER_ID, created_at: ago(HOUR) },
+    { id: 'like-sunset-4', post_id: 'post-sunset', user_id: 'demo-user-4', reaction: 'wow' as const, created_at: ago(HOUR) },
+    { id: 'like-book-2', post_id: 'post-book', user_id: 'demo-user-2', created_at: ago(HOUR * 3) },
+    { id: 'like-anonymous-1', post_id: 'post-anonymous-sharing', user_id: OFFLINE_USER_ID, created_at: ago(HOUR * 2) },
+  ]
+
+  const community_comments = communities.map(community => ({
+    id: `${community.id}-comment-1`,
+    post_id: `${community.id}-post-3`,
+    user_id: 'demo-user-2',
+    content: 'Really nice work, thanks for sharing!',
+    created_at: ago(HOUR * 3),
+  }))
+
+  const community_likes = communities.flatMap(community => [
+    { id: `${community.id}-like-1`, post_id: `${community.id}-post-1`, user_id: 'demo-user-2', created_at: ago(MINUTE * 20) },
+    { id: `${community.id}-like-2`, post_id: `${community.id}-post-3`, user_id: OFFLINE_USER_ID, created_at: ago(HOUR * 3) },
+  ])
+
+  const marketplace_items: MarketplaceItemRow[] = [
+    {
+      id: 'demo-item-1',
+      seller_id: 'demo-seller-1',
+      title: 'MacBook Pro 14" M3',
+      description: 'Excellent condition MacBook Pro with M3 chip. Perfect for developers and creative professionals. Includes original charger and box.',
+      price: 2500000,
+      category: 'Electronics',
+      condition: 'Like New',
+      images: [PHOTOS.macbook],
+      location: 'Seoul',
+      created_at: ago(HOUR * 24),
+    },
+    {
+      id: 'demo-item-2',
+      seller_id: 'demo-seller-2',
+      title: 'Vintage Leather Jacket',
+      description: 'Authentic vintage leather jacket from the 80s. Great condition with unique character. Size M.',
+      price: 150000,
+      category: 'Clothing',
+      condition: 'Good',
+      images: [PHOTOS.jacket],
+      location: 'Busan',
+      created_at: ago(HOUR * 48),
+    },
+    {
+      id: 'demo-item-3',
+      seller_id: 'demo-seller-3',
+      title: 'Programming Books Collection',
+      description: 'Collection of essential programming books including Clean Code, Design Patterns, and more. Perfect for developers.',
+      price: 75000,
+      category: 'Books',
+      condition: 'Good',
+      images: [PHOTOS.books],
+      location: 'Incheon',
+      created_at: ago(HOUR * 72),
+    },
+    {
+      id: 'demo-item-4',
+      seller_id: 'demo-seller-4',
+      title: 'Gaming Chair - Ergonomic',
+      description: 'High-quality gaming chair with lumbar support. Very comfortable for long gaming or work sessions.',
+      price: 250000,
+      category: 'Furniture',
+      condition: 'New',
+      images: [PHOTOS.chair],
+      location: 'Daegu',
+      created_at: ago(HOUR * 96),
+    },
+    {
+      id: 'demo-item-5',
+      seller_id: 'demo-seller-5',
+      title: 'Tennis Racket - Wilson Pro',
+      description: 'Professional tennis racket in excellent condition. Perfect weight and balance for competitive play.',
+      price: 120000,
+      category: 'Sports',
+      condition: 'Like New',
+      images: [PHOTOS.racket],
+      location: 'Gwangju',
+      created_at: ago(HOUR * 120),
+    },
+  ].map(item => ({
+    ...item,
+    is_sold: false,
+    status: 'active' as const,
+    expires_at: new Date(now + HOUR * 24 * 25).toISOString(),
+    updated_at: item.created_at,
+  }))
+
+  const marketplace_item_status_changes: ListingStatusChangeRow[] = marketplace_items.map(item => ({
+    id: `${item.id}-listed`,
+    item_id: item.id,
+    from_status: null,
+    to_status: 'active' as const,
+    buyer_id: null,
+    changed_by: item.seller_id,
+    created_at: item.created_at,
+  }))
+
+  // Something the offline user bought and has yet to review
+  const purchase = {
+    id: 'demo-item-6',
+    seller_id: 'demo-seller-2',
+    title: 'Film Camera - Canon AE-1',
+    description: 'Classic 35mm film camera with a 50mm lens. Tested with a roll of film, everything works.',
+    price: 180000,
+    category: 'Electronics',
+    condition: 'Good',
+    images: [],
+    location: 'Busan',
+    is_sold: true,
+    status: 'sold' as const,
+    buyer_id: OFFLINE_USER_ID,
+    sold_at: ago(HOUR * 20),
+    expires_at: null,
+    created_at: ago(HOUR * 24 * 6),
+    updated_at: ago(HOUR * 20),
+  }
+  marketplace_items.push(purchase)
+  marketplace_item_status_changes.push(
+    { id: 'demo-item-6-listed', item_id: purchase.id, from_status: null, to_status: 'active', buyer_id: null, changed_by: purchase.seller_id, created_at: purchase.created_at },
+    { id: 'demo-item-6-sold', item_id: purchase.id, from_status: 'active', to_status: 'sold', buyer_id: OFFLINE_USER_ID, changed_by: purchase.seller_id, created_at: purchase.sold_at }
+  )
+
+  // Earlier sales, whose listings have since been deleted
+  const marketplace_reviews = [
+    {
+      id: 'review-1',
+      item_id: null,
+      reviewer_id: 'demo-user-2',
+      reviewee_id: 'demo-seller-1',
+      reviewer_role: 'buyer' as const,
+      rating: 5,
+      body: 'Item exactly as described and we met right on time. Would buy again.',
+      created_at: ago(HOUR * 24 * 12),
+      updated_at: ago(HOUR * 24 * 12),
+    },
+    {
+      id: 'review-2',
+      item_id: null,
+      reviewer_id: 'demo-user-3',
+      reviewee_id: 'demo-seller-1',
+      reviewer_role: 'buyer' as const,
+      rating: 4,
+      body: 'Good seller, a little slow to reply.',
+      created_at: ago(HOUR * 24 * 20),
+      updated_at: ago(HOUR * 24 * 20),
+    },
+    {
+      id: 'review-3',
+      item_id: null,
+      reviewer_id: 'demo-seller-1',
+      reviewee_id: 'demo-user-2',
+      reviewer_role: 'seller' as const,
+      rating: 5,
+      body: 'Friendly buyer, paid on the spot.',
+      created_at: ago(HOUR * 24 * 12),
+      updated_at: ago(HOUR * 24 * 12),
+    },
+  ]
+
+  const conversationId = conversationIdFor(OFFLINE_USER_ID, 'demo-seller-1')
+  const messages = [
+    {
+      id: 'message-1',
+      sender_id: OFFLINE_USER_ID,
+      receiver_id: 'demo-seller-1',
+      content: 'Hi! Is the MacBook Pro still available? I\'m very interested.',
+      created_at: ago(HOUR),
+      read_at: ago(MINUTE * 50),
+    },
+    {
+      id: 'message-2',
+      sender_id: 'demo-seller-1',
+      receiver_id: OFFLINE_USER_ID,
+      content: 'Yes, it\'s still available! Would you like to know more details?',
+      created_at: ago(MINUTE * 45),
+      read_at: ago(MINUTE * 40),
+    },
+    {
+      id: 'message-3',
+      sender_id: 'demo-seller-1',
+      receiver_id: OFFLINE_USER_ID,
+      content: 'I can also meet near the station this weekend if that helps.',
+      created_at: ago(MINUTE * 30),
+    },
+  ].map(message => ({ ...message, conversation_id: conversationId, item_id: 'demo-item-1' }))
+
+  // How the offline user came to buy the camera
+  const purchaseConversationId = conversationIdFor(OFFLINE_USER_ID, purchase.seller_id)
+  messages.push(...[
+    {
+      id: 'message-4',
+      sender_id: OFFLINE_USER_ID,
+      receiver_id: purchase.seller_id,
+      content: 'Hello! Does the camera come with the lens cap?',
+      created_at: ago(HOUR * 24 * 2),
+      read_at: ago(HOUR * 24 * 2),
+    },
+    {
+      id: 'message-5',
+      sender_id: purchase.seller_id,
+      receiver_id: OFFLINE_USER_ID,
+      content: 'It does. I can meet you in Busan tomorrow.',
+      created_at: ago(HOUR * 24 * 2 - MINUTE * 20),
+      read_at: ago(HOUR * 24),
+    },
+  ].map(message => ({ ...message, conversation_id: purchaseConversationId, item_id: purchase.id })))
+
+  // A link the demo user shares as GMIK's admin, an invite to the private
+  // Book Club waiting for them, and a request to join GMIK for them to answer
+  const community_invite_links = [
+    { id: 'invite-link-gmik', community_id: 'gmik', code: 'gmik2024', created_by: OFFLINE_USER_ID, expires_at: null, max_uses: 25, use_count: 3, revoked_at: null, created_at: ago(HOUR * 24 * 2) },
+  ]
+
+  const community_invites = [
+    { id: 'invite-bookclub', community_id: 'bookclub', user_id: OFFLINE_USER_ID, invited_by: 'demo-user-2', status: 'pending' as const, created_at: ago(HOUR * 2), responded_at: null },
+  ]
+
+  const community_join_requests = [
+    { id: 'join-request-gmik', community_id: 'gmik', user_id: 'demo-user-3', message: 'Alumni from 2019, would love to join!', status: 'pending' as const, created_at: ago(HOUR), decided_by: null, decided_at: null },
+  ]
+
+  // What the seeded activity above would have produced
+  const notifications = [
+    { id: 'notification-1', actor_id: 'demo-user-2', type: 'reaction' as const, post_kind: 'post' as const, post_id: 'post-welcome', reaction: 'like' as const, created_at: ago(MINUTE * 25), read_at: ago(MINUTE * 24) },
+    { id: 'notification-2', actor_id: 'demo-user-2', type: 'comment' as const, post_kind: 'post' as const, post_id: 'post-welcome', comment_id: 'comment-welcome-1', preview: 'Glad to be here! 👋', created_at: ago(MINUTE * 20) },
+    { id: 'notification-3', actor_id: 'demo-user-3', type: 'reaction' as const, post_kind: 'post' as const, post_id: 'post-welcome', reaction: 'love' as const, created_at: ago(MINUTE * 15) },
+    { id: 'notification-4', actor_id: 'demo-user-3', type: 'comment' as const, post_kind: 'post' as const, post_id: 'post-welcome', comment_id: 'comment-welcome-2', preview: 'Looks great so far.', created_at: ago(MINUTE * 10) },
+    { id: 'notification-5', actor_id: 'demo-seller-1', type: 'message' as const, conversation_id: conversationId, item_id: 'demo-item-1', preview: 'I can also meet near the station this weekend if that helps.', created_at: ago(MINUTE * 30) },
+    { id: 'notification-6', actor_id: 'demo-user-2', type: 'reaction' as const, post_kind: 'community_post' as const, post_id: 'gmik-post-1', community_id: 'gmik', reaction: 'like' as const, created_at: ago(MINUTE * 20) },
+    { id: 'notification-7', actor_id: 'demo-user-2', type: 'community_invite' as const, community_id: 'bookclub', created_at: ago(HOUR * 2) },
+    { id: 'notification-8', actor_id: 'demo-user-3', type: 'join_request' as const, community_id: 'gmik', preview: 'Alumni from 2019, would love to join!', created_at: ago(HOUR) },
+  ].map(notification => ({
+    post_kind: null,
+    post_id: null,
+    comment_id: null,
+    community_id: null,
+    conversation_id: null,
+    item_id: null,
+    reaction: null,
+    preview: null,
+    read_at: null,
+    ...notification,
+    user_id: OFFLINE_USER_ID,
+  }))
+
+  const report = (fields: Pick<ReportRow, 'id' | 'reporter_id' | 'target_type' | 'target_id' | 'target_user_id' | 'target_preview' | 'reason' | 'created_at'> & Partial<ReportRow>): ReportRow => ({
+    community_id: null,
+    anonymous: false,
+    details: null,
+    status: 'open',
+    resolution: null,
+    resolved_by: null,
+    resolved_at: null,
+    ...fields,
+  })
+
+  const reports: ReportRow[] = [
+    report({
+      id: 'report-anonymous-1',
+      reporter_id: 'demo-user-2',
+      target_type: 'post',
+      target_id: 'post-anonymous-privacy',
+      target_user_id: 'demo-user-4',
+      target_preview: posts.find(post => post.id === 'post-anonymous-privacy')!.content,
+      anonymous: true,
+      reason: 'other',
+      details: 'Reads like an advert for the app rather than a real post.',
+      created_at: ago(MINUTE * 40),
+    }),
+    ...['demo-user-2', 'demo-user-3'].map((reporter, index) => report({
+      id: `report-listing-${index + 1}`,
+      reporter_id: reporter,
+      target_type: 'listing',
+      target_id: 'demo-item-4',
+      target_user_id: 'demo-seller-4',
+      target_preview: 'Gaming Chair - Ergonomic — High-quality gaming chair with lumbar support.',
+      reason: 'scam',
+      details: index === 0 ? 'Seller asked me to pay by bank transfer before meeting.' : null,
+      created_at: ago(HOUR * (index + 1)),
+    })),
+    report({
+      id: 'report-gmik-1',
+      reporter_id: 'demo-user-3',
+      target_type: 'community_post',
+      target_id: 'gmik-post-3',
+      target_user_id: 'demo-user-4',
+      community_id: 'gmik',
+      target_preview: community_posts.find(post => post.id === 'gmik-post-3')!.content,
+      reason: 'spam',
+      created_at: ago(MINUTE * 50),
+    }),
+    report({
+      id: 'report-gmik-2',
+      reporter_id: 'demo-user-3',
+      target_type: 'community_post',
+      target_id: 'gmik-post-2',
+      target_user_id: 'demo-user-2',
+      community_id: 'gmik',
+      target_preview: community_posts.find(post => post.id === 'gmik-post-2')!.content,
+      reason: 'spam',
+      status: 'dismissed',
+      resolution: 'dismiss',
+      resolved_by: 'demo-user-4',
+      resolved_at: ago(HOUR * 20),
+      created_at: ago(HOUR * 22),
+    }),
+  ]
+
+  const moderation_actions = [
+    {
+      id: 'moderation-action-1',
+      moderator_id: 'demo-user-4',
+      action: 'dismiss' as const,
+      target_type: 'community_post' as const,
+      target_id: 'gmik-post-2',
+      target_user_id: 'demo-user-2',
+      community_id: 'gmik',
+      note: 'Just an introduction post.',
+      report_count: 1,
+      created_at: ago(HOUR * 20),
+    },
+  ]
+
+  return {
+    profiles,
+    posts,
+    likes,
+    comments,
+    community_posts,
+    community_likes,
+    community_comments,
+    communities,
+    community_memberships,
+    community_invite_links,
+    community_invites,
+    community_join_requests,
+    marketplace_items,
+    messages,
+    notifications,
+    reports,
+    moderation_actions,
+    user_bans: [],
+    anonymous_aliases,
+    user_blocks: [],
+    user_mutes: [],
+    follows: [
+      { follower_id: OFFLINE_USER_ID, followee_id: 'demo-user-2', created_at: ago(HOUR * 48) },
+      { follower_id: 'demo-user-2', followee_id: OFFLINE_USER_ID, created_at: ago(HOUR * 48) },
+      { follower_id: 'demo-user-3', followee_id: OFFLINE_USER_ID, created_at: ago(HOUR * 24) },
+    ],
+    post_revisions: [],
+    post_drafts: [],
+    polls: [],
+    poll_options: [],
+    poll_votes: [],
+    marketplace_offers: [],
+    marketplace_item_status_changes,
+    marketplace_reviews,
+    marketplace_saved_searches: [],
+    marketplace_wishlist: [
+      { user_id: OFFLINE_USER_ID, item_id: 'demo-item-3', saved_price: 90000, created_at: ago(HOUR * 60) },
+    ],
+    marketplace_price_changes: [
+      { id: 'demo-price-change-1', item_id: 'demo-item-3', old_price: 90000, new_price: 75000, created_at: ago(HOUR * 30) },
+    ],
+  }
+}
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Follow } from './types'
+
+export interface FollowCounts {
+  followers: number
+  following: number
+}
+
+export interface FollowsRepository {
+  // Newest first, with the follower's profile
+  listFollowers(userId: string): Promise<Result<Follow[]>>
+  // Newest first, with the followed person's profile
+  listFollowing(userId: string): Promise<Result<Follow[]>>
+  getCounts(userId: string): Promise<Result<FollowCounts>>
+  isFollowing(userId: string, targetId: string): Promise<Result<boolean>>
+  setFollowing(userId: string, targetId: string, following: boolean): Promise<Result<null>>
+}
+
+export function createSupabaseFollowsRepository(client: SupabaseClient): FollowsRepository {
+  const count = async (column: 'follower_id' | 'followee_id', userId: string): Promise<number> => {
+    const { count, error } = await client
+      .from('follows')
+      .select('follower_id', { count: 'exact', head: true })
+      .eq(column, userId)
+    if (error) throw error
+    return count || 0
+  }
+
+  return {
+    listFollowers: userId => run(
+      client
+        .from('follows')
+        .select(`*, profiles:profiles!follows_follower_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('followee_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    listFollowing: userId => run(
+      client
+        .from('follows')
+        .select(`*, profiles:profiles!follows_followee_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('follower_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    getCounts: userId => attempt(async () => {
+      const [followers, following] = await Promise.all([count('followee_id', userId), count('follower_id', userId)])
+      return { followers, following }
+    }),
+
+    isFollowing: (userId, targetId) => attempt(async () => {
+      const { data, error } = await client
+        .from('follows')
+        .select('followee_id')
+        .eq('follower_id', userId)
+        .eq('followee_id', targetId)
+      if (error) throw error
+      return (data || []).length > 0
+    }),
+
+    setFollowing: (userId, targetId, following) => run(
+      following
+        ? client.from('follows').upsert({ follower_id: userId, followee_id: targetId }, { ignoreDuplicates: true })
+        : client.from('follows').delete().eq('follower_id', userId).eq('followee_id', targetId)
+    ),
+  }
+}
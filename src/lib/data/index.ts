@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { hasValidSupabaseConfig, supabase } from '../supabase'
+import { createLocalMessageChangeSource, setMessageChangeSource } from '../realtime'
+import { BlocksRepository, createSupabaseBlocksRepository } from './blocks'
+import { CommentsRepository, createSupabaseCommentsRepository } from './comments'
+import { CommunitiesRepository, createSupabaseCommunitiesRepository } from './communities'
+import { DraftsRepository, createSupabaseDraftsRepository } from './drafts'
+import { FollowsRepository, createSupabaseFollowsRepository } from './follows'
+import { InvitesRepository, createSupabaseInvitesRepository } from './invites'
+import { MarketplaceRepository, createSupabaseMarketplaceRepository } from './marketplace'
+import { MessagesRepository, createSupabaseMessagesRepository } from './messages'
+import { ModerationRepository, createSupabaseModerationRepository } from './moderation'
+import { NotificationsRepository, createSupabaseNotificationsRepository } from './notifications'
+import { OffersRepository, createSupabaseOffersRepository } from './offers'
+import { PollsRepository, createSupabasePollsRepository } from './polls'
+import { PostsRepository, createSupabasePostsRepository } from './posts'
+import { ProfilesRepository, createSupabaseProfilesRepository } from './profiles'
+import { ReactionsRepository, createSupabaseReactionsRepository } from './reactions'
+import { ReviewsRepository, createSupabaseReviewsRepository } from './reviews'
+import { SavedSearchesRepository, createSupabaseSavedSearchesRepository } from './savedSearches'
+import { WishlistRepository, createSupabaseWishlistRepository } from './wishlist'
+import { SearchRepository, createSupabaseSearchRepository } from './search'
+import { createMemoryBackend, createMemoryStore } from './memory'
+import { createFixtures } from './fixtures'
+
+// The data-access layer. Components go through `db` rather than querying
+// tables directly, so table names, embeds and error handling live in one place.
+
+export interface DataBackend {
+  profiles: ProfilesRepository
+  posts: PostsRepository
+  comments: CommentsRepository
+  reactions: ReactionsRepository
+  communities: CommunitiesRepository
+  invites: InvitesRepository
+  marketplace: MarketplaceRepository
+  messages: MessagesRepository
+  notifications: NotificationsRepository
+  search: SearchRepository
+  moderation: ModerationRepository
+  blocks: BlocksRepository
+  follows: FollowsRepository
+  drafts: DraftsRepository
+  polls: PollsRepository
+  offers: OffersRepository
+  reviews: ReviewsRepository
+  savedSearches: SavedSearchesRepository
+  wishlist: WishlistRepository
+}
+
+export function createSupabaseBackend(client: SupabaseClient): DataBackend {
+  return {
+    profiles: createSupabaseProfilesRepository(client),
+    posts: createSupabasePostsRepository(client),
+    comments: createSupabaseCommentsRepository(client),
+    reactions: createSupabaseReactionsRepository(client),
+    communities: createSupabaseCommunitiesRepository(client),
+    invites: createSupabaseInvitesRepository(client),
+    marketplace: createSupabaseMarketplaceRepository(client),
+    messages: createSupabaseMessagesRepository(client),
+    notifications: createSupabaseNotificationsRepository(client),
+    search: createSupabaseSearchRepository(client),
+    moderation: createSupabaseModerationRepository(client),
+    blocks: createSupabaseBlocksRepository(client),
+    follows: createSupabaseFollowsRepository(client),
+    drafts: createSupabaseDraftsRepository(client),
+    polls: createSupabasePollsRepository(client),
+    offers: createSupabaseOffersRepository(client),
+    reviews: createSupabaseReviewsRepository(client),
+    savedSearches: createSupabaseSavedSearchesRepository(client),
+    wishlist: createSupabaseWishlistRepository(client),
+  }
+}
+
+// Without a Supabase project the app runs on the fixtures, saved to
+// localStorage, and message writes are fanned out through a local realtime
+// source so open chats update the same way they do online.
+export function createOfflineBackend(): DataBackend {
+  const changes = createLocalMessageChangeSource()
+  setMessageChangeSource(changes)
+
+  const store = createMemoryStore({
+    seed: createFixtures(),
+    storage: typeof window !== 'undefined' ? window.localStorage : undefined,
+  })
+  return createMemoryBackend(store, { onMessageChange: change => changes.emit(change) })
+}
+
+let backend: DataBackend = hasValidSupabaseConfig() ? createSupabaseBackend(supabase) : createOfflineBackend()
+
+export function setDataBackend(next: DataBackend) {
+  backend = next
+}
+
+export function getDataBackend(): DataBackend {
+  return backend
+}
+
+// Resolves against whichever backend is current at call time
+export const db: DataBackend = {
+  get profiles() { return backend.profiles },
+  get posts() { return backend.posts },
+  get comments() { return backend.comments },
+  get reactions() { return backend.reactions },
+  get communities() { return backend.communities },
+  get invites() { return backend.invites },
+  get marketplace() { return backend.marketplace },
+  get messages() { return backend.messages },
+  get notifications() { return backend.notifications },
+  get search() { return backend.search },
+  get moderation() { return backend.moderation },
+  get blocks() { return backend.blocks },
+  get follows() { return backend.follows },
+  get drafts() { return backend.drafts },
+  get polls() { return backend.polls },
+  get offers() { return backend.offers },
+  get reviews() { return backend.reviews },
+  get savedSearches() { return backend.savedSearches },
+  get wishlist() { return backend.wishlist },
+}
+
+export * from './result'
+export type { FeedPost, FeedSection, NewPost, NewCommunityPost, PostEdit } from './posts'
+export { isCommunitySection, postKindForSection, sectionForPost } from './posts'
+export type { NewComment } from './comments'
+export type { NewCommunity } from './communities'
+export type { DraftFields } from './drafts'
+export type { FollowCounts } from './follows'
+export type { InviteLinkPreview, NewInviteLink } from './invites'
+export type { NewMarketplaceItem } from './marketplace'
+export { LISTING_LIFETIME_DAYS, LISTING_TRANSITIONS, canChangeListingStatus } from './marketplace'
+export type { NewMessage } from './messages'
+export type { OfferResponse } from './offers'
+export { OFFER_LIFETIME_HOURS, isOfferOpen } from './offers'
+export { MAX_REVIEW_LENGTH } from './reviews'
+export type { NewSavedSearch } from './savedSearches'
+export { EMPTY_SEARCH_FILTERS, describeSavedSearch, matchesSavedSearch } from './savedSearches'
+export type { NewPoll } from './polls'
+export { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, isPollClosed } from './polls'
+export { conversationIdFor } from './messages'
+export type { BlockStatus } from './blocks'
+export type { ModerationScope, NewReport, ReportTarget } from './moderation'
+export type { SearchGroup, SearchResult, SearchResultKind, SearchResults } from './search'
+export type { MemoryStore, MemoryTables } from './memory'
+export { createMemoryBackend, createMemoryStore } from './memory'
+export { createFixtures, OFFLINE_USER_ID } from './fixtures'
+export type { NewProfile } from './profiles'
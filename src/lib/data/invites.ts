@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { InviteLinkState } from '../communityInvites'
+import { Result, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Community, CommunityInvite, CommunityInviteLink, CommunityJoinRequest } from './types'
+
+// The ways into a community other than creating it: invite links, personal
+// invites the invitee accepts, and join requests an admin approves. Anything
+// that creates a membership goes through a database function on Supabase,
+// which checks the caller itself; the `userId`/`decidedBy` arguments below
+// are for the memory backend.
+
+export interface NewInviteLink {
+  community_id: string
+  created_by: string
+  expires_at?: string | null
+  max_uses?: number | null
+}
+
+// What someone opening an invite link sees before joining
+export interface InviteLinkPreview {
+  community: Pick<Community, 'id' | 'name' | 'description' | 'member_count' | 'is_private'>
+  state: InviteLinkState
+  is_member: boolean
+}
+
+export interface InvitesRepository {
+  // Newest first, including revoked and expired links
+  listLinks(communityId: string): Promise<Result<CommunityInviteLink[]>>
+  createLink(link: NewInviteLink): Promise<Result<CommunityInviteLink>>
+  revokeLink(linkId: string): Promise<Result<null>>
+  previewLink(code: string, viewerId: string): Promise<Result<InviteLinkPreview>>
+  // Resolves to the community id
+  redeemLink(code: string, userId: string): Promise<Result<string>>
+
+  invite(communityId: string, userId: string, invitedBy: string): Promise<Result<CommunityInvite>>
+  // Pending invites sent for a community, with the invitee's profile
+  listSentInvites(communityId: string): Promise<Result<CommunityInvite[]>>
+  // Pending invites the user has received, with the community and inviter
+  listReceivedInvites(userId: string): Promise<Result<CommunityInvite[]>>
+  respondToInvite(inviteId: string, accept: boolean): Promise<Result<null>>
+  revokeInvite(inviteId: string): Promise<Result<null>>
+
+  requestToJoin(communityId: string, userId: string, message?: string | null): Promise<Result<CommunityJoinRequest>>
+  cancelRequest(requestId: string): Promise<Result<null>>
+  // The user's pending requests
+  listMyRequests(userId: string): Promise<Result<CommunityJoinRequest[]>>
+  // The approval queue, oldest first, with the requester's profile
+  listPendingRequests(communityId: string): Promise<Result<CommunityJoinRequest[]>>
+  decideRequest(requestId: string, approve: boolean, decidedBy: string): Promise<Result<null>>
+}
+
+export function createSupabaseInvitesRepository(client: SupabaseClient): InvitesRepository {
+  return {
+    listLinks: communityId => run(
+      client
+        .from('community_invite_links')
+        .select('*')
+        .eq('community_id', communityId)
+        .order('created_at', { ascending: false })
+    ),
+
+    createLink: link => run(
+      client
+        .from('community_invite_links')
+        .insert(link)
+        .select()
+        .single()
+    ),
+
+    revokeLink: linkId => run(
+      client
+        .from('community_invite_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', linkId)
+    ),
+
+    previewLink: code => run(client.rpc('preview_community_invite', { invite_code: code })),
+
+    redeemLink: code => run(client.rpc('redeem_community_invite', { invite_code: code })),
+
+    invite: (communityId, userId, invitedBy) => run(
+      client
+        .from('community_invites')
+        .insert({ community_id: communityId, user_id: userId, invited_by: invitedBy })
+        .select()
+        .single()
+    ),
+
+    listSentInvites: communityId => run(
+      client
+        .from('community_invites')
+        .select(`*, invitee:profiles!community_invites_user_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('community_id', communityId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+    ),
+
+    listReceivedInvites: userId => run(
+      client
+        .from('community_invites')
+        .select(`
+          *,
+          community:communities (id, name, description, member_count, is_private),
+          inviter:profiles!community_invites_invited_by_fkey (${PROFILE_SUMMARY_COLUMNS})
+        `)
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+    ),
+
+    respondToInvite: (inviteId, accept) => run(
+      client.rpc('respond_to_community_invite', { invite_id: inviteId, accept })
+    ),
+
+    revokeInvite: inviteId => run(
+      client
+        .from('community_invites')
+        .update({ status: 'revoked', responded_at: new Date().toISOString() })
+        .eq('id', inviteId)
+    ),
+
+    requestToJoin: (communityId, userId, message = null) => run(
+      client
+        .from('community_join_requests')
+        .insert({ community_id: communityId, user_id: userId, message })
+        .select()
+        .single()
+    ),
+
+    cancelRequest: requestId => run(
+      client
+        .from('community_join_requests')
+        .update({ status: 'cancelled' })
+        .eq('id', requestId)
+    ),
+
+    listMyRequests: userId => run(
+      client
+        .from('community_join_requests')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+    ),
+
+    listPendingRequests: communityId => run(
+      client
+        .from('community_join_requests')
+        .select(`*, profiles!community_join_requests_user_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('community_id', communityId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+    ),
+
+    decideRequest: (requestId, approve) => run(
+      client.rpc('decide_community_join_request', { request_id: requestId, approve })
+    ),
+  }
+}
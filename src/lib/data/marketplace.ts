@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { LISTING_STATUS_CHANGES_TABLE, PRICE_CHANGES_TABLE, PROFILE_SUMMARY_COLUMNS } from './tables'
+import { ListingStatus, ListingStatusChange, MarketplaceItem, PriceChange, ProfileSummary } from './types'
+
+// The lifecycle columns are managed by the database; a listing starts out
+// active unless saved as a draft
+export type NewMarketplaceItem = Omit<
+  MarketplaceItem,
+  'id' | 'created_at' | 'updated_at' | 'profiles' | 'is_sold' | 'status' | 'buyer_id' | 'reserved_at' | 'sold_at' | 'expires_at'
+> & { status?: 'draft' | 'active' }
+
+export interface MarketplaceRepository {
+  // Active and reserved items, newest first
+  listAvailable(): Promise<Result<MarketplaceItem[]>>
+  get(itemId: string): Promise<Result<MarketplaceItem>>
+  listBySeller(sellerId: string): Promise<Result<MarketplaceItem[]>>
+  // Listings sold to the buyer, most recent sale first
+  listPurchases(buyerId: string): Promise<Result<MarketplaceItem[]>>
+  create(item: NewMarketplaceItem): Promise<Result<MarketplaceItem>>
+  update(itemId: string, updates: Partial<MarketplaceItem>): Promise<Result<MarketplaceItem>>
+  // Moves a listing along LISTING_TRANSITIONS. Reserving needs a buyer;
+  // selling takes one, or null when sold outside the app.
+  setStatus(itemId: string, status: ListingStatus, buyerId: string | null, userId: string): Promise<Result<MarketplaceItem>>
+  // Oldest first, with the buyer at each step
+  listStatusHistory(itemId: string): Promise<Result<ListingStatusChange[]>>
+  // Oldest first; recorded by the database on every price update
+  listPriceHistory(itemId: string): Promise<Result<PriceChange[]>>
+  // People who messaged the seller about the listing, to pick a buyer from
+  listInterestedBuyers(itemId: string, sellerId: string): Promise<Result<ProfileSummary[]>>
+  remove(itemId: string): Promise<Result<null>>
+}
+
+// The moves check_listing_status() allows, see add_listing_lifecycle.sql
+export const LISTING_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  draft: ['active', 'removed'],
+  active: ['reserved', 'sold', 'expired', 'removed'],
+  reserved: ['active', 'sold', 'removed'],
+  sold: [],
+  expired: ['active', 'removed'],
+  removed: [],
+}
+
+// Active listings lapse after this long unless relisted
+export const LISTING_LIFETIME_DAYS = 30
+
+export function canChangeListingStatus(from: ListingStatus, to: ListingStatus): boolean {
+  return LISTING_TRANSITIONS[from].includes(to)
+}
+
+const ITEM_COLUMNS = `
+  *,
+  profiles!marketplace_items_seller_id_fkey (*)
+`
+
+export function createSupabaseMarketplaceRepository(client: SupabaseClient): MarketplaceRepository {
+  return {
+    listAvailable: () => run(
+      client
+        .from('marketplace_items')
+        .select(ITEM_COLUMNS)
+        .in('status', ['active', 'reserved'])
+        .order('created_at', { ascending: false })
+    ),
+
+    get: itemId => run(
+      client
+        .from('marketplace_items')
+        .select(ITEM_COLUMNS)
+        .eq('id', itemId)
+        .single()
+    ),
+
+    listBySeller: sellerId => run(
+      client
+        .from('marketplace_items')
+        .select(ITEM_COLUMNS)
+        .eq('seller_id', sellerId)
+        .order('created_at', { ascending: false })
+    ),
+
+    listPurchases: buyerId => run(
+      client
+        .from('marketplace_items')
+        .select(ITEM_COLUMNS)
+        .eq('buyer_id', buyerId)
+        .eq('status', 'sold')
+        .order('sold_at', { ascending: false })
+    ),
+
+    create: item => run(
+      client
+        .from('marketplace_items')
+        .insert(item)
+        .select(ITEM_COLUMNS)
+        .single()
+    ),
+
+    update: (itemId, updates) => {
+      const { profiles, ...columns } = updates
+      return run(
+        client
+          .from('marketplace_items')
+          .update({ ...columns, updated_at: new Date().toISOString() })
+          .eq('id', itemId)
+          .select(ITEM_COLUMNS)
+          .single()
+      )
+    },
+
+    setStatus: (itemId, status, buyerId) => run(
+      client
+        .from('marketplace_items')
+        .update({ status, buyer_id: buyerId, updated_at: new Date().toISOString() })
+        .eq('id', itemId)
+        .select(ITEM_COLUMNS)
+        .single()
+    ),
+
+    listStatusHistory: itemId => run(
+      client
+        .from(LISTING_STATUS_CHANGES_TABLE)
+        .select(`*, buyer:profiles!marketplace_item_status_changes_buyer_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('item_id', itemId)
+        .order('created_at', { ascending: true })
+    ),
+
+    listPriceHistory: itemId => run(
+      client
+        .from(PRICE_CHANGES_TABLE)
+        .select('*')
+        .eq('item_id', itemId)
+        .order('created_at', { ascending: true })
+    ),
+
+    listInterestedBuyers: (itemId, sellerId) => attempt(async () => {
+      const { data, error } = await client
+        .from('messages')
+        .select(`sender_profile:profiles!messages_sender_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('item_id', itemId)
+        .eq('receiver_id', sellerId)
+        .order('created_at', { ascending: false })
+      if (error) throw error
+
+      const rows = (data || []) as unknown as { sender_profile: ProfileSummary | null }[]
+      const buyers = new Map<string, ProfileSummary>()
+      rows.forEach(({ sender_profile }) => {
+        if (sender_profile && !buyers.has(sender_profile.id)) buyers.set(sender_profile.id, sender_profile)
+      })
+      return Array.from(buyers.values())
+    }),
+
+    remove: itemId => run(
+      client
+        .from('marketplace_items')
+        .delete()
+        .eq('id', itemId)
+    ),
+  }
+}
@@ -0,0 +1,2547 @@
+import type { MessageChange } from '../realtime'
+import { generateInviteCode, inviteLinkState } from '../communityInvites'
+import { canManageRoles, roleAllows } from '../communityPermissions'
+import { DEFAULT_FEED_SORT, ScoreColumn, hotScore, scoreColumn, windowStart } from '../feedRanking'
+import { compareFeedItems, paginateArray } from '../pagination'
+import { mentionedUsernames, previewOf } from '../notifications'
+import { countReactions } from '../reactions'
+import { countMatches, highlightMatches, matchesAllTerms, searchTerms } from '../search'
+import type { DataBackend } from './index'
+import { conversationIdFor } from './messages'
+import { ReportTarget } from './moderation'
+import { LISTING_LIFETIME_DAYS, NewMarketplaceItem, canChangeListingStatus } from './marketplace'
+import { OFFER_LIFETIME_HOURS, isOfferOpen } from './offers'
+import { MAX_REVIEW_LENGTH } from './reviews'
+import { NewSavedSearch, matchesSavedSearch } from './savedSearches'
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, isPollClosed } from './polls'
+import { FeedPost, FeedSection, PostEdit, isCommunitySection } from './posts'
+import { Reactor } from './reactions'
+import { SearchResult, groupSearchResults } from './search'
+import { DataError, attempt } from './result'
+import { POST_TABLES } from './tables'
+import {
+  Comment,
+  Community,
+  CommunityInvite,
+  CommunityInviteLink,
+  CommunityJoinRequest,
+  CommunityMembership,
+  CommunityPermission,
+  CommunityPost,
+  FeedFields,
+  Follow,
+  Like,
+  ListingStatus,
+  ListingStatusChange,
+  MarketplaceItem,
+  Message,
+  ModerationActionRecord,
+  Notification,
+  Offer,
+  Poll,
+  PollOption,
+  PollVote,
+  Post,
+  PostDraft,
+  PostKind,
+  PostRevision,
+  PriceChange,
+  Profile,
+  ProfileSummary,
+  ReactionType,
+  Report,
+  ReportTargetType,
+  Reputation,
+  Review,
+  SavedSearch,
+  UserBan,
+  UserBlock,
+  UserMute,
+  WishlistEntry,
+} from './types'
+
+// In-memory implementation of the data-access layer, used when no Supabase
+// project is configured and for driving tests. Tables are plain arrays of rows
+// shaped like the Postgres ones; embeds are joined on read so callers get the
+// same shapes the Supabase repositories return.
+
+export type PostRow = Omit<Post, 'profiles' | keyof FeedFields>
+export type CommunityPostRow = Omit<CommunityPost, 'profiles' | 'communities' | keyof FeedFields>
+export type CommentRow = Omit<Comment, 'profiles'>
+export type MembershipRow = Omit<CommunityMembership, 'profiles'>
+export type InviteRow = Omit<CommunityInvite, 'community' | 'inviter' | 'invitee'>
+export type JoinRequestRow = Omit<CommunityJoinRequest, 'profiles'>
+export type MarketplaceItemRow = Omit<MarketplaceItem, 'profiles'>
+export type MessageRow = Omit<Message, 'profiles' | 'marketplace_items' | 'sender_profile' | 'receiver_profile' | 'marketplace_item'>
+export type NotificationRow = Omit<Notification, 'actor' | 'community'>
+export type ReportRow = Omit<Report, 'reporter' | 'target_user'>
+export type ModerationActionRow = Omit<ModerationActionRecord, 'moderator' | 'target_user'>
+export type UserBlockRow = Omit<UserBlock, 'profiles'>
+export type UserMuteRow = Omit<UserMute, 'profiles'>
+export type FollowRow = Omit<Follow, 'profiles'>
+export type PostRevisionRow = Omit<PostRevision, 'profiles'>
+export type PostDraftRow = Omit<PostDraft, 'communities'>
+export type PollRow = Omit<Poll, 'options' | 'my_votes'>
+export type PollVoteRow = Omit<PollVote, 'profiles'>
+export type OfferRow = Omit<Offer, 'buyer'>
+export type ListingStatusChangeRow = Omit<ListingStatusChange, 'buyer'>
+export type ReviewRow = Omit<Review, 'reviewer'>
+export type SavedSearchRow = SavedSearch
+export type WishlistRow = Omit<WishlistEntry, 'item'>
+export type PriceChangeRow = PriceChange
+
+// Who is who in an anonymous thread; 0 is the post's author
+export interface AnonymousAliasRow {
+  post_id: string
+  user_id: string
+  alias: number
+}
+
+export interface MemoryTables {
+  profiles: Profile[]
+  posts: PostRow[]
+  likes: Like[]
+  comments: CommentRow[]
+  community_posts: CommunityPostRow[]
+  community_likes: Like[]
+  community_comments: CommentRow[]
+  communities: Community[]
+  community_memberships: MembershipRow[]
+  community_invite_links: CommunityInviteLink[]
+  community_invites: InviteRow[]
+  community_join_requests: JoinRequestRow[]
+  marketplace_items: MarketplaceItemRow[]
+  messages: MessageRow[]
+  notifications: NotificationRow[]
+  reports: ReportRow[]
+  moderation_actions: ModerationActionRow[]
+  user_bans: UserBan[]
+  anonymous_aliases: AnonymousAliasRow[]
+  user_blocks: UserBlockRow[]
+  user_mutes: UserMuteRow[]
+  follows: FollowRow[]
+  post_revisions: PostRevisionRow[]
+  post_drafts: PostDraftRow[]
+  polls: PollRow[]
+  poll_options: PollOption[]
+  poll_votes: PollVoteRow[]
+  marketplace_offers: OfferRow[]
+  marketplace_item_status_changes: ListingStatusChangeRow[]
+  marketplace_reviews: ReviewRow[]
+  marketplace_saved_searches: SavedSearchRow[]
+  marketplace_wishlist: WishlistRow[]
+  marketplace_price_changes: PriceChangeRow[]
+}
+
+// The subset of `localStorage` the store needs
+export interface MemoryStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+export interface MemoryStoreOptions {
+  seed: MemoryTables
+  // When set, tables are loaded from and written back to this storage
+  storage?: MemoryStorage
+  storageKey?: string
+}
+
+export interface MemoryStore {
+  tables: MemoryTables
+  save(): void
+  // Throws away every change and starts again from the seed
+  reset(): void
+}
+
+const DEFAULT_STORAGE_KEY = 'tepitingkap:data'
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+export function createMemoryStore({ seed, storage, storageKey = DEFAULT_STORAGE_KEY }: MemoryStoreOptions): MemoryStore {
+  const load = (): MemoryTables => {
+    try {
+      const saved = storage?.getItem(storageKey)
+      // Tables added to the seed since the data was saved start out seeded
+      return saved ? { ...clone(seed), ...JSON.parse(saved) } : clone(seed)
+    } catch (error) {
+      console.error('Error reading saved data, starting from fixtures:', error)
+      return clone(seed)
+    }
+  }
+
+  const store: MemoryStore = {
+    tables: load(),
+    save() {
+      if (!storage) return
+      try {
+        storage.setItem(storageKey, JSON.stringify(store.tables))
+      } catch (error) {
+        console.error('Error saving data:', error)
+      }
+    },
+    reset() {
+      store.tables = clone(seed)
+      store.save()
+    },
+  }
+
+  return store
+}
+
+export interface MemoryBackendOptions {
+  // Told about every message insert and update, e.g. to feed a local realtime source
+  onMessageChange?: (change: MessageChange) => void
+}
+
+let sequence = 0
+
+function newId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  sequence++
+  return `${Date.now().toString(36)}-${sequence.toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function timestamp(): string {
+  return new Date().toISOString()
+}
+
+function byCreatedAt(a: { created_at: string }, b: { created_at: string }): number {
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0
+}
+
+type LikeTable = 'likes' | 'community_likes'
+
+// Where each kind of reported content lives; profiles are never hidden or deleted
+const MODERATED_TABLES = {
+  post: 'posts',
+  community_post: 'community_posts',
+  comment: 'comments',
+  community_comment: 'community_comments',
+  listing: 'marketplace_items',
+  message: 'messages',
+} as const satisfies Record<Exclude<ReportTargetType, 'profile'>, keyof MemoryTables>
+
+type ModeratedRow = { id: string; hidden_at?: string | null }
+
+// Hidden rows are left out of every read, as the select policies do online
+function visible(row: { hidden_at?: string | null }): boolean {
+  return !row.hidden_at
+}
+
+function notFound(what: string): DataError {
+  return new DataError(`${what} not found`, 'not_found')
+}
+
+export function createMemoryBackend(store: MemoryStore, { onMessageChange }: MemoryBackendOptions = {}): DataBackend {
+  // `reset` swaps the tables object, so always read through the store
+  const tables = () => store.tables
+
+  const profileOf = (userId: string): Profile | null =>
+    tables().profiles.find(profile => profile.id === userId) || null
+
+  const summaryOf = (userId: string): ProfileSummary | null => {
+    const profile = profileOf(userId)
+    if (!profile) return null
+    const { id, username, display_name, full_name, avatar_url } = profile
+    return { id, username, display_name, full_name, avatar_url }
+  }
+
+  const postExists = (kind: PostKind, postId: string) =>
+    (tables()[POST_TABLES[kind].posts] as { id: string }[]).some(post => post.id === postId)
+
+  // Blocked commenters are left out, except on anonymous posts where that
+  // would give away who they are
+  const commentsFor = (kind: PostKind, postId: string, viewerId: string): Comment[] => {
+    const anonymous = Boolean(postContext(kind, postId)?.anonymous)
+    return tables()[POST_TABLES[kind].comments]
+      .filter(comment => comment.post_id === postId && visible(comment) && (anonymous || !isBlockedWith(viewerId, comment.user_id)))
+      .sort(byCreatedAt)
+      .map(comment => ({ ...comment, profiles: summaryOf(comment.user_id) }))
+  }
+
+  const commentRow = (kind: PostKind, commentId: string): CommentRow | undefined =>
+    tables()[POST_TABLES[kind].comments].find(comment => comment.id === commentId)
+
+  const likesFor = (kind: PostKind, postId: string): Like[] =>
+    tables()[POST_TABLES[kind].likes]
+      .filter(like => like.post_id === postId)
+      .map(like => ({ ...like }))
+
+  const aliasOf = (postId: string, userId: string): number | null =>
+    tables().anonymous_aliases.find(alias => alias.post_id === postId && alias.user_id === userId)?.alias ?? null
+
+  // Stand-in for assign_anonymous_alias(): the author is 0, then commenters
+  // are numbered in the order they first join the thread
+  const assignAlias = (post: PostRow, userId: string) => {
+    if (aliasOf(post.id, userId) !== null) return
+    const taken = tables().anonymous_aliases.filter(alias => alias.post_id === post.id).map(alias => alias.alias)
+    const alias = post.user_id === userId ? 0 : Math.max(0, ...taken) + 1
+    tables().anonymous_aliases.push({ post_id: post.id, user_id: userId, alias })
+  }
+
+  // Stand-in for the anonymous feed views: only the author and site admins
+  // see who wrote an anonymous post or comment
+  const maskAuthor = <T extends { user_id: string | null }>(row: T, postId: string, viewerId: string): T => ({
+    ...row,
+    user_id: row.user_id === viewerId || isSiteAdmin(viewerId) ? row.user_id : null,
+    author_alias: aliasOf(postId, row.user_id),
+  })
+
+  // Anonymous posts never carry the author's profile, nor do their comments
+  const feedPost = (row: PostRow, viewerId: string): FeedPost => {
+    const anonymous = row.visibility === 'anonymous'
+    const likes = likesFor('post', row.id)
+    const comments = commentsFor('post', row.id, viewerId)
+      .map(comment => (anonymous ? maskAuthor({ ...comment, profiles: null }, row.id, viewerId) : comment))
+    return {
+      ...(anonymous ? maskAuthor(row, row.id, viewerId) : row),
+      profiles: anonymous ? null : summaryOf(row.user_id),
+      likes,
+      comments,
+      _count: { likes: likes.length, comments: comments.length },
+      _reactions: countReactions(likes),
+    } as FeedPost
+  }
+
+  const communityFeedPost = (row: CommunityPostRow, viewerId: string): FeedPost => {
+    const likes = likesFor('community_post', row.id)
+    const comments = commentsFor('community_post', row.id, viewerId)
+    return {
+      ...row,
+      profiles: summaryOf(row.user_id),
+      likes,
+      comments,
+      _count: { likes: likes.length, comments: comments.length },
+      _reactions: countReactions(likes),
+    }
+  }
+
+  const feedRows = (section: FeedSection, viewerId: string): (PostRow | CommunityPostRow)[] => {
+    if (isCommunitySection(section)) {
+      // As the "Community members can view posts" policy
+      if (!membershipOf(section, viewerId)) return []
+      return tables().community_posts.filter(post =>
+        post.community_id === section && visible(post) && !hidesAuthor(viewerId, post.user_id)
+      )
+    }
+    if (section === 'following') {
+      const authorIds = [viewerId, ...tables().follows.filter(follow => follow.follower_id === viewerId).map(follow => follow.followee_id)]
+      return [
+        ...feedRows('public', viewerId).filter(post => authorIds.includes(post.user_id)),
+        ...tables().community_memberships
+          .filter(membership => membership.user_id === viewerId)
+          .flatMap(membership => feedRows(membership.community_id, viewerId)),
+      ]
+    }
+    const visibility = section === 'anonymous' ? 'anonymous' : 'public'
+    return tables().posts.filter(post =>
+      post.visibility === visibility && !post.community_id && visible(post) && !hidesPost(viewerId, post)
+    )
+  }
+
+  // Rows on the following timeline come from both tables, so go by the row
+  const shapeFeedRow = (row: PostRow | CommunityPostRow, viewerId: string): FeedPost =>
+    row.community_id ? communityFeedPost(row as CommunityPostRow, viewerId) : feedPost(row as PostRow, viewerId)
+
+  // Stand-in for the ranking columns: every like and comment row on the post
+  // counts, as in the triggers of add_feed_ranking.sql
+  const scoreOf = (row: PostRow | CommunityPostRow, column: ScoreColumn): number => {
+    const kind: PostKind = row.community_id ? 'community_post' : 'post'
+    const likes = likesFor(kind, row.id).length
+    const comments = tables()[POST_TABLES[kind].comments].filter(comment => comment.post_id === row.id).length
+    if (column === 'like_count') return likes
+    if (column === 'comment_count') return comments
+    return hotScore(likes, comments, row.created_at)
+  }
+
+  // Stand-in for record_post_revision(): saves the old version and marks the
+  // post edited, but only when the content or attachments actually change
+  const applyEdit = (kind: PostKind, row: PostRow | CommunityPostRow, edit: PostEdit, actorId: string) => {
+    const images = edit.images ?? row.images ?? []
+    const files = edit.files ?? row.files ?? []
+    const changed = edit.content !== row.content
+      || JSON.stringify(images) !== JSON.stringify(row.images || [])
+      || JSON.stringify(files) !== JSON.stringify(row.files || [])
+    if (!changed) return
+
+    const now = timestamp()
+    tables().post_revisions.push({
+      id: newId(),
+      post_kind: kind,
+      post_id: row.id,
+      editor_id: actorId,
+      content: row.content,
+      images: row.images || [],
+      files: row.files || [],
+      created_at: now,
+    })
+    Object.assign(row, { content: edit.content, images, files, edited_at: now, updated_at: now })
+    store.save()
+  }
+
+  const dropRevisions = (kind: PostKind, postId: string) => {
+    tables().post_revisions = tables().post_revisions.filter(revision =>
+      revision.post_kind !== kind || revision.post_id !== postId
+    )
+  }
+
+  const dropPoll = (kind: PostKind, postId: string) => {
+    const poll = tables().polls.find(candidate => candidate.post_kind === kind && candidate.post_id === postId)
+    if (!poll) return
+    tables().polls = tables().polls.filter(candidate => candidate !== poll)
+    tables().poll_options = tables().poll_options.filter(option => option.poll_id !== poll.id)
+    tables().poll_votes = tables().poll_votes.filter(vote => vote.poll_id !== poll.id)
+  }
+
+  // One row per user and target: an existing reaction is changed in place
+  const setReaction = (
+    table: LikeTable,
+    column: 'post_id' | 'comment_id',
+    targetId: string,
+    userId: string,
+    reaction: ReactionType | null
+  ): Like | null => {
+    const rows = tables()[table]
+    const existing = rows.find(like => like[column] === targetId && like.user_id === userId)
+
+    if (!reaction) {
+      tables()[table] = rows.filter(like => like !== existing)
+      store.save()
+      return null
+    }
+
+    if (existing) {
+      existing.reaction = reaction
+      store.save()
+      return { ...existing }
+    }
+
+    const row: Like = {
+      id: newId(),
+      post_id: column === 'post_id' ? targetId : null,
+      comment_id: column === 'comment_id' ? targetId : null,
+      user_id: userId,
+      reaction,
+      created_at: timestamp(),
+    }
+    rows.push(row)
+    notifyReaction(table, row)
+    store.save()
+    return { ...row }
+  }
+
+  const reactorsFor = (table: LikeTable, column: 'post_id' | 'comment_id', targetId: string): Reactor[] =>
+    tables()[table]
+      .filter(like => like[column] === targetId)
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))
+      .map(like => ({ ...like, profiles: summaryOf(like.user_id) }))
+
+  // Stand-ins for the notification triggers. Nobody is notified about their
+  // own actions, and on anonymous posts the actor is left out.
+  type NotificationTarget = Partial<Omit<NotificationRow, 'id' | 'user_id' | 'actor_id' | 'type' | 'created_at' | 'read_at'>>
+
+  const notify = (
+    actorId: string,
+    recipientId: string | null | undefined,
+    type: NotificationRow['type'],
+    target: NotificationTarget,
+    { anonymous = false } = {}
+  ) => {
+    if (!recipientId || recipientId === actorId) return
+    tables().notifications.push({
+      post_kind: null,
+      post_id: null,
+      comment_id: null,
+      community_id: null,
+      conversation_id: null,
+      item_id: null,
+      reaction: null,
+      preview: null,
+      ...target,
+      id: newId(),
+      user_id: recipientId,
+      actor_id: anonymous ? null : actorId,
+      type,
+      created_at: timestamp(),
+      read_at: null,
+    })
+  }
+
+  const notifyMentions = (actorId: string, content: string, target: NotificationTarget, skip: string[], anonymous: boolean) => {
+    mentionedUsernames(content).forEach(username => {
+      const profile = tables().profiles.find(candidate => candidate.username?.toLowerCase() === username)
+      if (!profile || skip.includes(profile.id)) return
+      // Same as the trigger: only people who can read the post are told
+      if (target.community_id && !membershipOf(target.community_id, profile.id)) return
+      if (!anonymous && isBlockedWith(actorId, profile.id)) return
+      notify(actorId, profile.id, 'mention', target, { anonymous })
+    })
+  }
+
+  const postContext = (kind: PostKind, postId: string) => {
+    const post = (tables()[POST_TABLES[kind].posts] as (PostRow | CommunityPostRow)[]).find(candidate => candidate.id === postId)
+    if (!post) return null
+    return {
+      authorId: post.user_id,
+      anonymous: (post as PostRow).visibility === 'anonymous',
+      communityId: kind === 'community_post' ? (post as CommunityPostRow).community_id : null,
+    }
+  }
+
+  // Comment reactions live in `likes`, on comments of regular posts
+  const notifyReaction = (table: LikeTable, like: Like) => {
+    if (like.comment_id) {
+      const comment = commentRow('post', like.comment_id)
+      if (!comment) return
+      notify(like.user_id, comment.user_id, 'reaction', {
+        post_kind: 'post',
+        post_id: comment.post_id,
+        comment_id: comment.id,
+        reaction: like.reaction || 'like',
+      }, { anonymous: postContext('post', comment.post_id)?.anonymous })
+      return
+    }
+
+    const kind: PostKind = table === 'likes' ? 'post' : 'community_post'
+    const post = like.post_id ? postContext(kind, like.post_id) : null
+    if (!post) return
+    notify(like.user_id, post.authorId, 'reaction', {
+      post_kind: kind,
+      post_id: like.post_id,
+      community_id: post.communityId,
+      reaction: like.reaction || 'like',
+    }, { anonymous: post.anonymous })
+  }
+
+  const withNotificationEmbeds = (row: NotificationRow): Notification => {
+    const community = row.community_id ? tables().communities.find(candidate => candidate.id === row.community_id) : null
+    return {
+      ...row,
+      actor: row.actor_id ? summaryOf(row.actor_id) : null,
+      community: community ? { id: community.id, name: community.name } : null,
+    }
+  }
+
+  // Private communities are only visible to their members
+  const canSeeCommunity = (communityId: string, viewerId: string) => {
+    const community = tables().communities.find(candidate => candidate.id === communityId)
+    if (!community) return false
+    return !community.is_private || tables().community_memberships.some(membership =>
+      membership.community_id === communityId && membership.user_id === viewerId
+    )
+  }
+
+  // A field weighted as in the search_vector columns: A = 1, B = 0.4, C = 0.2
+  type SearchField = [text: string | null | undefined, weight: number]
+
+  // Ranks a row by its weighted matches, or returns null if some term matches
+  // none of its fields
+  const searchRank = (terms: string[], fields: SearchField[]): number | null => {
+    const text = fields.map(([value]) => value || '').join(' ')
+    if (!matchesAllTerms(text, terms)) return null
+    return fields.reduce((rank, [value, weight]) => rank + countMatches(value || '', terms) * weight, 0)
+  }
+
+  const withSeller = (item: MarketplaceItemRow): MarketplaceItem => ({
+    ...item,
+    profiles: profileOf(item.seller_id) || undefined,
+  })
+
+  const withMember = (membership: MembershipRow): CommunityMembership => ({
+    ...membership,
+    profiles: summaryOf(membership.user_id) || undefined,
+  })
+
+  // Keeps the denormalised count on the community in step with membership rows
+  const adjustMemberCount = (communityId: string, delta: number) => {
+    const community = tables().communities.find(candidate => candidate.id === communityId)
+    if (community) community.member_count = Math.max(0, (community.member_count || 0) + delta)
+  }
+
+  const membershipOf = (communityId: string, userId: string) =>
+    tables().community_memberships.find(membership => membership.community_id === communityId && membership.user_id === userId)
+
+  // Stand-in for community_can()
+  const communityCan = (communityId: string, userId: string, permission: CommunityPermission) =>
+    roleAllows(
+      membershipOf(communityId, userId)?.role,
+      permission,
+      tables().communities.find(candidate => candidate.id === communityId)
+    )
+
+  const isSiteAdmin = (userId: string) => Boolean(profileOf(userId)?.is_site_admin)
+
+  // Stand-in for is_blocked_with(): a block in either direction counts
+  const isBlockedWith = (userId: string, otherId: string | null) =>
+    tables().user_blocks.some(block =>
+      (block.blocker_id === userId && block.blocked_id === otherId) ||
+      (block.blocker_id === otherId && block.blocked_id === userId)
+    )
+
+  // Matches the blocked and muted author policies on posts and community
+  // posts; people always see their own posts
+  const hidesAuthor = (viewerId: string, authorId: string) =>
+    authorId !== viewerId && (
+      isBlockedWith(viewerId, authorId) ||
+      tables().user_mutes.some(mute => mute.muter_id === viewerId && mute.muted_id === authorId)
+    )
+
+  // Anonymous posts are never hidden, or hiding them would give their author away
+  const hidesPost = (viewerId: string, post: PostRow) =>
+    post.visibility !== 'anonymous' && hidesAuthor(viewerId, post.user_id)
+
+  // Stand-in for is_banned(): site-wide bans count everywhere
+  const isBanned = (userId: string, communityId: string | null = null) =>
+    tables().user_bans.some(ban => ban.user_id === userId && (!ban.community_id || ban.community_id === communityId))
+
+  const assertNotBanned = (userId: string, communityId: string | null = null) => {
+    if (!isBanned(userId, communityId)) return
+    throw new DataError(
+      tables().user_bans.some(ban => ban.user_id === userId && !ban.community_id)
+        ? 'Your account has been banned'
+        : 'You are banned from this community',
+      'forbidden'
+    )
+  }
+
+  // Matches the reports and moderation_actions select policies
+  const canModerate = (communityId: string | null, userId: string) =>
+    isSiteAdmin(userId) || Boolean(communityId && communityCan(communityId, userId, 'delete_posts'))
+
+  // Stand-in for report_target_context(): who wrote the target, where it
+  // lives and how it starts, or null if the viewer cannot see it
+  const reportContext = ({ type, id }: ReportTarget, viewerId: string) => {
+    const context = (target_user_id: string, community_id: string | null, preview: string, anonymous = false) =>
+      ({ target_user_id, community_id, preview, anonymous })
+
+    switch (type) {
+      case 'post': {
+        const post = tables().posts.find(candidate => candidate.id === id)
+        return post ? context(post.user_id, null, post.content, post.visibility === 'anonymous') : null
+      }
+      case 'comment': {
+        const comment = commentRow('post', id)
+        return comment ? context(comment.user_id, null, comment.content, Boolean(postContext('post', comment.post_id)?.anonymous)) : null
+      }
+      case 'community_post': {
+        const post = tables().community_posts.find(candidate => candidate.id === id)
+        return post && canSeeCommunity(post.community_id, viewerId) ? context(post.user_id, post.community_id, post.content) : null
+      }
+      case 'community_comment': {
+        const comment = commentRow('community_post', id)
+        const post = comment && postContext('community_post', comment.post_id)
+        return post?.communityId && canSeeCommunity(post.communityId, viewerId)
+          ? context(comment.user_id, post.communityId, comment.content)
+          : null
+      }
+      case 'listing': {
+        const item = tables().marketplace_items.find(candidate => candidate.id === id)
+        return item ? context(item.seller_id, null, `${item.title} — ${item.description}`) : null
+      }
+      case 'message': {
+        const message = tables().messages.find(candidate => candidate.id === id)
+        return message && [message.sender_id, message.receiver_id].includes(viewerId)
+          ? context(message.sender_id, null, message.content)
+          : null
+      }
+      case 'profile': {
+        const profile = profileOf(id)
+        return profile ? context(profile.id, null, [profile.username && `@${profile.username}`, profile.bio].filter(Boolean).join(' — ')) : null
+      }
+    }
+  }
+
+  // The content side of a decision; warnings and bans are handled by the caller
+  const removeContent = (type: ReportTargetType, id: string, action: 'hide' | 'delete') => {
+    if (type === 'profile') return
+    const rows = tables()[MODERATED_TABLES[type]] as ModeratedRow[]
+    const row = rows.find(candidate => candidate.id === id)
+    if (!row) return
+    if (action === 'hide') {
+      row.hidden_at = timestamp()
+      return
+    }
+
+    // Comments are cleared rather than removed so their replies keep their place
+    if (type === 'comment' || type === 'community_comment') {
+      Object.assign(row, { content: '', deleted_at: (row as CommentRow).deleted_at || timestamp() })
+      return
+    }
+    if (type === 'post' || type === 'community_post') {
+      const { likes, comments } = POST_TABLES[type]
+      tables()[likes] = tables()[likes].filter(like => like.post_id !== id)
+      tables()[comments] = tables()[comments].filter(comment => comment.post_id !== id)
+    }
+    if (type === 'post') {
+      tables().anonymous_aliases = tables().anonymous_aliases.filter(alias => alias.post_id !== id)
+    }
+    rows.splice(rows.indexOf(row), 1)
+  }
+
+  const withReportEmbeds = (row: ReportRow): Report => ({
+    ...row,
+    reporter: summaryOf(row.reporter_id),
+    target_user: row.target_user_id ? summaryOf(row.target_user_id) : null,
+  })
+
+  // Stand-in for can_read_poll(): a poll goes wherever its post does
+  const pollPost = (kind: PostKind, postId: string, viewerId: string): PostRow | CommunityPostRow | undefined =>
+    kind === 'post'
+      ? tables().posts.find(post => post.id === postId && visible(post) && !hidesPost(viewerId, post))
+      : tables().community_posts.find(post => post.id === postId && visible(post) && !hidesAuthor(viewerId, post.user_id))
+
+  // Counts are worked out on read rather than kept like count_poll_votes() does
+  const pollOf = (poll: PollRow, viewerId: string): Poll => {
+    const votes = tables().poll_votes.filter(vote => vote.poll_id === poll.id)
+    return {
+      ...poll,
+      voter_count: new Set(votes.map(vote => vote.user_id)).size,
+      options: tables().poll_options
+        .filter(option => option.poll_id === poll.id)
+        .sort((a, b) => a.position - b.position)
+        .map(option => ({ ...option, vote_count: votes.filter(vote => vote.option_id === option.id).length })),
+      my_votes: votes.filter(vote => vote.user_id === viewerId).map(vote => vote.option_id),
+    }
+  }
+
+  const communitySummaryOf = (communityId: string): CommunityInvite['community'] => {
+    const community = tables().communities.find(candidate => candidate.id === communityId)
+    if (!community) return null
+    const { id, name, description, member_count, is_private } = community
+    return { id, name, description, member_count, is_private }
+  }
+
+  // Stand-in for join_community() and the bookkeeping around it: joining by
+  // any route settles the user's other pending invite or request
+  const joinCommunity = (communityId: string, userId: string) => {
+    assertNotBanned(userId, communityId)
+    if (!membershipOf(communityId, userId)) {
+      tables().community_memberships.push({ id: newId(), community_id: communityId, user_id: userId, role: 'member', joined_at: timestamp() })
+      adjustMemberCount(communityId, 1)
+    }
+    const now = timestamp()
+    tables().community_invites.forEach(invite => {
+      if (invite.community_id !== communityId || invite.user_id !== userId || invite.status !== 'pending') return
+      invite.status = 'accepted'
+      invite.responded_at = now
+    })
+    tables().community_join_requests.forEach(request => {
+      if (request.community_id === communityId && request.user_id === userId && request.status === 'pending') {
+        request.status = 'cancelled'
+      }
+    })
+  }
+
+  const messageItem = (itemId?: string): Message['marketplace_item'] => {
+    const item = itemId && tables().marketplace_items.find(candidate => candidate.id === itemId)
+    if (!item) return undefined
+    const { id, title, price, images } = item
+    return { id, title, price, images }
+  }
+
+  // Messages between two people who blocked each other stay hidden from both
+  const visibleMessage = (message: MessageRow) =>
+    visible(message) && !isBlockedWith(message.sender_id, message.receiver_id)
+
+  const emitMessage = (eventType: MessageChange['eventType'], row: MessageRow, old: Partial<Message> | null = null) => {
+    onMessageChange?.({ eventType, new: { ...row }, old })
+  }
+
+  const listingExpiry = () => new Date(Date.now() + LISTING_LIFETIME_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const watchersOf = (itemId: string) =>
+    tables().marketplace_wishlist.filter(entry => entry.item_id === itemId).map(entry => entry.user_id)
+
+  // Stand-in for the price half of notify_wishlist()
+  const recordPriceChange = (item: MarketplaceItemRow, oldPrice: number) => {
+    tables().marketplace_price_changes.push({
+      id: newId(),
+      item_id: item.id,
+      old_price: oldPrice,
+      new_price: item.price,
+      created_at: timestamp(),
+    })
+    if (item.price >= oldPrice || (item.status !== 'active' && item.status !== 'reserved')) return
+    watchersOf(item.id).forEach(userId => notify(item.seller_id, userId, 'price_drop', {
+      item_id: item.id,
+      preview: previewOf(`${item.title}: ${offerAmount(oldPrice)} → ${offerAmount(item.price)}`),
+    }))
+  }
+
+  // The marketplace_saved_searches checks
+  const assertSavedSearch = (search: NewSavedSearch) => {
+    if (!search.name || search.name.length > 80) throw new DataError('Give the search a name of up to 80 characters', 'invalid')
+    if ((search.min_price ?? 0) < 0 || (search.max_price ?? 0) < 0) throw new DataError('Prices cannot be negative', 'invalid')
+    if (search.min_price !== null && search.max_price !== null && search.min_price > search.max_price) {
+      throw new DataError('The minimum price is above the maximum', 'invalid')
+    }
+  }
+
+  // Stand-in for the alert_saved_searches() trigger: one alert per searcher
+  // when a listing goes live
+  const alertSavedSearches = (item: MarketplaceItemRow) => {
+    const searchers = new Set(
+      tables().marketplace_saved_searches
+        .filter(search => search.alerts_enabled && search.user_id !== item.seller_id && matchesSavedSearch(search, item))
+        .map(search => search.user_id)
+    )
+    searchers.forEach(userId => {
+      if (isBlockedWith(userId, item.seller_id)) return
+      notify(item.seller_id, userId, 'listing_match', { item_id: item.id, preview: previewOf(item.title) })
+    })
+  }
+
+  // Stand-in for record_listing_status(), with the status half of
+  // notify_wishlist()
+  const recordListingStatus = (item: MarketplaceItemRow, from: ListingStatus | null, actorId: string | null) => {
+    tables().marketplace_item_status_changes.push({
+      id: newId(),
+      item_id: item.id,
+      from_status: from,
+      to_status: item.status,
+      buyer_id: item.buyer_id || null,
+      changed_by: actorId,
+      created_at: timestamp(),
+    })
+    if (item.status === 'active' && (from === null || from === 'draft')) alertSavedSearches(item)
+    if (item.status === 'reserved' || item.status === 'sold') {
+      watchersOf(item.id)
+        .filter(userId => userId !== item.buyer_id)
+        .forEach(userId => notify(item.seller_id, userId, item.status === 'reserved' ? 'item_reserved' : 'item_sold', {
+          item_id: item.id,
+          preview: previewOf(item.title),
+        }))
+    }
+    if (['sold', 'expired', 'removed'].includes(item.status)) {
+      tables().marketplace_offers.forEach(offer => {
+        if (offer.item_id === item.id && offer.status === 'pending') {
+          Object.assign(offer, { status: 'declined', responded_at: timestamp() })
+        }
+      })
+    }
+  }
+
+  // Stand-in for listing_buyer_involved(): the buyer messaged the seller about
+  // the listing or had an offer on it accepted
+  const buyerWasInvolved = (item: MarketplaceItemRow, buyerId: string) =>
+    tables().messages.some(message =>
+      message.item_id === item.id && message.sender_id === buyerId && message.receiver_id === item.seller_id
+    ) || tables().marketplace_offers.some(offer =>
+      offer.item_id === item.id && offer.buyer_id === buyerId && offer.status === 'accepted'
+    )
+
+  // Stand-in for check_listing_status() on an update, then the timeline
+  const changeListingStatus = (item: MarketplaceItemRow, status: ListingStatus, buyerId: string | null, actorId: string | null) => {
+    if (!canChangeListingStatus(item.status, status)) {
+      throw new DataError(`Cannot move a listing from ${item.status} to ${status}`, 'invalid')
+    }
+    if (status === 'reserved' && !buyerId) throw new DataError('Pick the buyer to reserve it for', 'invalid')
+    if (buyerId && buyerId === item.seller_id) throw new DataError('You cannot sell to yourself', 'invalid')
+    if (buyerId && buyerId !== item.buyer_id && !buyerWasInvolved(item, buyerId)) {
+      throw new DataError('Pick a buyer who messaged you or made an offer on this listing', 'invalid')
+    }
+
+    const from = item.status
+    const now = timestamp()
+    item.status = status
+    item.is_sold = status === 'sold'
+    if (status === 'reserved') {
+      Object.assign(item, { buyer_id: buyerId, reserved_at: now })
+    } else if (status === 'sold') {
+      Object.assign(item, { buyer_id: buyerId, sold_at: now })
+    } else {
+      Object.assign(item, { buyer_id: null, reserved_at: null })
+      if (status === 'active' && (from === 'draft' || from === 'expired')) item.expires_at = listingExpiry()
+    }
+    item.updated_at = now
+    recordListingStatus(item, from, actorId)
+  }
+
+  const reviewOf = (row: ReviewRow): Review => ({ ...row, reviewer: summaryOf(row.reviewer_id) })
+
+  // Same figures as get_reputation()
+  const reputationOf = (userId: string): Reputation => {
+    const ratings = tables().marketplace_reviews.filter(review => review.reviewee_id === userId).map(review => review.rating)
+    const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString()
+    const firstReceived = new Map<string, string>()
+    tables().messages
+      .filter(message => message.receiver_id === userId && message.item_id && message.created_at > since)
+      .sort(byCreatedAt)
+      .forEach(message => {
+        if (!firstReceived.has(message.conversation_id)) firstReceived.set(message.conversation_id, message.created_at)
+      })
+    const answered = Array.from(firstReceived).filter(([conversationId, firstAt]) =>
+      tables().messages.some(message =>
+        message.conversation_id === conversationId && message.sender_id === userId && message.created_at > firstAt
+      )
+    )
+
+    return {
+      rating_average: ratings.length > 0
+        ? Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length * 100) / 100
+        : null,
+      review_count: ratings.length,
+      response_rate: firstReceived.size > 0 ? Math.round(answered.length / firstReceived.size * 100) / 100 : null,
+    }
+  }
+
+  // Stand-in for expire_marketplace_listings(), run on reads instead of by cron
+  const expireListings = () => {
+    const now = timestamp()
+    const due = tables().marketplace_items.filter(item => item.status === 'active' && item.expires_at && item.expires_at <= now)
+    due.forEach(item => changeListingStatus(item, 'expired', null, null))
+    if (due.length > 0) store.save()
+  }
+
+  // Stand-in for the messages insert path: refuse_blocked_messages() and
+  // notify_on_message(). Callers save and emit.
+  const insertMessage = (message: Omit<MessageRow, 'id' | 'created_at'>): MessageRow => {
+    if (isBlockedWith(message.sender_id, message.receiver_id)) {
+      throw new DataError('You cannot message this person', 'forbidden')
+    }
+    const row: MessageRow = { ...message, id: newId(), created_at: timestamp() }
+    tables().messages.push(row)
+    notify(row.sender_id, row.receiver_id, 'message', {
+      conversation_id: row.conversation_id,
+      item_id: row.item_id || null,
+      preview: previewOf(row.content),
+    })
+    return row
+  }
+
+  const offerOf = (row: OfferRow): Offer => ({ ...row, buyer: summaryOf(row.buyer_id) })
+
+  const offerAmount = (amount: number) =>
+    new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(amount)
+
+  // Stand-in for expire_marketplace_offers(), run on reads instead of by cron
+  const expireOffers = () => {
+    tables().marketplace_offers.forEach(offer => {
+      if (offer.status === 'pending' && !isOfferOpen(offer)) offer.status = 'expired'
+    })
+  }
+
+  // Stand-in for post_offer_message(); returns the row so it can be emitted
+  // once the whole change is saved
+  const postOfferMessage = (offer: OfferRow, senderId: string, content: string, withCard: boolean) => {
+    const receiverId = senderId === offer.buyer_id ? offer.seller_id : offer.buyer_id
+    return insertMessage({
+      conversation_id: conversationIdFor(senderId, receiverId),
+      sender_id: senderId,
+      receiver_id: receiverId,
+      content,
+      item_id: offer.item_id,
+      offer_id: withCard ? offer.id : null,
+    })
+  }
+
+  // Stand-in for open_offer()
+  const openOffer = (offerId: string, userId: string) => {
+    const offer = tables().marketplace_offers.find(candidate =>
+      candidate.id === offerId && (candidate.buyer_id === userId || candidate.seller_id === userId))
+    if (!offer) throw notFound('Offer')
+    if (offer.status !== 'pending') throw new DataError('This offer has already been answered', 'invalid')
+    if (!isOfferOpen(offer)) throw new DataError('This offer has expired', 'invalid')
+    assertNotBanned(userId)
+    return offer
+  }
+
+  const assertAvailable = (item: MarketplaceItemRow) => {
+    if (item.status !== 'active') {
+      throw new DataError('This item is no longer available', 'invalid')
+    }
+  }
+
+  const assertOfferAmount = (amount: number) => {
+    if (!(amount > 0)) throw new DataError('Offer a price above zero', 'invalid')
+  }
+
+  const draftOf = (row: PostDraftRow): PostDraft => {
+    const community = row.community_id && tables().communities.find(candidate => candidate.id === row.community_id)
+    return { ...row, communities: community ? { id: community.id, name: community.name } : null }
+  }
+
+  // Stand-in for check_post_draft(); `previousSchedule` may stay in the past
+  // so a due draft can still be edited
+  const checkDraft = (draft: PostDraftRow, previousSchedule: string | null) => {
+    if (draft.community_id && draft.visibility !== 'public') {
+      throw new DataError('Community posts cannot be anonymous', 'invalid')
+    }
+    if (draft.scheduled_at) {
+      if (draft.visibility !== 'public') throw new DataError('Anonymous posts cannot be scheduled', 'invalid')
+      if (draft.scheduled_at !== previousSchedule && draft.scheduled_at <= timestamp()) {
+        throw new DataError('Pick a time in the future', 'invalid')
+      }
+      if (!draft.content.trim()) throw new DataError('A scheduled post needs some text', 'invalid')
+      draft.publish_error = null
+    }
+    draft.updated_at = timestamp()
+  }
+
+  // Stand-in for publish_draft(). An author publishing by hand sees the
+  // error; a scheduled draft that fails is unscheduled and keeps the reason.
+  const publishDraft = async (draft: PostDraftRow, scheduled: boolean): Promise<string | null> => {
+    const fields = { user_id: draft.user_id, content: draft.content, images: draft.images, files: draft.files }
+    const result = !draft.content.trim()
+      ? { data: null, error: new DataError('The post is empty', 'invalid') }
+      : draft.community_id
+        ? await backend.posts.createCommunityPost({ ...fields, community_id: draft.community_id })
+        : await backend.posts.create({ ...fields, visibility: draft.visibility })
+    if (result.error) {
+      if (!scheduled) throw result.error
+      draft.scheduled_at = null
+      draft.publish_error = result.error.message
+      store.save()
+      return null
+    }
+    tables().post_drafts = tables().post_drafts.filter(candidate => candidate.id !== draft.id)
+    store.save()
+    return result.data.id
+  }
+
+  // Stand-in for the publish_scheduled_posts() job: due drafts go out
+  // whenever a feed or the drafts list is read
+  const publishDueDrafts = async () => {
+    const now = timestamp()
+    const due = tables().post_drafts
+      .filter(draft => draft.scheduled_at && draft.scheduled_at <= now)
+      .sort((a, b) => a.scheduled_at!.localeCompare(b.scheduled_at!))
+    for (const draft of due) await publishDraft(draft, true)
+  }
+
+  const backend: DataBackend = {
+    profiles: {
+      get: userId => attempt(async () => {
+        const profile = profileOf(userId)
+        if (!profile) throw notFound('Profile')
+        return { ...profile }
+      }),
+
+      getByUsername: username => attempt(async () => {
+        const profile = tables().profiles.find(candidate => candidate.username === username)
+        if (!profile) throw notFound('Profile')
+        return { ...profile }
+      }),
+
+      create: profile => attempt(async () => {
+        if (profileOf(profile.id)) throw new DataError('Profile already exists', 'conflict')
+        const now = timestamp()
+        const row: Profile = {
+          username: null,
+          full_name: null,
+          display_name: null,
+          avatar_url: null,
+          bio: null,
+          website: null,
+          location: null,
+          created_at: now,
+          updated_at: now,
+          ...profile,
+        }
+        tables().profiles.push(row)
+        store.save()
+        return { ...row }
+      }),
+
+      update: (userId, updates) => attempt(async () => {
+        const profile = profileOf(userId)
+        if (!profile) throw notFound('Profile')
+        Object.assign(profile, updates, { id: userId, updated_at: timestamp() })
+        store.save()
+        return { ...profile }
+      }),
+
+      isUsernameTaken: username => attempt(async () =>
+        tables().profiles.some(profile => profile.username === username)
+      ),
+
+      search: (term, limit = 10) => attempt(async () => {
+        const needle = term.trim().toLowerCase()
+        return tables().profiles
+          .filter(profile => [profile.username, profile.display_name, profile.full_name]
+            .some(value => value?.toLowerCase().includes(needle)))
+          .slice(0, limit)
+          .map(profile => summaryOf(profile.id)!)
+      }),
+    },
+
+    posts: {
+      getFeedPage: (section, cursor, { viewerId, pageSize, sort = DEFAULT_FEED_SORT }) => attempt(async () => {
+        await publishDueDrafts()
+        const column = section === 'following' ? null : scoreColumn(sort)
+        const since = section === 'following' ? null : windowStart(sort)
+        const rows = feedRows(section, viewerId).filter(row => !since || row.created_at >= since)
+        const page = paginateArray(rows, cursor, pageSize, column ? row => scoreOf(row, column) : undefined)
+        return { ...page, items: page.items.map(row => shapeFeedRow(row, viewerId)) }
+      }),
+
+      getFeedPost: (section, postId, viewerId) => attempt(async () => {
+        const row = feedRows(section, viewerId).find(post => post.id === postId)
+        if (!row) throw notFound('Post')
+        return shapeFeedRow(row, viewerId)
+      }),
+
+      getPost: (postId, viewerId) => attempt(async () => {
+        const post = tables().posts.find(candidate => candidate.id === postId && visible(candidate) && !hidesPost(viewerId, candidate))
+        if (post) return feedPost(post, viewerId)
+        const communityPost = tables().community_posts.find(candidate =>
+          candidate.id === postId && visible(candidate) && !hidesAuthor(viewerId, candidate.user_id)
+            && Boolean(membershipOf(candidate.community_id, viewerId))
+        )
+        if (!communityPost) throw notFound('Post')
+        return communityFeedPost(communityPost, viewerId)
+      }),
+
+      listCommunityFeed: (communityId, viewerId) => attempt(async () => {
+        await publishDueDrafts()
+        return feedRows(communityId, viewerId).sort(compareFeedItems).map(row => shapeFeedRow(row, viewerId))
+      }),
+
+      listPinned: (communityId, viewerId) => attempt(async () =>
+        (feedRows(communityId, viewerId) as CommunityPostRow[])
+          .filter(row => row.pinned_at)
+          .sort((a, b) => (b.pinned_at || '').localeCompare(a.pinned_at || ''))
+          .map(row => shapeFeedRow(row, viewerId))
+      ),
+
+      setPinned: (postId, pinned, actorId) => attempt(async () => {
+        const row = tables().community_posts.find(candidate => candidate.id === postId)
+        if (!row) throw notFound('Post')
+        if (!communityCan(row.community_id, actorId, 'pin')) {
+          throw new DataError('You cannot pin posts in this community', 'forbidden')
+        }
+        row.pinned_at = pinned ? timestamp() : null
+        row.pinned_by = pinned ? actorId : null
+        store.save()
+        return null
+      }),
+
+      deleteCommunityPost: (postId, actorId) => attempt(async () => {
+        const row = tables().community_posts.find(candidate => candidate.id === postId)
+        if (!row) return null
+        if (row.user_id !== actorId && !communityCan(row.community_id, actorId, 'delete_posts')) {
+          throw new DataError('You cannot delete this post', 'forbidden')
+        }
+        tables().community_posts = tables().community_posts.filter(candidate => candidate.id !== postId)
+        tables().community_likes = tables().community_likes.filter(like => like.post_id !== postId)
+        tables().community_comments = tables().community_comments.filter(comment => comment.post_id !== postId)
+        dropRevisions('community_post', postId)
+        dropPoll('community_post', postId)
+        store.save()
+        return null
+      }),
+
+      countNewer: (section, head, viewerId) => attempt(async () => {
+        await publishDueDrafts()
+        return feedRows(section, viewerId).filter(post => post.created_at > head.created_at).length
+      }),
+
+      create: post => attempt(async () => {
+        if (!profileOf(post.user_id)) throw new DataError('Unknown author', 'invalid')
+        assertNotBanned(post.user_id)
+        const now = timestamp()
+        const row: PostRow = {
+          images: [],
+          visibility: 'public',
+          ...post,
+          id: newId(),
+          community_id: null,
+          created_at: now,
+          updated_at: now,
+        }
+        tables().posts.push(row)
+        if (row.visibility === 'anonymous') assignAlias(row, row.user_id)
+        notifyMentions(row.user_id, row.content, {
+          post_kind: 'post',
+          post_id: row.id,
+          preview: previewOf(row.content),
+        }, [], row.visibility === 'anonymous')
+        store.save()
+        return { ...row, profiles: profileOf(row.user_id)! }
+      }),
+
+      update: (postId, edit, actorId) => attempt(async () => {
+        const row = tables().posts.find(candidate => candidate.id === postId && visible(candidate))
+        if (!row) throw notFound('Post')
+        if (row.user_id !== actorId) throw new DataError('You can only edit your own posts', 'forbidden')
+        applyEdit('post', row, edit, actorId)
+        return { ...row, profiles: profileOf(row.user_id)! }
+      }),
+
+      remove: (postId, actorId) => attempt(async () => {
+        const row = tables().posts.find(candidate => candidate.id === postId)
+        if (!row) return null
+        if (row.user_id !== actorId) throw new DataError('You can only delete your own posts', 'forbidden')
+        tables().posts = tables().posts.filter(candidate => candidate.id !== postId)
+        tables().likes = tables().likes.filter(like => like.post_id !== postId)
+        tables().comments = tables().comments.filter(comment => comment.post_id !== postId)
+        tables().anonymous_aliases = tables().anonymous_aliases.filter(alias => alias.post_id !== postId)
+        dropRevisions('post', postId)
+        dropPoll('post', postId)
+        store.save()
+        return null
+      }),
+
+      createCommunityPost: post => attempt(async () => {
+        if (!tables().communities.some(community => community.id === post.community_id)) {
+          throw new DataError('Unknown community', 'invalid')
+        }
+        assertNotBanned(post.user_id, post.community_id)
+        if (!communityCan(post.community_id, post.user_id, 'post')) {
+          throw new DataError('You cannot post in this community', 'forbidden')
+        }
+        const now = timestamp()
+        const row: CommunityPostRow = {
+          images: null,
+          files: null,
+          ...post,
+          id: newId(),
+          created_at: now,
+          updated_at: now,
+        }
+        tables().community_posts.push(row)
+        notifyMentions(row.user_id, row.content, {
+          post_kind: 'community_post',
+          post_id: row.id,
+          community_id: row.community_id,
+          preview: previewOf(row.content),
+        }, [], false)
+        store.save()
+        return { ...row }
+      }),
+
+      updateCommunityPost: (postId, edit, actorId) => attempt(async () => {
+        const row = tables().community_posts.find(candidate => candidate.id === postId && visible(candidate))
+        if (!row) throw notFound('Post')
+        if (row.user_id !== actorId) throw new DataError('You can only edit your own posts', 'forbidden')
+        applyEdit('community_post', row, edit, actorId)
+        return { ...row }
+      }),
+
+      // Like the policy on post_revisions, people who can't read them get none
+      listRevisions: (kind, postId, viewerId) => attempt(async () => {
+        const post = kind === 'post'
+          ? tables().posts.find(candidate => candidate.id === postId)
+          : tables().community_posts.find(candidate => candidate.id === postId)
+        const allowed = Boolean(post) && (
+          isSiteAdmin(viewerId)
+          || post!.user_id === viewerId
+          || (kind === 'community_post' && communityCan((post as CommunityPostRow).community_id, viewerId, 'delete_posts'))
+        )
+        if (!allowed) return []
+        return tables().post_revisions
+          .filter(revision => revision.post_kind === kind && revision.post_id === postId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(revision => ({ ...revision, profiles: summaryOf(revision.editor_id) }))
+      }),
+    },
+
+    comments: {
+      listForPost: (kind, postId, viewerId) => attempt(async () => commentsFor(kind, postId, viewerId)),
+
+      create: (kind, comment) => attempt(async () => {
+        const post = postContext(kind, comment.post_id)
+        if (!post) throw new DataError('Unknown post', 'invalid')
+        assertNotBanned(comment.user_id, post.communityId)
+        if (post.communityId && !communityCan(post.communityId, comment.user_id, 'comment')) {
+          throw new DataError('You cannot comment in this community', 'forbidden')
+        }
+        if (!post.anonymous && isBlockedWith(comment.user_id, post.authorId)) {
+          throw new DataError('You cannot comment on this post', 'forbidden')
+        }
+        const parent = comment.parent_id ? commentRow(kind, comment.parent_id) : null
+        if (comment.parent_id && (!parent || parent.post_id !== comment.post_id)) {
+          throw new DataError('Unknown parent comment', 'invalid')
+        }
+        const row: CommentRow = { parent_id: null, ...comment, id: newId(), created_at: timestamp() }
+        tables()[POST_TABLES[kind].comments].push(row)
+        if (post.anonymous) assignAlias(tables().posts.find(candidate => candidate.id === row.post_id)!, row.user_id)
+
+        // A reply to the post's author tells them once, as a reply
+        const target: NotificationTarget = {
+          post_kind: kind,
+          post_id: row.post_id,
+          comment_id: row.id,
+          community_id: post.communityId,
+          preview: previewOf(row.content),
+        }
+        const notified = [row.user_id]
+        if (parent) {
+          notify(row.user_id, parent.user_id, 'reply', target, { anonymous: post.anonymous })
+          notified.push(parent.user_id)
+        }
+        if (!notified.includes(post.authorId)) {
+          notify(row.user_id, post.authorId, 'comment', target, { anonymous: post.anonymous })
+          notified.push(post.authorId)
+        }
+        notifyMentions(row.user_id, row.content, target, notified, post.anonymous)
+        store.save()
+        return { ...row, profiles: summaryOf(row.user_id) }
+      }),
+
+      update: (kind, commentId, content, userId) => attempt(async () => {
+        const row = commentRow(kind, commentId)
+        if (!row || row.deleted_at) throw notFound('Comment')
+        if (row.user_id !== userId) throw new DataError('You can only edit your own comments', 'forbidden')
+        Object.assign(row, { content, edited_at: timestamp() })
+        store.save()
+        return { ...row, profiles: summaryOf(row.user_id) }
+      }),
+
+      remove: (kind, commentId, userId) => attempt(async () => {
+        const row = commentRow(kind, commentId)
+        if (!row) throw notFound('Comment')
+        if (row.user_id !== userId && !canModerate(postContext(kind, row.post_id)?.communityId ?? null, userId)) {
+          throw new DataError('You can only delete your own comments', 'forbidden')
+        }
+        Object.assign(row, { content: '', deleted_at: row.deleted_at || timestamp() })
+        store.save()
+        return { ...row, profiles: summaryOf(row.user_id) }
+      }),
+    },
+
+    reactions: {
+      listPostLikes: (kind, postId) => attempt(async () => likesFor(kind, postId)),
+
+      likePost: (kind, postId, userId) => attempt(async () => {
+        if (!postExists(kind, postId)) throw new DataError('Unknown post', 'invalid')
+        const likes = tables()[POST_TABLES[kind].likes]
+        if (likes.some(like => like.post_id === postId && like.user_id === userId)) {
+          throw new DataError('Post already liked', 'conflict')
+        }
+        const row: Like = { id: newId(), post_id: postId, user_id: userId, reaction: 'like', created_at: timestamp() }
+        likes.push(row)
+        notifyReaction(POST_TABLES[kind].likes, row)
+        store.save()
+        return { ...row }
+      }),
+
+      unlikePost: (kind, postId, userId) => attempt(async () => {
+        const table = POST_TABLES[kind].likes
+        tables()[table] = tables()[table].filter(like => !(like.post_id === postId && like.user_id === userId))
+        store.save()
+        return null
+      }),
+
+      listCommentLikes: commentIds => attempt(async () =>
+        tables().likes
+          .filter(like => like.comment_id && commentIds.includes(like.comment_id))
+          .map(like => ({ ...like }))
+      ),
+
+      likeComment: (commentId, userId) => attempt(async () => {
+        if (tables().likes.some(like => like.comment_id === commentId && like.user_id === userId)) {
+          throw new DataError('Comment already liked', 'conflict')
+        }
+        const row: Like = { id: newId(), comment_id: commentId, post_id: null, user_id: userId, reaction: 'like', created_at: timestamp() }
+        tables().likes.push(row)
+        notifyReaction('likes', row)
+        store.save()
+        return { ...row }
+      }),
+
+      unlikeComment: (commentId, userId) => attempt(async () => {
+        tables().likes = tables().likes.filter(like => !(like.comment_id === commentId && like.user_id === userId))
+        store.save()
+        return null
+      }),
+
+      setPostReaction: (kind, postId, userId, reaction) => attempt(async () => {
+        if (!postExists(kind, postId)) throw new DataError('Unknown post', 'invalid')
+        return setReaction(POST_TABLES[kind].likes, 'post_id', postId, userId, reaction)
+      }),
+
+      setCommentReaction: (commentId, userId, reaction) => attempt(async () =>
+        setReaction(POST_TABLES.post.likes, 'comment_id', commentId, userId, reaction)
+      ),
+
+      listPostReactors: (kind, postId) => attempt(async () =>
+        reactorsFor(POST_TABLES[kind].likes, 'post_id', postId)
+      ),
+
+      listCommentReactors: commentId => attempt(async () =>
+        reactorsFor(POST_TABLES.post.likes, 'comment_id', commentId)
+      ),
+    },
+
+    communities: {
+      list: ({ orderBy = 'created_at', viewerId } = {}) => attempt(async () =>
+        tables().communities
+          .filter(community => !community.is_private || (viewerId && membershipOf(community.id, viewerId)))
+          .sort((a, b) => {
+            if (orderBy === 'name') return a.name.localeCompare(b.name)
+            if (orderBy === 'member_count') return (b.member_count || 0) - (a.member_count || 0)
+            return byCreatedAt(b, a)
+          })
+          .map(community => ({ ...community }))
+      ),
+
+      get: communityId => attempt(async () => {
+        const community = tables().communities.find(candidate => candidate.id === communityId)
+        if (!community) throw notFound('Community')
+        return { ...community }
+      }),
+
+      create: community => attempt(async () => {
+        const now = timestamp()
+        const row: Community = {
+          id: newId(),
+          name: community.name,
+          description: community.description || '',
+          image_url: null,
+          member_count: 0,
+          is_private: community.is_private || false,
+          created_by: community.created_by,
+          created_at: now,
+          updated_at: now,
+        }
+        tables().communities.push(row)
+        // Stand-in for the add_creator_as_admin trigger
+        tables().community_memberships.push({ id: newId(), community_id: row.id, user_id: row.created_by, role: 'admin', joined_at: now })
+        row.member_count = 1
+        store.save()
+        return { ...row }
+      }),
+
+      listCreatedBy: userId => attempt(async () =>
+        tables().communities
+          .filter(community => community.created_by === userId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(community => ({ ...community }))
+      ),
+
+      listForMember: userId => attempt(async () => {
+        const communityIds = new Set(tables().community_memberships
+          .filter(membership => membership.user_id === userId)
+          .map(membership => membership.community_id))
+        return tables().communities
+          .filter(community => communityIds.has(community.id))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(community => ({ ...community }))
+      }),
+
+      // Same order as the Supabase query: role descending, then oldest first
+      listMembers: communityId => attempt(async () =>
+        tables().community_memberships
+          .filter(membership => membership.community_id === communityId)
+          .sort((a, b) => (a.role !== b.role ? (a.role < b.role ? 1 : -1) : a.joined_at.localeCompare(b.joined_at)))
+          .map(withMember)
+      ),
+
+      getRole: (communityId, userId) => attempt(async () => {
+        const membership = tables().community_memberships.find(candidate =>
+          candidate.community_id === communityId && candidate.user_id === userId
+        )
+        return membership?.role || null
+      }),
+
+      addMember: (communityId, userId, role = 'member') => attempt(async () => {
+        if (!tables().communities.some(community => community.id === communityId)) {
+          throw new DataError('Unknown community', 'invalid')
+        }
+        const memberships = tables().community_memberships
+        if (memberships.some(membership => membership.community_id === communityId && membership.user_id === userId)) {
+          throw new DataError('Already a member', 'conflict')
+        }
+        assertNotBanned(userId, communityId)
+        const row: MembershipRow = { id: newId(), community_id: communityId, user_id: userId, role, joined_at: timestamp() }
+        memberships.push(row)
+        adjustMemberCount(communityId, 1)
+        store.save()
+        return { ...row }
+      }),
+
+      leave: (communityId, userId) => attempt(async () => {
+        const before = tables().community_memberships.length
+        tables().community_memberships = tables().community_memberships.filter(membership =>
+          !(membership.community_id === communityId && membership.user_id === userId)
+        )
+        adjustMemberCount(communityId, tables().community_memberships.length - before)
+        store.save()
+        return null
+      }),
+
+      updateMemberRole: (membershipId, role) => attempt(async () => {
+        const membership = tables().community_memberships.find(candidate => candidate.id === membershipId)
+        if (membership) {
+          membership.role = role
+          store.save()
+        }
+        return null
+      }),
+
+      updatePermissions: (communityId, permissions, updatedBy) => attempt(async () => {
+        const community = tables().communities.find(candidate => candidate.id === communityId)
+        if (!community) throw notFound('Community')
+        if (!canManageRoles(membershipOf(communityId, updatedBy)?.role)) {
+          throw new DataError('Only admins can change community permissions', 'forbidden')
+        }
+        community.permissions = { ...permissions }
+        community.updated_at = timestamp()
+        store.save()
+        return { ...community }
+      }),
+
+      removeMember: membershipId => attempt(async () => {
+        const membership = tables().community_memberships.find(candidate => candidate.id === membershipId)
+        if (membership) {
+          tables().community_memberships = tables().community_memberships.filter(candidate => candidate.id !== membershipId)
+          adjustMemberCount(membership.community_id, -1)
+          store.save()
+        }
+        return null
+      }),
+    },
+
+    invites: {
+      listLinks: communityId => attempt(async () =>
+        tables().community_invite_links
+          .filter(link => link.community_id === communityId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(link => ({ ...link }))
+      ),
+
+      createLink: link => attempt(async () => {
+        if (!communityCan(link.community_id, link.created_by, 'invite')) {
+          throw new DataError('You cannot invite people to this community', 'forbidden')
+        }
+        const row: CommunityInviteLink = {
+          id: newId(),
+          community_id: link.community_id,
+          code: generateInviteCode(),
+          created_by: link.created_by,
+          expires_at: link.expires_at ?? null,
+          max_uses: link.max_uses ?? null,
+          use_count: 0,
+          revoked_at: null,
+          created_at: timestamp(),
+        }
+        tables().community_invite_links.push(row)
+        store.save()
+        return { ...row }
+      }),
+
+      revokeLink: linkId => attempt(async () => {
+        const link = tables().community_invite_links.find(candidate => candidate.id === linkId)
+        if (link && !link.revoked_at) {
+          link.revoked_at = timestamp()
+          store.save()
+        }
+        return null
+      }),
+
+      previewLink: (code, viewerId) => attempt(async () => {
+        const link = tables().community_invite_links.find(candidate => candidate.code === code)
+        const community = link && communitySummaryOf(link.community_id)
+        if (!community) throw notFound('Invite link')
+        return { community, state: inviteLinkState(link), is_member: Boolean(membershipOf(link.community_id, viewerId)) }
+      }),
+
+      redeemLink: (code, userId) => attempt(async () => {
+        const link = tables().community_invite_links.find(candidate => candidate.code === code)
+        if (!link) throw notFound('Invite link')
+        if (membershipOf(link.community_id, userId)) return link.community_id
+        if (inviteLinkState(link) !== 'active') throw new DataError('This invite link is no longer valid', 'invalid')
+
+        joinCommunity(link.community_id, userId)
+        link.use_count += 1
+        store.save()
+        return link.community_id
+      }),
+
+      invite: (communityId, userId, invitedBy) => attempt(async () => {
+        if (!communityCan(communityId, invitedBy, 'invite')) throw new DataError('You cannot invite people to this community', 'forbidden')
+        if (membershipOf(communityId, userId)) throw new DataError('Already a member', 'conflict')
+        if (tables().community_invites.some(invite =>
+          invite.community_id === communityId && invite.user_id === userId && invite.status === 'pending'
+        )) {
+          throw new DataError('Already invited', 'conflict')
+        }
+
+        const row: InviteRow = {
+          id: newId(),
+          community_id: communityId,
+          user_id: userId,
+          invited_by: invitedBy,
+          status: 'pending',
+          created_at: timestamp(),
+          responded_at: null,
+        }
+        tables().community_invites.push(row)
+        notify(invitedBy, userId, 'community_invite', { community_id: communityId })
+        store.save()
+        return { ...row }
+      }),
+
+      listSentInvites: communityId => attempt(async () =>
+        tables().community_invites
+          .filter(invite => invite.community_id === communityId && invite.status === 'pending')
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(invite => ({ ...invite, invitee: summaryOf(invite.user_id) }))
+      ),
+
+      listReceivedInvites: userId => attempt(async () =>
+        tables().community_invites
+          .filter(invite => invite.user_id === userId && invite.status === 'pending')
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(invite => ({
+            ...invite,
+            community: communitySummaryOf(invite.community_id),
+            inviter: summaryOf(invite.invited_by),
+          }))
+      ),
+
+      respondToInvite: (inviteId, accept) => attempt(async () => {
+        const invite = tables().community_invites.find(candidate => candidate.id === inviteId)
+        if (!invite) throw notFound('Invite')
+        if (invite.status !== 'pending') throw new DataError('This invite has already been answered', 'invalid')
+
+        if (accept) joinCommunity(invite.community_id, invite.user_id)
+        invite.status = accept ? 'accepted' : 'declined'
+        invite.responded_at = timestamp()
+        store.save()
+        return null
+      }),
+
+      revokeInvite: inviteId => attempt(async () => {
+        const invite = tables().community_invites.find(candidate => candidate.id === inviteId)
+        if (invite?.status === 'pending') {
+          invite.status = 'revoked'
+          invite.responded_at = timestamp()
+          store.save()
+        }
+        return null
+      }),
+
+      requestToJoin: (communityId, userId, message = null) => attempt(async () => {
+        const community = tables().communities.find(candidate => candidate.id === communityId)
+        if (!community) throw notFound('Community')
+        if (community.is_private) throw new DataError('This community is invite-only', 'forbidden')
+        if (membershipOf(communityId, userId)) throw new DataError('Already a member', 'conflict')
+        if (tables().community_join_requests.some(request =>
+          request.community_id === communityId && request.user_id === userId && request.status === 'pending'
+        )) {
+          throw new DataError('You have already asked to join', 'conflict')
+        }
+
+        const row: JoinRequestRow = {
+          id: newId(),
+          community_id: communityId,
+          user_id: userId,
+          message: message?.trim() || null,
+          status: 'pending',
+          created_at: timestamp(),
+          decided_by: null,
+          decided_at: null,
+        }
+        tables().community_join_requests.push(row)
+        tables().community_memberships
+          .filter(membership => membership.community_id === communityId && communityCan(communityId, membership.user_id, 'invite'))
+          .forEach(approver => notify(userId, approver.user_id, 'join_request', { community_id: communityId, preview: previewOf(row.message) }))
+        store.save()
+        return { ...row }
+      }),
+
+      cancelRequest: requestId => attempt(async () => {
+        const request = tables().community_join_requests.find(candidate => candidate.id === requestId)
+        if (request?.status === 'pending') {
+          request.status = 'cancelled'
+          store.save()
+        }
+        return null
+      }),
+
+      listMyRequests: userId => attempt(async () =>
+        tables().community_join_requests
+          .filter(request => request.user_id === userId && request.status === 'pending')
+          .map(request => ({ ...request }))
+      ),
+
+      listPendingRequests: communityId => attempt(async () =>
+        tables().community_join_requests
+          .filter(request => request.community_id === communityId && request.status === 'pending')
+          .sort(byCreatedAt)
+          .map(request => ({ ...request, profiles: summaryOf(request.user_id) }))
+      ),
+
+      decideRequest: (requestId, approve, decidedBy) => attempt(async () => {
+        const request = tables().community_join_requests.find(candidate => candidate.id === requestId)
+        if (!request) throw notFound('Join request')
+        if (!communityCan(request.community_id, decidedBy, 'invite')) {
+          throw new DataError('You cannot answer join requests in this community', 'forbidden')
+        }
+        if (request.status !== 'pending') throw new DataError('This request has already been answered', 'invalid')
+
+        if (approve) joinCommunity(request.community_id, request.user_id)
+        request.status = approve ? 'approved' : 'declined'
+        request.decided_by = decidedBy
+        request.decided_at = timestamp()
+        if (approve) {
+          notify(decidedBy, request.user_id, 'join_approved', { community_id: request.community_id })
+        }
+        store.save()
+        return null
+      }),
+    },
+
+    marketplace: {
+      listAvailable: () => attempt(async () => {
+        expireListings()
+        return tables().marketplace_items
+          .filter(item => (item.status === 'active' || item.status === 'reserved') && visible(item))
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(withSeller)
+      }),
+
+      get: itemId => attempt(async () => {
+        expireListings()
+        const item = tables().marketplace_items.find(candidate => candidate.id === itemId && visible(candidate))
+        if (!item) throw notFound('Item')
+        return withSeller(item)
+      }),
+
+      listBySeller: sellerId => attempt(async () => {
+        expireListings()
+        return tables().marketplace_items
+          .filter(item => item.seller_id === sellerId && visible(item))
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(withSeller)
+      }),
+
+      listPurchases: buyerId => attempt(async () =>
+        tables().marketplace_items
+          .filter(item => item.buyer_id === buyerId && item.status === 'sold')
+          .sort((a, b) => (b.sold_at || '').localeCompare(a.sold_at || ''))
+          .map(withSeller)
+      ),
+
+      create: item => attempt(async () => {
+        assertNotBanned(item.seller_id)
+        const status = item.status || 'active'
+        if (status !== 'draft' && status !== 'active') {
+          throw new DataError('A new listing starts out as a draft or active', 'invalid')
+        }
+        const now = timestamp()
+        const row: MarketplaceItemRow = {
+          ...(item as NewMarketplaceItem),
+          id: newId(),
+          status,
+          is_sold: false,
+          buyer_id: null,
+          reserved_at: null,
+          sold_at: null,
+          expires_at: status === 'active' ? listingExpiry() : null,
+          created_at: now,
+          updated_at: now,
+        }
+        tables().marketplace_items.push(row)
+        recordListingStatus(row, null, row.seller_id)
+        store.save()
+        return withSeller(row)
+      }),
+
+      update: (itemId, updates) => attempt(async () => {
+        const item = tables().marketplace_items.find(candidate => candidate.id === itemId)
+        if (!item) throw notFound('Item')
+        const { profiles, status, is_sold, buyer_id, reserved_at, sold_at, expires_at, ...columns } = updates
+        // Older callers only flip is_sold
+        const nextStatus = status || (is_sold !== undefined && is_sold !== item.is_sold ? (is_sold ? 'sold' : 'active') : item.status)
+        if (nextStatus !== item.status) changeListingStatus(item, nextStatus, buyer_id || null, item.seller_id)
+        const oldPrice = item.price
+        Object.assign(item, columns, { id: itemId, updated_at: timestamp() })
+        if (columns.price !== undefined && Number(item.price) !== Number(oldPrice)) recordPriceChange(item, oldPrice)
+        store.save()
+        return withSeller(item)
+      }),
+
+      setStatus: (itemId, status, buyerId, userId) => attempt(async () => {
+        const item = tables().marketplace_items.find(candidate => candidate.id === itemId && candidate.seller_id === userId)
+        if (!item) throw notFound('Item')
+        if (status !== item.status) changeListingStatus(item, status, buyerId, userId)
+        store.save()
+        return withSeller(item)
+      }),
+
+      listStatusHistory: itemId => attempt(async () =>
+        tables().marketplace_item_status_changes
+          .filter(change => change.item_id === itemId)
+          .sort(byCreatedAt)
+          .map(change => ({ ...change, buyer: change.buyer_id ? summaryOf(change.buyer_id) : null }))
+      ),
+
+      listPriceHistory: itemId => attempt(async () =>
+        tables().marketplace_price_changes
+          .filter(change => change.item_id === itemId)
+          .sort(byCreatedAt)
+      ),
+
+      listInterestedBuyers: (itemId, sellerId) => attempt(async () => {
+        const senders = tables().messages
+          .filter(message => message.item_id === itemId && message.receiver_id === sellerId && visibleMessage(message))
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(message => message.sender_id)
+        return Array.from(new Set(senders)).map(summaryOf).filter(Boolean) as ProfileSummary[]
+      }),
+
+      remove: itemId => attempt(async () => {
+        tables().marketplace_items = tables().marketplace_items.filter(item => item.id !== itemId)
+        store.save()
+        return null
+      }),
+    },
+
+    messages: {
+      listConversation: (conversationId, since) => attempt(async () =>
+        tables().messages
+          .filter(message => message.conversation_id === conversationId && (!since || message.created_at >= since) && visibleMessage(message))
+          .sort(byCreatedAt)
+          .map(message => ({ ...message, sender_profile: profileOf(message.sender_id) || undefined }))
+      ),
+
+      listForUser: userId => attempt(async () =>
+        tables().messages
+          .filter(message => (message.sender_id === userId || message.receiver_id === userId) && visibleMessage(message))
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(message => ({
+            ...message,
+            sender_profile: summaryOf(message.sender_id) || undefined,
+            receiver_profile: summaryOf(message.receiver_id) || undefined,
+            marketplace_item: messageItem(message.item_id),
+          }))
+      ),
+
+      listForUserSince: (userId, since) => attempt(async () =>
+        tables().messages
+          .filter(message => (message.sender_id === userId || message.receiver_id === userId) && (!since || message.created_at >= since) && visibleMessage(message))
+          .sort(byCreatedAt)
+          .map(message => ({ ...message }))
+      ),
+
+      send: message => attempt(async () => {
+        assertNotBanned(message.sender_id)
+        const row = insertMessage(message)
+        store.save()
+        emitMessage('INSERT', row)
+        return { ...row, sender_profile: profileOf(row.sender_id) || undefined }
+      }),
+
+      markAsRead: messageId => attempt(async () => {
+        const message = tables().messages.find(candidate => candidate.id === messageId)
+        if (message) {
+          const old = { ...message }
+          message.read_at = timestamp()
+          store.save()
+          emitMessage('UPDATE', message, old)
+        }
+        return null
+      }),
+    },
+
+    notifications: {
+      list: (userId, limit = 50) => attempt(async () =>
+        tables().notifications
+          .filter(notification => notification.user_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .slice(0, limit)
+          .map(withNotificationEmbeds)
+      ),
+
+      countUnread: userId => attempt(async () =>
+        tables().notifications.filter(notification => notification.user_id === userId && !notification.read_at).length
+      ),
+
+      markRead: notificationIds => attempt(async () => {
+        const now = timestamp()
+        tables().notifications.forEach(notification => {
+          if (notificationIds.includes(notification.id) && !notification.read_at) notification.read_at = now
+        })
+        store.save()
+        return null
+      }),
+
+      markAllRead: userId => attempt(async () => {
+        const now = timestamp()
+        tables().notifications.forEach(notification => {
+          if (notification.user_id === userId && !notification.read_at) notification.read_at = now
+        })
+        store.save()
+        return null
+      }),
+    },
+
+    search: {
+      search: (query, viewerId, { limit = 5 } = {}) => attempt(async () => {
+        const terms = searchTerms(query)
+        if (terms.length === 0) return groupSearchResults([])
+
+        const snippet = (text: string | null | undefined) => highlightMatches(text || '', terms, 24)
+        const title = (text: string) => highlightMatches(text, terms)
+        const top = (results: (SearchResult | null)[]) =>
+          (results.filter(Boolean) as SearchResult[])
+            .sort((a, b) => b.rank - a.rank || (a.created_at < b.created_at ? 1 : -1))
+            .slice(0, limit)
+
+        const people = top(tables().profiles.map(profile => {
+          const rank = searchRank(terms, [
+            [[profile.username, profile.display_name, profile.full_name].filter(Boolean).join(' '), 1],
+            [profile.bio, 0.4],
+          ])
+          if (rank === null) return null
+          return {
+            kind: 'profile',
+            id: profile.id,
+            title: title(profile.display_name || profile.full_name || profile.username || ''),
+            snippet: snippet(`${profile.username ? `@${profile.username} ` : ''}${profile.bio || ''}`),
+            rank,
+            community_id: null,
+            author_id: profile.id,
+            image_url: profile.avatar_url,
+            created_at: profile.created_at,
+          }
+        }))
+
+        const communities = top(tables().communities.map(community => {
+          if (!canSeeCommunity(community.id, viewerId)) return null
+          const rank = searchRank(terms, [[community.name, 1], [community.description, 0.4]])
+          if (rank === null) return null
+          return {
+            kind: 'community',
+            id: community.id,
+            title: title(community.name),
+            snippet: snippet(community.description),
+            rank,
+            community_id: community.id,
+            author_id: community.created_by || null,
+            image_url: community.image_url,
+            created_at: community.created_at,
+          }
+        }))
+
+        const posts = top(tables().posts.filter(post => visible(post) && !hidesPost(viewerId, post)).map(post => {
+          const rank = searchRank(terms, [[post.content, 1]])
+          if (rank === null) return null
+          const anonymous = post.visibility === 'anonymous'
+          const author = anonymous ? null : profileOf(post.user_id)
+          return {
+            kind: 'post',
+            id: post.id,
+            title: anonymous ? 'Anonymous' : author?.display_name || author?.full_name || author?.username || 'Unknown User',
+            snippet: snippet(post.content),
+            rank,
+            community_id: null,
+            author_id: anonymous ? null : post.user_id,
+            image_url: null,
+            created_at: post.created_at,
+          }
+        }))
+
+        const communityPosts = top(tables().community_posts.filter(post => visible(post) && !hidesAuthor(viewerId, post.user_id)).map(post => {
+          // Community posts are readable by members only, public community or not
+          if (!membershipOf(post.community_id, viewerId)) return null
+          const rank = searchRank(terms, [[post.content, 1]])
+          if (rank === null) return null
+          return {
+            kind: 'community_post',
+            id: post.id,
+            title: tables().communities.find(community => community.id === post.community_id)?.name || 'Community',
+            snippet: snippet(post.content),
+            rank,
+            community_id: post.community_id,
+            author_id: post.user_id,
+            image_url: null,
+            created_at: post.created_at,
+          }
+        }))
+
+        const listings = top(tables().marketplace_items.filter(visible).map(item => {
+          const rank = searchRank(terms, [[item.title, 1], [item.description, 0.4], [item.category, 0.2]])
+          if (rank === null) return null
+          return {
+            kind: 'listing',
+            id: item.id,
+            title: title(item.title),
+            snippet: snippet(item.description),
+            rank,
+            community_id: null,
+            author_id: item.seller_id,
+            image_url: item.images?.[0] || null,
+            created_at: item.created_at,
+          }
+        }))
+
+        const groups = groupSearchResults([...people, ...communities, ...posts, ...communityPosts, ...listings])
+        groups.posts = groups.posts.slice(0, limit)
+        return groups
+      }),
+    },
+
+    moderation: {
+      report: ({ reporter_id, target, reason, details = null }) => attempt(async () => {
+        if (isBanned(reporter_id)) throw new DataError('Banned users cannot file reports', 'forbidden')
+        const context = reportContext(target, reporter_id)
+        if (!context) throw new DataError('Nothing to report', 'not_found')
+        if (context.target_user_id === reporter_id) throw new DataError('You cannot report yourself', 'invalid')
+        if (tables().reports.some(report =>
+          report.reporter_id === reporter_id && report.target_type === target.type && report.target_id === target.id && report.status === 'open'
+        )) {
+          throw new DataError('You have already reported this', 'conflict')
+        }
+
+        const row: ReportRow = {
+          id: newId(),
+          reporter_id,
+          target_type: target.type,
+          target_id: target.id,
+          target_user_id: context.target_user_id,
+          community_id: context.community_id,
+          target_preview: context.preview.slice(0, 280) || null,
+          anonymous: context.anonymous,
+          reason,
+          details: details?.trim() || null,
+          status: 'open',
+          resolution: null,
+          resolved_by: null,
+          resolved_at: null,
+          created_at: timestamp(),
+        }
+        tables().reports.push(row)
+        store.save()
+        return row.id
+      }),
+
+      listOpenReports: ({ communityId }, viewerId) => attempt(async () =>
+        tables().reports
+          .filter(report => report.status === 'open'
+            && (!communityId || report.community_id === communityId)
+            && canModerate(report.community_id, viewerId))
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(withReportEmbeds)
+      ),
+
+      moderate: (target, action, moderatorId, note = null) => attempt(async () => {
+        // The context from the latest report, so deleted content can still be dismissed
+        const latest = tables().reports
+          .filter(report => report.target_type === target.type && report.target_id === target.id)
+          .sort((a, b) => byCreatedAt(b, a))[0]
+        if (!latest) throw new DataError('No reports on this content', 'not_found')
+
+        const { community_id: communityId, target_user_id: targetUserId } = latest
+        if (!canModerate(communityId, moderatorId)) throw new DataError('You cannot moderate this content', 'forbidden')
+        if (action === 'ban' && !communityId && !isSiteAdmin(moderatorId)) {
+          throw new DataError('Only site admins can ban people from the site', 'forbidden')
+        }
+        if (action === 'ban' && communityId && !(canManageRoles(membershipOf(communityId, moderatorId)?.role) || isSiteAdmin(moderatorId))) {
+          throw new DataError('Only community admins can ban members', 'forbidden')
+        }
+        if ((action === 'hide' || action === 'delete') && target.type === 'profile') {
+          throw new DataError('Profiles can only be warned or banned', 'invalid')
+        }
+
+        if (action === 'hide' || action === 'delete') removeContent(target.type, target.id, action)
+        if (action === 'warn') {
+          notify(moderatorId, targetUserId, 'moderation_warning', {
+            community_id: communityId,
+            preview: previewOf(note || latest.target_preview),
+          }, { anonymous: true })
+        }
+        if (action === 'ban' && targetUserId && !isBanned(targetUserId, communityId)) {
+          tables().user_bans.push({ id: newId(), user_id: targetUserId, community_id: communityId, banned_by: moderatorId, reason: note?.trim() || null, created_at: timestamp() })
+          const membership = communityId && membershipOf(communityId, targetUserId)
+          if (membership) {
+            tables().community_memberships = tables().community_memberships.filter(candidate => candidate !== membership)
+            adjustMemberCount(communityId, -1)
+          }
+        }
+
+        const now = timestamp()
+        const settled = tables().reports.filter(report =>
+          report.target_type === target.type && report.target_id === target.id && report.status === 'open'
+        )
+        settled.forEach(report => Object.assign(report, {
+          status: action === 'dismiss' ? 'dismissed' : 'actioned',
+          resolution: action,
+          resolved_by: moderatorId,
+          resolved_at: now,
+        }))
+        tables().moderation_actions.push({
+          id: newId(),
+          moderator_id: moderatorId,
+          action,
+          target_type: target.type,
+          target_id: target.id,
+          target_user_id: targetUserId,
+          community_id: communityId,
+          note: note?.trim() || null,
+          report_count: settled.length,
+          created_at: now,
+        })
+        store.save()
+        return null
+      }),
+
+      listActions: ({ communityId }, viewerId, limit = 50) => attempt(async () =>
+        tables().moderation_actions
+          .filter(entry => (!communityId || entry.community_id === communityId) && canModerate(entry.community_id, viewerId))
+          .sort((a, b) => byCreatedAt(b, a))
+          .slice(0, limit)
+          .map(entry => ({
+            ...entry,
+            moderator: entry.moderator_id ? summaryOf(entry.moderator_id) : null,
+            target_user: entry.target_user_id ? summaryOf(entry.target_user_id) : null,
+          }))
+      ),
+    },
+
+    blocks: {
+      listBlocked: userId => attempt(async () =>
+        tables().user_blocks
+          .filter(block => block.blocker_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(block => ({ ...block, profiles: summaryOf(block.blocked_id) }))
+      ),
+
+      listMuted: userId => attempt(async () =>
+        tables().user_mutes
+          .filter(mute => mute.muter_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(mute => ({ ...mute, profiles: summaryOf(mute.muted_id) }))
+      ),
+
+      getStatus: (userId, targetId) => attempt(async () => ({
+        blocked: tables().user_blocks.some(block => block.blocker_id === userId && block.blocked_id === targetId),
+        muted: tables().user_mutes.some(mute => mute.muter_id === userId && mute.muted_id === targetId),
+      })),
+
+      setBlocked: (userId, targetId, blocked) => attempt(async () => {
+        if (userId === targetId) throw new DataError('You cannot block yourself', 'invalid')
+        const existing = tables().user_blocks.find(block => block.blocker_id === userId && block.blocked_id === targetId)
+        if (blocked && !existing) tables().user_blocks.push({ blocker_id: userId, blocked_id: targetId, created_at: timestamp() })
+        if (!blocked) tables().user_blocks = tables().user_blocks.filter(block => block !== existing)
+        store.save()
+        return null
+      }),
+
+      setMuted: (userId, targetId, muted) => attempt(async () => {
+        if (userId === targetId) throw new DataError('You cannot mute yourself', 'invalid')
+        const existing = tables().user_mutes.find(mute => mute.muter_id === userId && mute.muted_id === targetId)
+        if (muted && !existing) tables().user_mutes.push({ muter_id: userId, muted_id: targetId, created_at: timestamp() })
+        if (!muted) tables().user_mutes = tables().user_mutes.filter(mute => mute !== existing)
+        store.save()
+        return null
+      }),
+    },
+
+    follows: {
+      listFollowers: userId => attempt(async () =>
+        tables().follows
+          .filter(follow => follow.followee_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(follow => ({ ...follow, profiles: summaryOf(follow.follower_id) }))
+      ),
+
+      listFollowing: userId => attempt(async () =>
+        tables().follows
+          .filter(follow => follow.follower_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(follow => ({ ...follow, profiles: summaryOf(follow.followee_id) }))
+      ),
+
+      getCounts: userId => attempt(async () => ({
+        followers: tables().follows.filter(follow => follow.followee_id === userId).length,
+        following: tables().follows.filter(follow => follow.follower_id === userId).length,
+      })),
+
+      isFollowing: (userId, targetId) => attempt(async () =>
+        tables().follows.some(follow => follow.follower_id === userId && follow.followee_id === targetId)
+      ),
+
+      setFollowing: (userId, targetId, following) => attempt(async () => {
+        if (userId === targetId) throw new DataError('You cannot follow yourself', 'invalid')
+        const existing = tables().follows.find(follow => follow.follower_id === userId && follow.followee_id === targetId)
+        if (following && !existing) {
+          if (isBlockedWith(userId, targetId)) throw new DataError('You cannot follow this person', 'forbidden')
+          tables().follows.push({ follower_id: userId, followee_id: targetId, created_at: timestamp() })
+        }
+        if (!following) tables().follows = tables().follows.filter(follow => follow !== existing)
+        store.save()
+        return null
+      }),
+    },
+    drafts: {
+      list: userId => attempt(async () => {
+        await publishDueDrafts()
+        return tables().post_drafts
+          .filter(draft => draft.user_id === userId)
+          .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+          .map(draftOf)
+      }),
+
+      create: (userId, fields) => attempt(async () => {
+        if (!profileOf(userId)) throw new DataError('Unknown author', 'invalid')
+        if (fields.community_id && !tables().communities.some(community => community.id === fields.community_id)) {
+          throw new DataError('Unknown community', 'invalid')
+        }
+        const now = timestamp()
+        const row: PostDraftRow = {
+          community_id: null,
+          visibility: 'public',
+          images: [],
+          files: [],
+          scheduled_at: null,
+          ...fields,
+          id: newId(),
+          user_id: userId,
+          publish_error: null,
+          created_at: now,
+          updated_at: now,
+        }
+        checkDraft(row, null)
+        tables().post_drafts.push(row)
+        store.save()
+        return draftOf(row)
+      }),
+
+      update: (draftId, fields, userId) => attempt(async () => {
+        const row = tables().post_drafts.find(draft => draft.id === draftId && draft.user_id === userId)
+        if (!row) throw notFound('Draft')
+        const next = { ...row, ...fields }
+        checkDraft(next, row.scheduled_at)
+        Object.assign(row, next)
+        store.save()
+        return draftOf(row)
+      }),
+
+      publish: (draftId, userId) => attempt(async () => {
+        const row = tables().post_drafts.find(draft => draft.id === draftId && draft.user_id === userId)
+        if (!row) throw notFound('Draft')
+        return (await publishDraft(row, false))!
+      }),
+
+      remove: (draftId, userId) => attempt(async () => {
+        tables().post_drafts = tables().post_drafts.filter(draft => draft.id !== draftId || draft.user_id !== userId)
+        store.save()
+        return null
+      }),
+    },
+    polls: {
+      create: (kind, postId, poll, userId) => attempt(async () => {
+        const post = kind === 'post'
+          ? tables().posts.find(candidate => candidate.id === postId && candidate.user_id === userId && candidate.visibility !== 'anonymous')
+          : tables().community_posts.find(candidate => candidate.id === postId && candidate.user_id === userId)
+        if (!post) throw new DataError('You can only add a poll to your own post', 'forbidden')
+        if (tables().polls.some(candidate => candidate.post_kind === kind && candidate.post_id === postId)) {
+          throw new DataError('This post already has a poll', 'conflict')
+        }
+        const labels = poll.options.map(option => option.trim())
+        if (labels.length < MIN_POLL_OPTIONS || labels.length > MAX_POLL_OPTIONS) {
+          throw new DataError(`A poll needs between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`, 'invalid')
+        }
+        if (labels.some(label => !label || label.length > 100)) {
+          throw new DataError('Poll options need 1 to 100 characters', 'invalid')
+        }
+        if (poll.closes_at && poll.closes_at <= timestamp()) {
+          throw new DataError('Pick a closing time in the future', 'invalid')
+        }
+        const row: PollRow = {
+          id: newId(),
+          post_kind: kind,
+          post_id: postId,
+          allows_multiple: Boolean(poll.allows_multiple),
+          anonymous_votes: Boolean(poll.anonymous_votes),
+          closes_at: poll.closes_at || null,
+          voter_count: 0,
+          created_at: timestamp(),
+        }
+        tables().polls.push(row)
+        labels.forEach((label, position) => {
+          tables().poll_options.push({ id: newId(), poll_id: row.id, label, position, vote_count: 0 })
+        })
+        post.has_poll = true
+        store.save()
+        return pollOf(row, userId)
+      }),
+
+      getForPost: (kind, postId, viewerId) => attempt(async () => {
+        const poll = tables().polls.find(candidate => candidate.post_kind === kind && candidate.post_id === postId)
+        if (!poll || !pollPost(kind, postId, viewerId)) return null
+        return pollOf(poll, viewerId)
+      }),
+
+      // Stand-in for cast_poll_vote() and check_poll_vote()
+      vote: (pollId, optionIds, userId) => attempt(async () => {
+        const poll = tables().polls.find(candidate => candidate.id === pollId)
+        const post = poll && pollPost(poll.post_kind, poll.post_id, userId)
+        if (!poll || !post) throw notFound('Poll')
+        const chosen = Array.from(new Set(optionIds))
+        if (!poll.allows_multiple && chosen.length > 1) {
+          throw new DataError('This poll only takes one vote per person', 'invalid')
+        }
+        if (isPollClosed(poll)) throw new DataError('This poll is closed', 'invalid')
+        assertNotBanned(userId, poll.post_kind === 'community_post' ? (post as CommunityPostRow).community_id : null)
+        if (chosen.some(optionId => !tables().poll_options.some(option => option.id === optionId && option.poll_id === pollId))) {
+          throw new DataError('That option is not part of this poll', 'invalid')
+        }
+        const now = timestamp()
+        tables().poll_votes = tables().poll_votes
+          .filter(vote => vote.poll_id !== pollId || vote.user_id !== userId)
+          .concat(chosen.map(optionId => ({ poll_id: pollId, option_id: optionId, user_id: userId, created_at: now })))
+        store.save()
+        return null
+      }),
+
+      // Voters on anonymous polls are never listed
+      listVoters: (pollId, optionId) => attempt(async () => {
+        const poll = tables().polls.find(candidate => candidate.id === pollId)
+        if (!poll || poll.anonymous_votes) return []
+        return tables().poll_votes
+          .filter(vote => vote.poll_id === pollId && vote.option_id === optionId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(vote => ({ ...vote, profiles: summaryOf(vote.user_id) }))
+      }),
+    },
+
+    offers: {
+      listForSeller: sellerId => attempt(async () => {
+        expireOffers()
+        return tables().marketplace_offers
+          .filter(offer => offer.seller_id === sellerId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(offerOf)
+      }),
+
+      listByIds: offerIds => attempt(async () => {
+        expireOffers()
+        return tables().marketplace_offers
+          .filter(offer => offerIds.includes(offer.id))
+          .map(offerOf)
+      }),
+
+      // Stand-in for make_offer()
+      make: (itemId, amount, userId) => attempt(async () => {
+        const item = tables().marketplace_items.find(candidate => candidate.id === itemId && visible(candidate))
+        if (!item) throw notFound('Item')
+        if (item.seller_id === userId) throw new DataError('You cannot make an offer on your own listing', 'forbidden')
+        assertAvailable(item)
+        assertOfferAmount(amount)
+        assertNotBanned(userId)
+        expireOffers()
+        if (tables().marketplace_offers.some(offer => offer.item_id === itemId && offer.buyer_id === userId && offer.status === 'pending')) {
+          throw new DataError('You already have an offer waiting on this item', 'conflict')
+        }
+        const now = new Date()
+        const offer: OfferRow = {
+          id: newId(),
+          item_id: itemId,
+          buyer_id: userId,
+          seller_id: item.seller_id,
+          proposed_by: userId,
+          amount,
+          status: 'pending',
+          parent_id: null,
+          expires_at: new Date(now.getTime() + OFFER_LIFETIME_HOURS * 60 * 60 * 1000).toISOString(),
+          created_at: now.toISOString(),
+          responded_at: null,
+        }
+        const message = postOfferMessage(offer, userId, `Offered ${offerAmount(amount)} for ${item.title}`, true)
+        tables().marketplace_offers.push(offer)
+        store.save()
+        emitMessage('INSERT', message)
+        return offerOf(offer)
+      }),
+
+      // Stand-in for counter_offer()
+      counter: (offerId, amount, userId) => attempt(async () => {
+        const offer = openOffer(offerId, userId)
+        if (offer.proposed_by === userId) throw new DataError('Wait for an answer to your offer', 'forbidden')
+        assertOfferAmount(amount)
+        const now = new Date()
+        const counter: OfferRow = {
+          ...offer,
+          id: newId(),
+          proposed_by: userId,
+          amount,
+          parent_id: offer.id,
+          expires_at: new Date(now.getTime() + OFFER_LIFETIME_HOURS * 60 * 60 * 1000).toISOString(),
+          created_at: now.toISOString(),
+          responded_at: null,
+        }
+        const message = postOfferMessage(counter, userId, `Countered with ${offerAmount(amount)}`, true)
+        Object.assign(offer, { status: 'countered', responded_at: now.toISOString() })
+        tables().marketplace_offers.push(counter)
+        store.save()
+        emitMessage('INSERT', message)
+        return offerOf(counter)
+      }),
+
+      // Stand-in for respond_to_offer()
+      respond: (offerId, response, userId) => attempt(async () => {
+        const offer = openOffer(offerId, userId)
+        if ((response === 'withdraw') !== (offer.proposed_by === userId)) {
+          throw new DataError('Only the other side can accept or decline an offer, and only its maker can withdraw it', 'forbidden')
+        }
+        const now = timestamp()
+        const messages: MessageRow[] = []
+
+        if (response === 'accept') {
+          const item = tables().marketplace_items.find(candidate => candidate.id === offer.item_id)
+          if (!item) throw notFound('Item')
+          assertAvailable(item)
+          messages.push(postOfferMessage(offer, userId, `Accepted the offer of ${offerAmount(offer.amount)}`, false))
+          Object.assign(offer, { status: 'accepted', responded_at: now })
+          changeListingStatus(item, 'reserved', offer.buyer_id, userId)
+          tables().marketplace_offers.forEach(other => {
+            if (other.item_id !== offer.item_id || other.status !== 'pending') return
+            Object.assign(other, { status: 'declined', responded_at: now })
+            if (isBlockedWith(other.seller_id, other.buyer_id)) return
+            messages.push(postOfferMessage(other, other.seller_id,
+              `${item.title} has been reserved for another buyer, so your offer of ${offerAmount(other.amount)} was declined`, false))
+          })
+        } else {
+          const verb = response === 'withdraw' ? 'Withdrew' : 'Declined'
+          messages.push(postOfferMessage(offer, userId, `${verb} the offer of ${offerAmount(offer.amount)}`, false))
+          Object.assign(offer, { status: response === 'withdraw' ? 'withdrawn' : 'declined', responded_at: now })
+        }
+
+        store.save()
+        messages.forEach(message => emitMessage('INSERT', message))
+        return null
+      }),
+    },
+
+    reviews: {
+      listForUser: userId => attempt(async () =>
+        tables().marketplace_reviews
+          .filter(review => review.reviewee_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(reviewOf)
+      ),
+
+      listForItem: itemId => attempt(async () =>
+        tables().marketplace_reviews
+          .filter(review => review.item_id === itemId)
+          .map(reviewOf)
+      ),
+
+      save: (itemId, rating, body, userId) => attempt(async () => {
+        const item = tables().marketplace_items.find(candidate => candidate.id === itemId)
+        if (!item) throw notFound('Item')
+        if (item.status !== 'sold' || !item.buyer_id) {
+          throw new DataError('Only sales to a buyer on SijangKu can be reviewed', 'invalid')
+        }
+        const side = userId === item.seller_id ? 'seller' : userId === item.buyer_id ? 'buyer' : null
+        if (!side) throw new DataError('Only the buyer and the seller can review this sale', 'forbidden')
+        if (!buyerWasInvolved(item, item.buyer_id)) {
+          throw new DataError('Only sales to a buyer who messaged the seller or had an offer accepted can be reviewed', 'forbidden')
+        }
+        if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+          throw new DataError('Pick a rating from 1 to 5 stars', 'invalid')
+        }
+        const text = body.trim()
+        if (text.length > MAX_REVIEW_LENGTH) throw new DataError(`Keep reviews under ${MAX_REVIEW_LENGTH} characters`, 'invalid')
+        assertNotBanned(userId)
+
+        const now = timestamp()
+        let review = tables().marketplace_reviews.find(candidate => candidate.item_id === itemId && candidate.reviewer_id === userId)
+        if (review) {
+          Object.assign(review, { rating, body: text, updated_at: now })
+        } else {
+          review = {
+            id: newId(),
+            item_id: itemId,
+            reviewer_id: userId,
+            reviewee_id: side === 'seller' ? item.buyer_id : item.seller_id,
+            reviewer_role: side,
+            rating,
+            body: text,
+            created_at: now,
+            updated_at: now,
+          }
+          tables().marketplace_reviews.push(review)
+          notify(userId, review.reviewee_id, 'review', { item_id: itemId, preview: previewOf(text) })
+        }
+        store.save()
+        return reviewOf(review)
+      }),
+
+      getReputation: userId => attempt(async () => reputationOf(userId)),
+    },
+
+    wishlist: {
+      list: userId => attempt(async () => {
+        expireListings()
+        return tables().marketplace_wishlist
+          .filter(entry => entry.user_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map(entry => {
+            const item = tables().marketplace_items.find(candidate => candidate.id === entry.item_id)
+            return { ...entry, item: item ? withSeller(item) : null }
+          })
+      }),
+
+      listItemIds: userId => attempt(async () =>
+        tables().marketplace_wishlist.filter(entry => entry.user_id === userId).map(entry => entry.item_id)
+      ),
+
+      setSaved: (userId, itemId, saved) => attempt(async () => {
+        const existing = tables().marketplace_wishlist.find(entry => entry.user_id === userId && entry.item_id === itemId)
+        if (saved && !existing) {
+          const item = tables().marketplace_items.find(candidate => candidate.id === itemId)
+          if (!item) throw notFound('Item')
+          if (item.seller_id === userId) throw new DataError('You cannot save your own listing', 'forbidden')
+          if (item.status !== 'active' && item.status !== 'reserved') {
+            throw new DataError('This item is no longer available', 'forbidden')
+          }
+          tables().marketplace_wishlist.push({ user_id: userId, item_id: itemId, saved_price: item.price, created_at: timestamp() })
+        }
+        if (!saved) tables().marketplace_wishlist = tables().marketplace_wishlist.filter(entry => entry !== existing)
+        store.save()
+        return null
+      }),
+    },
+
+    savedSearches: {
+      list: userId => attempt(async () =>
+        tables().marketplace_saved_searches
+          .filter(search => search.user_id === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+      ),
+
+      create: (userId, search) => attempt(async () => {
+        const row: SavedSearchRow = {
+          alerts_enabled: true,
+          ...search,
+          name: search.name.trim(),
+          id: newId(),
+          user_id: userId,
+          created_at: timestamp(),
+        }
+        assertSavedSearch(row)
+        tables().marketplace_saved_searches.push(row)
+        store.save()
+        return row
+      }),
+
+      update: (searchId, updates, userId) => attempt(async () => {
+        const search = tables().marketplace_saved_searches.find(candidate => candidate.id === searchId && candidate.user_id === userId)
+        if (!search) throw notFound('Saved search')
+        const next = { ...search, ...updates, name: (updates.name ?? search.name).trim() }
+        assertSavedSearch(next)
+        Object.assign(search, next)
+        store.save()
+        return search
+      }),
+
+      remove: (searchId, userId) => attempt(async () => {
+        tables().marketplace_saved_searches = tables().marketplace_saved_searches
+          .filter(search => !(search.id === searchId && search.user_id === userId))
+        store.save()
+        return null
+      }),
+    },
+  }
+  return backend
+}
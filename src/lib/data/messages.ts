@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, run } from './result'
+import { Message } from './types'
+
+export interface NewMessage {
+  conversation_id: string
+  sender_id: string
+  receiver_id: string
+  content: string
+  item_id?: string
+}
+
+export interface MessagesRepository {
+  // One conversation, oldest first, with the sender's profile; with `since`,
+  // only rows created at or after it
+  listConversation(conversationId: string, since?: string | null): Promise<Result<Message[]>>
+  // Everything the user sent or received, newest first, with both profiles and the listing
+  listForUser(userId: string): Promise<Result<Message[]>>
+  // Oldest first, from `since` inclusive, or every row when null
+  listForUserSince(userId: string, since: string | null): Promise<Result<Message[]>>
+  send(message: NewMessage): Promise<Result<Message>>
+  markAsRead(messageId: string): Promise<Result<null>>
+}
+
+// Both participants derive the same id for a one-to-one conversation
+export function conversationIdFor(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join('-')
+}
+
+const CONVERSATION_COLUMNS = `
+  *,
+  sender_profile:profiles!messages_sender_id_fkey (*)
+`
+
+const USER_MESSAGE_COLUMNS = `
+  *,
+  sender_profile:profiles!messages_sender_id_fkey (
+    id,
+    full_name,
+    display_name,
+    avatar_url,
+    email
+  ),
+  receiver_profile:profiles!messages_receiver_id_fkey (
+    id,
+    full_name,
+    display_name,
+    avatar_url,
+    email
+  ),
+  marketplace_item:marketplace_items!messages_item_id_fkey (
+    id,
+    title,
+    price,
+    images
+  )
+`
+
+export function createSupabaseMessagesRepository(client: SupabaseClient): MessagesRepository {
+  return {
+    listConversation: (conversationId, since) => {
+      let query = client
+        .from('messages')
+        .select(CONVERSATION_COLUMNS)
+        .eq('conversation_id', conversationId)
+
+      if (since) {
+        query = query.gte('created_at', since)
+      }
+
+      return run(query.order('created_at', { ascending: true }))
+    },
+
+    listForUser: userId => run(
+      client
+        .from('messages')
+        .select(USER_MESSAGE_COLUMNS)
+        .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+        .order('created_at', { ascending: false })
+    ),
+
+    listForUserSince: (userId, since) => {
+      let query = client
+        .from('messages')
+        .select('*')
+        .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+
+      if (since) {
+        query = query.gte('created_at', since)
+      }
+
+      return run(query.order('created_at', { ascending: true }))
+    },
+
+    send: message => run(
+      client
+        .from('messages')
+        .insert(message)
+        .select(CONVERSATION_COLUMNS)
+        .single()
+    ),
+
+    markAsRead: messageId => run(
+      client
+        .from('messages')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', messageId)
+    ),
+  }
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { ModerationAction, ModerationActionRecord, Report, ReportReason, ReportTargetType } from './types'
+
+// Reports and what moderators do about them. Filing and deciding go through
+// database functions on Supabase, which check the caller and record the audit
+// trail; the `reporter_id`/`moderatorId`/`viewerId` arguments are for the
+// memory backend.
+
+export interface ReportTarget {
+  type: ReportTargetType
+  id: string
+}
+
+export interface NewReport {
+  reporter_id: string
+  target: ReportTarget
+  reason: ReportReason
+  details?: string | null
+}
+
+// A community's queue, or with no community the site-wide one for site admins
+export interface ModerationScope {
+  communityId?: string | null
+}
+
+export interface ModerationRepository {
+  // Resolves to the report id
+  report(report: NewReport): Promise<Result<string>>
+  // Open reports in scope, newest first, with reporter and target profiles
+  listOpenReports(scope: ModerationScope, viewerId: string): Promise<Result<Report[]>>
+  // Applies `action` to the target and settles every open report on it
+  moderate(target: ReportTarget, action: ModerationAction, moderatorId: string, note?: string | null): Promise<Result<null>>
+  // The audit trail in scope, newest first
+  listActions(scope: ModerationScope, viewerId: string, limit?: number): Promise<Result<ModerationActionRecord[]>>
+}
+
+export function createSupabaseModerationRepository(client: SupabaseClient): ModerationRepository {
+  return {
+    report: ({ target, reason, details = null }) => run(
+      client.rpc('submit_report', { target_type: target.type, target_id: target.id, reason, details })
+    ),
+
+    listOpenReports: ({ communityId }) => {
+      let query = client
+        .from('reports')
+        .select(`
+          *,
+          reporter:profiles!reports_reporter_id_fkey (${PROFILE_SUMMARY_COLUMNS}),
+          target_user:profiles!reports_target_user_id_fkey (${PROFILE_SUMMARY_COLUMNS})
+        `)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+      if (communityId) query = query.eq('community_id', communityId)
+      return run(query)
+    },
+
+    moderate: (target, action, _moderatorId, note = null) => run(
+      client.rpc('moderate_reported_content', { target_type: target.type, target_id: target.id, action, note })
+    ),
+
+    listActions: ({ communityId }, _viewerId, limit = 50) => {
+      let query = client
+        .from('moderation_actions')
+        .select(`
+          *,
+          moderator:profiles!moderation_actions_moderator_id_fkey (${PROFILE_SUMMARY_COLUMNS}),
+          target_user:profiles!moderation_actions_target_user_id_fkey (${PROFILE_SUMMARY_COLUMNS})
+        `)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+      if (communityId) query = query.eq('community_id', communityId)
+      return run(query)
+    },
+  }
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, fail, ok, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Notification } from './types'
+
+// Notifications are written by the backend (database triggers, or the memory
+// backend's write paths), never by the client; the client only reads them and
+// marks them read.
+export interface NotificationsRepository {
+  // Newest first, with the actor's profile and the community name
+  list(userId: string, limit?: number): Promise<Result<Notification[]>>
+  countUnread(userId: string): Promise<Result<number>>
+  markRead(notificationIds: string[]): Promise<Result<null>>
+  markAllRead(userId: string): Promise<Result<null>>
+}
+
+const NOTIFICATION_COLUMNS = `
+  *,
+  actor:profiles!notifications_actor_id_fkey (${PROFILE_SUMMARY_COLUMNS}),
+  community:communities (id, name)
+`
+
+export function createSupabaseNotificationsRepository(client: SupabaseClient): NotificationsRepository {
+  return {
+    list: (userId, limit = 50) => run(
+      client
+        .from('notifications')
+        .select(NOTIFICATION_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    ),
+
+    countUnread: async userId => {
+      const { count, error } = await client
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+
+      if (error) return fail(error)
+      return ok(count || 0)
+    },
+
+    markRead: notificationIds => run(
+      client
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', notificationIds)
+        .is('read_at', null)
+    ),
+
+    markAllRead: userId => run(
+      client
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+    ),
+  }
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { MARKETPLACE_OFFERS_TABLE, PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Offer } from './types'
+
+export type OfferResponse = 'accept' | 'decline' | 'withdraw'
+
+// Pending offers lapse after this long, see create_marketplace_offers.sql
+export const OFFER_LIFETIME_HOURS = 48
+
+// Offers and counter-offers on marketplace listings. Every write goes through
+// a database function that also posts the offer into the buyer and seller's
+// conversation, so chats see it on their message feed.
+export interface OffersRepository {
+  // Offers on the seller's listings, newest first, with the buyer's profile
+  listForSeller(sellerId: string): Promise<Result<Offer[]>>
+  // For the offer cards of a conversation
+  listByIds(offerIds: string[]): Promise<Result<Offer[]>>
+  make(itemId: string, amount: number, userId: string): Promise<Result<Offer>>
+  // Answers a pending offer with another amount; returns the new offer
+  counter(offerId: string, amount: number, userId: string): Promise<Result<Offer>>
+  // Accepting reserves the listing for the buyer and declines the other
+  // pending offers on it
+  respond(offerId: string, response: OfferResponse, userId: string): Promise<Result<null>>
+}
+
+// Pending and not yet lapsed; the expiry job may not have swept it yet
+export function isOfferOpen(offer: Pick<Offer, 'status' | 'expires_at'>, now = new Date()): boolean {
+  return offer.status === 'pending' && new Date(offer.expires_at) > now
+}
+
+const OFFER_COLUMNS = `*, buyer:profiles!marketplace_offers_buyer_id_fkey (${PROFILE_SUMMARY_COLUMNS})`
+
+export function createSupabaseOffersRepository(client: SupabaseClient): OffersRepository {
+  const get = async (offerId: string) => {
+    const { data, error } = await client
+      .from(MARKETPLACE_OFFERS_TABLE)
+      .select(OFFER_COLUMNS)
+      .eq('id', offerId)
+      .single()
+    if (error) throw error
+    return data as Offer
+  }
+
+  return {
+    listForSeller: sellerId => run(
+      client
+        .from(MARKETPLACE_OFFERS_TABLE)
+        .select(OFFER_COLUMNS)
+        .eq('seller_id', sellerId)
+        .order('created_at', { ascending: false })
+    ),
+
+    listByIds: offerIds => run(
+      client
+        .from(MARKETPLACE_OFFERS_TABLE)
+        .select(OFFER_COLUMNS)
+        .in('id', offerIds)
+    ),
+
+    make: (itemId, amount) => attempt(async () => {
+      const { data: offerId, error } = await client.rpc('make_offer', { target_item: itemId, offer_amount: amount })
+      if (error) throw error
+      return get(offerId)
+    }),
+
+    counter: (offerId, amount) => attempt(async () => {
+      const { data: counterId, error } = await client.rpc('counter_offer', { target_offer: offerId, offer_amount: amount })
+      if (error) throw error
+      return get(counterId)
+    }),
+
+    respond: (offerId, response) => run(
+      client.rpc('respond_to_offer', { target_offer: offerId, response })
+    ),
+  }
+}
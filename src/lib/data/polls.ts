@@ -0,0 +1,95 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { POLL_TABLES, PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Poll, PollVote, PostKind } from './types'
+
+export const MIN_POLL_OPTIONS = 2
+export const MAX_POLL_OPTIONS = 10
+
+export interface NewPoll {
+  // Labels in display order
+  options: string[]
+  allows_multiple?: boolean
+  anonymous_votes?: boolean
+  closes_at?: string | null
+}
+
+// Polls on posts. Posting a poll is two steps: create the post, then attach
+// the poll to it. Votes go through cast_poll_vote() (see create_polls.sql),
+// which enforces one vote per person on single-choice polls.
+export interface PollsRepository {
+  // Only the post's author can attach a poll, once
+  create(kind: PostKind, postId: string, poll: NewPoll, userId: string): Promise<Result<Poll>>
+  // Null when the post has no poll
+  getForPost(kind: PostKind, postId: string, viewerId: string): Promise<Result<Poll | null>>
+  // Replaces the viewer's votes; an empty list takes the vote back
+  vote(pollId: string, optionIds: string[], userId: string): Promise<Result<null>>
+  // Who picked an option. Empty on anonymous polls.
+  listVoters(pollId: string, optionId: string): Promise<Result<PollVote[]>>
+}
+
+export function isPollClosed(poll: Pick<Poll, 'closes_at'>, now = new Date()): boolean {
+  return Boolean(poll.closes_at && new Date(poll.closes_at) <= now)
+}
+
+export function createSupabasePollsRepository(client: SupabaseClient): PollsRepository {
+  const getForPost = (kind: PostKind, postId: string, viewerId: string) => attempt(async () => {
+    const { data: poll, error } = await client
+      .from(POLL_TABLES.polls)
+      .select('*, options:poll_options (*)')
+      .eq('post_kind', kind)
+      .eq('post_id', postId)
+      .maybeSingle()
+    if (error) throw error
+    if (!poll) return null
+
+    const { data: mine, error: votesError } = await client
+      .from(POLL_TABLES.votes)
+      .select('option_id')
+      .eq('poll_id', poll.id)
+      .eq('user_id', viewerId)
+    if (votesError) throw votesError
+
+    return {
+      ...poll,
+      options: [...poll.options].sort((a, b) => a.position - b.position),
+      my_votes: (mine || []).map(vote => vote.option_id),
+    } as Poll
+  })
+
+  return {
+    create: (kind, postId, poll) => attempt(async () => {
+      const { data: pollId, error } = await client.rpc('create_poll', {
+        kind,
+        target_post: postId,
+        options: poll.options.map(option => option.trim()),
+        allows_multiple: poll.allows_multiple || false,
+        anonymous_votes: poll.anonymous_votes || false,
+        closes_at: poll.closes_at || null,
+      })
+      if (error) throw error
+      const { data, error: readError } = await client
+        .from(POLL_TABLES.polls)
+        .select('*, options:poll_options (*)')
+        .eq('id', pollId)
+        .single()
+      if (readError) throw readError
+      return { ...data, options: [...data.options].sort((a, b) => a.position - b.position), my_votes: [] } as Poll
+    }),
+
+    getForPost,
+
+    vote: (pollId, optionIds) => run(
+      client.rpc('cast_poll_vote', { target_poll: pollId, option_ids: optionIds })
+    ),
+
+    listVoters: (pollId, optionId) => run(
+      client
+        .from(POLL_TABLES.votes)
+        .select(`*, profiles (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('poll_id', pollId)
+        .eq('option_id', optionId)
+        .order('created_at', { ascending: false })
+    ),
+  }
+}
@@ -0,0 +1,457 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  DEFAULT_PAGE_SIZE,
+  FeedCursor,
+  FeedItem,
+  FeedPage,
+  compareFeedItems,
+  countNewerThan,
+  cursorFor,
+  fetchFeedPage,
+} from '../pagination'
+import { Result, attempt, run, unwrap } from './result'
+import {
+  ANONYMOUS_COMMENT_FEED_VIEW,
+  ANONYMOUS_POST_FEED_VIEW,
+  COMMUNITY_POST_FEED_VIEW,
+  POST_REVISIONS_TABLE,
+  POST_TABLES,
+  PROFILE_SUMMARY_COLUMNS,
+} from './tables'
+import { DEFAULT_FEED_SORT, scoreColumn, windowStart } from '../feedRanking'
+import { countReactions } from '../reactions'
+import {
+  Comment,
+  CommunityPost,
+  FeedFields,
+  FeedSort,
+  Like,
+  Post,
+  PostKind,
+  PostRevision,
+  PostVisibility,
+  ReactionCounts,
+  ReactionType,
+} from './types'
+
+// A feed section is 'public', 'anonymous', 'following' or the id of a
+// community, the same value the layout keeps in `currentSection`. The
+// following timeline mixes public posts by people the viewer follows (and
+// their own) with posts from the communities they belong to.
+export type FeedSection = 'public' | 'anonymous' | 'following' | string
+
+export type FeedPost = (Post | CommunityPost) & Required<FeedFields>
+
+export interface NewPost {
+  user_id: string
+  content: string
+  images?: string[] | null
+  files?: string[] | null
+  visibility?: PostVisibility
+}
+
+export interface NewCommunityPost {
+  community_id: string
+  user_id: string
+  content: string
+  images?: string[] | null
+  files?: string[] | null
+}
+
+// What an author can change when editing. Leaving out `images` or `files`
+// keeps them as they are; the old version is saved as a revision.
+export interface PostEdit {
+  content: string
+  images?: string[]
+  files?: string[]
+}
+
+export interface FeedOptions {
+  // Used to mark which likes on a community post belong to the viewer
+  viewerId: string
+  pageSize?: number
+  // Newest first by default. The following timeline is always newest first.
+  sort?: FeedSort
+}
+
+export interface PostsRepository {
+  getFeedPage(section: FeedSection, cursor: FeedCursor | null, options: FeedOptions): Promise<Result<FeedPage<FeedPost>>>
+  getFeedPost(section: FeedSection, postId: string, viewerId: string): Promise<Result<FeedPost>>
+  // Looks a post up by id alone, in any section, for links to a single post
+  getPost(postId: string, viewerId: string): Promise<Result<FeedPost>>
+  // Every post in a community, newest first, for views that don't paginate
+  listCommunityFeed(communityId: string, viewerId: string): Promise<Result<FeedPost[]>>
+  // `viewerId` leaves out people the viewer blocked or muted on the memory
+  // backend; Supabase does that in RLS
+  countNewer(section: FeedSection, head: FeedItem, viewerId: string): Promise<Result<number>>
+  create(post: NewPost): Promise<Result<Post>>
+  // Authors edit and delete their own posts outside communities.
+  // `actorId` is checked by the memory backend; Supabase uses the session.
+  update(postId: string, edit: PostEdit, actorId: string): Promise<Result<Post>>
+  remove(postId: string, actorId: string): Promise<Result<null>>
+  createCommunityPost(post: NewCommunityPost): Promise<Result<CommunityPost>>
+  // Only the author edits a community post, whatever their role
+  updateCommunityPost(postId: string, edit: PostEdit, actorId: string): Promise<Result<CommunityPost>>
+  // Earlier versions of a post, newest first, for its author and moderators.
+  // `viewerId` is checked by the memory backend; Supabase uses RLS.
+  listRevisions(kind: PostKind, postId: string, viewerId: string): Promise<Result<PostRevision[]>>
+  // A community's pinned posts, most recently pinned first
+  listPinned(communityId: string, viewerId: string): Promise<Result<FeedPost[]>>
+  // Pinning and deleting others' posts follow the community's permissions.
+  // `actorId` is checked by the memory backend; Supabase uses the session.
+  setPinned(postId: string, pinned: boolean, actorId: string): Promise<Result<null>>
+  deleteCommunityPost(postId: string, actorId: string): Promise<Result<null>>
+}
+
+export function isCommunitySection(section: FeedSection): boolean {
+  return !!section && section !== 'public' && section !== 'anonymous' && section !== 'following'
+}
+
+export function postKindForSection(section: FeedSection): PostKind {
+  return isCommunitySection(section) ? 'community_post' : 'post'
+}
+
+// The section a loaded post belongs to. Posts on the following timeline are
+// liked and commented on through their own section.
+export function sectionForPost(post: Post | CommunityPost): FeedSection {
+  if (post.community_id) return post.community_id
+  return (post as Post).visibility === 'anonymous' ? 'anonymous' : 'public'
+}
+
+const POST_FEED_COLUMNS: string = `
+  *,
+  profiles (${PROFILE_SUMMARY_COLUMNS}),
+  likes (id, user_id, reaction),
+  comments (
+    id,
+    post_id,
+    parent_id,
+    content,
+    created_at,
+    edited_at,
+    deleted_at,
+    user_id,
+    profiles (${PROFILE_SUMMARY_COLUMNS})
+  )
+`
+
+// Anonymous posts come from views that mask the author, so there are no
+// profiles to embed
+const ANONYMOUS_FEED_COLUMNS: string = `
+  *,
+  likes (id, user_id, reaction),
+  comments:${ANONYMOUS_COMMENT_FEED_VIEW} (
+    id,
+    post_id,
+    parent_id,
+    content,
+    created_at,
+    edited_at,
+    deleted_at,
+    user_id,
+    author_alias
+  )
+`
+
+const COMMUNITY_FEED_COLUMNS: string = `
+  *,
+  profiles!community_posts_user_id_fkey(${PROFILE_SUMMARY_COLUMNS})
+`
+
+const COMMUNITY_COMMENT_COLUMNS: string = `
+  id,
+  post_id,
+  parent_id,
+  content,
+  created_at,
+  edited_at,
+  deleted_at,
+  user_id,
+  profiles!community_comments_user_id_fkey(${PROFILE_SUMMARY_COLUMNS})
+`
+
+// Rows of the `community_post_feed` view: a community post plus aggregates
+interface CommunityFeedRow extends CommunityPost {
+  like_count: number
+  comment_count: number
+  liked_by_me: boolean
+  my_like_id: string | null
+  reaction_counts: ReactionCounts | null
+  my_reaction: ReactionType | null
+}
+
+interface FeedCounts {
+  likes: number
+  comments: number
+  reactions: ReactionCounts
+}
+
+function withCounts(post: Post | CommunityPost, likes: Like[], comments: Comment[], counts?: FeedCounts): FeedPost {
+  return {
+    ...post,
+    likes,
+    comments,
+    _count: { likes: counts ? counts.likes : likes.length, comments: counts ? counts.comments : comments.length },
+    _reactions: counts ? counts.reactions : countReactions(likes),
+  }
+}
+
+// Anonymous posts never carry the author's profile, nor do their comments.
+function shapePost(row: Post, section: FeedSection): FeedPost {
+  const anonymous = section === 'anonymous'
+  const comments: Comment[] = [...(row.comments || [])]
+    .sort((a, b) => (a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0))
+    .map(comment => (anonymous ? { ...comment, profiles: null } : comment))
+
+  return withCounts(
+    { ...row, visibility: row.visibility || (anonymous ? 'anonymous' : 'public'), profiles: anonymous ? null : row.profiles },
+    row.likes || [],
+    comments
+  )
+}
+
+export function createSupabasePostsRepository(client: SupabaseClient): PostsRepository {
+  const postsQuery = (section: FeedSection) => section === 'anonymous'
+    ? client
+      .from(ANONYMOUS_POST_FEED_VIEW)
+      .select<string, Post>(ANONYMOUS_FEED_COLUMNS)
+    : client
+      .from(POST_TABLES.post.posts)
+      .select<string, Post>(POST_FEED_COLUMNS)
+      .eq('visibility', 'public')
+      .is('community_id', null)
+
+  const communityPostsQuery = () => client
+    .from(COMMUNITY_POST_FEED_VIEW)
+    .select<string, CommunityFeedRow>(COMMUNITY_FEED_COLUMNS)
+
+  const communityQuery = (communityId: string) => communityPostsQuery().eq('community_id', communityId)
+
+  // Community feeds read counts and the viewer's own like from the view, then
+  // fetch the comment threads for the whole page in one batched query.
+  const withCommunityComments = async (rows: CommunityFeedRow[], viewerId: string): Promise<FeedPost[]> => {
+    const threads = new Map<string, Comment[]>()
+    const postIds = rows.filter(row => row.comment_count > 0).map(row => row.id)
+
+    if (postIds.length > 0) {
+      const { data, error } = await client
+        .from(POST_TABLES.community_post.comments)
+        .select<string, Comment>(COMMUNITY_COMMENT_COLUMNS)
+        .in('post_id', postIds)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      data?.forEach(comment => {
+        const thread = threads.get(comment.post_id) || []
+        thread.push(comment)
+        threads.set(comment.post_id, thread)
+      })
+    }
+
+    return rows.map(({ reaction_counts, my_reaction, ...row }) => withCounts(
+      row,
+      row.liked_by_me && row.my_like_id ? [{ id: row.my_like_id, user_id: viewerId, reaction: my_reaction || undefined }] : [],
+      threads.get(row.id) || [],
+      {
+        likes: row.like_count || 0,
+        comments: row.comment_count || 0,
+        // Before the reactions migration every row is a plain like
+        reactions: reaction_counts || (row.like_count ? { like: row.like_count } : {}),
+      }
+    ))
+  }
+
+  // Looks in the public and anonymous feeds first, then in communities
+  const getPost = (postId: string, viewerId: string) => attempt(async (): Promise<FeedPost> => {
+    for (const section of ['public', 'anonymous']) {
+      const { data, error } = await postsQuery(section).eq('id', postId).maybeSingle()
+      if (error) throw error
+      if (data) return shapePost(data, section)
+    }
+
+    const { data: communityPost, error: communityError } = await communityPostsQuery()
+      .eq('id', postId)
+      .single()
+    if (communityError) throw communityError
+    const [post] = await withCommunityComments([communityPost], viewerId)
+    return post
+  })
+
+  // Limits a 'top' page to its time window
+  const withinWindow = <Q extends { gte: (column: string, value: string) => Q }>(query: Q, sort: FeedSort): Q => {
+    const since = windowStart(sort)
+    return since ? query.gte('created_at', since) : query
+  }
+
+  // Who and where the viewer's following timeline reads from
+  const followingSources = async (viewerId: string) => {
+    const [follows, memberships] = await Promise.all([
+      client.from('follows').select('followee_id').eq('follower_id', viewerId),
+      client.from('community_memberships').select('community_id').eq('user_id', viewerId),
+    ])
+    if (follows.error) throw follows.error
+    if (memberships.error) throw memberships.error
+    return {
+      authorIds: [viewerId, ...(follows.data || []).map(row => row.followee_id as string)],
+      communityIds: (memberships.data || []).map(row => row.community_id as string),
+    }
+  }
+
+  // Pages both tables from the same cursor and keeps the newest of the two;
+  // each side is fetched a page deep, so nothing newer can be left behind
+  const followingPage = async (viewerId: string, cursor: FeedCursor | null, pageSize = DEFAULT_PAGE_SIZE): Promise<FeedPage<FeedPost>> => {
+    const { authorIds, communityIds } = await followingSources(viewerId)
+    const [posts, communityPosts] = await Promise.all([
+      fetchFeedPage<Post>(postsQuery('public').in('user_id', authorIds), cursor, pageSize),
+      communityIds.length > 0
+        ? fetchFeedPage<CommunityFeedRow>(communityPostsQuery().in('community_id', communityIds), cursor, pageSize)
+        : Promise.resolve({ items: [], nextCursor: null }),
+    ])
+
+    const merged = [
+      ...posts.items.map(row => shapePost(row, 'public')),
+      ...(await withCommunityComments(communityPosts.items, viewerId)),
+    ].sort(compareFeedItems)
+    const items = merged.slice(0, pageSize)
+    const more = merged.length > pageSize || Boolean(posts.nextCursor) || Boolean(communityPosts.nextCursor)
+    return { items, nextCursor: more && items.length > 0 ? cursorFor(items[items.length - 1]) : null }
+  }
+
+  return {
+    getFeedPage: (section, cursor, { viewerId, pageSize, sort = DEFAULT_FEED_SORT }) => attempt(async () => {
+      if (section === 'following') return followingPage(viewerId, cursor, pageSize)
+
+      const column = scoreColumn(sort)
+      if (isCommunitySection(section)) {
+        const page = await fetchFeedPage<CommunityFeedRow>(withinWindow(communityQuery(section), sort), cursor, pageSize, column)
+        return { ...page, items: await withCommunityComments(page.items, viewerId) }
+      }
+
+      const page = await fetchFeedPage<Post>(withinWindow(postsQuery(section), sort), cursor, pageSize, column)
+      return { ...page, items: page.items.map(row => shapePost(row, section)) }
+    }),
+
+    getFeedPost: (section, postId, viewerId) => attempt(async () => {
+      if (section === 'following') return unwrap(await getPost(postId, viewerId))
+
+      if (isCommunitySection(section)) {
+        const { data, error } = await communityQuery(section).eq('id', postId).single()
+        if (error) throw error
+        const [post] = await withCommunityComments([data], viewerId)
+        return post
+      }
+
+      const { data, error } = await postsQuery(section).eq('id', postId).single()
+      if (error) throw error
+      return shapePost(data, section)
+    }),
+
+    getPost,
+
+    listPinned: (communityId, viewerId) => attempt(async () => {
+      const { data, error } = await communityQuery(communityId)
+        .not('pinned_at', 'is', null)
+        .order('pinned_at', { ascending: false })
+      if (error) throw error
+      return withCommunityComments(data || [], viewerId)
+    }),
+
+    setPinned: (postId, pinned) => run(client.rpc('set_community_post_pinned', { post_id: postId, pinned })),
+
+    deleteCommunityPost: postId => run(
+      client
+        .from(POST_TABLES.community_post.posts)
+        .delete()
+        .eq('id', postId)
+    ),
+
+    listCommunityFeed: (communityId, viewerId) => attempt(async () => {
+      const { data, error } = await communityQuery(communityId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+      if (error) throw error
+      return withCommunityComments(data || [], viewerId)
+    }),
+
+    countNewer: (section, head, viewerId) => attempt(async () => {
+      if (section === 'following') {
+        const { authorIds, communityIds } = await followingSources(viewerId)
+        const [posts, communityPosts] = await Promise.all([
+          countNewerThan(client.from(POST_TABLES.post.posts).select('id', { count: 'exact', head: true })
+            .eq('visibility', 'public').is('community_id', null).in('user_id', authorIds), head),
+          communityIds.length > 0
+            ? countNewerThan(client.from(POST_TABLES.community_post.posts).select('id', { count: 'exact', head: true })
+              .in('community_id', communityIds), head)
+            : Promise.resolve(0),
+        ])
+        return posts + communityPosts
+      }
+      if (section === 'anonymous') {
+        return countNewerThan(client.from(ANONYMOUS_POST_FEED_VIEW).select('id', { count: 'exact', head: true }), head)
+      }
+      const table = POST_TABLES[postKindForSection(section)].posts
+      let query = client.from(table).select('id', { count: 'exact', head: true })
+      query = isCommunitySection(section)
+        ? query.eq('community_id', section)
+        : query.eq('visibility', 'public').is('community_id', null)
+      return countNewerThan(query, head)
+    }),
+
+    create: post => run(
+      client
+        .from(POST_TABLES.post.posts)
+        .insert({
+          images: [],
+          visibility: 'public',
+          ...post,
+          community_id: null,
+        })
+        .select(`*, profiles (*)`)
+        .single()
+    ),
+
+    // `edited_at` and the revision are set by record_post_revision()
+    update: (postId, edit) => run(
+      client
+        .from(POST_TABLES.post.posts)
+        .update(edit)
+        .eq('id', postId)
+        .select()
+        .single()
+    ),
+
+    remove: postId => run(
+      client
+        .from(POST_TABLES.post.posts)
+        .delete()
+        .eq('id', postId)
+    ),
+
+    createCommunityPost: post => run(
+      client
+        .from(POST_TABLES.community_post.posts)
+        .insert(post)
+        .select()
+        .single()
+    ),
+
+    updateCommunityPost: (postId, edit) => run(
+      client
+        .from(POST_TABLES.community_post.posts)
+        .update(edit)
+        .eq('id', postId)
+        .select()
+        .single()
+    ),
+
+    listRevisions: (kind, postId) => run(
+      client
+        .from(POST_REVISIONS_TABLE)
+        .select(`*, profiles:profiles!post_revisions_editor_id_fkey (${PROFILE_SUMMARY_COLUMNS})`)
+        .eq('post_kind', kind)
+        .eq('post_id', postId)
+        .order('created_at', { ascending: false })
+    ),
+  }
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, fail, ok, run } from './result'
+import { PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Profile, ProfileSummary } from './types'
+
+export type NewProfile = Pick<Profile, 'id' | 'email'> & Partial<Omit<Profile, 'id' | 'email'>>
+
+export interface ProfilesRepository {
+  get(userId: string): Promise<Result<Profile>>
+  getByUsername(username: string): Promise<Result<Profile>>
+  create(profile: NewProfile): Promise<Result<Profile>>
+  update(userId: string, updates: Partial<Profile>): Promise<Result<Profile>>
+  isUsernameTaken(username: string): Promise<Result<boolean>>
+  // Matches username, display name or full name
+  search(term: string, limit?: number): Promise<Result<ProfileSummary[]>>
+}
+
+export function createSupabaseProfilesRepository(client: SupabaseClient): ProfilesRepository {
+  return {
+    get: userId => run(
+      client
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .single()
+    ),
+
+    getByUsername: username => run(
+      client
+        .from('profiles')
+        .select('*')
+        .eq('username', username)
+        .single()
+    ),
+
+    create: profile => run(
+      client
+        .from('profiles')
+        .insert(profile)
+        .select()
+        .single()
+    ),
+
+    update: (userId, updates) => run(
+      client
+        .from('profiles')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', userId)
+        .select()
+        .single()
+    ),
+
+    isUsernameTaken: async username => {
+      const { data, error } = await client
+        .from('profiles')
+        .select('id')
+        .eq('username', username)
+        .limit(1)
+
+      if (error) return fail(error)
+      return ok((data || []).length > 0)
+    },
+
+    search: (term, limit = 10) => {
+      const pattern = `%${term.trim()}%`
+      return run(
+        client
+          .from('profiles')
+          .select(PROFILE_SUMMARY_COLUMNS)
+          .or(`username.ilike.${pattern},display_name.ilike.${pattern},full_name.ilike.${pattern}`)
+          .limit(limit)
+      )
+    },
+  }
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { POST_TABLES, PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Like, PostKind, ProfileSummary, ReactionType } from './types'
+
+// A reaction with the profile of whoever left it, for "who reacted" lists
+export interface Reactor extends Like {
+  profiles: ProfileSummary | null
+}
+
+// Reactions on posts, community posts and comments. Each user has at most one
+// reaction per target; comment reactions share the `likes` table with post
+// reactions and are told apart by `comment_id`. `likePost` and friends are the
+// plain 'like' reaction.
+export interface ReactionsRepository {
+  listPostLikes(kind: PostKind, postId: string): Promise<Result<Like[]>>
+  likePost(kind: PostKind, postId: string, userId: string): Promise<Result<Like>>
+  unlikePost(kind: PostKind, postId: string, userId: string): Promise<Result<null>>
+  listCommentLikes(commentIds: string[]): Promise<Result<Like[]>>
+  likeComment(commentId: string, userId: string): Promise<Result<Like>>
+  unlikeComment(commentId: string, userId: string): Promise<Result<null>>
+  // Replaces the user's reaction; null removes it
+  setPostReaction(kind: PostKind, postId: string, userId: string, reaction: ReactionType | null): Promise<Result<Like | null>>
+  setCommentReaction(commentId: string, userId: string, reaction: ReactionType | null): Promise<Result<Like | null>>
+  // Newest first
+  listPostReactors(kind: PostKind, postId: string): Promise<Result<Reactor[]>>
+  listCommentReactors(commentId: string): Promise<Result<Reactor[]>>
+}
+
+type TargetColumn = 'post_id' | 'comment_id'
+
+export function createSupabaseReactionsRepository(client: SupabaseClient): ReactionsRepository {
+  const setReaction = (table: string, column: TargetColumn, targetId: string, userId: string, reaction: ReactionType | null) =>
+    attempt(async () => {
+      if (!reaction) {
+        const { error } = await client.from(table).delete().eq(column, targetId).eq('user_id', userId)
+        if (error) throw error
+        return null
+      }
+
+      const { data: existing, error: findError } = await client
+        .from(table)
+        .select('id')
+        .eq(column, targetId)
+        .eq('user_id', userId)
+        .maybeSingle()
+      if (findError) throw findError
+
+      const { data, error } = existing
+        ? await client.from(table).update({ reaction }).eq('id', existing.id).select().single()
+        : await client.from(table).insert({ [column]: targetId, user_id: userId, reaction }).select().single()
+      if (error) throw error
+      return data as Like
+    })
+
+  // Profiles are fetched separately: the like tables don't all have a
+  // foreign key to `profiles` that PostgREST could embed through.
+  const listReactors = (table: string, column: TargetColumn, targetId: string) =>
+    attempt(async () => {
+      const { data: likes, error } = await client
+        .from(table)
+        .select<string, Like>('id, user_id, reaction, created_at')
+        .eq(column, targetId)
+        .order('created_at', { ascending: false })
+      if (error) throw error
+      if (!likes || likes.length === 0) return []
+
+      const { data: profiles, error: profilesError } = await client
+        .from('profiles')
+        .select<string, ProfileSummary>(PROFILE_SUMMARY_COLUMNS)
+        .in('id', [...new Set(likes.map(like => like.user_id))])
+      if (profilesError) throw profilesError
+
+      const byId = new Map((profiles || []).map(profile => [profile.id, profile]))
+      return likes.map(like => ({ ...like, profiles: byId.get(like.user_id) || null }))
+    })
+
+  return {
+    listPostLikes: (kind, postId) => run(
+      client
+        .from(POST_TABLES[kind].likes)
+        .select('id, user_id, post_id, reaction')
+        .eq('post_id', postId)
+    ),
+
+    likePost: (kind, postId, userId) => run(
+      client
+        .from(POST_TABLES[kind].likes)
+        .insert({ post_id: postId, user_id: userId })
+        .select()
+        .single()
+    ),
+
+    unlikePost: (kind, postId, userId) => run(
+      client
+        .from(POST_TABLES[kind].likes)
+        .delete()
+        .eq('post_id', postId)
+        .eq('user_id', userId)
+    ),
+
+    listCommentLikes: commentIds => run(
+      client
+        .from(POST_TABLES.post.likes)
+        .select('id, user_id, comment_id, reaction')
+        .in('comment_id', commentIds)
+    ),
+
+    likeComment: (commentId, userId) => run(
+      client
+        .from(POST_TABLES.post.likes)
+        .insert({ comment_id: commentId, user_id: userId, post_id: null })
+        .select()
+        .single()
+    ),
+
+    unlikeComment: (commentId, userId) => run(
+      client
+        .from(POST_TABLES.post.likes)
+        .delete()
+        .eq('comment_id', commentId)
+        .eq('user_id', userId)
+    ),
+
+    setPostReaction: (kind, postId, userId, reaction) =>
+      setReaction(POST_TABLES[kind].likes, 'post_id', postId, userId, reaction),
+
+    setCommentReaction: (commentId, userId, reaction) =>
+      setReaction(POST_TABLES.post.likes, 'comment_id', commentId, userId, reaction),
+
+    listPostReactors: (kind, postId) => listReactors(POST_TABLES[kind].likes, 'post_id', postId),
+
+    listCommentReactors: commentId => listReactors(POST_TABLES.post.likes, 'comment_id', commentId),
+  }
+}
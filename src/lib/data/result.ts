@@ -0,0 +1,86 @@
+// Every repository method resolves to a Result instead of throwing or logging
+// and returning null. The shape matches what supabase-js hands back, so call
+// sites keep the familiar `const { data, error } = await ...` pattern.
+
+export type DataErrorCode =
+  | 'not_found'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'conflict'
+  | 'invalid'
+  | 'unknown'
+
+export class DataError extends Error {
+  readonly code: DataErrorCode
+  readonly cause?: unknown
+
+  constructor(message: string, code: DataErrorCode = 'unknown', cause?: unknown) {
+    super(message)
+    this.name = 'DataError'
+    this.code = code
+    this.cause = cause
+  }
+}
+
+export type Result<T> =
+  | { data: T; error: null }
+  | { data: null; error: DataError }
+
+export function ok<T>(data: T): Result<T> {
+  return { data, error: null }
+}
+
+export function fail<T = never>(error: unknown): Result<T> {
+  return { data: null, error: toDataError(error) }
+}
+
+// PostgREST and Postgres error codes we surface distinctly; anything else
+// becomes 'unknown' with the original error kept as `cause`.
+const ERROR_CODES: Record<string, DataErrorCode> = {
+  PGRST116: 'not_found',
+  PGRST301: 'unauthenticated',
+  // no_data_found, raised by our RPCs when their target does not exist
+  P0002: 'not_found',
+  '42501': 'forbidden',
+  '23505': 'conflict',
+  '23502': 'invalid',
+  '23503': 'invalid',
+  '23514': 'invalid',
+  '22P02': 'invalid',
+}
+
+export function toDataError(error: unknown): DataError {
+  if (error instanceof DataError) return error
+
+  const source = error as { message?: string; code?: string } | null
+  const message = source?.message || (typeof error === 'string' ? error : 'Unexpected data error')
+  const code = (source?.code && ERROR_CODES[source.code]) || 'unknown'
+  return new DataError(message, code, error)
+}
+
+// Awaits a supabase query builder (or anything with the same `{ data, error }`
+// shape) and converts it into a Result.
+export async function run<T>(query: PromiseLike<{ data: any; error: any }>): Promise<Result<T>> {
+  try {
+    const { data, error } = await query
+    if (error) return fail(error)
+    return ok(data as T)
+  } catch (error) {
+    return fail(error)
+  }
+}
+
+// Runs a multi-step operation whose helpers throw (e.g. `fetchFeedPage`).
+export async function attempt<T>(operation: () => Promise<T>): Promise<Result<T>> {
+  try {
+    return ok(await operation())
+  } catch (error) {
+    return fail(error)
+  }
+}
+
+// For callers that prefer exceptions, such as the feed hooks' page fetchers.
+export function unwrap<T>(result: Result<T>): T {
+  if (result.error) throw result.error
+  return result.data as T
+}
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { MARKETPLACE_REVIEWS_TABLE, PROFILE_SUMMARY_COLUMNS } from './tables'
+import { Reputation, Review } from './types'
+
+// Same limit as the marketplace_reviews.body check
+export const MAX_REVIEW_LENGTH = 1000
+
+// Ratings and reviews between the buyer and seller of a completed sale.
+// Writes go through review_sale(), which checks the caller took part in the
+// sale and keeps it to one review per side.
+export interface ReviewsRepository {
+  // Reviews the user received, newest first, with the reviewer's profile
+  listForUser(userId: string): Promise<Result<Review[]>>
+  // Both sides' reviews of one sale
+  listForItem(itemId: string): Promise<Result<Review[]>>
+  // Leaves the user's review of a sold listing, or replaces it
+  save(itemId: string, rating: number, body: string, userId: string): Promise<Result<Review>>
+  getReputation(userId: string): Promise<Result<Reputation>>
+}
+
+const REVIEW_COLUMNS = `*, reviewer:profiles!marketplace_reviews_reviewer_id_fkey (${PROFILE_SUMMARY_COLUMNS})`
+
+export function createSupabaseReviewsRepository(client: SupabaseClient): ReviewsRepository {
+  return {
+    listForUser: userId => run(
+      client
+        .from(MARKETPLACE_REVIEWS_TABLE)
+        .select(REVIEW_COLUMNS)
+        .eq('reviewee_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    listForItem: itemId => run(
+      client
+        .from(MARKETPLACE_REVIEWS_TABLE)
+        .select(REVIEW_COLUMNS)
+        .eq('item_id', itemId)
+    ),
+
+    save: (itemId, rating, body) => attempt(async () => {
+      const { data: reviewId, error } = await client.rpc('review_sale', {
+        target_item: itemId,
+        stars: rating,
+        review_body: body,
+      })
+      if (error) throw error
+
+      const { data, error: fetchError } = await client
+        .from(MARKETPLACE_REVIEWS_TABLE)
+        .select(REVIEW_COLUMNS)
+        .eq('id', reviewId)
+        .single()
+      if (fetchError) throw fetchError
+      return data as Review
+    }),
+
+    getReputation: userId => run(
+      client.rpc('get_reputation', { target_user: userId }).single()
+    ),
+  }
+}
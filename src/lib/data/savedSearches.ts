@@ -0,0 +1,97 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { searchTerms } from '../search'
+import { Result, run } from './result'
+import { SAVED_SEARCHES_TABLE } from './tables'
+import { MarketplaceItem, SavedSearch, SavedSearchFilters } from './types'
+
+export type NewSavedSearch = SavedSearchFilters & { name: string; alerts_enabled?: boolean }
+
+// Marketplace searches users keep. The alerts for new matching listings are
+// raised by the alert_saved_searches() trigger (see create_saved_searches.sql),
+// not by the client.
+export interface SavedSearchesRepository {
+  // Newest first
+  list(userId: string): Promise<Result<SavedSearch[]>>
+  create(userId: string, search: NewSavedSearch): Promise<Result<SavedSearch>>
+  update(searchId: string, updates: Partial<NewSavedSearch>, userId: string): Promise<Result<SavedSearch>>
+  remove(searchId: string, userId: string): Promise<Result<null>>
+}
+
+export const EMPTY_SEARCH_FILTERS: SavedSearchFilters = {
+  keywords: '',
+  category: null,
+  condition: null,
+  min_price: null,
+  max_price: null,
+  location: null,
+}
+
+// Same rules as saved_search_matches(): every keyword appears somewhere in
+// the title or description, and the other filters match when set
+export function matchesSavedSearch(
+  filters: SavedSearchFilters,
+  item: Pick<MarketplaceItem, 'title' | 'description' | 'category' | 'condition' | 'price' | 'location'>
+): boolean {
+  if (filters.category && filters.category !== item.category) return false
+  if (filters.condition && filters.condition !== item.condition) return false
+  if (filters.min_price !== null && item.price < filters.min_price) return false
+  if (filters.max_price !== null && item.price > filters.max_price) return false
+  if (filters.location && !(item.location || '').toLowerCase().includes(filters.location.trim().toLowerCase())) return false
+
+  const text = `${item.title} ${item.description || ''}`.toLowerCase()
+  return searchTerms(filters.keywords).every(term => text.includes(term))
+}
+
+// "bike · Sports · ₩10,000–₩50,000 · Seoul", for lists of saved searches
+export function describeSavedSearch(filters: SavedSearchFilters): string {
+  const price = (amount: number) =>
+    new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(amount)
+  const range = filters.min_price !== null && filters.max_price !== null
+    ? `${price(filters.min_price)}–${price(filters.max_price)}`
+    : filters.min_price !== null
+      ? `from ${price(filters.min_price)}`
+      : filters.max_price !== null
+        ? `up to ${price(filters.max_price)}`
+        : null
+
+  const parts = [filters.keywords.trim(), filters.category, filters.condition, range, filters.location]
+  return parts.filter(Boolean).join(' · ') || 'Every listing'
+}
+
+export function createSupabaseSavedSearchesRepository(client: SupabaseClient): SavedSearchesRepository {
+  return {
+    list: userId => run(
+      client
+        .from(SAVED_SEARCHES_TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    create: (userId, search) => run(
+      client
+        .from(SAVED_SEARCHES_TABLE)
+        .insert({ ...search, user_id: userId })
+        .select('*')
+        .single()
+    ),
+
+    update: (searchId, updates, userId) => run(
+      client
+        .from(SAVED_SEARCHES_TABLE)
+        .update(updates)
+        .eq('id', searchId)
+        .eq('user_id', userId)
+        .select('*')
+        .single()
+    ),
+
+    remove: (searchId, userId) => run(
+      client
+        .from(SAVED_SEARCHES_TABLE)
+        .delete()
+        .eq('id', searchId)
+        .eq('user_id', userId)
+    ),
+  }
+}
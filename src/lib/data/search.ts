@@ -0,0 +1,67 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt } from './result'
+
+export type SearchResultKind = 'profile' | 'community' | 'post' | 'community_post' | 'listing'
+
+// One hit. `title` and `snippet` have matches wrapped in <mark></mark>; see
+// `splitHighlights` in lib/search.
+export interface SearchResult {
+  kind: SearchResultKind
+  id: string
+  title: string
+  snippet: string
+  rank: number
+  // The community a community post belongs to, or the community itself
+  community_id: string | null
+  // Null on anonymous posts
+  author_id: string | null
+  image_url: string | null
+  created_at: string
+}
+
+// Hits by group, each sorted by rank
+export interface SearchResults {
+  people: SearchResult[]
+  communities: SearchResult[]
+  posts: SearchResult[]
+  listings: SearchResult[]
+}
+
+export type SearchGroup = keyof SearchResults
+
+export interface SearchOptions {
+  // Hits per kind
+  limit?: number
+}
+
+export interface SearchRepository {
+  // `viewerId` decides which community content is visible; the Supabase
+  // backend gets the same answer from RLS
+  search(query: string, viewerId: string, options?: SearchOptions): Promise<Result<SearchResults>>
+}
+
+export function groupSearchResults(results: SearchResult[]): SearchResults {
+  const groups: SearchResults = { people: [], communities: [], posts: [], listings: [] }
+  results.forEach(result => {
+    if (result.kind === 'profile') groups.people.push(result)
+    else if (result.kind === 'community') groups.communities.push(result)
+    else if (result.kind === 'listing') groups.listings.push(result)
+    else groups.posts.push(result)
+  })
+  Object.values(groups).forEach(group => group.sort((a, b) => b.rank - a.rank))
+  return groups
+}
+
+export function createSupabaseSearchRepository(client: SupabaseClient): SearchRepository {
+  return {
+    // Posts and community posts are fetched as separate kinds; together they
+    // may fill up to twice the limit, so trim the merged group back down
+    search: (query, _viewerId, { limit = 5 } = {}) => attempt(async () => {
+      const { data, error } = await client.rpc('search_all', { search_query: query, per_group: limit })
+      if (error) throw error
+      const groups = groupSearchResults((data || []) as SearchResult[])
+      groups.posts = groups.posts.slice(0, limit)
+      return groups
+    }),
+  }
+}
@@ -0,0 +1,43 @@
+import { PostKind } from './types'
+
+// Canonical table names. Posts and community posts each keep their own likes
+// and comments; the legacy `post_likes`/`post_comments` tables are folded into
+// `likes`/`comments` by the consolidate_post_reactions migration.
+export const POST_TABLES = {
+  post: { posts: 'posts', likes: 'likes', comments: 'comments' },
+  community_post: { posts: 'community_posts', likes: 'community_likes', comments: 'community_comments' },
+} as const satisfies Record<PostKind, { posts: string; likes: string; comments: string }>
+
+export const COMMUNITY_POST_FEED_VIEW = 'community_post_feed'
+
+// Earlier versions of both kinds of post, see add_post_revisions.sql
+export const POST_REVISIONS_TABLE = 'post_revisions'
+
+// Unpublished and scheduled posts, see create_post_drafts.sql
+export const POST_DRAFTS_TABLE = 'post_drafts'
+
+// Polls on posts, see create_polls.sql
+export const POLL_TABLES = { polls: 'polls', options: 'poll_options', votes: 'poll_votes' } as const
+
+// Every status a listing has been in, see add_listing_lifecycle.sql
+export const LISTING_STATUS_CHANGES_TABLE = 'marketplace_item_status_changes'
+
+// Offers on marketplace listings, see create_marketplace_offers.sql
+export const MARKETPLACE_OFFERS_TABLE = 'marketplace_offers'
+
+// Ratings left after a sale, see create_marketplace_reviews.sql
+export const MARKETPLACE_REVIEWS_TABLE = 'marketplace_reviews'
+
+// Searches users keep to be alerted about, see create_saved_searches.sql
+export const SAVED_SEARCHES_TABLE = 'marketplace_saved_searches'
+
+// Saved listings and price history, see create_marketplace_wishlist.sql
+export const WISHLIST_TABLE = 'marketplace_wishlist'
+export const PRICE_CHANGES_TABLE = 'marketplace_price_changes'
+
+// Anonymous posts and their comments with the author masked, see
+// add_anonymous_pseudonyms.sql
+export const ANONYMOUS_POST_FEED_VIEW = 'anonymous_post_feed'
+export const ANONYMOUS_COMMENT_FEED_VIEW = 'anonymous_comment_feed'
+
+export const PROFILE_SUMMARY_COLUMNS = 'id, username, display_name, full_name, avatar_url'
@@ -0,0 +1,574 @@
+// Row shapes shared by every data backend. Components import these through
+// `lib/supabase` as before; they live here so backends other than Supabase can
+// use them without pulling in the client.
+
+export interface Profile {
+  id: string
+  username?: string | null
+  full_name: string | null
+  display_name: string | null
+  email: string
+  avatar_url: string | null
+  bio: string | null
+  website: string | null
+  location: string | null
+  // Sees every report; set from the dashboard, never by the app
+  is_site_admin?: boolean
+  created_at: string
+  updated_at: string
+}
+
+// The subset of a profile embedded next to posts, comments and members
+export interface ProfileSummary {
+  id: string
+  username?: string | null
+  display_name?: string | null
+  full_name?: string | null
+  avatar_url?: string | null
+  email?: string
+  location?: string | null
+}
+
+export type PostVisibility = 'public' | 'anonymous'
+
+// Posts and community posts live in separate tables with their own likes and
+// comments; this says which set a post id belongs to.
+export type PostKind = 'post' | 'community_post'
+
+// The fixed palette of reactions; a plain like is 'like'
+export type ReactionType = 'like' | 'love' | 'haha' | 'wow' | 'sad' | 'angry'
+
+export type ReactionCounts = Partial<Record<ReactionType, number>>
+
+// A reaction on a post or comment. The tables are still called likes.
+export interface Like {
+  id: string
+  user_id: string
+  post_id?: string | null
+  comment_id?: string | null
+  // Missing on rows written before reactions existed, which count as 'like'
+  reaction?: ReactionType
+  created_at?: string
+}
+
+export interface Comment {
+  id: string
+  post_id: string
+  // On anonymous posts, only the commenter and site admins get this
+  user_id: string | null
+  // The comment this one replies to; null for top-level comments
+  parent_id?: string | null
+  content: string
+  created_at: string
+  edited_at?: string | null
+  // Deleted comments keep their row, with the content cleared, so replies stay in place
+  deleted_at?: string | null
+  hidden_at?: string | null
+  // The commenter's pseudonym number on anonymous posts, see lib/pseudonyms
+  author_alias?: number | null
+  profiles?: ProfileSummary | null
+}
+
+// Likes, comments and counts attached to a post when it is loaded for a feed
+export interface FeedFields {
+  likes?: Like[]
+  comments?: Comment[]
+  _count?: {
+    likes: number
+    comments: number
+  }
+  // Reactions by type; `_count.likes` is their total
+  _reactions?: ReactionCounts
+}
+
+// How a feed is ordered. 'top' ranks by likes within `window`, 'hot' by
+// likes and comments decayed by age, 'discussed' by comments.
+export type FeedSortMode = 'new' | 'top' | 'hot' | 'discussed'
+export type TopWindow = 'day' | 'week' | 'month' | 'all'
+
+export interface FeedSort {
+  mode: FeedSortMode
+  // Only used by 'top'; defaults to 'all'
+  window?: TopWindow
+}
+
+// Ranking columns kept up to date by triggers, see add_feed_ranking.sql
+export interface RankingFields {
+  like_count?: number
+  comment_count?: number
+  hot_score?: number
+}
+
+export interface Post extends FeedFields, RankingFields {
+  id: string
+  // On anonymous posts, only the author and site admins get this
+  user_id: string | null
+  content: string
+  images: string[]
+  files?: string[] | null
+  visibility?: PostVisibility
+  community_id?: string | null
+  // Set when a moderator hides the post; hidden rows are never returned
+  hidden_at?: string | null
+  // Always 0 on anonymous posts: the author is the thread's first pseudonym
+  author_alias?: number | null
+  created_at: string
+  updated_at: string
+  edited_at?: string | null
+  // Set once a poll is attached; the card then loads it
+  has_poll?: boolean
+  profiles: Profile
+}
+
+export interface CommunityPost extends FeedFields, RankingFields {
+  id: string
+  community_id: string
+  user_id: string
+  content: string
+  images: string[] | null
+  files: string[] | null
+  created_at: string
+  updated_at: string
+  // Set while a moderator has the post pinned to the top of the community
+  pinned_at?: string | null
+  pinned_by?: string | null
+  hidden_at?: string | null
+  edited_at?: string | null
+  has_poll?: boolean
+  profiles?: ProfileSummary | null
+  communities?: Pick<Community, 'id' | 'name' | 'description'>
+}
+
+// A post as it was before one of its edits. Only the author, site admins and,
+// in communities, members who can delete posts get to read these.
+export interface PostRevision {
+  id: string
+  post_kind: PostKind
+  post_id: string
+  // Who made the edit; hidden on anonymous posts like the post's author
+  editor_id: string | null
+  content: string
+  images: string[]
+  files: string[]
+  // When this version was replaced
+  created_at: string
+  profiles?: ProfileSummary | null
+}
+
+export interface AnonymousPost {
+  id: string
+  content: string
+  created_at: string
+  updated_at: string
+}
+
+export interface Community {
+  id: string
+  name: string
+  description: string
+  image_url: string | null
+  member_count: number
+  is_private: boolean
+  // Only the overrides; see lib/communityPermissions for the defaults
+  permissions?: Partial<CommunityPermissions> | null
+  created_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export type CommunityRole = 'admin' | 'moderator' | 'member'
+
+export type CommunityPermission = 'post' | 'comment' | 'pin' | 'delete_posts' | 'invite' | 'manage_settings'
+
+// The lowest role allowed each action
+export type CommunityPermissions = Record<CommunityPermission, CommunityRole>
+
+export interface CommunityMembership {
+  id: string
+  community_id: string
+  user_id: string
+  role: CommunityRole
+  joined_at: string
+  profiles?: ProfileSummary
+}
+
+// A shareable code that lets whoever holds it join the community
+export interface CommunityInviteLink {
+  id: string
+  community_id: string
+  code: string
+  created_by: string
+  // Null means the link never expires / has no use limit
+  expires_at: string | null
+  max_uses: number | null
+  use_count: number
+  revoked_at: string | null
+  created_at: string
+}
+
+export type CommunityInviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked'
+
+// A personal invitation; the invitee becomes a member only once they accept
+export interface CommunityInvite {
+  id: string
+  community_id: string
+  user_id: string
+  invited_by: string
+  status: CommunityInviteStatus
+  created_at: string
+  responded_at: string | null
+  community?: Pick<Community, 'id' | 'name' | 'description' | 'member_count' | 'is_private'> | null
+  inviter?: ProfileSummary | null
+  invitee?: ProfileSummary | null
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'declined' | 'cancelled'
+
+export interface CommunityJoinRequest {
+  id: string
+  community_id: string
+  user_id: string
+  message: string | null
+  status: JoinRequestStatus
+  created_at: string
+  decided_by: string | null
+  decided_at: string | null
+  profiles?: ProfileSummary | null
+}
+
+export interface MarketplaceItem {
+  id: string
+  seller_id: string
+  title: string
+  description: string
+  price: number
+  category: string
+  condition: string
+  images: string[]
+  location?: string | null
+  // Kept in step with `status` by the database
+  is_sold: boolean
+  status: ListingStatus
+  // Who it is reserved for or was sold to; null when sold outside the app
+  buyer_id?: string | null
+  reserved_at?: string | null
+  sold_at?: string | null
+  // When an active listing lapses unless relisted
+  expires_at?: string | null
+  hidden_at?: string | null
+  created_at: string
+  updated_at: string
+  profiles?: Profile
+}
+
+// Where a listing is in its life, see add_listing_lifecycle.sql for the
+// moves allowed between them
+export type ListingStatus = 'draft' | 'active' | 'reserved' | 'sold' | 'expired' | 'removed'
+
+export interface ListingStatusChange {
+  id: string
+  item_id: string
+  // Null for the listing being created
+  from_status: ListingStatus | null
+  to_status: ListingStatus
+  buyer_id: string | null
+  // Null when the expiry job moved it
+  changed_by: string | null
+  created_at: string
+  buyer?: ProfileSummary | null
+}
+
+export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'withdrawn' | 'expired'
+
+// A price proposed for a listing. A counter-offer is a new offer pointing at
+// the one it answers, see create_marketplace_offers.sql.
+export interface Offer {
+  id: string
+  item_id: string
+  buyer_id: string
+  seller_id: string
+  // The other side is the one who accepts, declines or counters
+  proposed_by: string
+  amount: number
+  status: OfferStatus
+  parent_id: string | null
+  expires_at: string
+  created_at: string
+  responded_at: string | null
+  buyer?: ProfileSummary | null
+}
+
+// Which side of the sale left the review
+export type ReviewerRole = 'buyer' | 'seller'
+
+// A rating one side of a completed sale left for the other, see
+// create_marketplace_reviews.sql. One per side per sale; editing replaces it.
+export interface Review {
+  id: string
+  // Null once the listing is deleted
+  item_id: string | null
+  reviewer_id: string
+  reviewee_id: string
+  reviewer_role: ReviewerRole
+  // 1 to 5
+  rating: number
+  body: string
+  created_at: string
+  updated_at: string
+  reviewer?: ProfileSummary | null
+}
+
+// A listing a user saved to watch, see create_marketplace_wishlist.sql
+export interface WishlistEntry {
+  user_id: string
+  item_id: string
+  // The price when it was saved
+  saved_price: number | null
+  created_at: string
+  item?: MarketplaceItem | null
+}
+
+// One change to a listing's price, recorded by the database
+export interface PriceChange {
+  id: string
+  item_id: string
+  old_price: number
+  new_price: number
+  created_at: string
+}
+
+// The filters of a saved search; null or empty means any
+export interface SavedSearchFilters {
+  keywords: string
+  category: string | null
+  condition: string | null
+  min_price: number | null
+  max_price: number | null
+  location: string | null
+}
+
+// A marketplace search kept by a user, who is alerted when a new listing
+// matches it, see create_saved_searches.sql
+export interface SavedSearch extends SavedSearchFilters {
+  id: string
+  user_id: string
+  name: string
+  alerts_enabled: boolean
+  created_at: string
+}
+
+export interface Reputation {
+  // Null until the first review
+  rating_average: number | null
+  review_count: number
+  // Share of recent marketplace conversations answered, 0 to 1; null when
+  // nobody has messaged them lately
+  response_rate: number | null
+}
+
+export interface Message {
+  id: string
+  conversation_id: string
+  sender_id: string
+  receiver_id: string
+  content: string
+  item_id?: string
+  // Set on the message that carries an offer, rendered as an offer card
+  offer_id?: string | null
+  created_at: string
+  read_at?: string
+  hidden_at?: string | null
+  profiles?: Profile
+  marketplace_items?: MarketplaceItem
+  sender_profile?: ProfileSummary
+  receiver_profile?: ProfileSummary
+  marketplace_item?: Pick<MarketplaceItem, 'id' | 'title' | 'price' | 'images'>
+}
+
+// What a notification is about. 'community_added' is someone else adding the
+// user to a community, from before invites had to be accepted.
+export type NotificationType =
+  | 'reaction'
+  | 'comment'
+  | 'reply'
+  | 'mention'
+  | 'community_added'
+  | 'community_invite'
+  | 'join_request'
+  | 'join_approved'
+  | 'message'
+  | 'moderation_warning'
+  | 'review'
+  | 'listing_match'
+  | 'price_drop'
+  | 'item_reserved'
+  | 'item_sold'
+
+export interface Notification {
+  id: string
+  // The recipient
+  user_id: string
+  // Null when the action must not reveal who took it, e.g. on anonymous posts
+  actor_id: string | null
+  type: NotificationType
+  post_kind: PostKind | null
+  post_id: string | null
+  comment_id: string | null
+  community_id: string | null
+  conversation_id: string | null
+  item_id: string | null
+  reaction: ReactionType | null
+  // The start of the comment, post or message that triggered it
+  preview: string | null
+  created_at: string
+  read_at: string | null
+  actor?: ProfileSummary | null
+  community?: Pick<Community, 'id' | 'name'> | null
+}
+
+// What a report points at. Comments are split by the kind of post they are
+// on, like their tables.
+export type ReportTargetType =
+  | 'post'
+  | 'community_post'
+  | 'comment'
+  | 'community_comment'
+  | 'listing'
+  | 'message'
+  | 'profile'
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'scam' | 'inappropriate' | 'other'
+
+export type ReportStatus = 'open' | 'dismissed' | 'actioned'
+
+export type ModerationAction = 'dismiss' | 'hide' | 'delete' | 'warn' | 'ban'
+
+// One user flagging one target. The author, community and start of the
+// content are copied in when the report is filed, so the queue keeps its
+// context after the content itself is hidden or deleted.
+export interface Report {
+  id: string
+  reporter_id: string
+  target_type: ReportTargetType
+  target_id: string
+  target_user_id: string | null
+  community_id: string | null
+  target_preview: string | null
+  // The target is an anonymous post or a comment on one
+  anonymous: boolean
+  reason: ReportReason
+  details: string | null
+  status: ReportStatus
+  resolution: ModerationAction | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  reporter?: ProfileSummary | null
+  target_user?: ProfileSummary | null
+}
+
+// A row of the moderation audit trail
+export interface ModerationActionRecord {
+  id: string
+  moderator_id: string | null
+  action: ModerationAction
+  target_type: ReportTargetType
+  target_id: string
+  target_user_id: string | null
+  community_id: string | null
+  note: string | null
+  // How many open reports the decision settled
+  report_count: number
+  created_at: string
+  moderator?: ProfileSummary | null
+  target_user?: ProfileSummary | null
+}
+
+// A null community means a site-wide ban
+export interface UserBan {
+  id: string
+  user_id: string
+  community_id: string | null
+  banned_by: string | null
+  reason: string | null
+  created_at: string
+}
+
+// Blocks hide both people from each other; mutes only hide the muted
+// person's posts from the one who muted them. `profiles` is the other person.
+export interface UserBlock {
+  blocker_id: string
+  blocked_id: string
+  created_at: string
+  profiles?: ProfileSummary | null
+}
+
+export interface UserMute {
+  muter_id: string
+  muted_id: string
+  created_at: string
+  profiles?: ProfileSummary | null
+}
+
+// `profiles` is the other person: the followee in a following list, the
+// follower in a followers list
+export interface Follow {
+  follower_id: string
+  followee_id: string
+  created_at: string
+  profiles?: ProfileSummary | null
+}
+
+// An unpublished post. With `scheduled_at` set it is published at that time
+// by a database job (see create_post_drafts.sql); until then it can still be
+// edited, or unscheduled back into a plain draft.
+export interface PostDraft {
+  id: string
+  user_id: string
+  // Null for the public and anonymous feeds
+  community_id: string | null
+  visibility: PostVisibility
+  content: string
+  images: string[]
+  files: string[]
+  scheduled_at: string | null
+  // Why the job could not publish it, e.g. the author lost the right to post
+  publish_error: string | null
+  created_at: string
+  updated_at: string
+  communities?: Pick<Community, 'id' | 'name'> | null
+}
+
+// A poll attached to a post, whose text is the question. Counts are kept by
+// triggers, see create_polls.sql.
+export interface Poll {
+  id: string
+  post_kind: PostKind
+  post_id: string
+  allows_multiple: boolean
+  // Counts stay public; who voted for what is only shown to each voter
+  anonymous_votes: boolean
+  closes_at: string | null
+  voter_count: number
+  created_at: string
+  // In `position` order
+  options: PollOption[]
+  // The viewer's chosen options
+  my_votes?: string[]
+}
+
+export interface PollOption {
+  id: string
+  poll_id: string
+  label: string
+  position: number
+  vote_count: number
+}
+
+export interface PollVote {
+  poll_id: string
+  option_id: string
+  user_id: string
+  created_at: string
+  profiles?: ProfileSummary | null
+}
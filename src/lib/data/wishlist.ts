@@ -0,0 +1,42 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Result, attempt, run } from './result'
+import { WISHLIST_TABLE } from './tables'
+import { WishlistEntry } from './types'
+
+// Listings users saved to watch. Price drops and reservations or sales of a
+// saved listing are notified by the notify_wishlist() trigger, see
+// create_marketplace_wishlist.sql.
+export interface WishlistRepository {
+  // Most recently saved first, with the listing and its seller
+  list(userId: string): Promise<Result<WishlistEntry[]>>
+  // For the save buttons on listing cards
+  listItemIds(userId: string): Promise<Result<string[]>>
+  setSaved(userId: string, itemId: string, saved: boolean): Promise<Result<null>>
+}
+
+export function createSupabaseWishlistRepository(client: SupabaseClient): WishlistRepository {
+  return {
+    list: userId => run(
+      client
+        .from(WISHLIST_TABLE)
+        .select('*, item:marketplace_items (*, profiles!marketplace_items_seller_id_fkey (*))')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+    ),
+
+    listItemIds: userId => attempt(async () => {
+      const { data, error } = await client
+        .from(WISHLIST_TABLE)
+        .select('item_id')
+        .eq('user_id', userId)
+      if (error) throw error
+      return (data || []).map(row => row.item_id as string)
+    }),
+
+    setSaved: (userId, itemId, saved) => run(
+      saved
+        ? client.from(WISHLIST_TABLE).upsert({ user_id: userId, item_id: itemId }, { ignoreDuplicates: true })
+        : client.from(WISHLIST_TABLE).delete().eq('user_id', userId).eq('item_id', itemId)
+    ),
+  }
+}
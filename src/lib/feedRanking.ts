@@ -0,0 +1,61 @@
+import type { FeedSort, FeedSortMode, TopWindow } from './data/types'
+
+// Sort modes for post feeds. Ranked sorts read stored columns that triggers
+// keep current (see add_feed_ranking.sql), so every mode pages with a keyset
+// cursor in the database instead of sorting what the client already has.
+
+export const FEED_SORT_MODES: FeedSortMode[] = ['new', 'hot', 'top', 'discussed']
+
+export const FEED_SORT_LABELS: Record<FeedSortMode, string> = {
+  new: 'New',
+  hot: 'Hot',
+  top: 'Top',
+  discussed: 'Most discussed',
+}
+
+export const TOP_WINDOWS: TopWindow[] = ['day', 'week', 'month', 'all']
+
+export const TOP_WINDOW_LABELS: Record<TopWindow, string> = {
+  day: 'Today',
+  week: 'This week',
+  month: 'This month',
+  all: 'All time',
+}
+
+export const DEFAULT_FEED_SORT: FeedSort = { mode: 'new' }
+
+export type ScoreColumn = 'like_count' | 'comment_count' | 'hot_score'
+
+const WINDOW_MS: Record<Exclude<TopWindow, 'all'>, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+}
+
+// The column a ranked sort orders by, ahead of (created_at, id). 'new' has none.
+export function scoreColumn(sort: FeedSort): ScoreColumn | null {
+  switch (sort.mode) {
+    case 'top': return 'like_count'
+    case 'hot': return 'hot_score'
+    case 'discussed': return 'comment_count'
+    default: return null
+  }
+}
+
+// The oldest `created_at` a page may include, or null when every post counts
+export function windowStart(sort: FeedSort, now: number = Date.now()): string | null {
+  if (sort.mode !== 'top' || !sort.window || sort.window === 'all') return null
+  return new Date(now - WINDOW_MS[sort.window]).toISOString()
+}
+
+// Mirrors feed_hot_score(): each tenfold rise in engagement is worth 12.5
+// hours of recency. The score only depends on the post, never on the current
+// time, so it can be stored and indexed.
+export function hotScore(likes: number, comments: number, createdAt: string): number {
+  return Math.log10(Math.max(likes + 2 * comments, 1)) + new Date(createdAt).getTime() / 1000 / 45000
+}
+
+// Identifies a sort in feed keys, so changing it starts the feed over
+export function feedSortKey(sort: FeedSort): string {
+  return sort.mode === 'top' ? `top:${sort.window || 'all'}` : sort.mode
+}
@@ -0,0 +1,89 @@
+import type { ModerationAction, PostKind, Report, ReportReason, ReportTargetType } from './data/types'
+
+// Wording, available actions and grouping for reports and the moderation
+// queue. The database checks who may take which action in
+// moderate_reported_content() (see create_reports_and_moderation.sql).
+
+export const REPORT_REASONS: { reason: ReportReason; label: string; description: string }[] = [
+  { reason: 'spam', label: 'Spam', description: 'Advertising, repeated posts or misleading links' },
+  { reason: 'harassment', label: 'Harassment', description: 'Bullying, threats or targeting someone' },
+  { reason: 'hate', label: 'Hate speech', description: 'Attacks on people for who they are' },
+  { reason: 'scam', label: 'Scam or fraud', description: 'Fake listings, payment tricks or stolen goods' },
+  { reason: 'inappropriate', label: 'Inappropriate content', description: 'Nudity, violence or anything unsafe' },
+  { reason: 'other', label: 'Something else', description: 'Tell us what is wrong below' },
+]
+
+export const REPORT_REASON_LABELS = Object.fromEntries(
+  REPORT_REASONS.map(({ reason, label }) => [reason, label])
+) as Record<ReportReason, string>
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'post',
+  community_post: 'community post',
+  comment: 'comment',
+  community_comment: 'community comment',
+  listing: 'listing',
+  message: 'message',
+  profile: 'profile',
+}
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Dismiss',
+  hide: 'Hide',
+  delete: 'Delete',
+  warn: 'Warn',
+  ban: 'Ban',
+}
+
+// Past tense, for the audit trail
+export const MODERATION_ACTION_VERBS: Record<ModerationAction, string> = {
+  dismiss: 'dismissed reports on',
+  hide: 'hid',
+  delete: 'deleted',
+  warn: 'warned the author of',
+  ban: 'banned the author of',
+}
+
+export function commentReportType(kind: PostKind): ReportTargetType {
+  return kind === 'community_post' ? 'community_comment' : 'comment'
+}
+
+// Profiles have no content to hide or delete. Banning is left out when the
+// moderator may not ban: only community admins ban from a community, and only
+// site admins ban from the site.
+export function moderationActionsFor(type: ReportTargetType, { canBan }: { canBan: boolean }): ModerationAction[] {
+  const actions: ModerationAction[] = type === 'profile' ? ['dismiss', 'warn'] : ['dismiss', 'hide', 'delete', 'warn']
+  return canBan ? [...actions, 'ban'] : actions
+}
+
+// Every open report on one target, as one queue entry
+export interface ModerationQueueItem {
+  key: string
+  target_type: ReportTargetType
+  target_id: string
+  // The newest report; its copied context describes the target
+  latest: Report
+  reports: Report[]
+  reasons: Partial<Record<ReportReason, number>>
+}
+
+// Expects reports newest first. The most reported targets come first, then
+// the most recently reported.
+export function groupReports(reports: Report[]): ModerationQueueItem[] {
+  const items = new Map<string, ModerationQueueItem>()
+
+  reports.forEach(report => {
+    const key = `${report.target_type}:${report.target_id}`
+    let item = items.get(key)
+    if (!item) {
+      item = { key, target_type: report.target_type, target_id: report.target_id, latest: report, reports: [], reasons: {} }
+      items.set(key, item)
+    }
+    item.reports.push(report)
+    item.reasons[report.reason] = (item.reasons[report.reason] || 0) + 1
+  })
+
+  return [...items.values()].sort((a, b) =>
+    b.reports.length - a.reports.length || b.latest.created_at.localeCompare(a.latest.created_at)
+  )
+}
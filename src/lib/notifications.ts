@@ -0,0 +1,166 @@
+import type { Notification, NotificationType, ProfileSummary } from './data/types'
+import { paths } from './router'
+
+// Mentions, grouping and wording for the notification panel.
+
+// Same pattern as the notification triggers: letters, digits and underscores,
+// with single dots allowed between them
+const MENTION_PATTERN = /(?:^|[^A-Za-z0-9_@])@([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)/g
+
+// Usernames mentioned in a post or comment, lowercased and without duplicates
+export function mentionedUsernames(content: string): string[] {
+  const usernames = new Set<string>()
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[1].toLowerCase())
+  }
+  return [...usernames]
+}
+
+// Kept short so the panel stays readable
+export function previewOf(content: string | null | undefined): string | null {
+  const text = (content || '').trim().replace(/\s+/g, ' ')
+  if (!text) return null
+  return text.length > 140 ? `${text.slice(0, 139)}…` : text
+}
+
+// Notifications about the same thing shown as one entry, e.g. every reaction
+// to one post or every request to join one community. Types that are
+// personal (replies, mentions, invites) are never grouped.
+export interface NotificationGroup {
+  key: string
+  type: NotificationType
+  // The newest notification in the group; its fields describe the target
+  latest: Notification
+  notifications: Notification[]
+  // Distinct actors, newest first; null stands for an anonymous actor
+  actors: (ProfileSummary | null)[]
+  unread: boolean
+}
+
+function groupKey(notification: Notification): string {
+  const { type, post_kind, post_id, comment_id, conversation_id } = notification
+  switch (type) {
+    case 'reaction': return `reaction:${post_kind}:${comment_id ? `comment:${comment_id}` : post_id}`
+    case 'comment': return `comment:${post_kind}:${post_id}`
+    case 'message': return `message:${conversation_id}`
+    case 'join_request': return `join_request:${notification.community_id}`
+    default: return `${type}:${notification.id}`
+  }
+}
+
+// Expects notifications newest first and keeps that order. Read and unread
+// notifications are grouped separately, so marking a group read never hides
+// newer activity inside an older entry.
+export function groupNotifications(notifications: Notification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>()
+
+  notifications.forEach(notification => {
+    const unread = !notification.read_at
+    const key = `${groupKey(notification)}:${unread ? 'unread' : 'read'}`
+    const group = groups.get(key)
+
+    if (!group) {
+      groups.set(key, {
+        key,
+        type: notification.type,
+        latest: notification,
+        notifications: [notification],
+        actors: [notification.actor_id ? notification.actor || null : null],
+        unread,
+      })
+      return
+    }
+
+    group.notifications.push(notification)
+    const actorSeen = group.actors.some(actor =>
+      notification.actor_id ? actor?.id === notification.actor_id : actor === null
+    )
+    if (!actorSeen) group.actors.push(notification.actor_id ? notification.actor || null : null)
+  })
+
+  return [...groups.values()]
+}
+
+export function actorName(actor: ProfileSummary | null): string {
+  if (!actor) return 'Someone'
+  return actor.display_name || actor.full_name || actor.username || 'Someone'
+}
+
+// "Ana", "Ana and Budi", "Ana and 4 others"
+export function actorNames(actors: (ProfileSummary | null)[]): string {
+  const [first, second] = actors
+  if (actors.length === 1) return actorName(first)
+  if (actors.length === 2) return `${actorName(first)} and ${actorName(second)}`
+  return `${actorName(first)} and ${actors.length - 1} others`
+}
+
+export function describeNotificationGroup(group: NotificationGroup): string {
+  const who = actorNames(group.actors)
+  const { latest } = group
+  const target = latest.comment_id ? 'your comment' : 'your post'
+
+  switch (group.type) {
+    case 'reaction': {
+      const onlyLikes = group.notifications.every(notification => !notification.reaction || notification.reaction === 'like')
+      return `${who} ${onlyLikes ? 'liked' : 'reacted to'} ${target}`
+    }
+    case 'comment':
+      return `${who} commented on your post`
+    case 'reply':
+      return `${who} replied to your comment`
+    case 'mention':
+      return `${who} mentioned you in ${latest.comment_id ? 'a comment' : 'a post'}`
+    case 'community_added':
+      return `${who} added you to ${latest.community?.name || 'a community'}`
+    case 'community_invite':
+      return `${who} invited you to join ${latest.community?.name || 'a community'}`
+    case 'join_request':
+      return `${who} ${group.actors.length > 1 ? 'are asking' : 'is asking'} to join ${latest.community?.name || 'your community'}`
+    case 'join_approved':
+      return `Your request to join ${latest.community?.name || 'a community'} was approved`
+    case 'message': {
+      const count = group.notifications.length
+      return count > 1 ? `${who} sent you ${count} messages` : `${who} sent you a message`
+    }
+    case 'moderation_warning':
+      return latest.community
+        ? `The moderators of ${latest.community.name} sent you a warning`
+        : 'The moderators sent you a warning'
+    case 'review':
+      return `${who} left you a review`
+    case 'listing_match':
+      return `${who} listed something matching your saved search`
+    case 'price_drop':
+      return 'A listing you saved dropped in price'
+    case 'item_reserved':
+      return `${who} reserved a listing you saved for another buyer`
+    case 'item_sold':
+      return 'A listing you saved was sold'
+  }
+}
+
+// Where clicking a notification goes
+export function notificationPath(notification: Notification): string {
+  if (notification.type === 'message' && notification.conversation_id) {
+    return paths.messages(notification.conversation_id)
+  }
+  if (notification.community_id) {
+    switch (notification.type) {
+      case 'community_added':
+      case 'join_approved':
+      case 'moderation_warning':
+        return paths.community(notification.community_id)
+      // Pending invites are answered from the communities list
+      case 'community_invite':
+        return paths.communities()
+      case 'join_request':
+        return paths.communityInfo(notification.community_id)
+    }
+  }
+  const listingTypes: NotificationType[] = ['review', 'listing_match', 'price_drop', 'item_reserved', 'item_sold']
+  if (listingTypes.includes(notification.type) && notification.item_id) {
+    return paths.market(notification.item_id)
+  }
+  if (notification.post_id) return paths.post(notification.post_id)
+  return paths.home()
+}
@@ -0,0 +1,150 @@
+import type { ScoreColumn } from './feedRanking'
+
+// Cursor-based pagination for feeds ordered by (created_at DESC, id DESC).
+//
+// Offsets shift whenever a new post is inserted at the head of a feed, so pages
+// are keyed by the last row we have instead. Ties on `created_at` are broken by
+// `id`, which keeps the order total and stops rows from being skipped or repeated.
+//
+// Ranked feeds (see lib/feedRanking) put a score column in front of the same
+// two keys, and their cursors carry the last row's score as well.
+
+export interface FeedCursor {
+  created_at: string
+  id: string
+  // Set on ranked feeds only
+  score?: number
+}
+
+export interface FeedPage<T> {
+  items: T[]
+  nextCursor: FeedCursor | null
+}
+
+export interface FeedItem {
+  id: string
+  created_at: string
+}
+
+export const DEFAULT_PAGE_SIZE = 20
+
+// The parts of a PostgREST filter builder the helpers below use
+export interface FeedQuery<T> extends PromiseLike<{ data: T[] | null; error: unknown }> {
+  or(filters: string): FeedQuery<T>
+  order(column: string, options: { ascending: boolean }): FeedQuery<T>
+  limit(count: number): FeedQuery<T>
+}
+
+export interface CountQuery {
+  gt(column: string, value: string): PromiseLike<{ count: number | null; error: unknown }>
+}
+
+export function cursorFor(item: FeedItem, score?: number): FeedCursor {
+  return score === undefined
+    ? { created_at: item.created_at, id: item.id }
+    : { score, created_at: item.created_at, id: item.id }
+}
+
+// Restricts a PostgREST query to rows strictly after `cursor` in feed order,
+// ranked by `scoreColumn` first when one is given.
+export function applyFeedCursor<Q extends { or: (filters: string) => Q }>(
+  query: Q,
+  cursor: FeedCursor | null,
+  scoreColumn: ScoreColumn | null = null
+): Q {
+  if (!cursor) return query
+  const createdAt = `"${cursor.created_at}"`
+  const byDate = `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`
+  if (!scoreColumn || cursor.score === undefined) return query.or(byDate)
+
+  const score = `${scoreColumn}.eq.${cursor.score}`
+  return query.or(
+    `${scoreColumn}.lt.${cursor.score},and(${score},created_at.lt.${createdAt}),and(${score},created_at.eq.${createdAt},id.lt.${cursor.id})`
+  )
+}
+
+// Runs `query` (already filtered, not yet ordered) for one page. One extra row is
+// requested so we know whether another page exists without a count query.
+export async function fetchFeedPage<T extends FeedItem & Partial<Record<ScoreColumn, number>>>(
+  query: FeedQuery<T>,
+  cursor: FeedCursor | null,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  scoreColumn: ScoreColumn | null = null
+): Promise<FeedPage<T>> {
+  let ordered = applyFeedCursor(query, cursor, scoreColumn)
+  if (scoreColumn) ordered = ordered.order(scoreColumn, { ascending: false })
+  const { data, error } = await ordered
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1)
+
+  if (error) throw error
+
+  const rows = data || []
+  const items = rows.slice(0, pageSize)
+  const last = items[items.length - 1]
+  const nextCursor = rows.length > pageSize
+    ? cursorFor(last, scoreColumn ? Number(last[scoreColumn]) : undefined)
+    : null
+
+  return { items, nextCursor }
+}
+
+// `query` must be built with `select('id', { count: 'exact', head: true })`.
+export async function countNewerThan(query: CountQuery, head: FeedItem): Promise<number> {
+  const { count, error } = await query.gt('created_at', head.created_at)
+  if (error) throw error
+  return count || 0
+}
+
+// Pages a local array the same way, for the in-memory backend. `scoreOf`
+// ranks the rows the way a score column would.
+export function paginateArray<T extends FeedItem>(
+  rows: T[],
+  cursor: FeedCursor | null,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  scoreOf?: (row: T) => number
+): FeedPage<T> {
+  const keyed = rows.map(row => ({ row, key: cursorFor(row, scoreOf ? scoreOf(row) : undefined) }))
+  const sorted = keyed.sort((a, b) => compareFeedKeys(a.key, b.key))
+  const start = cursor ? sorted.findIndex(({ key }) => compareFeedKeys(key, cursor) > 0) : 0
+  if (start === -1) return { items: [], nextCursor: null }
+
+  const page = sorted.slice(start, start + pageSize)
+  const nextCursor = start + pageSize < sorted.length ? page[page.length - 1].key : null
+  return { items: page.map(({ row }) => row), nextCursor }
+}
+
+export function compareFeedItems(a: FeedItem, b: FeedItem): number {
+  if (a.created_at !== b.created_at) {
+    return a.created_at > b.created_at ? -1 : 1
+  }
+  if (a.id === b.id) return 0
+  return a.id > b.id ? -1 : 1
+}
+
+// Feed order including the score, when both sides have one
+export function compareFeedKeys(a: FeedCursor, b: FeedCursor): number {
+  if (a.score !== undefined && b.score !== undefined && a.score !== b.score) {
+    return a.score > b.score ? -1 : 1
+  }
+  return compareFeedItems(a, b)
+}
+
+// Merges pages while dropping duplicates: a row that moved between pages shows
+// up once, with the incoming copy replacing the one already on screen.
+export function mergeFeedItems<T extends FeedItem>(existing: T[], incoming: T[]): T[] {
+  const byId = new Map<string, T>()
+  existing.forEach(item => byId.set(item.id, item))
+  incoming.forEach(item => byId.set(item.id, item))
+  return Array.from(byId.values()).sort(compareFeedItems)
+}
+
+// The same for ranked feeds, whose order only the server knows: rows already
+// on screen keep their place and unseen ones are added after them.
+export function appendFeedItems<T extends FeedItem>(existing: T[], incoming: T[]): T[] {
+  const byId = new Map(incoming.map(item => [item.id, item]))
+  const kept = existing.map(item => byId.get(item.id) || item)
+  const seen = new Set(existing.map(item => item.id))
+  return [...kept, ...incoming.filter(item => !seen.has(item.id))]
+}
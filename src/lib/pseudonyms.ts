@@ -0,0 +1,64 @@
+// Names and avatar colours for people in anonymous threads. The database only
+// hands out a number per person and thread (0 for the post's author, see
+// add_anonymous_pseudonyms.sql); this turns it into something readable.
+//
+// Names start from an offset taken from the post id, so alias 1 is a
+// different animal on every post and nobody can be followed across threads.
+
+const ADJECTIVES = [
+  'Amber', 'Brave', 'Calm', 'Clever', 'Curious', 'Gentle', 'Happy', 'Jolly',
+  'Lucky', 'Mellow', 'Misty', 'Nimble', 'Quiet', 'Rapid', 'Sunny', 'Witty',
+]
+
+const ANIMALS = [
+  'Badger', 'Crane', 'Dolphin', 'Falcon', 'Fox', 'Gecko', 'Heron', 'Koala',
+  'Lynx', 'Otter', 'Owl', 'Panda', 'Quokka', 'Raven', 'Tiger', 'Walrus',
+]
+
+// Tailwind gradient classes for the avatar circle
+const COLORS = [
+  'from-rose-400 to-pink-500',
+  'from-orange-400 to-amber-500',
+  'from-lime-400 to-green-500',
+  'from-emerald-400 to-teal-500',
+  'from-cyan-400 to-sky-500',
+  'from-blue-400 to-indigo-500',
+  'from-violet-400 to-purple-500',
+  'from-fuchsia-400 to-pink-500',
+]
+
+export interface Pseudonym {
+  name: string
+  initials: string
+  color: string
+  // The person who wrote the post
+  isAuthor: boolean
+}
+
+function hashOf(value: string): number {
+  let hash = 0
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0
+  }
+  return hash
+}
+
+// Distinct for the first ADJECTIVES × ANIMALS people in a thread. A missing
+// alias (rows written before aliases existed) gets a neutral stand-in.
+export function pseudonymFor(postId: string, alias: number | null | undefined): Pseudonym {
+  if (alias === null || alias === undefined) {
+    return { name: 'Anonymous', initials: '?', color: 'from-gray-400 to-gray-500', isAuthor: false }
+  }
+
+  // Stepping by one more than the adjective count changes both words between
+  // neighbouring aliases; it shares no factor with the 256 combinations
+  const index = (hashOf(postId) + alias * (ADJECTIVES.length + 1)) % (ADJECTIVES.length * ANIMALS.length)
+  const adjective = ADJECTIVES[index % ADJECTIVES.length]
+  const animal = ANIMALS[Math.floor(index / ADJECTIVES.length)]
+  return {
+    name: `${adjective} ${animal}`,
+    initials: `${adjective.charAt(0)}${animal.charAt(0)}`,
+    color: COLORS[(hashOf(postId) + alias) % COLORS.length],
+    isAuthor: alias === 0,
+  }
+}
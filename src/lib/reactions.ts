@@ -0,0 +1,56 @@
+import type { Like, ReactionCounts, ReactionType } from './data/types'
+
+// The reaction palette shared by posts and comments, in display order.
+
+export interface ReactionOption {
+  type: ReactionType
+  emoji: string
+  label: string
+}
+
+export const REACTIONS: ReactionOption[] = [
+  { type: 'like', emoji: '👍', label: 'Like' },
+  { type: 'love', emoji: '❤️', label: 'Love' },
+  { type: 'haha', emoji: '😂', label: 'Haha' },
+  { type: 'wow', emoji: '😮', label: 'Wow' },
+  { type: 'sad', emoji: '😢', label: 'Sad' },
+  { type: 'angry', emoji: '😡', label: 'Angry' },
+]
+
+export const DEFAULT_REACTION: ReactionType = 'like'
+
+export function isReactionType(value: unknown): value is ReactionType {
+  return REACTIONS.some(option => option.type === value)
+}
+
+export function reactionOption(type: ReactionType): ReactionOption {
+  return REACTIONS.find(option => option.type === type) || REACTIONS[0]
+}
+
+// Rows saved before reactions existed have no type and count as likes
+export function reactionOf(like: Pick<Like, 'reaction'>): ReactionType {
+  return like.reaction && isReactionType(like.reaction) ? like.reaction : DEFAULT_REACTION
+}
+
+export function countReactions(likes: Pick<Like, 'reaction'>[]): ReactionCounts {
+  const counts: ReactionCounts = {}
+  likes.forEach(like => {
+    const type = reactionOf(like)
+    counts[type] = (counts[type] || 0) + 1
+  })
+  return counts
+}
+
+// The most used reactions first, for the summary next to a post
+export function topReactions(counts: ReactionCounts, limit = 3): ReactionType[] {
+  return REACTIONS
+    .map(option => option.type)
+    .filter(type => (counts[type] || 0) > 0)
+    .sort((a, b) => (counts[b] || 0) - (counts[a] || 0))
+    .slice(0, limit)
+}
+
+export function myReaction(likes: Like[] | undefined, userId: string): ReactionType | null {
+  const mine = likes?.find(like => like.user_id === userId)
+  return mine ? reactionOf(mine) : null
+}
@@ -0,0 +1,250 @@
+import { supabase, Message } from './supabase'
+
+// Realtime change feed for the `messages` table.
+//
+// Components never talk to `supabase.channel` directly; they go through
+// `subscribeToMessages`, which handles reconnecting when the socket drops and
+// backfilling anything that was inserted while we were disconnected. The
+// underlying transport is a `MessageChangeSource`, so a local stand-in can be
+// swapped in with `setMessageChangeSource` to drive the same code paths.
+
+export type MessageChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface MessageChange {
+  eventType: MessageChangeEvent
+  new: Message | null
+  old: Partial<Message> | null
+}
+
+export type ChannelStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR'
+
+// A single column equality filter, e.g. { column: 'conversation_id', value: 'a-b' }
+export interface MessageChangeFilter {
+  column: 'conversation_id' | 'sender_id' | 'receiver_id'
+  value: string
+}
+
+export interface MessageChangeSource {
+  subscribe(
+    topic: string,
+    filters: MessageChangeFilter[],
+    onChange: (change: MessageChange) => void,
+    onStatus: (status: ChannelStatus) => void
+  ): () => void
+}
+
+export const supabaseMessageChangeSource: MessageChangeSource = {
+  subscribe(topic, filters, onChange, onStatus) {
+    let channel = supabase.channel(topic)
+
+    filters.forEach(filter => {
+      channel = channel.on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages',
+          filter: `${filter.column}=eq.${filter.value}`
+        },
+        (payload: any) => {
+          onChange({
+            eventType: payload.eventType,
+            new: payload.new && Object.keys(payload.new).length > 0 ? payload.new : null,
+            old: payload.old && Object.keys(payload.old).length > 0 ? payload.old : null
+          })
+        }
+      )
+    })
+
+    channel.subscribe(status => onStatus(status as ChannelStatus))
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }
+}
+
+let activeSource: MessageChangeSource = supabaseMessageChangeSource
+
+export function setMessageChangeSource(source: MessageChangeSource | null) {
+  activeSource = source || supabaseMessageChangeSource
+}
+
+export function getMessageChangeSource(): MessageChangeSource {
+  return activeSource
+}
+
+// In-process stand-in for the Supabase realtime socket. Every subscriber whose
+// filters match an emitted row receives the change, and `setStatus` lets callers
+// simulate the socket dropping and coming back.
+export interface LocalMessageChangeSource extends MessageChangeSource {
+  emit(change: MessageChange): void
+  setStatus(status: ChannelStatus): void
+  subscriberCount(): number
+}
+
+export function createLocalMessageChangeSource(): LocalMessageChangeSource {
+  const subscribers = new Map<number, {
+    filters: MessageChangeFilter[]
+    onChange: (change: MessageChange) => void
+    onStatus: (status: ChannelStatus) => void
+  }>()
+  let nextId = 0
+
+  const matches = (filters: MessageChangeFilter[], row: Partial<Message> | null) => {
+    if (!row) return false
+    return filters.some(filter => row[filter.column] === filter.value)
+  }
+
+  return {
+    subscribe(_topic, filters, onChange, onStatus) {
+      const id = nextId++
+      subscribers.set(id, { filters, onChange, onStatus })
+      setTimeout(() => {
+        if (subscribers.has(id)) onStatus('SUBSCRIBED')
+      }, 0)
+      return () => {
+        subscribers.delete(id)
+      }
+    },
+    emit(change) {
+      subscribers.forEach(subscriber => {
+        if (matches(subscriber.filters, change.new) || matches(subscriber.filters, change.old)) {
+          subscriber.onChange(change)
+        }
+      })
+    },
+    setStatus(status) {
+      subscribers.forEach(subscriber => subscriber.onStatus(status))
+    },
+    subscriberCount() {
+      return subscribers.size
+    }
+  }
+}
+
+export interface MessageSubscriptionOptions {
+  topic: string
+  filters: MessageChangeFilter[]
+  onInsert?: (message: Message) => void
+  onUpdate?: (message: Message) => void
+  onDelete?: (message: Partial<Message>) => void
+  // Fetches rows created at or after `since` (every row when null) so a
+  // reconnect doesn't lose messages.
+  backfill?: (since: string | null) => Promise<Message[]>
+  onStatusChange?: (status: ChannelStatus) => void
+  // Newest `created_at` the caller already has, as the server stamped it, used
+  // as the first backfill cursor. Null when the caller has nothing yet.
+  since?: string | null
+  // Rows the caller already has, which backfills skip
+  seenIds?: string[]
+  source?: MessageChangeSource
+}
+
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+
+export function subscribeToMessages(options: MessageSubscriptionOptions): () => void {
+  const source = options.source || activeSource
+  const seenIds = new Set<string>(options.seenIds)
+  // Only ever a server timestamp, so the client's clock can't skip rows. Rows
+  // sharing the cursor's timestamp come back again and are skipped by id.
+  let cursor: string | null = options.since || null
+  let unsubscribe: (() => void) | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let attempts = 0
+  let generation = 0
+  let closed = false
+
+  const advanceCursor = (createdAt?: string) => {
+    if (createdAt && (!cursor || createdAt > cursor)) {
+      cursor = createdAt
+    }
+  }
+
+  const deliverInsert = (message: Message) => {
+    if (seenIds.has(message.id)) return
+    seenIds.add(message.id)
+    advanceCursor(message.created_at)
+    options.onInsert?.(message)
+  }
+
+  const runBackfill = async () => {
+    if (!options.backfill) return
+    try {
+      const missed = await options.backfill(cursor)
+      if (closed) return
+      missed.forEach(deliverInsert)
+    } catch (error) {
+      console.error('Error backfilling messages:', error)
+    }
+  }
+
+  const handleChange = (change: MessageChange) => {
+    if (closed) return
+    if (change.eventType === 'INSERT' && change.new) {
+      deliverInsert(change.new)
+    } else if (change.eventType === 'UPDATE' && change.new) {
+      options.onUpdate?.(change.new)
+    } else if (change.eventType === 'DELETE' && change.old) {
+      options.onDelete?.(change.old)
+    }
+  }
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempts, RECONNECT_MAX_DELAY)
+    attempts++
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, delay)
+  }
+
+  // Every (re)subscribe closes the gap since the newest row we know about, which
+  // covers both the initial fetch racing the subscription and socket drops.
+  const handleStatus = (status: ChannelStatus) => {
+    options.onStatusChange?.(status)
+
+    if (status === 'SUBSCRIBED') {
+      attempts = 0
+      runBackfill()
+      return
+    }
+
+    unsubscribe?.()
+    unsubscribe = null
+    scheduleReconnect()
+  }
+
+  const connect = () => {
+    if (closed) return
+    const current = ++generation
+    unsubscribe = source.subscribe(
+      options.topic,
+      options.filters,
+      handleChange,
+      status => {
+        // Ignore late status callbacks from channels we already tore down
+        if (closed || current !== generation) return
+        handleStatus(status)
+      }
+    )
+  }
+
+  connect()
+
+  return () => {
+    closed = true
+    if (reconnectTimer) clearTimeout(reconnectTimer)
+    unsubscribe?.()
+    unsubscribe = null
+  }
+}
+
+export function latestCreatedAt(messages: { created_at: string }[]): string | null {
+  return messages.reduce<string | null>(
+    (latest, message) => (!latest || message.created_at > latest ? message.created_at : latest),
+    null
+  )
+}
@@ -0,0 +1,167 @@
+// Client-side routing on top of the History API.
+//
+// A URL resolves to a page and, optionally, an overlay drawn on top of it
+// (messages, SijangKu, community info). When an overlay is opened from inside
+// the app, the page underneath is remembered in `history.state` and stays on
+// screen; an overlay URL opened directly sits on the overlay's default page.
+
+// The feeds on the home page; communities have pages of their own
+export type HomeSection = 'public' | 'anonymous' | 'following'
+
+export type PageRoute =
+  | { name: 'home'; section: HomeSection }
+  | { name: 'communities' }
+  | { name: 'community'; communityId: string }
+  | { name: 'post'; postId: string }
+  | { name: 'profile'; username: string }
+  | { name: 'join'; code: string }
+  | { name: 'moderation' }
+  | { name: 'not_found'; path: string }
+
+export type OverlayRoute =
+  | { name: 'messages'; conversationId: string | null }
+  | { name: 'market'; itemId: string | null }
+  | { name: 'community_info'; communityId: string }
+
+export interface ResolvedRoute {
+  page: PageRoute
+  overlay: OverlayRoute | null
+}
+
+export interface RouterLocation {
+  path: string
+  // Path of the page an overlay was opened over, if it was opened in-app
+  background: string | null
+}
+
+interface HistoryState {
+  background?: string
+}
+
+export const paths = {
+  home: (section: HomeSection = 'public') => (section === 'public' ? '/' : `/${section}`),
+  communities: () => '/c',
+  community: (communityId: string) => `/c/${encodeURIComponent(communityId)}`,
+  communityInfo: (communityId: string) => `/c/${encodeURIComponent(communityId)}/info`,
+  post: (postId: string) => `/p/${encodeURIComponent(postId)}`,
+  profile: (username: string) => `/u/${encodeURIComponent(username)}`,
+  join: (code: string) => `/join/${encodeURIComponent(code)}`,
+  moderation: () => '/moderation',
+  messages: (conversationId?: string | null) =>
+    conversationId ? `/messages/${encodeURIComponent(conversationId)}` : '/messages',
+  market: (itemId?: string | null) => (itemId ? `/market/${encodeURIComponent(itemId)}` : '/market'),
+}
+
+// Null when a segment has a malformed escape, e.g. `/u/%E0`
+function segmentsOf(path: string): string[] | null {
+  try {
+    return path
+      .split(/[?#]/)[0]
+      .split('/')
+      .filter(Boolean)
+      .map(segment => decodeURIComponent(segment))
+  } catch {
+    return null
+  }
+}
+
+export function parsePage(path: string): PageRoute {
+  const segments = segmentsOf(path)
+  if (!segments) return { name: 'not_found', path }
+  const [head, id, ...rest] = segments
+
+  if (!head) return { name: 'home', section: 'public' }
+  if (head === 'anonymous' && !id) return { name: 'home', section: 'anonymous' }
+  if (head === 'following' && !id) return { name: 'home', section: 'following' }
+  if (head === 'c' && !id) return { name: 'communities' }
+  if (head === 'c' && rest.length === 0) return { name: 'community', communityId: id }
+  if (head === 'p' && id && rest.length === 0) return { name: 'post', postId: id }
+  if (head === 'u' && id && rest.length === 0) return { name: 'profile', username: id }
+  if (head === 'join' && id && rest.length === 0) return { name: 'join', code: id }
+  if (head === 'moderation' && !id) return { name: 'moderation' }
+  return { name: 'not_found', path }
+}
+
+export function parseOverlay(path: string): OverlayRoute | null {
+  const segments = segmentsOf(path)
+  if (!segments) return null
+  const [head, id, tail, ...rest] = segments
+
+  if (head === 'messages' && !tail) return { name: 'messages', conversationId: id || null }
+  if (head === 'market' && !tail) return { name: 'market', itemId: id || null }
+  if (head === 'c' && id && tail === 'info' && rest.length === 0) return { name: 'community_info', communityId: id }
+  return null
+}
+
+// The page shown under an overlay that was opened straight from its URL
+function defaultBackground(overlay: OverlayRoute): string {
+  return overlay.name === 'community_info' ? paths.community(overlay.communityId) : paths.home()
+}
+
+export function resolveRoute({ path, background }: RouterLocation): ResolvedRoute {
+  const overlay = parseOverlay(path)
+  if (!overlay) return { page: parsePage(path), overlay: null }
+  return { page: parsePage(background || defaultBackground(overlay)), overlay }
+}
+
+export function currentLocation(): RouterLocation {
+  const state = (window.history.state || {}) as HistoryState
+  return {
+    path: window.location.pathname,
+    background: state.background || null,
+  }
+}
+
+type Listener = (location: RouterLocation) => void
+
+const listeners = new Set<Listener>()
+
+function notify() {
+  const location = currentLocation()
+  listeners.forEach(listener => listener(location))
+}
+
+// Back/forward buttons
+if (typeof window !== 'undefined') {
+  window.addEventListener('popstate', notify)
+}
+
+export function subscribeToLocation(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export interface NavigateOptions {
+  replace?: boolean
+}
+
+export function navigate(path: string, { replace = false }: NavigateOptions = {}) {
+  const current = currentLocation()
+  if (path === current.path) return
+
+  let background: string | null = null
+  if (parseOverlay(path)) {
+    // Moving from one overlay to another keeps the page underneath
+    background = parseOverlay(current.path) ? current.background : current.path
+  }
+  const state: HistoryState = background ? { background } : {}
+
+  if (replace) {
+    window.history.replaceState(state, '', path)
+  } else {
+    window.history.pushState(state, '', path)
+  }
+  notify()
+}
+
+// Leaves the current overlay for the page it was drawn over. This is a new
+// history entry, so the back button reopens the overlay.
+export function closeOverlay() {
+  const { path, background } = currentLocation()
+  const overlay = parseOverlay(path)
+  if (!overlay) return
+
+  navigate(background || defaultBackground(overlay))
+}
@@ -0,0 +1,91 @@
+// Helpers shared by the search box and the backends. Titles and snippets come
+// back with matches wrapped in <mark></mark>, the same markers Postgres'
+// ts_headline is asked for, and are split into segments for display rather
+// than rendered as HTML.
+
+export const HIGHLIGHT_START = '<mark>'
+export const HIGHLIGHT_END = '</mark>'
+
+// Shorter queries match too much of everything to be useful
+export const MIN_QUERY_LENGTH = 2
+
+export const RESULTS_PER_GROUP = 5
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+// The words of a query, lowercased, the way `search_prefix_query` splits them
+export function searchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean)
+}
+
+export function isSearchable(query: string): boolean {
+  return query.trim().length >= MIN_QUERY_LENGTH && searchTerms(query).length > 0
+}
+
+export function splitHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let rest = text
+
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START)
+    const end = start < 0 ? -1 : rest.indexOf(HIGHLIGHT_END, start)
+    if (start < 0 || end < 0) {
+      segments.push({ text: rest, highlighted: false })
+      break
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), highlighted: false })
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true })
+    rest = rest.slice(end + HIGHLIGHT_END.length)
+  }
+
+  return segments
+}
+
+function wordMatches(word: string, terms: string[]): boolean {
+  const lower = word.toLowerCase()
+  return terms.some(term => lower.startsWith(term))
+}
+
+// Every term is a prefix of some word in the text, as with the tsquery
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const words = searchTerms(text)
+  return terms.length > 0 && terms.every(term => words.some(word => word.startsWith(term)))
+}
+
+// How many words of the text match a term; the offline stand-in for ts_rank
+export function countMatches(text: string, terms: string[]): number {
+  return searchTerms(text).filter(word => terms.some(term => word.startsWith(term))).length
+}
+
+// Marks matching words. With `maxWords`, only a window of that many words
+// around the first match is kept, like ts_headline's snippets.
+export function highlightMatches(text: string, terms: string[], maxWords?: number): string {
+  const parts = text.split(/(\s+)/)
+  const words = parts.filter((_, index) => index % 2 === 0)
+
+  let first = 0
+  let last = words.length
+  if (maxWords && words.length > maxWords) {
+    const firstMatch = Math.max(0, words.findIndex(word => wordMatches(word.replace(/^[^\p{L}\p{N}_]+/u, ''), terms)))
+    first = Math.max(0, Math.min(firstMatch - Math.floor(maxWords / 4), words.length - maxWords))
+    last = first + maxWords
+  }
+
+  const body = parts
+    .slice(first * 2, last * 2 - 1)
+    .map((part, index) => {
+      if (index % 2 === 1) return part
+      const match = part.match(/^([^\p{L}\p{N}_]*)(.*?)([^\p{L}\p{N}_]*)$/u)
+      if (!match || !match[2] || !wordMatches(match[2], terms)) return part
+      return `${match[1]}${HIGHLIGHT_START}${match[2]}${HIGHLIGHT_END}${match[3]}`
+    })
+    .join('')
+
+  return `${first > 0 ? '… ' : ''}${body}${last < words.length ? ' …' : ''}`
+}
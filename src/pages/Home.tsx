@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, Profile } from '../lib/supabase'
+import { getCurrentUser, Profile } from '../lib/supabase'
+import { db } from '../lib/data'
 import { PostForm } from '../components/PostForm'
 import { PostFeed } from '../components/PostFeed'
 import { CreatePostPopup } from '../components/CreatePostPopup'
@@ -13,22 +14,19 @@ export function Home() {
   const [refreshTrigger, setRefreshTrigger] = useState(0)
 
   useEffect(() => {
-    getCurrentUser()
+    loadCurrentUser()
   }, [])
 
-  const getCurrentUser = async () => {
+  const loadCurrentUser = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) {
         setLoading(false)
         return
       }
 
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single()
+      const { data: profile, error } = await db.profiles.get(user.id)
+      if (error) throw error
 
       if (profile) {
         setCurrentUser(profile)
@@ -0,0 +1,245 @@
+/*
+  # Anonymous Pseudonyms
+
+  1. New Tables
+    - `anonymous_aliases`: who is who inside one anonymous thread
+      - `post_id`, `user_id`, `alias` (0 for the post's author, then 1, 2, ...
+        in the order people first comment)
+      - Filled in by triggers, never by the app
+
+  2. New Views
+    - `anonymous_post_feed`: anonymous posts with `author_alias`, and
+      `user_id` left out unless the caller wrote the post or is a site admin
+    - `anonymous_comment_feed`: comments on anonymous posts, masked the same way
+
+  3. Changes
+    - `posts.edited_at` (timestamptz), set when the author edits a post
+    - Authors can update and delete their own posts; the author and
+      visibility of a post can no longer change after it is written
+
+  4. Security
+    - Anonymous posts and the comments on them keep their real `user_id`, but
+      the base tables only show those rows to their author and site admins.
+      Everyone else reads them through the two views, which are owned by the
+      migration role so they see every row and mask the author themselves.
+    - `anonymous_aliases` is only readable by site admins
+    - Inserts into the legacy `anonymous_posts` table (rows with no author)
+      are revoked; everything anonymous goes through `posts`
+
+  5. Notes
+    - Pseudonym names and avatar colours are derived on the client from the
+      post id and the alias, so the same person keeps the same name within a
+      thread but cannot be followed from one thread to the next
+*/
+
+-- Posts
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+DROP POLICY IF EXISTS "Authors can update their own posts" ON posts;
+CREATE POLICY "Authors can update their own posts"
+  ON posts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Authors can delete their own posts" ON posts;
+CREATE POLICY "Authors can delete their own posts"
+  ON posts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Turning an anonymous post public would reveal its author after the fact
+CREATE OR REPLACE FUNCTION keep_post_identity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.visibility IS DISTINCT FROM OLD.visibility THEN
+    RAISE EXCEPTION 'The author and visibility of a post cannot change' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_post_identity ON posts;
+CREATE TRIGGER keep_post_identity
+  BEFORE UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_post_identity();
+
+-- Aliases
+CREATE TABLE IF NOT EXISTS anonymous_aliases (
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  alias integer NOT NULL CHECK (alias >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, user_id),
+  UNIQUE (post_id, alias)
+);
+
+ALTER TABLE anonymous_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Site admins can read anonymous aliases" ON anonymous_aliases;
+CREATE POLICY "Site admins can read anonymous aliases"
+  ON anonymous_aliases FOR SELECT
+  TO authenticated
+  USING (is_site_admin());
+
+-- Security definer so the comment policy below can look at posts the caller
+-- is not allowed to see
+CREATE OR REPLACE FUNCTION is_anonymous_post(target_post uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT visibility = 'anonymous' FROM posts WHERE id = target_post), false);
+$$;
+
+-- Concurrent first comments on one thread are serialized by the lock
+CREATE OR REPLACE FUNCTION assign_anonymous_alias(target_post uuid, member uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing integer;
+  post_author uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('anonymous_aliases:' || target_post::text));
+
+  SELECT alias INTO existing FROM anonymous_aliases WHERE post_id = target_post AND user_id = member;
+  IF existing IS NOT NULL THEN
+    RETURN existing;
+  END IF;
+
+  SELECT user_id INTO post_author FROM posts WHERE id = target_post;
+  IF post_author = member THEN
+    existing := 0;
+  ELSE
+    SELECT coalesce(max(alias), 0) + 1 INTO existing FROM anonymous_aliases WHERE post_id = target_post;
+  END IF;
+
+  INSERT INTO anonymous_aliases (post_id, user_id, alias) VALUES (target_post, member, existing);
+  RETURN existing;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION alias_anonymous_post_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.visibility = 'anonymous' THEN
+    PERFORM assign_anonymous_alias(NEW.id, NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alias_anonymous_post_author ON posts;
+CREATE TRIGGER alias_anonymous_post_author
+  AFTER INSERT ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION alias_anonymous_post_author();
+
+CREATE OR REPLACE FUNCTION alias_anonymous_commenter()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_anonymous_post(NEW.post_id) THEN
+    PERFORM assign_anonymous_alias(NEW.post_id, NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alias_anonymous_commenter ON comments;
+CREATE TRIGGER alias_anonymous_commenter
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION alias_anonymous_commenter();
+
+-- Existing threads: the author first, then commenters by their first comment
+INSERT INTO anonymous_aliases (post_id, user_id, alias, created_at)
+SELECT id, user_id, 0, created_at
+FROM posts
+WHERE visibility = 'anonymous'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO anonymous_aliases (post_id, user_id, alias, created_at)
+SELECT post_id, user_id, row_number() OVER (PARTITION BY post_id ORDER BY first_comment), first_comment
+FROM (
+  SELECT c.post_id, c.user_id, min(c.created_at) AS first_comment
+  FROM comments c
+  JOIN posts p ON p.id = c.post_id
+  WHERE p.visibility = 'anonymous' AND c.user_id <> p.user_id
+  GROUP BY c.post_id, c.user_id
+) commenters
+ON CONFLICT DO NOTHING;
+
+-- Hiding the author
+DROP POLICY IF EXISTS "Anonymous posts are read through their view" ON posts;
+CREATE POLICY "Anonymous posts are read through their view"
+  ON posts AS RESTRICTIVE FOR SELECT
+  USING (visibility <> 'anonymous' OR user_id = auth.uid() OR is_site_admin());
+
+DROP POLICY IF EXISTS "Anonymous comments are read through their view" ON comments;
+CREATE POLICY "Anonymous comments are read through their view"
+  ON comments AS RESTRICTIVE FOR SELECT
+  USING (user_id = auth.uid() OR is_site_admin() OR NOT is_anonymous_post(post_id));
+
+-- These views run as their owner, so they repeat the hidden-content policies
+CREATE OR REPLACE VIEW anonymous_post_feed AS
+SELECT
+  p.id,
+  CASE WHEN p.user_id = auth.uid() OR is_site_admin() THEN p.user_id END AS user_id,
+  p.content,
+  p.images,
+  p.files,
+  p.visibility,
+  p.community_id,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  a.alias AS author_alias
+FROM posts p
+LEFT JOIN anonymous_aliases a ON a.post_id = p.id AND a.user_id = p.user_id
+WHERE p.visibility = 'anonymous' AND p.hidden_at IS NULL;
+
+CREATE OR REPLACE VIEW anonymous_comment_feed AS
+SELECT
+  c.id,
+  c.post_id,
+  c.parent_id,
+  CASE WHEN c.user_id = auth.uid() OR is_site_admin() THEN c.user_id END AS user_id,
+  c.content,
+  c.created_at,
+  c.edited_at,
+  c.deleted_at,
+  a.alias AS author_alias
+FROM comments c
+JOIN posts p ON p.id = c.post_id
+LEFT JOIN anonymous_aliases a ON a.post_id = c.post_id AND a.user_id = c.user_id
+WHERE p.visibility = 'anonymous' AND p.hidden_at IS NULL AND c.hidden_at IS NULL;
+
+REVOKE ALL ON anonymous_post_feed, anonymous_comment_feed FROM anon;
+GRANT SELECT ON anonymous_post_feed, anonymous_comment_feed TO authenticated;
+
+-- Legacy authorless posts
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'anonymous_posts'
+  ) THEN
+    REVOKE INSERT, UPDATE ON anonymous_posts FROM anon, authenticated;
+  END IF;
+END $$;
@@ -0,0 +1,165 @@
+/*
+  # Blocks and Mutes
+
+  1. New Tables
+    - `user_blocks`: `blocker_id` blocked `blocked_id`
+    - `user_mutes`: `muter_id` muted `muted_id`
+
+  2. Functions
+    - `is_blocked_with(other)`: either the caller blocked `other` or the
+      other way round
+    - `is_muted(other)`: the caller muted `other`
+
+  3. Security
+    - Blocks work both ways: neither person sees the other's posts, community
+      posts, comments or messages, nor can comment on the other's posts or
+      message them
+    - Mutes only hide the muted person's posts and community posts from the
+      person who muted them; comments and messages still come through
+    - People only see and change their own block and mute lists; nobody is
+      told they were blocked or muted
+
+  4. Notes
+    - Anonymous posts and the comments on them are left alone. Hiding a
+      blocked person's anonymous posts would tell the blocker which ones they
+      wrote.
+*/
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+CREATE TABLE IF NOT EXISTS user_mutes (
+  muter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  muted_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (muter_id, muted_id),
+  CHECK (muter_id <> muted_id)
+);
+
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_mutes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own blocks" ON user_blocks;
+CREATE POLICY "Users manage their own blocks"
+  ON user_blocks FOR ALL
+  TO authenticated
+  USING (blocker_id = auth.uid())
+  WITH CHECK (blocker_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users manage their own mutes" ON user_mutes;
+CREATE POLICY "Users manage their own mutes"
+  ON user_mutes FOR ALL
+  TO authenticated
+  USING (muter_id = auth.uid())
+  WITH CHECK (muter_id = auth.uid());
+
+-- Security definer so the other direction of a block, which the caller
+-- cannot read, still counts
+CREATE OR REPLACE FUNCTION is_blocked_with(other uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = other)
+       OR (blocker_id = other AND blocked_id = auth.uid())
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_muted(other uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM user_mutes WHERE muter_id = auth.uid() AND muted_id = other);
+$$;
+
+-- The author of the post a comment goes on, looked up past the caller's RLS
+CREATE OR REPLACE FUNCTION post_author_id(post_kind text, target_post uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE post_kind
+    WHEN 'post' THEN (SELECT user_id FROM posts WHERE id = target_post AND visibility <> 'anonymous')
+    ELSE (SELECT user_id FROM community_posts WHERE id = target_post)
+  END;
+$$;
+
+-- Reading
+DROP POLICY IF EXISTS "Blocked and muted authors are not shown" ON posts;
+CREATE POLICY "Blocked and muted authors are not shown"
+  ON posts AS RESTRICTIVE FOR SELECT
+  USING (visibility = 'anonymous' OR user_id = auth.uid() OR NOT (is_blocked_with(user_id) OR is_muted(user_id)));
+
+DROP POLICY IF EXISTS "Blocked and muted authors are not shown" ON community_posts;
+CREATE POLICY "Blocked and muted authors are not shown"
+  ON community_posts AS RESTRICTIVE FOR SELECT
+  USING (user_id = auth.uid() OR NOT (is_blocked_with(user_id) OR is_muted(user_id)));
+
+DROP POLICY IF EXISTS "Blocked commenters are not shown" ON comments;
+CREATE POLICY "Blocked commenters are not shown"
+  ON comments AS RESTRICTIVE FOR SELECT
+  USING (is_anonymous_post(post_id) OR NOT is_blocked_with(user_id));
+
+DROP POLICY IF EXISTS "Blocked commenters are not shown" ON community_comments;
+CREATE POLICY "Blocked commenters are not shown"
+  ON community_comments AS RESTRICTIVE FOR SELECT
+  USING (NOT is_blocked_with(user_id));
+
+DROP POLICY IF EXISTS "Blocked conversations are not shown" ON messages;
+CREATE POLICY "Blocked conversations are not shown"
+  ON messages AS RESTRICTIVE FOR SELECT
+  USING (NOT is_blocked_with(CASE WHEN sender_id = auth.uid() THEN receiver_id ELSE sender_id END));
+
+-- Writing
+DROP POLICY IF EXISTS "Blocked users cannot comment" ON comments;
+CREATE POLICY "Blocked users cannot comment"
+  ON comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_blocked_with(post_author_id('post', post_id)));
+
+DROP POLICY IF EXISTS "Blocked users cannot comment" ON community_comments;
+CREATE POLICY "Blocked users cannot comment"
+  ON community_comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_blocked_with(post_author_id('community_post', post_id)));
+
+-- A trigger rather than a policy so the sender gets a readable error
+CREATE OR REPLACE FUNCTION refuse_blocked_messages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = NEW.sender_id AND blocked_id = NEW.receiver_id)
+       OR (blocker_id = NEW.receiver_id AND blocked_id = NEW.sender_id)
+  ) THEN
+    RAISE EXCEPTION 'You cannot message this person' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refuse_blocked_messages ON messages;
+CREATE TRIGGER refuse_blocked_messages
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION refuse_blocked_messages();
@@ -0,0 +1,116 @@
+/*
+  # Threaded Replies, Editing and Soft Delete for Comments
+
+  1. Columns (on both `comments` and `community_comments`)
+    - `parent_id` (uuid, the comment being replied to; null for top-level
+      comments)
+    - `edited_at` (timestamptz, set when the author changes the content)
+    - `deleted_at` (timestamptz, set instead of deleting the row so replies
+      keep their place in the thread)
+
+  2. Functions
+    - `remove_comment(kind, comment)`: soft-deletes a comment for its author,
+      a site admin or, on a community post, anyone with 'delete_posts'
+
+  3. Security
+    - Authors may update their own comments to edit them
+    - A deleted comment stays deleted: its content and `deleted_at` can no
+      longer change
+
+  4. Notes
+    - Reply depth is capped by the client: a reply to a comment already at the
+      deepest level is attached to that comment's parent
+    - Deleting a comment clears its content, so the text is gone even though
+      the row stays
+*/
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES comments(id) ON DELETE CASCADE;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES community_comments(id) ON DELETE CASCADE;
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_community_comments_parent_id ON community_comments(parent_id);
+
+DROP POLICY IF EXISTS "Users can update own comments" ON comments;
+CREATE POLICY "Users can update own comments"
+  ON comments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own community comments" ON community_comments;
+CREATE POLICY "Users can update own community comments"
+  ON community_comments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- The update policy lets authors change any column, so a deleted comment could
+-- otherwise be brought back
+CREATE OR REPLACE FUNCTION keep_comment_deleted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL
+    AND (NEW.deleted_at IS DISTINCT FROM OLD.deleted_at OR NEW.content IS DISTINCT FROM OLD.content) THEN
+    RAISE EXCEPTION 'A deleted comment cannot be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_comment_deleted ON comments;
+CREATE TRIGGER keep_comment_deleted
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_comment_deleted();
+
+DROP TRIGGER IF EXISTS keep_comment_deleted ON community_comments;
+CREATE TRIGGER keep_comment_deleted
+  BEFORE UPDATE ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_comment_deleted();
+
+-- Moderators can't update other people's comments, so deleting goes through here
+CREATE OR REPLACE FUNCTION remove_comment(kind text, comment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author uuid;
+  target_community uuid;
+BEGIN
+  IF kind = 'post' THEN
+    SELECT c.user_id INTO author FROM comments c WHERE c.id = comment_id;
+  ELSIF kind = 'community_post' THEN
+    SELECT c.user_id, p.community_id INTO author, target_community
+      FROM community_comments c JOIN community_posts p ON p.id = c.post_id
+      WHERE c.id = comment_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown post kind %', kind USING ERRCODE = '22P02';
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM author AND NOT is_site_admin()
+    AND NOT (target_community IS NOT NULL AND community_can(target_community, 'delete_posts')) THEN
+    RAISE EXCEPTION 'You can only delete your own comments' USING ERRCODE = '42501';
+  END IF;
+
+  IF kind = 'post' THEN
+    UPDATE comments SET content = '', deleted_at = coalesce(deleted_at, now()) WHERE id = comment_id;
+  ELSE
+    UPDATE community_comments SET content = '', deleted_at = coalesce(deleted_at, now()) WHERE id = comment_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,341 @@
+/*
+  # Community Moderators and Permissions
+
+  1. Changes
+    - `community_memberships.role` also allows 'moderator'
+    - `communities.permissions` (jsonb): per-community overrides of the lowest
+      role allowed each action. Keys are 'post', 'comment', 'pin',
+      'delete_posts', 'invite' and 'manage_settings'; missing keys use the
+      defaults in community_default_permission(), which match
+      src/lib/communityPermissions.ts
+    - `community_posts.pinned_at`, `pinned_by`; `community_post_feed` is
+      recreated to pick them up
+
+  2. Functions
+    - `community_can(community, permission)`: whether the caller's role meets
+      the community's minimum for that action
+    - `set_community_post_pinned(post, pinned)`: pins or unpins a post for
+      anyone with the 'pin' permission, without letting them edit it. It is
+      the only way to pin: direct writes to the pin columns are rejected.
+
+  3. Security
+    - Posting and commenting require the 'post' / 'comment' permission.
+      These are RESTRICTIVE policies, so they apply on top of the existing
+      member-only insert policies instead of widening them.
+    - Members with 'delete_posts' can delete anyone's posts in the community
+    - Members with 'manage_settings' can update the community; only admins can
+      change its permissions or anyone's role
+    - Invite links, invites and join requests now need 'invite' rather than
+      the admin role, and join requests notify everyone who can answer them
+*/
+
+ALTER TABLE community_memberships DROP CONSTRAINT IF EXISTS community_memberships_role_check;
+ALTER TABLE community_memberships ADD CONSTRAINT community_memberships_role_check
+  CHECK (role IN ('admin', 'moderator', 'member'));
+
+CREATE OR REPLACE FUNCTION community_role_rank(member_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE member_role WHEN 'admin' THEN 2 WHEN 'moderator' THEN 1 WHEN 'member' THEN 0 END;
+$$;
+
+CREATE OR REPLACE FUNCTION community_default_permission(permission text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE permission
+    WHEN 'post' THEN 'member'
+    WHEN 'comment' THEN 'member'
+    WHEN 'pin' THEN 'moderator'
+    WHEN 'delete_posts' THEN 'moderator'
+    WHEN 'invite' THEN 'admin'
+    WHEN 'manage_settings' THEN 'admin'
+  END;
+$$;
+
+-- Known keys, known roles, and the same limits the matrix UI offers
+CREATE OR REPLACE FUNCTION valid_community_permissions(permissions jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(permissions) = 'object' AND NOT EXISTS (
+    SELECT 1 FROM jsonb_each_text(permissions) AS entry(permission, min_role)
+    WHERE community_default_permission(entry.permission) IS NULL
+       OR community_role_rank(entry.min_role) IS NULL
+       OR (entry.permission IN ('pin', 'delete_posts', 'manage_settings') AND entry.min_role = 'member')
+  );
+$$;
+
+ALTER TABLE communities ADD COLUMN IF NOT EXISTS permissions jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE communities DROP CONSTRAINT IF EXISTS communities_permissions_check;
+ALTER TABLE communities ADD CONSTRAINT communities_permissions_check CHECK (valid_community_permissions(permissions));
+
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS pinned_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_community_posts_pinned ON community_posts(community_id, pinned_at DESC) WHERE pinned_at IS NOT NULL;
+
+-- `community_post_feed` selects `p.*`; recreate it so the view's column list
+-- matches the table again
+DROP VIEW IF EXISTS community_post_feed;
+CREATE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (SELECT count(*) FROM community_likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM community_comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
+
+-- SECURITY DEFINER so policies can call it without recursing through the
+-- memberships policies
+CREATE OR REPLACE FUNCTION community_can(target_community uuid, permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT community_role_rank(m.role) >= community_role_rank(
+      coalesce(c.permissions ->> permission, community_default_permission(permission))
+    )
+    FROM community_memberships m
+    JOIN communities c ON c.id = m.community_id
+    WHERE m.community_id = target_community AND m.user_id = auth.uid()
+  ), false);
+$$;
+
+-- Posts and comments
+DROP POLICY IF EXISTS "Posting follows community permissions" ON community_posts;
+CREATE POLICY "Posting follows community permissions"
+  ON community_posts
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (community_can(community_id, 'post'));
+
+DROP POLICY IF EXISTS "Moderators can delete community posts" ON community_posts;
+CREATE POLICY "Moderators can delete community posts"
+  ON community_posts
+  FOR DELETE
+  TO authenticated
+  USING (community_can(community_id, 'delete_posts'));
+
+DROP POLICY IF EXISTS "Commenting follows community permissions" ON community_comments;
+CREATE POLICY "Commenting follows community permissions"
+  ON community_comments
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    community_can((SELECT p.community_id FROM community_posts p WHERE p.id = community_comments.post_id), 'comment')
+  );
+
+CREATE OR REPLACE FUNCTION set_community_post_pinned(post_id uuid, pinned boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_community uuid;
+BEGIN
+  SELECT community_id INTO target_community FROM community_posts WHERE id = post_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT community_can(target_community, 'pin') THEN
+    RAISE EXCEPTION 'You cannot pin posts in this community' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE community_posts
+    SET pinned_at = CASE WHEN pinned THEN now() END,
+        pinned_by = CASE WHEN pinned THEN auth.uid() END
+    WHERE id = post_id;
+END;
+$$;
+
+-- Authors write their own posts, so without this they could pin them.
+-- set_community_post_pinned runs as the table owner rather than as the caller.
+CREATE OR REPLACE FUNCTION keep_community_post_pin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND CASE TG_OP
+    WHEN 'INSERT' THEN NEW.pinned_at IS NOT NULL OR NEW.pinned_by IS NOT NULL
+    ELSE NEW.pinned_at IS DISTINCT FROM OLD.pinned_at OR NEW.pinned_by IS DISTINCT FROM OLD.pinned_by
+  END THEN
+    RAISE EXCEPTION 'Posts are pinned with set_community_post_pinned' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_community_post_pin ON community_posts;
+CREATE TRIGGER keep_community_post_pin
+  BEFORE INSERT OR UPDATE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_community_post_pin();
+
+-- Community settings
+DROP POLICY IF EXISTS "Community admins can update communities" ON communities;
+DROP POLICY IF EXISTS "Members with settings permission can update communities" ON communities;
+CREATE POLICY "Members with settings permission can update communities"
+  ON communities
+  FOR UPDATE
+  TO authenticated
+  USING (community_can(id, 'manage_settings'));
+
+CREATE OR REPLACE FUNCTION protect_community_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.permissions IS DISTINCT FROM OLD.permissions AND NOT is_community_admin(NEW.id) THEN
+    RAISE EXCEPTION 'Only admins can change community permissions' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_community_permissions ON communities;
+CREATE TRIGGER protect_community_permissions
+  BEFORE UPDATE OF permissions ON communities
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_community_permissions();
+
+-- Invites and join requests: 'invite' replaces the admin check
+DROP POLICY IF EXISTS "Admins can manage invite links" ON community_invite_links;
+DROP POLICY IF EXISTS "Inviters can manage invite links" ON community_invite_links;
+CREATE POLICY "Inviters can manage invite links"
+  ON community_invite_links
+  FOR ALL
+  TO authenticated
+  USING (community_can(community_id, 'invite'))
+  WITH CHECK (community_can(community_id, 'invite') AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Invitees and admins can view invites" ON community_invites;
+DROP POLICY IF EXISTS "Invitees and inviters can view invites" ON community_invites;
+CREATE POLICY "Invitees and inviters can view invites"
+  ON community_invites
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR community_can(community_id, 'invite'));
+
+DROP POLICY IF EXISTS "Admins can send invites" ON community_invites;
+DROP POLICY IF EXISTS "Inviters can send invites" ON community_invites;
+CREATE POLICY "Inviters can send invites"
+  ON community_invites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid() AND
+    status = 'pending' AND
+    community_can(community_id, 'invite') AND
+    NOT EXISTS (
+      SELECT 1 FROM community_memberships m
+      WHERE m.community_id = community_invites.community_id AND m.user_id = community_invites.user_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can revoke invites" ON community_invites;
+DROP POLICY IF EXISTS "Inviters can revoke invites" ON community_invites;
+CREATE POLICY "Inviters can revoke invites"
+  ON community_invites
+  FOR UPDATE
+  TO authenticated
+  USING (status = 'pending' AND community_can(community_id, 'invite'))
+  WITH CHECK (status = 'revoked');
+
+DROP POLICY IF EXISTS "Requesters and admins can view join requests" ON community_join_requests;
+DROP POLICY IF EXISTS "Requesters and inviters can view join requests" ON community_join_requests;
+CREATE POLICY "Requesters and inviters can view join requests"
+  ON community_join_requests
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR community_can(community_id, 'invite'));
+
+CREATE OR REPLACE FUNCTION decide_community_join_request(request_id uuid, approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request community_join_requests;
+BEGIN
+  SELECT * INTO request FROM community_join_requests WHERE id = request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT community_can(request.community_id, 'invite') THEN
+    RAISE EXCEPTION 'You cannot answer join requests in this community' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE community_join_requests
+    SET status = CASE WHEN approve THEN 'approved' ELSE 'declined' END,
+        decided_by = auth.uid(),
+        decided_at = now()
+    WHERE id = request_id;
+
+  IF approve THEN
+    PERFORM join_community(request.community_id, request.user_id);
+    UPDATE community_invites SET status = 'accepted', responded_at = now()
+      WHERE community_id = request.community_id AND user_id = request.user_id AND status = 'pending';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_on_join_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  approver_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    FOR approver_id IN
+      SELECT m.user_id
+      FROM community_memberships m
+      JOIN communities c ON c.id = m.community_id
+      WHERE m.community_id = NEW.community_id
+        AND community_role_rank(m.role) >= community_role_rank(
+          coalesce(c.permissions ->> 'invite', community_default_permission('invite'))
+        )
+    LOOP
+      PERFORM create_notification(approver_id, NEW.user_id, 'join_request', false, NULL, NULL,
+        NULL, NEW.community_id, NULL, NULL, NULL, NEW.message);
+    END LOOP;
+  ELSIF NEW.status = 'approved' AND OLD.status = 'pending' THEN
+    PERFORM create_notification(NEW.user_id, NEW.decided_by, 'join_approved', false, NULL, NULL,
+      NULL, NEW.community_id, NULL, NULL, NULL, NULL);
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,32 @@
+/*
+  # Add Feed Pagination Indexes
+
+  1. Indexes
+    - Composite `(created_at DESC, id DESC)` indexes matching the keyset
+      cursor used by every feed, so each page is an index range scan instead
+      of a sort over the whole table
+    - `community_posts` is prefixed with `community_id` since community feeds
+      are always filtered by community
+
+  2. Notes
+    - Feeds request `limit(page_size + 1)` rows after the last
+      `(created_at, id)` seen; the extra row tells the client whether
+      another page exists
+*/
+
+CREATE INDEX IF NOT EXISTS idx_posts_feed_cursor
+  ON posts(created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_community_posts_feed_cursor
+  ON community_posts(community_id, created_at DESC, id DESC);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'anonymous_posts'
+  ) THEN
+    CREATE INDEX IF NOT EXISTS idx_anonymous_posts_feed_cursor
+      ON anonymous_posts(created_at DESC, id DESC);
+  END IF;
+END $$;
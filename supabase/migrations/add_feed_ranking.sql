@@ -0,0 +1,192 @@
+/*
+  # Feed Ranking
+
+  1. Changes
+    - `posts` and `community_posts` get `like_count`, `comment_count` and
+      `hot_score`. The counts are kept by triggers on the like and comment
+      tables, and clients cannot write them; `hot_score` is a generated
+      column.
+    - `community_post_feed` reads the stored counts instead of counting on
+      every query, and is recreated to pick up the new columns
+    - `anonymous_post_feed` exposes the three ranking columns
+
+  2. Functions
+    - `feed_hot_score(likes, comments, created)`: log10 of likes plus twice
+      the comments, plus the post's age in units of 12.5 hours. A tenfold
+      rise in engagement keeps a post level with one 12.5 hours newer. The
+      score never changes as time passes, so it can be stored and indexed.
+
+  3. Indexes
+    - One per ranked sort, matching its keyset order
+      `(score DESC, created_at DESC, id DESC)`; community feeds are prefixed
+      with `community_id` like their newest-first index
+
+  4. Notes
+    - Sorting is done here rather than on the client so that every sort
+      pages with a cursor. 'Top' for a day, week or month adds a
+      `created_at` filter on top of the `like_count` order.
+    - Counts include soft-deleted comments, the same as the old view did
+    - Likes on comments (`post_id` is null) don't count towards the post
+*/
+
+CREATE OR REPLACE FUNCTION feed_hot_score(likes integer, comments integer, created timestamptz)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT log(greatest(likes + 2 * comments, 1)::double precision)
+    + extract(epoch FROM created)::double precision / 45000;
+$$;
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS like_count integer NOT NULL DEFAULT 0;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS comment_count integer NOT NULL DEFAULT 0;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS hot_score double precision
+  GENERATED ALWAYS AS (feed_hot_score(like_count, comment_count, created_at)) STORED;
+
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS like_count integer NOT NULL DEFAULT 0;
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS comment_count integer NOT NULL DEFAULT 0;
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS hot_score double precision
+  GENERATED ALWAYS AS (feed_hot_score(like_count, comment_count, created_at)) STORED;
+
+UPDATE posts p SET
+  like_count = (SELECT count(*) FROM likes l WHERE l.post_id = p.id),
+  comment_count = (SELECT count(*) FROM comments c WHERE c.post_id = p.id);
+
+UPDATE community_posts p SET
+  like_count = (SELECT count(*) FROM community_likes l WHERE l.post_id = p.id),
+  comment_count = (SELECT count(*) FROM community_comments c WHERE c.post_id = p.id);
+
+-- Security definer: likers and commenters cannot update other people's posts
+CREATE OR REPLACE FUNCTION count_post_engagement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_table text := CASE WHEN TG_TABLE_NAME IN ('likes', 'comments') THEN 'posts' ELSE 'community_posts' END;
+  counter text := CASE WHEN TG_TABLE_NAME IN ('likes', 'community_likes') THEN 'like_count' ELSE 'comment_count' END;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.post_id IS NOT NULL THEN
+    EXECUTE format('UPDATE %I SET %I = %I + 1 WHERE id = $1', target_table, counter, counter)
+      USING NEW.post_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.post_id IS NOT NULL THEN
+    EXECUTE format('UPDATE %I SET %I = greatest(%I - 1, 0) WHERE id = $1', target_table, counter, counter)
+      USING OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Authors write their own posts, so the counts would otherwise be theirs to
+-- set. count_post_engagement runs as the table owner rather than as the caller.
+CREATE OR REPLACE FUNCTION keep_post_engagement_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.like_count := 0;
+      NEW.comment_count := 0;
+    ELSE
+      NEW.like_count := OLD.like_count;
+      NEW.comment_count := OLD.comment_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_post_engagement_counts ON posts;
+CREATE TRIGGER keep_post_engagement_counts
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_post_engagement_counts();
+
+DROP TRIGGER IF EXISTS keep_post_engagement_counts ON community_posts;
+CREATE TRIGGER keep_post_engagement_counts
+  BEFORE INSERT OR UPDATE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_post_engagement_counts();
+
+DROP TRIGGER IF EXISTS count_post_engagement ON likes;
+CREATE TRIGGER count_post_engagement
+  AFTER INSERT OR DELETE ON likes
+  FOR EACH ROW
+  EXECUTE FUNCTION count_post_engagement();
+
+DROP TRIGGER IF EXISTS count_post_engagement ON comments;
+CREATE TRIGGER count_post_engagement
+  AFTER INSERT OR DELETE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION count_post_engagement();
+
+DROP TRIGGER IF EXISTS count_post_engagement ON community_likes;
+CREATE TRIGGER count_post_engagement
+  AFTER INSERT OR DELETE ON community_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION count_post_engagement();
+
+DROP TRIGGER IF EXISTS count_post_engagement ON community_comments;
+CREATE TRIGGER count_post_engagement
+  AFTER INSERT OR DELETE ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION count_post_engagement();
+
+CREATE INDEX IF NOT EXISTS idx_posts_hot ON posts(hot_score DESC, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_top ON posts(like_count DESC, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_discussed ON posts(comment_count DESC, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_community_posts_hot
+  ON community_posts(community_id, hot_score DESC, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_community_posts_top
+  ON community_posts(community_id, like_count DESC, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_community_posts_discussed
+  ON community_posts(community_id, comment_count DESC, created_at DESC, id DESC);
+
+-- `like_count` and `comment_count` now come from `p.*`
+DROP VIEW IF EXISTS community_post_feed;
+CREATE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
+
+-- New columns go at the end so the view can be replaced in place
+CREATE OR REPLACE VIEW anonymous_post_feed AS
+SELECT
+  p.id,
+  CASE WHEN p.user_id = auth.uid() OR is_site_admin() THEN p.user_id END AS user_id,
+  p.content,
+  p.images,
+  p.files,
+  p.visibility,
+  p.community_id,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  a.alias AS author_alias,
+  p.like_count,
+  p.comment_count,
+  p.hot_score
+FROM posts p
+LEFT JOIN anonymous_aliases a ON a.post_id = p.id AND a.user_id = p.user_id
+WHERE p.visibility = 'anonymous' AND p.hidden_at IS NULL;
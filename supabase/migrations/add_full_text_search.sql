@@ -0,0 +1,196 @@
+/*
+  # Full-Text Search
+
+  Global search across people, communities, posts and marketplace listings.
+
+  1. Columns
+    - `search_vector` (tsvector, generated and stored) on `profiles`,
+      `communities`, `posts`, `community_posts` and `marketplace_items`
+    - Names and titles are weighted A, descriptions and bios B, listing
+      categories C, so a hit in a name outranks one in running text
+    - The 'simple' configuration is used throughout: content is a mix of
+      languages, and stemming for any one of them would mangle the others
+
+  2. Indexes
+    - GIN index on each `search_vector`
+
+  3. Functions
+    - `search_prefix_query(text)` turns what the user typed into a tsquery
+      that requires every word, each matched as a prefix, so results update
+      while typing
+    - `search_all(search_query, per_group)` returns up to `per_group` ranked
+      hits per kind ('profile', 'community', 'post', 'community_post',
+      'listing') with `<mark>`-highlighted titles and snippets
+
+  4. Security
+    - `search_all` runs as the caller (SECURITY INVOKER), so the RLS policies
+      on every searched table apply: community posts only come back for
+      members, private communities only for theirs
+    - Anonymous posts are searchable but never expose their author: the
+      title is 'Anonymous' and `author_id` is null
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple',
+      coalesce(username, '') || ' ' || coalesce(display_name, '') || ' ' || coalesce(full_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(bio, '')), 'B')
+  ) STORED;
+
+ALTER TABLE communities ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(category, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_search ON profiles USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_communities_search ON communities USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_posts_search ON posts USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_community_posts_search ON community_posts USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_marketplace_items_search ON marketplace_items USING gin(search_vector);
+
+-- `community_post_feed` selects `p.*`; recreate it so the view's column list
+-- matches the table again
+DROP VIEW IF EXISTS community_post_feed;
+CREATE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (SELECT count(*) FROM community_likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM community_comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
+
+-- 'red bik' becomes 'red':* & 'bik':*. Words are quoted, so operators typed by
+-- the user are searched for literally instead of breaking the query.
+CREATE OR REPLACE FUNCTION search_prefix_query(search_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', coalesce(string_agg(quote_literal(word) || ':*', ' & '), ''))
+  FROM regexp_split_to_table(lower(trim(search_query)), '[^[:alnum:]_]+') AS word
+  WHERE word <> ''
+$$;
+
+CREATE OR REPLACE FUNCTION search_all(search_query text, per_group integer DEFAULT 5)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  community_id uuid,
+  author_id uuid,
+  image_url text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH q AS (
+    SELECT
+      search_prefix_query(search_query) AS query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "' AS snippet_options,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true' AS title_options
+  )
+  (
+    SELECT
+      'profile', p.id,
+      ts_headline('simple', coalesce(p.display_name, p.full_name, p.username, ''), q.query, q.title_options),
+      ts_headline('simple', coalesce('@' || p.username || ' ', '') || coalesce(p.bio, ''), q.query, q.snippet_options),
+      ts_rank(p.search_vector, q.query), NULL::uuid, p.id, p.avatar_url, p.created_at
+    FROM profiles p, q
+    WHERE p.search_vector @@ q.query
+    ORDER BY 5 DESC, p.created_at DESC
+    LIMIT per_group
+  )
+  UNION ALL
+  (
+    SELECT
+      'community', c.id,
+      ts_headline('simple', c.name, q.query, q.title_options),
+      ts_headline('simple', coalesce(c.description, ''), q.query, q.snippet_options),
+      ts_rank(c.search_vector, q.query), c.id, c.created_by, c.image_url, c.created_at
+    FROM communities c, q
+    WHERE c.search_vector @@ q.query
+    ORDER BY 5 DESC, c.created_at DESC
+    LIMIT per_group
+  )
+  UNION ALL
+  (
+    SELECT
+      'post', p.id,
+      CASE WHEN p.visibility = 'anonymous' THEN 'Anonymous'
+        ELSE coalesce(a.display_name, a.full_name, a.username, 'Unknown User') END,
+      ts_headline('simple', p.content, q.query, q.snippet_options),
+      ts_rank(p.search_vector, q.query), NULL::uuid,
+      CASE WHEN p.visibility = 'anonymous' THEN NULL ELSE p.user_id END,
+      NULL::text, p.created_at
+    FROM posts p
+    CROSS JOIN q
+    LEFT JOIN profiles a ON a.id = p.user_id
+    WHERE p.search_vector @@ q.query
+    ORDER BY 5 DESC, p.created_at DESC
+    LIMIT per_group
+  )
+  UNION ALL
+  (
+    SELECT
+      'community_post', p.id,
+      coalesce(c.name, 'Community'),
+      ts_headline('simple', p.content, q.query, q.snippet_options),
+      ts_rank(p.search_vector, q.query), p.community_id, p.user_id, NULL::text, p.created_at
+    FROM community_posts p
+    CROSS JOIN q
+    LEFT JOIN communities c ON c.id = p.community_id
+    WHERE p.search_vector @@ q.query
+    ORDER BY 5 DESC, p.created_at DESC
+    LIMIT per_group
+  )
+  UNION ALL
+  (
+    SELECT
+      'listing', m.id,
+      ts_headline('simple', m.title, q.query, q.title_options),
+      ts_headline('simple', coalesce(m.description, ''), q.query, q.snippet_options),
+      ts_rank(m.search_vector, q.query), NULL::uuid, m.seller_id, m.images[1], m.created_at
+    FROM marketplace_items m, q
+    WHERE m.search_vector @@ q.query
+    ORDER BY 5 DESC, m.created_at DESC
+    LIMIT per_group
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION search_prefix_query(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_all(text, integer) TO authenticated;
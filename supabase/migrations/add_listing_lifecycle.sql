@@ -0,0 +1,354 @@
+/*
+  # Listing Lifecycle
+
+  1. Changes
+    - `marketplace_items.status` becomes a state machine: 'draft', 'active',
+      'reserved', 'sold', 'expired' or 'removed'. Existing rows move from
+      'available'/'pending' to 'active'/'reserved', and sold ones to 'sold'.
+      - 'draft': only the seller sees it
+      - 'reserved': held for `buyer_id`, still listed with a badge
+      - 'sold': `buyer_id` is who bought it, null when sold outside the app
+      - 'expired': active listings lapse after 30 days; relisting renews
+      - 'removed': taken down by the seller, kept for the record
+    - `is_sold` is kept in step with `status`. An update that only flips
+      `is_sold`, as older clients send, is read as a move to 'sold' or
+      'active'.
+    - `sold_at` and `expires_at` on listings
+
+  2. New Tables
+    - `marketplace_item_status_changes`: every status a listing has been in,
+      with who moved it there (null for the expiry job) and the buyer at the
+      time
+
+  3. Functions
+    - `check_listing_status`: refuses moves the state machine doesn't allow,
+      needs a buyer for 'reserved', and stamps `reserved_at`, `sold_at` and
+      `expires_at`. The buyer must have messaged the seller about the listing
+      or had an offer on it accepted (`listing_buyer_involved`).
+    - `expire_marketplace_listings()`: run hourly by pg_cron
+    - `make_offer` and `respond_to_offer` are updated for the new states;
+      accepting an offer moves the listing to 'reserved'
+
+  4. Security
+    - Active and reserved listings are visible to everyone, the rest only to
+      the seller and the buyer
+    - The timeline is readable by whoever can see the listing as its seller
+      or buyer
+    - Pending offers are declined when a listing is sold, expires or is
+      removed
+*/
+
+ALTER TABLE marketplace_items DROP CONSTRAINT IF EXISTS marketplace_items_status_check;
+
+UPDATE marketplace_items
+SET status = CASE
+  WHEN is_sold THEN 'sold'
+  WHEN status = 'pending' THEN 'reserved'
+  ELSE 'active'
+END;
+
+ALTER TABLE marketplace_items ALTER COLUMN status SET DEFAULT 'active';
+ALTER TABLE marketplace_items ALTER COLUMN status SET NOT NULL;
+ALTER TABLE marketplace_items ADD CONSTRAINT marketplace_items_status_check
+  CHECK (status IN ('draft', 'active', 'reserved', 'sold', 'expired', 'removed'));
+ALTER TABLE marketplace_items ADD CONSTRAINT marketplace_items_reserved_buyer
+  CHECK (status <> 'reserved' OR buyer_id IS NOT NULL);
+ALTER TABLE marketplace_items ADD CONSTRAINT marketplace_items_buyer_not_seller
+  CHECK (buyer_id IS NULL OR buyer_id <> seller_id);
+
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS sold_at timestamptz;
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+UPDATE marketplace_items SET sold_at = updated_at WHERE status = 'sold' AND sold_at IS NULL;
+UPDATE marketplace_items SET expires_at = now() + interval '30 days' WHERE status = 'active' AND expires_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS marketplace_item_status_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES marketplace_items(id) ON DELETE CASCADE,
+  -- Null for the listing being created
+  from_status text,
+  to_status text NOT NULL,
+  buyer_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_item_status_changes_item
+  ON marketplace_item_status_changes(item_id, created_at);
+
+-- Start every existing listing's timeline where it stands now
+INSERT INTO marketplace_item_status_changes (item_id, from_status, to_status, buyer_id, changed_by, created_at)
+SELECT i.id, NULL, i.status, i.buyer_id, i.seller_id, i.created_at
+FROM marketplace_items i
+WHERE NOT EXISTS (SELECT 1 FROM marketplace_item_status_changes c WHERE c.item_id = i.id);
+
+ALTER TABLE marketplace_item_status_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sellers and buyers can read a listing's timeline" ON marketplace_item_status_changes;
+CREATE POLICY "Sellers and buyers can read a listing's timeline"
+  ON marketplace_item_status_changes FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM marketplace_items i
+    WHERE i.id = item_id AND auth.uid() IN (i.seller_id, i.buyer_id)
+  ));
+
+DROP POLICY IF EXISTS "Anyone can view available items" ON marketplace_items;
+DROP POLICY IF EXISTS "Anyone can view active and reserved items" ON marketplace_items;
+CREATE POLICY "Anyone can view active and reserved items"
+  ON marketplace_items FOR SELECT
+  TO authenticated
+  USING (status IN ('active', 'reserved'));
+
+CREATE OR REPLACE FUNCTION listing_status_allowed(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (from_status, to_status) IN (VALUES
+    ('draft', 'active'), ('draft', 'removed'),
+    ('active', 'reserved'), ('active', 'sold'), ('active', 'expired'), ('active', 'removed'),
+    ('reserved', 'active'), ('reserved', 'sold'), ('reserved', 'removed'),
+    ('expired', 'active'), ('expired', 'removed')
+  );
+$$;
+
+-- Whether `buyer` took part in selling `target_item`: they messaged `seller`
+-- about it or had an offer on it accepted. Security definer so the check
+-- sees every message, whoever runs it.
+CREATE OR REPLACE FUNCTION listing_buyer_involved(target_item uuid, seller uuid, buyer uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM messages
+    WHERE item_id = target_item AND sender_id = buyer AND receiver_id = seller
+  ) OR EXISTS (
+    SELECT 1 FROM marketplace_offers
+    WHERE item_id = target_item AND buyer_id = buyer AND status = 'accepted'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_listing_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'active') THEN
+      RAISE EXCEPTION 'A new listing starts out as a draft or active' USING ERRCODE = '23514';
+    END IF;
+    NEW.buyer_id := NULL;
+    NEW.reserved_at := NULL;
+    NEW.sold_at := NULL;
+    NEW.expires_at := CASE WHEN NEW.status = 'active' THEN now() + interval '30 days' END;
+    NEW.is_sold := false;
+    RETURN NEW;
+  END IF;
+
+  -- Older clients only flip is_sold
+  IF NEW.status = OLD.status AND NEW.is_sold IS DISTINCT FROM OLD.is_sold THEN
+    NEW.status := CASE WHEN NEW.is_sold THEN 'sold' ELSE 'active' END;
+  END IF;
+
+  IF NEW.status <> OLD.status THEN
+    IF NOT listing_status_allowed(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Cannot move a listing from % to %', OLD.status, NEW.status USING ERRCODE = '23514';
+    END IF;
+
+    CASE NEW.status
+      WHEN 'reserved' THEN
+        IF NEW.buyer_id IS NULL THEN
+          RAISE EXCEPTION 'Pick the buyer to reserve it for' USING ERRCODE = '23514';
+        END IF;
+        NEW.reserved_at := now();
+      WHEN 'sold' THEN
+        NEW.sold_at := now();
+      WHEN 'active' THEN
+        NEW.buyer_id := NULL;
+        NEW.reserved_at := NULL;
+        IF OLD.status IN ('draft', 'expired') THEN
+          NEW.expires_at := now() + interval '30 days';
+        END IF;
+      ELSE
+        NEW.buyer_id := NULL;
+        NEW.reserved_at := NULL;
+    END CASE;
+  ELSIF NEW.buyer_id IS DISTINCT FROM OLD.buyer_id AND NEW.status NOT IN ('reserved', 'sold') THEN
+    NEW.buyer_id := OLD.buyer_id;
+  END IF;
+
+  IF NEW.buyer_id IS NOT NULL AND NEW.buyer_id IS DISTINCT FROM OLD.buyer_id
+    AND NOT listing_buyer_involved(NEW.id, NEW.seller_id, NEW.buyer_id) THEN
+    RAISE EXCEPTION 'Pick a buyer who messaged you or made an offer on this listing' USING ERRCODE = '23514';
+  END IF;
+
+  NEW.is_sold := NEW.status = 'sold';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_listing_status ON marketplace_items;
+CREATE TRIGGER check_listing_status
+  BEFORE INSERT OR UPDATE ON marketplace_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_listing_status();
+
+CREATE OR REPLACE FUNCTION record_listing_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO marketplace_item_status_changes (item_id, from_status, to_status, buyer_id, changed_by)
+  VALUES (NEW.id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, NEW.buyer_id, auth.uid());
+
+  IF NEW.status IN ('sold', 'expired', 'removed') THEN
+    UPDATE marketplace_offers SET status = 'declined', responded_at = now()
+    WHERE item_id = NEW.id AND status = 'pending';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_listing_status ON marketplace_items;
+CREATE TRIGGER record_listing_status
+  AFTER INSERT OR UPDATE ON marketplace_items
+  FOR EACH ROW
+  EXECUTE FUNCTION record_listing_status();
+
+-- Superseded by record_listing_status, which also covers expiry and removal
+DROP TRIGGER IF EXISTS decline_offers_on_sale ON marketplace_items;
+DROP FUNCTION IF EXISTS decline_offers_on_sale();
+
+CREATE OR REPLACE FUNCTION make_offer(target_item uuid, offer_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item marketplace_items%ROWTYPE;
+  created marketplace_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO item FROM marketplace_items
+  WHERE id = target_item AND hidden_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF item.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot make an offer on your own listing' USING ERRCODE = '42501';
+  END IF;
+  IF item.status <> 'active' THEN
+    RAISE EXCEPTION 'This item is no longer available' USING ERRCODE = '23514';
+  END IF;
+  IF offer_amount IS NULL OR offer_amount <= 0 THEN
+    RAISE EXCEPTION 'Offer a price above zero' USING ERRCODE = '23514';
+  END IF;
+  IF is_banned(auth.uid()) THEN
+    RAISE EXCEPTION 'You are banned from the marketplace' USING ERRCODE = '42501';
+  END IF;
+
+  -- A lapsed offer the job hasn't swept yet doesn't block a new one
+  UPDATE marketplace_offers SET status = 'expired'
+  WHERE item_id = target_item AND buyer_id = auth.uid() AND status = 'pending' AND expires_at <= now();
+
+  INSERT INTO marketplace_offers (item_id, buyer_id, seller_id, proposed_by, amount)
+  VALUES (target_item, auth.uid(), item.seller_id, auth.uid(), offer_amount)
+  RETURNING * INTO created;
+
+  PERFORM post_offer_message(created, auth.uid(),
+    'Offered ' || offer_amount_text(offer_amount) || ' for ' || item.title, true);
+  RETURN created.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION make_offer(uuid, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION respond_to_offer(target_offer uuid, response text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target marketplace_offers%ROWTYPE := open_offer(target_offer);
+  item marketplace_items%ROWTYPE;
+  other marketplace_offers%ROWTYPE;
+BEGIN
+  IF response NOT IN ('accept', 'decline', 'withdraw') THEN
+    RAISE EXCEPTION 'Unknown response %', response USING ERRCODE = '22P02';
+  END IF;
+  IF (response = 'withdraw') <> (target.proposed_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the other side can accept or decline an offer, and only its maker can withdraw it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF response = 'accept' THEN
+    SELECT * INTO item FROM marketplace_items WHERE id = target.item_id FOR UPDATE;
+    IF item.status <> 'active' THEN
+      RAISE EXCEPTION 'This item is no longer available' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE marketplace_offers SET status = 'accepted', responded_at = now() WHERE id = target.id;
+    UPDATE marketplace_items SET status = 'reserved', buyer_id = target.buyer_id WHERE id = target.item_id;
+    PERFORM post_offer_message(target, auth.uid(), 'Accepted the offer of ' || offer_amount_text(target.amount), false);
+
+    FOR other IN
+      SELECT * FROM marketplace_offers
+      WHERE item_id = target.item_id AND status = 'pending' AND id <> target.id
+      FOR UPDATE
+    LOOP
+      UPDATE marketplace_offers SET status = 'declined', responded_at = now() WHERE id = other.id;
+      -- Buyers who blocked the seller are not told, rather than holding up the sale
+      BEGIN
+        PERFORM post_offer_message(other, other.seller_id,
+          item.title || ' has been reserved for another buyer, so your offer of '
+            || offer_amount_text(other.amount) || ' was declined', false);
+      EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+      END;
+    END LOOP;
+    RETURN;
+  END IF;
+
+  UPDATE marketplace_offers
+  SET status = CASE WHEN response = 'withdraw' THEN 'withdrawn' ELSE 'declined' END, responded_at = now()
+  WHERE id = target.id;
+  PERFORM post_offer_message(target, auth.uid(),
+    CASE WHEN response = 'withdraw' THEN 'Withdrew the offer of ' ELSE 'Declined the offer of ' END
+      || offer_amount_text(target.amount), false);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_to_offer(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION expire_marketplace_listings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired integer;
+BEGIN
+  UPDATE marketplace_items SET status = 'expired'
+  WHERE status = 'active' AND expires_at <= now();
+  GET DIAGNOSTICS expired = ROW_COUNT;
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_marketplace_listings() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-marketplace-listings', '0 * * * *', 'SELECT expire_marketplace_listings()');
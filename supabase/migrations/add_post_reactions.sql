@@ -0,0 +1,89 @@
+/*
+  # Emoji Reactions on Posts and Comments
+
+  Likes become reactions drawn from a fixed palette. The existing like tables
+  keep their role; each row now says which reaction it is.
+
+  1. Columns
+    - `likes.reaction` and `community_likes.reaction` (text, one of 'like',
+      'love', 'haha', 'wow', 'sad', 'angry')
+    - Existing rows are back-filled as 'like' through the column default
+
+  2. Constraints
+    - One reaction per user per post or comment. `likes` already has unique
+      indexes; duplicate `community_likes` rows are removed (keeping the
+      oldest) before adding the same index there
+
+  3. Security
+    - Users may update their own rows, so changing a reaction is an UPDATE
+      rather than a delete and insert
+
+  4. Views
+    - `community_post_feed` gains `reaction_counts` (jsonb, reaction -> count)
+      and `my_reaction` (the caller's reaction, if any)
+*/
+
+ALTER TABLE likes ADD COLUMN IF NOT EXISTS reaction text NOT NULL DEFAULT 'like';
+ALTER TABLE community_likes ADD COLUMN IF NOT EXISTS reaction text NOT NULL DEFAULT 'like';
+
+UPDATE likes SET reaction = 'like' WHERE reaction IS NULL;
+UPDATE community_likes SET reaction = 'like' WHERE reaction IS NULL;
+
+ALTER TABLE likes DROP CONSTRAINT IF EXISTS likes_reaction_check;
+ALTER TABLE likes ADD CONSTRAINT likes_reaction_check
+  CHECK (reaction IN ('like', 'love', 'haha', 'wow', 'sad', 'angry'));
+
+ALTER TABLE community_likes DROP CONSTRAINT IF EXISTS community_likes_reaction_check;
+ALTER TABLE community_likes ADD CONSTRAINT community_likes_reaction_check
+  CHECK (reaction IN ('like', 'love', 'haha', 'wow', 'sad', 'angry'));
+
+DELETE FROM community_likes l
+USING community_likes older
+WHERE l.post_id = older.post_id
+  AND l.user_id = older.user_id
+  AND (l.created_at, l.id) > (older.created_at, older.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_community_likes_post_user_unique
+  ON community_likes(post_id, user_id);
+
+DROP POLICY IF EXISTS "Users can update own likes" ON likes;
+CREATE POLICY "Users can update own likes"
+  ON likes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own community likes" ON community_likes;
+CREATE POLICY "Users can update own community likes"
+  ON community_likes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- New columns go last so CREATE OR REPLACE keeps the existing ones in place
+CREATE OR REPLACE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (SELECT count(*) FROM community_likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM community_comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
@@ -0,0 +1,177 @@
+/*
+  # Post Revisions
+
+  1. New Tables
+    - `post_revisions`: a post or community post as it was before an edit
+      (`content`, `images`, `files`), with `editor_id` and the time it was
+      replaced
+      - `post_kind` ('post' | 'community_post') and `post_id` name the post,
+        the same way reports name their target
+
+  2. Changes
+    - `community_posts.edited_at`; `community_post_feed` is recreated to pick
+      it up
+    - Changing a post's content, images or files saves the old version and
+      sets `edited_at`. Likes, comments, pins and moderation are not edits.
+    - A community post can no longer change author or community
+
+  3. Security
+    - Only the trigger writes revisions
+    - Authors read the revisions of their own posts, members who can delete
+      posts in a community read those of its posts, and site admins read all
+      of them
+    - Anonymous posts only have readers who already know the author, so
+      `editor_id` is not masked
+
+  4. Notes
+    - Rows in the legacy `anonymous_posts` table have no author, so nobody
+      can edit them
+*/
+
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_kind text NOT NULL CHECK (post_kind IN ('post', 'community_post')),
+  post_id uuid NOT NULL,
+  editor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  content text NOT NULL,
+  images text[] NOT NULL DEFAULT '{}',
+  files text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON post_revisions(post_kind, post_id, created_at DESC);
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION can_read_post_revisions(kind text, target_post uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_site_admin() OR CASE kind
+    WHEN 'post' THEN EXISTS (SELECT 1 FROM posts WHERE id = target_post AND user_id = auth.uid())
+    ELSE EXISTS (
+      SELECT 1 FROM community_posts
+      WHERE id = target_post AND (user_id = auth.uid() OR community_can(community_id, 'delete_posts'))
+    )
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Authors and moderators read revisions" ON post_revisions;
+CREATE POLICY "Authors and moderators read revisions"
+  ON post_revisions FOR SELECT
+  TO authenticated
+  USING (can_read_post_revisions(post_kind, post_id));
+
+-- Security definer so the revision can be written without an insert policy
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+     OR NEW.images IS DISTINCT FROM OLD.images
+     OR NEW.files IS DISTINCT FROM OLD.files THEN
+    INSERT INTO post_revisions (post_kind, post_id, editor_id, content, images, files)
+    VALUES (
+      CASE TG_TABLE_NAME WHEN 'posts' THEN 'post' ELSE 'community_post' END,
+      OLD.id,
+      auth.uid(),
+      OLD.content,
+      coalesce(OLD.images, '{}'),
+      coalesce(OLD.files, '{}')
+    );
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_post_revision ON posts;
+CREATE TRIGGER record_post_revision
+  BEFORE UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_post_revision();
+
+DROP TRIGGER IF EXISTS record_post_revision ON community_posts;
+CREATE TRIGGER record_post_revision
+  BEFORE UPDATE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_post_revision();
+
+CREATE OR REPLACE FUNCTION drop_post_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM post_revisions
+  WHERE post_kind = CASE TG_TABLE_NAME WHEN 'posts' THEN 'post' ELSE 'community_post' END
+    AND post_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS drop_post_revisions ON posts;
+CREATE TRIGGER drop_post_revisions
+  AFTER DELETE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION drop_post_revisions();
+
+DROP TRIGGER IF EXISTS drop_post_revisions ON community_posts;
+CREATE TRIGGER drop_post_revisions
+  AFTER DELETE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION drop_post_revisions();
+
+-- The update policy only checks the old row, so pin the author and community
+CREATE OR REPLACE FUNCTION keep_community_post_identity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.community_id IS DISTINCT FROM OLD.community_id THEN
+    RAISE EXCEPTION 'The author and community of a post cannot change' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_community_post_identity ON community_posts;
+CREATE TRIGGER keep_community_post_identity
+  BEFORE UPDATE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_community_post_identity();
+
+-- `community_post_feed` selects `p.*`; recreate it so the view's column list
+-- matches the table again
+DROP VIEW IF EXISTS community_post_feed;
+CREATE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Consolidate Post Likes, Comments and Visibility
+
+  The client used to read and write several overlapping tables for the same
+  data. The data-access layer now settles on one set:
+
+  1. Canonical tables
+    - `likes` holds likes on posts (`post_id`) and on comments (`comment_id`)
+    - `comments` holds comments on posts
+    - `community_likes` / `community_comments` stay as they are for
+      `community_posts`
+    - `posts.visibility` ('public' | 'anonymous') decides which feed a post
+      belongs to
+
+  2. Data moves
+    - Rows in the legacy `post_likes` and `post_comments` tables are copied
+      into `likes` and `comments` when those tables exist; the legacy tables
+      are left in place so they can be dropped once verified
+    - `posts.visibility` is backfilled from `posts.is_anonymous` when that
+      column exists
+
+  3. Security
+    - RLS on `likes` and `comments`: signed-in users can read them, and can
+      only add or remove their own
+
+  4. Notes
+    - `anonymous_posts` rows have no author and are not copied; nothing in
+      the client reads that table any more
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public';
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'posts' AND column_name = 'is_anonymous'
+  ) THEN
+    UPDATE posts SET visibility = 'anonymous'
+    WHERE is_anonymous = true AND visibility <> 'anonymous';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS likes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE,
+  comment_id uuid,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((post_id IS NULL) <> (comment_id IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view likes" ON likes;
+CREATE POLICY "Authenticated users can view likes"
+  ON likes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can like as themselves" ON likes;
+CREATE POLICY "Users can like as themselves"
+  ON likes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can remove own likes" ON likes;
+CREATE POLICY "Users can remove own likes"
+  ON likes
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Authenticated users can view comments" ON comments;
+CREATE POLICY "Authenticated users can view comments"
+  ON comments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can comment as themselves" ON comments;
+CREATE POLICY "Users can comment as themselves"
+  ON comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own comments" ON comments;
+CREATE POLICY "Users can delete own comments"
+  ON comments
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'post_likes'
+  ) THEN
+    INSERT INTO likes (user_id, post_id, created_at)
+    SELECT pl.user_id, pl.post_id, pl.created_at
+    FROM post_likes pl
+    WHERE NOT EXISTS (
+      SELECT 1 FROM likes l
+      WHERE l.post_id = pl.post_id AND l.user_id = pl.user_id
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'post_comments'
+  ) THEN
+    INSERT INTO comments (id, post_id, user_id, content, created_at)
+    SELECT pc.id, pc.post_id, pc.user_id, pc.content, pc.created_at
+    FROM post_comments pc
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_likes_post_user
+  ON likes(post_id, user_id) WHERE post_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_likes_comment_user
+  ON likes(comment_id, user_id) WHERE comment_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_post_id
+  ON comments(post_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_posts_visibility_feed
+  ON posts(visibility, created_at DESC, id DESC)
+  WHERE community_id IS NULL;
@@ -0,0 +1,443 @@
+/*
+  # Community Invites and Join Requests
+
+  Membership is no longer handed out silently: admins send invites that the
+  invitee accepts or declines, share invite links, or approve requests to join.
+
+  1. Changes
+    - `communities.is_private` (boolean). Private communities are invite-only
+      and hidden from everyone but their members; other communities show up
+      in discovery and take join requests. Communities that already exist
+      start out private, as they were only visible to their members before.
+
+  2. New Tables
+    - `community_invite_links`
+      - `code` (text, unique, what goes in the /join/<code> URL)
+      - `expires_at` (timestamptz, null for never), `max_uses` (integer, null
+        for unlimited), `use_count` (integer)
+      - `revoked_at` (timestamptz), `created_by`, `created_at`
+    - `community_invites`
+      - `community_id`, `user_id` (the invitee), `invited_by`
+      - `status` ('pending', 'accepted', 'declined', 'revoked')
+      - `created_at`, `responded_at`
+    - `community_join_requests`
+      - `community_id`, `user_id`, `message` (optional note to the admins)
+      - `status` ('pending', 'approved', 'declined', 'cancelled')
+      - `created_at`, `decided_by`, `decided_at`
+
+  3. Functions
+    - `preview_community_invite(code)`: the community behind a link and
+      whether the link can still be used, for people who are not members yet
+    - `redeem_community_invite(code)`: joins through a link, counting a use
+    - `respond_to_community_invite(invite, accept)`: the invitee's answer
+    - `decide_community_join_request(request, approve)`: an admin's answer
+    All four run as SECURITY DEFINER because they create memberships the
+    caller could not insert directly; each checks the caller itself.
+
+  4. Security
+    - Only admins read and manage a community's links, invites and requests
+    - Invitees read their own invites; requesters read, create and cancel
+      their own requests, and only for communities that are not private
+    - Self-service membership inserts are not allowed; creating the
+      community (see add_creator_as_admin) and the functions above are the
+      only ways in
+
+  5. Notifications
+    - Adds the 'community_invite', 'join_request' and 'join_approved' types
+    - Invites notify the invitee, requests notify every admin and approvals
+      notify the requester
+    - Replaces the 'community_added' trigger, which no longer applies
+*/
+
+-- Existing communities were only ever seen by their members, so they start out
+-- private; the column is added with a true default to fill them in, and new
+-- communities default to public
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'communities' AND column_name = 'is_private'
+  ) THEN
+    ALTER TABLE communities ADD COLUMN is_private boolean NOT NULL DEFAULT true;
+    ALTER TABLE communities ALTER COLUMN is_private SET DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS community_invite_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE NOT NULL,
+  code text UNIQUE NOT NULL DEFAULT substr(md5(gen_random_uuid()::text), 1, 10),
+  created_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  expires_at timestamptz,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS community_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  invited_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  created_at timestamptz DEFAULT now(),
+  responded_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS community_join_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  message text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  decided_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  decided_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_invite_links_community ON community_invite_links(community_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_community_invites_user ON community_invites(user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_community_join_requests_community ON community_join_requests(community_id, created_at) WHERE status = 'pending';
+
+-- One open invite and one open request per person and community
+CREATE UNIQUE INDEX IF NOT EXISTS idx_community_invites_one_pending
+  ON community_invites(community_id, user_id) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_community_join_requests_one_pending
+  ON community_join_requests(community_id, user_id) WHERE status = 'pending';
+
+-- Used by the policies below. SECURITY DEFINER so checking a membership does
+-- not recurse through the memberships policies.
+CREATE OR REPLACE FUNCTION is_community_admin(target_community uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM community_memberships
+    WHERE community_id = target_community AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_community_member(target_community uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM community_memberships
+    WHERE community_id = target_community AND user_id = auth.uid()
+  );
+$$;
+
+-- Communities: private ones stay members-only, the rest become discoverable
+DROP POLICY IF EXISTS "Users can view communities they are members of" ON communities;
+DROP POLICY IF EXISTS "Users can view public communities and their own" ON communities;
+CREATE POLICY "Users can view public communities and their own"
+  ON communities
+  FOR SELECT
+  TO authenticated
+  USING (NOT is_private OR is_community_member(id));
+
+ALTER TABLE community_invite_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE community_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE community_join_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage invite links" ON community_invite_links;
+CREATE POLICY "Admins can manage invite links"
+  ON community_invite_links
+  FOR ALL
+  TO authenticated
+  USING (is_community_admin(community_id))
+  WITH CHECK (is_community_admin(community_id) AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Invitees and admins can view invites" ON community_invites;
+CREATE POLICY "Invitees and admins can view invites"
+  ON community_invites
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_community_admin(community_id));
+
+DROP POLICY IF EXISTS "Admins can send invites" ON community_invites;
+CREATE POLICY "Admins can send invites"
+  ON community_invites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid() AND
+    status = 'pending' AND
+    is_community_admin(community_id) AND
+    NOT EXISTS (
+      SELECT 1 FROM community_memberships m
+      WHERE m.community_id = community_invites.community_id AND m.user_id = community_invites.user_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can revoke invites" ON community_invites;
+CREATE POLICY "Admins can revoke invites"
+  ON community_invites
+  FOR UPDATE
+  TO authenticated
+  USING (status = 'pending' AND is_community_admin(community_id))
+  WITH CHECK (status = 'revoked');
+
+DROP POLICY IF EXISTS "Requesters and admins can view join requests" ON community_join_requests;
+CREATE POLICY "Requesters and admins can view join requests"
+  ON community_join_requests
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_community_admin(community_id));
+
+DROP POLICY IF EXISTS "Users can request to join discoverable communities" ON community_join_requests;
+CREATE POLICY "Users can request to join discoverable communities"
+  ON community_join_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    status = 'pending' AND
+    NOT is_community_member(community_id) AND
+    EXISTS (
+      SELECT 1 FROM communities c
+      WHERE c.id = community_join_requests.community_id AND NOT c.is_private
+    )
+  );
+
+DROP POLICY IF EXISTS "Requesters can cancel join requests" ON community_join_requests;
+CREATE POLICY "Requesters can cancel join requests"
+  ON community_join_requests
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND status = 'pending')
+  WITH CHECK (status = 'cancelled');
+
+-- Adds a membership unless there already is one
+CREATE OR REPLACE FUNCTION join_community(target_community uuid, member uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO community_memberships (community_id, user_id, role)
+  VALUES (target_community, member, 'member')
+  ON CONFLICT (community_id, user_id) DO NOTHING;
+$$;
+
+-- 'active', 'revoked', 'expired' or 'used_up'; the client mirrors this in
+-- lib/communityInvites.ts
+CREATE OR REPLACE FUNCTION invite_link_state(link community_invite_links)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN link.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN link.expires_at IS NOT NULL AND link.expires_at <= now() THEN 'expired'
+    WHEN link.max_uses IS NOT NULL AND link.use_count >= link.max_uses THEN 'used_up'
+    ELSE 'active'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION preview_community_invite(invite_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link community_invite_links;
+  target communities;
+BEGIN
+  SELECT * INTO link FROM community_invite_links WHERE code = invite_code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite link not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO target FROM communities WHERE id = link.community_id;
+
+  RETURN jsonb_build_object(
+    'community', jsonb_build_object(
+      'id', target.id,
+      'name', target.name,
+      'description', target.description,
+      'member_count', target.member_count,
+      'is_private', target.is_private
+    ),
+    'state', invite_link_state(link),
+    'is_member', is_community_member(target.id)
+  );
+END;
+$$;
+
+-- Returns the community id. Members opening their own community's link are
+-- let through without using it up.
+CREATE OR REPLACE FUNCTION redeem_community_invite(invite_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link community_invite_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO link FROM community_invite_links WHERE code = invite_code FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite link not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF is_community_member(link.community_id) THEN
+    RETURN link.community_id;
+  END IF;
+
+  IF invite_link_state(link) <> 'active' THEN
+    RAISE EXCEPTION 'This invite link is no longer valid' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM join_community(link.community_id, auth.uid());
+  UPDATE community_invite_links SET use_count = use_count + 1 WHERE id = link.id;
+
+  -- Joining through a link settles anything else that was pending
+  UPDATE community_invites SET status = 'accepted', responded_at = now()
+    WHERE community_id = link.community_id AND user_id = auth.uid() AND status = 'pending';
+  UPDATE community_join_requests SET status = 'cancelled'
+    WHERE community_id = link.community_id AND user_id = auth.uid() AND status = 'pending';
+
+  RETURN link.community_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_community_invite(invite_id uuid, accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite community_invites;
+BEGIN
+  SELECT * INTO invite FROM community_invites WHERE id = invite_id FOR UPDATE;
+  IF NOT FOUND OR invite.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invite has already been answered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE community_invites
+    SET status = CASE WHEN accept THEN 'accepted' ELSE 'declined' END, responded_at = now()
+    WHERE id = invite_id;
+
+  IF accept THEN
+    PERFORM join_community(invite.community_id, invite.user_id);
+    UPDATE community_join_requests SET status = 'cancelled'
+      WHERE community_id = invite.community_id AND user_id = invite.user_id AND status = 'pending';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decide_community_join_request(request_id uuid, approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request community_join_requests;
+BEGIN
+  SELECT * INTO request FROM community_join_requests WHERE id = request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT is_community_admin(request.community_id) THEN
+    RAISE EXCEPTION 'Only community admins can answer join requests' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE community_join_requests
+    SET status = CASE WHEN approve THEN 'approved' ELSE 'declined' END,
+        decided_by = auth.uid(),
+        decided_at = now()
+    WHERE id = request_id;
+
+  IF approve THEN
+    PERFORM join_community(request.community_id, request.user_id);
+    UPDATE community_invites SET status = 'accepted', responded_at = now()
+      WHERE community_id = request.community_id AND user_id = request.user_id AND status = 'pending';
+  END IF;
+END;
+$$;
+
+-- Only reachable through the invite and approval functions above
+REVOKE EXECUTE ON FUNCTION join_community(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'reaction', 'comment', 'reply', 'mention', 'community_added',
+  'community_invite', 'join_request', 'join_approved', 'message'
+));
+
+-- Approving a request or accepting an invite inserts the membership on the
+-- member's behalf, so the old "someone added you" notice would be wrong
+DROP TRIGGER IF EXISTS notify_on_membership ON community_memberships;
+DROP FUNCTION IF EXISTS notify_on_membership();
+
+CREATE OR REPLACE FUNCTION notify_on_community_invite()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM create_notification(NEW.user_id, NEW.invited_by, 'community_invite', false, NULL, NULL,
+    NULL, NEW.community_id, NULL, NULL, NULL, NULL);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_community_invite ON community_invites;
+CREATE TRIGGER notify_on_community_invite
+  AFTER INSERT ON community_invites
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_community_invite();
+
+CREATE OR REPLACE FUNCTION notify_on_join_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  admin_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    FOR admin_id IN
+      SELECT user_id FROM community_memberships WHERE community_id = NEW.community_id AND role = 'admin'
+    LOOP
+      PERFORM create_notification(admin_id, NEW.user_id, 'join_request', false, NULL, NULL,
+        NULL, NEW.community_id, NULL, NULL, NULL, NEW.message);
+    END LOOP;
+  ELSIF NEW.status = 'approved' AND OLD.status = 'pending' THEN
+    PERFORM create_notification(NEW.user_id, NEW.decided_by, 'join_approved', false, NULL, NULL,
+      NULL, NEW.community_id, NULL, NULL, NULL, NULL);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_join_request ON community_join_requests;
+CREATE TRIGGER notify_on_join_request
+  AFTER INSERT OR UPDATE OF status ON community_join_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_join_request();
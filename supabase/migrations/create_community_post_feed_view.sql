@@ -0,0 +1,44 @@
+/*
+  # Create Community Post Feed View
+
+  1. New Views
+    - `community_post_feed`
+      - every column of `community_posts`
+      - `like_count` (integer, rows in `community_likes` for the post)
+      - `comment_count` (integer, rows in `community_comments` for the post)
+      - `liked_by_me` (boolean, whether `auth.uid()` has liked the post)
+      - `my_like_id` (uuid, the caller's like row, used to unlike)
+
+  2. Security
+    - Created with `security_invoker` so the RLS policies on
+      `community_posts`, `community_likes` and `community_comments` apply to
+      the caller exactly as if the tables were queried directly
+
+  3. Indexes
+    - `post_id` indexes on likes and comments so the aggregates are index scans
+
+  4. Notes
+    - Replaces the per-post likes/comments queries issued by the community
+      feeds; a page of posts now costs one query for the posts and counts plus
+      one batched query for the comment threads
+*/
+
+CREATE INDEX IF NOT EXISTS idx_community_likes_post_id ON community_likes(post_id);
+CREATE INDEX IF NOT EXISTS idx_community_likes_post_user ON community_likes(post_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_community_comments_post_id ON community_comments(post_id);
+
+-- Correlated subqueries are only evaluated for the rows a page actually returns
+CREATE OR REPLACE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (SELECT count(*) FROM community_likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM community_comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
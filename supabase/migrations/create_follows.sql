@@ -0,0 +1,50 @@
+/*
+  # Follows
+
+  1. New Tables
+    - `follows`: `follower_id` follows `followee_id`
+
+  2. Security
+    - Anyone signed in can see who follows whom, for the counts and lists
+      on profiles
+    - People only follow and unfollow as themselves, and cannot follow
+      someone they blocked or who blocked them
+
+  3. Notes
+    - The Following timeline is put together by the client from public posts
+      by followed people and posts in the viewer's communities; the existing
+      post policies decide what it shows
+*/
+
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  followee_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_followee ON follows(followee_id);
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Follows are visible to signed in users" ON follows;
+CREATE POLICY "Follows are visible to signed in users"
+  ON follows FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users follow as themselves" ON follows;
+CREATE POLICY "Users follow as themselves"
+  ON follows FOR INSERT
+  TO authenticated
+  WITH CHECK (follower_id = auth.uid() AND NOT is_blocked_with(followee_id));
+
+DROP POLICY IF EXISTS "Users unfollow as themselves" ON follows;
+CREATE POLICY "Users unfollow as themselves"
+  ON follows FOR DELETE
+  TO authenticated
+  USING (follower_id = auth.uid());
+
+-- Timelines look posts up by author, newest first
+CREATE INDEX IF NOT EXISTS idx_posts_user_created ON posts(user_id, created_at DESC);
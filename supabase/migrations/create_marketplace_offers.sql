@@ -0,0 +1,328 @@
+/*
+  # Marketplace Offers
+
+  1. New Tables
+    - `marketplace_offers`: a price proposed for a listing, between the
+      listing's seller and one buyer
+      - `proposed_by`: the buyer for an offer, the seller or the buyer for a
+        counter-offer; the other side is the one who answers it
+      - `status`: 'pending' until answered, then 'accepted', 'declined',
+        'countered', 'withdrawn' or 'expired'
+      - `parent_id`: the offer a counter-offer answers
+      - `expires_at`: pending offers lapse after 48 hours
+
+  2. Changes
+    - `marketplace_items.buyer_id` and `reserved_at`: who the listing is
+      reserved for, set when an offer is accepted. The listing's `status`
+      becomes 'pending' (reserved), which takes it out of the browse list for
+      everyone but the buyer.
+    - `messages.offer_id`: the offer a message carries. Every offer and
+      counter-offer is posted into the conversation about the listing, so
+      chats render it as a card and pick it up over the existing realtime
+      feed; answers are posted as plain messages.
+
+  3. Functions
+    - `make_offer(item, amount)`: a buyer's offer; one pending offer per buyer
+      and listing
+    - `counter_offer(offer, amount)`: answers a pending offer with another
+      amount
+    - `respond_to_offer(offer, response)`: 'accept' or 'decline' for the side
+      that received the offer, 'withdraw' for the side that made it.
+      Accepting reserves the listing and declines every other pending offer
+      on it.
+    - `expire_marketplace_offers()`: marks lapsed offers 'expired', run every
+      five minutes by pg_cron
+
+  4. Security
+    - Offers are readable by their buyer and seller and only written through
+      the functions above
+    - Marking a listing sold declines the offers still pending on it
+*/
+
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS buyer_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS reserved_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS marketplace_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES marketplace_items(id) ON DELETE CASCADE,
+  buyer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  proposed_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount decimal(10,2) NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'countered', 'withdrawn', 'expired')),
+  parent_id uuid REFERENCES marketplace_offers(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '48 hours',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  responded_at timestamptz,
+  CHECK (buyer_id <> seller_id),
+  CHECK (proposed_by IN (buyer_id, seller_id))
+);
+
+-- One negotiation at a time per buyer and listing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_marketplace_offers_open
+  ON marketplace_offers(item_id, buyer_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_seller ON marketplace_offers(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_buyer ON marketplace_offers(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_expiry ON marketplace_offers(expires_at) WHERE status = 'pending';
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES marketplace_offers(id) ON DELETE SET NULL;
+
+ALTER TABLE marketplace_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Buyers and sellers can read their offers" ON marketplace_offers;
+CREATE POLICY "Buyers and sellers can read their offers"
+  ON marketplace_offers FOR SELECT
+  TO authenticated
+  USING (auth.uid() = buyer_id OR auth.uid() = seller_id);
+
+DROP POLICY IF EXISTS "Buyers can view items reserved for them" ON marketplace_items;
+CREATE POLICY "Buyers can view items reserved for them"
+  ON marketplace_items FOR SELECT
+  TO authenticated
+  USING (buyer_id = auth.uid());
+
+-- Posts into the conversation between the offer's buyer and seller, the same
+-- id conversationIdFor() derives on the client
+CREATE OR REPLACE FUNCTION post_offer_message(target marketplace_offers, sender uuid, body text, with_card boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  receiver uuid := CASE WHEN sender = target.buyer_id THEN target.seller_id ELSE target.buyer_id END;
+BEGIN
+  INSERT INTO messages (conversation_id, sender_id, receiver_id, content, item_id, offer_id)
+  VALUES (
+    CASE WHEN sender::text COLLATE "C" < receiver::text COLLATE "C"
+      THEN sender::text || '-' || receiver::text
+      ELSE receiver::text || '-' || sender::text
+    END,
+    sender,
+    receiver,
+    body,
+    target.item_id,
+    CASE WHEN with_card THEN target.id END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_offer_message(marketplace_offers, uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION offer_amount_text(amount numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '₩' || to_char(round(amount), 'FM999,999,999,990');
+$$;
+
+-- Locks a pending offer the caller takes part in, or explains why it can't
+-- be answered
+CREATE OR REPLACE FUNCTION open_offer(target_offer uuid)
+RETURNS marketplace_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target marketplace_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM marketplace_offers
+  WHERE id = target_offer AND auth.uid() IN (buyer_id, seller_id)
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF target.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer has already been answered' USING ERRCODE = '23514';
+  END IF;
+  IF target.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired' USING ERRCODE = '23514';
+  END IF;
+  IF is_banned(auth.uid()) THEN
+    RAISE EXCEPTION 'You are banned from the marketplace' USING ERRCODE = '42501';
+  END IF;
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_offer(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION make_offer(target_item uuid, offer_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item marketplace_items%ROWTYPE;
+  created marketplace_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO item FROM marketplace_items
+  WHERE id = target_item AND hidden_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF item.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot make an offer on your own listing' USING ERRCODE = '42501';
+  END IF;
+  IF item.is_sold OR coalesce(item.status, 'available') <> 'available' THEN
+    RAISE EXCEPTION 'This item is no longer available' USING ERRCODE = '23514';
+  END IF;
+  IF offer_amount IS NULL OR offer_amount <= 0 THEN
+    RAISE EXCEPTION 'Offer a price above zero' USING ERRCODE = '23514';
+  END IF;
+  IF is_banned(auth.uid()) THEN
+    RAISE EXCEPTION 'You are banned from the marketplace' USING ERRCODE = '42501';
+  END IF;
+
+  -- A lapsed offer the job hasn't swept yet doesn't block a new one
+  UPDATE marketplace_offers SET status = 'expired'
+  WHERE item_id = target_item AND buyer_id = auth.uid() AND status = 'pending' AND expires_at <= now();
+
+  INSERT INTO marketplace_offers (item_id, buyer_id, seller_id, proposed_by, amount)
+  VALUES (target_item, auth.uid(), item.seller_id, auth.uid(), offer_amount)
+  RETURNING * INTO created;
+
+  PERFORM post_offer_message(created, auth.uid(),
+    'Offered ' || offer_amount_text(offer_amount) || ' for ' || item.title, true);
+  RETURN created.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION make_offer(uuid, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION counter_offer(target_offer uuid, offer_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target marketplace_offers%ROWTYPE := open_offer(target_offer);
+  created marketplace_offers%ROWTYPE;
+BEGIN
+  IF target.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Wait for an answer to your offer' USING ERRCODE = '42501';
+  END IF;
+  IF offer_amount IS NULL OR offer_amount <= 0 THEN
+    RAISE EXCEPTION 'Offer a price above zero' USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE marketplace_offers SET status = 'countered', responded_at = now() WHERE id = target.id;
+
+  INSERT INTO marketplace_offers (item_id, buyer_id, seller_id, proposed_by, amount, parent_id)
+  VALUES (target.item_id, target.buyer_id, target.seller_id, auth.uid(), offer_amount, target.id)
+  RETURNING * INTO created;
+
+  PERFORM post_offer_message(created, auth.uid(), 'Countered with ' || offer_amount_text(offer_amount), true);
+  RETURN created.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION counter_offer(uuid, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION respond_to_offer(target_offer uuid, response text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target marketplace_offers%ROWTYPE := open_offer(target_offer);
+  item marketplace_items%ROWTYPE;
+  other marketplace_offers%ROWTYPE;
+BEGIN
+  IF response NOT IN ('accept', 'decline', 'withdraw') THEN
+    RAISE EXCEPTION 'Unknown response %', response USING ERRCODE = '22P02';
+  END IF;
+  IF (response = 'withdraw') <> (target.proposed_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the other side can accept or decline an offer, and only its maker can withdraw it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF response = 'accept' THEN
+    SELECT * INTO item FROM marketplace_items WHERE id = target.item_id FOR UPDATE;
+    IF item.is_sold OR coalesce(item.status, 'available') <> 'available' THEN
+      RAISE EXCEPTION 'This item is no longer available' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE marketplace_offers SET status = 'accepted', responded_at = now() WHERE id = target.id;
+    UPDATE marketplace_items
+    SET status = 'pending', buyer_id = target.buyer_id, reserved_at = now()
+    WHERE id = target.item_id;
+    PERFORM post_offer_message(target, auth.uid(), 'Accepted the offer of ' || offer_amount_text(target.amount), false);
+
+    FOR other IN
+      SELECT * FROM marketplace_offers
+      WHERE item_id = target.item_id AND status = 'pending' AND id <> target.id
+      FOR UPDATE
+    LOOP
+      UPDATE marketplace_offers SET status = 'declined', responded_at = now() WHERE id = other.id;
+      -- Buyers who blocked the seller are not told, rather than holding up the sale
+      BEGIN
+        PERFORM post_offer_message(other, other.seller_id,
+          item.title || ' has been reserved for another buyer, so your offer of '
+            || offer_amount_text(other.amount) || ' was declined', false);
+      EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+      END;
+    END LOOP;
+    RETURN;
+  END IF;
+
+  UPDATE marketplace_offers
+  SET status = CASE WHEN response = 'withdraw' THEN 'withdrawn' ELSE 'declined' END, responded_at = now()
+  WHERE id = target.id;
+  PERFORM post_offer_message(target, auth.uid(),
+    CASE WHEN response = 'withdraw' THEN 'Withdrew the offer of ' ELSE 'Declined the offer of ' END
+      || offer_amount_text(target.amount), false);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_to_offer(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION decline_offers_on_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE marketplace_offers SET status = 'declined', responded_at = now()
+  WHERE item_id = NEW.id AND status = 'pending';
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS decline_offers_on_sale ON marketplace_items;
+CREATE TRIGGER decline_offers_on_sale
+  AFTER UPDATE OF is_sold ON marketplace_items
+  FOR EACH ROW
+  WHEN (NEW.is_sold AND NOT OLD.is_sold)
+  EXECUTE FUNCTION decline_offers_on_sale();
+
+CREATE OR REPLACE FUNCTION expire_marketplace_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired integer;
+BEGIN
+  UPDATE marketplace_offers SET status = 'expired'
+  WHERE status = 'pending' AND expires_at <= now();
+  GET DIAGNOSTICS expired = ROW_COUNT;
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_marketplace_offers() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-marketplace-offers', '*/5 * * * *', 'SELECT expire_marketplace_offers()');
@@ -0,0 +1,162 @@
+/*
+  # Marketplace Reviews
+
+  1. New Tables
+    - `marketplace_reviews`: a rating and short review one side of a completed
+      sale leaves for the other
+      - `reviewer_role`: 'buyer' when the buyer reviews the seller, 'seller'
+        the other way round
+      - `rating`: 1 to 5 stars
+      - `body`: up to 1000 characters, may be empty
+      - `item_id`: the sold listing; kept as null if the listing is deleted
+        later, so the reviewer's reputation survives it
+
+  2. Functions
+    - `review_sale(item, rating, body)`: leaves the caller's review of a sold
+      listing, or edits it. Only the seller and the buyer the listing was sold
+      to can review it, once each; a second call updates the first review.
+      New reviews notify the person reviewed.
+    - `get_reputation(user)`: average rating and number of reviews received,
+      and the response rate: the share of marketplace conversations from the
+      last 90 days in which the user answered after being messaged
+
+  3. Security
+    - Reviews are readable by every signed-in user and only written through
+      `review_sale`
+    - Sales recorded without a buyer ("sold outside the app") cannot be
+      reviewed, nor can listings that were only reserved
+    - Nor can sales to a buyer who never messaged the seller about the
+      listing or had an offer on it accepted (`listing_buyer_involved`)
+*/
+
+CREATE TABLE IF NOT EXISTS marketplace_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid REFERENCES marketplace_items(id) ON DELETE SET NULL,
+  reviewer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reviewee_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reviewer_role text NOT NULL CHECK (reviewer_role IN ('buyer', 'seller')),
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body text NOT NULL DEFAULT '' CHECK (char_length(body) <= 1000),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (reviewer_id <> reviewee_id)
+);
+
+-- One review per side per sale
+CREATE UNIQUE INDEX IF NOT EXISTS idx_marketplace_reviews_once
+  ON marketplace_reviews(item_id, reviewer_id);
+CREATE INDEX IF NOT EXISTS idx_marketplace_reviews_reviewee ON marketplace_reviews(reviewee_id, created_at DESC);
+
+ALTER TABLE marketplace_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read reviews" ON marketplace_reviews;
+CREATE POLICY "Signed-in users can read reviews"
+  ON marketplace_reviews FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION review_sale(target_item uuid, stars integer, review_body text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item marketplace_items%ROWTYPE;
+  side text;
+  reviewee uuid;
+  saved_id uuid;
+  saved_body text;
+  created boolean;
+BEGIN
+  SELECT * INTO item FROM marketplace_items WHERE id = target_item;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF item.status <> 'sold' OR item.buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Only sales to a buyer on SijangKu can be reviewed' USING ERRCODE = '23514';
+  END IF;
+
+  IF auth.uid() = item.seller_id THEN
+    side := 'seller';
+    reviewee := item.buyer_id;
+  ELSIF auth.uid() = item.buyer_id THEN
+    side := 'buyer';
+    reviewee := item.seller_id;
+  ELSE
+    RAISE EXCEPTION 'Only the buyer and the seller can review this sale' USING ERRCODE = '42501';
+  END IF;
+  -- A seller cannot mark a listing sold to a stranger just to review them
+  IF NOT listing_buyer_involved(item.id, item.seller_id, item.buyer_id) THEN
+    RAISE EXCEPTION 'Only sales to a buyer who messaged the seller or had an offer accepted can be reviewed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF stars IS NULL OR stars NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Pick a rating from 1 to 5 stars' USING ERRCODE = '23514';
+  END IF;
+  IF is_banned(auth.uid()) THEN
+    RAISE EXCEPTION 'You are banned from the marketplace' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO marketplace_reviews (item_id, reviewer_id, reviewee_id, reviewer_role, rating, body)
+  VALUES (target_item, auth.uid(), reviewee, side, stars, btrim(coalesce(review_body, '')))
+  ON CONFLICT (item_id, reviewer_id) DO UPDATE
+    SET rating = EXCLUDED.rating, body = EXCLUDED.body, updated_at = now()
+  -- xmax is 0 on a freshly inserted row, so edits don't notify again
+  RETURNING id, body, (xmax = 0) INTO saved_id, saved_body, created;
+
+  IF created THEN
+    PERFORM create_notification(reviewee, auth.uid(), 'review',
+      target_item_id => target_item, preview_text => saved_body);
+  END IF;
+  RETURN saved_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_sale(uuid, integer, text) TO authenticated;
+
+-- Security definer so the response rate can count conversations the caller
+-- is not part of
+CREATE OR REPLACE FUNCTION get_reputation(target_user uuid)
+RETURNS TABLE (rating_average numeric, review_count integer, response_rate numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH received AS (
+    SELECT conversation_id, min(created_at) AS first_at
+    FROM messages
+    WHERE receiver_id = target_user
+      AND item_id IS NOT NULL
+      AND created_at > now() - interval '90 days'
+    GROUP BY conversation_id
+  ),
+  answered AS (
+    SELECT r.conversation_id
+    FROM received r
+    WHERE EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.conversation_id = r.conversation_id
+        AND m.sender_id = target_user
+        AND m.created_at > r.first_at
+    )
+  )
+  SELECT
+    (SELECT round(avg(rating), 2) FROM marketplace_reviews WHERE reviewee_id = target_user),
+    (SELECT count(*)::integer FROM marketplace_reviews WHERE reviewee_id = target_user),
+    (SELECT CASE WHEN count(*) = 0 THEN NULL
+      ELSE round((SELECT count(*) FROM answered)::numeric / count(*), 2) END
+     FROM received);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_reputation(uuid) TO authenticated;
+
+-- Notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'reaction', 'comment', 'reply', 'mention', 'community_added',
+  'community_invite', 'join_request', 'join_approved', 'message',
+  'moderation_warning', 'review'
+));
@@ -0,0 +1,154 @@
+/*
+  # Marketplace Wishlist and Price History
+
+  1. New Tables
+    - `marketplace_wishlist`: listings a user saved to keep an eye on
+      - `saved_price`: the listing's price when it was saved, filled in by
+        the database
+    - `marketplace_price_changes`: every change to a listing's price, from
+      whatever path updated it, so a price drop can be checked against the
+      listing's history
+
+  2. Notifications
+    - 'price_drop': a saved listing got cheaper while still for sale
+    - 'item_reserved' and 'item_sold': a saved listing was reserved or sold;
+      the buyer it went to is not told about their own purchase
+
+  3. Security
+    - Users can only see and change their own wishlist, and cannot save
+      their own listings
+    - Saved listings stay readable to the user once reserved, sold or
+      expired, so the Saved tab can show what happened to them
+    - Price history is readable wherever the listing is
+*/
+
+CREATE TABLE IF NOT EXISTS marketplace_wishlist (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES marketplace_items(id) ON DELETE CASCADE,
+  saved_price decimal(10,2),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_wishlist_item ON marketplace_wishlist(item_id);
+
+CREATE TABLE IF NOT EXISTS marketplace_price_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES marketplace_items(id) ON DELETE CASCADE,
+  old_price decimal(10,2) NOT NULL,
+  new_price decimal(10,2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_price_changes_item ON marketplace_price_changes(item_id, created_at);
+
+ALTER TABLE marketplace_wishlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_price_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their wishlist" ON marketplace_wishlist;
+CREATE POLICY "Users can read their wishlist"
+  ON marketplace_wishlist FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can save other people's listings" ON marketplace_wishlist;
+CREATE POLICY "Users can save other people's listings"
+  ON marketplace_wishlist FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM marketplace_items i
+      WHERE i.id = item_id AND i.seller_id <> auth.uid() AND i.status IN ('active', 'reserved')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can unsave listings" ON marketplace_wishlist;
+CREATE POLICY "Users can unsave listings"
+  ON marketplace_wishlist FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view listings they saved" ON marketplace_items;
+CREATE POLICY "Users can view listings they saved"
+  ON marketplace_items FOR SELECT
+  TO authenticated
+  USING (
+    status IN ('active', 'reserved', 'sold', 'expired')
+    AND EXISTS (SELECT 1 FROM marketplace_wishlist w WHERE w.item_id = id AND w.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Price history is readable with its listing" ON marketplace_price_changes;
+CREATE POLICY "Price history is readable with its listing"
+  ON marketplace_price_changes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM marketplace_items i WHERE i.id = item_id));
+
+CREATE OR REPLACE FUNCTION set_wishlist_saved_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT price INTO NEW.saved_price FROM marketplace_items WHERE id = NEW.item_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_wishlist_saved_price ON marketplace_wishlist;
+CREATE TRIGGER set_wishlist_saved_price
+  BEFORE INSERT ON marketplace_wishlist
+  FOR EACH ROW
+  EXECUTE FUNCTION set_wishlist_saved_price();
+
+CREATE OR REPLACE FUNCTION notify_wishlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  watcher uuid;
+  kind text;
+BEGIN
+  IF NEW.price IS DISTINCT FROM OLD.price THEN
+    INSERT INTO marketplace_price_changes (item_id, old_price, new_price)
+    VALUES (NEW.id, OLD.price, NEW.price);
+
+    IF NEW.price < OLD.price AND NEW.status IN ('active', 'reserved') THEN
+      FOR watcher IN SELECT user_id FROM marketplace_wishlist WHERE item_id = NEW.id LOOP
+        PERFORM create_notification(watcher, NEW.seller_id, 'price_drop',
+          target_item_id => NEW.id,
+          preview_text => NEW.title || ': ' || offer_amount_text(OLD.price) || ' → ' || offer_amount_text(NEW.price));
+      END LOOP;
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('reserved', 'sold') THEN
+    kind := CASE NEW.status WHEN 'reserved' THEN 'item_reserved' ELSE 'item_sold' END;
+    FOR watcher IN
+      SELECT user_id FROM marketplace_wishlist
+      WHERE item_id = NEW.id AND user_id IS DISTINCT FROM NEW.buyer_id
+    LOOP
+      PERFORM create_notification(watcher, NEW.seller_id, kind, target_item_id => NEW.id, preview_text => NEW.title);
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_wishlist ON marketplace_items;
+CREATE TRIGGER notify_wishlist
+  AFTER UPDATE OF price, status ON marketplace_items
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_wishlist();
+
+-- Notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'reaction', 'comment', 'reply', 'mention', 'community_added',
+  'community_invite', 'join_request', 'join_approved', 'message',
+  'moderation_warning', 'review', 'listing_match', 'price_drop',
+  'item_reserved', 'item_sold'
+));
@@ -0,0 +1,350 @@
+/*
+  # Create Notifications
+
+  1. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, the recipient)
+      - `actor_id` (uuid, who did it; null when that must stay hidden, as on
+        anonymous posts)
+      - `type` (text: 'reaction', 'comment', 'reply', 'mention',
+        'community_added', 'message')
+      - `post_kind` ('post' | 'community_post'), `post_id`, `comment_id`,
+        `community_id`, `conversation_id`, `item_id` (what it is about)
+      - `reaction` (text, for reactions)
+      - `preview` (text, the start of the comment, post or message)
+      - `created_at`, `read_at` (timestamps)
+
+  2. Triggers
+    - Reactions on posts, community posts and comments notify the author
+    - Comments notify the post's author; replies notify the parent
+      comment's author instead when that is the same person
+    - @username mentions in posts and comments notify the mentioned user
+    - Being added to a community by someone else notifies the new member
+    - Messages notify the receiver
+    - Nobody is notified about their own actions
+
+  3. Security
+    - RLS: users read, update (mark read) and delete their own notifications
+    - There is no insert policy; rows are only written by the trigger
+      functions, which run as SECURITY DEFINER
+
+  4. Indexes
+    - `(user_id, created_at desc)` for the panel and a partial index on unread
+      rows for the badge count
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('reaction', 'comment', 'reply', 'mention', 'community_added', 'message')),
+  post_kind text CHECK (post_kind IN ('post', 'community_post')),
+  post_id uuid,
+  comment_id uuid,
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  conversation_id text,
+  item_id uuid REFERENCES marketplace_items(id) ON DELETE SET NULL,
+  reaction text,
+  preview text,
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notifications" ON notifications;
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own notifications" ON notifications;
+CREATE POLICY "Users can delete own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Shared by every trigger below: skips self-notifications and hides the
+-- actor when asked to
+CREATE OR REPLACE FUNCTION create_notification(
+  recipient uuid,
+  actor uuid,
+  notification_type text,
+  hide_actor boolean DEFAULT false,
+  target_post_kind text DEFAULT NULL,
+  target_post_id uuid DEFAULT NULL,
+  target_comment_id uuid DEFAULT NULL,
+  target_community_id uuid DEFAULT NULL,
+  target_conversation_id text DEFAULT NULL,
+  target_item_id uuid DEFAULT NULL,
+  target_reaction text DEFAULT NULL,
+  preview_text text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF recipient IS NULL OR recipient = actor THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (
+    user_id, actor_id, type, post_kind, post_id, comment_id, community_id,
+    conversation_id, item_id, reaction, preview
+  ) VALUES (
+    recipient,
+    CASE WHEN hide_actor THEN NULL ELSE actor END,
+    notification_type,
+    target_post_kind,
+    target_post_id,
+    target_comment_id,
+    target_community_id,
+    target_conversation_id,
+    target_item_id,
+    target_reaction,
+    CASE WHEN length(btrim(preview_text)) > 140
+      THEN left(regexp_replace(btrim(preview_text), '\s+', ' ', 'g'), 139) || '…'
+      ELSE nullif(regexp_replace(btrim(coalesce(preview_text, '')), '\s+', ' ', 'g'), '')
+    END
+  );
+END;
+$$;
+
+-- @username mentions, same pattern as `mentionedUsernames` in the client
+CREATE OR REPLACE FUNCTION notify_mentions(
+  content text,
+  actor uuid,
+  hide_actor boolean,
+  target_post_kind text,
+  target_post_id uuid,
+  target_comment_id uuid,
+  target_community_id uuid,
+  skip uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  mentioned uuid;
+BEGIN
+  FOR mentioned IN
+    SELECT DISTINCT p.id
+    FROM regexp_matches(content, '(?:^|[^A-Za-z0-9_@])@([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)', 'g') AS m(match)
+    JOIN profiles p ON lower(p.username) = lower(m.match[1])
+  LOOP
+    -- Only people who can read the post hear about it: members of its
+    -- community, and nobody with a block against a named author
+    IF NOT mentioned = ANY(skip)
+      AND (target_community_id IS NULL OR EXISTS (
+        SELECT 1 FROM community_memberships
+        WHERE community_id = target_community_id AND user_id = mentioned
+      ))
+      AND (hide_actor OR NOT EXISTS (
+        SELECT 1 FROM user_blocks
+        WHERE (blocker_id = actor AND blocked_id = mentioned)
+           OR (blocker_id = mentioned AND blocked_id = actor)
+      )) THEN
+      PERFORM create_notification(
+        mentioned, actor, 'mention', hide_actor, target_post_kind, target_post_id,
+        target_comment_id, target_community_id, NULL, NULL, NULL, content
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- likes (posts and comments) and community_likes
+CREATE OR REPLACE FUNCTION notify_on_reaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author uuid;
+  anonymous boolean := false;
+  parent_post uuid;
+  target_community uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'community_likes' THEN
+    SELECT user_id, community_id INTO author, target_community FROM community_posts WHERE id = NEW.post_id;
+    PERFORM create_notification(author, NEW.user_id, 'reaction', false, 'community_post', NEW.post_id,
+      NULL, target_community, NULL, NULL, NEW.reaction, NULL);
+  ELSIF NEW.comment_id IS NOT NULL THEN
+    SELECT c.user_id, c.post_id, coalesce(p.visibility = 'anonymous', false)
+      INTO author, parent_post, anonymous
+      FROM comments c LEFT JOIN posts p ON p.id = c.post_id
+      WHERE c.id = NEW.comment_id;
+    PERFORM create_notification(author, NEW.user_id, 'reaction', anonymous, 'post', parent_post,
+      NEW.comment_id, NULL, NULL, NULL, NEW.reaction, NULL);
+  ELSIF NEW.post_id IS NOT NULL THEN
+    SELECT user_id, visibility = 'anonymous' INTO author, anonymous FROM posts WHERE id = NEW.post_id;
+    PERFORM create_notification(author, NEW.user_id, 'reaction', coalesce(anonymous, false), 'post', NEW.post_id,
+      NULL, NULL, NULL, NULL, NEW.reaction, NULL);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_like ON likes;
+CREATE TRIGGER notify_on_like
+  AFTER INSERT ON likes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_reaction();
+
+DROP TRIGGER IF EXISTS notify_on_community_like ON community_likes;
+CREATE TRIGGER notify_on_community_like
+  AFTER INSERT ON community_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_reaction();
+
+-- comments and community_comments. A reply to the post's author tells them
+-- once, as a reply.
+CREATE OR REPLACE FUNCTION notify_on_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kind text;
+  post_author uuid;
+  parent_author uuid;
+  anonymous boolean := false;
+  target_community uuid;
+  notified uuid[] := ARRAY[NEW.user_id];
+BEGIN
+  IF TG_TABLE_NAME = 'community_comments' THEN
+    kind := 'community_post';
+    SELECT user_id, community_id INTO post_author, target_community FROM community_posts WHERE id = NEW.post_id;
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT user_id INTO parent_author FROM community_comments WHERE id = NEW.parent_id;
+    END IF;
+  ELSE
+    kind := 'post';
+    SELECT user_id, coalesce(visibility = 'anonymous', false) INTO post_author, anonymous FROM posts WHERE id = NEW.post_id;
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT user_id INTO parent_author FROM comments WHERE id = NEW.parent_id;
+    END IF;
+  END IF;
+
+  IF parent_author IS NOT NULL THEN
+    PERFORM create_notification(parent_author, NEW.user_id, 'reply', anonymous, kind, NEW.post_id,
+      NEW.id, target_community, NULL, NULL, NULL, NEW.content);
+    notified := notified || parent_author;
+  END IF;
+
+  IF post_author IS NOT NULL AND NOT post_author = ANY(notified) THEN
+    PERFORM create_notification(post_author, NEW.user_id, 'comment', anonymous, kind, NEW.post_id,
+      NEW.id, target_community, NULL, NULL, NULL, NEW.content);
+    notified := notified || post_author;
+  END IF;
+
+  PERFORM notify_mentions(NEW.content, NEW.user_id, anonymous, kind, NEW.post_id, NEW.id, target_community, notified);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_comment ON comments;
+CREATE TRIGGER notify_on_comment
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_comment();
+
+DROP TRIGGER IF EXISTS notify_on_community_comment ON community_comments;
+CREATE TRIGGER notify_on_community_comment
+  AFTER INSERT ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_comment();
+
+-- posts and community_posts: mentions only
+CREATE OR REPLACE FUNCTION notify_on_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'community_posts' THEN
+    PERFORM notify_mentions(NEW.content, NEW.user_id, false, 'community_post', NEW.id, NULL, NEW.community_id, ARRAY[NEW.user_id]);
+  ELSE
+    PERFORM notify_mentions(NEW.content, NEW.user_id, NEW.visibility = 'anonymous', 'post', NEW.id, NULL, NULL, ARRAY[NEW.user_id]);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_post ON posts;
+CREATE TRIGGER notify_on_post
+  AFTER INSERT ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_post();
+
+DROP TRIGGER IF EXISTS notify_on_community_post ON community_posts;
+CREATE TRIGGER notify_on_community_post
+  AFTER INSERT ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_post();
+
+-- Joining a community yourself is not news; being added by someone else is
+CREATE OR REPLACE FUNCTION notify_on_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> NEW.user_id THEN
+    PERFORM create_notification(NEW.user_id, auth.uid(), 'community_added', false, NULL, NULL,
+      NULL, NEW.community_id, NULL, NULL, NULL, NULL);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_membership ON community_memberships;
+CREATE TRIGGER notify_on_membership
+  AFTER INSERT ON community_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_membership();
+
+CREATE OR REPLACE FUNCTION notify_on_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM create_notification(NEW.receiver_id, NEW.sender_id, 'message', false, NULL, NULL,
+    NULL, NULL, NEW.conversation_id, NEW.item_id, NULL, NEW.content);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_message ON messages;
+CREATE TRIGGER notify_on_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_message();
+
+-- Only the triggers call these
+REVOKE EXECUTE ON FUNCTION create_notification(uuid, uuid, text, boolean, text, uuid, uuid, uuid, text, uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_mentions(text, uuid, boolean, text, uuid, uuid, uuid, uuid[]) FROM PUBLIC, anon, authenticated;
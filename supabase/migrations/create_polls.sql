@@ -0,0 +1,311 @@
+/*
+  # Polls
+
+  1. New Tables
+    - `polls`: a poll attached to a post or community post, named by
+      `post_kind` and `post_id` like revisions and reports. The post's text
+      is the question.
+      - `allows_multiple`: voters may pick more than one option
+      - `anonymous_votes`: counts are public but who voted for what is not
+      - `closes_at`: optional; no votes are taken after it
+      - `voter_count`: people who voted, kept by a trigger
+    - `poll_options`: the choices, in `position` order, each with a
+      `vote_count` kept by a trigger
+    - `poll_votes`: one row per voter and chosen option
+
+  2. Changes
+    - `posts.has_poll` and `community_posts.has_poll`, so cards only fetch a
+      poll for posts that have one. `community_post_feed` is recreated to
+      pick the column up.
+
+  3. Functions
+    - `create_poll(kind, post, ...)`: attaches a poll to one of the caller's
+      own posts
+    - `cast_poll_vote(poll, options)`: replaces the caller's votes; an empty
+      list takes the vote back
+
+  4. Security
+    - Polls, options and counts are readable by whoever can read the post
+    - Votes are only written through `cast_poll_vote`. Voters always read
+      their own votes; other people's are readable only when the poll is not
+      anonymous.
+    - `check_poll_vote` enforces one vote per person on single-choice polls,
+      the poll's options and the closing time for every write, so the rules
+      hold whatever path the vote takes
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS has_poll boolean NOT NULL DEFAULT false;
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS has_poll boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_kind text NOT NULL CHECK (post_kind IN ('post', 'community_post')),
+  post_id uuid NOT NULL,
+  allows_multiple boolean NOT NULL DEFAULT false,
+  anonymous_votes boolean NOT NULL DEFAULT false,
+  closes_at timestamptz,
+  voter_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (post_kind, post_id)
+);
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (length(trim(label)) BETWEEN 1 AND 100),
+  position integer NOT NULL,
+  vote_count integer NOT NULL DEFAULT 0,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id uuid NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_votes_voter ON poll_votes(poll_id, user_id);
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Runs as the caller, so the posts' own policies decide
+CREATE OR REPLACE FUNCTION can_read_poll(target_poll uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM polls pl
+    WHERE pl.id = target_poll
+      AND CASE pl.post_kind
+        WHEN 'post' THEN EXISTS (SELECT 1 FROM posts WHERE id = pl.post_id)
+        ELSE EXISTS (SELECT 1 FROM community_posts WHERE id = pl.post_id)
+      END
+  );
+$$;
+
+DROP POLICY IF EXISTS "Polls follow their post" ON polls;
+CREATE POLICY "Polls follow their post"
+  ON polls FOR SELECT
+  TO authenticated
+  USING (can_read_poll(id));
+
+DROP POLICY IF EXISTS "Poll options follow their poll" ON poll_options;
+CREATE POLICY "Poll options follow their poll"
+  ON poll_options FOR SELECT
+  TO authenticated
+  USING (can_read_poll(poll_id));
+
+DROP POLICY IF EXISTS "Votes are visible unless the poll is anonymous" ON poll_votes;
+CREATE POLICY "Votes are visible unless the poll is anonymous"
+  ON poll_votes FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR (
+      can_read_poll(poll_id)
+      AND NOT EXISTS (SELECT 1 FROM polls WHERE id = poll_id AND anonymous_votes)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION check_poll_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target polls%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM polls WHERE id = NEW.poll_id;
+  IF target.closes_at IS NOT NULL AND target.closes_at <= now() THEN
+    RAISE EXCEPTION 'This poll is closed' USING ERRCODE = '23514';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM poll_options WHERE id = NEW.option_id AND poll_id = NEW.poll_id) THEN
+    RAISE EXCEPTION 'That option is not part of this poll' USING ERRCODE = '23514';
+  END IF;
+  IF NOT target.allows_multiple
+     AND EXISTS (SELECT 1 FROM poll_votes WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'This poll only takes one vote per person' USING ERRCODE = '23505';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_poll_vote ON poll_votes;
+CREATE TRIGGER check_poll_vote
+  BEFORE INSERT ON poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_poll_vote();
+
+-- Security definer: voters cannot update options or polls directly. The
+-- voter count is recounted because row triggers of one multi-option vote
+-- all see each other's rows.
+CREATE OR REPLACE FUNCTION count_poll_votes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll uuid := CASE TG_OP WHEN 'INSERT' THEN NEW.poll_id ELSE OLD.poll_id END;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE poll_options SET vote_count = vote_count + 1 WHERE id = NEW.option_id;
+  ELSE
+    UPDATE poll_options SET vote_count = greatest(vote_count - 1, 0) WHERE id = OLD.option_id;
+  END IF;
+  UPDATE polls
+  SET voter_count = (SELECT count(DISTINCT user_id) FROM poll_votes WHERE poll_id = target_poll)
+  WHERE id = target_poll;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS count_poll_votes ON poll_votes;
+CREATE TRIGGER count_poll_votes
+  AFTER INSERT OR DELETE ON poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION count_poll_votes();
+
+CREATE OR REPLACE FUNCTION create_poll(
+  kind text,
+  target_post uuid,
+  options text[],
+  allows_multiple boolean DEFAULT false,
+  anonymous_votes boolean DEFAULT false,
+  closes_at timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created uuid;
+  choice text;
+  place integer := 0;
+BEGIN
+  IF kind = 'post' THEN
+    PERFORM 1 FROM posts WHERE id = target_post AND user_id = auth.uid() AND visibility = 'public';
+  ELSE
+    PERFORM 1 FROM community_posts WHERE id = target_post AND user_id = auth.uid();
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can only add a poll to your own post' USING ERRCODE = '42501';
+  END IF;
+  IF coalesce(array_length(options, 1), 0) NOT BETWEEN 2 AND 10 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 10 options' USING ERRCODE = '23514';
+  END IF;
+  IF closes_at IS NOT NULL AND closes_at <= now() THEN
+    RAISE EXCEPTION 'Pick a closing time in the future' USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO polls (post_kind, post_id, allows_multiple, anonymous_votes, closes_at)
+  VALUES (kind, target_post, create_poll.allows_multiple, create_poll.anonymous_votes, create_poll.closes_at)
+  RETURNING id INTO created;
+
+  FOREACH choice IN ARRAY options LOOP
+    INSERT INTO poll_options (poll_id, label, position) VALUES (created, trim(choice), place);
+    place := place + 1;
+  END LOOP;
+
+  IF kind = 'post' THEN
+    UPDATE posts SET has_poll = true WHERE id = target_post;
+  ELSE
+    UPDATE community_posts SET has_poll = true WHERE id = target_post;
+  END IF;
+  RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_poll(text, uuid, text[], boolean, boolean, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cast_poll_vote(target_poll uuid, option_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target polls%ROWTYPE;
+BEGIN
+  -- Locked so two votes from one person can't both pass the one-vote check
+  SELECT * INTO target FROM polls WHERE id = target_poll FOR UPDATE;
+  IF NOT FOUND OR NOT can_read_poll(target_poll) THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT target.allows_multiple AND coalesce(array_length(option_ids, 1), 0) > 1 THEN
+    RAISE EXCEPTION 'This poll only takes one vote per person' USING ERRCODE = '23514';
+  END IF;
+  IF target.closes_at IS NOT NULL AND target.closes_at <= now() THEN
+    RAISE EXCEPTION 'This poll is closed' USING ERRCODE = '23514';
+  END IF;
+  IF is_banned(auth.uid()) OR (target.post_kind = 'community_post' AND EXISTS (
+    SELECT 1 FROM community_posts p
+    WHERE p.id = target.post_id AND is_banned(auth.uid(), p.community_id)
+  )) THEN
+    RAISE EXCEPTION 'You are banned from voting here' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM poll_votes WHERE poll_id = target_poll AND user_id = auth.uid();
+  INSERT INTO poll_votes (poll_id, option_id, user_id)
+  SELECT target_poll, chosen, auth.uid()
+  FROM (SELECT DISTINCT unnest(option_ids) AS chosen) picked;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_poll_vote(uuid, uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION drop_post_poll()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM polls
+  WHERE post_kind = CASE TG_TABLE_NAME WHEN 'posts' THEN 'post' ELSE 'community_post' END
+    AND post_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS drop_post_poll ON posts;
+CREATE TRIGGER drop_post_poll
+  AFTER DELETE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION drop_post_poll();
+
+DROP TRIGGER IF EXISTS drop_post_poll ON community_posts;
+CREATE TRIGGER drop_post_poll
+  AFTER DELETE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION drop_post_poll();
+
+-- `community_post_feed` selects `p.*`; recreate it to pick up `has_poll`
+DROP VIEW IF EXISTS community_post_feed;
+CREATE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
@@ -0,0 +1,204 @@
+/*
+  # Post Drafts and Scheduled Posts
+
+  1. New Tables
+    - `post_drafts`: an unpublished post or community post (`content`,
+      `images`, `files`, `visibility`, `community_id`) saved while it is
+      being written, so it follows its author across devices
+      - `scheduled_at`: when set, the draft is published at that time
+      - `publish_error`: why the last attempt to publish it failed
+
+  2. Functions
+    - `community_member_can(member, community, permission)`: `community_can`
+      for a given member instead of the caller, for use by the job
+    - `publish_post_draft(draft)`: turns one of the caller's drafts into a
+      post or community post and deletes it, to post a draft now
+    - `publish_scheduled_posts()`: publishes every draft that is due. Run
+      every minute by pg_cron.
+    - `publish_draft(draft, scheduled)`: the publishing shared by both; no
+      client role can call it
+
+  3. Security
+    - Only the author reads and writes their drafts
+    - Publishing checks bans and community permissions as of publish time. A
+      scheduled draft that can no longer be posted is unscheduled and keeps
+      the reason in `publish_error` instead of being lost.
+
+  4. Notes
+    - Anonymous posts can be drafted but not scheduled
+    - A scheduled draft stays editable until it is published; clearing
+      `scheduled_at` cancels the schedule
+*/
+
+CREATE TABLE IF NOT EXISTS post_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  visibility text NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'anonymous')),
+  content text NOT NULL DEFAULT '',
+  images text[] NOT NULL DEFAULT '{}',
+  files text[] NOT NULL DEFAULT '{}',
+  scheduled_at timestamptz,
+  publish_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (community_id IS NULL OR visibility = 'public'),
+  CHECK (scheduled_at IS NULL OR visibility = 'public')
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_drafts_user ON post_drafts(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_drafts_due ON post_drafts(scheduled_at) WHERE scheduled_at IS NOT NULL;
+
+ALTER TABLE post_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authors manage their drafts" ON post_drafts;
+CREATE POLICY "Authors manage their drafts"
+  ON post_drafts FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION check_post_draft()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.scheduled_at IS NOT NULL
+     AND NEW.scheduled_at IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.scheduled_at END)
+     AND NEW.scheduled_at <= now() THEN
+    RAISE EXCEPTION 'Pick a time in the future' USING ERRCODE = '23514';
+  END IF;
+  IF NEW.scheduled_at IS NOT NULL AND length(trim(NEW.content)) = 0 THEN
+    RAISE EXCEPTION 'A scheduled post needs some text' USING ERRCODE = '23514';
+  END IF;
+  IF NEW.scheduled_at IS NOT NULL THEN
+    NEW.publish_error := NULL;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_post_draft ON post_drafts;
+CREATE TRIGGER check_post_draft
+  BEFORE INSERT OR UPDATE ON post_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_post_draft();
+
+CREATE OR REPLACE FUNCTION community_member_can(member uuid, target_community uuid, permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT community_role_rank(m.role) >= community_role_rank(
+      coalesce(c.permissions ->> permission, community_default_permission(permission))
+    )
+    FROM community_memberships m
+    JOIN communities c ON c.id = m.community_id
+    WHERE m.community_id = target_community AND m.user_id = member
+  ), false);
+$$;
+
+-- Internal: posts a draft on its author's behalf, for publish_post_draft()
+-- and the job. `scheduled` says which one is calling: an author's call raises
+-- on failure, the job's records the failure on the draft instead.
+CREATE OR REPLACE FUNCTION publish_draft(target_draft uuid, scheduled boolean)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft post_drafts%ROWTYPE;
+  problem text;
+  published uuid;
+BEGIN
+  SELECT * INTO draft FROM post_drafts WHERE id = target_draft FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF length(trim(draft.content)) = 0 THEN
+    problem := 'The post is empty';
+  ELSIF is_banned(draft.user_id, draft.community_id) THEN
+    problem := 'You are banned from posting here';
+  ELSIF draft.community_id IS NOT NULL AND NOT community_member_can(draft.user_id, draft.community_id, 'post') THEN
+    problem := 'You can no longer post in this community';
+  END IF;
+
+  IF problem IS NOT NULL THEN
+    IF NOT scheduled THEN
+      RAISE EXCEPTION '%', problem USING ERRCODE = '42501';
+    END IF;
+    UPDATE post_drafts SET scheduled_at = NULL, publish_error = problem WHERE id = draft.id;
+    RETURN NULL;
+  END IF;
+
+  IF draft.community_id IS NULL THEN
+    INSERT INTO posts (user_id, content, images, files, visibility)
+    VALUES (draft.user_id, draft.content, draft.images, draft.files, draft.visibility)
+    RETURNING id INTO published;
+  ELSE
+    INSERT INTO community_posts (community_id, user_id, content, images, files)
+    VALUES (draft.community_id, draft.user_id, draft.content, draft.images, draft.files)
+    RETURNING id INTO published;
+  END IF;
+
+  DELETE FROM post_drafts WHERE id = draft.id;
+  RETURN published;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_draft(uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Posts one of the caller's drafts now
+CREATE OR REPLACE FUNCTION publish_post_draft(target_draft uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM post_drafts WHERE id = target_draft AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN publish_draft(target_draft, false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_post_draft(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION publish_post_draft(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION publish_scheduled_posts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due uuid;
+  published integer := 0;
+BEGIN
+  FOR due IN
+    SELECT id FROM post_drafts
+    WHERE scheduled_at IS NOT NULL AND scheduled_at <= now()
+    ORDER BY scheduled_at
+  LOOP
+    IF publish_draft(due, true) IS NOT NULL THEN
+      published := published + 1;
+    END IF;
+  END LOOP;
+  RETURN published;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('publish-scheduled-posts', '* * * * *', 'SELECT publish_scheduled_posts()');
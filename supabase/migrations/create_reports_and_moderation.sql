@@ -0,0 +1,519 @@
+/*
+  # Reports and Moderation
+
+  1. New Tables
+    - `reports`: one user flagging one piece of content or a profile
+      - `target_type` ('post', 'community_post', 'comment',
+        'community_comment', 'listing', 'message', 'profile') and `target_id`
+      - `target_user_id` (the author, seller, sender or profile owner),
+        `community_id` (set for community content) and `target_preview` (the
+        start of the content), all captured when the report is filed so the
+        queue keeps its context after the content is hidden or deleted
+      - `anonymous` (the target is an anonymous post or a comment on one)
+      - `reason` ('spam', 'harassment', 'hate', 'scam', 'inappropriate',
+        'other') and optional `details`
+      - `status` ('open', 'dismissed', 'actioned'), `resolved_by`,
+        `resolved_at`, `resolution` (the action taken)
+    - `moderation_actions`: the audit trail, one row per decision
+      - `moderator_id`, `action` ('dismiss', 'hide', 'delete', 'warn', 'ban'),
+        `target_type`, `target_id`, `target_user_id`, `community_id`, `note`,
+        `report_count` (open reports the decision settled)
+    - `user_bans`: `user_id`, `community_id` (null for a site-wide ban),
+      `banned_by`, `reason`
+
+  2. Changes
+    - `profiles.is_site_admin` (boolean): site admins see every report. It
+      can only be changed from the dashboard or the service role.
+    - `hidden_at` / `hidden_by` on posts, community posts, both comment
+      tables, marketplace items and messages; `community_post_feed` is
+      recreated to pick them up
+    - notifications.type also allows 'moderation_warning'
+
+  3. Functions
+    - `submit_report(target_type, target_id, reason, details)`: files a
+      report on anything the caller can see and returns its id
+    - `moderate_reported_content(target_type, target_id, action, note)`:
+      applies a decision, settles every open report on the target and logs it.
+      Site admins can act on anything; members with 'delete_posts' can act on
+      their community's content, and banning (from the community) needs its
+      admin role. Bans on content outside communities are site-wide.
+
+  4. Security
+    - Reports are visible to site admins and the moderators of the community
+      they belong to; the audit trail likewise. Reporters see their own
+      through the `my_reports` view, without the author of anonymous content.
+    - Hidden rows are filtered out by RESTRICTIVE select policies
+    - Banned users cannot post, comment, list, message or report, and cannot
+      rejoin a community they were banned from
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS is_site_admin boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION is_site_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT is_site_admin FROM profiles WHERE id = auth.uid()), false);
+$$;
+
+-- Users update their own profile row, so the flag needs guarding separately.
+-- The dashboard and service role have no auth.uid() and pass through.
+CREATE OR REPLACE FUNCTION protect_site_admin_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_site_admin := false;
+    ELSIF NEW.is_site_admin IS DISTINCT FROM OLD.is_site_admin THEN
+      RAISE EXCEPTION 'Site admins are appointed from the dashboard' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_site_admin_flag ON profiles;
+CREATE TRIGGER protect_site_admin_flag
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_site_admin_flag();
+
+-- Hidden content
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- `community_post_feed` selects `p.*`; recreate it so the view's column list
+-- matches the table again
+DROP VIEW IF EXISTS community_post_feed;
+CREATE VIEW community_post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  (SELECT count(*) FROM community_likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM community_comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  (mine.id IS NOT NULL) AS liked_by_me,
+  mine.id AS my_like_id,
+  (
+    SELECT coalesce(jsonb_object_agg(counts.reaction, counts.total), '{}'::jsonb)
+    FROM (
+      SELECT l.reaction, count(*)::integer AS total
+      FROM community_likes l
+      WHERE l.post_id = p.id
+      GROUP BY l.reaction
+    ) counts
+  ) AS reaction_counts,
+  mine.reaction AS my_reaction
+FROM community_posts p
+LEFT JOIN community_likes mine
+  ON mine.post_id = p.id AND mine.user_id = auth.uid();
+
+GRANT SELECT ON community_post_feed TO authenticated;
+
+DROP POLICY IF EXISTS "Hidden posts are not shown" ON posts;
+CREATE POLICY "Hidden posts are not shown"
+  ON posts AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL);
+
+DROP POLICY IF EXISTS "Hidden community posts are not shown" ON community_posts;
+CREATE POLICY "Hidden community posts are not shown"
+  ON community_posts AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL);
+
+DROP POLICY IF EXISTS "Hidden comments are not shown" ON comments;
+CREATE POLICY "Hidden comments are not shown"
+  ON comments AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL);
+
+DROP POLICY IF EXISTS "Hidden community comments are not shown" ON community_comments;
+CREATE POLICY "Hidden community comments are not shown"
+  ON community_comments AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL);
+
+DROP POLICY IF EXISTS "Hidden listings are not shown" ON marketplace_items;
+CREATE POLICY "Hidden listings are not shown"
+  ON marketplace_items AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL);
+
+DROP POLICY IF EXISTS "Hidden messages are not shown" ON messages;
+CREATE POLICY "Hidden messages are not shown"
+  ON messages AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL);
+
+-- Bans
+CREATE TABLE IF NOT EXISTS user_bans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  banned_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_bans_site
+  ON user_bans(user_id) WHERE community_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_bans_community
+  ON user_bans(user_id, community_id) WHERE community_id IS NOT NULL;
+
+ALTER TABLE user_bans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can see their own bans" ON user_bans;
+CREATE POLICY "Users can see their own bans"
+  ON user_bans FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_site_admin() OR (community_id IS NOT NULL AND community_can(community_id, 'delete_posts')));
+
+-- Whether `member` is banned site-wide or, when given, from `target_community`
+CREATE OR REPLACE FUNCTION is_banned(member uuid, target_community uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_bans
+    WHERE user_id = member
+      AND (community_id IS NULL OR community_id = target_community)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Banned users cannot post" ON posts;
+CREATE POLICY "Banned users cannot post"
+  ON posts AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_banned(auth.uid()));
+
+DROP POLICY IF EXISTS "Banned users cannot comment" ON comments;
+CREATE POLICY "Banned users cannot comment"
+  ON comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_banned(auth.uid()));
+
+DROP POLICY IF EXISTS "Banned users cannot post in communities" ON community_posts;
+CREATE POLICY "Banned users cannot post in communities"
+  ON community_posts AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_banned(auth.uid(), community_id));
+
+DROP POLICY IF EXISTS "Banned users cannot comment in communities" ON community_comments;
+CREATE POLICY "Banned users cannot comment in communities"
+  ON community_comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_banned(auth.uid(), (SELECT community_id FROM community_posts WHERE id = post_id)));
+
+DROP POLICY IF EXISTS "Banned users cannot list items" ON marketplace_items;
+CREATE POLICY "Banned users cannot list items"
+  ON marketplace_items AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_banned(auth.uid()));
+
+DROP POLICY IF EXISTS "Banned users cannot send messages" ON messages;
+CREATE POLICY "Banned users cannot send messages"
+  ON messages AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_banned(auth.uid()));
+
+-- join_community() and the member policies all insert here, so one trigger
+-- covers invites, links, requests and direct adds
+CREATE OR REPLACE FUNCTION refuse_banned_members()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_banned(NEW.user_id, NEW.community_id) THEN
+    RAISE EXCEPTION 'This user is banned from the community' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refuse_banned_members ON community_memberships;
+CREATE TRIGGER refuse_banned_members
+  BEFORE INSERT ON community_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION refuse_banned_members();
+
+-- Reports
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN (
+    'post', 'community_post', 'comment', 'community_comment', 'listing', 'message', 'profile'
+  )),
+  target_id uuid NOT NULL,
+  target_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  target_preview text,
+  anonymous boolean NOT NULL DEFAULT false,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'scam', 'inappropriate', 'other')),
+  details text CHECK (details IS NULL OR length(details) <= 1000),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolution text CHECK (resolution IS NULL OR resolution IN ('dismiss', 'hide', 'delete', 'warn', 'ban')),
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One open report per person and target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_per_reporter
+  ON reports(reporter_id, target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_open_target
+  ON reports(target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_community
+  ON reports(community_id, created_at DESC) WHERE community_id IS NOT NULL;
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+-- Filed and resolved through the functions below only
+-- Reporters read their own reports through `my_reports`, which doesn't give
+-- away who is behind an anonymous post
+DROP POLICY IF EXISTS "Reporters and moderators can view reports" ON reports;
+DROP POLICY IF EXISTS "Moderators can view reports" ON reports;
+CREATE POLICY "Moderators can view reports"
+  ON reports FOR SELECT
+  TO authenticated
+  USING (
+    is_site_admin()
+    OR (community_id IS NOT NULL AND community_can(community_id, 'delete_posts'))
+  );
+
+-- Runs as its owner, like anonymous_post_feed, so it filters to the caller itself
+CREATE OR REPLACE VIEW my_reports AS
+SELECT
+  r.id,
+  r.reporter_id,
+  r.target_type,
+  r.target_id,
+  CASE WHEN NOT r.anonymous THEN r.target_user_id END AS target_user_id,
+  r.community_id,
+  r.target_preview,
+  r.anonymous,
+  r.reason,
+  r.details,
+  r.status,
+  r.resolution,
+  r.resolved_at,
+  r.created_at
+FROM reports r
+WHERE r.reporter_id = auth.uid();
+
+REVOKE ALL ON my_reports FROM anon;
+GRANT SELECT ON my_reports TO authenticated;
+
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderator_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('dismiss', 'hide', 'delete', 'warn', 'ban')),
+  target_type text NOT NULL,
+  target_id uuid NOT NULL,
+  target_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  note text,
+  report_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created ON moderation_actions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_community
+  ON moderation_actions(community_id, created_at DESC) WHERE community_id IS NOT NULL;
+
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Moderators can view the audit trail" ON moderation_actions;
+CREATE POLICY "Moderators can view the audit trail"
+  ON moderation_actions FOR SELECT
+  TO authenticated
+  USING (is_site_admin() OR (community_id IS NOT NULL AND community_can(community_id, 'delete_posts')));
+
+-- Who wrote a piece of content, where it lives and how it starts. Returns
+-- no row when the target does not exist or the caller cannot see it.
+CREATE OR REPLACE FUNCTION report_target_context(report_target_type text, report_target_id uuid)
+RETURNS TABLE (target_user_id uuid, community_id uuid, preview text, anonymous boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE report_target_type
+    WHEN 'post' THEN
+      RETURN QUERY SELECT p.user_id, NULL::uuid, p.content, p.visibility = 'anonymous'
+        FROM posts p WHERE p.id = report_target_id;
+    WHEN 'comment' THEN
+      RETURN QUERY SELECT c.user_id, NULL::uuid, c.content, coalesce(p.visibility = 'anonymous', false)
+        FROM comments c LEFT JOIN posts p ON p.id = c.post_id WHERE c.id = report_target_id;
+    WHEN 'community_post' THEN
+      RETURN QUERY SELECT p.user_id, p.community_id, p.content, false
+        FROM community_posts p JOIN communities co ON co.id = p.community_id
+        WHERE p.id = report_target_id AND (NOT co.is_private OR is_community_member(co.id));
+    WHEN 'community_comment' THEN
+      RETURN QUERY SELECT c.user_id, p.community_id, c.content, false
+        FROM community_comments c
+        JOIN community_posts p ON p.id = c.post_id
+        JOIN communities co ON co.id = p.community_id
+        WHERE c.id = report_target_id AND (NOT co.is_private OR is_community_member(co.id));
+    WHEN 'listing' THEN
+      RETURN QUERY SELECT i.seller_id, NULL::uuid, i.title || ' — ' || i.description, false
+        FROM marketplace_items i WHERE i.id = report_target_id;
+    WHEN 'message' THEN
+      RETURN QUERY SELECT m.sender_id, NULL::uuid, m.content, false
+        FROM messages m
+        WHERE m.id = report_target_id AND auth.uid() IN (m.sender_id, m.receiver_id);
+    WHEN 'profile' THEN
+      RETURN QUERY SELECT pr.id, NULL::uuid, concat_ws(' — ', '@' || pr.username, pr.bio), false
+        FROM profiles pr WHERE pr.id = report_target_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown report target %', report_target_type USING ERRCODE = '22P02';
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_report(target_type text, target_id uuid, reason text, details text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  context record;
+  report_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to report content' USING ERRCODE = '42501';
+  END IF;
+  IF is_banned(auth.uid()) THEN
+    RAISE EXCEPTION 'Banned users cannot file reports' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO context FROM report_target_context(target_type, target_id);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Nothing to report' USING ERRCODE = 'P0002';
+  END IF;
+  IF context.target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report yourself' USING ERRCODE = '22P02';
+  END IF;
+
+  INSERT INTO reports (reporter_id, target_type, target_id, target_user_id, community_id, target_preview, anonymous, reason, details)
+  VALUES (
+    auth.uid(), target_type, target_id, context.target_user_id, context.community_id,
+    left(context.preview, 280), context.anonymous, reason, nullif(btrim(details), '')
+  )
+  RETURNING id INTO report_id;
+
+  RETURN report_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_reported_content(target_type text, target_id uuid, action text, note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  settled integer;
+BEGIN
+  -- The context from the latest report, so deleted content can still be dismissed
+  SELECT r.target_user_id, r.community_id, r.target_preview INTO target
+    FROM reports r
+    WHERE r.target_type = moderate_reported_content.target_type AND r.target_id = moderate_reported_content.target_id
+    ORDER BY r.created_at DESC
+    LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No reports on this content' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (is_site_admin() OR (target.community_id IS NOT NULL AND community_can(target.community_id, 'delete_posts'))) THEN
+    RAISE EXCEPTION 'You cannot moderate this content' USING ERRCODE = '42501';
+  END IF;
+  IF action = 'ban' AND target.community_id IS NULL AND NOT is_site_admin() THEN
+    RAISE EXCEPTION 'Only site admins can ban people from the site' USING ERRCODE = '42501';
+  END IF;
+  IF action = 'ban' AND target.community_id IS NOT NULL AND NOT (is_community_admin(target.community_id) OR is_site_admin()) THEN
+    RAISE EXCEPTION 'Only community admins can ban members' USING ERRCODE = '42501';
+  END IF;
+  IF action IN ('hide', 'delete') AND moderate_reported_content.target_type = 'profile' THEN
+    RAISE EXCEPTION 'Profiles can only be warned or banned' USING ERRCODE = '22P02';
+  END IF;
+
+  CASE action
+    WHEN 'hide' THEN
+      CASE moderate_reported_content.target_type
+        WHEN 'post' THEN UPDATE posts SET hidden_at = now(), hidden_by = auth.uid() WHERE id = target_id;
+        WHEN 'community_post' THEN UPDATE community_posts SET hidden_at = now(), hidden_by = auth.uid() WHERE id = target_id;
+        WHEN 'comment' THEN UPDATE comments SET hidden_at = now(), hidden_by = auth.uid() WHERE id = target_id;
+        WHEN 'community_comment' THEN UPDATE community_comments SET hidden_at = now(), hidden_by = auth.uid() WHERE id = target_id;
+        WHEN 'listing' THEN UPDATE marketplace_items SET hidden_at = now(), hidden_by = auth.uid() WHERE id = target_id;
+        WHEN 'message' THEN UPDATE messages SET hidden_at = now(), hidden_by = auth.uid() WHERE id = target_id;
+      END CASE;
+    WHEN 'delete' THEN
+      -- Comments are cleared rather than removed so their replies keep their place
+      CASE moderate_reported_content.target_type
+        WHEN 'post' THEN DELETE FROM posts WHERE id = target_id;
+        WHEN 'community_post' THEN DELETE FROM community_posts WHERE id = target_id;
+        WHEN 'comment' THEN UPDATE comments SET content = '', deleted_at = coalesce(deleted_at, now()) WHERE id = target_id;
+        WHEN 'community_comment' THEN UPDATE community_comments SET content = '', deleted_at = coalesce(deleted_at, now()) WHERE id = target_id;
+        WHEN 'listing' THEN DELETE FROM marketplace_items WHERE id = target_id;
+        WHEN 'message' THEN DELETE FROM messages WHERE id = target_id;
+      END CASE;
+    WHEN 'warn' THEN
+      PERFORM create_notification(target.target_user_id, auth.uid(), 'moderation_warning', true, NULL, NULL,
+        NULL, target.community_id, NULL, NULL, NULL, coalesce(note, target.target_preview));
+    WHEN 'ban' THEN
+      INSERT INTO user_bans (user_id, community_id, banned_by, reason)
+      VALUES (target.target_user_id, target.community_id, auth.uid(), note)
+      ON CONFLICT DO NOTHING;
+      IF target.community_id IS NOT NULL THEN
+        DELETE FROM community_memberships
+          WHERE community_id = target.community_id AND user_id = target.target_user_id;
+      END IF;
+    WHEN 'dismiss' THEN
+      NULL;
+    ELSE
+      RAISE EXCEPTION 'Unknown moderation action %', action USING ERRCODE = '22P02';
+  END CASE;
+
+  UPDATE reports r
+    SET status = CASE WHEN action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+        resolution = action,
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE r.target_type = moderate_reported_content.target_type
+      AND r.target_id = moderate_reported_content.target_id
+      AND r.status = 'open';
+  GET DIAGNOSTICS settled = ROW_COUNT;
+
+  INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, target_user_id, community_id, note, report_count)
+  VALUES (auth.uid(), action, moderate_reported_content.target_type, target_id, target.target_user_id,
+    target.community_id, nullif(btrim(note), ''), settled);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_target_context(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_report(text, uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_reported_content(text, uuid, text, text) TO authenticated;
+
+-- Notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'reaction', 'comment', 'reply', 'mention', 'community_added',
+  'community_invite', 'join_request', 'join_approved', 'message',
+  'moderation_warning'
+));
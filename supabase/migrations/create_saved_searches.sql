@@ -0,0 +1,138 @@
+/*
+  # Marketplace Saved Searches
+
+  1. New Tables
+    - `marketplace_saved_searches`: a search a user keeps, with the filters
+      the browse view offers
+      - `keywords`: every word must appear in the listing's title or
+        description; empty matches any listing
+      - `category`, `condition`, `location`: null for any; location matches
+        as a case-insensitive substring
+      - `min_price`, `max_price`: inclusive bounds, null for open-ended
+      - `alerts_enabled`: whether new matching listings notify the user
+
+  2. Alerts
+    - When a listing goes live, on insert as 'active' or when a draft is
+      published, every user with a matching saved search gets one
+      'listing_match' notification for it, however many of their searches
+      match. Sellers are not alerted about their own listings, nor are users
+      blocked with the seller.
+
+  3. Security
+    - Users can only see and manage their own saved searches
+*/
+
+CREATE TABLE IF NOT EXISTS marketplace_saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  keywords text NOT NULL DEFAULT '',
+  category text,
+  condition text,
+  min_price decimal(10,2) CHECK (min_price >= 0),
+  max_price decimal(10,2) CHECK (max_price >= 0),
+  location text,
+  alerts_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (min_price IS NULL OR max_price IS NULL OR min_price <= max_price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_saved_searches_user ON marketplace_saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_marketplace_saved_searches_alerts
+  ON marketplace_saved_searches(category) WHERE alerts_enabled;
+
+ALTER TABLE marketplace_saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their saved searches" ON marketplace_saved_searches;
+CREATE POLICY "Users can read their saved searches"
+  ON marketplace_saved_searches FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their saved searches" ON marketplace_saved_searches;
+CREATE POLICY "Users can create their saved searches"
+  ON marketplace_saved_searches FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their saved searches" ON marketplace_saved_searches;
+CREATE POLICY "Users can update their saved searches"
+  ON marketplace_saved_searches FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their saved searches" ON marketplace_saved_searches;
+CREATE POLICY "Users can delete their saved searches"
+  ON marketplace_saved_searches FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Same rules as matchesSavedSearch() in the client
+CREATE OR REPLACE FUNCTION saved_search_matches(search marketplace_saved_searches, item marketplace_items)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (search.category IS NULL OR search.category = item.category)
+    AND (search.condition IS NULL OR search.condition = item.condition)
+    AND (search.min_price IS NULL OR item.price >= search.min_price)
+    AND (search.max_price IS NULL OR item.price <= search.max_price)
+    AND (search.location IS NULL
+      OR position(lower(btrim(search.location)) IN lower(coalesce(item.location, ''))) > 0)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM regexp_split_to_table(lower(search.keywords), '[^[:alnum:]_]+') AS term
+      WHERE term <> ''
+        AND position(term IN lower(item.title || ' ' || coalesce(item.description, ''))) = 0
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION alert_saved_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  searcher uuid;
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR searcher IN
+    SELECT DISTINCT s.user_id
+    FROM marketplace_saved_searches s
+    WHERE s.alerts_enabled
+      AND s.user_id <> NEW.seller_id
+      AND saved_search_matches(s, NEW)
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE (b.blocker_id = s.user_id AND b.blocked_id = NEW.seller_id)
+           OR (b.blocker_id = NEW.seller_id AND b.blocked_id = s.user_id)
+      )
+  LOOP
+    PERFORM create_notification(searcher, NEW.seller_id, 'listing_match',
+      target_item_id => NEW.id, preview_text => NEW.title);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alert_saved_searches ON marketplace_items;
+CREATE TRIGGER alert_saved_searches
+  AFTER INSERT OR UPDATE OF status ON marketplace_items
+  FOR EACH ROW
+  EXECUTE FUNCTION alert_saved_searches();
+
+-- Notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'reaction', 'comment', 'reply', 'mention', 'community_added',
+  'community_invite', 'join_request', 'join_approved', 'message',
+  'moderation_warning', 'review', 'listing_match'
+));
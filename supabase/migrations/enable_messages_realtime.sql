@@ -0,0 +1,29 @@
+/*
+  # Enable Realtime on Messages
+
+  1. Realtime
+    - Add `messages` to the `supabase_realtime` publication so inserts and
+      updates are broadcast to `postgres_changes` subscribers
+    - Set REPLICA IDENTITY FULL so update and delete payloads carry the
+      `conversation_id`, `sender_id` and `receiver_id` used by channel filters
+
+  2. Notes
+    - Realtime respects the existing RLS policies on `messages`, so clients only
+      receive rows where they are the sender or the receiver
+    - Clients backfill with `created_at > last seen` after reconnecting
+*/
+
+ALTER TABLE messages REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
+
+-- Backfill queries filter by conversation/participant and created_at
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at ON messages(conversation_id, created_at);